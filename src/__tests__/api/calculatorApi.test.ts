@@ -0,0 +1,182 @@
+/**
+ * Calculator API Tests
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { z } from 'zod';
+import { CalculatorApi } from '../../api/calculatorApi';
+import { createRequestHandler } from '../../api/httpHandler';
+import { inputSchema, zodToSchema, type OpenApiDocument } from '../../api/openApi';
+import { CalculatorModuleRegistry } from '../../core/ModuleRegistry';
+import { featureCalculators, getFeatureCalculator, registerFeatureCalculators } from '../../features/calculators/registry';
+import { HeatAffectedZoneCalculator } from '../../features/calculators/heat-affected-zone-calculator/HeatAffectedZoneCalculator';
+
+const HAZ = 'heat-affected-zone-calculator';
+const haz = new HeatAffectedZoneCalculator();
+
+describe('CalculatorApi', () => {
+  const registry = new CalculatorModuleRegistry();
+  let api: CalculatorApi;
+
+  // Replies as the server sends them: JSON on the wire
+  const send = async (method: string, url: string, body?: unknown) => {
+    const reply = await api.handle({ method, url, body: typeof body === 'string' ? body : JSON.stringify(body) });
+    return { status: reply.status, body: JSON.parse(JSON.stringify(reply.body)) };
+  };
+
+  beforeAll(async () => {
+    await registerFeatureCalculators(registry);
+    api = new CalculatorApi(registry, { serverUrl: 'http://127.0.0.1:3100' });
+  });
+
+  it('should convert zod schemas to OpenAPI schemas', () => {
+    const schema = z.object({
+      thickness: z.number().min(0.5).max(50),
+      passes: z.number().int().gt(0).optional(),
+      gas: z.enum(['oxygen', 'nitrogen']).default('oxygen'),
+      notes: z.string().max(200).nullable().optional(),
+      points: z.array(z.object({ x: z.number(), y: z.number() })).min(2)
+    }).refine(inputs => inputs.thickness > 0);
+
+    expect(zodToSchema(schema)).toEqual({
+      type: 'object',
+      required: ['thickness', 'points'],
+      properties: {
+        thickness: { type: 'number', minimum: 0.5, maximum: 50 },
+        passes: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+        gas: { type: 'string', enum: ['oxygen', 'nitrogen'], default: 'oxygen' },
+        notes: { type: 'string', maxLength: 200, nullable: true },
+        points: {
+          type: 'array',
+          minItems: 2,
+          items: { type: 'object', required: ['x', 'y'], properties: { x: { type: 'number' }, y: { type: 'number' } } }
+        }
+      }
+    });
+  });
+
+  it('should list calculators and describe their inputs', async () => {
+    const list = await send('GET', '/calculators');
+    expect(list.status).toBe(200);
+    expect(list.body.data.map((calculator: { id: string }) => calculator.id))
+      .toEqual(featureCalculators.map(calculator => calculator.config.id));
+
+    const schema = await send('GET', `/calculators/${HAZ}/schema`);
+    expect(schema.body.data.inputs.map((input: { id: string }) => input.id)).toEqual(haz.config.inputs.map(input => input.id));
+    expect(schema.body.data.inputSchema.properties.thickness).toMatchObject({
+      type: 'number',
+      minimum: 0.5,
+      title: 'Material Thickness',
+      'x-unit': 'mm'
+    });
+    featureCalculators.forEach(calculator => {
+      expect(inputSchema(calculator).properties?.machineId).toMatchObject({ type: 'string' });
+    });
+
+    expect((await send('GET', '/calculators/nope/schema')).status).toBe(404);
+    expect((await send('POST', '/calculators')).status).toBe(405);
+    expect((await send('GET', '/quotes')).status).toBe(404);
+  });
+
+  it('should validate bodies through the calculator schema and run single and batch calculations', async () => {
+    const example = haz.getExampleInputs();
+    const expected = await haz.calculate(example);
+
+    const calculated = await send('POST', `/calculators/${HAZ}/calculate`, example);
+    expect(calculated.status).toBe(200);
+    expect(calculated.body.data.data).toEqual(JSON.parse(JSON.stringify(expected.data)));
+
+    const invalid = await send('POST', `/calculators/${HAZ}/calculate`, { materialType: 'steel', thickness: -1 });
+    expect(invalid.status).toBe(422);
+    expect(invalid.body.errors.map((error: { field: string }) => error.field)).toEqual(
+      expect.arrayContaining(['thickness', 'laserPower'])
+    );
+    expect((await send('POST', `/calculators/${HAZ}/calculate`, '{not json')).status).toBe(400);
+    expect((await send('POST', `/calculators/${HAZ}/calculate`, [example])).status).toBe(400);
+
+    const batch = await send('POST', `/calculators/${HAZ}/batch`, { items: [example, {}, { ...example, thickness: 8 }] });
+    expect(batch.status).toBe(200);
+    expect(batch.body.data).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(batch.body.data.items[1].success).toBe(false);
+    expect(batch.body.data.items[1].errors.length).toBeGreaterThan(0);
+    expect(batch.body.data.items[2].result.success).toBe(true);
+    expect((await send('POST', `/calculators/${HAZ}/batch`, { items: [] })).status).toBe(400);
+  });
+
+  it('should report a batch item that throws in its own slot', async () => {
+    const calculator = getFeatureCalculator(registry, HAZ)!;
+    const example = haz.getExampleInputs();
+    const spy = vi.spyOn(calculator, 'calculate').mockRejectedValueOnce(new Error('solver diverged'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const batch = await send('POST', `/calculators/${HAZ}/batch`, { items: [example, example] });
+
+    expect(batch.status).toBe(200);
+    expect(batch.body.data).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(batch.body.data.items[0]).toEqual({ index: 0, success: false, error: 'solver diverged' });
+    expect(batch.body.data.items[1].result.success).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+
+  it('should generate an OpenAPI document with typed operations for every calculator', async () => {
+    const { status, body } = await send('GET', '/openapi.json');
+    const document = body as OpenApiDocument;
+
+    expect(status).toBe(200);
+    expect(document.openapi).toMatch(/^3\./);
+    expect(document.servers).toEqual([{ url: 'http://127.0.0.1:3100' }]);
+    for (const calculator of featureCalculators) {
+      expect(document.paths[`/calculators/${calculator.config.id}/calculate`]).toBeDefined();
+      expect(document.paths[`/calculators/${calculator.config.id}/batch`]).toBeDefined();
+    }
+
+    const operation = document.paths[`/calculators/${HAZ}/calculate`].post as {
+      operationId: string;
+      tags: string[];
+      requestBody: { content: { 'application/json': { schema: { $ref: string } } } };
+    };
+    expect(operation.operationId).toBe('calculateHeatAffectedZoneCalculator');
+    expect(operation.tags).toEqual([haz.config.category]);
+    expect(operation.requestBody.content['application/json'].schema.$ref)
+      .toBe('#/components/schemas/HeatAffectedZoneCalculatorInputs');
+    expect(document.components.schemas.HeatAffectedZoneCalculatorInputs.required).toEqual(
+      expect.arrayContaining(['materialType', 'thickness', 'laserPower'])
+    );
+
+    // Every reference resolves
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/[A-Za-z]+/g) ?? [];
+    for (const ref of new Set(refs)) {
+      expect(document.components.schemas[ref.split('/').pop()!]).toBeDefined();
+    }
+  });
+
+  it('should answer 400 when the request stream fails and drop the socket once headers are out', async () => {
+    const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const handler = createRequestHandler(api, logger);
+    const response = (headersSent: boolean) => ({
+      headersSent,
+      writeHead: vi.fn(),
+      end: vi.fn(),
+      destroy: vi.fn()
+    });
+    const aborted = () => {
+      const request = Object.assign(new PassThrough(), { method: 'POST', url: `/calculators/${HAZ}/calculate` });
+      setTimeout(() => request.destroy(new Error('aborted')));
+      return request as unknown as IncomingMessage;
+    };
+
+    const fresh = response(false);
+    await handler(aborted(), fresh as unknown as ServerResponse);
+    expect(fresh.writeHead).toHaveBeenCalledWith(400, expect.any(Object));
+    expect(JSON.parse(fresh.end.mock.calls[0][0])).toMatchObject({ success: false, error: 'Request body could not be read' });
+    expect(logger.error).toHaveBeenCalled();
+
+    const streaming = response(true);
+    await handler(aborted(), streaming as unknown as ServerResponse);
+    expect(streaming.writeHead).not.toHaveBeenCalled();
+    expect(streaming.destroy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Calculator CLI Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CalculatorCli, EXIT_CODES, parseArgs, parseCsv } from '../../cli/calculatorCli';
+import { CalculatorModuleRegistry } from '../../core/ModuleRegistry';
+import { featureCalculators, getFeatureCalculator, registerFeatureCalculators } from '../../features/calculators/registry';
+import { HeatAffectedZoneCalculator } from '../../features/calculators/heat-affected-zone-calculator/HeatAffectedZoneCalculator';
+
+const HAZ = 'heat-affected-zone-calculator';
+
+function createCli(registry: CalculatorModuleRegistry, files: Record<string, string> = {}) {
+  const output = { stdout: '', stderr: '' };
+  const cli = new CalculatorCli(registry, {
+    write: text => { output.stdout += text; },
+    error: text => { output.stderr += text; },
+    readFile: path => {
+      if (!(path in files)) throw new Error('no such file');
+      return files[path];
+    }
+  });
+  return { cli, output };
+}
+
+describe('CalculatorCli', () => {
+  const registry = new CalculatorModuleRegistry();
+
+  beforeAll(async () => {
+    await registerFeatureCalculators(registry);
+  });
+
+  it('should parse options, flags and quoted CSV cells', () => {
+    expect(parseArgs(['run', '--example', HAZ, '--thickness', '3', '--format=json', '--', '--pulsed'])).toEqual({
+      positional: ['run', HAZ],
+      options: { example: 'true', thickness: '3', format: 'json', pulsed: 'true' }
+    });
+
+    expect(parseCsv('material,note\r\nsteel,"2 mm, ""bright"""\n\naluminum,\n')).toEqual([
+      { material: 'steel', note: '2 mm, "bright"' },
+      { material: 'aluminum', note: '' }
+    ]);
+  });
+
+  it('should list every feature calculator and print its inputs', async () => {
+    const { cli, output } = createCli(registry);
+    expect(await cli.run(['list', '--format', 'json'])).toBe(EXIT_CODES.ok);
+    const listed = JSON.parse(output.stdout) as Array<{ id: string }>;
+    expect(listed.map(module => module.id)).toEqual(featureCalculators.map(calculator => calculator.config.id));
+
+    const schema = createCli(registry);
+    expect(await schema.cli.run(['schema', HAZ, '--format', 'csv'])).toBe(EXIT_CODES.ok);
+    const fields = parseCsv(schema.output.stdout);
+    expect(fields.map(field => field.field)).toEqual(new HeatAffectedZoneCalculator().config.inputs.map(input => input.id));
+    expect(fields.find(field => field.field === 'thickness')).toMatchObject({ type: 'number', unit: 'mm', range: '0.5..50' });
+
+    const unknown = createCli(registry);
+    expect(await unknown.cli.run(['schema', 'nope'])).toBe(EXIT_CODES.usage);
+    expect(unknown.output.stderr).toContain('Unknown calculator: nope');
+  });
+
+  it('should run the same calculator with flags over file inputs and stop on invalid inputs', async () => {
+    const calculator = new HeatAffectedZoneCalculator();
+    const example = calculator.getExampleInputs();
+    const expected = await calculator.calculate({ ...example, thickness: 8 });
+
+    const { cli, output } = createCli(registry, { 'job.json': JSON.stringify({ ...example, thickness: 3 }) });
+    expect(await cli.run(['run', HAZ, '--input', 'job.json', '--thickness', '8', '--format', 'json'])).toBe(EXIT_CODES.ok);
+    const printed = JSON.parse(output.stdout);
+    expect(printed.inputs.thickness).toBe(8);
+    expect(printed.result.data).toEqual(JSON.parse(JSON.stringify(expected.data)));
+
+    const invalid = createCli(registry);
+    expect(await invalid.cli.run(['run', HAZ, '--example', '--thickness=-1'])).toBe(EXIT_CODES.failed);
+    expect(invalid.output.stdout).toBe('');
+    expect(invalid.output.stderr).toContain('thickness: Number must be greater than or equal to 0.5');
+  });
+
+  it('should convert only the given inputs from imperial units over a canonical example', async () => {
+    const optimizer = 'laser-parameter-optimizer';
+    const example = getFeatureCalculator(registry, optimizer)!.getExampleInputs();
+
+    const { cli, output } = createCli(registry);
+    expect(await cli.run(['run', optimizer, '--example', '--units', 'imperial', '--format', 'json'])).toBe(EXIT_CODES.ok);
+    expect(JSON.parse(output.stdout).inputs.thickness).toBe(example.thickness);
+
+    const given = createCli(registry);
+    expect(await given.cli.run(['run', optimizer, '--example', '--units', 'imperial', '--thickness', '0.25', '--format', 'json']))
+      .toBe(EXIT_CODES.ok);
+    expect(JSON.parse(given.output.stdout).inputs.thickness).toBeCloseTo(6.35);
+  });
+
+  it('should run one calculation per batch row and fail when any row is invalid', async () => {
+    const batch = 'materialType,thickness,laserPower\nsteel,3,2000\naluminum,6,\nsteel,-2,2000\n';
+    const { cli, output } = createCli(registry, { 'jobs.csv': batch });
+
+    expect(await cli.run(['batch', HAZ, 'jobs.csv', '--example', '--laserPower', '4000', '--format', 'csv']))
+      .toBe(EXIT_CODES.failed);
+    const rows = parseCsv(output.stdout);
+    expect(rows.map(row => row.status)).toEqual(['ok', 'ok', 'invalid']);
+    expect(Number(rows[0].hazWidth)).toBeGreaterThan(0);
+    expect(rows[2].hazWidth).toBe('');
+    expect(output.stderr).toContain('Row 3 of jobs.csv');
+    expect(output.stderr).toContain('1 of 3 calculations failed');
+
+    const valid = createCli(registry, { 'jobs.csv': batch.split('\n').slice(0, 3).join('\n') });
+    expect(await valid.cli.run(['batch', HAZ, 'jobs.csv', '--example'])).toBe(EXIT_CODES.ok);
+    expect(valid.output.stderr).toBe('');
+  });
+});
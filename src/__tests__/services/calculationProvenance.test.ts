@@ -0,0 +1,84 @@
+/**
+ * Calculation Provenance Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { calculationProvenance } from '../../services/calculationProvenance';
+import { materialRegistry } from '../../services/materialRegistry';
+import { canonicalJson, contentHash, sha256 } from '../../utils/contentHash';
+import { HeatAffectedZoneCalculator, type HeatAffectedZoneInputs } from '../../features/calculators/heat-affected-zone-calculator/HeatAffectedZoneCalculator';
+
+describe('CalculationProvenance', () => {
+  const calculator = new HeatAffectedZoneCalculator();
+  const inputs = calculator.getExampleInputs();
+  const resolve = () => calculator.resolveInputs(inputs) as HeatAffectedZoneInputs;
+
+  afterEach(() => {
+    materialRegistry.remove('audit_steel');
+  });
+
+  it('hashes content independently of key order', () => {
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(canonicalJson({ b: 1, a: { d: [2, 1], c: undefined } })).toBe('{"a":{"d":[2,1]},"b":1}');
+    expect(contentHash({ x: 1, y: [1, 2] })).toBe(contentHash({ y: [1, 2], x: 1 }));
+    expect(contentHash({ x: 1 })).not.toBe(contentHash({ x: 2 }));
+  });
+
+  it('records the calculator version, input hash and data versions a result used', async () => {
+    const resolved = resolve();
+    const result = await calculator.calculate(resolved);
+    const provenance = calculationProvenance.capture(calculator, result);
+
+    expect(provenance).toMatchObject({
+      calculatorId: calculator.config.id,
+      calculatorVersion: calculator.config.version,
+      inputHash: contentHash(resolved)
+    });
+    expect(provenance.dataVersions.materials).toMatch(/^[0-9a-f]{64}$/);
+
+    materialRegistry.extend('carbon_steel', { id: 'audit_steel', name: 'Audit Steel' });
+    expect(calculationProvenance.currentDataVersions().materials).not.toBe(provenance.dataVersions.materials);
+    materialRegistry.remove('audit_steel');
+    expect(calculationProvenance.currentDataVersions()).toEqual(provenance.dataVersions);
+  });
+
+  it('re-runs an unchanged calculation without differences', async () => {
+    const result = await calculator.calculate(resolve());
+    const saved = {
+      inputs,
+      outputs: JSON.parse(JSON.stringify(result.data)),
+      provenance: calculationProvenance.capture(calculator, result)
+    };
+
+    const comparison = await calculationProvenance.rerun(calculator, saved);
+
+    expect(comparison.unchanged).toBe(true);
+    expect(comparison.changes).toEqual([]);
+    expect(comparison.causes).toEqual([]);
+  });
+
+  it('lists changed result fields and the version changes behind them', async () => {
+    const result = await calculator.calculate(resolve());
+    const provenance = calculationProvenance.capture(calculator, result);
+    const field = Object.keys(result.data!).find(key => typeof result.data![key] === 'number' && result.data![key] > 0)!;
+    const saved = {
+      inputs,
+      outputs: { ...result.data, [field]: result.data![field] * 2, retiredField: 'legacy' },
+      provenance: {
+        ...provenance,
+        calculatorVersion: '0.9.0',
+        dataVersions: { ...provenance.dataVersions, materials: 'f'.repeat(64) }
+      }
+    };
+
+    const comparison = await calculationProvenance.rerun(calculator, saved);
+
+    expect(comparison.unchanged).toBe(false);
+    expect(comparison.changes).toEqual([
+      { path: field, before: result.data![field] * 2, after: result.data![field], delta: -result.data![field], relativeChange: -0.5 },
+      { path: 'retiredField', before: 'legacy', after: undefined }
+    ].sort((a, b) => (a.path < b.path ? -1 : 1)));
+    expect(comparison.causes.map(cause => cause.source)).toEqual(['calculator', 'materials']);
+    expect(comparison.causes[0].description).toBe(`Calculator updated from 0.9.0 to ${calculator.config.version}`);
+  });
+});
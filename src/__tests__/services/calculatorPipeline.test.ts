@@ -0,0 +1,118 @@
+/**
+ * Calculator Pipeline Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CalculatorPipeline, type PipelineDefinition } from '../../services/calculatorPipeline';
+import { PowerSpeedMatchingCalculator } from '../../features/calculators/power-speed-matching/PowerSpeedMatchingCalculator';
+import { HeatAffectedZoneCalculator } from '../../features/calculators/heat-affected-zone-calculator/HeatAffectedZoneCalculator';
+import { DrossFormationCalculator } from '../../features/calculators/dross-formation-calculator/DrossFormationCalculator';
+
+const matching = new PowerSpeedMatchingCalculator();
+const haz = new HeatAffectedZoneCalculator();
+const dross = new DrossFormationCalculator();
+
+const SETTINGS = {
+  laserPower: { step: 'match', output: 'optimalSettings.power' },
+  cuttingSpeed: { step: 'match', output: 'optimalSettings.speed' }
+};
+
+const unbound = (inputs: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(inputs).filter(([key]) => !(key in SETTINGS)));
+
+// Matched power and speed feed the HAZ and dross checks; HAZ asks to run first
+function createPipeline(): PipelineDefinition {
+  return {
+    name: 'Parameters and quality checks',
+    steps: [
+      { id: 'dross', calculatorId: dross.config.id, inputs: unbound(dross.getExampleInputs()), bindings: SETTINGS },
+      { id: 'haz', calculatorId: haz.config.id, inputs: unbound(haz.getExampleInputs()), bindings: SETTINGS, priority: 10 },
+      { id: 'match', calculatorId: matching.config.id, inputs: { ...matching.getExampleInputs() } }
+    ]
+  };
+}
+
+describe('CalculatorPipeline', () => {
+  let pipeline: CalculatorPipeline;
+
+  beforeEach(() => {
+    localStorage.clear();
+    pipeline = new CalculatorPipeline();
+    [matching, haz, dross].forEach(calculator => pipeline.registerCalculator(calculator));
+  });
+
+  it('should order steps by their bindings and reject cycles', () => {
+    const definition = createPipeline();
+
+    // Priority orders the ready steps but never jumps a dependency
+    expect(pipeline.order(definition)).toEqual(['match', 'haz', 'dross']);
+    expect(pipeline.downstreamOf(definition, 'match')).toEqual(['haz', 'dross']);
+    expect(pipeline.downstreamOf(definition, 'haz')).toEqual([]);
+
+    const cyclic = createPipeline();
+    cyclic.steps[2].bindings = { currentPower: { step: 'haz', output: 'thermalAnalysis.peakTemperature' } };
+    expect(() => pipeline.order(cyclic)).toThrow('depends on its own output');
+
+    const dangling = createPipeline();
+    dangling.steps[0].bindings = { laserPower: { step: 'quote', output: 'total' } };
+    expect(() => pipeline.order(dangling)).toThrow('unknown step quote');
+    expect(() => pipeline.order({ name: 'x', steps: [{ id: 'a', calculatorId: 'nope', inputs: {} }] }))
+      .toThrow('Unknown calculator for step a');
+  });
+
+  it('should feed outputs downstream and re-run only the affected steps', async () => {
+    const definition = createPipeline();
+    const first = await pipeline.run(definition);
+
+    expect(first.success).toBe(true);
+    expect(first.executed).toEqual(['match', 'haz', 'dross']);
+    expect(first.steps.haz.inputs.laserPower).toBe(first.steps.match.result?.data?.optimalSettings.power);
+    expect(first.steps.dross.inputs.cuttingSpeed).toBe(first.steps.match.result?.data?.optimalSettings.speed);
+
+    expect((await pipeline.run(definition, first)).executed).toEqual([]);
+
+    const drossChanged = createPipeline();
+    drossChanged.steps[0].inputs.nozzleDiameter = 2;
+    const second = await pipeline.run(drossChanged, first);
+    expect(second.executed).toEqual(['dross']);
+    expect(second.steps.haz.reused).toBe(true);
+
+    // A bigger source matches the same settings, so nothing downstream moves
+    const largerSource = createPipeline();
+    largerSource.steps[2].inputs.maxPower = 6000;
+    expect((await pipeline.run(largerSource, first)).executed).toEqual(['match']);
+
+    const faster = createPipeline();
+    faster.steps[2].inputs.priorityGoal = 'speed';
+    const third = await pipeline.run(faster, first);
+    expect(third.executed).toEqual(['match', 'haz', 'dross']);
+    expect(third.steps.haz.inputs.cuttingSpeed).toBeGreaterThan(first.steps.haz.inputs.cuttingSpeed as number);
+  });
+
+  it('should stop at a step whose inputs fail validation', async () => {
+    const definition = createPipeline();
+    definition.steps[1].inputs.thickness = -1;
+    const run = await pipeline.run(definition);
+
+    expect(run.success).toBe(false);
+    expect(run.failedStep).toBe('haz');
+    expect(run.steps.haz.error).toContain('thickness');
+    expect(run.steps.dross).toBeUndefined();
+  });
+
+  it('should save, update and delete templates', () => {
+    const template = pipeline.saveTemplate(createPipeline(), { description: 'Quality gate' });
+
+    const reloaded = new CalculatorPipeline();
+    expect(reloaded.getTemplate(template.id)).toEqual(template);
+
+    const renamed = pipeline.saveTemplate({ ...createPipeline(), name: 'Renamed' }, { id: template.id });
+    expect(renamed.createdAt).toBe(template.createdAt);
+    expect(renamed.description).toBe('Quality gate');
+    expect(pipeline.listTemplates().map(t => t.name)).toEqual(['Renamed']);
+
+    pipeline.deleteTemplate(template.id);
+    expect(new CalculatorPipeline().listTemplates()).toEqual([]);
+    expect(() => pipeline.getTemplate(template.id)).toThrow('Unknown pipeline template');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Contour Processor Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ContourProcessor, ProcessedContour } from '../../services/contourProcessor';
+import { GeometryCalculator, GeometryShape } from '../../services/geometryCalculator';
+import { pointInPolygon } from '../../utils/geometryUtils';
+
+const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+function leadPoints(contour: ProcessedContour) {
+  return [...contour.leadIn.points.slice(0, -1), ...contour.leadOut.points.slice(1)];
+}
+
+describe('ContourProcessor', () => {
+  const processor = new ContourProcessor();
+
+  describe('pierce points and leads', () => {
+    it('should pierce an outline outside the part at a corner', () => {
+      const contour = processor.processPolygon(square, 'outer', { leadInLength: 5, leadOutLength: 2 });
+
+      expect(contour.piercePlacement).toBe('corner');
+      expect(square).toContainEqual(contour.start);
+      expect(pointInPolygon(contour.pierce, square)).toBe(false);
+      expect(contour.leadIn.length).toBe(5);
+      expect(contour.leadOut.length).toBe(2);
+      leadPoints(contour).forEach(p => expect(pointInPolygon(p, square)).toBe(false));
+      expect(contour.cutLength).toBeCloseTo(407, 6);
+      expect(contour.pierceCount).toBe(1);
+    });
+
+    it('should run the leads of a hole inside the hole', () => {
+      const contour = processor.processPolygon(square, 'inner', { leadInType: 'arc', leadOutType: 'arc', leadInLength: 5 });
+
+      expect(contour.leadIn.type).toBe('arc');
+      expect(contour.leadIn.length).toBeCloseTo((Math.PI / 2) * 5, 6);
+      leadPoints(contour).forEach(p => expect(pointInPolygon(p, square)).toBe(true));
+      // The arc meets the contour tangentially at the start point
+      const [before, contact] = contour.leadIn.points.slice(-2);
+      const next = contour.points[1];
+      const cross = (contact.x - before.x) * (next.y - contact.y) - (contact.y - before.y) * (next.x - contact.x);
+      expect(Math.abs(cross) / (Math.hypot(contact.x - before.x, contact.y - before.y) * Math.hypot(next.x - contact.x, next.y - contact.y)))
+        .toBeLessThan(0.2);
+    });
+
+    it('should pierce the middle of the longest edge when asked for a straight', () => {
+      const slot = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 20 }, { x: 0, y: 20 }];
+      const contour = processor.processPolygon(slot, 'outer', { piercePlacement: 'straight', leadInLength: 4 });
+
+      expect(contour.piercePlacement).toBe('straight');
+      expect(contour.start.x).toBeCloseTo(100, 6);
+      expect([0, 20]).toContain(contour.start.y);
+      // Square to the edge, on the outside
+      expect(contour.pierce.x).toBeCloseTo(100, 6);
+      expect(Math.abs(contour.pierce.y - contour.start.y)).toBeCloseTo(4, 6);
+      expect(contour.contourLength).toBeCloseTo(440, 6);
+    });
+
+    it('should fall back to a straight on contours without corners', () => {
+      const result = processor.processShape({ type: 'circle', dimensions: { radius: 20 } }, { piercePlacement: 'corner' });
+      expect(result.contours[0].piercePlacement).toBe('straight');
+    });
+
+    it('should shorten or drop leads that do not fit a small hole', () => {
+      const hole = [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 2 }];
+      const shortened = processor.processPolygon(hole, 'inner', { leadInLength: 5, leadOutType: 'none' });
+
+      expect(shortened.leadIn.length).toBeLessThan(5);
+      expect(shortened.leadIn.length).toBeGreaterThan(0);
+      expect(pointInPolygon(shortened.pierce, hole)).toBe(true);
+      expect(shortened.warnings).toHaveLength(1);
+
+      const tiny = [{ x: 0, y: 0 }, { x: 0.2, y: 0 }, { x: 0.2, y: 0.2 }, { x: 0, y: 0.2 }];
+      const dropped = processor.processPolygon(tiny, 'inner', { leadInLength: 5, leadOutType: 'none' });
+      expect(dropped.leadIn.type).toBe('none');
+      expect(dropped.pierce).toEqual(dropped.start);
+    });
+
+    it('should keep leads out of a notch in the part', () => {
+      // U-shaped part: the widest scrap wedge is a convex outer corner, never the notch
+      const u = [
+        { x: 0, y: 0 }, { x: 60, y: 0 }, { x: 60, y: 60 }, { x: 40, y: 60 },
+        { x: 40, y: 20 }, { x: 20, y: 20 }, { x: 20, y: 60 }, { x: 0, y: 60 }
+      ];
+      const contour = processor.processPolygon(u, 'outer', { leadInLength: 30, leadOutLength: 30 });
+
+      leadPoints(contour).forEach(p => expect(pointInPolygon(p, u)).toBe(false));
+      expect(contour.leadIn.length).toBe(30);
+    });
+  });
+
+  describe('micro-joints', () => {
+    it('should space joints evenly along outer contours only', () => {
+      const contour = processor.processPolygon(square, 'outer', {
+        leadInType: 'none',
+        leadOutType: 'none',
+        microJointSpacing: 100,
+        microJointWidth: 0.5
+      });
+
+      expect(contour.microJoints).toHaveLength(4);
+      expect(contour.microJoints.map(joint => joint.distance)).toEqual([50, 150, 250, 350]);
+      expect(contour.cutLength).toBeCloseTo(398, 6);
+      expect(contour.pierceCount).toBe(5);
+
+      const hole = processor.processPolygon(square, 'inner', { microJointSpacing: 100 });
+      expect(hole.microJoints).toHaveLength(0);
+    });
+  });
+
+  describe('shapes and calculator prefill', () => {
+    const plate: GeometryShape = {
+      type: 'polygon',
+      dimensions: { x1: 0, y1: 0, x2: 200, y2: 0, x3: 200, y3: 100, x4: 0, y4: 100 },
+      holes: [
+        { type: 'polygon', dimensions: { x1: 20, y1: 20, x2: 40, y2: 20, x3: 40, y3: 40, x4: 20, y4: 40 } },
+        { type: 'polygon', dimensions: { x1: 160, y1: 60, x2: 180, y2: 60, x3: 180, y3: 80, x4: 160, y4: 80 } }
+      ],
+      name: 'Plate'
+    };
+
+    it('should total leads, joints and pierces for a shape', () => {
+      const result = processor.processShape(plate, { leadInLength: 3, leadOutLength: 1, microJointSpacing: 200 });
+
+      expect(result.contours.map(c => c.kind)).toEqual(['inner', 'inner', 'outer']);
+      expect(result.leadLength).toBeCloseTo(12, 6);
+      expect(result.microJointCount).toBe(3);
+      expect(result.extraCutLength).toBeCloseTo(12 - 1.5, 6);
+      expect(result.pierceCount).toBe(6);
+      expect(result.cutLength).toBeCloseTo(760 + 10.5, 6);
+    });
+
+    it('should feed lead length and restarts into the calculator prefill', () => {
+      const geometry = new GeometryCalculator();
+      const plain = geometry.getCalculatorPrefill([plate]);
+      const prepared = geometry.getCalculatorPrefill([plate], [], { leadInLength: 3, leadOutLength: 1, microJointSpacing: 200 });
+
+      expect(plain.leadLength).toBe(0);
+      expect(plain.cuttingLength).toBeCloseTo(760, 1);
+      expect(prepared.leadLength).toBeCloseTo(12, 1);
+      expect(prepared.cuttingLength).toBeCloseTo(770.5, 1);
+      expect(prepared.pierceCount).toBe(plain.pierceCount + 3);
+      expect(prepared.microJointCount).toBe(3);
+    });
+  });
+});
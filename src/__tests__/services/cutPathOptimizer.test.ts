@@ -0,0 +1,92 @@
+/**
+ * Cut Path Optimizer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CutFeature, CutPathInputs, CutPathOptimizer } from '../../services/calculators/cutPathOptimizer';
+
+function feature(id: string, x: number, y: number, overrides: Partial<CutFeature> = {}): CutFeature {
+  return {
+    id,
+    type: 'hole',
+    priority: 'medium',
+    startPoint: { x, y },
+    endPoint: { x, y },
+    length: 31.4,
+    complexity: 'simple',
+    thermalSensitive: false,
+    requiresPrecision: false,
+    partId: 'PART001',
+    ...overrides
+  };
+}
+
+function createInputs(cutFeatures: CutFeature[]): CutPathInputs {
+  return {
+    sheetDimensions: { length: 1000, width: 500 },
+    cutFeatures,
+    cuttingParameters: { cuttingSpeed: 2500, rapidSpeed: 15000, pierceTime: 0.8, leadInLength: 2, leadOutLength: 2, kerfWidth: 0.15 },
+    optimizationGoals: { minimizeCuttingTime: 40, minimizeThermalDistortion: 0, maximizeQuality: 25, minimizeWear: 10 },
+    constraints: {
+      maxContinuousCuttingTime: 15,
+      coolingBreakDuration: 30,
+      startPosition: { x: 0, y: 0 },
+      endPosition: { x: 0, y: 0 },
+      allowBridging: true,
+      bridgeLength: 2
+    },
+    materialProperties: { materialType: 'mild_steel', thickness: 3, thermalConductivity: 50, heatCapacity: 460, thermalExpansion: 12e-6 },
+    qualityRequirements: { dimensionalTolerance: 0.1, surfaceFinish: 'standard', edgeQuality: 'standard' }
+  };
+}
+
+describe('CutPathOptimizer', () => {
+  const optimizer = new CutPathOptimizer();
+
+  it('should sequence features on their coordinates and report the improvement', () => {
+    const inputs = createInputs([
+      feature('H1', 400, 0), feature('H2', 100, 0), feature('H3', 300, 0), feature('H4', 200, 0),
+      feature('OUT', 0, 0, { type: 'external', length: 900 })
+    ]);
+    const results = optimizer.calculate(inputs);
+
+    expect(results.optimizedPath.map(step => step.featureId)).toEqual(['H2', 'H4', 'H3', 'H1', 'OUT']);
+    // Out to 400 mm and back to the origin
+    expect(results.pathSummary.totalTravelDistance).toBe(800);
+    expect(results.sequenceComparison.before.rapidDistance).toBe(1200);
+    expect(results.sequenceComparison.distanceSaved).toBe(400);
+    expect(results.sequenceComparison.improvementPercent).toBeCloseTo((400 / 1200) * 100, 1);
+    expect(results.sequenceComparison.timeSaved).toBeGreaterThan(0);
+    expect(results.pathSummary.totalTravelTime).toBeCloseTo(800 / 15000, 2);
+    // Five contours with 2 mm lead-in and 2 mm lead-out each; the 0.15 mm kerf shrinks the
+    // four holes and grows the outline by π x 0.15 mm each
+    const cutLength = 1045.6 - 3 * Math.PI * 0.15;
+    expect(results.efficiencyMetrics.pathEfficiency).toBeCloseTo((cutLength / (cutLength + 800)) * 100, 1);
+    expect(results.optimizedPath[4].cuttingTime).toBeCloseTo((904 + Math.PI * 0.15) / 2500, 2);
+  });
+
+  it('should keep the path timeline consistent', () => {
+    const results = optimizer.calculate(createInputs([feature('H1', 100, 100), feature('H2', 200, 100)]));
+    const [first, second] = results.optimizedPath;
+
+    expect(first.travelDistance).toBeCloseTo(Math.hypot(100, 100), 1);
+    expect(second.startTime).toBeCloseTo(first.startTime + first.totalTime, 2);
+    expect(results.pathSummary.numberOfPierces).toBe(2);
+  });
+
+  it('should compare real alternative sequences', () => {
+    const results = optimizer.calculate(createInputs([
+      feature('A1', 0, 0), feature('B1', 500, 0), feature('A2', 10, 0), feature('B2', 510, 0)
+    ]));
+    const names = results.alternativeStrategies.map(strategy => strategy.strategyName);
+
+    expect(names).toEqual(['Speed Optimized', 'Thermal Managed', 'Balanced', 'As Listed']);
+    const listed = results.alternativeStrategies[3];
+    const speed = results.alternativeStrategies[0];
+    expect(speed.totalTime).toBeLessThan(listed.totalTime);
+  });
+
+  it('should reject invalid inputs', () => {
+    expect(() => optimizer.calculate(createInputs([]))).toThrow('At least one cut feature must be defined');
+  });
+});
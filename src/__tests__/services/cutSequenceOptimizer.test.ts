@@ -0,0 +1,131 @@
+/**
+ * Cut Sequence Optimizer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CutContour, CutSequenceOptimizer } from '../../services/cutSequenceOptimizer';
+import { nestingEngine } from '../../services/nestingEngine';
+
+function contour(id: string, x: number, y: number, overrides: Partial<CutContour> = {}): CutContour {
+  return {
+    id,
+    partId: id,
+    kind: 'outer',
+    start: { x, y },
+    end: { x, y },
+    length: 100,
+    centroid: { x, y },
+    area: 50000,
+    ...overrides
+  };
+}
+
+describe('CutSequenceOptimizer', () => {
+  const optimizer = new CutSequenceOptimizer();
+  const noHeat = { heatPenalty: 0 };
+
+  it('should find the short tour through scattered contours', () => {
+    // Points on a 4 x 4 grid in shuffled order
+    const grid = Array.from({ length: 16 }, (_, i) => contour(`c${i}`, (i % 4) * 100, Math.floor(i / 4) * 100));
+    const shuffled = [5, 12, 0, 9, 14, 3, 7, 10, 1, 15, 6, 11, 2, 13, 8, 4].map(i => grid[i]);
+
+    const result = optimizer.optimize(shuffled, noHeat);
+
+    expect(result.steps).toHaveLength(16);
+    expect(new Set(result.steps.map(step => step.contour.id)).size).toBe(16);
+    // Optimal open tour from the origin visits 16 points 100 mm apart
+    expect(result.rapidDistance).toBeGreaterThanOrEqual(1500 - 1e-9);
+    expect(result.rapidDistance).toBeLessThanOrEqual(1500 * 1.05);
+    expect(result.improvement.distance).toBeCloseTo(result.baseline.rapidDistance - result.rapidDistance, 6);
+    expect(result.improvement.percent).toBeGreaterThan(50);
+    expect(result.rapidTime).toBeCloseTo(result.rapidDistance / 15000, 9);
+  });
+
+  it('should match the optimal closed tour on a small instance', () => {
+    // Nearest neighbour alone runs along the bottom row and crosses back over it
+    const contours = [
+      contour('a', 0, 10), contour('b', 100, 0), contour('c', 200, 10), contour('d', 300, 0),
+      contour('e', 300, 100), contour('f', 200, 110), contour('g', 100, 100), contour('h', 0, 110)
+    ];
+    const home = { x: 0, y: 0 };
+    const result = optimizer.optimize(contours, { ...noHeat, endPosition: home });
+
+    const tourLength = (order: CutContour[]) =>
+      order.reduce((sum, c, k) => sum + Math.hypot(c.start.x - (k ? order[k - 1].end.x : 0), c.start.y - (k ? order[k - 1].end.y : 0)), 0) +
+      Math.hypot(order[order.length - 1].end.x - home.x, order[order.length - 1].end.y - home.y);
+    const permutations = (items: CutContour[]): CutContour[][] =>
+      items.length <= 1 ? [items] : items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+    const optimum = Math.min(...permutations(contours).map(tourLength));
+
+    expect(result.rapidDistance).toBeCloseTo(optimum, 6);
+  });
+
+  it('should cut inner contours before the outline of their part', () => {
+    const contours = [
+      contour('outline', 0, 0, { partId: 'p1', area: 40000 }),
+      contour('hole-1', 100, 100, { partId: 'p1', kind: 'inner' }),
+      contour('hole-2', 150, 100, { partId: 'p1', kind: 'inner' })
+    ];
+    const result = optimizer.optimize(contours, noHeat);
+
+    expect(result.steps[2].contour.id).toBe('outline');
+    expect(result.precedenceRules).toBe(2);
+  });
+
+  it('should release small parts before large ones', () => {
+    const contours = [
+      contour('large', 0, 0, { area: 250000 }),
+      contour('small-far', 500, 500, { area: 2500 }),
+      contour('small-near', 10, 10, { area: 2500 })
+    ];
+    const result = optimizer.optimize(contours, noHeat);
+
+    expect(result.steps[2].contour.id).toBe('large');
+  });
+
+  it('should cut parts nested in a hole before the hole', () => {
+    const contours = [
+      contour('hole', 0, 0, { partId: 'frame', kind: 'inner', bounds: { minX: 0, minY: 0, maxX: 100, maxY: 100 } }),
+      contour('frame', 0, 0, { partId: 'frame', area: 90000 }),
+      contour('insert', 300, 300, { partId: 'insert', area: 90000, bounds: { minX: 20, minY: 20, maxX: 80, maxY: 80 } })
+    ];
+    const result = optimizer.optimize(contours, noHeat);
+
+    expect(result.steps.map(step => step.contour.id)).toEqual(['insert', 'hole', 'frame']);
+  });
+
+  it('should spread neighbouring cuts with the heat penalty', () => {
+    // Two clusters; without the penalty each cluster is finished before moving on
+    const contours = [
+      contour('a1', 0, 0), contour('a2', 5, 0),
+      contour('b1', 200, 0), contour('b2', 205, 0)
+    ];
+    const cold = optimizer.optimize(contours, noHeat);
+    const hot = optimizer.optimize(contours, { heatRadius: 50, heatPenalty: 1000 });
+
+    expect(cold.rapidDistance).toBeCloseTo(205, 6);
+    expect(cold.heatPenalty).toBe(0);
+    expect(hot.rapidDistance).toBeGreaterThan(cold.rapidDistance);
+    expect(hot.steps.map(step => step.contour.id.charAt(0)).join('')).toBe('abab');
+  });
+
+  it('should build pierce points from nested placements', () => {
+    const frame = {
+      type: 'rectangle' as const,
+      dimensions: { width: 100, height: 60 },
+      name: 'Plate'
+    };
+    const nesting = nestingEngine.nest([frame, frame], 300, 100, { timeBudgetMs: 0 });
+    const contours = optimizer.buildContours(nesting.placements);
+
+    expect(contours).toHaveLength(2);
+    contours.forEach(c => {
+      expect(c.kind).toBe('outer');
+      expect(c.length).toBeCloseTo(320, 6);
+      expect(c.area).toBeCloseTo(6000, 6);
+      expect(c.start).toEqual(c.end);
+    });
+    expect(optimizer.optimize(contours).steps).toHaveLength(2);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Cutting Chart Library Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { utils, write } from 'xlsx';
+import { CuttingChartLibrary, cuttingChartLibrary } from '../../services/cuttingChartLibrary';
+import { LaserParameterOptimizer, type LaserParameterInputs } from '../../features/calculators/laser-parameter-optimizer/LaserParameterOptimizer';
+import { CuttingTimeEstimator, type CuttingTimeInputs } from '../../features/calculators/cutting-time-estimator/CuttingTimeEstimator';
+
+const CSV = [
+  'Material;Thickness (mm);Laser Power (W);Assist Gas;Cutting Speed (mm/min);Gas Pressure (bar);Focus (mm);Nozzle (mm);Frequency (Hz)',
+  'Mild Steel;2;2000;O2;4000;0,8;0,5;1,0;',
+  'mild_steel;2;3000;O2;5000;0,8;0,5;1,0;',
+  'mild_steel;6;2000;O2;1600;0,6;1,5;1,5;',
+  'mild_steel;6;3000;O2;2000;0,6;2,5;2,0;',
+  '"Unobtainium";2;3000;O2;5000;0,8;0,5;1,0;',
+  'mild_steel;4;3000;helium;3000;0,7;1,0;1,5;',
+  '',
+  'stainless_304;3;3000;N2;3500;14;-1,5;2,0;5000'
+].join('\n');
+
+describe('CuttingChartLibrary', () => {
+  let library: CuttingChartLibrary;
+
+  beforeEach(() => {
+    localStorage.clear();
+    library = new CuttingChartLibrary();
+  });
+
+  it('should import CSV rows, skip unusable ones and persist the chart', () => {
+    const { chart, skipped } = library.importCsv(CSV, { machineId: 'generic_fiber_3kw', name: 'OEM steel' });
+
+    expect(chart.rows).toHaveLength(5);
+    expect(chart.rows[0]).toEqual({
+      material: 'steel', thickness: 2, power: 2000, gas: 'oxygen',
+      speed: 4000, pressure: 0.8, focus: 0.5, nozzle: 1
+    });
+    expect(chart.rows[4].frequency).toBe(5000);
+    expect(skipped).toEqual([
+      { row: 6, reason: 'Unknown material: Unobtainium' },
+      { row: 7, reason: 'Unknown assist gas: helium' }
+    ]);
+
+    const reloaded = new CuttingChartLibrary();
+    expect(reloaded.list('generic_fiber_3kw').map(imported => imported.name)).toEqual(['OEM steel']);
+    expect(reloaded.remove(chart.id)).toBe(true);
+    expect(new CuttingChartLibrary().list()).toEqual([]);
+
+    expect(() => library.importCsv(CSV, { machineId: 'missing' })).toThrow('Unknown machine: missing');
+    expect(() => library.importCsv('material,thickness\nmild_steel,2', { machineId: 'generic_fiber_3kw' }))
+      .toThrow('Cutting chart is missing the column(s): power, gas, speed, pressure, focus, nozzle');
+  });
+
+  it('should import the first sheet of an XLSX workbook', () => {
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet([
+      ['material_type', 'thickness', 'power', 'gas', 'speed', 'pressure', 'focus', 'nozzle'],
+      ['aluminum_6061', 1, 3000, 'nitrogen', 12000, 12, -1, 1.5],
+      ['aluminum_6061', 5, 3000, 'nitrogen', 3000, 16, -3, 2.5]
+    ]), 'Aluminium');
+    const data = write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    const { chart, skipped } = library.importXlsx(data, { machineId: 'generic_fiber_6kw' });
+    expect(skipped).toEqual([]);
+    expect(chart.rows.map(row => row.speed)).toEqual([12000, 3000]);
+    expect(library.lookup('generic_fiber_6kw', 'aluminum_6061', 3, 3000)?.speed).toBe(7500);
+  });
+
+  it('should convert values from the units in the headings and check them against the machine', () => {
+    const { chart, skipped } = library.importCsv([
+      'material,thickness [in],power (kW),gas,cutting speed (m/min),pressure (psi),focus,nozzle,frequency (kHz)',
+      'mild_steel,0.25,3,O2,1.5,14.5,1.5,1.5,5',
+      'mild_steel,0.25,4,O2,2,14.5,1.5,1.5,'
+    ].join('\n'), { machineId: 'generic_fiber_3kw' });
+
+    expect(chart.rows).toHaveLength(1);
+    expect(chart.rows[0]).toMatchObject({ thickness: 6.35, power: 3000, speed: 1500, focus: 1.5, frequency: 5000 });
+    expect(chart.rows[0].pressure).toBeCloseTo(1, 2);
+    expect(skipped).toEqual([{ row: 3, reason: "4000 W is more than the machine's 3000 W" }]);
+
+    expect(() => library.importCsv('material,thickness,power (hp),gas,speed,pressure,focus,nozzle\nmild_steel,2,4,O2,4000,1,0,1', {
+      machineId: 'generic_fiber_3kw'
+    })).toThrow('Cutting chart column "power (hp)" has an unrecognised power unit: hp');
+    expect(() => library.importCsv('material,thickness,power,gas,speed (bar),pressure,focus,nozzle\nmild_steel,2,2000,O2,4000,1,0,1', {
+      machineId: 'generic_fiber_3kw'
+    })).toThrow('unrecognised speed unit: bar');
+  });
+
+  it('should interpolate across thickness and power and warn when extrapolating', () => {
+    library.importCsv(CSV, { machineId: 'generic_fiber_3kw' });
+
+    const inside = library.lookup('generic_fiber_3kw', 'mild_steel', 4, 2500);
+    expect(inside).toMatchObject({ gas: 'oxygen', speed: 3150, pressure: 0.7, focus: 1.25, extrapolated: false, warnings: [] });
+    expect(inside?.nozzle).toBe(1);
+
+    const outside = library.lookup('generic_fiber_3kw', 'mild_steel', 8, 4000);
+    expect(outside).toMatchObject({ speed: 2000, nozzle: 2, extrapolated: true });
+    expect(outside?.warnings).toEqual([
+      '8 mm is outside the mild_steel chart (2–6 mm); the 6 mm values are used',
+      '4000 W is outside the chart at 6 mm (2000–3000 W); the 3000 W values are used'
+    ]);
+
+    expect(library.lookup('generic_fiber_3kw', 'mild_steel', 4, 2500, 'nitrogen')).toBeUndefined();
+    expect(library.lookup('generic_fiber_6kw', 'mild_steel', 4, 2500)).toBeUndefined();
+  });
+
+  it('should let imported charts take precedence over the built-in data in calculators', async () => {
+    const { chart } = cuttingChartLibrary.importCsv(CSV, { machineId: 'generic_fiber_3kw' });
+
+    try {
+      const optimizer = new LaserParameterOptimizer();
+      const inputs = {
+        materialType: 'mild_steel', thickness: 6, laserType: 'fiber',
+        maxPower: 3000, qualityRequirement: 'standard', machineId: 'generic_fiber_3kw'
+      } as LaserParameterInputs;
+      const result = await optimizer.calculate(inputs);
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ gasType: 'oxygen', gasPressure: 0.6, nozzleDiameter: 1.5 });
+      expect((result.data as { warnings: string[] }).warnings).toContain(
+        '1907 W is outside the chart at 6 mm (2000–3000 W); the 2000 W values are used'
+      );
+
+      const estimator = new CuttingTimeEstimator();
+      const timeInputs: CuttingTimeInputs = {
+        materialType: 'mild_steel', thickness: 10, cuttingLength: 2000,
+        pierceCount: 1, laserPower: 3000, machineId: 'generic_fiber_3kw'
+      };
+      const validation = estimator.validateInputs(timeInputs);
+      expect(validation.warnings.map(warning => warning.code)).toContain('CHART_EXTRAPOLATED');
+      const timed = await estimator.calculate(timeInputs);
+      expect(timed.data?.cuttingTime).toBe(1);
+    } finally {
+      cuttingChartLibrary.remove(chart.id);
+    }
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * DXF Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DxfImporter } from '../../services/dxfImporter';
+import { GeometryCalculator } from '../../services/geometryCalculator';
+
+// Build a DXF document from [code, value] pairs
+function dxf(sections: Array<Array<[number, string | number]>>): string {
+  const pairs: Array<[number, string | number]> = [];
+  sections.forEach(section => pairs.push(...section));
+  pairs.push([0, 'EOF']);
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n');
+}
+
+function header(insUnits: number): Array<[number, string | number]> {
+  return [[0, 'SECTION'], [2, 'HEADER'], [9, '$INSUNITS'], [70, insUnits], [0, 'ENDSEC']];
+}
+
+function entities(...items: Array<Array<[number, string | number]>>): Array<[number, string | number]> {
+  return [[0, 'SECTION'], [2, 'ENTITIES'], ...items.flat(), [0, 'ENDSEC']];
+}
+
+function rectangle(x: number, y: number, w: number, h: number, layer = 'CUT'): Array<[number, string | number]> {
+  return [
+    [0, 'LWPOLYLINE'], [8, layer], [90, 4], [70, 1],
+    [10, x], [20, y], [10, x + w], [20, y], [10, x + w], [20, y + h], [10, x], [20, y + h]
+  ];
+}
+
+function circle(cx: number, cy: number, r: number, layer = 'CUT'): Array<[number, string | number]> {
+  return [[0, 'CIRCLE'], [8, layer], [10, cx], [20, cy], [40, r]];
+}
+
+describe('DxfImporter', () => {
+  const importer = new DxfImporter();
+  const geometry = new GeometryCalculator();
+
+  describe('contours and holes', () => {
+    it('should detect a hole inside a plate', () => {
+      const result = importer.import(dxf([header(4), entities(rectangle(0, 0, 100, 50), circle(50, 25, 10))]));
+
+      expect(result.units).toBe('millimeters');
+      expect(result.shapes).toHaveLength(1);
+      expect(result.shapes[0].type).toBe('custom');
+      expect(result.shapes[0].holes).toHaveLength(1);
+      expect(result.shapes[0].dimensions.width).toBeCloseTo(100);
+      expect(result.shapes[0].dimensions.height).toBeCloseTo(50);
+    });
+
+    it('should compute true perimeter, pierces, corners and curve length', () => {
+      const result = importer.import(dxf([header(4), entities(rectangle(0, 0, 100, 50), circle(50, 25, 10))]));
+      const calc = geometry.calculateShape(result.shapes[0]);
+
+      expect(calc.perimeter).toBeCloseTo(300 + 2 * Math.PI * 10, 6);
+      expect(calc.cuttingPath.pierceCount).toBe(2);
+      expect(calc.cuttingPath.cornerCount).toBe(4);
+      expect(calc.cuttingPath.curveLength).toBeCloseTo(2 * Math.PI * 10, 6);
+      expect(calc.area).toBeCloseTo(5000 - Math.PI * 100, 0);
+    });
+
+    it('should treat an island inside a hole as a separate part', () => {
+      const result = importer.import(dxf([header(4), entities(
+        rectangle(0, 0, 100, 100),
+        rectangle(10, 10, 80, 80),
+        rectangle(30, 30, 20, 20)
+      )]));
+
+      expect(result.shapes).toHaveLength(2);
+      expect(result.shapes[0].holes).toHaveLength(1);
+      expect(result.shapes[1].holes).toHaveLength(0);
+    });
+
+    it('should chain loose lines and arcs into a closed contour', () => {
+      // Slot: two lines joined by two half-circle arcs, with one line drawn backwards
+      const result = importer.import(dxf([header(4), entities(
+        [[0, 'LINE'], [8, 'CUT'], [10, 0], [20, 0], [11, 50], [21, 0]],
+        [[0, 'ARC'], [8, 'CUT'], [10, 50], [20, 10], [40, 10], [50, 270], [51, 90]],
+        [[0, 'LINE'], [8, 'CUT'], [10, 0], [20, 20], [11, 50], [21, 20]],
+        [[0, 'ARC'], [8, 'CUT'], [10, 0], [20, 10], [40, 10], [50, 90], [51, 270]]
+      )]));
+
+      expect(result.shapes).toHaveLength(1);
+      expect(result.openPaths).toHaveLength(0);
+
+      const calc = geometry.calculateShape(result.shapes[0]);
+      expect(calc.perimeter).toBeCloseTo(100 + 2 * Math.PI * 10, 6);
+      expect(calc.cuttingPath.cornerCount).toBe(0);
+    });
+
+    it('should convert polyline bulges into arcs', () => {
+      // 20 x 20 square whose right edge is a semicircle (bulge 1)
+      const result = importer.import(dxf([header(4), entities([
+        [0, 'LWPOLYLINE'], [8, 'CUT'], [90, 4], [70, 1],
+        [10, 0], [20, 0], [10, 20], [20, 0], [42, 1], [10, 20], [20, 20], [10, 0], [20, 20]
+      ])]));
+
+      const calc = geometry.calculateShape(result.shapes[0]);
+      expect(calc.cuttingPath.curveLength).toBeCloseTo(Math.PI * 10, 6);
+      expect(result.shapes[0].dimensions.width).toBeCloseTo(30, 2);
+    });
+
+    it('should report unclosed geometry as open paths', () => {
+      const result = importer.import(dxf([header(4), entities(
+        [[0, 'LINE'], [8, 'ENGRAVE'], [10, 0], [20, 0], [11, 30], [21, 40]]
+      )]));
+
+      expect(result.shapes).toHaveLength(0);
+      expect(result.openPaths).toHaveLength(1);
+      expect(result.warnings.some(w => w.includes('open path'))).toBe(true);
+    });
+  });
+
+  describe('units, blocks and layers', () => {
+    it('should convert inch drawings to millimetres', () => {
+      const result = importer.import(dxf([header(1), entities(rectangle(0, 0, 2, 1))]));
+
+      expect(result.units).toBe('inches');
+      expect(result.shapes[0].dimensions.width).toBeCloseTo(50.8);
+      expect(result.shapes[0].dimensions.height).toBeCloseTo(25.4);
+    });
+
+    it('should expand INSERT references with scale and rotation', () => {
+      const content = dxf([
+        header(4),
+        [
+          [0, 'SECTION'], [2, 'BLOCKS'],
+          [0, 'BLOCK'], [8, '0'], [2, 'WASHER'], [70, 0], [10, 0], [20, 0],
+          ...circle(0, 0, 5, '0'),
+          [0, 'ENDBLK'],
+          [0, 'ENDSEC']
+        ],
+        entities(
+          [[0, 'INSERT'], [8, 'CUT'], [2, 'WASHER'], [10, 100], [20, 100], [41, 2], [42, 2], [50, 45]],
+          [[0, 'INSERT'], [8, 'CUT'], [2, 'WASHER'], [10, 200], [20, 100]]
+        )
+      ]);
+      const result = importer.import(content);
+
+      expect(result.shapes).toHaveLength(2);
+      const perimeters = result.shapes.map(s => geometry.calculateShape(s).perimeter).sort((a, b) => a - b);
+      expect(perimeters[0]).toBeCloseTo(2 * Math.PI * 5, 6);
+      expect(perimeters[1]).toBeCloseTo(2 * Math.PI * 10, 6);
+      expect(result.layers).toEqual(['CUT']);
+    });
+
+    it('should filter by layer and skip hidden layers', () => {
+      const content = dxf([
+        header(4),
+        [
+          [0, 'SECTION'], [2, 'TABLES'],
+          [0, 'TABLE'], [2, 'LAYER'],
+          [0, 'LAYER'], [2, 'CUT'], [70, 0], [62, 7],
+          [0, 'LAYER'], [2, 'HIDDEN'], [70, 0], [62, -7],
+          [0, 'ENDTAB'],
+          [0, 'ENDSEC']
+        ],
+        entities(rectangle(0, 0, 10, 10, 'CUT'), rectangle(20, 0, 10, 10, 'HIDDEN'), rectangle(40, 0, 10, 10, 'DIM'))
+      ]);
+
+      expect(importer.import(content).shapes).toHaveLength(2);
+      expect(importer.import(content, { layers: ['CUT'] }).shapes).toHaveLength(1);
+      expect(importer.import(content, { includeHiddenLayers: true }).shapes).toHaveLength(3);
+    });
+  });
+
+  describe('curves', () => {
+    it('should flatten a full ellipse close to its true perimeter', () => {
+      const result = importer.import(dxf([header(4), entities([
+        [0, 'ELLIPSE'], [8, 'CUT'], [10, 0], [20, 0], [11, 40], [21, 0], [40, 0.5], [41, 0], [42, 2 * Math.PI]
+      ])]));
+      const calc = geometry.calculateShape(result.shapes[0]);
+
+      // Ramanujan approximation for a = 40, b = 20
+      const a = 40;
+      const b = 20;
+      const h = ((a - b) / (a + b)) ** 2;
+      const expected = Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+      expect(calc.perimeter).toBeCloseTo(expected, 0);
+      expect(calc.cuttingPath.curveLength).toBeCloseTo(calc.perimeter, 6);
+    });
+
+    it('should evaluate a clamped B-spline through its end points', () => {
+      const result = importer.import(dxf([header(4), entities([
+        [0, 'SPLINE'], [8, 'CUT'], [70, 8], [71, 2], [72, 6], [73, 3],
+        [40, 0], [40, 0], [40, 0], [40, 1], [40, 1], [40, 1],
+        [10, 0], [20, 0], [10, 10], [20, 10], [10, 20], [20, 0]
+      ])]));
+
+      expect(result.openPaths).toHaveLength(1);
+      const path = result.openPaths[0][0];
+      expect(path.type).toBe('curve');
+      if (path.type === 'curve') {
+        expect(path.points[0]).toEqual({ x: 0, y: 0 });
+        expect(path.points[path.points.length - 1].x).toBeCloseTo(20);
+        // Quadratic Bezier apex at t = 0.5 is (10, 5)
+        expect(path.points.some(p => Math.abs(p.x - 10) < 1e-6 && Math.abs(p.y - 5) < 1e-6)).toBe(true);
+      }
+    });
+  });
+
+  describe('calculator prefill', () => {
+    it('should sum cutting length and pierces across parts and open paths', () => {
+      const result = importer.import(dxf([header(4), entities(
+        rectangle(0, 0, 100, 50),
+        circle(50, 25, 10),
+        rectangle(200, 0, 10, 10),
+        [[0, 'LINE'], [8, 'CUT'], [10, 300], [20, 0], [11, 300], [21, 100]]
+      )]));
+      const prefill = geometry.getCalculatorPrefill(result.shapes, result.openPaths);
+
+      expect(prefill.partCount).toBe(2);
+      expect(prefill.pierceCount).toBe(4);
+      expect(prefill.cornerCount).toBe(8);
+      expect(prefill.cuttingLength).toBeCloseTo(300 + 2 * Math.PI * 10 + 40 + 100, 1);
+    });
+
+    it('should reject content that is not DXF', () => {
+      expect(() => importer.import('hello\nworld')).toThrow('Invalid DXF');
+    });
+  });
+});
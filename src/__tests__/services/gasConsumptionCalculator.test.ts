@@ -0,0 +1,67 @@
+/**
+ * Gas Consumption Calculator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GasConsumptionCalculator, GasConsumptionInputs } from '../../services/calculators/gasConsumptionCalculator';
+
+function createInputs(overrides: Partial<GasConsumptionInputs> = {}): GasConsumptionInputs {
+  return {
+    materialType: 'carbon_steel',
+    materialThickness: 5,
+    cuttingLength: 3000,
+    cuttingSpeed: 3000,
+    piercingPoints: 10,
+    setupTime: 5,
+    idleTime: 3,
+    gasType: 'oxygen',
+    gasFlow: 20,
+    gasPressure: 1,
+    efficiency: 0.8,
+    gasPrice: 0.2,
+    quantity: 10,
+    ...overrides
+  };
+}
+
+describe('GasConsumptionCalculator', () => {
+  const calculator = new GasConsumptionCalculator();
+
+  it('should derive consumption from the time the gas flows', () => {
+    const results = calculator.calculate(createInputs());
+
+    // 10 parts x 1 min cutting at 20 L/min delivered through 80% efficiency
+    expect(results.consumptionBreakdown.cuttingConsumption).toBeCloseTo(0.25, 3);
+    // 100 pierces x 1.5 s
+    expect(results.consumptionBreakdown.piercingConsumption).toBeCloseTo((2.5 * 25) / 1000, 2);
+    expect(results.consumptionBreakdown.setupConsumption).toBeCloseTo(0.125, 3);
+    expect(results.consumptionBreakdown.idleConsumption).toBeCloseTo(0.075, 3);
+    expect(results.totalConsumption).toBeCloseTo(0.5125, 2);
+    expect(results.totalCost).toBeCloseTo(0.5125 * 0.2, 2);
+    expect(results.unitCosts.costPerPiece).toBeCloseTo(0.01025, 3);
+  });
+
+  it('should charge leads and micro-joint restarts through cutting length and pierces', () => {
+    const bare = calculator.calculate(createInputs());
+    const prepared = calculator.calculate(createInputs({ cuttingLength: 3060, piercingPoints: 14 }));
+
+    expect(prepared.consumptionBreakdown.cuttingConsumption).toBeGreaterThan(bare.consumptionBreakdown.cuttingConsumption);
+    expect(prepared.consumptionBreakdown.piercingConsumption).toBeCloseTo(bare.consumptionBreakdown.piercingConsumption * 1.4, 3);
+  });
+
+  it('should scale the sensitivity table with flow and pressure', () => {
+    const results = calculator.calculate(createInputs());
+    const [lower, base] = results.sensitivityAnalysis.flowRateImpact;
+
+    expect(base.change).toBe('Base');
+    expect(base.consumption).toBeCloseTo(results.totalConsumption, 3);
+    expect(lower.consumption).toBeCloseTo(results.totalConsumption * 0.8, 3);
+    expect(results.sensitivityAnalysis.pressureImpact[3].consumption).toBeCloseTo((results.totalConsumption * 2.4) / 2, 2);
+    expect(results.alternativeGasOptions.map(option => option.gasType)).toEqual(['Nitrogen', 'Compressed Air', 'Argon']);
+  });
+
+  it('should reject invalid inputs', () => {
+    expect(() => calculator.calculate(createInputs({ efficiency: 0.3 }))).toThrow('Gas efficiency must be between 50% and 100%');
+    expect(() => calculator.calculate(createInputs({ cuttingLength: 0 }))).toThrow('Cutting length must be greater than 0');
+  });
+});
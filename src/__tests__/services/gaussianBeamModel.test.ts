@@ -0,0 +1,114 @@
+/**
+ * Gaussian Beam Model Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GaussianBeamModel, gaussianBeamModel, type BeamOptics } from '../../services/gaussianBeamModel';
+import { KerfWidthCalculator } from '../../services/calculators/kerfWidthCalculator';
+import { FocusHeightCalculator } from '../../features/calculators/focus-height-calculator/FocusHeightCalculator';
+import { BeamQualityCalculator } from '../../features/calculators/beam-quality-calculator/BeamQualityCalculator';
+
+// 3 kW fibre source on a 10 mm beam through a 125 mm lens
+const FIBER: BeamOptics = { mSquared: 1.1, wavelength: 1.07, rawBeamDiameter: 10, focalLength: 125 };
+
+describe('GaussianBeamModel', () => {
+  const model = new GaussianBeamModel();
+
+  it('should focus to the M² waist and grow by √2 over one Rayleigh length', () => {
+    const profile = model.profile(FIBER);
+    const waist = (4 * 1.1 * 0.00107 * 125) / (Math.PI * 10);
+
+    expect(profile.waistDiameter).toBeCloseTo(waist, 12);
+    expect(profile.rayleighLength).toBeCloseTo((Math.PI * waist ** 2) / (4 * 1.1 * 0.00107), 12);
+    expect(profile.depthOfFocus).toBeCloseTo(2 * profile.rayleighLength, 12);
+    expect(profile.focusTolerance).toBeCloseTo(profile.rayleighLength / 2, 12);
+    expect(profile.beamParameterProduct).toBeCloseTo((1.1 * 1.07) / Math.PI, 10);
+    expect(profile.numericalAperture).toBeCloseTo(0.04, 12);
+
+    expect(model.diameterAt(FIBER, profile.rayleighLength)).toBeCloseTo(Math.SQRT2 * waist, 12);
+    expect(model.diameterAt(FIBER, -profile.rayleighLength)).toBeCloseTo(Math.SQRT2 * waist, 12);
+    expect(model.peakIntensityAt(FIBER, 3000, 0)).toBeCloseTo(6000 / (Math.PI * (waist / 2) ** 2), 6);
+    expect(model.peakIntensityAt(FIBER, 3000, profile.rayleighLength))
+      .toBeCloseTo(model.peakIntensityAt(FIBER, 3000, 0) / 2, 6);
+
+    // A collimated fibre images its core: 0.1 mm × 200 / 100
+    const imaged = model.profile({ mSquared: 12, wavelength: 1.07, rawBeamDiameter: 0.1, collimatorFocalLength: 100, focalLength: 200 });
+    expect(imaged.waistDiameter).toBeCloseTo(0.2, 12);
+    expect(() => model.profile({ ...FIBER, mSquared: 0.9 })).toThrow('M² must be at least 1');
+    expect(() => model.profile({ ...FIBER, collimatorFocalLength: 0 })).toThrow('Collimator focal length');
+  });
+
+  it('should place the caustic against the sheet', () => {
+    const { rayleighLength } = model.profile(FIBER);
+    const caustic = model.throughSheet(FIBER, 2, -0.5, { points: 2001, power: 3000 });
+
+    expect(caustic.topDiameter).toBeCloseTo(model.diameterAt(FIBER, -0.5), 12);
+    expect(caustic.bottomDiameter).toBeCloseTo(model.diameterAt(FIBER, 1.5), 12);
+    expect(caustic.waistInSheet).toBe(true);
+    expect(caustic.withinDepthOfFocus).toBe(1.5 <= rayleighLength);
+    expect(caustic.points[0].depth).toBeCloseTo(-rayleighLength, 12);
+    expect(caustic.points[2000].depth).toBeCloseTo(2 + rayleighLength, 12);
+    expect(caustic.points.every(point => point.peakIntensity !== undefined)).toBe(true);
+
+    // Closed-form mean against the sampled envelope inside the sheet
+    const inside = caustic.points.filter(point => point.depth >= 0 && point.depth <= 2);
+    const sampled = inside.reduce((sum, point) => sum + point.diameter, 0) / inside.length;
+    expect(caustic.meanDiameter).toBeCloseTo(sampled, 4);
+
+    expect(model.throughSheet(FIBER, 1, 2).waistInSheet).toBe(false);
+    expect(() => model.throughSheet(FIBER, 0, 0)).toThrow('Sheet thickness');
+  });
+
+  it('should give both calculators and the kerf prediction the same focus behaviour', async () => {
+    const focus = new FocusHeightCalculator();
+    const focusResult = await focus.calculate({
+      ...focus.getExampleInputs(),
+      laserType: 'fiber',
+      beamDiameter: 10,
+      focalLength: 125,
+      beamQuality: 1.1
+    });
+    const data = focusResult.data;
+    const profile = gaussianBeamModel.profile({ ...FIBER, wavelength: 1.07 });
+
+    expect(focusResult.success).toBe(true);
+    expect(data?.beamCharacteristics.rayleighRange).toBeCloseTo(profile.rayleighLength, 2);
+    expect(data?.optimalFocus.tolerance).toBeCloseTo(profile.focusTolerance, 2);
+    expect(data?.caustic.focusPosition).toBe(data?.optimalFocus.position);
+
+    const beam = new BeamQualityCalculator();
+    const beamResult = await beam.calculate({
+      ...beam.getExampleInputs(),
+      wavelength: 1.07,
+      beamDiameter: 0.05,
+      collimatorFocalLength: 100,
+      focalLength: 125,
+      thickness: 5
+    });
+    const imaged = gaussianBeamModel.profile({
+      mSquared: beamResult.data?.mSquaredFactor ?? 1,
+      wavelength: 1.07,
+      rawBeamDiameter: 0.05,
+      collimatorFocalLength: 100,
+      focalLength: 125
+    });
+    expect(beamResult.data?.focusedSpotSize).toBeCloseTo(62.5, 1);
+    expect(beamResult.data?.depthOfFocus).toBeCloseTo(imaged.depthOfFocus, 2);
+    expect(beamResult.data?.caustic?.focusPosition).toBe(-2.5);
+    expect((await beam.calculate(beam.getExampleInputs())).data?.caustic).toBeUndefined();
+
+    const kerf = new KerfWidthCalculator().predict({
+      materialType: 'mild_steel',
+      thickness: 5,
+      materialConstant: 0.05,
+      laserPower: 3000,
+      cuttingSpeed: 1500,
+      beamDiameter: 0.1,
+      gasType: 'oxygen',
+      gasPressure: 0.8,
+      focusPosition: -2,
+      optics: FIBER
+    });
+    expect(kerf.spotDiameter).toBeCloseTo(gaussianBeamModel.throughSheet(FIBER, 5, -2).meanDiameter, 3);
+  });
+});
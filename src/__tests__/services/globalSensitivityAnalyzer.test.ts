@@ -0,0 +1,89 @@
+/**
+ * Global Sensitivity Analyzer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GlobalSensitivityAnalyzer, type SensitivityParameter } from '../../services/globalSensitivityAnalyzer';
+import { PowerSpeedMatchingCalculator } from '../../features/calculators/power-speed-matching/PowerSpeedMatchingCalculator';
+import { SensitivityAnalysisCalculator } from '../../features/calculators/sensitivity-analysis-calculator/SensitivityAnalysisCalculator';
+
+// Ishigami function: S1 = 0.314, S2 = 0.442, S3 = 0; ST1 = 0.558, ST2 = 0.442, ST3 = 0.244
+const ISHIGAMI: SensitivityParameter[] = ['x1', 'x2', 'x3'].map(name => ({ name, min: -Math.PI, max: Math.PI }));
+const ishigami = ({ x1, x2, x3 }: Record<string, number>) =>
+  Math.sin(x1) + 7 * Math.sin(x2) ** 2 + 0.1 * x3 ** 4 * Math.sin(x1);
+
+describe('GlobalSensitivityAnalyzer', () => {
+  const analyzer = new GlobalSensitivityAnalyzer();
+
+  it('should estimate first- and total-order Sobol indices', async () => {
+    const result = await analyzer.analyze(ISHIGAMI, ishigami, { samples: 4096, seed: 3 });
+    const [x1, x2, x3] = result.sobol ?? [];
+
+    expect(result.evaluations).toBe(4096 * 5);
+    expect(x1.firstOrder).toBeCloseTo(0.314, 1);
+    expect(x2.firstOrder).toBeCloseTo(0.442, 1);
+    expect(x3.firstOrder).toBeCloseTo(0, 1);
+    expect(x1.totalOrder).toBeCloseTo(0.558, 1);
+    expect(x2.totalOrder).toBeCloseTo(0.442, 1);
+    expect(x3.totalOrder).toBeCloseTo(0.244, 1);
+    expect(x3.totalOrderConfidence).toBeGreaterThan(0);
+    expect(x3.totalOrderConfidence).toBeLessThan(0.1);
+    expect(result.interactionShare).toBeCloseTo(0.244, 1);
+    expect(result.ranking).toEqual(['x1', 'x2', 'x3']);
+
+    expect(await analyzer.analyze(ISHIGAMI, ishigami, { samples: 256, seed: 3 }))
+      .toEqual(await analyzer.analyze(ISHIGAMI, ishigami, { samples: 256, seed: 3 }));
+  });
+
+  it('should screen parameters with Morris elementary effects', async () => {
+    const parameters: SensitivityParameter[] = [
+      { name: 'linear', min: 0, max: 1 },
+      { name: 'inert', min: 0, max: 10 },
+      { name: 'coupled', min: 0, max: 1 }
+    ];
+    const result = await analyzer.analyze(
+      parameters,
+      ({ linear, coupled }) => 4 * linear + 2 * coupled * linear,
+      { method: 'morris', trajectories: 30 }
+    );
+    const [linear, inert, coupled] = result.morris ?? [];
+
+    expect(result.evaluations).toBe(30 * 4);
+    expect(linear.muStar).toBeGreaterThan(coupled.muStar);
+    expect(inert).toMatchObject({ mu: 0, muStar: 0, sigma: 0 });
+    expect(coupled.sigma).toBeGreaterThan(0);
+    expect(result.ranking[2]).toBe('inert');
+
+    expect(analyzer.toCsv(result).split('\n')[0]).toBe('parameter,min,max,mu,mu_star,sigma');
+    expect(JSON.parse(analyzer.toJson(result)).ranking).toEqual(result.ranking);
+  });
+
+  it('should analyse any calculator output over its numeric inputs', async () => {
+    const calculator = new PowerSpeedMatchingCalculator();
+    const inputs = calculator.getExampleInputs();
+    const result = await analyzer.analyzeCalculator(calculator, inputs, 'optimalSettings.speed', { samples: 64, bootstrap: 0 });
+
+    expect(result.output).toBe('optimalSettings.speed');
+    expect(result.parameters.map(parameter => parameter.name)).toContain('thickness');
+    expect(result.sobol?.every(index => Number.isFinite(index.firstOrder))).toBe(true);
+    expect(analyzer.toCsv(result).split('\n')).toHaveLength(result.parameters.length + 2);
+
+    await expect(analyzer.analyzeCalculator(calculator, inputs, 'missing.value', { samples: 4 }))
+      .rejects.toThrow('has no numeric result at missing.value');
+    await expect(analyzer.analyze([{ name: 'x', min: 1, max: 1 }], () => 0)).rejects.toThrow('x: max must be above min');
+  });
+
+  it('should run as the sobol and morris analysis types of the sensitivity calculator', async () => {
+    const calculator = new SensitivityAnalysisCalculator();
+    const inputs = { ...calculator.getExampleInputs(), sampleCount: 256 };
+
+    const sobol = await calculator.calculate({ ...inputs, analysisType: 'sobol' });
+    expect(sobol.success).toBe(true);
+    expect(sobol.data?.globalSensitivity.sobol).toHaveLength(5);
+    expect(sobol.data?.optimizationInsights.mostInfluential).toBe(sobol.data?.globalSensitivity.ranking[0]);
+
+    const morris = await calculator.calculate({ ...inputs, analysisType: 'morris' });
+    expect(morris.data?.globalSensitivity.morris).toHaveLength(5);
+    expect(morris.data?.globalSensitivity.evaluations).toBe(20 * 6);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Kerf Compensator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ContourSegment, GeometryShape, Point2D } from '../../services/geometryCalculator';
+import { KerfCompensator } from '../../services/kerfCompensator';
+import { nestingEngine } from '../../services/nestingEngine';
+import { contourSignedArea, polygonBounds, shapeToPolygons } from '../../utils/geometryUtils';
+
+function polygon(points: Point2D[]): ContourSegment[] {
+  return points.map((p, i) => ({ type: 'line', start: p, end: points[(i + 1) % points.length] }));
+}
+
+function circle(cx: number, cy: number, r: number): ContourSegment[] {
+  const center = { x: cx, y: cy };
+  return [
+    { type: 'arc', start: { x: cx + r, y: cy }, end: { x: cx - r, y: cy }, center, radius: r, sweep: Math.PI },
+    { type: 'arc', start: { x: cx - r, y: cy }, end: { x: cx + r, y: cy }, center, radius: r, sweep: Math.PI }
+  ];
+}
+
+function part(contour: ContourSegment[], holes: ContourSegment[][] = []): GeometryShape {
+  return {
+    type: 'custom',
+    dimensions: {},
+    contour,
+    holes: holes.map(hole => ({ type: 'custom', dimensions: {}, contour: hole })),
+    name: 'Bracket'
+  };
+}
+
+describe('KerfCompensator', () => {
+  const compensator = new KerfCompensator();
+  const square = polygon([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 60 }, { x: 0, y: 60 }]);
+
+  it('should grow outlines with round corners and shrink holes', () => {
+    const result = compensator.compensate([part(square, [circle(50, 30, 10)])], 0.2);
+    const [outline, hole] = result.report[0].features;
+
+    expect(result.offset).toBeCloseTo(0.1, 9);
+    expect(outline.status).toBe('ok');
+    expect(outline.compensated!.width).toBeCloseTo(100.2, 6);
+    expect(outline.compensated!.height).toBeCloseTo(60.2, 6);
+    // Four straight edges plus a full turn of corner arcs
+    expect(outline.compensated!.length).toBeCloseTo(320 + 2 * Math.PI * 0.1, 6);
+    expect(outline.compensated!.area).toBeCloseTo(6000 + 320 * 0.1 + Math.PI * 0.01, 6);
+
+    expect(hole.status).toBe('ok');
+    expect(hole.nominal.width).toBeCloseTo(20, 3);
+    expect(hole.compensated!.length).toBeCloseTo(2 * Math.PI * 9.9, 6);
+
+    const shape = result.shapes[0];
+    expect(shape.kerfOffset).toBeCloseTo(0.1, 9);
+    expect(shape.contour!.filter(segment => segment.type === 'arc')).toHaveLength(4);
+    expect(contourSignedArea(shape.contour!)).toBeGreaterThan(0);
+    expect(shape.holes![0].contour!.every(segment => segment.type === 'arc')).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should trim concave corners instead of looping round them', () => {
+    // L-shaped plate
+    const el = polygon([{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 50, y: 20 }, { x: 20, y: 20 }, { x: 20, y: 50 }, { x: 0, y: 50 }]);
+    const { loops, closedEdges } = compensator.offsetContour(el, 1);
+
+    expect(loops).toHaveLength(1);
+    expect(closedEdges).toBe(0);
+    // Inner corner moves diagonally to (21, 21); the outer corners are rounded
+    const area = contourSignedArea(loops[0]);
+    expect(area).toBeCloseTo(1600 + 200 * 1 - 1 + (5 * Math.PI) / 4, 6);
+  });
+
+  it('should flag slots narrower than the kerf', () => {
+    // 0.1 mm wide, 10 mm deep slot in the top edge
+    const slotted = polygon([
+      { x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 20 }, { x: 20.05, y: 20 },
+      { x: 20.05, y: 10 }, { x: 19.95, y: 10 }, { x: 19.95, y: 20 }, { x: 0, y: 20 }
+    ]);
+    const result = compensator.compensate([part(slotted)], 0.2);
+    const outline = result.report[0].features[0];
+
+    expect(outline.status).toBe('merged');
+    expect(outline.compensated!.width).toBeCloseTo(40.2, 6);
+    // The slot walls are gone; only a shallow dip between the corner arcs remains
+    expect(outline.compensated!.length).toBeGreaterThan(120);
+    expect(outline.compensated!.length).toBeLessThan(121);
+    expect(result.warnings[0]).toMatch(/^Bracket outline: 2 edge\(s\) close up/);
+  });
+
+  it('should cut pockets behind a closed gap as holes', () => {
+    // 10 mm square pocket reached through a 0.1 mm gap from the top edge
+    const keyhole = polygon([
+      { x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 40 }, { x: 20.05, y: 40 }, { x: 20.05, y: 30 }, { x: 25, y: 30 },
+      { x: 25, y: 20 }, { x: 15, y: 20 }, { x: 15, y: 30 }, { x: 19.95, y: 30 }, { x: 19.95, y: 40 }, { x: 0, y: 40 }
+    ]);
+    const result = compensator.compensate([part(keyhole)], 0.2);
+    const [outline] = result.report[0].features;
+    const [pocket] = result.shapes[0].holes!;
+
+    expect(outline.status).toBe('merged');
+    expect(outline.message).toContain('1 pocket(s) behind a narrower gap are cut as separate holes');
+    expect(outline.compensated!.width).toBeCloseTo(40.2, 6);
+    expect(Math.abs(contourSignedArea(pocket.contour!))).toBeCloseTo(9.8 * 9.8, 1);
+  });
+
+  it('should report holes that vanish or split', () => {
+    // Two 4 mm squares joined by a 0.5 mm neck
+    const dumbbell = polygon([
+      { x: 10, y: 10 }, { x: 14, y: 10 }, { x: 14, y: 11.75 }, { x: 20, y: 11.75 }, { x: 20, y: 10 }, { x: 24, y: 10 },
+      { x: 24, y: 14 }, { x: 20, y: 14 }, { x: 20, y: 12.25 }, { x: 14, y: 12.25 }, { x: 14, y: 14 }, { x: 10, y: 14 }
+    ]);
+    const result = compensator.compensate([part(square, [circle(70, 30, 0.3), dumbbell])], 1);
+    const [, pin, slot] = result.report[0].features;
+
+    expect(pin.status).toBe('vanished');
+    expect(pin.compensated).toBeNull();
+    expect(slot.status).toBe('split');
+    // Each 4 mm end shrinks to 3 mm, slightly rounded out towards the neck
+    expect(slot.compensated!.area).toBeCloseTo(2 * 9, 1);
+    expect(result.shapes[0].holes).toHaveLength(2);
+    expect(result.warnings).toHaveLength(2);
+  });
+
+  it('should keep arcs of offset circles and primitives nestable', () => {
+    const result = compensator.compensate([{ type: 'circle', dimensions: { radius: 25 } }], 0.4);
+    const shape = result.shapes[0];
+
+    expect(shape.contour!.every(segment => segment.type === 'arc' && Math.abs(segment.radius - 25.2) < 1e-9)).toBe(true);
+    const bounds = polygonBounds(shapeToPolygons(shape).outline);
+    expect(bounds.minX).toBeCloseTo(-0.2, 2);
+
+    const nesting = nestingEngine.nest(result.shapes, 200, 100, { kerfWidth: 0, timeBudgetMs: 0 });
+    expect(nesting.placements).toHaveLength(1);
+    expect(nesting.placements[0].bounds.minX).toBeGreaterThanOrEqual(5 - 1e-6);
+  });
+
+  it('should compensate each part of a layout once', () => {
+    const plate = part(square);
+    const nesting = nestingEngine.nest([plate, plate], 300, 100, { timeBudgetMs: 0 });
+    const { placements: compensated, warnings } = compensator.compensatePlacements(nesting.placements, 0.2);
+
+    expect(warnings).toEqual([]);
+    expect(compensated.every(placement => placement.shape.kerfOffset === 0.1)).toBe(true);
+    expect(compensated[0].shape).toBe(compensated[1].shape);
+    expect(compensator.compensatePlacements(compensated, 0.2).placements).toEqual(compensated);
+    expect(() => compensator.compensateShape(compensated[0].shape, 0.2)).toThrow('Shape 1 is already kerf-compensated');
+    expect(() => compensator.compensate([square].map(c => part(c)), -1)).toThrow('Kerf width must be zero or positive');
+  });
+});
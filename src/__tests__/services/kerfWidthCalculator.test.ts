@@ -0,0 +1,56 @@
+/**
+ * Kerf Width Calculator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KerfWidthCalculator, KerfWidthInputs } from '../../services/calculators/kerfWidthCalculator';
+
+function createInputs(overrides: Partial<KerfWidthInputs> = {}): KerfWidthInputs {
+  return {
+    materialType: 'mild_steel',
+    thickness: 5,
+    materialConstant: 0.05,
+    laserPower: 3000,
+    cuttingSpeed: 1500,
+    beamDiameter: 0.1,
+    gasType: 'oxygen',
+    gasPressure: 0.8,
+    focusPosition: 0,
+    ...overrides
+  };
+}
+
+describe('KerfWidthCalculator', () => {
+  const calculator = new KerfWidthCalculator();
+
+  it('should widen the kerf with the energy per unit of cut wall', () => {
+    // 0.05 x √(3000 / (1500 x 5)) + 0.8 x 0.1
+    const kerf = 0.05 * Math.sqrt(0.4) + 0.08;
+    const prediction = calculator.predict(createInputs());
+
+    expect(prediction.predictedKerfWidth).toBeCloseTo(kerf, 3);
+    expect(prediction.compensationValue).toBeCloseTo(kerf / 2, 3);
+    expect(prediction.kerfWidthRange.min).toBeCloseTo(kerf * 0.85, 3);
+    expect(prediction.kerfWidthRange.max).toBeCloseTo(kerf * 1.15, 3);
+  });
+
+  it('should never predict a kerf narrower than the spot', () => {
+    const prediction = calculator.predict(createInputs({ materialConstant: 0, beamDiameter: 0.2 }));
+    expect(prediction.predictedKerfWidth).toBe(0.2);
+  });
+
+  it('should report how power and speed move the kerf', () => {
+    const { power, speed } = calculator.predict(createInputs()).sensitivityAnalysis;
+
+    expect(power.map(row => row.variation)).toEqual(['-10%', '-5%', '+5%', '+10%']);
+    expect(power[3].kerfWidth).toBeGreaterThan(power[0].kerfWidth);
+    expect(speed[3].kerfWidth).toBeLessThan(speed[0].kerfWidth);
+    expect(power[3].change.startsWith('+')).toBe(true);
+    expect(speed[3].change.startsWith('-')).toBe(true);
+  });
+
+  it('should reject impossible inputs', () => {
+    expect(() => calculator.predict(createInputs({ thickness: 0 }))).toThrow('Material thickness must be greater than 0');
+    expect(() => calculator.predict(createInputs({ cuttingSpeed: -1 }))).toThrow('Cutting speed must be greater than 0');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Machine Profile Registry Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MachineProfileRegistry, machineProfileRegistry } from '../../services/machineProfileRegistry';
+import { FocusHeightCalculator, type FocusHeightInputs } from '../../features/calculators/focus-height-calculator/FocusHeightCalculator';
+import { DrossFormationCalculator } from '../../features/calculators/dross-formation-calculator/DrossFormationCalculator';
+
+describe('MachineProfileRegistry', () => {
+  let registry: MachineProfileRegistry;
+
+  beforeEach(() => {
+    localStorage.clear();
+    registry = new MachineProfileRegistry();
+  });
+
+  it('should register team machines, persist them and protect the built-in ones', () => {
+    registry.extend('generic_fiber_6kw', {
+      id: 'bay2_fiber',
+      name: 'Bay 2 Fiber',
+      maxPower: 8000,
+      teamId: 'team-1',
+      operatingCost: { machineRatePerHour: 110 }
+    });
+
+    expect(registry.get('bay2_fiber').operatingCost.operatorRatePerHour).toBe(30);
+    expect(registry.list().map(machine => machine.id)).not.toContain('bay2_fiber');
+    expect(registry.list({ teamId: 'team-1' }).map(machine => machine.id)).toContain('bay2_fiber');
+    expect(registry.list({ source: 'co2' })).toHaveLength(1);
+
+    const reloaded = new MachineProfileRegistry();
+    expect(reloaded.get('bay2_fiber').maxPower).toBe(8000);
+    expect(reloaded.remove('generic_fiber_3kw')).toBe(false);
+    expect(() => reloaded.extend('generic_fiber_3kw', { id: 'generic_co2_4kw', name: 'Clash' }))
+      .toThrow('The built-in machine generic_co2_4kw cannot be replaced');
+    expect(() => reloaded.extend('generic_fiber_3kw', { id: 'bad', name: 'Bad', nozzles: [] }))
+      .toThrow('A machine needs at least one nozzle with a positive diameter');
+    expect(() => reloaded.get('missing')).toThrow('Unknown machine: missing');
+  });
+
+  it('should set machine properties and fill only empty defaults', () => {
+    const filled = registry.fillInputs(
+      'generic_fiber_3kw',
+      { laserType: 'co2', focalLength: 200, laserPower: '', nozzleDiameter: 2.5, thickness: 4 },
+      ['laserType', 'focalLength', 'laserPower', 'nozzleDiameter', 'thickness']
+    );
+
+    expect(filled).toEqual({ laserType: 'fiber', focalLength: 125, laserPower: 3000, nozzleDiameter: 2.5, thickness: 4 });
+    expect(registry.fillInputs('generic_fiber_3kw', {}, ['thickness'])).toEqual({});
+  });
+
+  it('should list the fields a machine always sets', () => {
+    expect(registry.suppliedFields(['laserType', 'focalLength', 'laserPower', 'nozzleDiameter', 'thickness']))
+      .toEqual(['laserType', 'focalLength']);
+  });
+
+  it('should reject inputs beyond the machine capability', () => {
+    const check = registry.checkInputs('generic_fiber_3kw', {
+      materialType: 'stainless_304',
+      thickness: 12,
+      laserPower: 4000,
+      assistGas: 'argon',
+      gasPressure: 22,
+      cuttingSpeed: 50000,
+      nozzleDiameter: 1.2,
+      length: 1600,
+      width: 3200
+    });
+
+    expect(check.errors.map(error => error.code)).toEqual([
+      'MACHINE_POWER_EXCEEDED',
+      'MACHINE_THICKNESS_EXCEEDED',
+      'MACHINE_GAS_UNAVAILABLE',
+      'MACHINE_PRESSURE_EXCEEDED',
+      'MACHINE_SPEED_EXCEEDED',
+      'MACHINE_BED_EXCEEDED'
+    ]);
+    expect(check.warnings.map(warning => warning.code)).toEqual(['MACHINE_NOZZLE_MISSING']);
+
+    // Rotated to fit the bed, and a family the machine has no rating for
+    const rotated = registry.checkInputs('generic_fiber_3kw', { length: 1400, width: 2900, materialType: 'inconel_718', thickness: 3 });
+    expect(rotated.errors).toEqual([]);
+    expect(rotated.warnings[0].code).toBe('MACHINE_MATERIAL_UNRATED');
+  });
+
+  it('should fill and constrain calculator inputs through machineId', async () => {
+    const focus = new FocusHeightCalculator();
+    const inputs = { ...focus.getExampleInputs(), laserType: 'co2', focalLength: 300, machineId: 'generic_fiber_6kw' };
+
+    const resolved = focus.resolveInputs(inputs);
+    expect(resolved.laserType).toBe('fiber');
+    expect(resolved.focalLength).toBe(machineProfileRegistry.get('generic_fiber_6kw').focalLength);
+    expect(focus.validateInputs(inputs).isValid).toBe(true);
+    expect((await focus.calculate(resolved as FocusHeightInputs)).success).toBe(true);
+
+    const dross = new DrossFormationCalculator();
+    const tooThick = dross.validateInputs({ ...dross.getExampleInputs(), thickness: 22, machineId: 'generic_fiber_3kw' });
+    expect(tooThick.isValid).toBe(false);
+    expect(tooThick.errors.find(error => error.field === 'thickness')?.code).toBe('MACHINE_THICKNESS_EXCEEDED');
+
+    const unknown = dross.validateInputs({ ...dross.getExampleInputs(), machineId: 'missing' });
+    expect(unknown.errors).toContainEqual({ field: 'machineId', message: 'Unknown machine: missing', code: 'UNKNOWN_MACHINE' });
+  });
+});
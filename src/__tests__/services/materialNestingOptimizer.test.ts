@@ -0,0 +1,265 @@
+/**
+ * Material Nesting Optimizer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MaterialNestingInputs,
+  MaterialNestingOptimizer
+} from '../../services/calculators/materialNestingOptimizer';
+import type { GeometryShape } from '../../services/geometryCalculator';
+import type { Remnant } from '../../services/remnantInventory';
+import { polygonArea, polygonBounds } from '../../utils/geometryUtils';
+
+function createInputs(overrides: Partial<MaterialNestingInputs> = {}): MaterialNestingInputs {
+  return {
+    parts: [
+      { id: 'p1', name: 'Bracket', length: 150, width: 100, thickness: 3, quantity: 40, materialType: 'mild_steel', priority: 1 }
+    ],
+    sheetSpecs: [
+      { id: 's1', name: 'Standard Sheet', length: 1000, width: 500, thickness: 3, materialType: 'mild_steel', cost: 150, availability: 10 }
+    ],
+    nestingConstraints: {
+      minSpacing: 2,
+      edgeMargin: 5,
+      grainDirection: 'any',
+      allowMixedThickness: false,
+      allowMixedMaterial: false
+    },
+    optimizationGoal: 'material_usage',
+    cuttingParameters: { kerfWidth: 0.2, leadInLength: 2, leadOutLength: 2, pierceTime: 0.5, cuttingSpeed: 1000 },
+    productionConstraints: { maxSheetCount: 20, deliveryDeadline: 48, setupTime: 15 },
+    ...overrides
+  };
+}
+
+function circle(cx: number, cy: number, radius: number): GeometryShape {
+  const center = { x: cx, y: cy };
+  return {
+    type: 'custom',
+    dimensions: {},
+    contour: [
+      { type: 'arc', start: { x: cx + radius, y: cy }, end: { x: cx - radius, y: cy }, center, radius, sweep: Math.PI },
+      { type: 'arc', start: { x: cx - radius, y: cy }, end: { x: cx + radius, y: cy }, center, radius, sweep: Math.PI }
+    ]
+  };
+}
+
+describe('MaterialNestingOptimizer', () => {
+  const optimizer = new MaterialNestingOptimizer();
+
+  it('should build the plan from real part placements', () => {
+    const results = optimizer.calculate(createInputs());
+    const placements = results.nestingPlan.flatMap(sheet => sheet.placements);
+
+    expect(placements).toHaveLength(40);
+    expect(results.unplacedParts).toHaveLength(0);
+    // At least a 6 x 4 grid of brackets fits a 1000 x 500 sheet with margins and spacing
+    expect(results.optimizationSummary.totalSheets).toBe(2);
+    expect(results.nestingPlan[0].partsPlaced.reduce((sum, p) => sum + p.quantity, 0)).toBeGreaterThanOrEqual(24);
+    expect(results.optimizationSummary.overallUtilization).toBeCloseTo((40 * 15000) / (2 * 500000) * 100, 6);
+    expect(results.optimizationSummary.totalMaterialCost).toBe(300);
+  });
+
+  it('should derive cutting time from the part contours', () => {
+    const results = optimizer.calculate(createInputs());
+    // (500 mm perimeter + 4 mm lead-in/out) / 1000 mm/min + 0.5 s pierce per part
+    const perPart = 504 / 1000 + 0.5 / 60;
+
+    expect(results.optimizationSummary.totalCuttingTime).toBeCloseTo(40 * perPart, 6);
+    expect(results.productionSchedule[1].startTime).toBeCloseTo(results.productionSchedule[0].completionTime, 6);
+  });
+
+  it('should keep materials apart unless mixing is allowed', () => {
+    const inputs = createInputs({
+      parts: [
+        { id: 'p1', name: 'Steel plate', length: 100, width: 100, thickness: 3, quantity: 2, materialType: 'mild_steel', priority: 1 },
+        { id: 'p2', name: 'Alu plate', length: 100, width: 100, thickness: 3, quantity: 2, materialType: 'aluminum', priority: 1 }
+      ],
+      sheetSpecs: [
+        { id: 's1', name: 'Steel', length: 1000, width: 500, thickness: 3, materialType: 'mild_steel', cost: 150, availability: 10 },
+        { id: 's2', name: 'Aluminium', length: 1000, width: 500, thickness: 3, materialType: 'aluminum', cost: 200, availability: 10 }
+      ]
+    });
+
+    const separate = optimizer.calculate(inputs);
+    expect(separate.optimizationSummary.totalSheets).toBe(2);
+    expect(separate.materialEfficiency.utilizationByMaterial.map(m => m.material).sort()).toEqual(['aluminum', 'mild_steel']);
+
+    const mixed = optimizer.calculate({
+      ...inputs,
+      nestingConstraints: { ...inputs.nestingConstraints, allowMixedMaterial: true },
+      optimizationGoal: 'cost_minimization'
+    });
+    expect(mixed.optimizationSummary.totalSheets).toBe(1);
+    expect(mixed.nestingPlan[0].sheetSpec.id).toBe('s1');
+  });
+
+  it('should pick the sheet specification that suits the goal', () => {
+    const inputs = createInputs({
+      sheetSpecs: [
+        { id: 'big', name: 'Large', length: 2000, width: 1000, thickness: 3, materialType: 'mild_steel', cost: 500, availability: 5 },
+        { id: 'small', name: 'Small', length: 1000, width: 500, thickness: 3, materialType: 'mild_steel', cost: 100, availability: 5 }
+      ]
+    });
+
+    const bySheets = optimizer.calculate({ ...inputs, optimizationGoal: 'sheet_count' });
+    expect(bySheets.nestingPlan[0].sheetSpec.id).toBe('big');
+    expect(bySheets.alternativeLayouts).toHaveLength(1);
+
+    const byCost = optimizer.calculate({ ...inputs, optimizationGoal: 'cost_minimization' });
+    expect(byCost.nestingPlan[0].sheetSpec.id).toBe('small');
+    expect(byCost.costAnalysis.savingsVsWorstCase).toBeGreaterThan(0);
+  });
+
+  it('should report parts that fit no sheet', () => {
+    const results = optimizer.calculate(createInputs({
+      parts: [
+        { id: 'p1', name: 'Oversize', length: 1200, width: 600, thickness: 3, quantity: 1, materialType: 'mild_steel', priority: 1 },
+        { id: 'p2', name: 'Copper', length: 50, width: 50, thickness: 3, quantity: 3, materialType: 'copper', priority: 1 }
+      ]
+    }));
+
+    expect(results.optimizationSummary.totalSheets).toBe(0);
+    expect(results.unplacedParts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ partId: 'p1', quantity: 1 }),
+      expect.objectContaining({ partId: 'p2', quantity: 3, reason: 'No compatible sheet specification' })
+    ]));
+  });
+
+  it('should lay parts across the sheet for a width grain direction', () => {
+    const results = optimizer.calculate(createInputs({
+      nestingConstraints: { ...createInputs().nestingConstraints, grainDirection: 'width' }
+    }));
+    const placement = results.nestingPlan[0].placements[0];
+
+    expect(placement.rotation).toBe(0);
+    expect(placement.width).toBeCloseTo(100);
+    expect(placement.height).toBeCloseTo(150);
+  });
+
+  it('should let a part lock its own grain direction', () => {
+    const results = optimizer.calculate(createInputs({
+      parts: [
+        { id: 'p1', name: 'Strip', length: 450, width: 100, thickness: 3, quantity: 2, materialType: 'mild_steel', priority: 1, grainDirection: 'width' },
+        { id: 'p2', name: 'Bracket', length: 150, width: 100, thickness: 3, quantity: 2, materialType: 'mild_steel', priority: 1 }
+      ]
+    }));
+    const strips = results.nestingPlan[0].placements.filter(p => p.partId === 'p1');
+
+    expect(strips).toHaveLength(2);
+    strips.forEach(strip => {
+      expect(strip.rotation).toBe(0);
+      expect(strip.width).toBeCloseTo(100);
+      expect(strip.height).toBeCloseTo(450);
+    });
+    expect(results.nestingPlan[0].remnants[0].width).toBe(500);
+  });
+
+  it('should nest the kerf-compensated outlines but report nominal sizes', () => {
+    const inputs = createInputs({
+      parts: [
+        {
+          id: 'p1', name: 'Washer', length: 100, width: 100, thickness: 3, quantity: 4, materialType: 'mild_steel', priority: 1,
+          shape: {
+            type: 'custom',
+            dimensions: {},
+            contour: [
+              { type: 'line', start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+              { type: 'line', start: { x: 100, y: 0 }, end: { x: 100, y: 100 } },
+              { type: 'line', start: { x: 100, y: 100 }, end: { x: 0, y: 100 } },
+              { type: 'line', start: { x: 0, y: 100 }, end: { x: 0, y: 0 } }
+            ],
+            holes: [circle(50, 50, 10), circle(20, 20, 0.05)]
+          }
+        }
+      ],
+      cuttingParameters: { kerfWidth: 0.2, kerfCompensation: true, leadInLength: 2, leadOutLength: 2, pierceTime: 0.5, cuttingSpeed: 1000 }
+    });
+
+    const results = optimizer.calculate(inputs);
+    const placement = results.nestingPlan[0].placements[0];
+
+    expect(placement.width).toBeCloseTo(100, 6);
+    expect(placement.height).toBeCloseTo(100, 6);
+    // The layout draws the part as designed, holes included
+    const outlineBounds = polygonBounds(placement.outline);
+    expect(outlineBounds.minX).toBeCloseTo(placement.x, 6);
+    expect(outlineBounds.maxY).toBeCloseTo(placement.y + placement.height, 6);
+    expect(placement.holes).toHaveLength(2);
+    const partArea = 4 * (10000 - Math.PI * 100 - Math.PI * 0.0025);
+    expect(results.nestingPlan[0].utilization).toBeCloseTo((partArea / 500000) * 100, 1);
+    expect(results.qualityConsiderations.recommendations.some(r =>
+      r.startsWith('Kerf compensation:') && r.includes('hole-2')
+    )).toBe(true);
+  });
+
+  it('should fill stock remnants before full sheets', () => {
+    const remnant = (id: string, outline: Array<{ x: number; y: number }>, materialType = 'mild_steel'): Remnant => {
+      const bounds = { length: Math.max(...outline.map(p => p.x)), width: Math.max(...outline.map(p => p.y)) };
+      return {
+        id, materialType, thickness: 3, outline, ...bounds, area: polygonArea(outline),
+        location: 'Rack A', createdAt: '2026-01-01T00:00:00.000Z', status: 'available'
+      };
+    };
+    const inputs = createInputs({
+      parts: [
+        { id: 'p1', name: 'Bracket', length: 150, width: 100, thickness: 3, quantity: 6, materialType: 'mild_steel', priority: 1 }
+      ],
+      remnants: [
+        // 400 x 400 with the top-right 200 x 200 already cut away: three brackets fit
+        remnant('r-ell', [
+          { x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 200 }, { x: 200, y: 200 }, { x: 200, y: 400 }, { x: 0, y: 400 }
+        ]),
+        remnant('r-alu', [{ x: 0, y: 0 }, { x: 800, y: 0 }, { x: 800, y: 500 }, { x: 0, y: 500 }], 'aluminum')
+      ]
+    });
+
+    const results = optimizer.calculate(inputs);
+    const [first, second] = results.nestingPlan;
+
+    expect(first.remnantId).toBe('r-ell');
+    expect(first.materialCost).toBe(0);
+    expect(first.sheetArea).toBe(120000);
+    expect(first.sheetOutline).toHaveLength(6);
+    expect(first.placements.length).toBeGreaterThanOrEqual(3);
+    expect(first.utilization).toBeCloseTo((first.placements.length * 15000 / 120000) * 100, 2);
+    expect(second.remnantId).toBeUndefined();
+    expect(second.sheetSpec.id).toBe('s1');
+    expect(results.nestingPlan.flatMap(sheet => sheet.placements)).toHaveLength(6);
+    expect(results.nestingPlan.some(sheet => sheet.remnantId === 'r-alu')).toBe(false);
+  });
+
+  it('should pack rectangles over the sheet inventory in guillotine mode', () => {
+    const results = optimizer.calculate(createInputs({
+      nestingMode: 'guillotine',
+      sheetSpecs: [
+        { id: 'big', name: 'Large', length: 2000, width: 1000, thickness: 3, materialType: 'mild_steel', cost: 500, availability: 5 },
+        { id: 'small', name: 'Small', length: 1000, width: 500, thickness: 3, materialType: 'mild_steel', cost: 100, availability: 1 }
+      ]
+    }));
+
+    // The single small sheet goes first, the rest on one large sheet
+    expect(results.nestingPlan.map(sheet => sheet.sheetSpec.id)).toEqual(['small', 'big']);
+    expect(results.optimizationSummary.totalMaterialCost).toBe(600);
+    expect(results.nestingPlan.flatMap(sheet => sheet.placements)).toHaveLength(40);
+    expect(results.nestingPlan[1].remnants.length).toBeGreaterThan(0);
+    expect(results.nestingPlan[1].cuts.length).toBeGreaterThan(0);
+    expect(results.alternativeLayouts[0].layoutName).toBe('Skyline packing');
+  });
+
+  it('should report parts left over when the sheet inventory runs out', () => {
+    const base = createInputs();
+    const results = optimizer.calculate({
+      ...base,
+      nestingMode: 'skyline',
+      sheetSpecs: [{ ...base.sheetSpecs[0], availability: 1 }]
+    });
+
+    expect(results.optimizationSummary.totalSheets).toBe(1);
+    expect(results.unplacedParts).toEqual([
+      expect.objectContaining({ partId: 'p1', reason: 'Not enough sheets in stock' })
+    ]);
+    expect(results.materialEfficiency.improvementOpportunities.some(o => o.includes('not enough sheets'))).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Material Registry Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MaterialRegistry } from '../../services/materialRegistry';
+import { materials, getMaterialById } from '../../data/materials';
+
+describe('MaterialRegistry', () => {
+  let registry: MaterialRegistry;
+
+  beforeEach(() => {
+    localStorage.clear();
+    registry = new MaterialRegistry();
+  });
+
+  it('should resolve old ids through aliases regardless of case and separators', () => {
+    expect(registry.resolve('mild-steel')).toBe('steel');
+    expect(registry.resolve('Aluminum-6061')).toBe('aluminum_6061');
+    expect(registry.resolve('stainless_steel_304')).toBe('stainless_304');
+    expect(registry.familyOf('titanium_grade5')).toBe('titanium');
+    expect(registry.isFamily('galvanized', 'steel', 'stainless_steel')).toBe(true);
+    expect(registry.find('unobtainium')).toBeUndefined();
+    expect(() => registry.get('unobtainium')).toThrow('Unknown material: unobtainium');
+  });
+
+  it('should keep the legacy material list on its published ids', () => {
+    expect(materials.map(material => material.id)).toContain('mild-steel');
+    const aluminum = getMaterialById('aluminum-6061');
+    expect(aluminum?.properties.density).toBe(2700);
+    expect(aluminum?.properties.absorptivity).toBeCloseTo(1 - aluminum!.properties.reflectivity);
+    expect(getMaterialById('inconel_718')?.name).toContain('718');
+  });
+
+  it('should keep the published properties of the legacy list, not the fiber registry values', () => {
+    const published = (id: string) => getMaterialById(id)!.properties;
+
+    expect(published('acrylic')).toMatchObject({ absorptivity: 0.95, reflectivity: 0.05 });
+    expect(published('copper')).toMatchObject({ absorptivity: 0.15, thermalConductivity: 401 });
+    expect(published('mild-steel').absorptivity).toBe(0.4);
+    expect(published('aluminum-6061').meltingPoint).toBe(660);
+    expect(published('titanium-grade2')).toMatchObject({ density: 4510, thermalConductivity: 17 });
+    expect(getMaterialById('aluminum-6061')?.name).toBe('Aluminum 6061');
+
+    // Grades outside the legacy list come from the registry
+    expect(getMaterialById('inconel_718')?.properties.absorptivity).toBe(registry.absorptivity('inconel_718'));
+  });
+
+  it('should filter grades and validate ids through the schema', () => {
+    const metals = registry.schema({ families: ['steel', 'aluminum'] });
+    expect(metals.safeParse('dp_980').success).toBe(true);
+    expect(metals.safeParse('mild-steel').success).toBe(true);
+    expect(metals.safeParse('copper').success).toBe(false);
+
+    const charted = registry.list({ withChart: true }).map(grade => grade.family);
+    expect(new Set(charted)).toEqual(new Set(['steel', 'stainless_steel', 'aluminum']));
+  });
+
+  it('should take missing wavelengths from the family and fall back to the fiber value', () => {
+    expect(registry.absorptivity('steel', 'co2')).toBe(0.15);
+    expect(registry.absorptivity('dp_780', 'co2')).toBe(0.15);
+    expect(registry.absorptivity('hastelloy_x', 'co2')).toBe(0.8);
+    expect(registry.thermalDiffusivity('aluminum')).toBeGreaterThan(registry.thermalDiffusivity('steel'));
+  });
+
+  it('should interpolate cutting data over thickness and power and flag extrapolation', () => {
+    expect(registry.cuttingChart('stainless_316')).toBe(registry.cuttingChart('stainless_steel'));
+
+    const exact = registry.cuttingData('steel', 5, 2000);
+    expect(exact).toEqual({ speed: 5000, pierceTime: 0.5, extrapolated: false });
+
+    // Halfway between 3 mm and 5 mm, and between 2 kW and 3 kW
+    const between = registry.cuttingData('steel', 4, 2500);
+    expect(between.speed).toBeCloseTo((8250 + 6000) / 2);
+    expect(between.pierceTime).toBeCloseTo(0.4);
+
+    const beyond = registry.cuttingData('aluminum', 30, 8000);
+    expect(beyond.extrapolated).toBe(true);
+    expect(beyond.speed).toBe(3200);
+
+    expect(() => registry.cuttingData('acrylic', 3, 100)).toThrow('No cutting chart for material: acrylic');
+  });
+
+  it('should register new alloys, accept them in existing schemas and persist them', () => {
+    const schema = registry.schema({ families: ['aluminum'], withChart: true });
+    expect(schema.safeParse('aluminum_5083').success).toBe(false);
+
+    registry.extend('aluminum_5052', {
+      id: 'aluminum_5083',
+      name: 'Aluminum 5083',
+      grade: '5083',
+      aliases: ['al5083'],
+      thermal: { conductivity: 117 }
+    });
+
+    expect(schema.safeParse('AL5083').success).toBe(true);
+    expect(registry.get('aluminum_5083').thermal.density).toBe(registry.get('aluminum_5052').thermal.density);
+    expect(registry.cuttingData('aluminum_5083', 3, 3000).speed).toBe(12000);
+    expect(() => registry.extend('steel', { id: 'al5083', name: 'Clash' }))
+      .toThrow('Material id already in use: al5083');
+
+    const reloaded = new MaterialRegistry();
+    expect(reloaded.get('al5083').thermal.conductivity).toBe(117);
+    expect(reloaded.remove('aluminum_5083')).toBe(true);
+    expect(reloaded.has('al5083')).toBe(false);
+    expect(reloaded.remove('steel')).toBe(false);
+    expect(new MaterialRegistry().has('aluminum_5083')).toBe(false);
+  });
+
+  it('should reject grades with impossible properties', () => {
+    expect(() => registry.extend('copper', { id: 'bad', name: 'Bad', thermal: { density: 0 } }))
+      .toThrow('Thermal properties must be positive numbers');
+    expect(() => registry.extend('copper', { id: 'bad', name: 'Bad', optical: { absorptivity: { fiber: 1.5 } } }))
+      .toThrow('Absorptivity must be between 0 and 1');
+  });
+});
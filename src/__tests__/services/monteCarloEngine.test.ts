@@ -0,0 +1,137 @@
+/**
+ * Monte Carlo Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MonteCarloEngine, type UncertainInput } from '../../services/monteCarloEngine';
+import { CostBenefitAnalyzer } from '../../features/calculators/cost-benefit-analyzer/CostBenefitAnalyzer';
+import { SensitivityAnalysisCalculator } from '../../features/calculators/sensitivity-analysis-calculator/SensitivityAnalysisCalculator';
+
+const mean = (values: Float64Array) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const rankCorrelation = (a: Float64Array, b: Float64Array) => {
+  const ranks = (values: Float64Array) => {
+    const order = Array.from(values.keys()).sort((i, j) => values[i] - values[j]);
+    const rank = new Float64Array(values.length);
+    order.forEach((index, position) => { rank[index] = position; });
+    return rank;
+  };
+  const ra = ranks(a);
+  const rb = ranks(b);
+  const ma = mean(ra);
+  const mb = mean(rb);
+  let covariance = 0, va = 0, vb = 0;
+  ra.forEach((value, i) => {
+    covariance += (value - ma) * (rb[i] - mb);
+    va += (value - ma) ** 2;
+    vb += (rb[i] - mb) ** 2;
+  });
+  return covariance / Math.sqrt(va * vb);
+};
+
+describe('MonteCarloEngine', () => {
+  const engine = new MonteCarloEngine();
+
+  it('should sample each distribution with the expected mean and bounds', () => {
+    const inputs: UncertainInput[] = [
+      { name: 'normal', distribution: { type: 'normal', mean: 10, standardDeviation: 2 } },
+      { name: 'lognormal', distribution: { type: 'lognormal', mean: 5, standardDeviation: 1 } },
+      { name: 'uniform', distribution: { type: 'uniform', min: 0, max: 4 } },
+      { name: 'triangular', distribution: { type: 'triangular', min: 0, mode: 3, max: 6 } },
+      { name: 'pert', distribution: { type: 'pert', min: 0, mode: 1, max: 10 } }
+    ];
+    const columns = engine.sample(inputs, { samples: 20000, seed: 7 });
+
+    expect(mean(columns.normal)).toBeCloseTo(10, 1);
+    expect(mean(columns.lognormal)).toBeCloseTo(5, 1);
+    expect(Math.min(...columns.lognormal)).toBeGreaterThan(0);
+    expect(mean(columns.uniform)).toBeCloseTo(2, 1);
+    expect(Math.max(...columns.uniform)).toBeLessThan(4);
+    expect(mean(columns.triangular)).toBeCloseTo(3, 1);
+    expect(mean(columns.pert)).toBeCloseTo((0 + 4 * 1 + 10) / 6, 1);
+    expect(Math.max(...columns.pert)).toBeLessThanOrEqual(10);
+  });
+
+  it('should be reproducible for a seed and honour rank correlations', () => {
+    const inputs: UncertainInput[] = [
+      { name: 'a', distribution: { type: 'normal', mean: 0, standardDeviation: 1 } },
+      { name: 'b', distribution: { type: 'triangular', min: 0, mode: 1, max: 5 } }
+    ];
+    const options = { samples: 5000, seed: 42, correlations: [{ inputs: ['a', 'b'] as [string, string], coefficient: 0.8 }] };
+
+    const first = engine.sample(inputs, options);
+    expect(engine.sample(inputs, options)).toEqual(first);
+    expect(engine.sample(inputs, { ...options, seed: 43 }).a).not.toEqual(first.a);
+    expect(rankCorrelation(first.a, first.b)).toBeCloseTo(0.8, 1);
+    expect(rankCorrelation(first.a, engine.sample(inputs, { ...options, correlations: [] }).b)).toBeCloseTo(0, 1);
+
+    expect(() => engine.sample(inputs, { correlations: [{ inputs: ['a', 'c'], coefficient: 0.5 }] }))
+      .toThrow('Correlation refers to an unknown input: c');
+    expect(() => engine.sample([...inputs, { name: 'c', distribution: { type: 'uniform', min: 0, max: 1 } }], {
+      correlations: [
+        { inputs: ['a', 'b'], coefficient: 0.9 },
+        { inputs: ['a', 'c'], coefficient: 0.9 },
+        { inputs: ['b', 'c'], coefficient: -0.9 }
+      ]
+    })).toThrow('not positive definite');
+    expect(() => engine.sample([{ name: 'x', distribution: { type: 'pert', min: 1, mode: 5, max: 3 } }]))
+      .toThrow('x: mode must lie between min and max');
+  });
+
+  it('should summarise the model output with percentiles, a histogram and a target probability', () => {
+    const result = engine.simulate(
+      [{ name: 'x', distribution: { type: 'uniform', min: 0, max: 100 } }],
+      ({ x }) => x - 25,
+      { samples: 10000, bins: 10, target: { value: 0, direction: 'above' } }
+    );
+
+    expect(result.percentiles.P10).toBeCloseTo(-15, 0);
+    expect(result.percentiles.P50).toBeCloseTo(25, 0);
+    expect(result.percentiles.P90).toBeCloseTo(65, 0);
+    expect(result.probabilityOfTarget).toBeCloseTo(0.75, 1);
+    expect(result.histogram).toHaveLength(10);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(10000);
+    expect(result.histogram[0].from).toBe(result.min);
+    expect(result.histogram[9].to).toBe(result.max);
+
+    expect(result.convergence.history).toHaveLength(10);
+    expect(result.convergence.history[9].mean).toBe(result.mean);
+    expect(result.convergence.converged).toBe(true);
+    expect(result.convergence.standardError).toBeCloseTo(result.standardDeviation / 100, 6);
+
+    const short = engine.simulate(
+      [{ name: 'x', distribution: { type: 'lognormal', mean: 1, standardDeviation: 3 } }],
+      ({ x }) => x,
+      { samples: 20, convergenceTolerance: 0.01 }
+    );
+    expect(short.convergence.converged).toBe(false);
+    expect(() => engine.simulate([], () => NaN, { samples: 10 })).toThrow('Model returned NaN for sample 1');
+  });
+
+  it('should drive the monte_carlo analysis of the cost-benefit and sensitivity calculators', async () => {
+    const analyzer = new CostBenefitAnalyzer();
+    const inputs = { ...analyzer.getExampleInputs(), analysisType: 'monte_carlo' as const, sampleCount: 2000 };
+    const result = await analyzer.calculate(inputs);
+    const again = await analyzer.calculate(inputs);
+
+    expect(result.success).toBe(true);
+    const monteCarlo = result.data?.monteCarlo;
+    expect(monteCarlo?.samples).toBe(2000);
+    expect(monteCarlo?.percentiles.P5).toBeLessThan(monteCarlo?.percentiles.P50);
+    expect(result.data?.riskAssessment.probabilityOfSuccess).toBe(monteCarlo?.probabilityOfTarget);
+    expect(again.data?.monteCarlo).toEqual(monteCarlo);
+    expect((await analyzer.calculate(analyzer.getExampleInputs())).data?.monteCarlo).toBeUndefined();
+
+    const sensitivity = new SensitivityAnalysisCalculator();
+    const analysis = await sensitivity.calculate({
+      ...sensitivity.getExampleInputs(),
+      analysisType: 'monte_carlo',
+      sampleCount: 1000,
+      uncertainties: [{ parameter: 'laserPower', distribution: { type: 'normal', mean: 2000, standardDeviation: 100 } }],
+      target: { value: 10, direction: 'below' }
+    });
+    expect(analysis.success).toBe(true);
+    expect(analysis.data?.monteCarlo?.samples).toBe(1000);
+    expect(analysis.data?.monteCarlo?.probabilityOfTarget).toBeGreaterThan(0);
+  });
+});
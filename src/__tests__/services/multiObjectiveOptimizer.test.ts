@@ -0,0 +1,116 @@
+/**
+ * Multi-Objective Optimizer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MultiObjectiveOptimizer, type DesignVariable, type OptimizationAlgorithm } from '../../services/multiObjectiveOptimizer';
+import { ProcessOptimizationEngine, type ProcessOptimizationInputs } from '../../features/calculators/process-optimization-engine/ProcessOptimizationEngine';
+
+// ZDT1: the Pareto front is f2 = 1 - √f1 for f1 in [0, 1], reached when x2..x5 = 0
+const ZDT1_VARIABLES: DesignVariable[] = ['x1', 'x2', 'x3', 'x4', 'x5'].map(name => ({ name, min: 0, max: 1 }));
+const zdt1 = ({ x1, ...rest }: Record<string, number>) => {
+  const others = Object.values(rest);
+  const g = 1 + 9 * others.reduce((sum, value) => sum + value, 0) / others.length;
+  return { f1: x1, f2: g * (1 - Math.sqrt(x1 / g)) };
+};
+const ZDT1_OBJECTIVES = [
+  { name: 'f1', direction: 'minimize' as const },
+  { name: 'f2', direction: 'minimize' as const }
+];
+
+describe('MultiObjectiveOptimizer', () => {
+  const optimizer = new MultiObjectiveOptimizer();
+
+  it('should converge NSGA-II onto the ZDT1 Pareto front', () => {
+    const run = optimizer.optimize(ZDT1_VARIABLES, ZDT1_OBJECTIVES, zdt1, {
+      populationSize: 60, iterations: 150, tolerance: 0, archiveSize: 60
+    });
+
+    expect(run.evaluations).toBe(60 * 151);
+    expect(run.front).toHaveLength(60);
+    run.front.forEach(solution => {
+      expect(solution.metrics.f2).toBeCloseTo(1 - Math.sqrt(solution.metrics.f1), 1);
+    });
+    expect(run.front[0].metrics.f1).toBeLessThan(0.05);
+    expect(run.front[run.front.length - 1].metrics.f1).toBeGreaterThan(0.95);
+    expect(run.front[0].crowdingDistance).toBe(Infinity);
+
+    const costs = run.front.map(solution => ({ costs: [solution.metrics.f1, solution.metrics.f2], violation: 0 }));
+    expect(optimizer.nonDominatedSort(costs)).toHaveLength(1);
+  });
+
+  it('should be reproducible from the seed', () => {
+    const options = { populationSize: 20, iterations: 20 };
+    const algorithms: OptimizationAlgorithm[] = ['nsga2', 'genetic', 'particle_swarm', 'simulated_annealing'];
+
+    algorithms.forEach(algorithm => {
+      const first = optimizer.optimize(ZDT1_VARIABLES, ZDT1_OBJECTIVES, zdt1, { ...options, algorithm, seed: 5 });
+      const again = optimizer.optimize(ZDT1_VARIABLES, ZDT1_OBJECTIVES, zdt1, { ...options, algorithm, seed: 5 });
+      const other = optimizer.optimize(ZDT1_VARIABLES, ZDT1_OBJECTIVES, zdt1, { ...options, algorithm, seed: 6 });
+
+      expect(again.front).toEqual(first.front);
+      expect(again.best).toEqual(first.best);
+      expect(other.front).not.toEqual(first.front);
+    });
+  });
+
+  it('should keep every algorithm within the constraints', () => {
+    const variables: DesignVariable[] = [{ name: 'x', min: -5, max: 5 }];
+    const model = ({ x }: Record<string, number>) => ({ a: x * x, b: (x - 2) ** 2, x });
+    const objectives = [{ name: 'a', direction: 'minimize' as const }, { name: 'b', direction: 'minimize' as const }];
+    const algorithms: OptimizationAlgorithm[] = ['nsga2', 'genetic', 'particle_swarm', 'simulated_annealing'];
+
+    algorithms.forEach(algorithm => {
+      const run = optimizer.optimize(variables, objectives, model, {
+        algorithm, populationSize: 20, iterations: 60, constraints: [{ metric: 'x', min: 1.5 }]
+      });
+      expect(run.feasible).toBe(true);
+      expect(run.front.every(solution => solution.violation === 0 && solution.variables.x >= 1.5)).toBe(true);
+      // Equal weights put the compromise at the constraint boundary
+      expect(run.best.variables.x).toBeCloseTo(1.5, 1);
+    });
+
+    const impossible = optimizer.optimize(variables, objectives, model, {
+      populationSize: 10, iterations: 10, constraints: [{ metric: 'x', max: -10 }]
+    });
+    expect(impossible.feasible).toBe(false);
+    expect(impossible.front).toHaveLength(1);
+    expect(impossible.front[0].variables.x).toBeCloseTo(-5, 0);
+
+    expect(() => optimizer.optimize(variables, objectives, () => ({ a: NaN, b: 0 })))
+      .toThrow('Model returned no finite a for evaluation 1');
+    expect(() => optimizer.optimize(variables, objectives, model, { constraints: [{ metric: 'x' }] }))
+      .toThrow('Constraint on x needs a min or a max');
+  });
+
+  it('should give the process optimization engine a reproducible Pareto front of the chosen objectives', async () => {
+    const engine = new ProcessOptimizationEngine();
+    const inputs: ProcessOptimizationInputs = {
+      ...engine.getExampleInputs(),
+      algorithmType: 'multi_objective',
+      objectives: ['cost', 'quality'],
+      constraints: { maxCost: 6 },
+      populationSize: 30,
+      generations: 30,
+      seed: 11
+    };
+
+    const result = await engine.calculate(inputs);
+    const again = await engine.calculate(inputs);
+    expect(result.success).toBe(true);
+    expect(again.data?.paretoFront).toEqual(result.data?.paretoFront);
+    expect(result.data?.optimizationSummary.objectives).toEqual(['cost', 'quality']);
+    expect(result.data?.optimizationSummary.seed).toBe(11);
+
+    // Along a two-objective front, paying more must buy quality
+    const front = result.data?.paretoFront ?? [];
+    expect(front.length).toBeGreaterThan(1);
+    front.slice(1).forEach((solution: { objectives: { cost: number; quality: number } }, i: number) => {
+      expect(solution.objectives.cost).toBeGreaterThanOrEqual(front[i].objectives.cost);
+      expect(solution.objectives.quality).toBeGreaterThan(front[i].objectives.quality);
+      expect(solution.objectives.cost).toBeLessThanOrEqual(6);
+    });
+    expect(front.every((solution: { parameters: { power: number } }) => solution.parameters.power <= inputs.laserPower))
+      .toBe(true);
+  });
+});
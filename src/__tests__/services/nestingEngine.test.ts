@@ -0,0 +1,184 @@
+/**
+ * Nesting Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NestingEngine, NestingPlacement } from '../../services/nestingEngine';
+import { GeometryCalculator, GeometryShape } from '../../services/geometryCalculator';
+import { SvgImporter } from '../../services/svgImporter';
+import { polygonArea, rotatePolygon, shapeToPolygons } from '../../utils/geometryUtils';
+
+function rectangle(width: number, height: number): GeometryShape {
+  return { type: 'rectangle', dimensions: { width, height } };
+}
+
+// Placed outline on the sheet
+function placedOutline(placement: NestingPlacement) {
+  return rotatePolygon(shapeToPolygons(placement.shape).outline, placement.rotation).map(p => ({
+    x: p.x + placement.position.x,
+    y: p.y + placement.position.y
+  }));
+}
+
+function overlaps(a: NestingPlacement, b: NestingPlacement, gap: number): boolean {
+  return (
+    a.sheetIndex === b.sheetIndex &&
+    a.bounds.minX < b.bounds.maxX + gap - 1e-6 &&
+    b.bounds.minX < a.bounds.maxX + gap - 1e-6 &&
+    a.bounds.minY < b.bounds.maxY + gap - 1e-6 &&
+    b.bounds.minY < a.bounds.maxY + gap - 1e-6
+  );
+}
+
+describe('NestingEngine', () => {
+  const engine = new NestingEngine();
+  const fast = { timeBudgetMs: 0, partSpacing: 0, edgeSpacing: 0, kerfWidth: 0 };
+
+  describe('rectangular parts', () => {
+    it('should fill a sheet exactly with equal rectangles', () => {
+      const shapes = Array.from({ length: 8 }, () => rectangle(50, 25));
+      const result = engine.nest(shapes, 100, 100, fast);
+
+      expect(result.sheetsRequired).toBe(1);
+      expect(result.placements).toHaveLength(8);
+      expect(result.utilization).toBeCloseTo(100, 6);
+      expect(result.sheets[0].utilization).toBeCloseTo(100, 6);
+      result.placements.forEach((a, i) =>
+        result.placements.slice(i + 1).forEach(b => expect(overlaps(a, b, 0)).toBe(false))
+      );
+    });
+
+    it('should respect part spacing, edge spacing and kerf', () => {
+      const shapes = Array.from({ length: 6 }, () => rectangle(40, 20));
+      const result = engine.nest(shapes, 200, 100, {
+        timeBudgetMs: 0,
+        partSpacing: 3,
+        edgeSpacing: 5,
+        kerfWidth: 0.4
+      });
+
+      result.placements.forEach((a, i) => {
+        expect(a.bounds.minX).toBeGreaterThanOrEqual(5.2 - 1e-6);
+        expect(a.bounds.minY).toBeGreaterThanOrEqual(5.2 - 1e-6);
+        expect(a.bounds.maxX).toBeLessThanOrEqual(200 - 5.2 + 1e-6);
+        expect(a.bounds.maxY).toBeLessThanOrEqual(100 - 5.2 + 1e-6);
+        result.placements.slice(i + 1).forEach(b => expect(overlaps(a, b, 3.4)).toBe(false));
+      });
+    });
+
+    it('should rotate parts only in allowed steps', () => {
+      // 90 x 20 strips fit a 30 x 100 sheet only when turned upright
+      const shapes = [rectangle(90, 20)];
+
+      expect(engine.nest(shapes, 30, 100, { ...fast, rotationStep: 0 }).unplaced).toHaveLength(1);
+
+      const rotated = engine.nest(shapes, 30, 100, { ...fast, rotationStep: 90 });
+      expect(rotated.unplaced).toHaveLength(0);
+      expect([90, 270]).toContain(rotated.placements[0].rotation);
+    });
+
+    it('should open new sheets when the first is full', () => {
+      const shapes = Array.from({ length: 5 }, () => rectangle(60, 60));
+      const result = engine.nest(shapes, 130, 130, fast);
+
+      expect(result.sheetsRequired).toBe(2);
+      expect(result.sheets[0].placements).toHaveLength(4);
+      expect(result.sheets[1].placements).toHaveLength(1);
+      expect(result.wasteArea).toBe(2 * 130 * 130 - 5 * 3600);
+    });
+
+    it('should report parts larger than the sheet as unplaced', () => {
+      const result = engine.nest([rectangle(500, 500), rectangle(10, 10)], 100, 100, fast);
+
+      expect(result.unplaced).toHaveLength(1);
+      expect(result.unplaced[0].shapeIndex).toBe(0);
+      expect(result.placements).toHaveLength(1);
+    });
+  });
+
+  describe('irregular parts', () => {
+    it('should interlock L-shaped parts', () => {
+      // Two L shapes (60 x 60 with a 30 x 30 notch) fit a 90 x 60 sheet only when interlocked
+      const ell: GeometryShape = {
+        type: 'polygon',
+        dimensions: { x1: 0, y1: 0, x2: 60, y2: 0, x3: 60, y3: 30, x4: 30, y4: 30, x5: 30, y5: 60, x6: 0, y6: 60 }
+      };
+      const result = engine.nest([ell, { ...ell }], 90, 60, fast);
+
+      expect(result.unplaced).toHaveLength(0);
+      expect(result.sheetsRequired).toBe(1);
+      expect(result.utilization).toBeCloseTo((2 * 2700 / 5400) * 100, 6);
+    });
+
+    it('should nest small parts inside holes of larger parts', () => {
+      const svg = new SvgImporter().import(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="100mm" height="100mm" viewBox="0 0 100 100">' +
+        '<path d="M0 0H100V100H0Z M20 20H80V80H20Z"/></svg>'
+      );
+      const frame = svg.shapes[0];
+      const result = engine.nest([frame, rectangle(40, 40)], 100, 100, fast);
+
+      expect(result.sheetsRequired).toBe(1);
+      const insert = result.placements.find(p => p.shapeIndex === 1)!;
+      expect(insert.bounds.minX).toBeGreaterThanOrEqual(20 - 1e-6);
+      expect(insert.bounds.maxX).toBeLessThanOrEqual(80 + 1e-6);
+
+      const solid = engine.nest([frame, rectangle(40, 40)], 100, 100, { ...fast, allowPartInPart: false });
+      expect(solid.sheetsRequired).toBe(2);
+    });
+
+    it('should keep parts inside an irregular sheet outline', () => {
+      // 100 x 100 remnant with the top-right 50 x 50 quarter already cut away
+      const sheetOutline = [
+        { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 50, y: 50 }, { x: 50, y: 100 }, { x: 0, y: 100 }
+      ];
+      const shapes = Array.from({ length: 4 }, () => rectangle(45, 45));
+      const result = engine.nest(shapes, 100, 100, { ...fast, edgeSpacing: 2, sheetOutline });
+
+      expect(result.placements.filter(p => p.sheetIndex === 0)).toHaveLength(3);
+      result.placements.filter(p => p.sheetIndex === 0).forEach(p => {
+        expect(p.bounds.minX).toBeGreaterThanOrEqual(2 - 1e-6);
+        expect(p.bounds.minY).toBeGreaterThanOrEqual(2 - 1e-6);
+        expect(p.bounds.maxX <= 48 + 1e-6 || p.bounds.maxY <= 48 + 1e-6).toBe(true);
+      });
+      expect(result.sheets[0].utilization).toBeCloseTo((3 * 2025 / 7500) * 100, 2);
+    });
+
+    it('should nest circles without overlap', () => {
+      const shapes = Array.from({ length: 9 }, (): GeometryShape => ({ type: 'circle', dimensions: { radius: 10 } }));
+      const result = engine.nest(shapes, 80, 64, { ...fast, partSpacing: 1 });
+
+      expect(result.sheetsRequired).toBe(1);
+      const centers = result.placements.map(p => ({ x: p.position.x + 10, y: p.position.y + 10 }));
+      centers.forEach((a, i) =>
+        centers.slice(i + 1).forEach(b => expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThanOrEqual(21 - 0.1))
+      );
+      const area = result.placements.reduce((sum, p) => sum + polygonArea(placedOutline(p)), 0);
+      expect(area).toBeCloseTo(result.sheets[0].partArea, 6);
+    });
+  });
+
+  describe('search and GeometryCalculator integration', () => {
+    it('should be reproducible for a given seed', () => {
+      const shapes = [rectangle(70, 30), rectangle(20, 45), rectangle(55, 55), rectangle(35, 10), rectangle(25, 25)];
+      const options = { maxIterations: 10, timeBudgetMs: 10000, seed: 7 };
+      const first = engine.nest(shapes, 120, 80, options);
+      const second = engine.nest(shapes, 120, 80, options);
+
+      expect(first.iterations).toBe(10);
+      expect(second.placements).toEqual(first.placements);
+    });
+
+    it('should return real positions from calculateNesting', () => {
+      const calculator = new GeometryCalculator();
+      const shapes = Array.from({ length: 4 }, () => rectangle(100, 50));
+      const result = calculator.calculateNesting(shapes, 220, 120, fast);
+
+      expect(result.sheetsRequired).toBe(1);
+      expect(result.layout).toHaveLength(4);
+      expect(result.layout.every(item => item.sheetIndex === 0)).toBe(true);
+      expect(result.utilization).toBeCloseTo((20000 / 26400) * 100, 1);
+      expect(result.sheets[0].usedLength).toBeLessThanOrEqual(200 + 1e-6);
+    });
+  });
+});
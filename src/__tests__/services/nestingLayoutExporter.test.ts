@@ -0,0 +1,132 @@
+/**
+ * Nesting Layout Exporter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NestingLayoutExporter } from '../../services/nestingLayoutExporter';
+import { dxfImporter } from '../../services/dxfImporter';
+import type { NestingPlanSheet } from '../../services/calculators/materialNestingOptimizer';
+import type { Point2D } from '../../services/geometryCalculator';
+
+function rectangle(x: number, y: number, width: number, height: number): Point2D[] {
+  return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+}
+
+function placement(partId: string, partName: string, x: number, y: number, jobId?: string, holes: Point2D[][] = []) {
+  return { partId, partName, jobId, x, y, width: 100, height: 100, rotation: 0, outline: rectangle(x, y, 100, 100), holes };
+}
+
+function createPlan(): NestingPlanSheet[] {
+  const sheet = (overrides: Partial<NestingPlanSheet>): NestingPlanSheet => ({
+    sheetNumber: 1,
+    sheetSpec: { id: 's1', name: 'Standard Sheet', length: 1000, width: 500, thickness: 3, materialType: 'mild_steel', cost: 150, availability: 10 },
+    sheetArea: 500000,
+    partsPlaced: [],
+    placements: [],
+    utilization: 6,
+    wasteArea: 470000,
+    usedLength: 400,
+    remnants: [],
+    cuts: [],
+    cuttingTime: 2,
+    materialCost: 150,
+    ...overrides
+  });
+
+  return [
+    sheet({
+      placements: [
+        placement('p1', 'Bracket', 300, 300, 'A-100'),
+        placement('p2', 'Plate <B>', 150, 5, 'B-200', [rectangle(190, 45, 20, 20)]),
+        placement('p1', 'Bracket', 5, 5, 'A-100')
+      ],
+      remnants: [{ x: 420, y: 0, length: 580, width: 500, area: 290000 }]
+    }),
+    sheet({
+      sheetNumber: 2,
+      sheetSpec: { id: 'r1', name: 'Remnant 400 × 400 mm (Rack A)', length: 400, width: 400, thickness: 3, materialType: 'mild_steel', cost: 0, availability: 1 },
+      remnantId: 'r1',
+      sheetArea: 120000,
+      sheetOutline: [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 200 }, { x: 200, y: 200 }, { x: 200, y: 400 }, { x: 0, y: 400 }],
+      placements: [placement('p2', 'Plate <B>', 5, 5)]
+    })
+  ];
+}
+
+describe('NestingLayoutExporter', () => {
+  const exporter = new NestingLayoutExporter();
+
+  it('should keep a colour per part or job across all sheets', () => {
+    const byPart = exporter.buildLayouts(createPlan());
+    expect(byPart[0].parts[0].color).toBe(byPart[0].parts[2].color);
+    expect(byPart[0].parts[1].color).not.toBe(byPart[0].parts[0].color);
+    expect(byPart[1].parts[0].color).toBe(byPart[0].parts[1].color);
+    expect(byPart[0].legend).toEqual([
+      { key: 'Bracket', color: byPart[0].parts[0].color, count: 2 },
+      { key: 'Plate <B>', color: byPart[0].parts[1].color, count: 1 }
+    ]);
+
+    const byJob = exporter.buildLayouts(createPlan(), { colorBy: 'job' });
+    expect(byJob[0].legend.map(entry => entry.key)).toEqual(['A-100', 'B-200']);
+    expect(byJob[1].parts[0].colorKey).toBe('No job');
+    expect(byJob[1].isRemnant).toBe(true);
+    expect(byJob[1].outline).toHaveLength(6);
+    expect(byJob[0].remnants[0]).toEqual(rectangle(420, 0, 580, 500));
+
+    expect(() => exporter.buildLayouts(createPlan(), { palette: [] })).toThrow('The layout palette needs at least one colour');
+  });
+
+  it('should number the parts in cutting order from the head position', () => {
+    const [layout] = exporter.buildLayouts(createPlan());
+    const sequence = layout.parts.map(part => part.sequence);
+
+    expect([...sequence].sort()).toEqual([1, 2, 3]);
+    // The bracket at the origin is nearest the head, the far one is cut last
+    expect(layout.parts[2].sequence).toBe(1);
+    expect(layout.parts[0].sequence).toBe(3);
+    expect(layout.sequencePath[0]).toEqual({ x: 55, y: 55 });
+    expect(layout.sequencePath).toHaveLength(3);
+  });
+
+  it('should write a sheet as SVG with the origin bottom left', () => {
+    const [layout] = exporter.buildLayouts(createPlan());
+    const svg = exporter.toSvg(layout);
+
+    expect(svg).toContain('viewBox="-20 -20 1040 540"');
+    expect(svg.match(/class="part"/g)).toHaveLength(3);
+    expect(svg.match(/class="remnant"/g)).toHaveLength(1);
+    expect(svg).toContain('class="sequence"');
+    // Part at y = 5..105 on a 500 mm sheet
+    expect(svg).toContain('d="M5 495 L105 495 L105 395 L5 395 Z"');
+    expect(svg).toContain('>Plate &lt;B&gt;</text>');
+
+    const plain = exporter.toSvg(layout, { labels: false, sequence: false });
+    expect(plain).not.toContain('<text');
+    expect(plain).not.toContain('class="sequence"');
+  });
+
+  it('should write DXF that imports back as the placed parts', () => {
+    const layouts = exporter.buildLayouts(createPlan());
+    const dxf = exporter.toDxf(layouts);
+    const imported = dxfImporter.import(dxf, { layers: ['PARTS', 'HOLES'] });
+
+    expect(imported.units).toBe('millimeters');
+    expect(imported.shapes).toHaveLength(4);
+    expect(imported.shapes.filter(shape => (shape.holes ?? []).length === 1)).toHaveLength(1);
+    expect(dxf).toContain('REMNANTS');
+    expect(dxf).toContain('Plate <B>');
+
+    // The second sheet sits above the first with a gap
+    const sheets = dxfImporter.import(dxf, { layers: ['SHEET'] });
+    expect(sheets.shapes).toHaveLength(2);
+  });
+
+  it('should write one PDF page per sheet', () => {
+    const layouts = exporter.buildLayouts(createPlan());
+    const pdf = exporter.toPdf(layouts, { title: 'Job 42' });
+
+    expect(pdf.getNumberOfPages()).toBe(2);
+    expect(pdf.output().startsWith('%PDF-')).toBe(true);
+    expect(() => exporter.toPdf([])).toThrow('The layout has no sheets to export');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Program Dry Run Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { nestingEngine } from '../../services/nestingEngine';
+import { ProgramDryRun } from '../../services/programDryRun';
+import { programGenerator } from '../../services/programGenerator';
+
+describe('ProgramDryRun', () => {
+  const dryRun = new ProgramDryRun();
+
+  it('should time rapids, cuts, arcs and dwells', () => {
+    const result = dryRun.run([
+      '%',
+      'N10 G21 G90',
+      'N20 G0 X100 Y0 (rapid 100 mm)',
+      'N30 M03',
+      'N40 G4 P500',
+      'N50 G1 X100 Y100 F1000',
+      'N60 G3 X100 Y100 I0 J-50 ; full circle, r = 50',
+      'N70 M05',
+      '%'
+    ], { rapidSpeed: 10000 });
+
+    expect(result.lineCount).toBe(7);
+    expect(result.pierceCount).toBe(1);
+    expect(result.rapidDistance).toBeCloseTo(100, 6);
+    expect(result.rapidTime).toBeCloseTo(0.01, 6);
+    expect(result.cutDistance).toBeCloseTo(100 + 100 * Math.PI, 6);
+    expect(result.cutTime).toBeCloseTo((100 + 100 * Math.PI) / 1000, 6);
+    expect(result.dwellTime).toBeCloseTo(0.5 / 60, 6);
+    expect(result.totalTime).toBeCloseTo(result.rapidTime + result.cutTime + result.dwellTime, 9);
+    expect(result.bounds).toEqual({ minX: 0, minY: 0, maxX: 100, maxY: 100 });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should handle incremental moves, inches and radius arcs', () => {
+    const result = dryRun.run('G20 G91\nG1 X1 F10\nG2 X2 Y0 R1\nG1 Y1', {});
+
+    expect(result.cutDistance).toBeCloseTo(25.4 + Math.PI * 25.4 + 25.4, 4);
+    expect(result.cutTime).toBeCloseTo((2 + Math.PI) / 10, 4);
+  });
+
+  it('should slow short rapids down with acceleration', () => {
+    const fast = dryRun.run('G0 X10', { rapidSpeed: 60000 });
+    const ramped = dryRun.run('G0 X10', { rapidSpeed: 60000, rapidAcceleration: 1000 });
+
+    // 10 mm at 1000 mm/s² never reaches 1000 mm/s: 2·√(10/1000) s
+    expect(ramped.rapidTime).toBeCloseTo((2 * Math.sqrt(0.01)) / 60, 9);
+    expect(ramped.rapidTime).toBeGreaterThan(fast.rapidTime);
+  });
+
+  it('should warn about cuts without a feed and unknown codes', () => {
+    const result = dryRun.run(['G1 X10', 'G64 G1 X20 F100']);
+
+    expect(result.warnings).toEqual(['Line 1: cutting move without a feed rate', 'Line 2: G64 is not simulated']);
+  });
+
+  it('should measure generated programs as the generator does', () => {
+    const nesting = nestingEngine.nest(
+      [
+        { type: 'rectangle', dimensions: { width: 120, height: 80 }, name: 'Bracket' },
+        { type: 'circle', dimensions: { radius: 25 }, name: 'Disc' }
+      ],
+      300,
+      150,
+      { timeBudgetMs: 0 }
+    );
+    const set = { id: 'mild', power: 3000, feedRate: 3000, gasType: 'oxygen', gasPressure: 0.8, focusPosition: 1, pierceTime: 0.4 };
+    const program = programGenerator.generate({
+      name: 'Dry run',
+      sheet: { width: 300, height: 150 },
+      placements: nesting.placements,
+      parameters: { outer: set }
+    });
+
+    const result = dryRun.run(program.code);
+
+    expect(result.cutDistance).toBeCloseTo(program.stats.cutLength, 1);
+    expect(result.rapidDistance).toBeCloseTo(program.stats.rapidLength, 1);
+    expect(result.pierceCount).toBe(program.stats.pierces);
+    expect(result.dwellTime).toBeCloseTo((program.stats.pierces * 0.4) / 60, 6);
+    expect(result.cutTime).toBeCloseTo(program.stats.cutLength / 3000, 3);
+    expect(result.warnings).toEqual([]);
+  });
+});
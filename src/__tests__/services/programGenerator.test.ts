@@ -0,0 +1,179 @@
+/**
+ * Program Generator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cutSequenceOptimizer } from '../../services/cutSequenceOptimizer';
+import type { GeometryShape } from '../../services/geometryCalculator';
+import { nestingEngine } from '../../services/nestingEngine';
+import { postProcessorRegistry } from '../../services/postProcessorRegistry';
+import { CutParameterSet, ProgramGenerator, ProgramInput } from '../../services/programGenerator';
+
+function parameterSet(id: string, overrides: Partial<CutParameterSet> = {}): CutParameterSet {
+  return {
+    id,
+    power: 3000,
+    feedRate: 2400,
+    gasType: 'oxygen',
+    gasPressure: 0.8,
+    focusPosition: 1,
+    pierceTime: 0.5,
+    ...overrides
+  };
+}
+
+// 100 x 100 plate with a 40 mm round hole in the middle
+const plate: GeometryShape = {
+  type: 'custom',
+  dimensions: { width: 100, height: 100 },
+  name: 'Flange',
+  contour: [
+    { type: 'line', start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+    { type: 'line', start: { x: 100, y: 0 }, end: { x: 100, y: 100 } },
+    { type: 'line', start: { x: 100, y: 100 }, end: { x: 0, y: 100 } },
+    { type: 'line', start: { x: 0, y: 100 }, end: { x: 0, y: 0 } }
+  ],
+  holes: [
+    {
+      type: 'custom',
+      dimensions: { radius: 20 },
+      contour: [
+        { type: 'arc', start: { x: 70, y: 50 }, end: { x: 30, y: 50 }, center: { x: 50, y: 50 }, radius: 20, sweep: Math.PI },
+        { type: 'arc', start: { x: 30, y: 50 }, end: { x: 70, y: 50 }, center: { x: 50, y: 50 }, radius: 20, sweep: Math.PI }
+      ]
+    }
+  ]
+};
+
+function createInput(overrides: Partial<ProgramInput> = {}): ProgramInput {
+  const nesting = nestingEngine.nest([plate, { type: 'circle', dimensions: { radius: 30 }, name: 'Disc' }], 300, 150, {
+    timeBudgetMs: 0
+  });
+  return {
+    name: 'Sheet 1',
+    sheet: { width: 300, height: 150, thickness: 3, material: 'S235' },
+    placements: nesting.placements,
+    parameters: { outer: parameterSet('outer'), inner: parameterSet('inner', { power: 2000, feedRate: 1200 }) },
+    ...overrides
+  };
+}
+
+describe('ProgramGenerator', () => {
+  const generator = new ProgramGenerator();
+
+  it('should emit rapids, cuts, arcs and one pierce per contour', () => {
+    const program = generator.generate(createInput());
+
+    expect(program.fileName).toBe('Sheet_1.nc');
+    expect(program.stats.contours).toBe(3);
+    expect(program.lines[0]).toBe('%');
+    expect(program.lines).toContain('O1000');
+    expect(program.lines.some(line => / G0 X/.test(line))).toBe(true);
+    expect(program.lines.some(line => / G1 X/.test(line))).toBe(true);
+    expect(program.lines.some(line => / G2 X.* I.* J/.test(line))).toBe(true);
+    expect(program.lines.some(line => / G3 X.* I.* J/.test(line))).toBe(true);
+    expect(program.lines.filter(line => line.endsWith(' M03'))).toHaveLength(program.stats.pierces);
+    expect(program.lines.filter(line => line.endsWith(' G4 P500'))).toHaveLength(program.stats.pierces);
+    expect(program.stats.pierces).toBe(3);
+    expect(program.lines[program.lines.length - 1]).toBe('%');
+  });
+
+  it('should cut holes before the outline around them', () => {
+    const program = generator.generate(createInput());
+    const order = program.contourOrder;
+    const index = order.find(id => id.endsWith(':hole-1'))!.split(':')[0];
+
+    expect(order.indexOf(`${index}:hole-1`)).toBeLessThan(order.indexOf(`${index}:outer`));
+  });
+
+  it('should switch parameters between outline and hole sets', () => {
+    const program = generator.generate(createInput());
+    const sets = program.moves.flatMap(move => (move.type === 'parameters' ? [move.set.id] : []));
+
+    expect(sets.length).toBe(program.stats.parameterChanges);
+    expect(sets).toContain('inner');
+    expect(sets).toContain('outer');
+    expect(program.lines.some(line => line.includes('S2000'))).toBe(true);
+    expect(program.lines.some(line => line.includes('F1200'))).toBe(true);
+  });
+
+  it('should take parameters from optimizer results', () => {
+    const set = generator.parameterSetFromOptimizer(
+      {
+        optimalPower: 4000,
+        cuttingSpeed: 1800,
+        gasType: 'nitrogen',
+        gasPressure: 12,
+        focusPosition: -1.5
+      } as Parameters<ProgramGenerator['parameterSetFromOptimizer']>[0],
+      'stainless'
+    );
+
+    expect(set).toEqual({
+      id: 'stainless',
+      power: 4000,
+      feedRate: 1800,
+      gasType: 'nitrogen',
+      gasPressure: 12,
+      focusPosition: -1.5,
+      pierceTime: 0.5
+    });
+  });
+
+  it('should restart the cut after each micro-joint', () => {
+    const bare = generator.generate(createInput());
+    const tabbed = generator.generate(createInput(), { contour: { microJointSpacing: 100 } });
+
+    expect(tabbed.stats.pierces).toBeGreaterThan(bare.stats.pierces);
+    expect(tabbed.stats.cutLength).toBeLessThan(bare.stats.cutLength);
+  });
+
+  it('should cut the kerf-compensated contours', () => {
+    const nominal = generator.generate(createInput());
+    const compensated = generator.generate(createInput(), { kerfWidth: 0.4 });
+
+    // Outlines grow and the hole shrinks by 2π x 0.2 mm each
+    expect(compensated.stats.cutLength).toBeCloseTo(nominal.stats.cutLength + 2 * Math.PI * 0.2, 2);
+    expect(compensated.stats.contours).toBe(3);
+    expect(compensated.warnings).toEqual([]);
+  });
+
+  it('should render through user-defined profiles', () => {
+    postProcessorRegistry.extend('iso', {
+      id: 'test-fiber',
+      name: 'Test fiber',
+      fileExtension: 'cnc',
+      laserOn: 'M07',
+      laserOff: 'M08',
+      arcs: 'linear',
+      lineNumbers: { enabled: false, start: 1, step: 1 },
+      templates: { header: ['; {programName}'], footer: ['{laserOff}', 'M30'] }
+    });
+
+    const program = generator.generate(createInput(), { profileId: 'test-fiber' });
+
+    expect(program.fileName).toBe('Sheet_1.cnc');
+    expect(program.lines[0]).toBe('; Sheet 1');
+    expect(program.lines.filter(line => line === 'M07')).toHaveLength(3);
+    expect(program.lines.some(line => /^N\d/.test(line))).toBe(false);
+    expect(program.lines.some(line => /^G[23] /.test(line))).toBe(false);
+    postProcessorRegistry.remove('test-fiber');
+  });
+
+  it('should reject templates with unknown placeholders', () => {
+    expect(() =>
+      postProcessorRegistry.extend('iso', { id: 'broken', name: 'Broken', templates: { rapid: 'G0 X{x} Y{y} Z{z}' } })
+    ).toThrow('Unknown placeholder {z} in template "rapid"');
+    expect(() => generator.generate(createInput(), { profileId: 'broken' })).toThrow('Unknown post-processor profile: broken');
+  });
+
+  it('should reject empty layouts and foreign sequences', () => {
+    expect(() => generator.generate(createInput({ placements: [] }))).toThrow('The layout has no placed parts');
+
+    // A sequence built for the first part only
+    const input = createInput();
+    const toolpaths = generator.buildToolpaths(input.placements.slice(0, 1), input.parameters);
+    const sequence = cutSequenceOptimizer.optimize(generator.toCutContours(toolpaths));
+    expect(() => generator.generate({ ...input, sequence })).toThrow('The cut sequence does not match the layout contours');
+  });
+});
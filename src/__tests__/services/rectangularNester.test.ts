@@ -0,0 +1,158 @@
+/**
+ * Rectangular Nester Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RectangularNester,
+  RectangularPart,
+  SheetCutPlan,
+  StockSheet
+} from '../../services/rectangularNester';
+
+function part(overrides: Partial<RectangularPart> = {}): RectangularPart {
+  return { id: 'p1', length: 200, width: 100, quantity: 1, materialType: 'mild_steel', thickness: 3, ...overrides };
+}
+
+function sheet(overrides: Partial<StockSheet> = {}): StockSheet {
+  return { id: 's1', length: 1000, width: 500, cost: 100, quantity: 10, materialType: 'mild_steel', thickness: 3, ...overrides };
+}
+
+function overlaps(plan: SheetCutPlan): boolean {
+  return plan.placements.some((a, i) =>
+    plan.placements.slice(i + 1).some(b =>
+      a.x < b.x + b.length && b.x < a.x + a.length && a.y < b.y + b.width && b.y < a.y + a.width
+    )
+  );
+}
+
+describe('RectangularNester', () => {
+  const nester = new RectangularNester();
+  const exact = { partSpacing: 0, edgeSpacing: 0, kerfWidth: 0 };
+
+  describe.each(['guillotine', 'skyline'] as const)('%s mode', mode => {
+    it('should fill a sheet exactly without overlaps', () => {
+      const result = nester.nest([part({ quantity: 25 })], [sheet()], { ...exact, mode });
+
+      expect(result.sheets).toHaveLength(1);
+      expect(result.sheets[0].placements).toHaveLength(25);
+      expect(result.sheets[0].utilization).toBeCloseTo(100, 6);
+      expect(overlaps(result.sheets[0])).toBe(false);
+      expect(result.remnants).toHaveLength(0);
+    });
+
+    it('should keep spacing and edge margins', () => {
+      const result = nester.nest([part({ quantity: 8 })], [sheet()], { mode, partSpacing: 10, edgeSpacing: 20, kerfWidth: 0 });
+      const placements = result.sheets.flatMap(s => s.placements);
+
+      expect(placements).toHaveLength(8);
+      placements.forEach(p => {
+        expect(p.x).toBeGreaterThanOrEqual(20);
+        expect(p.y).toBeGreaterThanOrEqual(20);
+        expect(p.x + p.length).toBeLessThanOrEqual(980 + 1e-9);
+        expect(p.y + p.width).toBeLessThanOrEqual(480 + 1e-9);
+        placements.filter(q => q !== p).forEach(q => {
+          const dx = Math.max(q.x - (p.x + p.length), p.x - (q.x + q.length));
+          const dy = Math.max(q.y - (p.y + p.width), p.y - (q.y + q.width));
+          expect(Math.max(dx, dy)).toBeGreaterThanOrEqual(10 - 1e-9);
+        });
+      });
+    });
+
+    it('should honour a grain lock per part', () => {
+      // 450 x 100 parts fit the 500 mm width only when turned
+      const turned = nester.nest([part({ length: 450, quantity: 4, grainDirection: 'width' })], [sheet()], { ...exact, mode });
+      expect(turned.sheets[0].placements.every(p => p.rotated && p.length === 100)).toBe(true);
+
+      const upright = nester.nest([part({ length: 450, quantity: 4, grainDirection: 'length' })], [sheet()], { ...exact, mode });
+      expect(upright.sheets[0].placements.every(p => !p.rotated && p.length === 450)).toBe(true);
+
+      const tooLong = nester.nest([part({ length: 600, grainDirection: 'width' })], [sheet()], { ...exact, mode });
+      expect(tooLong.unplaced).toEqual([
+        { partId: 'p1', partName: 'p1', quantity: 1, reason: 'Part does not fit any compatible sheet' }
+      ]);
+    });
+  });
+
+  describe('sheet inventory', () => {
+    it('should pick the cheapest sheet size for the parts', () => {
+      const stock = [
+        sheet({ id: 'large', length: 2000, width: 1000, cost: 300 }),
+        sheet({ id: 'small', length: 1000, width: 500, cost: 100 })
+      ];
+      // 40 parts need two small sheets (200) or part of one large sheet (300)
+      const result = nester.nest([part({ quantity: 40 })], stock, exact);
+
+      expect(result.sheets.map(s => s.stockId)).toEqual(['small', 'small']);
+      expect(result.totalCost).toBe(200);
+      expect(result.stockUsage).toEqual([
+        { stockId: 'large', used: 0, remaining: 10 },
+        { stockId: 'small', used: 2, remaining: 8 }
+      ]);
+    });
+
+    it('should fall back to other sizes when stock runs out', () => {
+      const stock = [
+        sheet({ id: 'small', cost: 100, quantity: 1 }),
+        sheet({ id: 'large', length: 2000, width: 1000, cost: 400, quantity: 1 })
+      ];
+      const result = nester.nest([part({ quantity: 40 })], stock, exact);
+
+      expect(result.sheets.map(s => s.stockId).sort()).toEqual(['large', 'small']);
+      expect(result.unplaced).toHaveLength(0);
+      expect(result.totalCost).toBe(500);
+    });
+
+    it('should report parts left over when the inventory is exhausted', () => {
+      const result = nester.nest([part({ quantity: 30 })], [sheet({ quantity: 1 })], exact);
+
+      expect(result.sheets).toHaveLength(1);
+      expect(result.unplaced).toEqual([{ partId: 'p1', partName: 'p1', quantity: 5, reason: 'Not enough sheets in stock' }]);
+    });
+
+    it('should only mix materials when allowed', () => {
+      const parts = [
+        part({ id: 'a', quantity: 10 }),
+        part({ id: 'b', quantity: 10, materialType: 'stainless_steel' })
+      ];
+      const stock = [sheet({ id: 'ms' }), sheet({ id: 'ss', materialType: 'stainless_steel' })];
+
+      const separate = nester.nest(parts, stock, exact);
+      expect(separate.sheets).toHaveLength(2);
+      separate.sheets.forEach(s => {
+        expect(new Set(s.placements.map(p => p.partId)).size).toBe(1);
+      });
+
+      const mixed = nester.nest(parts, stock, { ...exact, allowMixedMaterial: true });
+      expect(mixed.sheets).toHaveLength(1);
+      expect(mixed.sheets[0].placements).toHaveLength(20);
+    });
+  });
+
+  describe('cut plans and remnants', () => {
+    it('should keep the offcut of a guillotine plan as a remnant', () => {
+      const result = nester.nest([part({ length: 300, width: 500, quantity: 2, grainDirection: 'length' })], [sheet()], exact);
+      const plan = result.sheets[0];
+
+      expect(plan.remnants).toEqual([{ x: 600, y: 0, length: 400, width: 500, area: 200000 }]);
+      expect(plan.cuts.some(cut => cut.orientation === 'vertical' && cut.position === 600)).toBe(true);
+      expect(result.remnants[0]).toMatchObject({ sheetNumber: 1, stockId: 's1' });
+    });
+
+    it('should leave one full-width remnant in skyline mode', () => {
+      const result = nester.nest([part({ quantity: 6 })], [sheet()], { mode: 'skyline', partSpacing: 2, edgeSpacing: 5, kerfWidth: 0 });
+      const plan = result.sheets[0];
+      const usedX = Math.max(...plan.placements.map(p => p.x + p.length));
+
+      expect(plan.remnants).toHaveLength(1);
+      expect(plan.remnants[0].x).toBeCloseTo(usedX + 1, 6);
+      expect(plan.remnants[0].width).toBe(500);
+      expect(plan.remnants[0].x + plan.remnants[0].length).toBeCloseTo(1000, 6);
+    });
+
+    it('should drop offcuts below the minimum remnant size', () => {
+      const result = nester.nest([part({ length: 950, width: 450 })], [sheet()], { ...exact, minRemnantSize: 100 });
+      expect(result.sheets[0].remnants).toHaveLength(0);
+    });
+  });
+});
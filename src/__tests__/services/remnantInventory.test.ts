@@ -0,0 +1,119 @@
+/**
+ * Remnant Inventory Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RemnantInventory } from '../../services/remnantInventory';
+import type { NestingPlanSheet } from '../../services/calculators/materialNestingOptimizer';
+
+function planSheet(overrides: Partial<NestingPlanSheet> = {}): NestingPlanSheet {
+  return {
+    sheetNumber: 1,
+    sheetSpec: { id: 's1', name: 'Sheet', length: 1000, width: 500, thickness: 3, materialType: 'mild_steel', cost: 150, availability: 10 },
+    sheetArea: 500000,
+    partsPlaced: [],
+    placements: [],
+    utilization: 60,
+    wasteArea: 200000,
+    usedLength: 600,
+    remnants: [{ x: 601, y: 0, length: 399, width: 500, area: 199500 }],
+    cuts: [],
+    cuttingTime: 10,
+    materialCost: 150,
+    ...overrides
+  };
+}
+
+describe('RemnantInventory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should store rectangular and polygonal remnants with the outline at the origin', () => {
+    const inventory = new RemnantInventory();
+    const plate = inventory.add({ materialType: 'mild_steel', thickness: 3, length: 400, width: 300, location: 'Rack A' });
+    // Clockwise L shape away from the origin
+    const ell = inventory.add({
+      materialType: 'mild_steel',
+      thickness: 3,
+      outline: [
+        { x: 100, y: 100 }, { x: 100, y: 300 }, { x: 200, y: 300 }, { x: 200, y: 200 }, { x: 300, y: 200 }, { x: 300, y: 100 }
+      ],
+      location: 'Rack B',
+      heatNumber: ' H-4711 '
+    });
+
+    expect(plate.area).toBe(120000);
+    expect(ell.length).toBe(200);
+    expect(ell.width).toBe(200);
+    expect(ell.area).toBe(30000);
+    expect(ell.outline[0]).toEqual({ x: 200, y: 0 });
+    expect(ell.heatNumber).toBe('H-4711');
+
+    // A new instance reads the stored rack
+    const reloaded = new RemnantInventory();
+    expect(reloaded.list({ materialType: 'mild_steel', thickness: 3 })).toHaveLength(2);
+    expect(reloaded.get(ell.id).location).toBe('Rack B');
+  });
+
+  it('should reject remnants without material, size or location', () => {
+    const inventory = new RemnantInventory();
+    expect(() => inventory.add({ materialType: 'mild_steel', thickness: 3, location: 'Rack A' }))
+      .toThrow('A remnant needs a length and width or an outline');
+    expect(() => inventory.add({ materialType: 'mild_steel', thickness: 0, length: 100, width: 100, location: 'Rack A' }))
+      .toThrow('Remnant thickness must be greater than 0');
+    expect(() => inventory.add({ materialType: 'mild_steel', thickness: 3, length: 100, width: 100, location: ' ' }))
+      .toThrow('A remnant needs a storage location');
+  });
+
+  it('should consume the remnants a job cut and register the offcuts it left', () => {
+    const inventory = new RemnantInventory();
+    const stock = inventory.add({ materialType: 'mild_steel', thickness: 3, length: 600, width: 500, location: 'Rack A', heatNumber: 'H-1' });
+
+    const results = {
+      nestingPlan: [
+        planSheet({
+          sheetNumber: 1,
+          sheetSpec: { ...planSheet().sheetSpec, id: stock.id, length: 600, cost: 0, availability: 1 },
+          remnantId: stock.id,
+          sheetArea: 300000,
+          wasteArea: 200000,
+          remnants: [{ x: 301, y: 0, length: 299, width: 500, area: 149500 }],
+          materialCost: 0
+        }),
+        planSheet({ sheetNumber: 2 })
+      ]
+    };
+    const { registered, consumed } = inventory.registerJob('job-1', results, { location: 'Rack C', heatNumber: 'H-2' });
+
+    expect(consumed.map(remnant => remnant.id)).toEqual([stock.id]);
+    expect(registered).toHaveLength(2);
+    expect(registered[0].heatNumber).toBe('H-1');
+    expect(registered[1].heatNumber).toBe('H-2');
+    expect(registered[1].length).toBe(399);
+    expect(inventory.list({ status: 'available' })).toHaveLength(2);
+
+    // Running the job again offers the same stock and replaces the booking
+    expect(inventory.stockFor('job-1').map(remnant => remnant.id)).toEqual([stock.id]);
+    inventory.registerJob('job-1', { nestingPlan: [planSheet()] }, { location: 'Rack C' });
+    expect(inventory.get(stock.id).status).toBe('available');
+    expect(inventory.list({ status: 'available' })).toHaveLength(2);
+    expect(inventory.jobHistory()).toHaveLength(1);
+  });
+
+  it('should measure yield and remnant reuse from the job history', () => {
+    const inventory = new RemnantInventory();
+    inventory.registerJob('job-1', { nestingPlan: [planSheet()] }, { location: 'Rack A' });
+    const offcut = inventory.list()[0];
+    inventory.consume(offcut.id);
+
+    const stats = inventory.statistics({ materialType: 'mild_steel' });
+    expect(stats.jobs).toBe(1);
+    expect(stats.partArea).toBe(300000);
+    expect(stats.offcutArea).toBe(199500);
+    // Parts over the material that did not go back on the rack
+    expect(stats.yield).toBeCloseTo((300000 / 300500) * 100, 2);
+    expect(stats.reuseRate).toBe(100);
+    expect(inventory.statistics({ materialType: 'aluminum' }).yield).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * SVG Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SvgImporter } from '../../services/svgImporter';
+import { GeometryCalculator } from '../../services/geometryCalculator';
+
+function svg(body: string, attributes = 'width="100mm" height="100mm" viewBox="0 0 100 100"'): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${body}</svg>`;
+}
+
+describe('SvgImporter', () => {
+  const importer = new SvgImporter();
+  const geometry = new GeometryCalculator();
+
+  describe('shapes and holes', () => {
+    it('should detect a hole inside a plate', () => {
+      const result = importer.import(svg('<rect x="0" y="0" width="80" height="40"/><circle cx="40" cy="20" r="10"/>'));
+
+      expect(result.shapes).toHaveLength(1);
+      expect(result.shapes[0].type).toBe('polygon');
+      expect(result.shapes[0].holes).toHaveLength(1);
+      expect(result.shapes[0].dimensions.width).toBeCloseTo(80);
+      expect(result.shapes[0].dimensions.x1).toBeDefined();
+
+      const calc = geometry.calculateShape(result.shapes[0]);
+      expect(calc.perimeter).toBeCloseTo(240 + 2 * Math.PI * 10, 6);
+      expect(calc.cuttingPath.pierceCount).toBe(2);
+      expect(calc.cuttingPath.cornerCount).toBe(4);
+      expect(calc.area).toBeCloseTo(3200 - Math.PI * 100, 1);
+    });
+
+    it('should find holes in a single path with several subpaths', () => {
+      // Outer square and an inner square drawn in the same direction (nonzero artwork)
+      const result = importer.import(svg('<path d="M0 0H50V50H0Z M10 10h30v30h-30z"/>'));
+
+      expect(result.shapes).toHaveLength(1);
+      expect(result.shapes[0].holes).toHaveLength(1);
+      expect(geometry.calculateShape(result.shapes[0]).area).toBeCloseTo(2500 - 900, 6);
+    });
+
+    it('should keep rounded rectangle corners as exact arcs', () => {
+      const result = importer.import(svg('<rect x="10" y="10" width="60" height="40" rx="5"/>'));
+      const calc = geometry.calculateShape(result.shapes[0]);
+
+      expect(calc.perimeter).toBeCloseTo(2 * (50 + 30) + 2 * Math.PI * 5, 6);
+      expect(calc.cuttingPath.curveLength).toBeCloseTo(2 * Math.PI * 5, 6);
+      expect(calc.cuttingPath.cornerCount).toBe(0);
+    });
+
+    it('should report unclosed paths as open paths', () => {
+      const result = importer.import(svg('<polyline points="0,0 30,0 30,40"/>'));
+
+      expect(result.shapes).toHaveLength(0);
+      expect(result.openPaths).toHaveLength(1);
+      expect(result.warnings.some(w => w.includes('open path'))).toBe(true);
+    });
+  });
+
+  describe('path data', () => {
+    it('should flatten cubic Béziers within the chord tolerance', () => {
+      // Standard 4-cubic circle approximation, radius 20
+      const k = 20 * 0.5522847498;
+      const d = `M20 0C20 ${k} ${k} 20 0 20C${-k} 20 -20 ${k} -20 0C-20 ${-k} ${-k} -20 0 -20C${k} -20 20 ${-k} 20 0Z`;
+      const result = importer.import(svg(`<path transform="translate(50 50)" d="${d}"/>`), { chordTolerance: 0.01 });
+      const calc = geometry.calculateShape(result.shapes[0]);
+
+      expect(calc.perimeter).toBeCloseTo(2 * Math.PI * 20, 0);
+      expect(calc.cuttingPath.curveLength).toBeCloseTo(calc.perimeter, 6);
+      expect(calc.cuttingPath.cornerCount).toBe(0);
+
+      const coarse = importer.import(svg(`<path d="${d}"/>`), { chordTolerance: 1 });
+      const fine = importer.import(svg(`<path d="${d}"/>`), { chordTolerance: 0.001 });
+      const vertexCount = (dimensions: Record<string, number>) =>
+        Object.keys(dimensions).filter(key => /^x\d+$/.test(key)).length;
+      expect(vertexCount(fine.shapes[0].dimensions)).toBeGreaterThan(vertexCount(coarse.shapes[0].dimensions));
+    });
+
+    it('should handle quadratic, smooth and compact arc syntax', () => {
+      const result = importer.import(svg('<path d="M0,0L40,0a10,10 0 0110,10L50,40Q25,60 0,40T-10,20z"/>'));
+
+      expect(result.shapes).toHaveLength(1);
+      expect(result.warnings).toHaveLength(0);
+      const calc = geometry.calculateShape(result.shapes[0]);
+      expect(calc.cuttingPath.curveLength).toBeGreaterThan(Math.PI * 5);
+    });
+
+    it('should convert circular arcs to exact arc segments', () => {
+      // Two half circles through the endpoints form a full circle of radius 15
+      const result = importer.import(svg('<path d="M35 50 A15 15 0 0 1 65 50 A15 15 0 0 1 35 50 Z"/>'));
+      const contour = result.shapes[0].contour!;
+
+      expect(contour.every(segment => segment.type === 'arc')).toBe(true);
+      expect(geometry.calculateShape(result.shapes[0]).perimeter).toBeCloseTo(2 * Math.PI * 15, 6);
+    });
+
+    it('should warn about invalid path data', () => {
+      const result = importer.import(svg('<path d="L10 10"/><rect width="10" height="10"/>'));
+
+      expect(result.shapes).toHaveLength(1);
+      expect(result.warnings.some(w => w.includes('moveto'))).toBe(true);
+    });
+  });
+
+  describe('units and transforms', () => {
+    it('should scale the viewBox to the document size', () => {
+      const result = importer.import(svg('<rect width="1" height="0.5"/>', 'width="4in" height="2in" viewBox="0 0 2 1"'));
+
+      expect(result.unitScale).toBeCloseTo(50.8);
+      expect(result.width).toBeCloseTo(101.6);
+      expect(result.shapes[0].dimensions.width).toBeCloseTo(50.8);
+      expect(result.shapes[0].dimensions.height).toBeCloseTo(25.4);
+    });
+
+    it('should treat unitless documents as CSS pixels', () => {
+      const result = importer.import(svg('<rect width="96" height="48"/>', 'width="192" height="96"'));
+
+      expect(result.shapes[0].dimensions.width).toBeCloseTo(25.4);
+      expect(result.shapes[0].dimensions.height).toBeCloseTo(12.7);
+    });
+
+    it('should flip the y axis by default', () => {
+      const result = importer.import(svg('<rect x="0" y="0" width="10" height="10"/>'));
+      const ys = Object.entries(result.shapes[0].dimensions)
+        .filter(([key]) => /^y\d+$/.test(key))
+        .map(([, value]) => value);
+
+      expect(Math.min(...ys)).toBeCloseTo(90);
+      expect(Math.max(...ys)).toBeCloseTo(100);
+    });
+
+    it('should apply nested group transforms and <use> offsets', () => {
+      const result = importer.import(svg(
+        '<defs><circle id="hole" cx="0" cy="0" r="5"/></defs>' +
+        '<g transform="scale(2)"><g transform="rotate(90 10 10)"><rect width="20" height="10"/></g></g>' +
+        '<use href="#hole" x="80" y="80"/><use xlink:href="#hole" x="80" y="20" transform="scale(1.5)"/>'
+      ));
+
+      expect(result.shapes).toHaveLength(3);
+      const perimeters = result.shapes.map(s => geometry.calculateShape(s).perimeter).sort((a, b) => a - b);
+      expect(perimeters[0]).toBeCloseTo(2 * Math.PI * 5, 6);
+      expect(perimeters[1]).toBeCloseTo(2 * Math.PI * 7.5, 6);
+      expect(perimeters[2]).toBeCloseTo(2 * (40 + 20), 6);
+    });
+
+    it('should flatten circles under skew transforms', () => {
+      const result = importer.import(svg('<circle cx="50" cy="50" r="10" transform="skewX(30)"/>'), {
+        chordTolerance: 0.005
+      });
+      const contour = result.shapes[0].contour!;
+
+      expect(contour.every(segment => segment.type === 'curve')).toBe(true);
+      // Shear keeps area
+      expect(geometry.calculateShape(result.shapes[0]).area).toBeCloseTo(Math.PI * 100, 0);
+    });
+
+    it('should skip hidden elements unless requested', () => {
+      const content = svg('<rect width="10" height="10"/><rect x="20" width="10" height="10" style="display: none"/>');
+
+      expect(importer.import(content).shapes).toHaveLength(1);
+      expect(importer.import(content, { includeHidden: true }).shapes).toHaveLength(2);
+    });
+  });
+
+  describe('calculator prefill', () => {
+    it('should feed polygon metrics into the calculator prefill', () => {
+      const result = importer.import(svg('<rect width="50" height="20"/><circle cx="25" cy="10" r="5"/><line x1="60" y1="0" x2="60" y2="30"/>'));
+      const prefill = geometry.getCalculatorPrefill(result.shapes, result.openPaths);
+
+      expect(prefill.partCount).toBe(1);
+      expect(prefill.pierceCount).toBe(3);
+      expect(prefill.cuttingLength).toBeCloseTo(140 + 2 * Math.PI * 5 + 30, 1);
+    });
+
+    it('should count only real corners on plain vertex polygons', () => {
+      const vertices: Record<string, number> = {};
+      // Regular octagon: every vertex turns 45°
+      for (let i = 0; i < 8; i++) {
+        vertices[`x${i + 1}`] = 10 * Math.cos((i * Math.PI) / 4);
+        vertices[`y${i + 1}`] = 10 * Math.sin((i * Math.PI) / 4);
+      }
+      expect(geometry.calculateShape({ type: 'polygon', dimensions: vertices }).cuttingPath.cornerCount).toBe(8);
+
+      // 72-gon circle: 5° turns are not corners
+      const circle: Record<string, number> = {};
+      for (let i = 0; i < 72; i++) {
+        circle[`x${i + 1}`] = 10 * Math.cos((i * Math.PI) / 36);
+        circle[`y${i + 1}`] = 10 * Math.sin((i * Math.PI) / 36);
+      }
+      expect(geometry.calculateShape({ type: 'polygon', dimensions: circle }).cuttingPath.cornerCount).toBe(0);
+    });
+
+    it('should reject content that is not SVG', () => {
+      expect(() => importer.import('<html><body/></html>')).toThrow('Invalid SVG');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Thermal Field Solver Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ThermalFieldSolver, type ThermalCut, type ThermalJob } from '../../services/thermalFieldSolver';
+import { HeatAffectedZoneCalculator } from '../../features/calculators/heat-affected-zone-calculator/HeatAffectedZoneCalculator';
+
+const FIRST_CUT: ThermalCut = { id: 'a', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }] };
+
+const job = (cuts: ThermalCut[]): ThermalJob => ({
+  materialType: 'mild_steel',
+  thickness: 3,
+  laserPower: 3000,
+  cuttingSpeed: 3000,
+  cuts
+});
+
+describe('ThermalFieldSolver', () => {
+  const solver = new ThermalFieldSolver();
+
+  it('should return a peak temperature map and HAZ width along each cut', () => {
+    const result = solver.solve(job([FIRST_CUT]));
+
+    const [region] = result.regions;
+    expect(result.regions).toHaveLength(1);
+    expect(region.peakTemperatures).toHaveLength(region.grid.rows);
+    expect(region.peakTemperatures[0]).toHaveLength(region.grid.columns);
+    expect(region.grid.rows * region.grid.columns).toBeLessThanOrEqual(10000);
+    expect(result.peakTemperature).toBeGreaterThan(result.hazTemperature);
+    expect(result.hazAlongContour[0].samples.length).toBeGreaterThan(40);
+    expect(result.maxHazWidth).toBeGreaterThan(0);
+    expect(result.maxHazWidth).toBeLessThan(3);
+    expect(result.hotSpots).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should solve far-apart cuts on their own grids and warn when a map is too coarse', () => {
+    const close = [FIRST_CUT, { id: 'b', points: [{ x: 100, y: 3 }, { x: 0, y: 3 }] }];
+    const nearby = solver.solve(job(close));
+    const spread = solver.solve(job([...close, { id: 'c', points: [{ x: 2000, y: 2000 }, { x: 2100, y: 2000 }] }]));
+
+    expect(spread.regions.map(region => region.cutIds)).toEqual([['a', 'b'], ['c']]);
+    expect(spread.regions[0].grid.cellSize).toBe(nearby.regions[0].grid.cellSize);
+    expect(spread.peakTemperature).toBeGreaterThan(nearby.hazTemperature);
+    expect(spread.hotSpots.map(spot => spot.cutId)).toEqual(nearby.hotSpots.map(spot => spot.cutId));
+    expect(spread.warnings).toEqual([]);
+
+    const long = solver.solve(job([{ id: 'long', points: [{ x: 0, y: 0 }, { x: 3000, y: 0 }] }]));
+    expect(long.regions[0].grid.cellSize).toBeGreaterThan(2);
+    expect(long.warnings).toEqual([expect.stringContaining('The map around long has')]);
+  });
+
+  it('should be deterministic', () => {
+    const cuts = [FIRST_CUT, { id: 'b', points: [{ x: 100, y: 5 }, { x: 0, y: 5 }] }];
+    expect(solver.solve(job(cuts))).toEqual(solver.solve(job(cuts)));
+  });
+
+  it('should warn about cuts made close together in time and widen their HAZ', () => {
+    const single = solver.solve(job([FIRST_CUT]));
+    const far = solver.solve(job([FIRST_CUT, { id: 'b', points: [{ x: 100, y: 60 }, { x: 0, y: 60 }] }]));
+    const close = solver.solve(job([FIRST_CUT, { id: 'b', points: [{ x: 100, y: 2 }, { x: 0, y: 2 }] }]));
+
+    expect(far.hotSpots).toEqual([]);
+    expect(close.hotSpots).toHaveLength(1);
+    expect(close.hotSpots[0]).toMatchObject({ cutId: 'b', previousCutId: 'a' });
+    expect(close.hotSpots[0].timeGap).toBeLessThan(1);
+    expect(close.maxHazWidth).toBeGreaterThan(far.maxHazWidth);
+    expect(far.maxHazWidth).toBeCloseTo(single.maxHazWidth, 1);
+  });
+
+  it('should finish a multi-part program quickly', () => {
+    const cuts: ThermalCut[] = Array.from({ length: 6 }, (_, i) => ({
+      id: `part-${i + 1}`,
+      points: [{ x: i * 40, y: 0 }, { x: i * 40 + 30, y: 0 }, { x: i * 40 + 30, y: 30 }, { x: i * 40, y: 30 }, { x: i * 40, y: 0 }]
+    }));
+    const started = performance.now();
+    const result = solver.solve(job(cuts));
+
+    expect(performance.now() - started).toBeLessThan(3000);
+    expect(result.hazAlongContour.map(cut => cut.cutId)).toEqual(cuts.map(cut => cut.id));
+    expect(() => solver.solve(job([]))).toThrow();
+  });
+
+  it('should run as the numerical thermal model of the HAZ calculator', async () => {
+    const calculator = new HeatAffectedZoneCalculator();
+    const inputs = {
+      ...calculator.getExampleInputs(),
+      thermalModel: 'numerical',
+      cutPath: [FIRST_CUT, { id: 'b', points: [{ x: 100, y: 2 }, { x: 0, y: 2 }] }]
+    };
+    const result = await calculator.calculate(inputs as Parameters<typeof calculator.calculate>[0]);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.thermalField?.hotSpots).toHaveLength(1);
+    expect(result.data?.hazWidth).toBe(result.data?.thermalField?.maxHazWidth);
+    expect(result.data?.hazDepth).toBe(inputs.thickness);
+    expect(result.data?.warnings.some((warning: string) => warning.startsWith('Hot spot on b'))).toBe(true);
+
+    expect(calculator.validateInputs({ ...inputs, cutPath: undefined }).errors.map(error => error.code)).toContain('CUT_PATH_REQUIRED');
+  });
+});
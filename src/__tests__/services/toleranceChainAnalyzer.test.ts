@@ -0,0 +1,92 @@
+/**
+ * Tolerance Chain Analyzer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ToleranceChainAnalyzer, type ChainLink } from '../../services/toleranceChainAnalyzer';
+import { ToleranceStackCalculator, type ToleranceStackInputs } from '../../features/calculators/tolerance-stack-calculator/ToleranceStackCalculator';
+
+// Closing dimension 25 mm; normal links at ±3σ give σ = 0.05 mm
+const CHAIN: ChainLink[] = [
+  { id: 'flange', nominal: 10, plusTolerance: 0.1, minusTolerance: 0.1, direction: 'increasing', distribution: 'normal' },
+  { id: 'web', nominal: 20, plusTolerance: 0.1, minusTolerance: 0.1, direction: 'increasing', distribution: 'normal' },
+  { id: 'slot', nominal: 5, plusTolerance: 0.05, minusTolerance: 0.05, direction: 'decreasing', distribution: 'normal' }
+];
+
+describe('ToleranceChainAnalyzer', () => {
+  const analyzer = new ToleranceChainAnalyzer();
+
+  it('should stack the chain worst-case, by RSS and by Monte Carlo', () => {
+    const analysis = analyzer.analyze(CHAIN, { lower: 24.9, upper: 25.1 }, { samples: 20000 });
+
+    expect(analysis.nominal).toBe(25);
+    expect(analysis.worstCase.min).toBeCloseTo(24.75, 10);
+    expect(analysis.worstCase.max).toBeCloseTo(25.25, 10);
+    expect(analysis.worstCase.withinSpec).toBe(false);
+
+    // Limits at ±2σ leave 4.55% outside
+    expect(analysis.rss.standardDeviation).toBeCloseTo(0.05, 10);
+    expect(analysis.rss.outOfSpecPercent).toBeCloseTo(4.55, 1);
+    expect(analysis.monteCarlo.outOfSpecPercent).toBeCloseTo(4.55, 0);
+    expect(analysis.monteCarlo.standardDeviation).toBeCloseTo(0.05, 2);
+
+    expect(analysis.contributions.map(contribution => contribution.varianceShare))
+      .toEqual([expect.closeTo(4 / 9, 10), expect.closeTo(4 / 9, 10), expect.closeTo(1 / 9, 10)]);
+    expect(analysis.contributions[2].worstCaseShare).toBeCloseTo(0.2, 10);
+    expect(analysis.largestContributor).toBe('flange');
+  });
+
+  it('should centre asymmetric bands and honour each link distribution', () => {
+    const analysis = analyzer.analyze([
+      { id: 'cut', nominal: 50, plusTolerance: 0.2, minusTolerance: 0, direction: 'increasing', distribution: 'uniform' },
+      { id: 'bend', nominal: 10, plusTolerance: 0.3, minusTolerance: 0.3, direction: 'decreasing', distribution: 'triangular' }
+    ], { lower: 39.5, upper: 40.5 }, { samples: 20000, seed: 4 });
+
+    expect(analysis.mean).toBeCloseTo(40.1, 10);
+    expect(analysis.contributions[0].standardDeviation).toBeCloseTo(0.1 / Math.sqrt(3), 10);
+    expect(analysis.contributions[1].standardDeviation).toBeCloseTo(0.3 / Math.sqrt(6), 10);
+    expect(analysis.largestContributor).toBe('bend');
+    expect(analysis.worstCase.withinSpec).toBe(true);
+    expect(analysis.monteCarlo.outOfSpecPercent).toBe(0);
+    expect(analysis.monteCarlo.min).toBeGreaterThanOrEqual(analysis.worstCase.min);
+
+    expect(analyzer.analyze(CHAIN, { lower: 24.9, upper: 25.1 }, { samples: 500, seed: 9 }))
+      .toEqual(analyzer.analyze(CHAIN, { lower: 24.9, upper: 25.1 }, { samples: 500, seed: 9 }));
+    expect(() => analyzer.analyze([], { lower: 0, upper: 1 })).toThrow('at least one link');
+    expect(() => analyzer.analyze([CHAIN[0], CHAIN[0]], { lower: 0, upper: 1 })).toThrow('ids must be unique');
+    expect(() => analyzer.analyze(CHAIN, { lower: 1, upper: 1 })).toThrow('upper specification limit');
+  });
+
+  it('should widen laser-cut links to the machine accuracy and kerf variation in the calculator', async () => {
+    const calculator = new ToleranceStackCalculator();
+    const inputs: ToleranceStackInputs = {
+      ...calculator.getExampleInputs(),
+      chain: [
+        { ...CHAIN[0], source: 'machined' },
+        { ...CHAIN[1], plusTolerance: 0.01, minusTolerance: 0.01, source: 'laser_cut' },
+        { ...CHAIN[2], source: 'bent' }
+      ],
+      specificationLimits: { lower: 24.9, upper: 25.1 },
+      machineId: 'generic_fiber_3kw',
+      kerfVariation: 0.04,
+      sampleCount: 5000
+    };
+
+    const result = await calculator.calculate(inputs);
+    expect(result.success).toBe(true);
+
+    // √(0.03² + 0.04²) = 0.05 mm
+    const chain = result.data?.chainAnalysis;
+    expect(chain?.laserAccuracy).toBe(0.03);
+    expect(chain?.links[1]).toMatchObject({ processLimited: true, plusTolerance: expect.closeTo(0.05, 10) });
+    expect(chain?.links[0].processLimited).toBe(false);
+    expect(chain?.largestContributor).toBe('flange');
+    expect(result.data?.dimensionalChain.weakestLink).toBe('flange');
+    expect(result.data?.dimensionalChain.criticalPath).toEqual(['flange', 'web', 'slot']);
+    expect(result.data?.accuracyPrediction.yieldPrediction).toBeCloseTo(100 - (chain?.monteCarlo.outOfSpecPercent ?? 0), 1);
+    expect(result.data?.warnings.some((warning: string) => warning.startsWith('web: the laser holds ±0.050 mm'))).toBe(true);
+    expect(result.data?.recommendations[0]).toContain('Tighten flange first');
+
+    expect((await calculator.calculate(calculator.getExampleInputs())).data?.chainAnalysis).toBeUndefined();
+  });
+});
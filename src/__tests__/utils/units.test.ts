@@ -0,0 +1,67 @@
+/**
+ * Unit Utilities Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convert,
+  convertValues,
+  fromUnitSystem,
+  gaugeToThickness,
+  thicknessToGauge,
+  toUnitSystem,
+  unitFor
+} from '../../utils/units';
+import { LaserParameterOptimizer } from '../../features/calculators/laser-parameter-optimizer/LaserParameterOptimizer';
+
+describe('Unit Utilities', () => {
+  it('should convert canonical units to their imperial counterparts and back', () => {
+    expect(unitFor('mm/min', 'imperial')).toBe('ipm');
+    expect(unitFor('W', 'imperial')).toBe('W');
+    expect(unitFor('bar', 'metric')).toBe('bar');
+
+    expect(toUnitSystem(25.4, 'mm', 'imperial')).toBe(1);
+    expect(toUnitSystem(2540, 'mm/min', 'imperial')).toBe(100);
+    expect(toUnitSystem(1, 'bar', 'imperial')).toBeCloseTo(14.5038, 4);
+    expect(toUnitSystem(100, '°C', 'imperial')).toBe(212);
+    expect(toUnitSystem(10, 'kg', 'imperial')).toBeCloseTo(22.0462, 4);
+    expect(convert(100, 'scfh', 'L/min')).toBeCloseTo(47.1947, 4);
+    expect(fromUnitSystem(0.1, 'mm', 'imperial')).toBe(2.54);
+    expect(toUnitSystem(fromUnitSystem(0.1, 'mm', 'imperial'), 'mm', 'imperial')).toBe(0.1);
+
+    expect(() => convert(1, 'bar', 'mm')).toThrow('Cannot convert bar to mm');
+  });
+
+  it('should convert nested fields by path and leave the rest untouched', () => {
+    const values = { thickness: 3.175, pressure: { value: 10, confidence: 0.9 }, material: 'steel' };
+    const shown = convertValues(values, { thickness: 'mm', 'pressure.value': 'bar', missing: 'mm' }, 'imperial', 'toUnitSystem');
+
+    expect(shown).toMatchObject({ thickness: 0.125, pressure: { confidence: 0.9 }, material: 'steel' });
+    expect(shown.pressure.value).toBeCloseTo(145.0377, 4);
+    expect(values.thickness).toBe(3.175);
+  });
+
+  it('should look up sheet gauges per material family', () => {
+    expect(gaugeToThickness(16, 'steel')).toBeCloseTo(1.519, 3);
+    expect(gaugeToThickness(16, 'aluminum')).toBeCloseTo(1.29, 3);
+    expect(gaugeToThickness(16, 'titanium')).toBeUndefined();
+    expect(thicknessToGauge(1.52, 'steel')).toBe(16);
+    expect(thicknessToGauge(1.65, 'steel')).toBeUndefined();
+  });
+
+  it('should convert calculator inputs and results between unit systems', async () => {
+    const optimizer = new LaserParameterOptimizer();
+    const entered = { ...optimizer.getExampleInputs(), thickness: 0.25 };
+
+    const canonical = optimizer.toCanonicalInputs(entered, 'imperial');
+    expect(canonical.thickness).toBe(6.35);
+    expect(optimizer.toDisplayInputs(canonical, 'imperial').thickness).toBe(0.25);
+
+    const result = await optimizer.calculate(canonical as Parameters<typeof optimizer.calculate>[0]);
+    const shown = optimizer.toDisplayResult(result, 'imperial');
+    expect(shown.data?.cuttingSpeed).toBeCloseTo(result.data?.cuttingSpeed / 25.4, 6);
+    expect(shown.data?.gasPressure).toBeCloseTo(result.data?.gasPressure * 14.5038, 3);
+    expect(shown.data?.optimalPower).toBe(result.data?.optimalPower);
+    expect(shown.metadata).toEqual(result.metadata);
+  });
+});
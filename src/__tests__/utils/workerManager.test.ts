@@ -0,0 +1,155 @@
+/**
+ * Worker Manager Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkerManager, type WorkerProgress } from '../../utils/workerManager';
+import { createCalculationHandler } from '../../workers/calculationWorkerRuntime';
+import { collectTransferables, type WorkerRequest, type WorkerResponse } from '../../workers/calculationProtocol';
+import { featureCalculators } from '../../features/calculators/registry';
+import type { IBaseCalculator } from '../../lib/calculator/BaseCalculator';
+
+/**
+ * Stands in for a module worker: messages are cloned both ways and handled by the real
+ * worker runtime, unless the worker is told to hang
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: WorkerRequest[] = [];
+  terminated = false;
+  private hang: boolean;
+  private handle = createCalculationHandler(response => {
+    setTimeout(() => {
+      if (!this.terminated) this.onmessage?.({ data: structuredClone(response) } as MessageEvent<WorkerResponse>);
+    });
+  });
+
+  constructor(hang = false) {
+    this.hang = hang;
+  }
+
+  postMessage(request: WorkerRequest): void {
+    this.requests.push(request);
+    if (!this.hang) setTimeout(() => void this.handle(structuredClone(request)));
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+function createPool(hang = false, options: { timeout?: number } = {}) {
+  const workers: FakeWorker[] = [];
+  const manager = new WorkerManager({
+    size: 1,
+    timeout: options.timeout,
+    createWorker: () => {
+      const worker = new FakeWorker(hang);
+      workers.push(worker);
+      return worker as unknown as Worker;
+    }
+  });
+  return { manager, workers };
+}
+
+function calculatorFor(id: string): IBaseCalculator {
+  return featureCalculators.find(calculator => calculator.config.id === id)!;
+}
+
+const costBenefit = calculatorFor('cost-benefit-analyzer');
+const monteCarloInputs = {
+  ...costBenefit.getExampleInputs(),
+  analysisType: 'monte_carlo',
+  sampleCount: 200,
+  seed: 42
+};
+
+describe('WorkerManager', () => {
+  it('offloads heavy runs only, with the same results as the main thread', async () => {
+    const { manager, workers } = createPool();
+    const progress: WorkerProgress[] = [];
+
+    const haz = calculatorFor('heat-affected-zone-calculator');
+    await manager.calculate(haz, haz.getExampleInputs());
+    expect(workers).toHaveLength(0);
+
+    expect(manager.shouldOffload('cost-benefit-analyzer', monteCarloInputs)).toBe(true);
+    const result = await manager.calculate(costBenefit, monteCarloInputs, { onProgress: value => progress.push(value) });
+    const direct = await costBenefit.calculate(monteCarloInputs);
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].requests.map(request => request.type)).toEqual(['init', 'run']);
+    expect(progress).toEqual([{ completed: 0, total: 1, stage: 'cost-benefit-analyzer' }]);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(direct.data);
+    expect(manager.getStats()).toMatchObject({ tasksCompleted: 1, mainThreadRuns: 0, pendingTasks: 0 });
+  });
+
+  it('cancels and times out running tasks by replacing their worker', async () => {
+    const { manager, workers } = createPool(true, { timeout: 50 });
+
+    await expect(manager.calculate(costBenefit, monteCarloInputs)).rejects.toThrow('timed out after 50 ms');
+    expect(workers[0].terminated).toBe(true);
+
+    const controller = new AbortController();
+    const cancelled = manager.calculate(costBenefit, monteCarloInputs, { signal: controller.signal });
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(workers).toHaveLength(2);
+    expect(workers[1].terminated).toBe(true);
+    expect(manager.getStats()).toMatchObject({ tasksCancelled: 1, tasksErrored: 1, activeWorkers: 0 });
+  });
+
+  it('falls back to the main thread when workers cannot start', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const manager = new WorkerManager({
+      createWorker: () => {
+        throw new Error('module workers not supported');
+      }
+    });
+    const progress: WorkerProgress[] = [];
+
+    const results = await manager.calculateBatch(costBenefit, [monteCarloInputs, { ...monteCarloInputs, seed: 7 }], {
+      onProgress: value => progress.push(value)
+    });
+
+    expect(results.map(result => result.success)).toEqual([true, true]);
+    expect(progress.map(value => value.completed)).toEqual([0, 1]);
+    expect(manager.getStats()).toMatchObject({ mainThreadRuns: 1, isInitialized: false });
+    vi.restoreAllMocks();
+  });
+
+  it('cannot cut a synchronous main-thread run short', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const manager = new WorkerManager({
+      timeout: 1,
+      createWorker: () => {
+        throw new Error('module workers not supported');
+      }
+    });
+    const task = { kind: 'calculate', calculatorId: costBenefit.config.id, inputs: monteCarloInputs } as const;
+    const blocking = async () => {
+      const end = Date.now() + 20;
+      while (Date.now() < end) { /* busy */ }
+      return costBenefit.calculate(monteCarloInputs);
+    };
+
+    await expect(manager.run(task, blocking)).resolves.toMatchObject({ success: true });
+
+    const controller = new AbortController();
+    controller.abort();
+    const skipped = vi.fn(blocking);
+    await expect(manager.run(task, skipped, { signal: controller.signal })).rejects.toThrow();
+    expect(skipped).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it('collects the buffers of typed arrays in results for transfer', () => {
+    const samples = new Float64Array(4);
+    const raw = new ArrayBuffer(8);
+
+    expect(collectTransferables({ data: { samples, nested: [raw, samples] }, label: 'x' })).toEqual([samples.buffer, raw]);
+    expect(collectTransferables({ data: { total: 1 } })).toEqual([]);
+  });
+});
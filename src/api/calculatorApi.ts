@@ -0,0 +1,227 @@
+/**
+ * Calculator HTTP API
+ * Routes for listing, describing and running the feature calculators over HTTP. Framework-free:
+ * a request goes in and a status with a JSON body comes out, so the Node server and the tests
+ * share the same handler.
+ */
+
+import type { BaseCalculationResult, BaseInputField, IBaseCalculator, ValidationResult } from '../lib/calculator/BaseCalculator';
+import type { CalculatorModuleRegistry } from '../core/ModuleRegistry';
+import { getFeatureCalculator } from '../features/calculators/registry';
+import { generateId } from '../utils/idGenerator';
+import type { ApiResponse } from './memoryApi';
+import { buildOpenApiDocument, inputSchema, MAX_BATCH_SIZE, type OpenApiDocument } from './openApi';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ApiRequest {
+  method: string;
+  url: string; // path and optional query string
+  body?: string; // raw JSON text
+}
+
+export interface ApiReply {
+  status: number;
+  body: CalculatorApiResponse | OpenApiDocument;
+}
+
+export interface CalculatorApiResponse<T = unknown> extends ApiResponse<T> {
+  errors?: ValidationResult['errors'];
+}
+
+export interface CalculatorApiOptions {
+  serverUrl?: string; // advertised in the OpenAPI document
+}
+
+export interface BatchItemResult {
+  index: number;
+  success: boolean;
+  error?: string; // set when the item threw rather than failing validation
+  errors?: ValidationResult['errors'];
+  result?: BaseCalculationResult;
+}
+
+type Outcome =
+  | { status: 200; result: BaseCalculationResult }
+  | { status: 422; errors: ValidationResult['errors'] }
+  | { status: 500; result: BaseCalculationResult };
+
+// ============================================================================
+// Calculator API
+// ============================================================================
+
+export class CalculatorApi {
+  private registry: CalculatorModuleRegistry;
+  private options: CalculatorApiOptions;
+  private document: OpenApiDocument | null = null;
+
+  constructor(registry: CalculatorModuleRegistry, options: CalculatorApiOptions = {}) {
+    this.registry = registry;
+    this.options = options;
+  }
+
+  async handle(request: ApiRequest): Promise<ApiReply> {
+    const path = request.url.split('?')[0].replace(/\/+$/, '');
+    const method = request.method.toUpperCase();
+
+    try {
+      if (path === '/openapi.json') {
+        return method === 'GET' ? { status: 200, body: this.openApi() } : this.methodNotAllowed('GET');
+      }
+      if (path === '/calculators') {
+        return method === 'GET' ? this.ok(this.calculators().map(summary)) : this.methodNotAllowed('GET');
+      }
+
+      const match = path.match(/^\/calculators\/([^/]+)\/(schema|calculate|batch)$/);
+      if (!match) {
+        return this.fail(404, `No route for ${path || '/'}`);
+      }
+      const [, id, action] = match;
+      const calculator = getFeatureCalculator(this.registry, decodeURIComponent(id));
+      if (!calculator) {
+        return this.fail(404, `Unknown calculator: ${decodeURIComponent(id)}`);
+      }
+
+      if (action === 'schema') {
+        if (method !== 'GET') return this.methodNotAllowed('GET');
+        return this.ok({
+          ...summary(calculator),
+          inputs: calculator.config.inputs.map((input: BaseInputField) => ({ ...input, validation: undefined })),
+          inputSchema: inputSchema(calculator)
+        });
+      }
+      if (method !== 'POST') return this.methodNotAllowed('POST');
+
+      const body = this.parseBody(request.body);
+      if (body === undefined) {
+        return this.fail(400, 'Request body must be valid JSON');
+      }
+      return action === 'calculate' ? await this.calculate(calculator, body) : await this.batch(calculator, body);
+    } catch (error) {
+      console.error('❌ Calculator API request failed:', error);
+      return this.fail(500, error instanceof Error ? error.message : 'Internal error');
+    }
+  }
+
+  /**
+   * The OpenAPI document, built once from the registered calculators
+   */
+  openApi(): OpenApiDocument {
+    if (!this.document) {
+      this.document = buildOpenApiDocument(this.calculators(), { serverUrl: this.options.serverUrl });
+    }
+    return this.document;
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  private async calculate(calculator: IBaseCalculator, body: unknown): Promise<ApiReply> {
+    if (!isObject(body)) {
+      return this.fail(400, 'Request body must be a JSON object of inputs');
+    }
+    const outcome = await this.run(calculator, body);
+    if (outcome.status === 422) {
+      return this.fail(422, `Invalid inputs for ${calculator.config.id}`, outcome.errors);
+    }
+    if (outcome.status === 500) {
+      return this.fail(500, outcome.result.error ?? 'Calculation failed');
+    }
+    return this.ok(outcome.result);
+  }
+
+  private async batch(calculator: IBaseCalculator, body: unknown): Promise<ApiReply> {
+    const items = isObject(body) ? body.items : undefined;
+    if (!Array.isArray(items) || items.length === 0) {
+      return this.fail(400, 'A batch needs a non-empty items array');
+    }
+    if (items.length > MAX_BATCH_SIZE) {
+      return this.fail(400, `A batch holds at most ${MAX_BATCH_SIZE} items`);
+    }
+
+    const results: BatchItemResult[] = [];
+    for (const [index, item] of items.entries()) {
+      if (!isObject(item)) {
+        results.push({ index, success: false, errors: [{ field: '', message: 'Item must be an object', code: 'invalid_type' }] });
+        continue;
+      }
+      // One bad item is reported in its slot, like a validation failure, not as a 500 for the batch
+      try {
+        const outcome = await this.run(calculator, item);
+        results.push(outcome.status === 422
+          ? { index, success: false, errors: outcome.errors }
+          : { index, success: outcome.status === 200, result: outcome.result });
+      } catch (error) {
+        console.error(`❌ Batch item ${index} for ${calculator.config.id} failed:`, error);
+        results.push({ index, success: false, error: error instanceof Error ? error.message : 'Internal error' });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return this.ok({ items: results, succeeded, failed: results.length - succeeded });
+  }
+
+  /**
+   * Validates through the calculator's schema, then calculates with the machine applied
+   */
+  private async run(calculator: IBaseCalculator, body: Record<string, unknown>): Promise<Outcome> {
+    const inputs = calculator.resolveInputs(body);
+    const validation = calculator.validateInputs(inputs);
+    if (!validation.isValid) {
+      return { status: 422, errors: validation.errors };
+    }
+    const result = await calculator.calculate(inputs);
+    return result.success ? { status: 200, result } : { status: 500, result };
+  }
+
+  private calculators(): IBaseCalculator[] {
+    return this.registry.getAllModules()
+      .map(module => getFeatureCalculator(this.registry, module.metadata.id))
+      .filter((calculator): calculator is IBaseCalculator => calculator !== null);
+  }
+
+  private parseBody(body: string | undefined): unknown {
+    try {
+      return JSON.parse(body ?? '');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private ok<T>(data: T): ApiReply {
+    const body: CalculatorApiResponse<T> = {
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+      requestId: generateId('req')
+    };
+    return { status: 200, body };
+  }
+
+  private fail(status: number, error: string, errors?: ValidationResult['errors']): ApiReply {
+    const body: CalculatorApiResponse = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+      requestId: generateId('req')
+    };
+    if (errors) body.errors = errors;
+    return { status, body };
+  }
+
+  private methodNotAllowed(allowed: string): ApiReply {
+    return this.fail(405, `Method not allowed; use ${allowed}`);
+  }
+}
+
+function summary(calculator: IBaseCalculator) {
+  const { id, title, description, category, badge, resultType, version, lastUpdated } = calculator.config;
+  return { id, title, description, category, badge, resultType, version, lastUpdated };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,65 @@
+/**
+ * Calculator API HTTP Handler
+ * Adapts Node's request and response streams to CalculatorApi.handle, so the server entry
+ * point stays a thin wrapper and the tests can drive the handler with fake streams
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { RegistryLogger } from '../core/ModuleRegistry';
+import type { CalculatorApi } from './calculatorApi';
+
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * The request body as text, or null when it is larger than MAX_BODY_BYTES. Rejects when the
+ * request stream fails, for example when the client aborts mid-upload.
+ */
+export function readBody(request: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    request.on('end', () => resolve(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * A request listener for http.createServer. It never rejects: a body that cannot be read
+ * gets a 400, any other failure a 500, and once headers are out the socket is dropped.
+ */
+export function createRequestHandler(api: CalculatorApi, logger: RegistryLogger = console) {
+  return async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const method = request.method ?? 'GET';
+    const url = request.url ?? '/';
+    let bodyRead = false;
+
+    try {
+      const body = await readBody(request);
+      bodyRead = true;
+      const reply = body === null
+        ? { status: 413, body: { success: false, error: 'Request body too large', timestamp: new Date().toISOString() } }
+        : await api.handle({ method, url, body });
+
+      logger.log(`${method} ${url} → ${reply.status}`);
+      response.writeHead(reply.status, { 'Content-Type': 'application/json; charset=utf-8' });
+      response.end(JSON.stringify(reply.body));
+    } catch (error) {
+      logger.error(`❌ ${method} ${url} failed:`, error);
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      const status = bodyRead ? 500 : 400;
+      response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+      response.end(JSON.stringify({
+        success: false,
+        error: bodyRead ? 'Internal error' : 'Request body could not be read',
+        timestamp: new Date().toISOString()
+      }));
+    }
+  };
+}
@@ -0,0 +1,413 @@
+/**
+ * OpenAPI Document
+ * OpenAPI 3 description of the calculator HTTP API, generated from each calculator's zod input
+ * schema and its BaseCalculatorConfig, so clients can be generated from the running server
+ */
+
+import { z } from 'zod';
+import type { BaseCalculatorConfig, IBaseCalculator } from '../lib/calculator/BaseCalculator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemaObject {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  format?: string;
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  items?: SchemaObject | ReferenceObject;
+  properties?: Record<string, SchemaObject | ReferenceObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject | ReferenceObject;
+  oneOf?: Array<SchemaObject | ReferenceObject>;
+  allOf?: Array<SchemaObject | ReferenceObject>;
+  'x-unit'?: string;
+}
+
+export interface ReferenceObject {
+  $ref: string;
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  serverUrl?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, SchemaObject> };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: OpenApiOptions = {
+  title: 'Laser Cutting Calculator API',
+  version: '1.0.0'
+};
+
+export const MAX_BATCH_SIZE = 1000;
+
+// ============================================================================
+// Zod to JSON Schema
+// ============================================================================
+
+/**
+ * OpenAPI 3.0 schema for a zod schema. Refinements and transforms are described by the schema
+ * they wrap; types with no JSON equivalent become an unconstrained schema.
+ */
+export function zodToSchema(schema: z.ZodTypeAny): SchemaObject {
+  const converted = convert(schema);
+  if (schema.description) converted.description = schema.description;
+  return converted;
+}
+
+function convert(schema: z.ZodTypeAny): SchemaObject {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    const object: SchemaObject = {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToSchema(value)]))
+    };
+    if (required.length > 0) object.required = required;
+    if (schema._def.unknownKeys === 'strict') object.additionalProperties = false;
+    return object;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const number: SchemaObject = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') number.type = 'integer';
+      if (check.kind === 'min') {
+        number.minimum = check.value;
+        if (!check.inclusive) number.exclusiveMinimum = true;
+      }
+      if (check.kind === 'max') {
+        number.maximum = check.value;
+        if (!check.inclusive) number.exclusiveMaximum = true;
+      }
+      if (check.kind === 'multipleOf') number.multipleOf = check.value;
+    }
+    return number;
+  }
+  if (schema instanceof z.ZodString) {
+    const string: SchemaObject = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') string.minLength = check.value;
+      if (check.kind === 'max') string.maxLength = check.value;
+      if (check.kind === 'length') string.minLength = string.maxLength = check.value;
+      if (check.kind === 'regex') string.pattern = check.regex.source;
+      if (check.kind === 'email' || check.kind === 'uuid' || check.kind === 'url') string.format = check.kind;
+      if (check.kind === 'datetime') string.format = 'date-time';
+    }
+    return string;
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum as Record<string, string | number>);
+    return { type: values.every(value => typeof value === 'number') ? 'number' : 'string', enum: values };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value as unknown;
+    return { type: typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string', enum: [value] };
+  }
+  if (schema instanceof z.ZodArray) {
+    const array: SchemaObject = { type: 'array', items: zodToSchema(schema.element) };
+    const { minLength, maxLength, exactLength } = schema._def;
+    if (minLength) array.minItems = minLength.value;
+    if (maxLength) array.maxItems = maxLength.value;
+    if (exactLength) array.minItems = array.maxItems = exactLength.value;
+    return array;
+  }
+  if (schema instanceof z.ZodTuple) {
+    const items = (schema.items as z.ZodTypeAny[]).map(zodToSchema);
+    return { type: 'array', items: { oneOf: items }, minItems: items.length, maxItems: items.length };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: (schema.options as z.ZodTypeAny[]).map(zodToSchema) };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [zodToSchema(schema._def.left), zodToSchema(schema._def.right)] };
+  }
+  if (schema instanceof z.ZodOptional) return zodToSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return { ...zodToSchema(schema.unwrap()), nullable: true };
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) return zodToSchema(schema.innerType());
+  if (schema instanceof z.ZodLazy) return zodToSchema(schema.schema);
+  return {};
+}
+
+/**
+ * Calculator inputs: the zod schema annotated with the form's labels, help text and units.
+ * Every calculator takes a machineId, applied before validation, even if its schema omits it.
+ */
+export function inputSchema(calculator: IBaseCalculator): SchemaObject {
+  const schema = zodToSchema(calculator.getInputSchema() as z.ZodTypeAny);
+  schema.properties = {
+    machineId: {
+      type: 'string',
+      description: 'Machine profile whose properties replace the matching inputs and whose defaults fill empty ones'
+    },
+    ...schema.properties
+  };
+  for (const input of calculator.config.inputs) {
+    const property = schema.properties?.[input.id];
+    if (!property || '$ref' in property) continue;
+    property.title = input.label;
+    if (input.help) property.description = input.help;
+    if (input.unit) property['x-unit'] = input.unit;
+  }
+  return { title: `${calculator.config.title} inputs`, ...schema };
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * The API description with a typed calculate and batch operation for every calculator
+ */
+export function buildOpenApiDocument(calculators: IBaseCalculator[], options?: Partial<OpenApiOptions>): OpenApiDocument {
+  const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+  const opts: OpenApiOptions = { ...DEFAULT_OPTIONS, ...Object.fromEntries(given) };
+
+  const document: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: opts.title,
+      version: opts.version,
+      description: 'Runs the laser cutting calculators. Inputs are validated against each calculator\'s schema; ' +
+        'values are in the canonical units given by x-unit.'
+    },
+    servers: opts.serverUrl ? [{ url: opts.serverUrl }] : [],
+    tags: Array.from(new Set(calculators.map(calculator => calculator.config.category))).map(name => ({ name })),
+    paths: {
+      '/calculators': {
+        get: {
+          operationId: 'listCalculators',
+          summary: 'List the calculators',
+          responses: { 200: envelope({ type: 'array', items: ref('CalculatorSummary') }, 'Calculators') }
+        }
+      },
+      '/calculators/{id}/schema': {
+        get: {
+          operationId: 'getCalculatorSchema',
+          summary: 'Input fields and JSON Schema of a calculator',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: envelope(ref('CalculatorSchema'), 'Calculator schema'),
+            404: errorResponse('Unknown calculator')
+          }
+        }
+      },
+      '/openapi.json': {
+        get: {
+          operationId: 'getOpenApiDocument',
+          summary: 'This document',
+          responses: { 200: { description: 'OpenAPI document', content: { 'application/json': { schema: { type: 'object' } } } } }
+        }
+      }
+    },
+    components: { schemas: sharedSchemas() }
+  };
+
+  for (const calculator of calculators) {
+    const { config } = calculator;
+    const name = schemaName(config);
+    document.components.schemas[`${name}Inputs`] = inputSchema(calculator);
+    document.components.schemas[`${name}BatchRequest`] = {
+      type: 'object',
+      required: ['items'],
+      properties: { items: { type: 'array', items: ref(`${name}Inputs`), minItems: 1, maxItems: MAX_BATCH_SIZE } }
+    };
+
+    document.paths[`/calculators/${config.id}/calculate`] = {
+      post: {
+        operationId: `calculate${name}`,
+        summary: config.title,
+        description: config.description,
+        tags: [config.category],
+        requestBody: { required: true, content: { 'application/json': { schema: ref(`${name}Inputs`) } } },
+        responses: {
+          200: envelope(ref('CalculationResult'), 'Calculation result'),
+          400: errorResponse('Body is not a JSON object'),
+          422: errorResponse('Inputs failed validation'),
+          500: errorResponse('Calculation failed')
+        }
+      }
+    };
+    document.paths[`/calculators/${config.id}/batch`] = {
+      post: {
+        operationId: `calculate${name}Batch`,
+        summary: `${config.title} (batch)`,
+        description: 'Validates and runs each item independently; invalid items are reported without stopping the batch.',
+        tags: [config.category],
+        requestBody: { required: true, content: { 'application/json': { schema: ref(`${name}BatchRequest`) } } },
+        responses: {
+          200: envelope(ref('BatchResult'), 'Result of every item'),
+          400: errorResponse('Body is not a batch request')
+        }
+      }
+    };
+  }
+  return document;
+}
+
+function schemaName(config: BaseCalculatorConfig): string {
+  return config.id.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+}
+
+function ref(name: string): ReferenceObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function envelope(data: SchemaObject | ReferenceObject, description: string) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: { allOf: [ref('ApiResponse'), { type: 'object', properties: { data } }] }
+      }
+    }
+  };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { 'application/json': { schema: ref('ErrorResponse') } } };
+}
+
+function sharedSchemas(): Record<string, SchemaObject> {
+  const issue: SchemaObject = {
+    type: 'object',
+    required: ['field', 'message', 'code'],
+    properties: { field: { type: 'string' }, message: { type: 'string' }, code: { type: 'string' } }
+  };
+
+  return {
+    ApiResponse: {
+      type: 'object',
+      required: ['success', 'timestamp'],
+      properties: {
+        success: { type: 'boolean' },
+        error: { type: 'string' },
+        timestamp: { type: 'string', format: 'date-time' },
+        requestId: { type: 'string' }
+      }
+    },
+    ValidationIssue: issue,
+    ErrorResponse: {
+      allOf: [ref('ApiResponse'), {
+        type: 'object',
+        properties: { errors: { type: 'array', items: ref('ValidationIssue') } }
+      }]
+    },
+    CalculatorSummary: {
+      type: 'object',
+      required: ['id', 'title', 'description', 'category', 'version'],
+      properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        category: { type: 'string' },
+        badge: { type: 'string' },
+        resultType: { type: 'string' },
+        version: { type: 'string' },
+        lastUpdated: { type: 'string' }
+      }
+    },
+    InputField: {
+      type: 'object',
+      required: ['id', 'label', 'type', 'required'],
+      properties: {
+        id: { type: 'string' },
+        label: { type: 'string' },
+        type: { type: 'string', enum: ['number', 'select', 'text', 'boolean'] },
+        required: { type: 'boolean' },
+        unit: { type: 'string' },
+        min: { type: 'number' },
+        max: { type: 'number' },
+        help: { type: 'string' },
+        options: {
+          type: 'array',
+          items: { type: 'object', properties: { value: { type: 'string' }, label: { type: 'string' } } }
+        }
+      }
+    },
+    CalculatorSchema: {
+      allOf: [ref('CalculatorSummary'), {
+        type: 'object',
+        properties: {
+          inputs: { type: 'array', items: ref('InputField') },
+          inputSchema: { type: 'object', description: 'JSON Schema of the request body' }
+        }
+      }]
+    },
+    CalculationResult: {
+      type: 'object',
+      required: ['success', 'metadata'],
+      properties: {
+        success: { type: 'boolean' },
+        data: { type: 'object', additionalProperties: true },
+        error: { type: 'string' },
+        warnings: { type: 'array', items: { type: 'string' } },
+        recommendations: { type: 'array', items: { type: 'string' } },
+        metadata: {
+          type: 'object',
+          properties: {
+            calculationTime: { type: 'number' },
+            timestamp: { type: 'string', format: 'date-time' },
+            version: { type: 'string' },
+            inputHash: { type: 'string' }
+          }
+        }
+      }
+    },
+    BatchItemResult: {
+      type: 'object',
+      required: ['index', 'success'],
+      properties: {
+        index: { type: 'integer' },
+        success: { type: 'boolean' },
+        error: { type: 'string' },
+        errors: { type: 'array', items: ref('ValidationIssue') },
+        result: ref('CalculationResult')
+      }
+    },
+    BatchResult: {
+      type: 'object',
+      required: ['items', 'succeeded', 'failed'],
+      properties: {
+        items: { type: 'array', items: ref('BatchItemResult') },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' }
+      }
+    }
+  };
+}
@@ -0,0 +1,44 @@
+#!/usr/bin/env vite-node
+// Calculator HTTP API server
+// Run through vite-node (npm run api -- --port 3100) so the '@/' aliases resolve as in the app
+
+import { createServer } from 'node:http';
+import { CalculatorModuleRegistry, type RegistryLogger } from '../core/ModuleRegistry';
+import { registerFeatureCalculators } from '../features/calculators/registry';
+import { CalculatorApi } from './calculatorApi';
+import { createRequestHandler } from './httpHandler';
+
+function option(args: string[], name: string, fallback: string): string {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const host = option(args, 'host', '127.0.0.1');
+  const port = Number(option(args, 'port', '3100'));
+
+  // Registration and request logging go to stdout only with --verbose; failures always reach stderr
+  const logger: RegistryLogger = args.includes('--verbose')
+    ? console
+    : { log: () => {}, warn: console.warn, error: console.error };
+
+  const registry = new CalculatorModuleRegistry({ logger });
+  await registerFeatureCalculators(registry);
+  const api = new CalculatorApi(registry, { serverUrl: `http://${host}:${port}` });
+
+  const server = createServer(createRequestHandler(api, logger));
+
+  server.listen(port, host, () => {
+    process.stderr.write(`Calculator API listening on http://${host}:${port} (OpenAPI at /openapi.json)\n`);
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Calculator API failed to start:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,32 @@
+#!/usr/bin/env vite-node
+// Calculator CLI entry point
+// Run through vite-node (npm run calc -- ...) so the '@/' aliases resolve as in the app
+
+import { readFileSync } from 'node:fs';
+import { CalculatorModuleRegistry, type RegistryLogger } from '../core/ModuleRegistry';
+import { registerFeatureCalculators } from '../features/calculators/registry';
+import { CalculatorCli, EXIT_CODES } from './calculatorCli';
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Registration progress goes to stdout, so it is only shown with --verbose; problems still reach stderr
+  const logger: RegistryLogger = args.includes('--verbose')
+    ? console
+    : { log: () => {}, warn: console.warn, error: console.error };
+
+  const registry = new CalculatorModuleRegistry({ logger });
+  await registerFeatureCalculators(registry);
+
+  const cli = new CalculatorCli(registry, {
+    write: text => process.stdout.write(text),
+    error: text => process.stderr.write(text),
+    readFile: path => readFileSync(path, 'utf8')
+  });
+  process.exitCode = await cli.run(args);
+}
+
+main().catch(error => {
+  console.error('❌ Calculator CLI failed:', error);
+  process.exitCode = EXIT_CODES.failed;
+});
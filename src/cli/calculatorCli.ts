@@ -0,0 +1,500 @@
+/**
+ * Calculator CLI
+ * Headless runner for the feature calculators registered in the module registry: lists them,
+ * prints their inputs, and runs single calculations or batch files through the same
+ * BaseCalculator classes the pages use.
+ */
+
+import type { BaseCalculationResult, IBaseCalculator, ValidationResult } from '../lib/calculator/BaseCalculator';
+import type { CalculatorModuleRegistry } from '../core/ModuleRegistry';
+import type { UnitSystem } from '../utils/units';
+import { getFeatureCalculator } from '../features/calculators/registry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export interface CliIO {
+  write(text: string): void; // results
+  error(text: string): void; // diagnostics, kept off stdout so results can be piped
+  readFile(path: string): string;
+}
+
+export interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string>;
+}
+
+export interface BatchRow {
+  row: number; // 1-based, as in the batch file
+  inputs: Record<string, unknown>;
+  errors?: ValidationResult['errors'];
+  result?: BaseCalculationResult;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1, // validation or calculation failure
+  usage: 2
+} as const;
+
+// Options that never take a value, so a following argument stays positional
+const FLAG_OPTIONS = new Set(['example', 'help', 'verbose']);
+const CLI_OPTIONS = new Set(['format', 'input', 'units', ...FLAG_OPTIONS]);
+const FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+const MAX_TABLE_OPTIONS = 6;
+
+const HELP = `Laser calculator CLI
+
+Usage:
+  npm run calc -- list [--format table|json|csv]
+  npm run calc -- schema <calculator-id> [--format table|json|csv]
+  npm run calc -- run <calculator-id> [--input file.json|file.csv] [--<field> <value>...]
+  npm run calc -- batch <calculator-id> <file.csv|file.json> [--<field> <value>...]
+
+Options:
+  --format <table|json|csv>   Output format (default table)
+  --input <file>              Inputs for run: a JSON object or a single-row CSV file
+  --example                   Start from the calculator's example inputs
+  --units <metric|imperial>   Unit system of the inputs and printed results (default metric)
+  --verbose                   Keep module registry logging
+  --<field> <value>           Any other option sets that input; in a batch it applies to every
+                              row that leaves the field empty
+
+Inputs are validated against the calculator's schema before it runs. Exit codes: 0 success,
+1 validation or calculation failure (any row of a batch), 2 usage error.
+`;
+
+// ============================================================================
+// Calculator CLI
+// ============================================================================
+
+export class CalculatorCli {
+  private registry: CalculatorModuleRegistry;
+  private io: CliIO;
+
+  constructor(registry: CalculatorModuleRegistry, io: CliIO) {
+    this.registry = registry;
+    this.io = io;
+  }
+
+  /**
+   * Runs one command and returns the process exit code
+   */
+  async run(args: string[]): Promise<number> {
+    const { positional, options } = parseArgs(args);
+    const [command, id, file] = positional;
+
+    if (!command || command === 'help' || options.help) {
+      this.io.write(HELP);
+      return command || options.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+    }
+
+    try {
+      const format = this.format(options);
+      switch (command) {
+        case 'list':
+          this.list(format);
+          return EXIT_CODES.ok;
+        case 'schema':
+          this.schema(this.calculator(id), format);
+          return EXIT_CODES.ok;
+        case 'run':
+          return await this.runOne(this.calculator(id), options, format);
+        case 'batch':
+          if (!file) throw new UsageError('batch needs a CSV or JSON file');
+          return await this.runBatch(this.calculator(id), file, options, format);
+        default:
+          throw new UsageError(`Unknown command: ${command}`);
+      }
+    } catch (error) {
+      if (error instanceof UsageError) {
+        this.io.error(`${error.message}\nRun with --help for usage.\n`);
+        return EXIT_CODES.usage;
+      }
+      this.io.error(`${error instanceof Error ? error.message : String(error)}\n`);
+      return EXIT_CODES.failed;
+    }
+  }
+
+  // ==========================================================================
+  // Commands
+  // ==========================================================================
+
+  private list(format: OutputFormat): void {
+    const modules = this.registry.getAllModules()
+      .filter(module => getFeatureCalculator(this.registry, module.metadata.id))
+      .map(module => module.metadata);
+
+    if (format === 'json') {
+      this.io.write(`${JSON.stringify(modules, null, 2)}\n`);
+      return;
+    }
+    const header = ['id', 'name', 'category', 'version'];
+    const rows = modules.map(metadata => [metadata.id, metadata.name, metadata.category, metadata.version]);
+    this.io.write(format === 'csv' ? toCsv(header, rows) : formatTable(header, rows));
+  }
+
+  private schema(calculator: IBaseCalculator, format: OutputFormat): void {
+    const { config } = calculator;
+    if (format === 'json') {
+      const { id, title, description, version, inputs } = config;
+      // Zod validators do not serialise
+      const fields = inputs.map(input => ({ ...input, validation: undefined }));
+      this.io.write(`${JSON.stringify({ id, title, description, version, inputs: fields }, null, 2)}\n`);
+      return;
+    }
+
+    const header = ['field', 'type', 'required', 'unit', 'range', 'options', 'label'];
+    const rows = config.inputs.map(input => [
+      input.id,
+      input.type,
+      input.required ? 'yes' : 'no',
+      input.unit ?? '',
+      input.min !== undefined || input.max !== undefined ? `${input.min ?? ''}..${input.max ?? ''}` : '',
+      (input.options ?? []).map(option => option.value).join('|'),
+      input.label
+    ]);
+    if (format === 'csv') {
+      this.io.write(toCsv(header, rows));
+      return;
+    }
+
+    // Long option lists would push the labels off screen; json and csv keep them all
+    for (const row of rows) {
+      const options = row[5].split('|');
+      if (options.length > MAX_TABLE_OPTIONS) {
+        row[5] = `${options.slice(0, MAX_TABLE_OPTIONS).join('|')}|… (${options.length} options)`;
+      }
+    }
+    this.io.write(`${config.title} (${config.id} v${config.version})\n${config.description}\n\n`);
+    this.io.write(formatTable(header, rows));
+  }
+
+  private async runOne(calculator: IBaseCalculator, options: Record<string, string>, format: OutputFormat): Promise<number> {
+    let fileInputs: Record<string, unknown> = {};
+    if (options.input) {
+      const records = this.readRecords(options.input);
+      if (records.length !== 1) {
+        throw new UsageError(`${options.input} holds ${records.length} calculations; use batch to run them`);
+      }
+      fileInputs = records[0];
+    }
+
+    const { inputs, errors, result } = await this.calculate(calculator, fileInputs, options);
+    if (errors) {
+      this.io.error(`Invalid inputs for ${calculator.config.id}:\n${describeErrors(errors)}\n`);
+      return EXIT_CODES.failed;
+    }
+    if (!result?.success) {
+      this.io.error(`${calculator.config.id} failed: ${result?.error ?? 'no result'}\n`);
+      return EXIT_CODES.failed;
+    }
+
+    if (format === 'json') {
+      this.io.write(`${JSON.stringify({ calculator: calculator.config.id, inputs, result }, null, 2)}\n`);
+      return EXIT_CODES.ok;
+    }
+    const outputs = Object.entries(flatten(result.data ?? {}));
+    if (format === 'csv') {
+      this.io.write(toCsv(outputs.map(([key]) => key), [outputs.map(([, value]) => value)]));
+      return EXIT_CODES.ok;
+    }
+
+    this.io.write(formatTable(['output', 'value'], outputs));
+    for (const [title, lines] of [['Warnings', result.warnings], ['Recommendations', result.recommendations]] as const) {
+      if (lines?.length) this.io.write(`\n${title}:\n${lines.map(line => `  - ${line}`).join('\n')}\n`);
+    }
+    return EXIT_CODES.ok;
+  }
+
+  private async runBatch(
+    calculator: IBaseCalculator,
+    file: string,
+    options: Record<string, string>,
+    format: OutputFormat
+  ): Promise<number> {
+    const rows: BatchRow[] = [];
+    for (const [index, record] of this.readRecords(file).entries()) {
+      rows.push({ row: index + 1, ...(await this.calculate(calculator, record, options, true)) });
+    }
+
+    const failed = rows.filter(row => row.errors || !row.result?.success);
+    for (const row of failed) {
+      const reason = row.errors ? describeErrors(row.errors) : `  ${row.result?.error ?? 'no result'}`;
+      this.io.error(`Row ${row.row} of ${file}:\n${reason}\n`);
+    }
+
+    if (format === 'json') {
+      this.io.write(`${JSON.stringify({ calculator: calculator.config.id, rows }, null, 2)}\n`);
+    } else {
+      const outputs = rows.map(row => (row.result?.success ? flatten(row.result.data ?? {}) : {}));
+      const keys = Array.from(new Set(outputs.flatMap(output => Object.keys(output))));
+      const header = ['row', 'status', ...keys];
+      const table = rows.map((row, index) => [
+        row.row,
+        row.errors ? 'invalid' : row.result?.success ? 'ok' : 'failed',
+        ...keys.map(key => outputs[index][key])
+      ]);
+      this.io.write(format === 'csv' ? toCsv(header, table) : formatTable(header, table));
+    }
+
+    if (failed.length > 0) {
+      this.io.error(`${failed.length} of ${rows.length} calculations failed\n`);
+      return EXIT_CODES.failed;
+    }
+    return EXIT_CODES.ok;
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  /**
+   * Builds, validates and runs one set of inputs. Run inputs are example, then file, then
+   * flags; batch rows take precedence over the shared flags.
+   */
+  private async calculate(
+    calculator: IBaseCalculator,
+    record: Record<string, unknown>,
+    options: Record<string, string>,
+    rowWins = false
+  ): Promise<Omit<BatchRow, 'row'>> {
+    const base = options.example ? calculator.getExampleInputs() : {};
+    const flags = coerceInputs(calculator, inputOptions(options));
+    const values = coerceInputs(calculator, record);
+    let given = rowWins ? { ...flags, ...values } : { ...values, ...flags };
+
+    // Only what was given is in the chosen units; the example is already canonical
+    const units = options.units as UnitSystem | undefined;
+    if (units) given = calculator.toCanonicalInputs(given, units);
+    const inputs = calculator.resolveInputs({ ...base, ...given });
+
+    const validation = calculator.validateInputs(inputs);
+    if (!validation.isValid) {
+      return { inputs, errors: validation.errors };
+    }
+    const result = await calculator.calculate(inputs);
+    return { inputs, result: units ? calculator.toDisplayResult(result, units) : result };
+  }
+
+  private calculator(id: string | undefined): IBaseCalculator {
+    if (!id) throw new UsageError('A calculator id is required; run list to see them');
+    const calculator = getFeatureCalculator(this.registry, id);
+    if (!calculator) throw new UsageError(`Unknown calculator: ${id}`);
+    return calculator;
+  }
+
+  private format(options: Record<string, string>): OutputFormat {
+    const format = (options.format ?? 'table') as OutputFormat;
+    if (!FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format ${format}; use ${FORMATS.join(', ')}`);
+    }
+    if (options.units && !UNIT_SYSTEMS.includes(options.units as UnitSystem)) {
+      throw new UsageError(`Unknown unit system ${options.units}; use ${UNIT_SYSTEMS.join(' or ')}`);
+    }
+    return format;
+  }
+
+  /**
+   * Calculations in a JSON (an object or an array of objects) or CSV (one per row) file
+   */
+  private readRecords(path: string): Record<string, unknown>[] {
+    let text: string;
+    try {
+      text = this.io.readFile(path);
+    } catch (error) {
+      throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!path.toLowerCase().endsWith('.json')) {
+      return parseCsv(text);
+    }
+    const parsed: unknown = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : [parsed];
+    if (!records.every(record => record && typeof record === 'object' && !Array.isArray(record))) {
+      throw new UsageError(`${path} must hold an object or an array of objects`);
+    }
+    return records as Record<string, unknown>[];
+  }
+}
+
+class UsageError extends Error {}
+
+// ============================================================================
+// Arguments and inputs
+// ============================================================================
+
+/**
+ * Splits positional arguments from --name value and --name=value options
+ */
+export function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {} };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') continue;
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+
+    const [name, ...rest] = arg.slice(2).split('=');
+    if (rest.length > 0) {
+      parsed.options[name] = rest.join('=');
+    } else if (!FLAG_OPTIONS.has(name) && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      parsed.options[name] = args[++i];
+    } else {
+      parsed.options[name] = 'true';
+    }
+  }
+  return parsed;
+}
+
+function inputOptions(options: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(options).filter(([name]) => !CLI_OPTIONS.has(name)));
+}
+
+/**
+ * Text from flags and CSV cells typed by the calculator's input fields. Empty cells are left
+ * out so optional inputs fall back to their defaults; fields outside the form (lists and nested
+ * objects) are read as JSON.
+ */
+export function coerceInputs(calculator: IBaseCalculator, values: Record<string, unknown>): Record<string, unknown> {
+  const fields = new Map(calculator.config.inputs.map(input => [input.id, input]));
+  const inputs: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value !== 'string') {
+      inputs[key] = value;
+      continue;
+    }
+    const text = value.trim();
+    if (text === '') continue;
+
+    switch (fields.get(key)?.type) {
+      case 'number':
+        inputs[key] = Number.isNaN(Number(text)) ? text : Number(text);
+        break;
+      case 'boolean':
+        inputs[key] = /^(true|yes|1)$/i.test(text) ? true : /^(false|no|0)$/i.test(text) ? false : text;
+        break;
+      case 'select':
+      case 'text':
+        inputs[key] = text;
+        break;
+      default:
+        try {
+          inputs[key] = JSON.parse(text);
+        } catch {
+          inputs[key] = text;
+        }
+    }
+  }
+  return inputs;
+}
+
+function describeErrors(errors: ValidationResult['errors']): string {
+  return errors.map(error => `  ${error.field || '(inputs)'}: ${error.message}`).join('\n');
+}
+
+// ============================================================================
+// CSV and output formatting
+// ============================================================================
+
+/**
+ * Rows of a CSV file keyed by its header; handles quoted cells, doubled quotes and CRLF
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows.filter(cells => cells.some(value => value.trim() !== ''));
+  const keys = header.map(key => key.trim());
+  return records.map(cells => Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ''])));
+}
+
+/**
+ * Result data as dotted paths. Lists of plain values stay one cell; lists of objects are kept
+ * whole and printed as JSON.
+ */
+export function flatten(value: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, node] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (node && typeof node === 'object' && !Array.isArray(node)) {
+      Object.assign(flat, flatten(node as Record<string, unknown>, path));
+    } else {
+      flat[path] = node;
+    }
+  }
+  return flat;
+}
+
+function cellText(value: unknown, table: boolean): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) return value.join('; ');
+    return table ? `[${value.length} items]` : JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'number' && table && !Number.isInteger(value)) {
+    return String(Number(value.toPrecision(6)));
+  }
+  return String(value);
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  const escape = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return [header, ...rows].map(cells => cells.map(cell => escape(cellText(cell, false))).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Plain-text table with columns padded to their widest cell
+ */
+export function formatTable(header: string[], rows: unknown[][]): string {
+  const text = [header, ...rows.map(cells => cells.map(cell => cellText(cell, true)))];
+  const widths = header.map((_, column) => Math.max(...text.map(cells => (cells[column] ?? '').length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  return [line(text[0]), widths.map(width => '-'.repeat(width)).join('  '), ...text.slice(1).map(line)].join('\n') + '\n';
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useCalculatorTranslation, useLocaleFormatting } from '@/lib/i18n/hooks';
 import { 
@@ -10,6 +10,21 @@ import {
   ValidationResult,
   IBaseCalculator 
 } from '@/lib/calculator/BaseCalculator';
+import { machineProfileRegistry } from '@/services/machineProfileRegistry';
+import { materialRegistry } from '@/services/materialRegistry';
+import { userPreferencesService } from '@/services/userPreferencesService';
+import { calculationHistoryService } from '@/services/calculationHistoryService';
+import { calculationProvenance } from '@/services/calculationProvenance';
+import { globalWorkerManager } from '@/utils/workerManager';
+import {
+  fromUnitSystem,
+  gaugesFor,
+  gaugeToThickness,
+  thicknessToGauge,
+  toUnitSystem,
+  unitFor,
+  type UnitSystem
+} from '@/utils/units';
 
 // Props interfaces for each component
 export interface BaseCalculatorProps {
@@ -17,11 +32,13 @@ export interface BaseCalculatorProps {
   initialInputs?: Record<string, any>;
   onCalculationComplete?: (result: BaseCalculationResult) => void;
   onInputChange?: (inputs: Record<string, any>) => void;
+  units?: UnitSystem; // default: the user's preferred units
 }
 
 export interface CalculatorFormProps {
   config: BaseCalculatorConfig;
-  inputs: Record<string, any>;
+  inputs: Record<string, any>; // canonical values; shown and entered in units
+  units?: UnitSystem;
   validationErrors: ValidationResult;
   isCalculating: boolean;
   onChange: (field: string, value: any) => void;
@@ -31,7 +48,8 @@ export interface CalculatorFormProps {
 
 export interface CalculatorResultsProps {
   config: BaseCalculatorConfig;
-  results: BaseCalculationResult | null;
+  results: BaseCalculationResult | null; // already converted to units
+  units?: UnitSystem;
   isCalculating: boolean;
 }
 
@@ -53,16 +71,30 @@ export interface CalculatorHelpProps {
 
 /**
  * Main Calculator Container Component
- * Manages state and orchestrates all calculator components
+ * Manages state and orchestrates all calculator components. Inputs, results and history
+ * are kept in canonical units; the form and results show them in the user's units.
  */
 export function BaseCalculatorContainer({ 
   calculator, 
   initialInputs,
   onCalculationComplete,
-  onInputChange 
+  onInputChange,
+  units: unitsOverride
 }: BaseCalculatorProps) {
   const { t } = useTranslation('common');
   const calculatorT = useCalculatorTranslation(calculator.config.id);
+  const [preferredUnits, setPreferredUnits] = useState<UnitSystem>(
+    () => userPreferencesService.getPreferences().defaultUnits
+  );
+  const units = unitsOverride ?? preferredUnits;
+
+  useEffect(() => userPreferencesService.subscribe(preferences => {
+    setPreferredUnits(preferences.defaultUnits);
+  }), []);
+
+  // Heavy runs go to a calculation worker; leaving the page or recalculating cancels them
+  const calculationRef = useRef<AbortController | null>(null);
+  useEffect(() => () => calculationRef.current?.abort(), []);
   
   // Calculator state
   const [state, setState] = useState<BaseCalculatorState>({
@@ -95,11 +127,16 @@ export function BaseCalculatorContainer({
       return;
     }
 
+    calculationRef.current?.abort();
+    const controller = new AbortController();
+    calculationRef.current = controller;
     setState(prev => ({ ...prev, isCalculating: true }));
 
     try {
       const startTime = performance.now();
-      const result = await calculator.calculate(state.inputs);
+      const result = await globalWorkerManager.calculate(calculator, calculator.resolveInputs(state.inputs), {
+        signal: controller.signal
+      });
       const endTime = performance.now();
       
       // Update calculation time in metadata
@@ -119,9 +156,24 @@ export function BaseCalculatorContainer({
         ]
       }));
       
+      // Saved with its provenance, so it can later be re-run against newer versions
+      if (result.success) {
+        calculationHistoryService.saveCalculation(
+          calculator.config.id,
+          calculator.config.title,
+          state.inputs,
+          result.data ?? {},
+          undefined,
+          { provenance: calculationProvenance.capture(calculator, result) }
+        ).catch(error => console.warn('Failed to save calculation to history:', error));
+      }
+
       onCalculationComplete?.(result);
       
     } catch (error) {
+      // Superseded by a newer run or the page was left
+      if (controller.signal.aborted) return;
+
       const errorResult: BaseCalculationResult = {
         success: false,
         error: error instanceof Error ? error.message : 'Calculation failed',
@@ -215,6 +267,7 @@ export function BaseCalculatorContainer({
           <CalculatorForm
             config={calculator.config}
             inputs={state.inputs}
+            units={units}
             validationErrors={state.validationErrors}
             isCalculating={state.isCalculating}
             onChange={handleInputChange}
@@ -227,7 +280,8 @@ export function BaseCalculatorContainer({
         <div className="calculator-results">
           <CalculatorResults
             config={calculator.config}
-            results={state.results}
+            results={state.results && calculator.toDisplayResult(state.results, units)}
+            units={units}
             isCalculating={state.isCalculating}
           />
         </div>
@@ -268,6 +322,7 @@ export function BaseCalculatorContainer({
 export function CalculatorForm({
   config,
   inputs,
+  units = 'metric',
   validationErrors,
   isCalculating,
   onChange,
@@ -277,6 +332,22 @@ export function CalculatorForm({
   const { t } = useTranslation('common');
   const calculatorT = useCalculatorTranslation(config.id);
 
+  // Canonical values to and from the units shown in the form
+  const shown = (value: number | undefined, unit?: string) =>
+    value !== undefined && unit ? toUnitSystem(value, unit, units) : value;
+  const entered = (value: number, unit?: string) => unit ? fromUnitSystem(value, unit, units) : value;
+
+  // Imperial sheet thickness can also be picked by gauge
+  const family = typeof inputs.materialType === 'string' ? materialRegistry.familyOf(inputs.materialType) : undefined;
+  const gauges = units === 'imperial' && family ? gaugesFor(family) : [];
+
+  // A selected machine's values are what gets calculated, so show them; fields the
+  // machine always sets cannot be edited
+  const machine = typeof inputs.machineId === 'string' ? machineProfileRegistry.find(inputs.machineId) : undefined;
+  const fieldIds = config.inputs.map(input => input.id);
+  const values = machine ? machineProfileRegistry.fillInputs(machine.id, inputs, fieldIds) : inputs;
+  const supplied = machine ? machineProfileRegistry.suppliedFields(fieldIds) : [];
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
       <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
@@ -284,6 +355,36 @@ export function CalculatorForm({
       </h2>
       
       <form className="space-y-4" onSubmit={(e) => { e.preventDefault(); onCalculate(); }}>
+        <div className="form-field">
+          <label
+            htmlFor="machineId"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            {t('calculator.form.machine')}
+          </label>
+          <select
+            id="machineId"
+            value={inputs.machineId || ''}
+            onChange={(e) => onChange('machineId', e.target.value || undefined)}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          >
+            <option value="">{t('calculator.form.no_machine')}</option>
+            {machineProfileRegistry.list().map((machine) => (
+              <option key={machine.id} value={machine.id}>
+                {machine.name}
+              </option>
+            ))}
+          </select>
+          {validationErrors.errors
+            .filter(error => error.field === 'machineId')
+            .map((error, index) => (
+              <p key={index} className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {error.message}
+              </p>
+            ))
+          }
+        </div>
+
         {config.inputs.map((input) => (
           <div key={input.id} className="form-field">
             <label 
@@ -299,11 +400,12 @@ export function CalculatorForm({
                 <input
                   type="number"
                   id={input.id}
-                  value={inputs[input.id] || ''}
-                  onChange={(e) => onChange(input.id, parseFloat(e.target.value) || 0)}
-                  min={input.min}
-                  max={input.max}
-                  step={input.step}
+                  value={shown(values[input.id], input.unit) || ''}
+                  onChange={(e) => onChange(input.id, entered(parseFloat(e.target.value) || 0, input.unit))}
+                  disabled={supplied.includes(input.id)}
+                  min={shown(input.min, input.unit)}
+                  max={shown(input.max, input.unit)}
+                  step={units === 'metric' ? input.step : 'any'}
                   placeholder={calculatorT.getInputPlaceholder(input.id)}
                   className={`
                     block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
@@ -311,32 +413,49 @@ export function CalculatorForm({
                       ? 'border-red-300 text-red-900 placeholder-red-300'
                       : 'border-gray-300 dark:border-gray-600'
                     }
-                    dark:bg-gray-700 dark:text-white
+                    dark:bg-gray-700 dark:text-white disabled:opacity-60
                   `}
                   aria-describedby={`${input.id}-help`}
                 />
                 {input.unit && (
                   <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
                     <span className="text-gray-500 dark:text-gray-400 text-sm">
-                      {input.unit}
+                      {unitFor(input.unit, units)}
                     </span>
                   </div>
                 )}
               </div>
             )}
+
+            {input.id === 'thickness' && family && gauges.length > 0 && (
+              <select
+                aria-label={t('calculator.form.gauge')}
+                value={thicknessToGauge(inputs.thickness, family) ?? ''}
+                onChange={(e) => e.target.value && onChange('thickness', gaugeToThickness(Number(e.target.value), family))}
+                className="mt-2 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">{t('calculator.form.gauge')}</option>
+                {gauges.map(({ gauge, thickness }) => (
+                  <option key={gauge} value={gauge}>
+                    {gauge} ga ({toUnitSystem(thickness, 'mm', 'imperial').toFixed(4)} in)
+                  </option>
+                ))}
+              </select>
+            )}
             
             {input.type === 'select' && (
               <select
                 id={input.id}
-                value={inputs[input.id] || ''}
+                value={values[input.id] || ''}
                 onChange={(e) => onChange(input.id, e.target.value)}
+                disabled={supplied.includes(input.id)}
                 className={`
                   block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
                   ${validationErrors.errors.some(e => e.field === input.id)
                     ? 'border-red-300'
                     : 'border-gray-300 dark:border-gray-600'
                   }
-                  dark:bg-gray-700 dark:text-white
+                  dark:bg-gray-700 dark:text-white disabled:opacity-60
                 `}
                 aria-describedby={`${input.id}-help`}
               >
@@ -351,7 +470,9 @@ export function CalculatorForm({
             
             {/* Help text */}
             <p id={`${input.id}-help`} className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-              {calculatorT.getInputHelp(input.id)}
+              {machine && supplied.includes(input.id)
+                ? t('calculator.form.set_by_machine', { machine: machine.name })
+                : calculatorT.getInputHelp(input.id)}
             </p>
             
             {/* Validation errors */}
@@ -408,6 +529,7 @@ export function CalculatorForm({
 export function CalculatorResults({
   config,
   results,
+  units = 'metric',
   isCalculating
 }: CalculatorResultsProps) {
   const { t } = useTranslation('common');
@@ -494,7 +616,7 @@ export function CalculatorResults({
                 </span>
                 <span className="text-sm font-bold text-gray-900 dark:text-white">
                   {typeof value === 'number'
-                    ? formatCalculationResult(value, '', 2)
+                    ? formatCalculationResult(value, config.resultUnits?.[key] ? unitFor(config.resultUnits[key], units) : '', 2)
                     : String(value)
                   }
                 </span>
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { SheetCaustic } from '@/services/gaussianBeamModel';
+
+interface BeamCausticChartProps {
+  caustic: SheetCaustic;
+  title?: string;
+  className?: string;
+}
+
+const microns = (mm: number) => Math.round(mm * 1000);
+
+/**
+ * Beam envelope (± radius) against depth below the surface, with the sheet shaded and the
+ * waist marked
+ */
+export function BeamCausticChart({ caustic, title = 'Beam Caustic', className = '' }: BeamCausticChartProps) {
+  const data = caustic.points.map(point => ({
+    depth: Math.round(point.depth * 100) / 100,
+    upper: microns(point.diameter / 2),
+    lower: -microns(point.diameter / 2)
+  }));
+  const waistDepth = -caustic.focusPosition;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+      <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Spot {microns(caustic.topDiameter)} μm at the top, {microns(caustic.bottomDiameter)} μm at the bottom,{' '}
+        {microns(caustic.meanDiameter)} μm on average ·{' '}
+        {caustic.withinDepthOfFocus ? 'sheet within the depth of focus' : 'sheet deeper than the depth of focus'}
+      </p>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="depth"
+            domain={['dataMin', 'dataMax']}
+            label={{ value: 'Depth below surface (mm)', position: 'insideBottom', offset: -2 }}
+          />
+          <YAxis label={{ value: 'Radius (μm)', angle: -90, position: 'insideLeft' }} />
+          <Tooltip />
+          <ReferenceArea x1={0} x2={caustic.thickness} fill="#9ca3af" fillOpacity={0.25} />
+          <ReferenceLine x={waistDepth} stroke="#f97316" strokeDasharray="4 4" label="Focus" />
+          <Line type="monotone" dataKey="upper" name="+ radius" stroke="#3b82f6" dot={false} />
+          <Line type="monotone" dataKey="lower" name="- radius" stroke="#3b82f6" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default BeamCausticChart;
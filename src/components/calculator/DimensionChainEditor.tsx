@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface DimensionChainLink {
+  id: string;
+  nominal: number;
+  plusTolerance: number;
+  minusTolerance: number;
+  direction: 'increasing' | 'decreasing';
+  distribution: 'normal' | 'uniform' | 'triangular';
+  source: 'laser_cut' | 'bent' | 'machined';
+}
+
+interface DimensionChainEditorProps {
+  initialChain?: DimensionChainLink[];
+  onApply: (chain: DimensionChainLink[]) => void;
+  className?: string;
+}
+
+const NEW_LINK: Omit<DimensionChainLink, 'id'> = {
+  nominal: 10,
+  plusTolerance: 0.1,
+  minusTolerance: 0.1,
+  direction: 'increasing',
+  distribution: 'normal',
+  source: 'laser_cut'
+};
+
+const cellClass = 'w-full rounded border border-gray-300 px-2 py-1 text-sm dark:bg-gray-700 dark:text-gray-200';
+
+/**
+ * Table of the links from the datum to the closing dimension; applying it hands the chain
+ * to the calculator
+ */
+export function DimensionChainEditor({ initialChain = [], onApply, className = '' }: DimensionChainEditorProps) {
+  const [chain, setChain] = useState<DimensionChainLink[]>(initialChain);
+
+  const update = (index: number, changes: Partial<DimensionChainLink>) => {
+    setChain(links => links.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+  };
+
+  const addLink = () => {
+    setChain(links => [...links, { ...NEW_LINK, id: `L${links.length + 1}` }]);
+  };
+
+  const number = (index: number, field: 'nominal' | 'plusTolerance' | 'minusTolerance', step: number) => (
+    <input
+      type="number"
+      step={step}
+      min={field === 'nominal' ? undefined : 0}
+      value={chain[index][field]}
+      onChange={event => update(index, { [field]: Number(event.target.value) })}
+      className={cellClass}
+    />
+  );
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Dimension Chain</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Links that add to or subtract from the closing dimension
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            type="button"
+            onClick={addLink}
+            className="flex items-center gap-1 rounded border border-gray-300 px-2 py-1 text-gray-700 dark:text-gray-200"
+          >
+            <Plus className="h-4 w-4" /> Link
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(chain)}
+            className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+          >
+            Apply chain
+          </button>
+        </div>
+      </div>
+
+      {chain.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          No links yet - the calculator estimates the stack from the feature count.
+        </p>
+      ) : (
+        <table className="w-full text-left text-sm text-gray-700 dark:text-gray-200">
+          <thead>
+            <tr>
+              <th className="pb-1">Link</th>
+              <th className="pb-1">Nominal (mm)</th>
+              <th className="pb-1">+ Tol</th>
+              <th className="pb-1">- Tol</th>
+              <th className="pb-1">Direction</th>
+              <th className="pb-1">Distribution</th>
+              <th className="pb-1">Source</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {chain.map((link, index) => (
+              <tr key={index}>
+                <td className="pr-1 py-1">
+                  <input value={link.id} onChange={event => update(index, { id: event.target.value })} className={cellClass} />
+                </td>
+                <td className="pr-1 py-1">{number(index, 'nominal', 0.1)}</td>
+                <td className="pr-1 py-1">{number(index, 'plusTolerance', 0.01)}</td>
+                <td className="pr-1 py-1">{number(index, 'minusTolerance', 0.01)}</td>
+                <td className="pr-1 py-1">
+                  <select
+                    value={link.direction}
+                    onChange={event => update(index, { direction: event.target.value as DimensionChainLink['direction'] })}
+                    className={cellClass}
+                  >
+                    <option value="increasing">+ Adds</option>
+                    <option value="decreasing">- Subtracts</option>
+                  </select>
+                </td>
+                <td className="pr-1 py-1">
+                  <select
+                    value={link.distribution}
+                    onChange={event => update(index, { distribution: event.target.value as DimensionChainLink['distribution'] })}
+                    className={cellClass}
+                  >
+                    <option value="normal">Normal</option>
+                    <option value="uniform">Uniform</option>
+                    <option value="triangular">Triangular</option>
+                  </select>
+                </td>
+                <td className="pr-1 py-1">
+                  <select
+                    value={link.source}
+                    onChange={event => update(index, { source: event.target.value as DimensionChainLink['source'] })}
+                    className={cellClass}
+                  >
+                    <option value="laser_cut">Laser-cut</option>
+                    <option value="bent">Bent</option>
+                    <option value="machined">Machined</option>
+                  </select>
+                </td>
+                <td className="py-1">
+                  <button
+                    type="button"
+                    aria-label={`Remove ${link.id}`}
+                    onClick={() => setChain(links => links.filter((_, i) => i !== index))}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default DimensionChainEditor;
@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Upload, AlertTriangle } from 'lucide-react';
+import { dxfImporter } from '@/services/dxfImporter';
+import { svgImporter } from '@/services/svgImporter';
+import { ContourProcessingOptions, LeadType } from '@/services/contourProcessor';
+import { FeatureSize, kerfCompensator, KerfCompensationResult } from '@/services/kerfCompensator';
+import {
+  ContourSegment,
+  geometryCalculator,
+  GeometryCalculatorPrefill,
+  GeometryShape
+} from '@/services/geometryCalculator';
+
+export interface GeometryImportResult {
+  fileName: string;
+  shapes: GeometryShape[];
+  prefill: GeometryCalculatorPrefill;
+  warnings: string[];
+  compensation?: KerfCompensationResult; // present when a kerf width was entered
+}
+
+interface ImportedDrawing {
+  fileName: string;
+  shapes: GeometryShape[];
+  openPaths: ContourSegment[][];
+  warnings: string[];
+}
+
+type CutPreparation = Pick<ContourProcessingOptions, 'leadInType' | 'leadOutType' | 'microJointSpacing'> & {
+  kerfWidth: number; // mm, 0 = cut the nominal contours
+};
+
+const DEFAULT_PREPARATION: CutPreparation = {
+  leadInType: 'line',
+  leadOutType: 'line',
+  microJointSpacing: 0,
+  kerfWidth: 0
+};
+
+const formatSize = (size: FeatureSize | null) =>
+  size ? `${size.width.toFixed(2)} × ${size.height.toFixed(2)}` : '—';
+
+interface GeometryFileImportProps {
+  onImport: (result: GeometryImportResult) => void;
+  className?: string;
+}
+
+/**
+ * Geometry File Import
+ * Reads a part drawing and reports the cutting length and pierce count it contains,
+ * including lead-ins/lead-outs, micro-joint restarts and kerf compensation
+ */
+export function GeometryFileImport({ onImport, className = '' }: GeometryFileImportProps) {
+  const [drawing, setDrawing] = useState<ImportedDrawing | null>(null);
+  const [summary, setSummary] = useState<GeometryImportResult | null>(null);
+  const [preparation, setPreparation] = useState<CutPreparation>(DEFAULT_PREPARATION);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const publish = (imported: ImportedDrawing, options: CutPreparation) => {
+    // The beam follows the compensated contours, so they are what gets measured
+    const compensation = options.kerfWidth > 0
+      ? kerfCompensator.compensate(imported.shapes, options.kerfWidth)
+      : undefined;
+    const shapes = compensation?.shapes ?? imported.shapes;
+    const result: GeometryImportResult = {
+      fileName: imported.fileName,
+      shapes,
+      prefill: geometryCalculator.getCalculatorPrefill(shapes, imported.openPaths, options),
+      warnings: [...imported.warnings, ...(compensation?.warnings ?? [])],
+      compensation
+    };
+    setSummary(result);
+    onImport(result);
+  };
+
+  // Re-run the prefill when lead or micro-joint settings change after an import
+  const updatePreparation = (changes: Partial<CutPreparation>) => {
+    const next = { ...preparation, ...changes };
+    setPreparation(next);
+    if (drawing) publish(drawing, next);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const importer = file.name.toLowerCase().endsWith('.svg') ? svgImporter : dxfImporter;
+      const imported = await importer.importFile(file);
+      if (imported.shapes.length === 0 && imported.openPaths.length === 0) {
+        throw new Error('No cuttable geometry found in the file');
+      }
+
+      const next: ImportedDrawing = {
+        fileName: file.name,
+        shapes: imported.shapes,
+        openPaths: imported.openPaths,
+        warnings: imported.warnings
+      };
+
+      setDrawing(next);
+      publish(next, preparation);
+    } catch (err) {
+      setDrawing(null);
+      setSummary(null);
+      setError(err instanceof Error ? err.message : 'Failed to import drawing');
+    } finally {
+      setIsImporting(false);
+      event.target.value = '';
+    }
+  };
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 ${className}`}>
+      <label className="flex items-center gap-2 cursor-pointer text-sm font-medium text-blue-600 dark:text-blue-400">
+        <Upload className="h-4 w-4" />
+        <span>{isImporting ? 'Importing drawing...' : 'Import part drawing (DXF, SVG)'}</span>
+        <input
+          type="file"
+          accept=".dxf,.svg"
+          className="hidden"
+          onChange={handleFileChange}
+          disabled={isImporting}
+        />
+      </label>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+        <label className="flex items-center gap-1">
+          Leads
+          <select
+            value={preparation.leadInType}
+            onChange={e => {
+              const type = e.target.value as LeadType;
+              updatePreparation({ leadInType: type, leadOutType: type });
+            }}
+            className="rounded border border-gray-300 bg-transparent px-1 py-0.5"
+          >
+            <option value="line">Line</option>
+            <option value="arc">Arc</option>
+            <option value="none">None</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Micro-joint every
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={preparation.microJointSpacing}
+            onChange={e => updatePreparation({ microJointSpacing: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-20 rounded border border-gray-300 bg-transparent px-1 py-0.5"
+          />
+          mm
+        </label>
+        <label className="flex items-center gap-1">
+          Kerf
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={preparation.kerfWidth}
+            onChange={e => updatePreparation({ kerfWidth: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-20 rounded border border-gray-300 bg-transparent px-1 py-0.5"
+          />
+          mm
+        </label>
+      </div>
+
+      {summary && (
+        <div className="mt-3 text-sm text-gray-600 dark:text-gray-300">
+          <p className="font-medium text-gray-900 dark:text-white">{summary.fileName}</p>
+          <p>
+            {summary.prefill.partCount} part(s) · {summary.prefill.cuttingLength.toFixed(1)} mm cut ·{' '}
+            {summary.prefill.pierceCount} pierces · {summary.prefill.cornerCount} corners ·{' '}
+            {summary.prefill.curveLength.toFixed(1)} mm curves
+          </p>
+          {(summary.prefill.leadLength > 0 || summary.prefill.microJointCount > 0) && (
+            <p>
+              Includes {summary.prefill.leadLength.toFixed(1)} mm of leads and{' '}
+              {summary.prefill.microJointCount} micro-joint restart(s)
+            </p>
+          )}
+          {summary.compensation && (
+            <table className="mt-2 w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="font-medium">Feature</th>
+                  <th className="font-medium">Nominal (mm)</th>
+                  <th className="font-medium">Compensated (mm)</th>
+                  <th className="font-medium">Cut length (mm)</th>
+                  <th className="font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.compensation.report.flatMap(shape =>
+                  shape.features.map(feature => (
+                    <tr
+                      key={`${shape.shapeIndex}-${feature.id}`}
+                      className={feature.status === 'ok' ? '' : 'text-yellow-700 dark:text-yellow-400'}
+                      title={feature.message}
+                    >
+                      <td>{shape.name} {feature.id}</td>
+                      <td>{formatSize(feature.nominal)}</td>
+                      <td>{formatSize(feature.compensated)}</td>
+                      <td>
+                        {feature.nominal.length.toFixed(1)} → {feature.compensated?.length.toFixed(1) ?? '—'}
+                      </td>
+                      <td>{feature.status}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          )}
+          {summary.warnings.map((warning, index) => (
+            <p key={index} className="text-yellow-700 dark:text-yellow-400">{warning}</p>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 flex items-center gap-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default GeometryFileImport;
@@ -0,0 +1,140 @@
+'use client';
+
+import React from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ErrorBar,
+  LabelList,
+  Legend,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Download } from 'lucide-react';
+import { globalSensitivityAnalyzer, GlobalSensitivityResult } from '@/services/globalSensitivityAnalyzer';
+
+interface GlobalSensitivityChartProps {
+  result: GlobalSensitivityResult;
+  title?: string;
+  className?: string;
+}
+
+const downloadFile = (content: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(content);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Sobol indices as paired bars with 95% intervals, or Morris effects as a μ*-σ scatter
+ * (parameters to the right matter, parameters high up act non-linearly or through
+ * interactions), with CSV and JSON export
+ */
+export function GlobalSensitivityChart({ result, title = 'Global Sensitivity', className = '' }: GlobalSensitivityChartProps) {
+  const fileName = `sensitivity-${result.method}-${new Date().toISOString().split('T')[0]}`;
+
+  const exportCsv = () => {
+    downloadFile(new Blob([globalSensitivityAnalyzer.toCsv(result)], { type: 'text/csv' }), `${fileName}.csv`);
+  };
+
+  const exportJson = () => {
+    downloadFile(new Blob([globalSensitivityAnalyzer.toJson(result)], { type: 'application/json' }), `${fileName}.json`);
+  };
+
+  const sobolData = result.sobol?.map(index => ({
+    parameter: index.parameter,
+    firstOrder: round(index.firstOrder),
+    totalOrder: round(index.totalOrder),
+    firstOrderError: round(index.firstOrderConfidence),
+    totalOrderError: round(index.totalOrderConfidence)
+  }));
+
+  const morrisData = result.morris?.map(effect => ({
+    parameter: effect.parameter,
+    muStar: round(effect.muStar),
+    sigma: round(effect.sigma)
+  }));
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {result.method === 'sobol' ? 'Sobol indices' : 'Morris screening'}
+            {result.output ? ` of ${result.output}` : ''} · {result.evaluations.toLocaleString()} evaluations
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            type="button"
+            onClick={exportCsv}
+            className="flex items-center gap-1 rounded border border-gray-300 px-2 py-1 text-gray-700 dark:text-gray-200"
+          >
+            <Download className="h-4 w-4" /> CSV
+          </button>
+          <button
+            type="button"
+            onClick={exportJson}
+            className="flex items-center gap-1 rounded border border-gray-300 px-2 py-1 text-gray-700 dark:text-gray-200"
+          >
+            <Download className="h-4 w-4" /> JSON
+          </button>
+        </div>
+      </div>
+
+      {sobolData && (
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={sobolData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="parameter" />
+            <YAxis domain={[0, 1]} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="firstOrder" name="First order" fill="#3b82f6">
+              <ErrorBar dataKey="firstOrderError" width={4} stroke="#1e3a8a" />
+            </Bar>
+            <Bar dataKey="totalOrder" name="Total order" fill="#f97316">
+              <ErrorBar dataKey="totalOrderError" width={4} stroke="#7c2d12" />
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+
+      {morrisData && (
+        <ResponsiveContainer width="100%" height={300}>
+          <ScatterChart>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" dataKey="muStar" name="μ*" />
+            <YAxis type="number" dataKey="sigma" name="σ" />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter data={morrisData} fill="#3b82f6">
+              <LabelList dataKey="parameter" position="top" />
+            </Scatter>
+          </ScatterChart>
+        </ResponsiveContainer>
+      )}
+
+      {result.interactionShare !== undefined && (
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+          Interactions account for {(result.interactionShare * 100).toFixed(0)}% of the output variance.
+        </p>
+      )}
+      <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+        Most influential: {result.ranking.join(' › ')}
+      </p>
+    </div>
+  );
+}
+
+export default GlobalSensitivityChart;
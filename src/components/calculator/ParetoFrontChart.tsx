@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  CartesianGrid,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+
+type Objective = 'cost' | 'time' | 'quality' | 'energy';
+
+export interface ParetoPoint {
+  parameters: {
+    power: number;
+    speed: number;
+    gasPressure: number;
+    focusHeight: number;
+  };
+  objectives: Record<Objective, number>;
+}
+
+interface ParetoFrontChartProps {
+  front: ParetoPoint[];
+  objectives?: string[];
+  onSelect?: (point: ParetoPoint) => void;
+  title?: string;
+  className?: string;
+}
+
+const OBJECTIVE_LABELS: Record<Objective, string> = {
+  cost: 'Cost (USD)',
+  time: 'Time (min)',
+  quality: 'Quality (0-100)',
+  energy: 'Energy (kWh)'
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Pareto front as a scatter of any two objectives; clicking a point picks that solution
+ * and shows its parameters
+ */
+export function ParetoFrontChart({
+  front,
+  objectives = ['cost', 'quality'],
+  onSelect,
+  title = 'Pareto Front',
+  className = ''
+}: ParetoFrontChartProps) {
+  const axes = objectives.filter((objective): objective is Objective => objective in OBJECTIVE_LABELS);
+  const [xAxis, setXAxis] = useState<Objective>(axes[0] ?? 'cost');
+  const [yAxis, setYAxis] = useState<Objective>(axes[1] ?? axes[0] ?? 'quality');
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const data = front.map((point, index) => ({ index, x: round(point.objectives[xAxis]), y: round(point.objectives[yAxis]) }));
+  const chosen = selected !== null ? front[selected] : null;
+
+  const pick = (index: number) => {
+    setSelected(index);
+    onSelect?.(front[index]);
+  };
+
+  const axisSelect = (value: Objective, onChange: (objective: Objective) => void) => (
+    <select
+      value={value}
+      onChange={event => onChange(event.target.value as Objective)}
+      className="rounded border border-gray-300 px-2 py-1 text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+    >
+      {(Object.keys(OBJECTIVE_LABELS) as Objective[]).map(objective => (
+        <option key={objective} value={objective}>{OBJECTIVE_LABELS[objective]}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {front.length} non-dominated solutions · click a point to pick it
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          {axisSelect(xAxis, setXAxis)}
+          <span className="text-gray-500">vs</span>
+          {axisSelect(yAxis, setYAxis)}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="x" name={OBJECTIVE_LABELS[xAxis]} domain={['auto', 'auto']} />
+          <YAxis type="number" dataKey="y" name={OBJECTIVE_LABELS[yAxis]} domain={['auto', 'auto']} />
+          <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+          <Scatter
+            data={data}
+            fill="#3b82f6"
+            onClick={(entry: { index?: number }) => entry.index !== undefined && pick(entry.index)}
+          />
+          {selected !== null && <Scatter data={data.filter(point => point.index === selected)} fill="#f97316" />}
+        </ScatterChart>
+      </ResponsiveContainer>
+
+      {chosen && (
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <div>Power: {Math.round(chosen.parameters.power)} W</div>
+          <div>Speed: {Math.round(chosen.parameters.speed)} mm/min</div>
+          <div>Gas pressure: {chosen.parameters.gasPressure.toFixed(1)} bar</div>
+          <div>Focus: {chosen.parameters.focusHeight.toFixed(1)} mm</div>
+          {(Object.keys(OBJECTIVE_LABELS) as Objective[]).map(objective => (
+            <div key={objective}>{OBJECTIVE_LABELS[objective]}: {round(chosen.objectives[objective])}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ParetoFrontChart;
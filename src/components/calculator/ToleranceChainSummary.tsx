@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import type { ChainAnalysis } from '@/services/toleranceChainAnalyzer';
+
+interface ToleranceChainSummaryProps {
+  analysis: ChainAnalysis;
+  className?: string;
+}
+
+const mm = (value: number) => value.toFixed(3);
+const percent = (value: number) => `${value.toFixed(2)}%`;
+
+/**
+ * The three stack-up methods side by side, and each link's share of the variation
+ */
+export function ToleranceChainSummary({ analysis, className = '' }: ToleranceChainSummaryProps) {
+  const methods = [
+    {
+      name: 'Worst case',
+      range: `${mm(analysis.worstCase.min)} - ${mm(analysis.worstCase.max)}`,
+      outOfSpec: analysis.worstCase.withinSpec ? 'Always in spec' : 'Can leave spec'
+    },
+    {
+      name: 'RSS (±3σ)',
+      range: `${mm(analysis.rss.min)} - ${mm(analysis.rss.max)}`,
+      outOfSpec: percent(analysis.rss.outOfSpecPercent)
+    },
+    {
+      name: `Monte Carlo (${analysis.monteCarlo.samples.toLocaleString()})`,
+      range: `${mm(analysis.monteCarlo.percentiles['P0.135'])} - ${mm(analysis.monteCarlo.percentiles['P99.865'])}`,
+      outOfSpec: percent(analysis.monteCarlo.outOfSpecPercent)
+    }
+  ];
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Closing Dimension</h3>
+      <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Nominal {mm(analysis.nominal)} mm · limits {mm(analysis.specification.lower)} - {mm(analysis.specification.upper)} mm
+      </p>
+
+      <table className="mb-4 w-full text-left text-sm text-gray-700 dark:text-gray-200">
+        <thead>
+          <tr>
+            <th className="pb-1">Method</th>
+            <th className="pb-1">Range (mm)</th>
+            <th className="pb-1">Out of spec</th>
+          </tr>
+        </thead>
+        <tbody>
+          {methods.map(method => (
+            <tr key={method.name}>
+              <td className="py-1">{method.name}</td>
+              <td className="py-1">{method.range}</td>
+              <td className="py-1">{method.outOfSpec}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-1">
+        {analysis.contributions.map(contribution => (
+          <div key={contribution.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+            <span className="w-24 truncate">{contribution.id}</span>
+            <div className="h-3 flex-1 rounded bg-gray-100 dark:bg-gray-700">
+              <div
+                className={`h-3 rounded ${contribution.id === analysis.largestContributor ? 'bg-orange-500' : 'bg-blue-500'}`}
+                style={{ width: `${contribution.varianceShare * 100}%` }}
+              />
+            </div>
+            <span className="w-12 text-right">{Math.round(contribution.varianceShare * 100)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ToleranceChainSummary;
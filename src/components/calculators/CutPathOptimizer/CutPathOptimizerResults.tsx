@@ -41,6 +41,14 @@ interface CutPathOptimizerResultsProps {
       numberOfPierces: number;
       coolingBreaks: number;
     };
+    sequenceComparison: {
+      before: { rapidDistance: number; rapidTime: number; totalTime: number };
+      after: { rapidDistance: number; rapidTime: number; totalTime: number };
+      distanceSaved: number;
+      timeSaved: number;
+      improvementPercent: number;
+      precedenceRules: number;
+    };
     thermalAnalysis: {
       peakThermalLoad: number;
       thermalDistortionRisk: 'low' | 'medium' | 'high';
@@ -267,6 +275,40 @@ const CutPathOptimizerResults: React.FC<CutPathOptimizerResultsProps> = ({ resul
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <TrendingUp className="h-5 w-5" />
+                <span>Sequence Improvement</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div></div>
+                <div className="text-muted-foreground">As Listed</div>
+                <div className="text-muted-foreground">Optimized</div>
+                <div className="text-muted-foreground">Rapid Distance</div>
+                <div className="font-medium">{results.sequenceComparison.before.rapidDistance.toFixed(0)} mm</div>
+                <div className="font-medium">{results.sequenceComparison.after.rapidDistance.toFixed(0)} mm</div>
+                <div className="text-muted-foreground">Rapid Time</div>
+                <div className="font-medium">{results.sequenceComparison.before.rapidTime.toFixed(2)} min</div>
+                <div className="font-medium">{results.sequenceComparison.after.rapidTime.toFixed(2)} min</div>
+                <div className="text-muted-foreground">Total Time</div>
+                <div className="font-medium">{formatTime(results.sequenceComparison.before.totalTime)}</div>
+                <div className="font-medium">{formatTime(results.sequenceComparison.after.totalTime)}</div>
+              </div>
+              <div className="mt-4 text-sm">
+                <Badge className="bg-green-100 text-green-800">
+                  {results.sequenceComparison.improvementPercent.toFixed(1)}% less rapid travel
+                </Badge>
+                <span className="ml-2 text-muted-foreground">
+                  {results.sequenceComparison.distanceSaved.toFixed(0)} mm saved,{' '}
+                  {results.sequenceComparison.precedenceRules} ordering rules enforced
+                </span>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="thermal" className="space-y-4">
@@ -9,89 +9,19 @@ import CutPathOptimizerExportTools from './CutPathOptimizerExportTools';
 import CutPathOptimizerRelatedTools from './CutPathOptimizerRelatedTools';
 import CutPathOptimizerEducationalContent from './CutPathOptimizerEducationalContent';
 import CutPathOptimizerFAQ from './CutPathOptimizerFAQ';
-// import { cutPathOptimizer } from '../../../services/calculators/cutPathOptimizer';
+import { cutPathOptimizer, CutPathInputs, CutPathResults } from '../../../services/calculators/cutPathOptimizer';
 
 const CutPathOptimizerComponent: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<CutPathResults | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleCalculate = async (inputs: any) => {
+  const handleCalculate = async (inputs: CutPathInputs) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      // Validate inputs
-      if (inputs.sheetDimensions.length <= 0 || inputs.sheetDimensions.width <= 0) {
-        throw new Error('Sheet dimensions must be greater than 0');
-      }
-      
-      if (inputs.cutFeatures.length === 0) {
-        throw new Error('At least one cut feature must be defined');
-      }
-
-      if (inputs.cuttingParameters.cuttingSpeed <= 0) {
-        throw new Error('Cutting speed must be greater than 0');
-      }
-
-      if (inputs.cuttingParameters.rapidSpeed <= 0) {
-        throw new Error('Rapid speed must be greater than 0');
-      }
-
-      // Calculate cut path optimization - temporarily using mock data
-      const calculationResults = {
-        optimizedPath: generateOptimizedPath(inputs),
-        pathSummary: calculatePathSummary(inputs),
-        thermalAnalysis: calculateThermalAnalysis(inputs),
-        qualityPrediction: calculateQualityPrediction(inputs),
-        efficiencyMetrics: calculateEfficiencyMetrics(inputs),
-        alternativeStrategies: generateAlternativeStrategies(inputs),
-        optimizationRecommendations: {
-          pathImprovements: [
-            'Optimize travel paths using shortest distance algorithms',
-            'Group nearby features to minimize travel time',
-            'Consider common line cutting for adjacent parts',
-            'Implement dynamic path adjustment for thermal management'
-          ],
-          parameterAdjustments: [
-            'Adjust cutting speed based on thermal load',
-            'Optimize pierce parameters for different feature types',
-            'Fine-tune lead-in/lead-out lengths for quality',
-            'Balance rapid speed with positioning accuracy'
-          ],
-          sequenceOptimizations: [
-            'Prioritize external cuts before internal features',
-            'Sequence cuts to minimize thermal buildup',
-            'Plan cooling breaks strategically',
-            'Consider part release sequence for stress relief'
-          ],
-          qualityEnhancements: [
-            'Implement adaptive speed control for corners',
-            'Use optimized pierce strategies for different materials',
-            'Monitor and adjust for thermal drift',
-            'Apply quality-based path modifications'
-          ]
-        },
-        riskMitigation: {
-          thermalRisks: [
-            { risk: 'Excessive heat buildup in dense cutting areas', mitigation: 'Implement cooling breaks and sequence optimization', priority: 'high' as 'low' | 'medium' | 'high' },
-            { risk: 'Thermal distortion in thin materials', mitigation: 'Use lower power settings and faster speeds', priority: 'medium' as 'low' | 'medium' | 'high' },
-            { risk: 'Heat affected zone expansion', mitigation: 'Monitor thermal load and adjust parameters', priority: 'medium' as 'low' | 'medium' | 'high' }
-          ],
-          qualityRisks: [
-            { risk: 'Dimensional accuracy degradation', mitigation: 'Implement thermal compensation algorithms', priority: 'high' as 'low' | 'medium' | 'high' },
-            { risk: 'Surface finish inconsistency', mitigation: 'Maintain consistent cutting parameters', priority: 'medium' as 'low' | 'medium' | 'high' },
-            { risk: 'Edge quality variation', mitigation: 'Optimize gas flow and cutting speed', priority: 'medium' as 'low' | 'medium' | 'high' }
-          ],
-          productionRisks: [
-            { risk: 'Extended processing time', mitigation: 'Balance quality requirements with speed', priority: 'low' as 'low' | 'medium' | 'high' },
-            { risk: 'Machine wear from excessive travel', mitigation: 'Optimize path efficiency and maintenance schedule', priority: 'low' as 'low' | 'medium' | 'high' },
-            { risk: 'Material waste from poor nesting', mitigation: 'Implement advanced nesting algorithms', priority: 'medium' as 'low' | 'medium' | 'high' }
-          ]
-        }
-      };
-      
-      setResults(calculationResults);
+      setResults(cutPathOptimizer.calculate(inputs));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during calculation');
     } finally {
@@ -99,245 +29,6 @@ const CutPathOptimizerComponent: React.FC = () => {
     }
   };
 
-  // Helper functions for calculations
-  const generateOptimizedPath = (inputs: any) => {
-    const path = [];
-    let currentTime = 0;
-    
-    // Sort features by priority and optimization goals
-    const sortedFeatures = inputs.cutFeatures
-      .map((feature: any, index: number) => ({
-        ...feature,
-        priorityScore: calculatePriorityScore(feature, inputs)
-      }))
-      .sort((a: any, b: any) => b.priorityScore - a.priorityScore);
-
-    sortedFeatures.forEach((feature: any, index: number) => {
-      const travelTime = calculateTravelTime(feature, inputs);
-      const cuttingTime = feature.length / inputs.cuttingParameters.cuttingSpeed;
-      const pierceTime = inputs.cuttingParameters.pierceTime / 60; // Convert to minutes
-      const totalTime = travelTime + cuttingTime + pierceTime;
-      const thermalLoad = calculateThermalLoad(feature, inputs, index);
-      const qualityRisk = assessQualityRisk(feature, thermalLoad);
-
-      path.push({
-        sequenceNumber: index + 1,
-        featureId: feature.id,
-        featureType: feature.type,
-        startTime: currentTime,
-        cuttingTime: Math.round(cuttingTime * 100) / 100,
-        travelTime: Math.round(travelTime * 100) / 100,
-        pierceTime: Math.round(pierceTime * 100) / 100,
-        totalTime: Math.round(totalTime * 100) / 100,
-        thermalLoad: Math.round(thermalLoad * 10) / 10,
-        qualityRisk
-      });
-
-      currentTime += totalTime;
-    });
-
-    return path;
-  };
-
-  const calculatePriorityScore = (feature: any, inputs: any): number => {
-    const priorityWeights = { 'critical': 10, 'high': 8, 'medium': 5, 'low': 2 };
-    const complexityWeights = { 'complex': 1.3, 'moderate': 1.1, 'simple': 1.0 };
-    
-    let score = priorityWeights[feature.priority] || 5;
-    score *= complexityWeights[feature.complexity] || 1.0;
-    
-    if (feature.thermalSensitive) score *= 1.2;
-    if (feature.requiresPrecision) score *= 1.1;
-    
-    // Apply optimization goals
-    score *= (inputs.optimizationGoals.maximizeQuality / 100) + 0.5;
-    
-    return score;
-  };
-
-  const calculateTravelTime = (feature: any, inputs: any): number => {
-    // Simplified travel time calculation
-    const avgTravelDistance = Math.sqrt(inputs.sheetDimensions.length ** 2 + inputs.sheetDimensions.width ** 2) / 4;
-    return avgTravelDistance / inputs.cuttingParameters.rapidSpeed;
-  };
-
-  const calculateThermalLoad = (feature: any, inputs: any, sequenceIndex: number): number => {
-    const featureTypeWeights = { 'external': 1.0, 'internal': 1.1, 'hole': 0.8, 'slot': 1.2, 'notch': 0.9 };
-    const baseLoad = featureTypeWeights[feature.type] || 1.0;
-    
-    let thermalLoad = baseLoad * (feature.length / 100) * (inputs.materialProperties.thickness / 3);
-    
-    // Accumulate thermal load based on sequence
-    thermalLoad += sequenceIndex * 0.1;
-    
-    // Material thermal properties effect
-    thermalLoad *= (1 - inputs.materialProperties.thermalConductivity / 500);
-    
-    return Math.min(10, Math.max(1, thermalLoad));
-  };
-
-  const assessQualityRisk = (feature: any, thermalLoad: number): 'low' | 'medium' | 'high' => {
-    if (feature.requiresPrecision && thermalLoad > 7) return 'high';
-    if (feature.thermalSensitive && thermalLoad > 6) return 'high';
-    if (thermalLoad > 8) return 'high';
-    if (thermalLoad > 5) return 'medium';
-    return 'low';
-  };
-
-  const calculatePathSummary = (inputs: any) => {
-    const path = generateOptimizedPath(inputs);
-    const totalCuttingTime = path.reduce((sum, step) => sum + step.cuttingTime, 0);
-    const totalTravelTime = path.reduce((sum, step) => sum + step.travelTime, 0);
-    const totalPierceTime = path.reduce((sum, step) => sum + step.pierceTime, 0);
-    const totalProcessTime = totalCuttingTime + totalTravelTime + totalPierceTime;
-    
-    // Simplified travel distance calculation
-    const totalTravelDistance = inputs.cutFeatures.length * 150; // Average 150mm between features
-    const numberOfPierces = inputs.cutFeatures.length;
-    const coolingBreaks = Math.floor(totalProcessTime / inputs.constraints.maxContinuousCuttingTime);
-
-    return {
-      totalCuttingTime: Math.round(totalCuttingTime * 100) / 100,
-      totalTravelTime: Math.round(totalTravelTime * 100) / 100,
-      totalPierceTime: Math.round(totalPierceTime * 100) / 100,
-      totalProcessTime: Math.round(totalProcessTime * 100) / 100,
-      totalTravelDistance: Math.round(totalTravelDistance),
-      numberOfPierces,
-      coolingBreaks
-    };
-  };
-
-  const calculateThermalAnalysis = (inputs: any) => {
-    const path = generateOptimizedPath(inputs);
-    const peakThermalLoad = Math.max(...path.map(step => step.thermalLoad));
-    
-    let thermalDistortionRisk: 'low' | 'medium' | 'high' = 'low';
-    if (peakThermalLoad > 7) thermalDistortionRisk = 'high';
-    else if (peakThermalLoad > 5) thermalDistortionRisk = 'medium';
-
-    const hotSpots = inputs.cutFeatures
-      .filter((feature: any) => feature.thermalSensitive)
-      .map((feature: any) => ({
-        x: feature.startPoint.x,
-        y: feature.startPoint.y,
-        risk: Math.random() * 3 + 7 // 7-10 risk level
-      }));
-
-    return {
-      peakThermalLoad: Math.round(peakThermalLoad * 10) / 10,
-      thermalDistortionRisk,
-      hotSpots,
-      coolingStrategy: [
-        'Implement cooling breaks between high-thermal operations',
-        'Use optimized gas flow for heat dissipation',
-        'Consider water cooling for thick materials',
-        'Monitor material temperature during cutting'
-      ],
-      thermalManagement: [
-        'Monitor material temperature during cutting',
-        'Adjust cutting speed based on thermal load',
-        'Use thermal barriers for sensitive areas',
-        'Implement predictive thermal modeling'
-      ]
-    };
-  };
-
-  const calculateQualityPrediction = (inputs: any) => {
-    const path = generateOptimizedPath(inputs);
-    const avgThermalLoad = path.reduce((sum, step) => sum + step.thermalLoad, 0) / path.length;
-    const highRiskSteps = path.filter(step => step.qualityRisk === 'high').length;
-    
-    let overallQualityScore = 8; // Base score
-    overallQualityScore -= avgThermalLoad * 0.3; // Thermal penalty
-    overallQualityScore -= highRiskSteps * 0.5; // Risk penalty
-    overallQualityScore = Math.max(1, Math.min(10, overallQualityScore));
-
-    const thermalExpansion = inputs.materialProperties.thermalExpansion * avgThermalLoad * 100;
-    const dimensionalAccuracy = inputs.qualityRequirements.dimensionalTolerance + thermalExpansion;
-    const surfaceFinishQuality = Math.max(1, 5 - avgThermalLoad * 0.3);
-    const edgeConsistency = Math.max(1, 5 - highRiskSteps * 0.2);
-
-    const riskAreas = path
-      .filter(step => step.qualityRisk !== 'low')
-      .map(step => ({
-        featureId: step.featureId,
-        risk: step.qualityRisk,
-        mitigation: step.qualityRisk === 'high' ? 'Reduce speed and add cooling' : 'Monitor closely'
-      }));
-
-    return {
-      overallQualityScore: Math.round(overallQualityScore * 10) / 10,
-      dimensionalAccuracy: Math.round(dimensionalAccuracy * 1000) / 1000,
-      surfaceFinishQuality: Math.round(surfaceFinishQuality * 10) / 10,
-      edgeConsistency: Math.round(edgeConsistency * 10) / 10,
-      riskAreas
-    };
-  };
-
-  const calculateEfficiencyMetrics = (inputs: any) => {
-    const pathSummary = calculatePathSummary(inputs);
-    
-    const cuttingEfficiency = (pathSummary.totalCuttingTime / pathSummary.totalProcessTime) * 100;
-    const totalCutLength = inputs.cutFeatures.reduce((sum: number, feature: any) => sum + feature.length, 0);
-    const optimalTravelDistance = Math.sqrt(inputs.sheetDimensions.length ** 2 + inputs.sheetDimensions.width ** 2);
-    const pathEfficiency = Math.min(100, (optimalTravelDistance / pathSummary.totalTravelDistance) * 100);
-    
-    const sheetArea = inputs.sheetDimensions.length * inputs.sheetDimensions.width;
-    const cutArea = totalCutLength * inputs.cuttingParameters.kerfWidth;
-    const materialUtilization = Math.min(100, (cutArea / sheetArea) * 100 * 10); // Scaled for visibility
-    
-    const energyEfficiency = cuttingEfficiency; // Simplified
-    const totalParts = new Set(inputs.cutFeatures.map((f: any) => f.partId)).size;
-    const productivityIndex = (totalParts / pathSummary.totalProcessTime) * 60; // Parts per hour
-
-    return {
-      cuttingEfficiency: Math.round(cuttingEfficiency * 10) / 10,
-      pathEfficiency: Math.round(pathEfficiency * 10) / 10,
-      materialUtilization: Math.round(materialUtilization * 10) / 10,
-      energyEfficiency: Math.round(energyEfficiency * 10) / 10,
-      productivityIndex: Math.round(productivityIndex * 10) / 10
-    };
-  };
-
-  const generateAlternativeStrategies = (inputs: any) => {
-    const baseSummary = calculatePathSummary(inputs);
-    
-    return [
-      {
-        strategyName: 'Speed Optimized',
-        totalTime: baseSummary.totalProcessTime * 0.8,
-        qualityScore: 7,
-        thermalRisk: 'high' as 'low' | 'medium' | 'high',
-        description: 'Minimize total cutting time',
-        tradeoffs: ['Higher thermal load', 'Potential quality issues', 'Increased machine wear']
-      },
-      {
-        strategyName: 'Quality Optimized',
-        totalTime: baseSummary.totalProcessTime * 1.3,
-        qualityScore: 9,
-        thermalRisk: 'low' as 'low' | 'medium' | 'high',
-        description: 'Maximize cut quality and precision',
-        tradeoffs: ['Longer processing time', 'Higher cost', 'Lower throughput']
-      },
-      {
-        strategyName: 'Thermal Managed',
-        totalTime: baseSummary.totalProcessTime * 1.1,
-        qualityScore: 8,
-        thermalRisk: 'low' as 'low' | 'medium' | 'high',
-        description: 'Minimize thermal distortion',
-        tradeoffs: ['Moderate time increase', 'Complex sequencing', 'More cooling breaks']
-      },
-      {
-        strategyName: 'Balanced',
-        totalTime: baseSummary.totalProcessTime,
-        qualityScore: 8,
-        thermalRisk: 'medium' as 'low' | 'medium' | 'high',
-        description: 'Balance all optimization factors',
-        tradeoffs: ['Compromise on all metrics', 'Good overall performance']
-      }
-    ];
-  };
-
   return (
     <>
       <CalculatorSEOHead
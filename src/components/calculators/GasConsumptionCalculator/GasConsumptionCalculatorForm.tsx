@@ -7,6 +7,7 @@ import { Label } from '../../ui/label';
 import Select from '../../ui/Select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../ui/tabs';
 import { Wind, Settings, DollarSign, BarChart3 } from 'lucide-react';
+import { GeometryFileImport, GeometryImportResult } from '../../calculator/GeometryFileImport';
 
 interface GasConsumptionCalculatorFormProps {
   onCalculate: (inputs: any) => void;
@@ -29,7 +30,6 @@ const GasConsumptionCalculatorForm: React.FC<GasConsumptionCalculatorFormProps>
 
   const [cuttingParams, setCuttingParams] = useState({
     cuttingSpeed: 3000, // mm/min
-    cuttingTime: 10, // minutes
     setupTime: 5, // minutes
     idleTime: 3 // minutes with gas flowing but not cutting
   });
@@ -47,6 +47,15 @@ const GasConsumptionCalculatorForm: React.FC<GasConsumptionCalculatorFormProps>
     optimizeForQuality: false
   });
 
+  // Prefill cutting length and piercing points from an imported drawing
+  const handleGeometryImport = (result: GeometryImportResult) => {
+    setMaterialSpecs(specs => ({
+      ...specs,
+      cuttingLength: Math.round(result.prefill.cuttingLength),
+      piercingPoints: result.prefill.pierceCount
+    }));
+  };
+
   const handleCalculate = () => {
     const inputs = {
       // Material properties
@@ -57,7 +66,7 @@ const GasConsumptionCalculatorForm: React.FC<GasConsumptionCalculatorFormProps>
       // Cutting parameters
       cuttingLength: materialSpecs.cuttingLength,
       cuttingSpeed: cuttingParams.cuttingSpeed,
-      cuttingTime: cuttingParams.cuttingTime,
+      cuttingTime: (materialSpecs.cuttingLength / cuttingParams.cuttingSpeed) * materialSpecs.quantity,
       piercingPoints: materialSpecs.piercingPoints,
       piercingCount: materialSpecs.piercingPoints, // for compatibility
       setupTime: cuttingParams.setupTime,
@@ -192,6 +201,7 @@ const GasConsumptionCalculatorForm: React.FC<GasConsumptionCalculatorFormProps>
                 </div>
               </div>
             </Card>
+            <GeometryFileImport onImport={handleGeometryImport} className="border" />
           </TabsContent>
 
           <TabsContent value="cutting" className="space-y-4">
@@ -217,17 +227,10 @@ const GasConsumptionCalculatorForm: React.FC<GasConsumptionCalculatorFormProps>
                 </div>
                 <div>
                   <Label>Cutting Time (minutes)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={cuttingParams.cuttingTime}
-                    onChange={(e) => setCuttingParams({
-                      ...cuttingParams,
-                      cuttingTime: Number(e.target.value)
-                    })}
-                    min="0.1"
-                    max="480"
-                  />
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    {((materialSpecs.cuttingLength / Math.max(1, cuttingParams.cuttingSpeed)) * materialSpecs.quantity).toFixed(1)} min
+                    for {materialSpecs.quantity} part(s), from cutting length and speed
+                  </p>
                 </div>
                 <div>
                   <Label>Setup Time (minutes)</Label>
@@ -9,11 +9,11 @@ import GasConsumptionExportTools from './GasConsumptionExportTools';
 import GasConsumptionRelatedTools from './GasConsumptionRelatedTools';
 import GasConsumptionEducationalContent from './GasConsumptionEducationalContent';
 import GasConsumptionFAQ from './GasConsumptionFAQ';
-// import { GasConsumptionCalculator } from '../../../services/calculators/gasConsumptionCalculator';
+import { gasConsumptionCalculator, GasConsumptionResults } from '../../../services/calculators/gasConsumptionCalculator';
 
 const GasConsumptionCalculatorComponent: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<GasConsumptionResults | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleCalculate = async (inputs: any) => {
@@ -21,142 +21,7 @@ const GasConsumptionCalculatorComponent: React.FC = () => {
     setError(null);
     
     try {
-      // Validate inputs
-      if (inputs.materialThickness <= 0) {
-        throw new Error('Material thickness must be greater than 0');
-      }
-      
-      if (inputs.cuttingLength <= 0) {
-        throw new Error('Cutting length must be greater than 0');
-      }
-
-      if (inputs.gasFlow <= 0) {
-        throw new Error('Gas flow rate must be greater than 0');
-      }
-
-      if (inputs.gasPressure <= 0) {
-        throw new Error('Gas pressure must be greater than 0');
-      }
-
-      if (inputs.gasPrice <= 0) {
-        throw new Error('Gas price must be greater than 0');
-      }
-
-      if (inputs.efficiency < 0.5 || inputs.efficiency > 1.0) {
-        throw new Error('Gas efficiency must be between 50% and 100%');
-      }
-
-      // Calculate gas consumption - temporarily using mock data
-      const calculationResults = {
-        totalConsumption: 2.85, // m³
-        consumptionBreakdown: {
-          cuttingConsumption: 1.95,
-          piercingConsumption: 0.45,
-          setupConsumption: 0.25,
-          idleConsumption: 0.20
-        },
-        totalCost: 42.75,
-        costBreakdown: {
-          cuttingCost: 29.25,
-          piercingCost: 6.75,
-          setupCost: 3.75,
-          idleCost: 3.00
-        },
-        efficiency: {
-          utilizationRate: 84.2,
-          wasteReduction: 12.5,
-          optimizationPotential: 18
-        },
-        unitCosts: {
-          costPerMeter: 0.0085,
-          costPerPiece: 0.855,
-          costPerHour: 256.50
-        },
-        gasProperties: {
-          gasType: inputs.gasType,
-          purity: inputs.gasType === 'oxygen' ? 99.5 : inputs.gasType === 'nitrogen' ? 99.9 : 78.0,
-          density: inputs.gasType === 'oxygen' ? 1.429 : inputs.gasType === 'nitrogen' ? 1.251 : 1.225,
-          thermalConductivity: inputs.gasType === 'oxygen' ? 0.0263 : inputs.gasType === 'nitrogen' ? 0.0259 : 0.0257,
-          suitability: inputs.gasType === 'oxygen' && inputs.materialType === 'carbon_steel' ? 'Excellent' :
-                      inputs.gasType === 'nitrogen' && inputs.materialType === 'stainless_steel' ? 'Excellent' :
-                      inputs.gasType === 'air' ? 'Good' : 'Fair'
-        },
-        alternativeGasOptions: [
-          {
-            gasType: 'Nitrogen',
-            estimatedCost: 64.12,
-            qualityImpact: 'Superior edge quality, no oxidation',
-            consumptionChange: 15,
-            recommendation: 'Consider for stainless steel or when edge quality is critical'
-          },
-          {
-            gasType: 'Compressed Air',
-            estimatedCost: 12.83,
-            qualityImpact: 'Moderate edge quality, some oxidation possible',
-            consumptionChange: -5,
-            recommendation: 'Cost-effective option for non-critical applications'
-          },
-          {
-            gasType: 'Argon',
-            estimatedCost: 106.88,
-            qualityImpact: 'Premium edge quality, ideal for exotic materials',
-            consumptionChange: 8,
-            recommendation: 'Use only for titanium or other specialty materials'
-          }
-        ],
-        optimizationRecommendations: {
-          flowOptimization: [
-            'Reduce gas flow rate by 10% to optimize consumption without affecting quality',
-            'Implement flow control system for automatic adjustment during different cutting phases',
-            'Consider variable flow rates based on material thickness'
-          ],
-          pressureOptimization: [
-            'Optimize gas pressure to 1.0 bar for current material thickness',
-            'Use pressure sensors to maintain consistent pressure throughout cutting',
-            'Adjust pressure based on nozzle diameter and cutting speed'
-          ],
-          timingOptimization: [
-            'Reduce idle time by improving job scheduling and setup procedures',
-            'Implement automatic gas shut-off during extended pauses',
-            'Optimize piercing sequence to minimize gas waste'
-          ],
-          costSavingTips: [
-            'Negotiate bulk gas pricing with suppliers',
-            'Consider on-site gas generation for high-volume operations',
-            'Implement gas recovery systems where applicable',
-            'Regular maintenance of gas delivery systems to prevent leaks'
-          ]
-        },
-        sensitivityAnalysis: {
-          flowRateImpact: [
-            { flowRate: 12, consumption: 2.28, cost: 34.20, change: '-20%' },
-            { flowRate: 15, consumption: 2.85, cost: 42.75, change: 'Base' },
-            { flowRate: 18, consumption: 3.42, cost: 51.30, change: '+20%' },
-            { flowRate: 21, consumption: 3.99, cost: 59.85, change: '+40%' }
-          ],
-          pressureImpact: [
-            { pressure: 1.0, consumption: 2.71, cost: 40.65, change: '-5%' },
-            { pressure: 1.2, consumption: 2.85, cost: 42.75, change: 'Base' },
-            { pressure: 1.4, consumption: 2.99, cost: 44.85, change: '+5%' },
-            { pressure: 1.6, consumption: 3.13, cost: 46.95, change: '+10%' }
-          ]
-        },
-        benchmarkComparison: {
-          industryAverage: {
-            consumptionPerMeter: 0.0006,
-            costPerMeter: 0.0090,
-            efficiency: 78.0
-          },
-          yourPerformance: {
-            consumptionPerMeter: 0.00057,
-            costPerMeter: 0.0085,
-            efficiency: 84.2
-          },
-          performanceRating: 'Good'
-        }
-      };
-      
-      setResults(calculationResults);
+      setResults(gasConsumptionCalculator.calculate(inputs));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during calculation');
     } finally {
@@ -41,6 +41,14 @@ const KerfWidthCalculatorForm: React.FC<KerfWidthCalculatorFormProps> = ({
     focusPosition: -1.67 // mm (relative to surface)
   });
 
+  const [beamOptics, setBeamOptics] = useState({
+    enabled: false, // derive the spot from the caustic instead of the beam diameter
+    mSquared: 1.1,
+    wavelength: 1.07, // μm
+    rawBeamDiameter: 10, // mm, on the lens
+    focalLength: 125 // mm
+  });
+
   const handleCalculate = () => {
     const inputs = {
       // Material properties
@@ -59,7 +67,15 @@ const KerfWidthCalculatorForm: React.FC<KerfWidthCalculatorFormProps> = ({
       gasPressure: gasSettings.gasPressure,
       
       // Focus settings
-      focusPosition: focusSettings.focusPosition
+      focusPosition: focusSettings.focusPosition,
+      optics: beamOptics.enabled
+        ? {
+            mSquared: beamOptics.mSquared,
+            wavelength: beamOptics.wavelength,
+            rawBeamDiameter: beamOptics.rawBeamDiameter,
+            focalLength: beamOptics.focalLength
+          }
+        : undefined
     };
     onCalculate(inputs);
   };
@@ -395,6 +411,43 @@ const KerfWidthCalculatorForm: React.FC<KerfWidthCalculatorFormProps> = ({
               </div>
             </Card>
 
+            {/* Beam Optics */}
+            <Card className="p-4">
+              <label className="flex items-center gap-2 font-semibold mb-3">
+                <input
+                  type="checkbox"
+                  checked={beamOptics.enabled}
+                  onChange={(e) => setBeamOptics({ ...beamOptics, enabled: e.target.checked })}
+                />
+                Derive spot from beam optics
+              </label>
+              {beamOptics.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {([
+                    ['mSquared', 'Beam Quality M²', 0.05, 1],
+                    ['wavelength', 'Wavelength (μm)', 0.01, 0.5],
+                    ['rawBeamDiameter', 'Raw Beam Diameter (mm)', 0.1, 1],
+                    ['focalLength', 'Focal Length (mm)', 1, 50]
+                  ] as const).map(([field, label, step, min]) => (
+                    <div key={field}>
+                      <Label>{label}</Label>
+                      <Input
+                        type="number"
+                        step={step}
+                        min={min}
+                        value={beamOptics[field]}
+                        onChange={(e) => setBeamOptics({ ...beamOptics, [field]: Number(e.target.value) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="text-xs text-muted-foreground mt-2">
+                Uses the mean beam diameter through the sheet at this focus position, the same beam
+                model as the focus height calculator
+              </div>
+            </Card>
+
             {/* Focus Position Effects */}
             <Card className="p-4">
               <h4 className="font-semibold mb-3">Focus Position Effects</h4>
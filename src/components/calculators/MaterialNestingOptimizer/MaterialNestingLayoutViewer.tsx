@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../../ui/card';
+import { Button } from '../../ui/Button';
+import { Badge } from '../../ui/badge';
+import { Label } from '../../ui/label';
+import Select from '../../ui/Select';
+import { Switch } from '../../ui/switch';
+import { Download, FileText, Map as MapIcon, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { NestingPlanSheet } from '../../../services/calculators/materialNestingOptimizer';
+import { LayoutColorMode, nestingLayoutExporter } from '../../../services/nestingLayoutExporter';
+
+interface MaterialNestingLayoutViewerProps {
+  sheets: NestingPlanSheet[];
+}
+
+interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MARGIN = 20; // mm around the sheet
+const MIN_ZOOM_WIDTH = 20; // mm visible at full zoom
+
+const downloadFile = (content: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(content);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const MaterialNestingLayoutViewer: React.FC<MaterialNestingLayoutViewerProps> = ({ sheets }) => {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [colorBy, setColorBy] = useState<LayoutColorMode>('part');
+  const [showLabels, setShowLabels] = useState(true);
+  const [showSequence, setShowSequence] = useState(true);
+  const [step, setStep] = useState(0); // highlight the cut order up to this part, 0 = all
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [view, setView] = useState<ViewBox | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number; view: ViewBox } | null>(null);
+
+  const layouts = useMemo(() => nestingLayoutExporter.buildLayouts(sheets, { colorBy }), [sheets, colorBy]);
+  const layout = layouts[Math.min(sheetIndex, layouts.length - 1)];
+
+  const fullView = useMemo<ViewBox | null>(
+    () => layout && {
+      x: -MARGIN,
+      y: -MARGIN,
+      width: layout.length + 2 * MARGIN,
+      height: layout.width + 2 * MARGIN
+    },
+    [layout]
+  );
+  const viewBox = view ?? fullView;
+
+  // A new sheet starts unzoomed and with the whole cut order shown
+  useEffect(() => {
+    setView(null);
+    setStep(0);
+  }, [sheetIndex, sheets]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !viewBox) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const fx = (event.clientX - rect.left) / rect.width;
+      const fy = (event.clientY - rect.top) / rect.height;
+      zoom(event.deltaY < 0 ? 0.8 : 1.25, fx, fy);
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  });
+
+  if (!layout || !viewBox || !fullView) return null;
+
+  // Zoom about a point given as a fraction of the visible area
+  function zoom(factor: number, fx = 0.5, fy = 0.5) {
+    if (!viewBox || !fullView) return;
+    const width = Math.min(fullView.width * 4, Math.max(MIN_ZOOM_WIDTH, viewBox.width * factor));
+    const height = (width / viewBox.width) * viewBox.height;
+    setView({
+      x: viewBox.x + (viewBox.width - width) * fx,
+      y: viewBox.y + (viewBox.height - height) * fy,
+      width,
+      height
+    });
+  }
+
+  const onPointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY, view: viewBox };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const onPointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = Math.max(drag.view.width / rect.width, drag.view.height / rect.height);
+    setView({
+      ...drag.view,
+      x: drag.view.x - (event.clientX - drag.clientX) * scale,
+      y: drag.view.y - (event.clientY - drag.clientY) * scale
+    });
+  };
+
+  const onPointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const exportSvg = () => {
+    const svg = nestingLayoutExporter.toSvg(layout, { labels: showLabels, sequence: showSequence });
+    downloadFile(new Blob([svg], { type: 'image/svg+xml' }), `nesting-sheet-${layout.sheetNumber}.svg`);
+  };
+
+  const exportPdf = () => {
+    nestingLayoutExporter
+      .toPdf(layouts, { labels: showLabels, sequence: showSequence })
+      .save(`nesting-layout-${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  const exportDxf = () => {
+    const dxf = nestingLayoutExporter.toDxf(layouts, { labels: showLabels, sequence: showSequence });
+    downloadFile(new Blob([dxf], { type: 'application/dxf' }), `nesting-layout-${new Date().toISOString().split('T')[0]}.dxf`);
+  };
+
+  const y = (value: number) => layout.width - value;
+  const hoveredPart = hovered === null ? null : layout.parts[hovered];
+  const strokeScale = viewBox.width / fullView.width; // keep lines and text readable when zoomed
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <MapIcon className="h-5 w-5" />
+            <span>Sheet Layout</span>
+          </span>
+          <div className="flex items-center space-x-2">
+            {layout.isRemnant && <Badge variant="outline">Stock remnant</Badge>}
+            <Badge variant="outline">{layout.utilization.toFixed(1)}% Utilized</Badge>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <Label>Sheet</Label>
+            <Select
+              value={String(sheetIndex)}
+              onChange={(value) => setSheetIndex(Number(value))}
+              options={layouts.map((item, index) => ({
+                value: String(index),
+                label: `#${item.sheetNumber} ${item.name}`
+              }))}
+            />
+          </div>
+          <div>
+            <Label>Colour By</Label>
+            <Select
+              value={colorBy}
+              onChange={(value) => setColorBy(value as LayoutColorMode)}
+              options={[
+                { value: 'part', label: 'Part' },
+                { value: 'job', label: 'Job' }
+              ]}
+            />
+          </div>
+          <div className="flex items-end space-x-2">
+            <Switch checked={showLabels} onCheckedChange={setShowLabels} />
+            <span className="text-sm">Labels</span>
+          </div>
+          <div className="flex items-end space-x-2">
+            <Switch checked={showSequence} onCheckedChange={setShowSequence} />
+            <span className="text-sm">Cut Order</span>
+          </div>
+        </div>
+
+        <div className="relative border rounded bg-white">
+          <svg
+            ref={svgRef}
+            className="w-full h-96 touch-none cursor-grab select-none"
+            viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+            preserveAspectRatio="xMidYMid meet"
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+          >
+            <path
+              d={nestingLayoutExporter.toSvgPath([layout.outline], layout.width)}
+              fill="#f8fafc"
+              stroke="#334155"
+              strokeWidth={strokeScale}
+            />
+            {layout.remnants.map((remnant, index) => (
+              <path
+                key={`remnant-${index}`}
+                d={nestingLayoutExporter.toSvgPath([remnant], layout.width)}
+                fill="none"
+                stroke="#16a34a"
+                strokeWidth={strokeScale * 1.5}
+                strokeDasharray={`${8 * strokeScale} ${4 * strokeScale}`}
+              />
+            ))}
+            {layout.parts.map(part => {
+              const dimmed = step > 0 && part.sequence > step;
+              const current = step > 0 && part.sequence === step;
+              return (
+                <path
+                  key={part.index}
+                  d={nestingLayoutExporter.toSvgPath([part.outline, ...part.holes], layout.width)}
+                  fill={part.color}
+                  fillOpacity={dimmed ? 0.15 : hovered === part.index || current ? 0.9 : 0.6}
+                  fillRule="evenodd"
+                  stroke={current ? '#dc2626' : '#1e293b'}
+                  strokeWidth={strokeScale * (current || hovered === part.index ? 2 : 0.5)}
+                  onPointerEnter={() => setHovered(part.index)}
+                  onPointerLeave={() => setHovered(null)}
+                />
+              );
+            })}
+            {showSequence && layout.sequencePath.length > 1 && (
+              <polyline
+                points={layout.sequencePath
+                  .slice(0, step > 0 ? step : undefined)
+                  .map(p => `${p.x},${y(p.y)}`)
+                  .join(' ')}
+                fill="none"
+                stroke="#dc2626"
+                strokeWidth={strokeScale}
+                strokeDasharray={`${3 * strokeScale} ${3 * strokeScale}`}
+                pointerEvents="none"
+              />
+            )}
+            {layout.parts.map(part => {
+              const size = nestingLayoutExporter.textSize(part);
+              return (
+                <g key={`text-${part.index}`} pointerEvents="none" fontFamily="sans-serif" textAnchor="middle">
+                  {showLabels && (
+                    <text x={part.center.x} y={y(part.center.y)} fontSize={size} dominantBaseline="middle" fill="#0f172a">
+                      {part.partName}
+                    </text>
+                  )}
+                  {showSequence && (
+                    <text
+                      x={part.center.x}
+                      y={y(part.center.y) + (showLabels ? size * 1.2 : 0)}
+                      fontSize={size}
+                      fontWeight="bold"
+                      dominantBaseline="middle"
+                      fill="#dc2626"
+                    >
+                      {part.sequence}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          <div className="absolute top-2 right-2 flex space-x-1">
+            <Button variant="outline" size="icon" onClick={() => zoom(0.8)} title="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => zoom(1.25)} title="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setView(null)} title="Fit sheet">
+              <Maximize2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {hoveredPart && (
+            <div className="absolute bottom-2 left-2 px-2 py-1 text-xs bg-white border rounded shadow">
+              {hoveredPart.partName}
+              {hoveredPart.jobId && ` · ${hoveredPart.jobId}`} · cut #{hoveredPart.sequence}
+            </div>
+          )}
+        </div>
+
+        {showSequence && layout.parts.length > 1 && (
+          <div className="flex items-center space-x-3 text-sm">
+            <span className="text-muted-foreground whitespace-nowrap">Cut order</span>
+            <input
+              type="range"
+              className="flex-1"
+              min={0}
+              max={layout.parts.length}
+              value={step}
+              onChange={(e) => setStep(Number(e.target.value))}
+            />
+            <span className="w-24 text-right">{step > 0 ? `${step} / ${layout.parts.length}` : 'All parts'}</span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          {layout.legend.map(entry => (
+            <span key={entry.key} className="flex items-center space-x-1 px-2 py-1 bg-muted rounded">
+              <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: entry.color }} />
+              <span>{entry.key} (×{entry.count})</span>
+            </span>
+          ))}
+          {layout.remnants.length > 0 && (
+            <span className="flex items-center space-x-1 px-2 py-1 text-green-700">
+              <span className="inline-block h-3 w-3 border border-dashed border-green-600" />
+              <span>Remnant</span>
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={exportSvg}>
+            <Download className="h-4 w-4 mr-2" />
+            SVG (this sheet)
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportPdf}>
+            <FileText className="h-4 w-4 mr-2" />
+            PDF (all sheets)
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportDxf}>
+            <Download className="h-4 w-4 mr-2" />
+            DXF (all sheets)
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MaterialNestingLayoutViewer;
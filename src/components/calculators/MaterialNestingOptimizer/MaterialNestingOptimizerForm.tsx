@@ -17,6 +17,8 @@ interface Part {
   quantity: number;
   materialType: string;
   priority: number;
+  grainDirection?: 'any' | 'length' | 'width';
+  jobId?: string;
 }
 
 interface SheetSpecification {
@@ -30,14 +32,23 @@ interface SheetSpecification {
   availability: number;
 }
 
+// How the job draws on and returns to the remnant inventory
+export interface RemnantStockSettings {
+  useInventory: boolean; // fill stock remnants before full sheets
+  location: string; // where new offcuts are stored
+  heatNumber: string; // heat of the full sheets, carried by their offcuts
+}
+
 interface MaterialNestingOptimizerFormProps {
-  onCalculate: (inputs: any) => void;
+  onCalculate: (inputs: any, remnantStock: RemnantStockSettings) => void;
   isLoading: boolean;
+  availableRemnants?: number; // remnants on the rack
 }
 
 const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps> = ({
   onCalculate,
-  isLoading
+  isLoading,
+  availableRemnants = 0
 }) => {
   const [parts, setParts] = useState<Part[]>([
     {
@@ -73,16 +84,25 @@ const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps>
     allowMixedMaterial: false
   });
 
+  const [nestingMode, setNestingMode] = useState<'true_shape' | 'guillotine' | 'skyline'>('true_shape');
+
   const [optimizationGoal, setOptimizationGoal] = useState<'material_usage' | 'cost_minimization' | 'sheet_count' | 'balanced'>('material_usage');
 
   const [cuttingParameters, setCuttingParameters] = useState({
     kerfWidth: 0.1,
+    kerfCompensation: true,
     leadInLength: 2,
     leadOutLength: 2,
     pierceTime: 0.5,
     cuttingSpeed: 1000
   });
 
+  const [remnantStock, setRemnantStock] = useState<RemnantStockSettings>({
+    useInventory: true,
+    location: 'Remnant rack',
+    heatNumber: ''
+  });
+
   const [productionConstraints, setProductionConstraints] = useState({
     maxSheetCount: 20,
     deliveryDeadline: 48,
@@ -143,12 +163,13 @@ const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps>
     const inputs = {
       parts,
       sheetSpecs: sheets,
+      nestingMode,
       nestingConstraints,
       optimizationGoal,
       cuttingParameters,
       productionConstraints
     };
-    onCalculate(inputs);
+    onCalculate(inputs, remnantStock);
   };
 
   const materialOptions = [
@@ -252,6 +273,29 @@ const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps>
                         ]}
                       />
                     </div>
+                    <div>
+                      <Label>Grain</Label>
+                      <Select
+                        value={part.grainDirection ?? 'default'}
+                        onChange={(value) =>
+                          updatePart(part.id, 'grainDirection', value === 'default' ? undefined : value)
+                        }
+                        options={[
+                          { value: 'default', label: 'Job Default' },
+                          { value: 'any', label: 'Free Rotation' },
+                          { value: 'length', label: 'Along Length' },
+                          { value: 'width', label: 'Across Width' }
+                        ]}
+                      />
+                    </div>
+                    <div>
+                      <Label>Job</Label>
+                      <Input
+                        value={part.jobId ?? ''}
+                        onChange={(e) => updatePart(part.id, 'jobId', e.target.value || undefined)}
+                        placeholder="Order / job no."
+                      />
+                    </div>
                     <div className="flex items-end">
                       <Button
                         variant="outline"
@@ -363,6 +407,18 @@ const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps>
                   Nesting Constraints
                 </h4>
                 <div className="space-y-3">
+                  <div>
+                    <Label>Nesting Mode</Label>
+                    <Select
+                      value={nestingMode}
+                      onChange={(value) => setNestingMode(value as 'true_shape' | 'guillotine' | 'skyline')}
+                      options={[
+                        { value: 'true_shape', label: 'True Shape' },
+                        { value: 'guillotine', label: 'Guillotine (cheapest stock sizes)' },
+                        { value: 'skyline', label: 'Skyline (cheapest stock sizes)' }
+                      ]}
+                    />
+                  </div>
                   <div>
                     <Label>Min Spacing (mm)</Label>
                     <Input
@@ -444,6 +500,20 @@ const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps>
                     })}
                   />
                 </div>
+                <div>
+                  <Label>Kerf Compensation</Label>
+                  <Select
+                    value={cuttingParameters.kerfCompensation ? 'on' : 'off'}
+                    onChange={(value) => setCuttingParameters({
+                      ...cuttingParameters,
+                      kerfCompensation: value === 'on'
+                    })}
+                    options={[
+                      { value: 'on', label: 'Offset contours by half the kerf' },
+                      { value: 'off', label: 'Nominal contours' }
+                    ]}
+                  />
+                </div>
                 <div>
                   <Label>Lead In (mm)</Label>
                   <Input
@@ -534,6 +604,42 @@ const MaterialNestingOptimizerForm: React.FC<MaterialNestingOptimizerFormProps>
                 </div>
               </div>
             </Card>
+
+            <Card className="p-4">
+              <h4 className="font-semibold mb-3 flex items-center">
+                <Package className="h-4 w-4 mr-2" />
+                Remnant Inventory
+                <Badge variant="outline" className="ml-2">{availableRemnants} on the rack</Badge>
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label>Remnants</Label>
+                  <Select
+                    value={remnantStock.useInventory ? 'use' : 'ignore'}
+                    onChange={(value) => setRemnantStock({ ...remnantStock, useInventory: value === 'use' })}
+                    options={[
+                      { value: 'use', label: 'Fill remnants before full sheets' },
+                      { value: 'ignore', label: 'Full sheets only' }
+                    ]}
+                  />
+                </div>
+                <div>
+                  <Label>Store New Offcuts At</Label>
+                  <Input
+                    value={remnantStock.location}
+                    onChange={(e) => setRemnantStock({ ...remnantStock, location: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Sheet Heat Number</Label>
+                  <Input
+                    value={remnantStock.heatNumber}
+                    placeholder="Optional"
+                    onChange={(e) => setRemnantStock({ ...remnantStock, heatNumber: e.target.value })}
+                  />
+                </div>
+              </div>
+            </Card>
           </TabsContent>
         </Tabs>
 
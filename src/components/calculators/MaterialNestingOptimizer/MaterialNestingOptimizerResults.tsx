@@ -14,25 +14,12 @@ import {
   Layers,
   Target
 } from 'lucide-react';
+import type { NestingPlanSheet } from '../../../services/calculators/materialNestingOptimizer';
+import MaterialNestingLayoutViewer from './MaterialNestingLayoutViewer';
 
 interface MaterialNestingOptimizerResultsProps {
   results: {
-    nestingPlan: Array<{
-      sheetNumber: number;
-      sheetSpec: any;
-      partsPlaced: Array<{
-        partId: string;
-        partName: string;
-        x: number;
-        y: number;
-        rotation: number;
-        quantity: number;
-      }>;
-      utilization: number;
-      wasteArea: number;
-      cuttingTime: number;
-      materialCost: number;
-    }>;
+    nestingPlan: NestingPlanSheet[];
     optimizationSummary: {
       totalSheets: number;
       totalMaterialCost: number;
@@ -277,6 +264,8 @@ const MaterialNestingOptimizerResults: React.FC<MaterialNestingOptimizerResultsP
         </TabsContent>
 
         <TabsContent value="sheets" className="space-y-4">
+          {results.nestingPlan.length > 0 && <MaterialNestingLayoutViewer sheets={results.nestingPlan} />}
+
           <div className="grid gap-4">
             {results.nestingPlan.map((sheet) => (
               <Card key={sheet.sheetNumber}>
@@ -284,6 +273,7 @@ const MaterialNestingOptimizerResults: React.FC<MaterialNestingOptimizerResultsP
                   <CardTitle className="flex items-center justify-between">
                     <span>Sheet #{sheet.sheetNumber}</span>
                     <div className="flex items-center space-x-2">
+                      {sheet.remnantId && <Badge variant="outline">Stock remnant</Badge>}
                       <Badge variant="outline">{sheet.utilization.toFixed(1)}% Utilized</Badge>
                       <Badge variant="secondary">${sheet.materialCost.toFixed(2)}</Badge>
                     </div>
@@ -294,6 +284,9 @@ const MaterialNestingOptimizerResults: React.FC<MaterialNestingOptimizerResultsP
                     <div>
                       <div className="text-sm text-muted-foreground">Sheet Size</div>
                       <div className="font-medium">{sheet.sheetSpec.length} × {sheet.sheetSpec.width} mm</div>
+                      {sheet.remnantId && (
+                        <div className="text-xs text-muted-foreground">{sheet.sheetSpec.name}</div>
+                      )}
                     </div>
                     <div>
                       <div className="text-sm text-muted-foreground">Parts Count</div>
@@ -322,6 +315,22 @@ const MaterialNestingOptimizerResults: React.FC<MaterialNestingOptimizerResultsP
                       ))}
                     </div>
                   </div>
+
+                  {sheet.remnants && sheet.remnants.length > 0 && (
+                    <div className="space-y-2 mt-4">
+                      <h4 className="font-semibold">Remnants:</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                        {sheet.remnants.map((remnant, index) => (
+                          <div key={index} className="flex justify-between p-2 bg-muted rounded">
+                            <span>{Math.round(remnant.length)} × {Math.round(remnant.width)} mm</span>
+                            <span className="text-muted-foreground">
+                              at {Math.round(remnant.x)}, {Math.round(remnant.y)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
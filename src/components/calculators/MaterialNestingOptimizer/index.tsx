@@ -2,21 +2,28 @@ import React, { useState } from 'react';
 import { Alert, AlertDescription } from '../../ui/alert';
 import { AlertTriangle, CheckCircle } from 'lucide-react';
 import CalculatorSEOHead from '../../seo/CalculatorSEOHead';
-import MaterialNestingOptimizerForm from './MaterialNestingOptimizerForm';
+import MaterialNestingOptimizerForm, { RemnantStockSettings } from './MaterialNestingOptimizerForm';
 import MaterialNestingOptimizerResults from './MaterialNestingOptimizerResults';
 import MaterialNestingFormulaExplanation from './MaterialNestingFormulaExplanation';
 import MaterialNestingExportTools from './MaterialNestingExportTools';
 import MaterialNestingRelatedTools from './MaterialNestingRelatedTools';
 import MaterialNestingEducationalContent from './MaterialNestingEducationalContent';
 import MaterialNestingFAQ from './MaterialNestingFAQ';
-import { materialNestingOptimizer } from '../../../services/calculators/materialNestingOptimizer';
+import { MaterialNestingInputs, MaterialNestingResults } from '../../../services/calculators/materialNestingOptimizer';
+import { remnantInventory, RemnantRegistration } from '../../../services/remnantInventory';
+import { generateId } from '../../../utils/idGenerator';
+import { globalWorkerManager } from '../../../utils/workerManager';
 
 const MaterialNestingOptimizerComponent: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<MaterialNestingResults | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Re-running within the session re-books the same job instead of adding another
+  const [jobId] = useState(() => generateId('nesting'));
+  const [registration, setRegistration] = useState<RemnantRegistration | null>(null);
+  const [availableRemnants, setAvailableRemnants] = useState(() => remnantInventory.list({ status: 'available' }).length);
 
-  const handleCalculate = async (inputs: any) => {
+  const handleCalculate = async (inputs: MaterialNestingInputs, remnantStock: RemnantStockSettings) => {
     setIsLoading(true);
     setError(null);
     
@@ -31,8 +38,8 @@ const MaterialNestingOptimizerComponent: React.FC = () => {
       }
 
       // Check if any parts can fit on any sheets
-      const canFit = inputs.parts.some((part: any) => 
-        inputs.sheetSpecs.some((sheet: any) => 
+      const canFit = inputs.parts.some(part => 
+        inputs.sheetSpecs.some(sheet => 
           part.length <= sheet.length && part.width <= sheet.width &&
           part.thickness <= sheet.thickness &&
           (inputs.nestingConstraints.allowMixedMaterial || part.materialType === sheet.materialType)
@@ -43,9 +50,18 @@ const MaterialNestingOptimizerComponent: React.FC = () => {
         throw new Error('No parts can fit on the available sheets. Check part dimensions and material compatibility.');
       }
 
-      // Calculate nesting optimization
-      const calculationResults = materialNestingOptimizer.calculate(inputs);
-      
+      // Calculate nesting optimization in a calculation worker
+      const calculationResults = await globalWorkerManager.nest({
+        ...inputs,
+        remnants: remnantStock.useInventory ? remnantInventory.stockFor(jobId) : []
+      });
+
+      // Book the remnants used and the offcuts left
+      setRegistration(remnantInventory.registerJob(jobId, calculationResults, {
+        location: remnantStock.location,
+        heatNumber: remnantStock.heatNumber
+      }));
+      setAvailableRemnants(remnantInventory.list({ status: 'available' }).length);
       setResults(calculationResults);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during calculation');
@@ -120,6 +136,7 @@ const MaterialNestingOptimizerComponent: React.FC = () => {
             <MaterialNestingOptimizerForm 
               onCalculate={handleCalculate}
               isLoading={isLoading}
+              availableRemnants={availableRemnants}
             />
           </div>
 
@@ -160,7 +177,27 @@ const MaterialNestingOptimizerComponent: React.FC = () => {
                     using <strong>{results.optimizationSummary.totalSheets}</strong> sheets.
                   </AlertDescription>
                 </Alert>
+
+                {results.unplacedParts.length > 0 && (
+                  <Alert className="mb-6 border-yellow-200 bg-yellow-50">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription className="text-yellow-800">
+                      <strong>Not placed:</strong>{' '}
+                      {results.unplacedParts.map(part => `${part.partName} ×${part.quantity} (${part.reason})`).join(', ')}
+                    </AlertDescription>
+                  </Alert>
+                )}
                 
+                {registration && (registration.consumed.length > 0 || registration.registered.length > 0) && (
+                  <Alert className="mb-6">
+                    <AlertDescription>
+                      <strong>Remnant inventory:</strong> {registration.consumed.length} remnant(s) used,{' '}
+                      {registration.registered.length} new offcut(s) registered
+                      {registration.registered.length > 0 && ` at ${registration.registered[0].location}`}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 <MaterialNestingOptimizerResults results={results} />
               </div>
             )}
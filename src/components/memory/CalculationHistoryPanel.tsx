@@ -8,6 +8,8 @@ import { useTheme } from '../../theme';
 import { CalculationRecord } from '../../types/memory';
 import { useCalculationHistory } from '../../hooks/useCalculationHistory';
 import { formatDate, formatDuration } from '../../utils/formatters';
+import { calculationProvenance, RerunComparison } from '../../services/calculationProvenance';
+import { CalculationRerunDiff } from './CalculationRerunDiff';
 
 export interface CalculationHistoryPanelProps {
   onRecordSelect?: (record: CalculationRecord) => void;
@@ -26,6 +28,7 @@ export function CalculationHistoryPanel({
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRecord, setSelectedRecord] = useState<string | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [rerun, setRerun] = useState<{ id: string; comparison?: RerunComparison; error?: string } | null>(null);
 
   // Use calculation history hook
   const [state, actions] = useCalculationHistory({
@@ -55,6 +58,26 @@ export function CalculationHistoryPanel({
     onRecordRestore?.(record);
   }, [onRecordRestore]);
 
+  // Re-run with the current calculator version and compare with the saved results
+  const handleRerun = useCallback(async (record: CalculationRecord) => {
+    setRerun({ id: record.id });
+    try {
+      const { featureCalculators } = await import('../../features/calculators/registry');
+      const calculator = featureCalculators.find(candidate => candidate.config.id === record.calculatorType);
+      if (!calculator) {
+        throw new Error(`${record.calculatorType} cannot be re-run`);
+      }
+      const comparison = await calculationProvenance.rerun(calculator, {
+        inputs: record.inputs ?? record.parameters,
+        outputs: record.outputs ?? record.results,
+        provenance: record.metadata.provenance
+      });
+      setRerun({ id: record.id, comparison });
+    } catch (error) {
+      setRerun({ id: record.id, error: error instanceof Error ? error.message : 'Re-run failed' });
+    }
+  }, []);
+
   // Handle delete
   const handleDelete = useCallback(async (id: string) => {
     if (confirm('Are you sure you want to delete this calculation from history?')) {
@@ -82,7 +105,7 @@ export function CalculationHistoryPanel({
 
   // Get key parameters for preview
   const getKeyParameters = (record: CalculationRecord): Array<{ key: string; value: any }> => {
-    const inputs = Object.entries(record.inputs);
+    const inputs = Object.entries(record.inputs ?? record.parameters);
     return inputs.slice(0, 3).map(([key, value]) => ({ key, value }));
   };
 
@@ -222,6 +245,21 @@ export function CalculationHistoryPanel({
                       </svg>
                     </button>
                     
+                    {record.metadata.provenance && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRerun(record);
+                        }}
+                        className="p-1 text-gray-400 hover:text-primary-600 rounded"
+                        title="Re-run with current version"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                      </button>
+                    )}
+
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -250,6 +288,17 @@ export function CalculationHistoryPanel({
                   </div>
                 </div>
 
+                {/* Re-run Comparison */}
+                {rerun?.id === record.id && (
+                  <div className="mt-4 pt-4 border-t border-gray-200" onClick={(e) => e.stopPropagation()}>
+                    {rerun.error && <p className="text-xs text-red-600">{rerun.error}</p>}
+                    {rerun.comparison && <CalculationRerunDiff comparison={rerun.comparison} />}
+                    {!rerun.error && !rerun.comparison && (
+                      <p className="text-xs text-gray-500">Re-running with the current version...</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Expanded Details */}
                 {selectedRecord === record.id && showDetails && (
                   <div className="mt-4 pt-4 border-t border-gray-200">
@@ -258,7 +307,7 @@ export function CalculationHistoryPanel({
                       <div>
                         <h5 className="text-sm font-medium text-gray-900 mb-2">Inputs</h5>
                         <div className="space-y-1">
-                          {Object.entries(record.inputs).map(([key, value]) => (
+                          {Object.entries(record.inputs ?? record.parameters).map(([key, value]) => (
                             <div key={key} className="flex justify-between text-xs">
                               <span className="text-gray-600">{key}:</span>
                               <span className="text-gray-900 font-medium">
@@ -273,7 +322,7 @@ export function CalculationHistoryPanel({
                       <div>
                         <h5 className="text-sm font-medium text-gray-900 mb-2">Results</h5>
                         <div className="space-y-1">
-                          {Object.entries(record.outputs).map(([key, value]) => (
+                          {Object.entries(record.outputs ?? record.results).map(([key, value]) => (
                             <div key={key} className="flex justify-between text-xs">
                               <span className="text-gray-600">{key}:</span>
                               <span className="text-gray-900 font-medium">
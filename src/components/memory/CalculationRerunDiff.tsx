@@ -0,0 +1,96 @@
+/**
+ * Calculation Rerun Diff Component
+ * Shows how a saved calculation's results changed when re-run with the current calculator
+ * and data versions, and which version changes explain it
+ */
+
+import React from 'react';
+import type { RerunComparison } from '../../services/calculationProvenance';
+
+export interface CalculationRerunDiffProps {
+  comparison: RerunComparison;
+  className?: string;
+}
+
+// Hashes are shown shortened; calculator versions in full
+const HASH_PREVIEW_LENGTH = 12;
+
+export function CalculationRerunDiff({ comparison, className = '' }: CalculationRerunDiffProps) {
+  const { changes, causes, provenance } = comparison;
+
+  const formatVersion = (value: string): string =>
+    /^[0-9a-f]{64}$/.test(value) ? value.slice(0, HASH_PREVIEW_LENGTH) : value;
+
+  const formatValue = (value: unknown): string => {
+    if (value === undefined) return '—';
+    if (typeof value === 'number') {
+      return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+    }
+    return String(value);
+  };
+
+  const formatChange = (relativeChange?: number, delta?: number): string => {
+    if (relativeChange !== undefined) {
+      return `${relativeChange >= 0 ? '+' : ''}${(relativeChange * 100).toFixed(2)}%`;
+    }
+    if (delta !== undefined) {
+      return `${delta >= 0 ? '+' : ''}${formatValue(delta)}`;
+    }
+    return 'changed';
+  };
+
+  return (
+    <div className={`calculation-rerun-diff ${className}`}>
+      {/* Why */}
+      <div className="mb-3">
+        <h5 className="text-sm font-medium text-gray-900 mb-1">
+          Re-run with {provenance.calculatorId} {provenance.calculatorVersion}
+        </h5>
+        {causes.length === 0 ? (
+          <p className="text-xs text-gray-600">Same calculator version, inputs and data as when saved.</p>
+        ) : (
+          <ul className="text-xs text-gray-700 space-y-1">
+            {causes.map(cause => (
+              <li key={cause.source}>
+                • {cause.description}
+                <span className="ml-1 font-mono text-gray-500">
+                  ({formatVersion(cause.before)} → {formatVersion(cause.after)})
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* What */}
+      {changes.length === 0 ? (
+        <p className="text-xs text-green-700 bg-green-50 rounded p-2">
+          Results are unchanged.
+        </p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-1 pr-2 font-medium">Field</th>
+              <th className="py-1 pr-2 font-medium text-right">Saved</th>
+              <th className="py-1 pr-2 font-medium text-right">Current</th>
+              <th className="py-1 font-medium text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => (
+              <tr key={change.path} className="border-b border-gray-100">
+                <td className="py-1 pr-2 font-mono text-gray-700">{change.path}</td>
+                <td className="py-1 pr-2 text-right text-gray-900">{formatValue(change.before)}</td>
+                <td className="py-1 pr-2 text-right text-gray-900">{formatValue(change.after)}</td>
+                <td className="py-1 text-right text-amber-700">
+                  {formatChange(change.relativeChange, change.delta)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
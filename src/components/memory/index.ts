@@ -4,6 +4,7 @@
  */
 
 export { CalculationHistoryPanel } from './CalculationHistoryPanel';
+export { CalculationRerunDiff } from './CalculationRerunDiff';
 export { HistoryStatsWidget } from './HistoryStatsWidget';
 export { UserPreferencesPanel } from './UserPreferencesPanel';
 export { ParameterPresetPanel } from './ParameterPresetPanel';
@@ -35,6 +36,7 @@ export {
 } from './withMemorySystem';
 
 export type { CalculationHistoryPanelProps } from './CalculationHistoryPanel';
+export type { CalculationRerunDiffProps } from './CalculationRerunDiff';
 export type { HistoryStatsWidgetProps } from './HistoryStatsWidget';
 export type { UserPreferencesPanelProps } from './UserPreferencesPanel';
 export type { ParameterPresetPanelProps } from './ParameterPresetPanel';
@@ -1,4 +1,5 @@
 import { CalculatorConfig } from '../../types/calculator';
+import { materialRegistry } from '../../services/materialRegistry';
 
 export const frequencySettingConfig: CalculatorConfig = {
   id: 'frequency-setting',
@@ -397,15 +398,12 @@ function calculateOptimalPulseDuration(frequency: number, cuttingSpeed: number)
 }
 
 function analyzeMaterialResponse(materialType: string, thickness: number, frequency: any, pulseChar: any) {
-  const materialProperties = {
-    carbon_steel: { thermalConductivity: 50, meltingPoint: 1538, heatCapacity: 0.49 },
-    stainless_steel: { thermalConductivity: 16, meltingPoint: 1400, heatCapacity: 0.50 },
-    aluminum: { thermalConductivity: 237, meltingPoint: 660, heatCapacity: 0.90 },
-    acrylic: { thermalConductivity: 0.2, meltingPoint: 160, heatCapacity: 1.47 },
-    wood_hardwood: { thermalConductivity: 0.16, meltingPoint: 300, heatCapacity: 1.76 },
+  const { thermal } = materialRegistry.get(materialRegistry.has(materialType) ? materialType : 'carbon_steel');
+  const material = {
+    thermalConductivity: thermal.conductivity,
+    meltingPoint: thermal.meltingPoint,
+    heatCapacity: thermal.specificHeat / 1000, // kJ/kg·K
   };
-
-  const material = materialProperties[materialType] || materialProperties.carbon_steel;
   
   // Calculate heat affected zone
   const heatAffectedZone = calculateHAZ(material, frequency, pulseChar, thickness);
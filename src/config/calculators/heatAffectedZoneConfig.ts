@@ -1,4 +1,5 @@
 import { CalculatorConfig } from '../../types/calculator';
+import { materialRegistry } from '../../services/materialRegistry';
 
 export const heatAffectedZoneConfig: CalculatorConfig = {
   id: 'heat-affected-zone',
@@ -305,46 +306,15 @@ function calculateHAZ(
 }
 
 function getMaterialThermalProperties(materialType: string) {
-  const properties = {
-    carbon_steel: {
-      conductivity: 50, // W/m·K
-      diffusivity: 1.3e-5, // m²/s
-      specificHeat: 490, // J/kg·K
-      density: 7850, // kg/m³
-    },
-    stainless_steel: {
-      conductivity: 16,
-      diffusivity: 4.2e-6,
-      specificHeat: 500,
-      density: 8000,
-    },
-    aluminum: {
-      conductivity: 237,
-      diffusivity: 9.7e-5,
-      specificHeat: 900,
-      density: 2700,
-    },
-    copper: {
-      conductivity: 401,
-      diffusivity: 1.1e-4,
-      specificHeat: 385,
-      density: 8960,
-    },
-    titanium: {
-      conductivity: 22,
-      diffusivity: 9.8e-6,
-      specificHeat: 520,
-      density: 4500,
-    },
-    tool_steel: {
-      conductivity: 25,
-      diffusivity: 6.5e-6,
-      specificHeat: 460,
-      density: 7800,
-    },
+  const id = materialRegistry.has(materialType) ? materialType : 'carbon_steel';
+  const { conductivity, specificHeat, density } = materialRegistry.get(id).thermal;
+
+  return {
+    conductivity, // W/m·K
+    diffusivity: materialRegistry.thermalDiffusivity(id), // m²/s
+    specificHeat, // J/kg·K
+    density, // kg/m³
   };
-  
-  return properties[materialType] || properties.carbon_steel;
 }
 
 function calculateDutyCycle(frequency: number, cuttingSpeed: number) {
@@ -1,4 +1,5 @@
 import { CalculatorConfig } from '../../types/calculator';
+import { remnantInventory } from '../../services/remnantInventory';
 
 export const materialYieldConfig: CalculatorConfig = {
   id: 'material-yield',
@@ -121,6 +122,18 @@ export const materialYieldConfig: CalculatorConfig = {
       required: true,
       description: 'Complexity of the cutting patterns',
     },
+    {
+      id: 'lossSource',
+      label: 'Nesting Loss Source',
+      type: 'select',
+      value: 'typical',
+      options: [
+        { value: 'typical', label: 'Typical factor for the complexity' },
+        { value: 'history', label: 'Measured from past nesting jobs' },
+      ],
+      required: false,
+      description: 'Use the yield recorded by nesting jobs in the remnant inventory for this material',
+    },
   ],
 
   outputs: [
@@ -165,6 +178,7 @@ export const materialYieldConfig: CalculatorConfig = {
       numberOfParts,
       materialType,
       cuttingComplexity,
+      lossSource,
     } = inputs;
 
     // Calculate material losses
@@ -177,7 +191,8 @@ export const materialYieldConfig: CalculatorConfig = {
       edgeDistance,
       numberOfParts,
       materialType,
-      cuttingComplexity
+      cuttingComplexity,
+      lossSource === 'history' ? getNestingHistory(materialType) : null
     );
 
     // Calculate yield analysis
@@ -294,7 +309,8 @@ function calculateMaterialLosses(
   edgeDistance: number,
   numberOfParts: number,
   materialType: string,
-  cuttingComplexity: string
+  cuttingComplexity: string,
+  history: NestingHistory | null = null
 ) {
   const sheetArea = sheetWidth * sheetLength;
   
@@ -304,13 +320,15 @@ function calculateMaterialLosses(
   // 2. Kerf loss (material removed by cutting)
   const kerfLossArea = cuttingLength * kerfWidth;
   
-  // 3. Nesting inefficiency (gaps between parts)
-  const nestingInefficiency = calculateNestingInefficiency(
-    sheetArea - edgeWasteArea,
-    partArea,
-    numberOfParts,
-    cuttingComplexity
-  );
+  // 3. Nesting inefficiency (gaps between parts); measured layouts already include edge and kerf
+  const nestingInefficiency = history
+    ? Math.max(0, partArea * (100 / history.yield - 1) - edgeWasteArea - kerfLossArea)
+    : calculateNestingInefficiency(
+      sheetArea - edgeWasteArea,
+      partArea,
+      numberOfParts,
+      cuttingComplexity
+    );
   
   // 4. Material-specific losses
   const materialSpecificLoss = calculateMaterialSpecificLoss(
@@ -337,6 +355,9 @@ function calculateMaterialLosses(
     nestingInefficiency: {
       area: Math.round(nestingInefficiency),
       percentage: Math.round((nestingInefficiency / sheetArea) * 100 * 10) / 10,
+      source: history
+        ? `Measured over ${history.jobs} nesting job(s) at ${history.yield}% yield`
+        : `Typical factor for ${cuttingComplexity} parts`,
     },
     materialSpecificLoss: {
       area: Math.round(materialSpecificLoss),
@@ -353,6 +374,16 @@ function calculateMaterialLosses(
   };
 }
 
+interface NestingHistory {
+  jobs: number;
+  yield: number; // % of consumed material that became parts, remnants excluded
+}
+
+function getNestingHistory(materialType: string): NestingHistory | null {
+  const stats = remnantInventory.statistics({ materialType });
+  return stats.yield ? { jobs: stats.jobs, yield: stats.yield } : null;
+}
+
 function calculateEdgeWaste(sheetWidth: number, sheetLength: number, edgeDistance: number) {
   const totalArea = sheetWidth * sheetLength;
   const usableArea = (sheetWidth - 2 * edgeDistance) * (sheetLength - 2 * edgeDistance);
@@ -550,6 +581,15 @@ function generateYieldRecommendations(
     });
   }
   
+  if (inputs.lossSource === 'history' && !lossBreakdown.nestingInefficiency.source.startsWith('Measured')) {
+    recommendations.push({
+      type: 'Data',
+      suggestion: `No nesting jobs recorded for ${inputs.materialType} yet; the typical nesting loss factor was used.`,
+      impact: 'Low',
+      potentialSaving: 'n/a',
+    });
+  }
+
   // Complexity-based recommendations
   if (inputs.cuttingComplexity === 'complex') {
     recommendations.push({
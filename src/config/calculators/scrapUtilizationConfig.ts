@@ -1,4 +1,6 @@
 import { CalculatorConfig } from '../../types/calculator';
+import { Remnant, remnantInventory } from '../../services/remnantInventory';
+import { polygonContainsPolygon } from '../../utils/geometryUtils';
 
 export const scrapUtilizationConfig: CalculatorConfig = {
   id: 'scrap-utilization',
@@ -9,6 +11,34 @@ export const scrapUtilizationConfig: CalculatorConfig = {
   estimatedTime: '3-4 minutes',
   
   inputs: [
+    {
+      id: 'scrapSource',
+      label: 'Scrap Source',
+      type: 'select',
+      value: 'manual',
+      options: [
+        { value: 'manual', label: 'Scrap size entered below' },
+        { value: 'inventory', label: 'Remnant inventory' },
+      ],
+      required: false,
+      description: 'Use the available remnants of the material and thickness from the inventory',
+    },
+    {
+      id: 'materialType',
+      label: 'Material Type',
+      type: 'select',
+      value: 'mild_steel',
+      options: [
+        { value: 'mild_steel', label: 'Mild Steel' },
+        { value: 'stainless_steel', label: 'Stainless Steel' },
+        { value: 'aluminum', label: 'Aluminum' },
+        { value: 'carbon_steel', label: 'Carbon Steel' },
+        { value: 'copper', label: 'Copper' },
+        { value: 'brass', label: 'Brass' },
+      ],
+      required: false,
+      description: 'Material of the remnants to draw from the inventory',
+    },
     {
       id: 'scrapWidth',
       label: 'Scrap Width',
@@ -159,25 +189,43 @@ export const scrapUtilizationConfig: CalculatorConfig = {
       materialValue,
       materialDensity,
       thickness,
+      scrapSource,
+      materialType,
     } = inputs;
 
+    // Real offcuts on the rack when the inventory has any of this material
+    const remnants = scrapSource === 'inventory'
+      ? remnantInventory.list({ materialType, thickness, status: 'available' })
+      : [];
+
     // Calculate parts that can fit in scraps
-    const partsFitAnalysis = calculatePartsFit(
-      scrapWidth,
-      scrapLength,
-      scrapQuantity,
-      smallPartWidth,
-      smallPartLength
-    );
+    const partsFitAnalysis = remnants.length > 0
+      ? calculateInventoryFit(remnants, smallPartWidth, smallPartLength)
+      : calculatePartsFit(
+        scrapWidth,
+        scrapLength,
+        scrapQuantity,
+        smallPartWidth,
+        smallPartLength
+      );
 
     // Calculate utilization analysis
-    const utilizationAnalysis = calculateUtilizationAnalysis(
-      partsFitAnalysis,
-      smallPartQuantityNeeded,
-      scrapWidth,
-      scrapLength,
-      scrapQuantity
-    );
+    const utilizationAnalysis = remnants.length > 0
+      ? calculateInventoryUtilization(
+        partsFitAnalysis as ReturnType<typeof calculateInventoryFit>,
+        smallPartQuantityNeeded,
+        smallPartWidth,
+        smallPartLength
+      )
+      : calculateUtilizationAnalysis(
+        partsFitAnalysis,
+        smallPartQuantityNeeded,
+        scrapWidth,
+        scrapLength,
+        scrapQuantity,
+        smallPartWidth,
+        smallPartLength
+      );
 
     // Calculate value recovery
     const valueRecovery = calculateValueRecovery(
@@ -315,7 +363,9 @@ function calculateUtilizationAnalysis(
   quantityNeeded: number,
   scrapWidth: number,
   scrapLength: number,
-  scrapQuantity: number
+  scrapQuantity: number,
+  partWidth: number,
+  partLength: number
 ) {
   const totalScrapArea = scrapWidth * scrapLength * scrapQuantity;
   const partsProduced = Math.min(partsFitAnalysis.totalPartsFromScraps, quantityNeeded);
@@ -323,7 +373,7 @@ function calculateUtilizationAnalysis(
   const canMeetDemand = partsFitAnalysis.totalPartsFromScraps >= quantityNeeded;
   
   // Calculate utilization efficiency
-  const partArea = 80 * 120; // Using example part dimensions - should use actual
+  const partArea = partWidth * partLength;
   const usedArea = partsProduced * partArea;
   const utilizationEfficiency = (usedArea / totalScrapArea) * 100;
 
@@ -339,6 +389,95 @@ function calculateUtilizationAnalysis(
   };
 }
 
+/**
+ * Parts per inventory remnant on a grid inside its true outline, in the better of the
+ * two orientations; remnants that hold the most are listed first
+ */
+function calculateInventoryFit(remnants: Remnant[], partWidth: number, partLength: number) {
+  const perRemnant = remnants
+    .map(remnant => {
+      const standard = gridFit(remnant, partLength, partWidth);
+      const rotated = gridFit(remnant, partWidth, partLength);
+      return {
+        id: remnant.id,
+        location: remnant.location,
+        heatNumber: remnant.heatNumber,
+        size: `${remnant.length} × ${remnant.width} mm`,
+        area: remnant.area,
+        parts: Math.max(standard, rotated),
+        orientation: standard >= rotated ? 'standard' : 'rotated',
+      };
+    })
+    .sort((a, b) => b.parts - a.parts);
+
+  const totalPartsFromScraps = perRemnant.reduce((sum, remnant) => sum + remnant.parts, 0);
+  const rotatedCount = perRemnant.filter(remnant => remnant.orientation === 'rotated').length;
+
+  return {
+    partsPerScrap: Math.round((totalPartsFromScraps / perRemnant.length) * 10) / 10,
+    totalPartsFromScraps,
+    bestOrientation: rotatedCount > perRemnant.length / 2 ? 'rotated' : 'standard',
+    remnants: perRemnant,
+  };
+}
+
+// Grid cells along the remnant length (x) that lie inside its outline
+function gridFit(remnant: Remnant, cellLength: number, cellWidth: number) {
+  const e = 1e-6; // cells may touch the outline
+  let count = 0;
+  for (let x = 0; x + cellLength <= remnant.length + e; x += cellLength) {
+    for (let y = 0; y + cellWidth <= remnant.width + e; y += cellWidth) {
+      const cell = [
+        { x: x + e, y: y + e },
+        { x: x + cellLength - e, y: y + e },
+        { x: x + cellLength - e, y: y + cellWidth - e },
+        { x: x + e, y: y + cellWidth - e },
+      ];
+      // Corners inside and no outline corner poking into the cell
+      const pokes = remnant.outline.some(p =>
+        p.x > x + e && p.x < x + cellLength - e && p.y > y + e && p.y < y + cellWidth - e
+      );
+      if (!pokes && polygonContainsPolygon(remnant.outline, cell)) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Draw on the remnants that hold the most parts until the demand is met
+ */
+function calculateInventoryUtilization(
+  partsFitAnalysis: ReturnType<typeof calculateInventoryFit>,
+  quantityNeeded: number,
+  partWidth: number,
+  partLength: number
+) {
+  const totalScrapArea = partsFitAnalysis.remnants.reduce((sum, remnant) => sum + remnant.area, 0);
+  const partsProduced = Math.min(partsFitAnalysis.totalPartsFromScraps, quantityNeeded);
+
+  let scrapsUsed = 0;
+  let covered = 0;
+  for (const remnant of partsFitAnalysis.remnants) {
+    if (covered >= quantityNeeded || remnant.parts === 0) break;
+    covered += remnant.parts;
+    scrapsUsed++;
+  }
+
+  const usedArea = partsProduced * partWidth * partLength;
+
+  return {
+    canMeetDemand: partsFitAnalysis.totalPartsFromScraps >= quantityNeeded,
+    partsProduced,
+    scrapsUsed,
+    scrapsRemaining: partsFitAnalysis.remnants.length - scrapsUsed,
+    utilizationEfficiency: Math.round((usedArea / totalScrapArea) * 100 * 10) / 10,
+    totalScrapArea: Math.round(totalScrapArea),
+    usedArea: Math.round(usedArea),
+    wasteArea: Math.round(totalScrapArea - usedArea),
+    pickList: partsFitAnalysis.remnants.slice(0, scrapsUsed).map(remnant => `${remnant.size} from ${remnant.location}`),
+  };
+}
+
 function calculateValueRecovery(
   utilizationAnalysis: any,
   materialValue: number,
@@ -406,6 +545,21 @@ function generateScrapRecommendations(
     });
   }
 
+  // Inventory recommendations: where to pick, or why the typed-in size was used
+  if (utilizationAnalysis.pickList?.length > 0) {
+    recommendations.push({
+      type: 'Picking',
+      suggestion: `Pull ${utilizationAnalysis.pickList.join('; ')}.`,
+      impact: 'Medium',
+    });
+  } else if (inputs.scrapSource === 'inventory') {
+    recommendations.push({
+      type: 'Inventory',
+      suggestion: `No ${inputs.thickness} mm ${inputs.materialType} remnants are on the rack; the scrap size entered was used.`,
+      impact: 'Low',
+    });
+  }
+
   // Orientation recommendations
   if (partsFitAnalysis.bestOrientation === 'rotated') {
     recommendations.push({
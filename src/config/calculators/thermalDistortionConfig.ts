@@ -1,4 +1,5 @@
 import { CalculatorConfig } from '../../types/calculator';
+import { materialRegistry } from '../../services/materialRegistry';
 
 export const thermalDistortionConfig: CalculatorConfig = {
   id: 'thermal-distortion',
@@ -319,40 +320,15 @@ function predictThermalDistortion(
 }
 
 function getMaterialProperties(materialType: string) {
-  const properties = {
-    carbon_steel: {
-      thermalExpansion: 12e-6, // /°C
-      elasticModulus: 200000, // MPa
-      thermalConductivity: 50, // W/m·K
-      yieldStrength: 250, // MPa
-    },
-    stainless_steel: {
-      thermalExpansion: 17e-6,
-      elasticModulus: 200000,
-      thermalConductivity: 16,
-      yieldStrength: 300,
-    },
-    aluminum: {
-      thermalExpansion: 23e-6,
-      elasticModulus: 70000,
-      thermalConductivity: 237,
-      yieldStrength: 100,
-    },
-    copper: {
-      thermalExpansion: 17e-6,
-      elasticModulus: 120000,
-      thermalConductivity: 401,
-      yieldStrength: 70,
-    },
-    titanium: {
-      thermalExpansion: 8.6e-6,
-      elasticModulus: 110000,
-      thermalConductivity: 22,
-      yieldStrength: 350,
-    },
+  const grade = materialRegistry.find(materialType);
+  const { thermal, mechanical } = grade?.mechanical ? grade : materialRegistry.get('carbon_steel');
+
+  return {
+    thermalExpansion: thermal.expansion, // /°C
+    elasticModulus: mechanical?.elasticModulus ?? 200000, // MPa
+    thermalConductivity: thermal.conductivity, // W/m·K
+    yieldStrength: mechanical?.yieldStrength ?? 250, // MPa
   };
-  
-  return properties[materialType] || properties.carbon_steel;
 }
 
 function calculateBaseDistortion(heatInput: number, slendernessRatio: number, materialProps: any, thickness: number) {
@@ -210,17 +210,24 @@ export class ModuleDependencyResolver implements DependencyResolver {
         visit(moduleId);
       }
       
-      // Sort by priority if available
-      result.sort((a, b) => {
-        const metaA = this.moduleMetadata.get(a);
-        const metaB = this.moduleMetadata.get(b);
-        const priorityA = metaA?.priority || 0;
-        const priorityB = metaB?.priority || 0;
-        return priorityB - priorityA; // Higher priority first
-      });
+      // Higher priority first, but never ahead of one of its own dependencies
+      const ordered: string[] = [];
+      const pending = [...result];
+      const priority = (id: string) => this.moduleMetadata.get(id)?.priority || 0;
+      while (pending.length > 0) {
+        const ready = pending.filter(id =>
+          (this.dependencyGraph.get(id) || []).every(depId => !pending.includes(depId))
+        );
+        if (ready.length === 0) {
+          throw new DependencyError(`Circular dependency detected in load order calculation`, pending[0], pending);
+        }
+        const next = ready.reduce((best, id) => (priority(id) > priority(best) ? id : best), ready[0]);
+        ordered.push(next);
+        pending.splice(pending.indexOf(next), 1);
+      }
       
-      console.log(`✅ Load order calculated:`, result);
-      return result;
+      console.log(`✅ Load order calculated:`, ordered);
+      return ordered;
       
     } catch (error) {
       console.error(`❌ Failed to calculate load order:`, error);
@@ -0,0 +1,63 @@
+/**
+ * Feature Calculator Module
+ *
+ * Adapts a feature calculator (BaseCalculator) to the CalculatorModule interface so the
+ * calculators in src/features/calculators can be registered, discovered and run through
+ * the module registry.
+ */
+
+import { BaseCalculatorModule } from './BaseCalculatorModule';
+import { ModuleMetadata } from '../types/calculator-module';
+import type { BaseCalculationResult, BaseCalculatorConfig, IBaseCalculator } from '../lib/calculator/BaseCalculator';
+
+export class FeatureCalculatorModule extends BaseCalculatorModule {
+  readonly calculator: IBaseCalculator;
+
+  constructor(calculator: IBaseCalculator) {
+    super(FeatureCalculatorModule.metadataFor(calculator.config));
+    this.calculator = calculator;
+  }
+
+  /**
+   * Module metadata from the calculator configuration
+   */
+  static metadataFor(config: BaseCalculatorConfig): ModuleMetadata {
+    return {
+      id: config.id,
+      name: config.title,
+      version: config.version,
+      description: config.description,
+      category: FeatureCalculatorModule.categoryFor(config),
+      tags: [config.category, config.badge, config.resultType].map(tag => tag.toLowerCase().replace(/\s+/g, '-')),
+      aiEnhanced: config.badge === 'AI Enhanced'
+    };
+  }
+
+  private static categoryFor(config: BaseCalculatorConfig): ModuleMetadata['category'] {
+    if (config.resultType === 'price') return 'cost';
+    if (config.resultType === 'time') return 'time';
+    if (config.category === 'Quality Control') return 'quality';
+    if (config.category === 'Advanced Analysis') return 'advanced';
+    return 'parameters';
+  }
+
+  /**
+   * Applies the selected machine and runs the calculator. Callers validate first; the
+   * calculator reports bad inputs in the result rather than throwing.
+   */
+  async calculate(inputs: Record<string, unknown>): Promise<BaseCalculationResult> {
+    return this.calculator.calculate(this.calculator.resolveInputs(inputs));
+  }
+
+  protected onValidateInputs(inputs: Record<string, unknown>): boolean {
+    return this.calculator.validateInputs(inputs).isValid;
+  }
+
+  protected onGetSchema(): object {
+    return { fields: this.calculator.config.inputs };
+  }
+
+  protected onGetExamples(): Record<string, unknown>[] {
+    return [this.calculator.getExampleInputs()];
+  }
+}
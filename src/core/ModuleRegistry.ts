@@ -13,6 +13,11 @@ import {
   ModuleError
 } from '../types/calculator-module';
 
+/**
+ * Where the registry reports registrations and problems; the console unless given
+ */
+export type RegistryLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
 interface RegisteredModule {
   module: CalculatorModule;
   config: ModuleConfig;
@@ -31,8 +36,11 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
     timeout: 10000
   };
 
-  constructor() {
-    console.log('🔧 Calculator Module Registry initialized');
+  private logger: RegistryLogger;
+
+  constructor(options: { logger?: RegistryLogger } = {}) {
+    this.logger = options.logger ?? console;
+    this.logger.log('🔧 Calculator Module Registry initialized');
   }
 
   /**
@@ -42,7 +50,7 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
     const moduleId = module.metadata.id;
     
     try {
-      console.log(`📝 Registering module: ${moduleId}`);
+      this.logger.log(`📝 Registering module: ${moduleId}`);
       
       // Validate module
       this.validateModule(module);
@@ -55,7 +63,7 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
       
       // Check for conflicts
       if (this.modules.has(moduleId)) {
-        console.warn(`⚠️ Module ${moduleId} is already registered, replacing...`);
+        this.logger.warn(`⚠️ Module ${moduleId} is already registered, replacing...`);
         await this.unregister(moduleId);
       }
       
@@ -69,7 +77,7 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
       
       this.modules.set(moduleId, registeredModule);
       
-      console.log(`✅ Module registered: ${moduleId}`, {
+      this.logger.log(`✅ Module registered: ${moduleId}`, {
         name: module.metadata.name,
         version: module.metadata.version,
         category: module.metadata.category,
@@ -77,7 +85,7 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
       });
       
     } catch (error) {
-      console.error(`❌ Failed to register module ${moduleId}:`, error);
+      this.logger.error(`❌ Failed to register module ${moduleId}:`, error);
       throw new ModuleError(
         `Failed to register module ${moduleId}`,
         moduleId,
@@ -93,12 +101,12 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
   async unregister(moduleId: string): Promise<void> {
     const registeredModule = this.modules.get(moduleId);
     if (!registeredModule) {
-      console.warn(`⚠️ Module ${moduleId} is not registered`);
+      this.logger.warn(`⚠️ Module ${moduleId} is not registered`);
       return;
     }
 
     try {
-      console.log(`🔧 Unregistering module: ${moduleId}`);
+      this.logger.log(`🔧 Unregistering module: ${moduleId}`);
       
       // Destroy module if it's initialized
       if (registeredModule.module.getStatus().initialized) {
@@ -108,10 +116,10 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
       // Remove from registry
       this.modules.delete(moduleId);
       
-      console.log(`✅ Module unregistered: ${moduleId}`);
+      this.logger.log(`✅ Module unregistered: ${moduleId}`);
       
     } catch (error) {
-      console.error(`❌ Error unregistering module ${moduleId}:`, error);
+      this.logger.error(`❌ Error unregistering module ${moduleId}:`, error);
       throw new ModuleError(
         `Failed to unregister module ${moduleId}`,
         moduleId,
@@ -199,7 +207,7 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
       throw new ModuleError(`Module ${moduleId} not found`, moduleId, 'NOT_FOUND');
     }
 
-    console.log(`🔧 Updating config for module: ${moduleId}`, config);
+    this.logger.log(`🔧 Updating config for module: ${moduleId}`, config);
     
     // Merge with existing config
     registeredModule.config = {
@@ -207,7 +215,7 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
       ...config
     };
     
-    console.log(`✅ Config updated for module: ${moduleId}`);
+    this.logger.log(`✅ Config updated for module: ${moduleId}`);
   }
 
   /**
@@ -334,17 +342,17 @@ export class CalculatorModuleRegistry implements ModuleRegistry {
    * Clear all registered modules
    */
   async clearAll(): Promise<void> {
-    console.log('🔧 Clearing all registered modules...');
+    this.logger.log('🔧 Clearing all registered modules...');
     
     const moduleIds = Array.from(this.modules.keys());
     for (const moduleId of moduleIds) {
       try {
         await this.unregister(moduleId);
       } catch (error) {
-        console.error(`❌ Error unregistering module ${moduleId}:`, error);
+        this.logger.error(`❌ Error unregistering module ${moduleId}:`, error);
       }
     }
     
-    console.log('✅ All modules cleared from registry');
+    this.logger.log('✅ All modules cleared from registry');
   }
 }
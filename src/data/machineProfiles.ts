@@ -0,0 +1,77 @@
+import { LaserMachine } from '../types/calculator';
+
+/**
+ * Built-in machine profiles: typical flatbed cutters for each common source and power
+ * class. Shops add their own machines through the machine profile registry.
+ */
+export const MACHINE_PROFILES: LaserMachine[] = [
+  {
+    id: 'generic_fiber_3kw',
+    name: 'Generic Fiber 3 kW',
+    manufacturer: 'Generic',
+    source: 'fiber',
+    maxPower: 3000,
+    beamQuality: 1.1,
+    beamDiameter: 10,
+    focalLength: 125,
+    nozzles: [1.0, 1.5, 2.0, 2.5, 3.0],
+    workingArea: { x: 3000, y: 1500, z: 100 },
+    axes: { rapidSpeed: 100000, maxCuttingSpeed: 40000, acceleration: 10000 },
+    accuracy: 0.03,
+    gasSupply: { gases: ['oxygen', 'nitrogen', 'air'], maxPressure: 20 },
+    maxThickness: { steel: 20, stainless_steel: 10, aluminum: 8, copper: 4, brass: 5, titanium: 6 },
+    operatingCost: {
+      powerConsumption: 12,
+      maintenanceCostPerHour: 4,
+      gasConsumptionRate: 300,
+      machineRatePerHour: 60,
+      operatorRatePerHour: 30
+    }
+  },
+  {
+    id: 'generic_fiber_6kw',
+    name: 'Generic Fiber 6 kW',
+    manufacturer: 'Generic',
+    source: 'fiber',
+    maxPower: 6000,
+    beamQuality: 1.2,
+    beamDiameter: 10,
+    focalLength: 150,
+    nozzles: [1.0, 1.5, 2.0, 2.5, 3.0, 4.0],
+    workingArea: { x: 4000, y: 2000, z: 120 },
+    axes: { rapidSpeed: 140000, maxCuttingSpeed: 60000, acceleration: 15000 },
+    accuracy: 0.03,
+    gasSupply: { gases: ['oxygen', 'nitrogen', 'air', 'argon'], maxPressure: 25 },
+    maxThickness: { steel: 25, stainless_steel: 20, aluminum: 20, copper: 8, brass: 10, titanium: 12 },
+    operatingCost: {
+      powerConsumption: 22,
+      maintenanceCostPerHour: 6,
+      gasConsumptionRate: 450,
+      machineRatePerHour: 95,
+      operatorRatePerHour: 30
+    }
+  },
+  {
+    id: 'generic_co2_4kw',
+    name: 'Generic CO₂ 4 kW',
+    manufacturer: 'Generic',
+    source: 'co2',
+    maxPower: 4000,
+    beamQuality: 1.5,
+    beamDiameter: 20,
+    focalLength: 190,
+    nozzles: [1.0, 1.5, 2.0, 2.5],
+    workingArea: { x: 3000, y: 1500, z: 100 },
+    axes: { rapidSpeed: 60000, maxCuttingSpeed: 20000, acceleration: 5000 },
+    accuracy: 0.05,
+    gasSupply: { gases: ['oxygen', 'nitrogen', 'air'], maxPressure: 20 },
+    maxThickness: { steel: 20, stainless_steel: 12, aluminum: 8, plastic: 25, wood: 20 },
+    operatingCost: {
+      powerConsumption: 45,
+      maintenanceCostPerHour: 8,
+      gasConsumptionRate: 350,
+      machineRatePerHour: 70,
+      operatorRatePerHour: 30
+    }
+  }
+];
@@ -0,0 +1,604 @@
+import { CuttingChart, MaterialGrade } from '../types/calculator';
+
+// Fiber laser cutting charts (mm/min) for the generic family entries. Grades without a
+// chart of their own cut from these.
+const STEEL_CHART: CuttingChart = {
+  speeds: {
+    1: { 1000: 8000, 2000: 12000, 3000: 15000, 4000: 16000, 6000: 18000 },
+    2: { 1000: 6000, 2000: 9000, 3000: 12000, 4000: 14000, 6000: 16000 },
+    3: { 1000: 4500, 2000: 7000, 3000: 9500, 4000: 11000, 6000: 13000 },
+    5: { 1000: 3000, 2000: 5000, 3000: 7000, 4000: 8500, 6000: 10000 },
+    8: { 1000: 2000, 2000: 3500, 3000: 5000, 4000: 6000, 6000: 7500 },
+    10: { 1000: 1500, 2000: 2800, 3000: 4000, 4000: 5000, 6000: 6200 },
+    15: { 1000: 1000, 2000: 1800, 3000: 2500, 4000: 3200, 6000: 4000 },
+    20: { 1000: 700, 2000: 1200, 3000: 1800, 4000: 2300, 6000: 2800 },
+    25: { 1000: 500, 2000: 900, 3000: 1300, 4000: 1700, 6000: 2100 }
+  },
+  pierceTimes: { 1: 0.1, 2: 0.2, 3: 0.3, 5: 0.5, 8: 0.8, 10: 1.2, 15: 2.0, 20: 3.0, 25: 4.5 }
+};
+
+const STAINLESS_CHART: CuttingChart = {
+  speeds: {
+    1: { 1000: 6000, 2000: 9000, 3000: 11000, 4000: 12000, 6000: 13000 },
+    2: { 1000: 4500, 2000: 6500, 3000: 8500, 4000: 9500, 6000: 11000 },
+    3: { 1000: 3500, 2000: 5000, 3000: 6500, 4000: 7500, 6000: 8500 },
+    5: { 1000: 2200, 2000: 3500, 3000: 4500, 4000: 5500, 6000: 6500 },
+    8: { 1000: 1400, 2000: 2200, 3000: 3000, 4000: 3800, 6000: 4500 },
+    10: { 1000: 1000, 2000: 1700, 3000: 2300, 4000: 2900, 6000: 3500 },
+    15: { 1000: 600, 2000: 1000, 3000: 1400, 4000: 1800, 6000: 2200 },
+    20: { 1000: 400, 2000: 700, 3000: 1000, 4000: 1300, 6000: 1600 }
+  },
+  pierceTimes: { 1: 0.15, 2: 0.3, 3: 0.45, 5: 0.7, 8: 1.2, 10: 1.8, 15: 3.0, 20: 4.5 }
+};
+
+const ALUMINUM_CHART: CuttingChart = {
+  speeds: {
+    1: { 1000: 10000, 2000: 15000, 3000: 18000, 4000: 20000, 6000: 22000 },
+    2: { 1000: 8000, 2000: 12000, 3000: 15000, 4000: 17000, 6000: 19000 },
+    3: { 1000: 6500, 2000: 9500, 3000: 12000, 4000: 14000, 6000: 16000 },
+    5: { 1000: 4500, 2000: 7000, 3000: 9000, 4000: 11000, 6000: 13000 },
+    8: { 1000: 3000, 2000: 4500, 3000: 6000, 4000: 7500, 6000: 9000 },
+    10: { 1000: 2200, 2000: 3500, 3000: 4500, 4000: 5500, 6000: 6500 },
+    15: { 1000: 1500, 2000: 2300, 3000: 3000, 4000: 3700, 6000: 4500 },
+    20: { 1000: 1000, 2000: 1600, 3000: 2100, 4000: 2600, 6000: 3200 }
+  },
+  pierceTimes: { 1: 0.08, 2: 0.15, 3: 0.25, 5: 0.4, 8: 0.6, 10: 0.9, 15: 1.5, 20: 2.2 }
+};
+
+const STEEL_CUTTING: MaterialGrade['cutting'] = {
+  assistGas: 'oxygen',
+  gasPressure: [0.5, 2.0],
+  powerRange: [500, 6000],
+  speedRange: [500, 8000],
+  focusOffset: 0
+};
+
+const STAINLESS_CUTTING: MaterialGrade['cutting'] = {
+  assistGas: 'nitrogen',
+  gasPressure: [8, 20],
+  powerRange: [1000, 8000],
+  speedRange: [300, 5000],
+  focusOffset: 0
+};
+
+const ALUMINUM_CUTTING: MaterialGrade['cutting'] = {
+  assistGas: 'nitrogen',
+  gasPressure: [10, 25],
+  powerRange: [2000, 12000],
+  speedRange: [1000, 12000],
+  focusOffset: -1
+};
+
+const TITANIUM_CUTTING: MaterialGrade['cutting'] = {
+  assistGas: 'argon',
+  gasPressure: [5, 15],
+  powerRange: [2000, 10000],
+  speedRange: [200, 2000],
+  focusOffset: 0
+};
+
+const NICKEL_CUTTING: MaterialGrade['cutting'] = {
+  assistGas: 'nitrogen',
+  gasPressure: [12, 22],
+  powerRange: [2000, 12000],
+  speedRange: [200, 3000],
+  focusOffset: -0.5
+};
+
+/**
+ * Built-in material grades. The entry whose id equals its family name is the generic
+ * grade of that family; the feature calculators were written against those ids, so they
+ * stay canonical and the data files' and config calculators' ids are listed as aliases.
+ */
+export const MATERIAL_DATABASE: MaterialGrade[] = [
+  // Carbon and low-alloy steels
+  {
+    id: 'steel',
+    name: 'Mild Steel',
+    family: 'steel',
+    category: 'metal',
+    grade: 'S235',
+    standard: 'EN 10025',
+    aliases: ['mild_steel', 'structural_steel'],
+    thermal: { conductivity: 50, specificHeat: 490, density: 7850, meltingPoint: 1538, boilingPoint: 2862, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85, co2: 0.15, nd_yag: 0.75, disk: 0.85, diode: 0.8 } },
+    mechanical: { yieldStrength: 250, tensileStrength: 400, elasticModulus: 200000 },
+    cutting: { ...STEEL_CUTTING, chart: STEEL_CHART },
+    costPerKg: 0.8,
+    availability: 'common'
+  },
+  {
+    id: 'carbon_steel',
+    name: 'Carbon Steel',
+    family: 'steel',
+    category: 'metal',
+    grade: '1018',
+    standard: 'ASTM A108',
+    thermal: { conductivity: 43, specificHeat: 486, density: 7870, meltingPoint: 1515, boilingPoint: 2862, expansion: 11.7e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 370, tensileStrength: 440, elasticModulus: 205000 },
+    cutting: { ...STEEL_CUTTING, gasPressure: [0.8, 2.5], powerRange: [800, 8000], speedRange: [400, 6000] },
+    costPerKg: 0.9,
+    availability: 'common'
+  },
+  {
+    id: 'galvanized_steel',
+    name: 'Galvanized Steel',
+    family: 'steel',
+    category: 'metal',
+    grade: 'DX51D+Z',
+    standard: 'EN 10346',
+    aliases: ['galvanized'],
+    thermal: { conductivity: 50, specificHeat: 490, density: 7850, meltingPoint: 1530, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.12 } },
+    mechanical: { yieldStrength: 240, tensileStrength: 370, elasticModulus: 200000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [10, 18] },
+    costPerKg: 1.1,
+    availability: 'common'
+  },
+  {
+    id: 'tool_steel',
+    name: 'Tool Steel',
+    family: 'steel',
+    category: 'metal',
+    grade: 'D2',
+    standard: 'ASTM A681',
+    thermal: { conductivity: 25, specificHeat: 460, density: 7800, meltingPoint: 1420, expansion: 10.4e-6 },
+    optical: { absorptivity: { fiber: 0.83 } },
+    mechanical: { yieldStrength: 400, tensileStrength: 740, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, powerRange: [1500, 8000], speedRange: [300, 4000] },
+    costPerKg: 4.5,
+    availability: 'specialty'
+  },
+  {
+    id: 'hsla_420',
+    name: 'HSLA 420 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'HC420LA',
+    standard: 'EN 10268',
+    thermal: { conductivity: 45, specificHeat: 480, density: 7850, meltingPoint: 1510, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 420, tensileStrength: 520, elasticModulus: 210000 },
+    cutting: STEEL_CUTTING,
+    costPerKg: 1.2,
+    availability: 'common'
+  },
+  {
+    id: 'hsla_590',
+    name: 'HSLA 590 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'HR590',
+    thermal: { conductivity: 43, specificHeat: 480, density: 7850, meltingPoint: 1505, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 460, tensileStrength: 590, elasticModulus: 210000 },
+    cutting: STEEL_CUTTING,
+    costPerKg: 1.3,
+    availability: 'common'
+  },
+  {
+    id: 'dp_780',
+    name: 'Dual Phase 780 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'DP780',
+    thermal: { conductivity: 40, specificHeat: 470, density: 7850, meltingPoint: 1500, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 500, tensileStrength: 780, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [10, 18] },
+    costPerKg: 1.5,
+    availability: 'common'
+  },
+  {
+    id: 'dp_980',
+    name: 'Dual Phase 980 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'DP980',
+    thermal: { conductivity: 38, specificHeat: 470, density: 7850, meltingPoint: 1500, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 700, tensileStrength: 980, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [10, 18] },
+    costPerKg: 1.7,
+    availability: 'specialty'
+  },
+  {
+    id: 'cp_800',
+    name: 'Complex Phase 800 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'CP800',
+    thermal: { conductivity: 39, specificHeat: 470, density: 7850, meltingPoint: 1500, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 680, tensileStrength: 800, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [10, 18] },
+    costPerKg: 1.6,
+    availability: 'specialty'
+  },
+  {
+    id: 'cp_1000',
+    name: 'Complex Phase 1000 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'CP1000',
+    thermal: { conductivity: 37, specificHeat: 470, density: 7850, meltingPoint: 1495, expansion: 12e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 800, tensileStrength: 1000, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [10, 18] },
+    costPerKg: 1.9,
+    availability: 'specialty'
+  },
+  {
+    id: 'mart_1200',
+    name: 'Martensitic 1200 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: 'MS1200',
+    thermal: { conductivity: 35, specificHeat: 460, density: 7850, meltingPoint: 1490, expansion: 11.5e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 950, tensileStrength: 1200, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [12, 20] },
+    costPerKg: 2.1,
+    availability: 'specialty'
+  },
+  {
+    id: 'mart_1500',
+    name: 'Martensitic 1500 MPa',
+    family: 'steel',
+    category: 'metal',
+    grade: '22MnB5',
+    standard: 'EN 10083-3',
+    thermal: { conductivity: 33, specificHeat: 460, density: 7850, meltingPoint: 1490, expansion: 11.5e-6 },
+    optical: { absorptivity: { fiber: 0.85 } },
+    mechanical: { yieldStrength: 1150, tensileStrength: 1500, elasticModulus: 210000 },
+    cutting: { ...STEEL_CUTTING, assistGas: 'nitrogen', gasPressure: [12, 20] },
+    costPerKg: 2.4,
+    availability: 'specialty'
+  },
+
+  // Stainless steels
+  {
+    id: 'stainless_steel',
+    name: 'Stainless Steel',
+    family: 'stainless_steel',
+    category: 'metal',
+    aliases: ['stainless'],
+    thermal: { conductivity: 16, specificHeat: 500, density: 8000, meltingPoint: 1400, boilingPoint: 2900, expansion: 17e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.12, nd_yag: 0.7, disk: 0.8, diode: 0.75 } },
+    mechanical: { yieldStrength: 205, tensileStrength: 515, elasticModulus: 200000 },
+    cutting: { ...STAINLESS_CUTTING, chart: STAINLESS_CHART },
+    costPerKg: 2.5,
+    availability: 'common'
+  },
+  {
+    id: 'stainless_304',
+    name: 'Stainless Steel 304',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '304',
+    standard: 'ASTM A240',
+    aliases: ['stainless_steel_304'],
+    thermal: { conductivity: 16.2, specificHeat: 500, density: 8000, meltingPoint: 1450, boilingPoint: 2900, expansion: 17.3e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.12 } },
+    mechanical: { yieldStrength: 215, tensileStrength: 505, elasticModulus: 193000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 2.5,
+    availability: 'common'
+  },
+  {
+    id: 'stainless_316',
+    name: 'Stainless Steel 316',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '316',
+    standard: 'ASTM A240',
+    aliases: ['stainless_steel_316'],
+    thermal: { conductivity: 16.3, specificHeat: 500, density: 8000, meltingPoint: 1400, expansion: 16e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.12 } },
+    mechanical: { yieldStrength: 205, tensileStrength: 515, elasticModulus: 193000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 3.8,
+    availability: 'common'
+  },
+  {
+    id: 'stainless_316l',
+    name: 'Stainless Steel 316L',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '316L',
+    standard: 'ASTM A240',
+    aliases: ['stainless_316lvm'],
+    thermal: { conductivity: 16.3, specificHeat: 500, density: 8000, meltingPoint: 1400, expansion: 16e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.12 } },
+    mechanical: { yieldStrength: 170, tensileStrength: 485, elasticModulus: 193000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 4.1,
+    availability: 'common'
+  },
+  {
+    id: 'stainless_321',
+    name: 'Stainless Steel 321',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '321',
+    standard: 'ASTM A240',
+    thermal: { conductivity: 16.1, specificHeat: 500, density: 8000, meltingPoint: 1400, expansion: 16.6e-6 },
+    optical: { absorptivity: { fiber: 0.8 } },
+    mechanical: { yieldStrength: 205, tensileStrength: 515, elasticModulus: 193000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 4.5,
+    availability: 'specialty'
+  },
+  {
+    id: 'stainless_409',
+    name: 'Stainless Steel 409',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '409',
+    standard: 'ASTM A240',
+    thermal: { conductivity: 25, specificHeat: 460, density: 7800, meltingPoint: 1480, expansion: 11.7e-6 },
+    optical: { absorptivity: { fiber: 0.82 } },
+    mechanical: { yieldStrength: 205, tensileStrength: 380, elasticModulus: 200000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 2.0,
+    availability: 'common'
+  },
+  {
+    id: 'stainless_17_4ph',
+    name: 'Stainless Steel 17-4 PH',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '17-4 PH',
+    standard: 'ASTM A693',
+    thermal: { conductivity: 18.3, specificHeat: 460, density: 7800, meltingPoint: 1440, expansion: 10.8e-6 },
+    optical: { absorptivity: { fiber: 0.8 } },
+    mechanical: { yieldStrength: 1172, tensileStrength: 1310, elasticModulus: 196000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 7.5,
+    availability: 'specialty'
+  },
+  {
+    id: 'stainless_15_5ph',
+    name: 'Stainless Steel 15-5 PH',
+    family: 'stainless_steel',
+    category: 'metal',
+    grade: '15-5 PH',
+    standard: 'ASTM A693',
+    thermal: { conductivity: 16.3, specificHeat: 460, density: 7800, meltingPoint: 1440, expansion: 10.8e-6 },
+    optical: { absorptivity: { fiber: 0.8 } },
+    mechanical: { yieldStrength: 1310, tensileStrength: 1380, elasticModulus: 196000 },
+    cutting: STAINLESS_CUTTING,
+    costPerKg: 8.0,
+    availability: 'rare'
+  },
+
+  // Aluminium alloys
+  {
+    id: 'aluminum',
+    name: 'Aluminum',
+    family: 'aluminum',
+    category: 'metal',
+    aliases: ['aluminium', 'aluminum_alloy'],
+    thermal: { conductivity: 237, specificHeat: 896, density: 2700, meltingPoint: 660, boilingPoint: 2519, expansion: 23e-6 },
+    optical: { absorptivity: { fiber: 0.75, co2: 0.08, nd_yag: 0.65, disk: 0.75, diode: 0.7 } },
+    mechanical: { yieldStrength: 276, tensileStrength: 310, elasticModulus: 70000 },
+    cutting: { ...ALUMINUM_CUTTING, chart: ALUMINUM_CHART },
+    costPerKg: 1.8,
+    availability: 'common'
+  },
+  {
+    id: 'aluminum_3003',
+    name: 'Aluminum 3003-H14',
+    family: 'aluminum',
+    category: 'metal',
+    grade: '3003-H14',
+    standard: 'ASTM B209',
+    thermal: { conductivity: 159, specificHeat: 893, density: 2730, meltingPoint: 643, expansion: 23.2e-6 },
+    optical: { absorptivity: { fiber: 0.74 } },
+    mechanical: { yieldStrength: 145, tensileStrength: 150, elasticModulus: 69000 },
+    cutting: ALUMINUM_CUTTING,
+    costPerKg: 2.0,
+    availability: 'common'
+  },
+  {
+    id: 'aluminum_5052',
+    name: 'Aluminum 5052-H32',
+    family: 'aluminum',
+    category: 'metal',
+    grade: '5052-H32',
+    standard: 'ASTM B209',
+    thermal: { conductivity: 138, specificHeat: 880, density: 2680, meltingPoint: 607, expansion: 23.8e-6 },
+    optical: { absorptivity: { fiber: 0.76 } },
+    mechanical: { yieldStrength: 193, tensileStrength: 228, elasticModulus: 70300 },
+    cutting: ALUMINUM_CUTTING,
+    costPerKg: 2.3,
+    availability: 'common'
+  },
+  {
+    id: 'aluminum_6061',
+    name: 'Aluminum 6061-T6',
+    family: 'aluminum',
+    category: 'metal',
+    grade: '6061-T6',
+    standard: 'ASTM B209',
+    thermal: { conductivity: 167, specificHeat: 896, density: 2700, meltingPoint: 582, boilingPoint: 2519, expansion: 23.6e-6 },
+    optical: { absorptivity: { fiber: 0.75, co2: 0.1 } },
+    mechanical: { yieldStrength: 276, tensileStrength: 310, elasticModulus: 68900 },
+    cutting: ALUMINUM_CUTTING,
+    costPerKg: 1.8,
+    availability: 'common'
+  },
+  {
+    id: 'aluminum_7075',
+    name: 'Aluminum 7075-T6',
+    family: 'aluminum',
+    category: 'metal',
+    grade: '7075-T6',
+    standard: 'ASTM B209',
+    thermal: { conductivity: 130, specificHeat: 960, density: 2810, meltingPoint: 477, expansion: 23.2e-6 },
+    optical: { absorptivity: { fiber: 0.74 } },
+    mechanical: { yieldStrength: 503, tensileStrength: 572, elasticModulus: 71700 },
+    cutting: ALUMINUM_CUTTING,
+    costPerKg: 5.5,
+    availability: 'specialty'
+  },
+  {
+    id: 'aluminum_2024',
+    name: 'Aluminum 2024-T3',
+    family: 'aluminum',
+    category: 'metal',
+    grade: '2024-T3',
+    standard: 'ASTM B209',
+    thermal: { conductivity: 121, specificHeat: 875, density: 2780, meltingPoint: 502, expansion: 22.9e-6 },
+    optical: { absorptivity: { fiber: 0.74 } },
+    mechanical: { yieldStrength: 324, tensileStrength: 469, elasticModulus: 73100 },
+    cutting: ALUMINUM_CUTTING,
+    costPerKg: 5.0,
+    availability: 'specialty'
+  },
+
+  // Copper and copper alloys
+  {
+    id: 'copper',
+    name: 'Copper',
+    family: 'copper',
+    category: 'metal',
+    grade: 'C101',
+    aliases: ['copper_c101'],
+    thermal: { conductivity: 401, specificHeat: 385, density: 8960, meltingPoint: 1085, boilingPoint: 2562, expansion: 17e-6 },
+    optical: { absorptivity: { fiber: 0.7, co2: 0.05, nd_yag: 0.6, disk: 0.7, diode: 0.65 } },
+    mechanical: { yieldStrength: 70, tensileStrength: 220, elasticModulus: 110000 },
+    cutting: { assistGas: 'nitrogen', gasPressure: [12, 25], powerRange: [3000, 12000], speedRange: [500, 4000], focusOffset: -1 },
+    costPerKg: 9.2,
+    availability: 'common'
+  },
+  {
+    id: 'brass',
+    name: 'Brass',
+    family: 'brass',
+    category: 'metal',
+    grade: 'C360',
+    aliases: ['brass_c360'],
+    thermal: { conductivity: 120, specificHeat: 380, density: 8500, meltingPoint: 930, boilingPoint: 2562, expansion: 19e-6 },
+    optical: { absorptivity: { fiber: 0.72, co2: 0.06, nd_yag: 0.62, disk: 0.72, diode: 0.67 } },
+    mechanical: { yieldStrength: 310, tensileStrength: 470, elasticModulus: 100000 },
+    cutting: { assistGas: 'nitrogen', gasPressure: [8, 20], powerRange: [1500, 8000], speedRange: [800, 8000], focusOffset: -0.5 },
+    costPerKg: 6.5,
+    availability: 'common'
+  },
+
+  // Titanium
+  {
+    id: 'titanium',
+    name: 'Titanium Grade 2',
+    family: 'titanium',
+    category: 'metal',
+    grade: 'Grade 2',
+    standard: 'ASTM B265',
+    aliases: ['titanium_grade2', 'titanium_cp'],
+    thermal: { conductivity: 22, specificHeat: 520, density: 4500, meltingPoint: 1668, boilingPoint: 3287, expansion: 8.6e-6 },
+    optical: { absorptivity: { fiber: 0.78, co2: 0.1, nd_yag: 0.68, disk: 0.78, diode: 0.72 } },
+    mechanical: { yieldStrength: 275, tensileStrength: 345, elasticModulus: 114000 },
+    cutting: TITANIUM_CUTTING,
+    costPerKg: 35,
+    availability: 'specialty'
+  },
+  {
+    id: 'titanium_6al4v',
+    name: 'Titanium Ti-6Al-4V',
+    family: 'titanium',
+    category: 'metal',
+    grade: 'Grade 5',
+    standard: 'ASTM B265',
+    aliases: ['titanium_grade5', 'titanium_grade23', 'ti6al4v'],
+    thermal: { conductivity: 6.7, specificHeat: 526, density: 4430, meltingPoint: 1604, boilingPoint: 3287, expansion: 8.6e-6 },
+    optical: { absorptivity: { fiber: 0.78 } },
+    mechanical: { yieldStrength: 880, tensileStrength: 950, elasticModulus: 114000 },
+    cutting: TITANIUM_CUTTING,
+    costPerKg: 45,
+    availability: 'specialty'
+  },
+
+  // Nickel alloys
+  {
+    id: 'inconel_625',
+    name: 'Inconel 625',
+    family: 'nickel_alloy',
+    category: 'metal',
+    grade: '625',
+    standard: 'ASTM B443',
+    thermal: { conductivity: 9.8, specificHeat: 410, density: 8440, meltingPoint: 1290, expansion: 12.8e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.14 } },
+    mechanical: { yieldStrength: 414, tensileStrength: 827, elasticModulus: 208000 },
+    cutting: NICKEL_CUTTING,
+    costPerKg: 40,
+    availability: 'rare'
+  },
+  {
+    id: 'inconel_718',
+    name: 'Inconel 718',
+    family: 'nickel_alloy',
+    category: 'metal',
+    grade: '718',
+    standard: 'ASTM B670',
+    thermal: { conductivity: 11.4, specificHeat: 435, density: 8190, meltingPoint: 1260, expansion: 13e-6 },
+    optical: { absorptivity: { fiber: 0.8, co2: 0.14 } },
+    mechanical: { yieldStrength: 1034, tensileStrength: 1275, elasticModulus: 200000 },
+    cutting: NICKEL_CUTTING,
+    costPerKg: 45,
+    availability: 'rare'
+  },
+  {
+    id: 'hastelloy_x',
+    name: 'Hastelloy X',
+    family: 'nickel_alloy',
+    category: 'metal',
+    grade: 'X',
+    standard: 'ASTM B435',
+    thermal: { conductivity: 9.1, specificHeat: 486, density: 8220, meltingPoint: 1260, expansion: 14e-6 },
+    optical: { absorptivity: { fiber: 0.8 } },
+    mechanical: { yieldStrength: 345, tensileStrength: 785, elasticModulus: 205000 },
+    cutting: NICKEL_CUTTING,
+    costPerKg: 60,
+    availability: 'rare'
+  },
+
+  // Non-metals
+  {
+    id: 'acrylic',
+    name: 'Acrylic (PMMA)',
+    family: 'plastic',
+    category: 'plastic',
+    aliases: ['pmma'],
+    thermal: { conductivity: 0.19, specificHeat: 1420, density: 1190, meltingPoint: 160, expansion: 70e-6 },
+    optical: { absorptivity: { fiber: 0.05, co2: 0.95, diode: 0.1 } },
+    cutting: { assistGas: 'air', gasPressure: [0.1, 0.5], powerRange: [50, 500], speedRange: [100, 2000], focusOffset: 0 },
+    costPerKg: 3.5,
+    availability: 'common'
+  },
+  {
+    id: 'plywood',
+    name: 'Plywood',
+    family: 'wood',
+    category: 'wood',
+    aliases: ['wood'],
+    thermal: { conductivity: 0.13, specificHeat: 1600, density: 600, meltingPoint: 300, expansion: 5e-6 },
+    optical: { absorptivity: { fiber: 0.6, co2: 0.8, diode: 0.7 } },
+    cutting: { assistGas: 'air', gasPressure: [0.1, 0.3], powerRange: [40, 300], speedRange: [200, 3000], focusOffset: 0 },
+    costPerKg: 1.2,
+    availability: 'common'
+  },
+  {
+    id: 'wood_hardwood',
+    name: 'Hardwood',
+    family: 'wood',
+    category: 'wood',
+    aliases: ['hardwood'],
+    thermal: { conductivity: 0.16, specificHeat: 1760, density: 700, meltingPoint: 300, expansion: 5e-6 },
+    optical: { absorptivity: { fiber: 0.6, co2: 0.85, diode: 0.7 } },
+    cutting: { assistGas: 'air', gasPressure: [0.1, 0.3], powerRange: [60, 400], speedRange: [150, 2500], focusOffset: 0 },
+    costPerKg: 4.0,
+    availability: 'common'
+  }
+];
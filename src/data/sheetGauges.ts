@@ -0,0 +1,33 @@
+import { MaterialFamily } from '../types/calculator';
+
+const MANUFACTURERS_STANDARD: Record<number, number> = {
+  3: 0.2391, 4: 0.2242, 5: 0.2092, 6: 0.1943, 7: 0.1793, 8: 0.1644, 9: 0.1495,
+  10: 0.1345, 11: 0.1196, 12: 0.1046, 13: 0.0897, 14: 0.0747, 15: 0.0673, 16: 0.0598,
+  17: 0.0538, 18: 0.0478, 19: 0.0418, 20: 0.0359, 21: 0.0329, 22: 0.0299, 23: 0.0269,
+  24: 0.0239, 25: 0.0209, 26: 0.0179, 28: 0.0149, 30: 0.0120
+};
+
+const STAINLESS: Record<number, number> = {
+  7: 0.1875, 8: 0.1719, 9: 0.1563, 10: 0.1406, 11: 0.1250, 12: 0.1094, 13: 0.0940,
+  14: 0.0781, 15: 0.0700, 16: 0.0625, 17: 0.0560, 18: 0.0500, 19: 0.0440, 20: 0.0375,
+  22: 0.0313, 24: 0.0250, 26: 0.0188, 28: 0.0156, 30: 0.0125
+};
+
+const BROWN_AND_SHARPE: Record<number, number> = {
+  6: 0.1620, 7: 0.1443, 8: 0.1285, 9: 0.1144, 10: 0.1019, 11: 0.0907, 12: 0.0808,
+  13: 0.0720, 14: 0.0641, 16: 0.0508, 18: 0.0403, 20: 0.0320, 22: 0.0253, 24: 0.0201,
+  26: 0.0159
+};
+
+/**
+ * Sheet gauge thicknesses in inches by material family: the Manufacturers' Standard
+ * Gauge for carbon steel, the stainless gauge, and Brown & Sharpe for non-ferrous sheet.
+ * Families without a gauge convention are absent.
+ */
+export const SHEET_GAUGES: Partial<Record<MaterialFamily, Record<number, number>>> = {
+  steel: MANUFACTURERS_STANDARD,
+  stainless_steel: STAINLESS,
+  aluminum: BROWN_AND_SHARPE,
+  copper: BROWN_AND_SHARPE,
+  brass: BROWN_AND_SHARPE
+};
@@ -9,6 +9,7 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { gaussianBeamModel, BeamOptics, BeamProfile, SheetCaustic } from '@/services/gaussianBeamModel';
 
 // Input validation schema
 const beamQualitySchema = z.object({
@@ -17,7 +18,10 @@ const beamQualitySchema = z.object({
   power: z.number().min(100).max(50000),
   beamDiameter: z.number().min(0.01).max(5.0),
   divergenceAngle: z.number().min(0.1).max(50).optional().default(1.0),
-  focalLength: z.number().min(10).max(500).optional().default(100)
+  focalLength: z.number().min(10).max(500).optional().default(100),
+  collimatorFocalLength: z.number().min(10).max(500).optional(),
+  thickness: z.number().min(0.1).max(50).optional(),
+  focusPosition: z.number().min(-50).max(50).optional()
 });
 
 // Input types
@@ -29,6 +33,8 @@ export interface BeamQualityResults {
   beamParameterProduct: number;     // mm·mrad
   rayleighLength: number;           // mm
   focusedSpotSize: number;          // μm
+  depthOfFocus: number;             // mm
+  focusTolerance: number;           // ±mm
   powerDensity: number;             // MW/cm²
   beamQualityGrade: 'excellent' | 'good' | 'fair' | 'poor';
   opticalAnalysis: {
@@ -54,6 +60,7 @@ export interface BeamQualityResults {
     beamDivergence: number;         // mrad
     numericalAperture: number;
   };
+  caustic?: SheetCaustic;           // beam envelope through the sheet, when a thickness is given
 }
 
 // Laser type characteristics database
@@ -177,11 +184,50 @@ export class BeamQualityCalculator extends BaseCalculator {
         step: 1,
         unit: 'mm',
         help: 'Focusing lens focal length (optional)'
+      },
+      {
+        id: 'collimatorFocalLength',
+        label: 'Collimator Focal Length',
+        type: 'number',
+        required: false,
+        min: 10,
+        max: 500,
+        step: 1,
+        unit: 'mm',
+        help: 'With a collimator the beam diameter is the fibre output, imaged onto the work (optional)'
+      },
+      {
+        id: 'thickness',
+        label: 'Sheet Thickness',
+        type: 'number',
+        required: false,
+        min: 0.1,
+        max: 50,
+        step: 0.1,
+        unit: 'mm',
+        help: 'Plots the caustic through the sheet (optional)'
+      },
+      {
+        id: 'focusPosition',
+        label: 'Focus Position',
+        type: 'number',
+        required: false,
+        min: -50,
+        max: 50,
+        step: 0.1,
+        unit: 'mm',
+        help: 'Focus relative to the sheet surface, negative into the material; mid-thickness when empty'
       }
     ],
+    resultUnits: {
+      rayleighLength: 'mm',
+      focusedSpotSize: 'μm',
+      depthOfFocus: 'mm',
+      focusTolerance: 'mm'
+    },
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -238,11 +284,12 @@ export class BeamQualityCalculator extends BaseCalculator {
       // Calculate beam parameter product
       const beamParameterProduct = this.calculateBeamParameterProduct(inputs, mSquaredFactor);
       
-      // Calculate Rayleigh length
-      const rayleighLength = this.calculateRayleighLength(inputs, mSquaredFactor);
+      // Propagate the beam through the optics
+      const optics = this.beamOptics(inputs, mSquaredFactor);
+      const profile = gaussianBeamModel.profile(optics);
       
       // Calculate focused spot size
-      const focusedSpotSize = this.calculateFocusedSpotSize(inputs, mSquaredFactor);
+      const focusedSpotSize = Math.max(profile.waistDiameter * 1000, inputs.wavelength / 2); // μm, never below λ/2
       
       // Calculate power density
       const powerDensity = this.calculatePowerDensity(inputs, focusedSpotSize);
@@ -253,6 +300,11 @@ export class BeamQualityCalculator extends BaseCalculator {
       // Analyze optical characteristics
       const opticalAnalysis = this.analyzeOpticalCharacteristics(inputs, mSquaredFactor);
       
+      // Caustic through the sheet
+      const caustic = inputs.thickness
+        ? gaussianBeamModel.throughSheet(optics, inputs.thickness, inputs.focusPosition ?? -inputs.thickness / 2, { power: inputs.power })
+        : undefined;
+      
       // Assess cutting performance
       const cuttingPerformance = this.assessCuttingPerformance(inputs, mSquaredFactor, powerDensity);
       
@@ -260,21 +312,24 @@ export class BeamQualityCalculator extends BaseCalculator {
       const laserCharacteristicsResult = this.calculateLaserCharacteristics(inputs, mSquaredFactor);
       
       // Generate recommendations and warnings
-      const recommendations = this.generateRecommendations(inputs, mSquaredFactor, powerDensity);
+      const recommendations = this.generateRecommendations(inputs, mSquaredFactor, powerDensity, profile, caustic);
       const warnings = this.generateWarnings(inputs, mSquaredFactor, powerDensity);
 
       const results: BeamQualityResults = {
         mSquaredFactor: Math.round(mSquaredFactor * 1000) / 1000,
         beamParameterProduct: Math.round(beamParameterProduct * 1000) / 1000,
-        rayleighLength: Math.round(rayleighLength * 100) / 100,
+        rayleighLength: Math.round(profile.rayleighLength * 100) / 100,
         focusedSpotSize: Math.round(focusedSpotSize * 10) / 10,
+        depthOfFocus: Math.round(profile.depthOfFocus * 100) / 100,
+        focusTolerance: Math.round(profile.focusTolerance * 100) / 100,
         powerDensity: Math.round(powerDensity * 100) / 100,
         beamQualityGrade,
         opticalAnalysis,
         cuttingPerformance,
         recommendations,
         warnings,
-        laserCharacteristics: laserCharacteristicsResult
+        laserCharacteristics: laserCharacteristicsResult,
+        caustic
       };
 
       return this.createSuccessResult(results, inputs);
@@ -299,10 +354,22 @@ export class BeamQualityCalculator extends BaseCalculator {
       return Math.max(mSquared, 1.0); // M² cannot be less than 1
     }
     
-    // Otherwise, use typical values for laser type with some variation
-    const baseMSquared = laserChar.typicalMSquared;
-    const variation = 0.1 * (Math.random() - 0.5); // ±5% variation
-    return Math.max(baseMSquared + variation, 1.0);
+    // Otherwise, use the typical value for the laser type
+    return laserChar.typicalMSquared;
+  }
+
+  /**
+   * Optics for the shared beam model: the measured beam is the raw beam, on the lens unless a
+   * collimator is given
+   */
+  private beamOptics(inputs: BeamQualityInputs, mSquared: number): BeamOptics {
+    return {
+      mSquared,
+      wavelength: inputs.wavelength,
+      rawBeamDiameter: inputs.beamDiameter,
+      collimatorFocalLength: inputs.collimatorFocalLength,
+      focalLength: inputs.focalLength || 100
+    };
   }
 
   private calculateBeamParameterProduct(inputs: BeamQualityInputs, mSquared: number): number {
@@ -313,25 +380,6 @@ export class BeamQualityCalculator extends BaseCalculator {
     return waistRadius * divergenceAngle;
   }
 
-  private calculateRayleighLength(inputs: BeamQualityInputs, mSquared: number): number {
-    const wavelengthMm = inputs.wavelength / 1000; // Convert μm to mm
-    const waistRadius = inputs.beamDiameter / 2;
-    
-    // z_R = (π * w₀²) / (M² * λ)
-    return (Math.PI * Math.pow(waistRadius, 2)) / (mSquared * wavelengthMm);
-  }
-
-  private calculateFocusedSpotSize(inputs: BeamQualityInputs, mSquared: number): number {
-    const wavelengthUm = inputs.wavelength; // μm
-    const focalLength = inputs.focalLength || 100; // mm
-    const beamDiameter = inputs.beamDiameter; // mm
-    
-    // w_f = (4 * M² * λ * f) / (π * D)
-    const focusedSpotSize = (4 * mSquared * wavelengthUm * focalLength) / (Math.PI * beamDiameter);
-    
-    return Math.max(focusedSpotSize, wavelengthUm / 2); // Minimum spot size is λ/2
-  }
-
   private calculatePowerDensity(inputs: BeamQualityInputs, focusedSpotSize: number): number {
     const spotAreaCm2 = Math.PI * Math.pow(focusedSpotSize / 20000, 2); // Convert μm to cm
     return (inputs.power / 1000000) / spotAreaCm2; // MW/cm²
@@ -350,7 +398,6 @@ export class BeamQualityCalculator extends BaseCalculator {
     const focusability = 1 / mSquared; // Higher M² = lower focusability
     
     const divergenceAngle = inputs.divergenceAngle || this.estimateDivergenceAngle(inputs, mSquared);
-    const rayleighLength = this.calculateRayleighLength(inputs, mSquared);
     
     return {
       diffrationLimit: Math.round(diffrationLimit * 10) / 10,
@@ -358,7 +405,7 @@ export class BeamQualityCalculator extends BaseCalculator {
       beamPropagation: {
         nearField: Math.round(inputs.beamDiameter * 100) / 100,
         farField: Math.round(divergenceAngle * 100) / 100,
-        waistPosition: Math.round(rayleighLength * 100) / 100
+        waistPosition: Math.round((inputs.focalLength || 100) * 100) / 100 // behind the lens
       }
     };
   }
@@ -429,9 +476,21 @@ export class BeamQualityCalculator extends BaseCalculator {
     return (mSquared * wavelengthMm) / (Math.PI * waistRadius) * 1000; // Convert to mrad
   }
 
-  private generateRecommendations(inputs: BeamQualityInputs, mSquared: number, powerDensity: number): string[] {
+  private generateRecommendations(
+    inputs: BeamQualityInputs,
+    mSquared: number,
+    powerDensity: number,
+    profile: BeamProfile,
+    caustic?: SheetCaustic
+  ): string[] {
     const recommendations: string[] = [];
     
+    if (caustic && !caustic.withinDepthOfFocus) {
+      recommendations.push(
+        `The ${caustic.thickness} mm sheet is deeper than the ${profile.depthOfFocus.toFixed(2)} mm depth of focus - a longer focal length trades a larger spot for a longer depth of focus`
+      );
+    }
+    
     if (mSquared > 1.5) {
       recommendations.push('Consider beam shaping optics to improve beam quality');
     }
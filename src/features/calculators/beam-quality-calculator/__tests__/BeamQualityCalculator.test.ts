@@ -17,7 +17,7 @@ describe('BeamQualityCalculator', () => {
       expect(calculator.config.title).toBe('Beam Quality Calculator');
       expect(calculator.config.category).toBe('Core Engineering');
       expect(calculator.config.badge).toBe('Standard');
-      expect(calculator.config.inputs).toHaveLength(6);
+      expect(calculator.config.inputs).toHaveLength(9);
     });
 
     test('should have all required input fields', () => {
@@ -28,6 +28,9 @@ describe('BeamQualityCalculator', () => {
       expect(inputIds).toContain('beamDiameter');
       expect(inputIds).toContain('divergenceAngle');
       expect(inputIds).toContain('focalLength');
+      expect(inputIds).toContain('collimatorFocalLength');
+      expect(inputIds).toContain('thickness');
+      expect(inputIds).toContain('focusPosition');
     });
   });
 
@@ -318,7 +321,7 @@ describe('BeamQualityCalculator', () => {
       expect(result.metadata).toBeDefined();
       expect(result.metadata.calculationTime).toBeGreaterThanOrEqual(0);
       expect(result.metadata.timestamp).toBeDefined();
-      expect(result.metadata.version).toBe('1.0.0');
+      expect(result.metadata.version).toBe('1.1.0');
       expect(result.metadata.inputHash).toBeDefined();
     });
   });
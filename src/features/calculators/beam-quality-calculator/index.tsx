@@ -1,7 +1,9 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { BaseCalculatorContainer } from '@/components/calculator/BaseCalculatorComponents';
+import { BeamCausticChart } from '@/components/calculator/BeamCausticChart';
+import type { SheetCaustic } from '@/services/gaussianBeamModel';
 import { BeamQualityCalculator } from './BeamQualityCalculator';
 
 // Create calculator instance
@@ -21,7 +23,11 @@ export default function BeamQualityCalculatorPage({
   onCalculationComplete
 }: BeamQualityCalculatorPageProps) {
   
+  const [caustic, setCaustic] = useState<SheetCaustic | null>(null);
+  
   const handleCalculationComplete = (result: any) => {
+    setCaustic(result.success ? result.data?.caustic ?? null : null);
+    
     // Log calculation for analytics
     if (typeof window !== 'undefined' && result.success) {
       console.log('Beam Quality Analysis completed:', {
@@ -97,6 +103,8 @@ export default function BeamQualityCalculatorPage({
         onInputChange={handleInputChange}
       />
       
+      {caustic && <BeamCausticChart caustic={caustic} className="mt-8 max-w-4xl mx-auto" />}
+      
       {/* Additional SEO Content */}
       <div className="seo-content mt-12 max-w-4xl mx-auto px-6">
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8">
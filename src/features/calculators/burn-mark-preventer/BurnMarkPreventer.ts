@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const burnMarkPreventerSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.5).max(50),
   laserPower: z.number().min(500).max(20000),
   cuttingSpeed: z.number().min(100).max(15000),
@@ -70,14 +71,12 @@ export interface BurnMarkPreventerResults {
   warnings: string[];
 }
 
-// Material burn susceptibility database
+// Burn susceptibility per material family
 const materialBurnProperties = {
   steel: {
     oxidationThreshold: 600,        // °C
     burnSusceptibility: 0.8,
     optimalGas: 'oxygen',
-    heatCapacity: 490,              // J/kg·K
-    thermalConductivity: 50,        // W/m·K
     surfaceEmissivity: 0.8,
     coolingEfficiency: 0.7
   },
@@ -85,8 +84,6 @@ const materialBurnProperties = {
     oxidationThreshold: 800,
     burnSusceptibility: 0.6,
     optimalGas: 'nitrogen',
-    heatCapacity: 500,
-    thermalConductivity: 16,
     surfaceEmissivity: 0.6,
     coolingEfficiency: 0.5
   },
@@ -94,8 +91,6 @@ const materialBurnProperties = {
     oxidationThreshold: 400,
     burnSusceptibility: 0.9,
     optimalGas: 'nitrogen',
-    heatCapacity: 896,
-    thermalConductivity: 237,
     surfaceEmissivity: 0.9,
     coolingEfficiency: 0.9
   },
@@ -103,8 +98,6 @@ const materialBurnProperties = {
     oxidationThreshold: 500,
     burnSusceptibility: 0.7,
     optimalGas: 'nitrogen',
-    heatCapacity: 385,
-    thermalConductivity: 401,
     surfaceEmissivity: 0.7,
     coolingEfficiency: 0.8
   },
@@ -112,8 +105,6 @@ const materialBurnProperties = {
     oxidationThreshold: 450,
     burnSusceptibility: 0.95,
     optimalGas: 'argon',
-    heatCapacity: 520,
-    thermalConductivity: 22,
     surfaceEmissivity: 0.5,
     coolingEfficiency: 0.4
   },
@@ -121,13 +112,22 @@ const materialBurnProperties = {
     oxidationThreshold: 550,
     burnSusceptibility: 0.7,
     optimalGas: 'nitrogen',
-    heatCapacity: 380,
-    thermalConductivity: 120,
     surfaceEmissivity: 0.8,
     coolingEfficiency: 0.7
   }
 };
 
+// Family burn data with the grade's thermal properties from the material registry
+function getMaterialBurnProperties(materialType: string) {
+  const family = materialRegistry.byFamily(materialType, materialBurnProperties);
+  if (!family) return undefined;
+
+  const { thermal } = materialRegistry.get(materialType);
+  return { ...family, heatCapacity: thermal.specificHeat, thermalConductivity: thermal.conductivity };
+}
+
+type MaterialBurnProperties = NonNullable<ReturnType<typeof getMaterialBurnProperties>>;
+
 // Gas properties for burn prevention
 const gasProperties = {
   oxygen: {
@@ -171,14 +171,7 @@ export class BurnMarkPreventer extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -297,8 +290,8 @@ export class BurnMarkPreventer extends BaseCalculator {
     }
 
     // Check gas compatibility
-    const material = materialBurnProperties[inputs.materialType];
-    if (inputs.assistGas !== material.optimalGas) {
+    const material = getMaterialBurnProperties(inputs.materialType);
+    if (material && inputs.assistGas !== material.optimalGas) {
       warnings.push({
         field: 'assistGas',
         message: `${material.optimalGas} is recommended for ${inputs.materialType} to minimize burn marks.`,
@@ -329,7 +322,10 @@ export class BurnMarkPreventer extends BaseCalculator {
 
   async calculate(inputs: BurnMarkPreventerInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialBurnProperties[inputs.materialType];
+      const material = getMaterialBurnProperties(inputs.materialType);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       const gas = gasProperties[inputs.assistGas];
       
       // Calculate thermal damage analysis
@@ -373,7 +369,7 @@ export class BurnMarkPreventer extends BaseCalculator {
     }
   }
 
-  private calculateThermalDamageAnalysis(inputs: BurnMarkPreventerInputs, material: typeof materialBurnProperties.steel, gas: typeof gasProperties.oxygen) {
+  private calculateThermalDamageAnalysis(inputs: BurnMarkPreventerInputs, material: MaterialBurnProperties, gas: typeof gasProperties.oxygen) {
     // Calculate heat input per unit length
     const heatInput = (inputs.laserPower * 60) / inputs.cuttingSpeed; // J/mm
     
@@ -404,7 +400,7 @@ export class BurnMarkPreventer extends BaseCalculator {
     };
   }
 
-  private calculateBurnMarkFactors(inputs: BurnMarkPreventerInputs, material: typeof materialBurnProperties.steel, gas: typeof gasProperties.oxygen) {
+  private calculateBurnMarkFactors(inputs: BurnMarkPreventerInputs, material: MaterialBurnProperties, gas: typeof gasProperties.oxygen) {
     // Power density factor
     const powerDensity = inputs.laserPower / inputs.thickness;
     const powerDensityFactor = Math.min(1.0, powerDensity / 1000);
@@ -452,7 +448,7 @@ export class BurnMarkPreventer extends BaseCalculator {
     return 'critical';
   }
 
-  private generatePreventionStrategy(inputs: BurnMarkPreventerInputs, material: typeof materialBurnProperties.steel, gas: typeof gasProperties.oxygen, riskScore: number) {
+  private generatePreventionStrategy(inputs: BurnMarkPreventerInputs, material: MaterialBurnProperties, gas: typeof gasProperties.oxygen, riskScore: number) {
     // Parameter optimization
     const powerReduction = riskScore > 6 ? 0.8 : riskScore > 4 ? 0.9 : 1.0;
     const speedIncrease = riskScore > 6 ? 1.3 : riskScore > 4 ? 1.15 : 1.0;
@@ -504,7 +500,7 @@ export class BurnMarkPreventer extends BaseCalculator {
       processModifications.push('Optimize cutting sequence to minimize heat buildup');
       processModifications.push('Use pulsed mode if available');
     }
-    if (inputs.materialType === 'titanium' || inputs.materialType === 'aluminum') {
+    if (materialRegistry.isFamily(inputs.materialType, 'titanium', 'aluminum')) {
       processModifications.push('Maintain inert atmosphere during cutting');
     }
     
@@ -516,7 +512,7 @@ export class BurnMarkPreventer extends BaseCalculator {
     };
   }
 
-  private predictQualityOutcomes(inputs: BurnMarkPreventerInputs, material: typeof materialBurnProperties.steel, thermal: any, riskScore: number) {
+  private predictQualityOutcomes(inputs: BurnMarkPreventerInputs, material: MaterialBurnProperties, thermal: any, riskScore: number) {
     // Expected surface quality
     const expectedSurfaceQuality = Math.max(1, Math.min(5, 6 - riskScore));
     
@@ -558,15 +554,16 @@ export class BurnMarkPreventer extends BaseCalculator {
       recommendations.push('Clean and prepare surface before cutting');
     }
     
-    if (inputs.assistGas !== materialBurnProperties[inputs.materialType].optimalGas) {
-      recommendations.push(`Switch to ${materialBurnProperties[inputs.materialType].optimalGas} for optimal results`);
+    const optimalGas = getMaterialBurnProperties(inputs.materialType)?.optimalGas;
+    if (optimalGas && inputs.assistGas !== optimalGas) {
+      recommendations.push(`Switch to ${optimalGas} for optimal results`);
     }
     
     if (inputs.nozzleStandoff > 2.0) {
       recommendations.push('Reduce nozzle standoff distance for better gas effectiveness');
     }
     
-    if (inputs.materialType === 'titanium' || inputs.materialType === 'aluminum') {
+    if (materialRegistry.isFamily(inputs.materialType, 'titanium', 'aluminum')) {
       recommendations.push('Use high-purity inert gas to prevent oxidation');
     }
     
@@ -588,11 +585,11 @@ export class BurnMarkPreventer extends BaseCalculator {
       warnings.push('Surface contamination will significantly increase burn marks');
     }
     
-    if (inputs.materialType === 'titanium' && inputs.assistGas === 'oxygen') {
+    if (materialRegistry.isFamily(inputs.materialType, 'titanium') && inputs.assistGas === 'oxygen') {
       warnings.push('Oxygen with titanium will cause severe oxidation and burning');
     }
     
-    if (inputs.materialType === 'aluminum' && inputs.assistGas === 'oxygen') {
+    if (materialRegistry.isFamily(inputs.materialType, 'aluminum') && inputs.assistGas === 'oxygen') {
       warnings.push('Oxygen with aluminum may cause excessive oxidation');
     }
     
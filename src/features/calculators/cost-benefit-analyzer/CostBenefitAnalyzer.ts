@@ -9,6 +9,27 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import {
+  monteCarloEngine,
+  correlationSchema,
+  distributionSchema,
+  MonteCarloResult,
+  UncertainInput
+} from '@/services/monteCarloEngine';
+
+const uncertainParameterSchema = z.enum([
+  'initialInvestment',
+  'materialSavings',
+  'energySavings',
+  'laborSavings',
+  'maintenanceSavings',
+  'qualityImprovements',
+  'additionalRevenue',
+  'revenueGrowthRate',
+  'discountRate'
+]);
+
+type UncertainParameter = z.infer<typeof uncertainParameterSchema>;
 
 // Input validation schema
 const costBenefitSchema = z.object({
@@ -44,9 +65,23 @@ const costBenefitSchema = z.object({
   analysisType: z.enum(['basic', 'detailed', 'monte_carlo', 'sensitivity']),
   confidenceLevel: z.number().min(0.80).max(0.99),
   inflationRate: z.number().min(0).max(0.10).optional(),
-  taxRate: z.number().min(0).max(0.50).optional()
+  taxRate: z.number().min(0).max(0.50).optional(),
+  // Monte Carlo settings; by default the investment, savings and revenue follow PERT
+  // distributions whose downside grows with the matching risk factor
+  uncertainties: z.array(z.object({
+    parameter: uncertainParameterSchema,
+    distribution: distributionSchema
+  })).optional(),
+  correlations: z.array(correlationSchema).optional(),
+  sampleCount: z.number().int().min(100).max(100000).optional(),
+  seed: z.number().int().optional()
 });
 
+const DEFAULT_SAMPLE_COUNT = 5000;
+
+// Percentile of the simulated NPV that the value at risk is measured at, e.g. 5 for 95% confidence
+const tailPercentile = (confidenceLevel: number) => Math.round((1 - confidenceLevel) * 1000) / 10;
+
 // Input types
 export type CostBenefitInputs = z.infer<typeof costBenefitSchema>;
 
@@ -144,6 +179,7 @@ export interface CostBenefitResults {
       cons: string[];
     }>;
   };
+  monteCarlo?: MonteCarloResult;    // monte_carlo analysis only, distribution of the NPV
   warnings: string[];
 }
 
@@ -261,8 +297,8 @@ export class CostBenefitAnalyzer extends BaseCalculator {
       }
     ],
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -335,8 +371,11 @@ export class CostBenefitAnalyzer extends BaseCalculator {
       // Conduct sensitivity analysis
       const sensitivityAnalysis = this.conductSensitivityAnalysis(inputs, financialMetrics);
       
+      // Simulate the NPV under uncertain investment, savings and revenue
+      const monteCarlo = inputs.analysisType === 'monte_carlo' ? this.runMonteCarlo(inputs) : undefined;
+      
       // Assess risks
-      const riskAssessment = this.assessRisks(inputs, financialMetrics);
+      const riskAssessment = this.assessRisks(inputs, financialMetrics, monteCarlo);
       
       // Compare with industry benchmarks
       const benchmarkComparison = this.compareBenchmarks(inputs, financialMetrics);
@@ -355,6 +394,7 @@ export class CostBenefitAnalyzer extends BaseCalculator {
         riskAssessment,
         benchmarkComparison,
         recommendations,
+        monteCarlo,
         warnings
       };
 
@@ -650,10 +690,15 @@ export class CostBenefitAnalyzer extends BaseCalculator {
         adjustedInputs.initialInvestment = newValue;
         break;
       case 'materialSavings':
-        adjustedInputs.projectedSavings = { ...inputs.projectedSavings, materialSavings: newValue };
+      case 'energySavings':
+      case 'laborSavings':
+      case 'maintenanceSavings':
+      case 'qualityImprovements':
+        adjustedInputs.projectedSavings = { ...adjustedInputs.projectedSavings, [parameterName]: newValue };
         break;
       case 'additionalRevenue':
-        adjustedInputs.revenueImpact = { ...inputs.revenueImpact, additionalRevenue: newValue };
+      case 'revenueGrowthRate':
+        adjustedInputs.revenueImpact = { ...adjustedInputs.revenueImpact, [parameterName]: newValue };
         break;
       case 'discountRate':
         adjustedInputs.discountRate = newValue;
@@ -666,6 +711,47 @@ export class CostBenefitAnalyzer extends BaseCalculator {
     return adjustedInputs;
   }
 
+  private runMonteCarlo(inputs: CostBenefitInputs): MonteCarloResult {
+    const { technologyRisk, marketRisk, operationalRisk, competitiveRisk } = inputs.riskFactors;
+    const pert = (base: number, downside: number, upside: number) => ({
+      type: 'pert' as const,
+      min: base * (1 - downside),
+      mode: base,
+      max: base * (1 + upside)
+    });
+    const defaults: Partial<Record<UncertainParameter, UncertainInput['distribution']>> = {
+      initialInvestment: pert(inputs.initialInvestment, 0.05, 0.5 * technologyRisk),
+      materialSavings: pert(inputs.projectedSavings.materialSavings, operationalRisk, 0.1),
+      energySavings: pert(inputs.projectedSavings.energySavings, operationalRisk, 0.1),
+      laborSavings: pert(inputs.projectedSavings.laborSavings, operationalRisk, 0.1),
+      maintenanceSavings: pert(inputs.projectedSavings.maintenanceSavings, operationalRisk, 0.1),
+      qualityImprovements: pert(inputs.projectedSavings.qualityImprovements, operationalRisk, 0.1),
+      additionalRevenue: pert(inputs.revenueImpact.additionalRevenue, marketRisk, 0.2),
+      revenueGrowthRate: pert(inputs.revenueImpact.revenueGrowthRate, competitiveRisk, 0.2)
+    };
+    inputs.uncertainties?.forEach(({ parameter, distribution }) => { defaults[parameter] = distribution; });
+
+    const uncertain: UncertainInput[] = Object.entries(defaults)
+      .map(([name, distribution]) => ({ name, distribution: distribution as UncertainInput['distribution'] }));
+    return monteCarloEngine.simulate(
+      uncertain,
+      values => {
+        const sampled = Object.entries(values).reduce(
+          (adjusted, [name, value]) => this.adjustParameterValue(adjusted, name, value),
+          inputs
+        );
+        return this.calculateFinancialMetrics(sampled).npv;
+      },
+      {
+        samples: inputs.sampleCount ?? DEFAULT_SAMPLE_COUNT,
+        seed: inputs.seed,
+        correlations: inputs.correlations,
+        percentiles: [tailPercentile(inputs.confidenceLevel), 10, 50, 90],
+        target: { value: 0, direction: 'above' }
+      }
+    );
+  }
+
   private classifyImpact(sensitivity: number): 'low' | 'medium' | 'high' | 'critical' {
     if (sensitivity > 2.0) return 'critical';
     if (sensitivity > 1.0) return 'high';
@@ -673,7 +759,7 @@ export class CostBenefitAnalyzer extends BaseCalculator {
     return 'low';
   }
 
-  private assessRisks(inputs: CostBenefitInputs, financialMetrics: any) {
+  private assessRisks(inputs: CostBenefitInputs, financialMetrics: any, monteCarlo?: MonteCarloResult) {
     // Calculate overall risk score
     const riskFactors = Object.values(inputs.riskFactors);
     const overallRiskScore = (riskFactors.reduce((sum, risk) => sum + risk, 0) / riskFactors.length) * 100;
@@ -706,11 +792,15 @@ export class CostBenefitAnalyzer extends BaseCalculator {
       }
     ];
     
-    // Calculate probability of success
-    const probabilityOfSuccess = 1 - (overallRiskScore / 100) * 0.6; // Risk reduces success probability
+    // Calculate probability of success; a simulation gives the share of runs with a positive NPV
+    const probabilityOfSuccess = monteCarlo?.probabilityOfTarget ??
+      1 - (overallRiskScore / 100) * 0.6; // Risk reduces success probability
     
-    // Calculate Value at Risk (VaR) - simplified
-    const valueAtRisk = Math.abs(financialMetrics.npv * (overallRiskScore / 100) * 1.65); // 95% confidence
+    // Calculate Value at Risk (VaR) - simplified, or the simulated shortfall of the NPV
+    // below its mean at the confidence level
+    const valueAtRisk = monteCarlo
+      ? Math.max(0, monteCarlo.mean - monteCarlo.percentiles[`P${tailPercentile(inputs.confidenceLevel)}`])
+      : Math.abs(financialMetrics.npv * (overallRiskScore / 100) * 1.65); // 95% confidence
     
     // Calculate Expected Shortfall
     const expectedShortfall = valueAtRisk * 1.3; // Conditional VaR
@@ -9,14 +9,18 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry } from '@/services/materialRegistry';
+import { cuttingChartLibrary, ChartLookup } from '@/services/cuttingChartLibrary';
+import { CuttingChart } from '@/types/calculator';
 
 // Input validation schema
 const cuttingTimeSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum']),
+  materialType: materialRegistry.schema({ withChart: true }),
   thickness: z.number().min(0.5).max(50),
   cuttingLength: z.number().min(1).max(100000),
   pierceCount: z.number().min(1).max(1000),
-  laserPower: z.number().min(500).max(20000)
+  laserPower: z.number().min(500).max(20000),
+  machineId: z.string().optional()
 });
 
 // Input types
@@ -43,54 +47,6 @@ export interface CuttingTimeResults {
   };
 }
 
-// Material cutting speed database (mm/min)
-const materialCuttingSpeeds = {
-  steel: {
-    1: { 1000: 8000, 2000: 12000, 3000: 15000, 4000: 16000, 6000: 18000 },
-    2: { 1000: 6000, 2000: 9000, 3000: 12000, 4000: 14000, 6000: 16000 },
-    3: { 1000: 4500, 2000: 7000, 3000: 9500, 4000: 11000, 6000: 13000 },
-    5: { 1000: 3000, 2000: 5000, 3000: 7000, 4000: 8500, 6000: 10000 },
-    8: { 1000: 2000, 2000: 3500, 3000: 5000, 4000: 6000, 6000: 7500 },
-    10: { 1000: 1500, 2000: 2800, 3000: 4000, 4000: 5000, 6000: 6200 },
-    15: { 1000: 1000, 2000: 1800, 3000: 2500, 4000: 3200, 6000: 4000 },
-    20: { 1000: 700, 2000: 1200, 3000: 1800, 4000: 2300, 6000: 2800 },
-    25: { 1000: 500, 2000: 900, 3000: 1300, 4000: 1700, 6000: 2100 }
-  },
-  stainless_steel: {
-    1: { 1000: 6000, 2000: 9000, 3000: 11000, 4000: 12000, 6000: 13000 },
-    2: { 1000: 4500, 2000: 6500, 3000: 8500, 4000: 9500, 6000: 11000 },
-    3: { 1000: 3500, 2000: 5000, 3000: 6500, 4000: 7500, 6000: 8500 },
-    5: { 1000: 2200, 2000: 3500, 3000: 4500, 4000: 5500, 6000: 6500 },
-    8: { 1000: 1400, 2000: 2200, 3000: 3000, 4000: 3800, 6000: 4500 },
-    10: { 1000: 1000, 2000: 1700, 3000: 2300, 4000: 2900, 6000: 3500 },
-    15: { 1000: 600, 2000: 1000, 3000: 1400, 4000: 1800, 6000: 2200 },
-    20: { 1000: 400, 2000: 700, 3000: 1000, 4000: 1300, 6000: 1600 }
-  },
-  aluminum: {
-    1: { 1000: 10000, 2000: 15000, 3000: 18000, 4000: 20000, 6000: 22000 },
-    2: { 1000: 8000, 2000: 12000, 3000: 15000, 4000: 17000, 6000: 19000 },
-    3: { 1000: 6500, 2000: 9500, 3000: 12000, 4000: 14000, 6000: 16000 },
-    5: { 1000: 4500, 2000: 7000, 3000: 9000, 4000: 11000, 6000: 13000 },
-    8: { 1000: 3000, 2000: 4500, 3000: 6000, 4000: 7500, 6000: 9000 },
-    10: { 1000: 2200, 2000: 3500, 3000: 4500, 4000: 5500, 6000: 6500 },
-    15: { 1000: 1500, 2000: 2300, 3000: 3000, 4000: 3700, 6000: 4500 },
-    20: { 1000: 1000, 2000: 1600, 3000: 2100, 4000: 2600, 6000: 3200 }
-  }
-};
-
-// Piercing time database (seconds per pierce)
-const piercingTimes = {
-  steel: {
-    1: 0.1, 2: 0.2, 3: 0.3, 5: 0.5, 8: 0.8, 10: 1.2, 15: 2.0, 20: 3.0, 25: 4.5
-  },
-  stainless_steel: {
-    1: 0.15, 2: 0.3, 3: 0.45, 5: 0.7, 8: 1.2, 10: 1.8, 15: 3.0, 20: 4.5
-  },
-  aluminum: {
-    1: 0.08, 2: 0.15, 3: 0.25, 5: 0.4, 8: 0.6, 10: 0.9, 15: 1.5, 20: 2.2
-  }
-};
-
 export class CuttingTimeEstimator extends BaseCalculator {
   readonly config: BaseCalculatorConfig = {
     id: 'cutting-time-estimator',
@@ -106,11 +62,7 @@ export class CuttingTimeEstimator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' }
-        ]
+        options: materialRegistry.options({ withChart: true })
       },
       {
         id: 'thickness',
@@ -158,8 +110,8 @@ export class CuttingTimeEstimator extends BaseCalculator {
       }
     ],
     resultType: 'time',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -170,12 +122,19 @@ export class CuttingTimeEstimator extends BaseCalculator {
     const errors: ValidationResult['errors'] = [];
     const warnings: ValidationResult['warnings'] = [];
 
-    // Check if thickness is supported for material
-    const materialData = materialCuttingSpeeds[inputs.materialType];
-    const supportedThicknesses = Object.keys(materialData).map(Number);
-    const maxThickness = Math.max(...supportedThicknesses);
-    
-    if (inputs.thickness > maxThickness) {
+    // Check if thickness and power are covered by the machine's imported chart,
+    // or else by the material's built-in cutting chart
+    const imported = this.getImportedChart(inputs);
+    const chart = materialRegistry.has(inputs.materialType)
+      ? materialRegistry.cuttingChart(inputs.materialType)
+      : undefined;
+    const maxThickness = chart ? Math.max(...Object.keys(chart.speeds).map(Number)) : Infinity;
+
+    if (imported) {
+      imported.warnings.forEach(message => {
+        warnings.push({ field: 'thickness', message, code: 'CHART_EXTRAPOLATED' });
+      });
+    } else if (inputs.thickness > maxThickness) {
       warnings.push({
         field: 'thickness',
         message: `Thickness ${inputs.thickness}mm may not be optimal for ${inputs.materialType}. Maximum recommended: ${maxThickness}mm`,
@@ -250,7 +209,10 @@ export class CuttingTimeEstimator extends BaseCalculator {
       
       // Generate recommendations and warnings
       const recommendations = this.generateRecommendations(inputs, cuttingSpeed, totalTime);
-      const warnings = this.generateWarnings(inputs, cuttingSpeed, efficiency);
+      const warnings = [
+        ...this.generateWarnings(inputs, cuttingSpeed, efficiency),
+        ...(this.getImportedChart(inputs)?.warnings ?? [])
+      ];
 
       const results: CuttingTimeResults = {
         piercingTime: Math.round(totalPiercingTime * 100) / 100,
@@ -282,8 +244,30 @@ export class CuttingTimeEstimator extends BaseCalculator {
     }
   }
 
+  private getCuttingChart(inputs: CuttingTimeInputs): CuttingChart {
+    const chart = materialRegistry.cuttingChart(inputs.materialType);
+    if (!chart) {
+      throw new Error(`No cutting chart for material: ${inputs.materialType}`);
+    }
+    return chart;
+  }
+
+  /**
+   * Interpolated parameters from the selected machine's imported charts, if any cover the material
+   */
+  private getImportedChart(inputs: CuttingTimeInputs): ChartLookup | undefined {
+    return inputs.machineId
+      ? cuttingChartLibrary.lookup(inputs.machineId, inputs.materialType, inputs.thickness, inputs.laserPower)
+      : undefined;
+  }
+
   private getCuttingSpeed(inputs: CuttingTimeInputs): number {
-    const materialData = materialCuttingSpeeds[inputs.materialType];
+    const imported = this.getImportedChart(inputs);
+    if (imported) {
+      return imported.speed;
+    }
+
+    const materialData = this.getCuttingChart(inputs).speeds;
     
     // Find closest thickness
     const thicknesses = Object.keys(materialData).map(Number).sort((a, b) => a - b);
@@ -317,7 +301,7 @@ export class CuttingTimeEstimator extends BaseCalculator {
   }
 
   private getPiercingTime(inputs: CuttingTimeInputs): number {
-    const materialData = piercingTimes[inputs.materialType];
+    const materialData = this.getCuttingChart(inputs).pierceTimes;
     
     // Find closest thickness
     const thicknesses = Object.keys(materialData).map(Number).sort((a, b) => a - b);
@@ -360,7 +344,7 @@ export class CuttingTimeEstimator extends BaseCalculator {
       recommendations.push('High pierce count - consider common line cutting to reduce pierces');
     }
 
-    if (inputs.thickness > 15 && inputs.materialType === 'aluminum') {
+    if (inputs.thickness > 15 && materialRegistry.isFamily(inputs.materialType, 'aluminum')) {
       recommendations.push('For thick aluminum, consider nitrogen assist gas for better edge quality');
     }
 
@@ -1,7 +1,8 @@
 'use client';
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { BaseCalculatorContainer } from '@/components/calculator/BaseCalculatorComponents';
+import { GeometryFileImport, GeometryImportResult } from '@/components/calculator/GeometryFileImport';
 import { CuttingTimeEstimator } from './CuttingTimeEstimator';
 import CalculatorSEOHead from '@/components/seo/CalculatorSEOHead';
 
@@ -21,6 +22,19 @@ export default function CuttingTimeEstimatorPage({
   initialInputs,
   onCalculationComplete
 }: CuttingTimeEstimatorPageProps) {
+  const latestInputs = useRef<Record<string, unknown>>(initialInputs || calculator.getDefaultInputs());
+  const [importedInputs, setImportedInputs] = useState<Record<string, unknown> | undefined>(undefined);
+  const [importKey, setImportKey] = useState(0);
+
+  // Prefill cutting length and pierce count from an imported drawing
+  const handleGeometryImport = (result: GeometryImportResult) => {
+    setImportedInputs({
+      ...latestInputs.current,
+      cuttingLength: Math.round(result.prefill.cuttingLength),
+      pierceCount: result.prefill.pierceCount
+    });
+    setImportKey(key => key + 1);
+  };
   
   const handleCalculationComplete = (result: any) => {
     // Log calculation for analytics
@@ -37,6 +51,8 @@ export default function CuttingTimeEstimatorPage({
   };
 
   const handleInputChange = (inputs: Record<string, any>) => {
+    latestInputs.current = inputs;
+
     // Optional: Track input changes for analytics
     if (typeof window !== 'undefined') {
       console.log('Cutting Time Estimator inputs changed:', inputs);
@@ -81,10 +97,14 @@ export default function CuttingTimeEstimatorPage({
       />
       <div className="cutting-time-estimator-page">
 
+      {/* Drawing Import */}
+      <GeometryFileImport onImport={handleGeometryImport} className="max-w-4xl mx-auto mb-6" />
+
       {/* Main Calculator Interface */}
       <BaseCalculatorContainer
+        key={importKey}
         calculator={calculator}
-        initialInputs={initialInputs}
+        initialInputs={importedInputs || initialInputs}
         onCalculationComplete={handleCalculationComplete}
         onInputChange={handleInputChange}
       />
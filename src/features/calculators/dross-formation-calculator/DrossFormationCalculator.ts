@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const drossFormationSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.5).max(50),
   laserPower: z.number().min(500).max(20000),
   cuttingSpeed: z.number().min(100).max(15000),
@@ -77,7 +78,7 @@ export interface DrossFormationResults {
   warnings: string[];
 }
 
-// Material dross formation properties
+// Dross formation behaviour per material family
 const materialDrossProperties = {
   steel: {
     drossFormationTendency: 0.7,
@@ -152,14 +153,7 @@ export class DrossFormationCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -255,6 +249,13 @@ export class DrossFormationCalculator extends BaseCalculator {
         ]
       }
     ],
+    resultUnits: {
+      'bottomEdgeQuality.drossThickness': 'μm',
+      'preventionStrategy.parameterOptimization.recommendedSpeed': 'mm/min',
+      'preventionStrategy.parameterOptimization.recommendedPressure': 'bar',
+      'preventionStrategy.parameterOptimization.recommendedStandoff': 'mm',
+      'preventionStrategy.gasFlowOptimization.optimalFlowRate': 'L/min'
+    },
     resultType: 'analysis',
     version: '1.0.0',
     lastUpdated: '2025-01-02'
@@ -268,9 +269,13 @@ export class DrossFormationCalculator extends BaseCalculator {
     const errors: ValidationResult['errors'] = [];
     const warnings: ValidationResult['warnings'] = [];
 
+    const material = materialRegistry.byFamily(inputs.materialType, materialDrossProperties);
+    if (!material) {
+      return { errors, warnings };
+    }
+
     // Check power-speed ratio
     const powerSpeedRatio = (inputs.laserPower * 60) / inputs.cuttingSpeed; // W·s/mm
-    const material = materialDrossProperties[inputs.materialType];
     const optimalRatio = material.optimalPowerSpeedRatio * inputs.thickness * 100;
     
     if (Math.abs(powerSpeedRatio - optimalRatio) > optimalRatio * 0.5) {
@@ -315,7 +320,10 @@ export class DrossFormationCalculator extends BaseCalculator {
 
   async calculate(inputs: DrossFormationInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialDrossProperties[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialDrossProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       const gas = gasEjectionProperties[inputs.assistGas];
       
       // Analyze dross formation
@@ -363,7 +371,7 @@ export class DrossFormationCalculator extends BaseCalculator {
     }
   }
 
-  private getOptimalGasPressure(materialType: string, thickness: number, gasType: string): number {
+  private getOptimalGasPressure(materialType: string, thickness: number, gasType: DrossFormationInputs['assistGas']): number {
     const basePressures = {
       oxygen: { steel: 1.5, stainless_steel: 2.0, aluminum: 3.0, copper: 4.0, titanium: 2.5, brass: 2.0 },
       nitrogen: { steel: 12, stainless_steel: 15, aluminum: 18, copper: 20, titanium: 16, brass: 14 },
@@ -371,7 +379,7 @@ export class DrossFormationCalculator extends BaseCalculator {
       argon: { steel: 8, stainless_steel: 10, aluminum: 12, copper: 14, titanium: 10, brass: 9 }
     };
     
-    const basePressure = basePressures[gasType][materialType] || 5;
+    const basePressure = materialRegistry.byFamily(materialType, basePressures[gasType]) ?? 5;
     const thicknessFactor = Math.sqrt(thickness / 5); // Adjust for thickness
     
     return basePressure * thicknessFactor;
@@ -612,8 +620,8 @@ export class DrossFormationCalculator extends BaseCalculator {
       recommendations.push('Check and adjust nozzle standoff distance');
     }
     
-    const material = materialDrossProperties[inputs.materialType];
-    if (inputs.assistGas !== material.optimalGas) {
+    const material = materialRegistry.byFamily(inputs.materialType, materialDrossProperties);
+    if (material && inputs.assistGas !== material.optimalGas) {
       recommendations.push(`Switch to ${material.optimalGas} for optimal dross prevention`);
     }
     
@@ -640,7 +648,7 @@ export class DrossFormationCalculator extends BaseCalculator {
       warnings.push('High dross formation risk - implement prevention strategies');
     }
     
-    if (inputs.materialType === 'copper' && inputs.assistGas === 'oxygen') {
+    if (materialRegistry.isFamily(inputs.materialType, 'copper') && inputs.assistGas === 'oxygen') {
       warnings.push('Copper with oxygen may cause excessive dross formation');
     }
     
@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const edgeQualitySchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.5).max(50),
   laserPower: z.number().min(500).max(20000),
   cuttingSpeed: z.number().min(100).max(15000),
@@ -59,7 +60,7 @@ export interface EdgeQualityResults {
   };
 }
 
-// Material properties database
+// Edge quality factors per material family
 const materialProperties = {
   steel: {
     baseFactor: 0.85,
@@ -128,14 +129,7 @@ export class EdgeQualityPredictor extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -232,10 +226,10 @@ export class EdgeQualityPredictor extends BaseCalculator {
 
     // Check power-speed ratio
     const powerSpeedRatio = (inputs.laserPower * 60) / inputs.cuttingSpeed; // W·s/mm
-    const material = materialProperties[inputs.materialType];
-    const optimalRatio = material.optimalPowerSpeedRatio * inputs.thickness * 100;
+    const material = materialRegistry.byFamily(inputs.materialType, materialProperties);
+    const optimalRatio = (material?.optimalPowerSpeedRatio ?? 0) * inputs.thickness * 100;
     
-    if (Math.abs(powerSpeedRatio - optimalRatio) > optimalRatio * 0.5) {
+    if (material && Math.abs(powerSpeedRatio - optimalRatio) > optimalRatio * 0.5) {
       warnings.push({
         field: 'laserPower',
         message: `Power-speed ratio may not be optimal for ${inputs.materialType}. Consider adjusting parameters.`,
@@ -244,8 +238,8 @@ export class EdgeQualityPredictor extends BaseCalculator {
     }
 
     // Check gas compatibility
-    const gasCompatibility = material.gasCompatibility[inputs.assistGas];
-    if (gasCompatibility < 0.7) {
+    const gasCompatibility = material?.gasCompatibility[inputs.assistGas];
+    if (gasCompatibility !== undefined && gasCompatibility < 0.7) {
       warnings.push({
         field: 'assistGas',
         message: `${inputs.assistGas} may not be optimal for ${inputs.materialType}. Consider nitrogen or argon.`,
@@ -277,7 +271,10 @@ export class EdgeQualityPredictor extends BaseCalculator {
 
   async calculate(inputs: EdgeQualityInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialProperties[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       const gas = gasProperties[inputs.assistGas];
       
       // Calculate quality factors
@@ -497,7 +494,7 @@ export class EdgeQualityPredictor extends BaseCalculator {
       recommendations.push('Adjust gas pressure and focus position to minimize kerf taper');
     }
     
-    if (inputs.assistGas === 'air' && inputs.materialType === 'stainless_steel') {
+    if (inputs.assistGas === 'air' && materialRegistry.isFamily(inputs.materialType, 'stainless_steel')) {
       recommendations.push('Consider using nitrogen for better edge quality on stainless steel');
     }
     
@@ -9,14 +9,17 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
+import { gaussianBeamModel, BeamOptics, BeamProfile, SheetCaustic } from '@/services/gaussianBeamModel';
 
 // Input validation schema
 const focusHeightSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   laserType: z.enum(['fiber', 'co2', 'nd_yag', 'diode']),
   focalLength: z.number().min(50).max(500),
   beamDiameter: z.number().min(1).max(25),
+  beamQuality: z.number().min(1).max(50).optional(),
   cuttingApplication: z.enum(['through_cut', 'engraving', 'marking', 'welding', 'drilling']),
   qualityRequirement: z.enum(['rough', 'standard', 'precision', 'mirror']),
   assistGas: z.enum(['oxygen', 'nitrogen', 'air', 'argon']),
@@ -44,6 +47,7 @@ export interface FocusHeightResults {
     beamQuality: number;            // M² factor
     numericalAperture: number;
   };
+  caustic: SheetCaustic;          // beam envelope through the sheet at the optimal focus
   focusPositionTable: Array<{
     application: string;
     position: number;               // mm
@@ -95,46 +99,32 @@ const beamQualityFactors = {
   diode: 2.0
 };
 
-// Material optical properties
-const materialOpticalProperties = {
-  steel: {
-    absorptivity: 0.85,
-    reflectivity: 0.15,
-    thermalConductivity: 50,
-    focusAdjustment: 0
-  },
-  stainless_steel: {
-    absorptivity: 0.75,
-    reflectivity: 0.25,
-    thermalConductivity: 16,
-    focusAdjustment: -0.2
-  },
-  aluminum: {
-    absorptivity: 0.65,
-    reflectivity: 0.35,
-    thermalConductivity: 237,
-    focusAdjustment: 0.1
-  },
-  copper: {
-    absorptivity: 0.60,
-    reflectivity: 0.40,
-    thermalConductivity: 401,
-    focusAdjustment: -0.3
-  },
-  titanium: {
-    absorptivity: 0.80,
-    reflectivity: 0.20,
-    thermalConductivity: 22,
-    focusAdjustment: -0.1
-  },
-  brass: {
-    absorptivity: 0.70,
-    reflectivity: 0.30,
-    thermalConductivity: 120,
-    focusAdjustment: -0.2
-  }
+// Focus offset per material family (mm)
+const materialFocusAdjustments = {
+  steel: 0,
+  stainless_steel: -0.2,
+  aluminum: 0.1,
+  copper: -0.3,
+  titanium: -0.1,
+  brass: -0.2
 };
 
+// Optical and thermal properties of the grade from the material registry
+function getMaterialOpticalProperties(materialType: string) {
+  const focusAdjustment = materialRegistry.byFamily(materialType, materialFocusAdjustments);
+  if (focusAdjustment === undefined) return undefined;
+
+  const absorptivity = materialRegistry.absorptivity(materialType);
+  return {
+    absorptivity,
+    reflectivity: 1 - absorptivity,
+    thermalConductivity: materialRegistry.get(materialType).thermal.conductivity,
+    focusAdjustment
+  };
+}
+
+type MaterialOpticalProperties = NonNullable<ReturnType<typeof getMaterialOpticalProperties>>;
+
 // Application-specific focus strategies
 const applicationFocusStrategies = {
   through_cut: {
@@ -163,14 +153,7 @@ export class FocusHeightCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be processed',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -218,6 +201,16 @@ export class FocusHeightCalculator extends BaseCalculator {
         unit: 'mm',
         help: 'Diameter of the laser beam before focusing'
       },
+      {
+        id: 'beamQuality',
+        label: 'Beam Quality M² (Optional)',
+        type: 'number',
+        required: false,
+        min: 1,
+        max: 50,
+        step: 0.05,
+        help: 'Measured M² of the source; the typical value for the laser type is used when empty'
+      },
       {
         id: 'cuttingApplication',
         label: 'Cutting Application',
@@ -270,9 +263,17 @@ export class FocusHeightCalculator extends BaseCalculator {
         help: 'Current focus height setting for comparison'
       }
     ],
+    resultUnits: {
+      'optimalFocus.position': 'mm',
+      'optimalFocus.tolerance': 'mm',
+      'beamCharacteristics.spotSize': 'mm',
+      'beamCharacteristics.rayleighRange': 'mm',
+      'beamCharacteristics.depthOfFocus': 'mm',
+      'qualityPrediction.heatAffectedZone': 'mm'
+    },
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -294,7 +295,7 @@ export class FocusHeightCalculator extends BaseCalculator {
     }
 
     // Check application vs material compatibility
-    if (inputs.cuttingApplication === 'welding' && inputs.materialType === 'copper') {
+    if (inputs.cuttingApplication === 'welding' && materialRegistry.isFamily(inputs.materialType, 'copper')) {
       warnings.push({
         field: 'materialType',
         message: 'Copper welding requires special considerations due to high thermal conductivity',
@@ -303,7 +304,7 @@ export class FocusHeightCalculator extends BaseCalculator {
     }
 
     // Check laser type vs material compatibility
-    if (inputs.laserType === 'co2' && (inputs.materialType === 'steel' || inputs.materialType === 'stainless_steel')) {
+    if (inputs.laserType === 'co2' && materialRegistry.isFamily(inputs.materialType, 'steel', 'stainless_steel')) {
       warnings.push({
         field: 'laserType',
         message: 'CO₂ laser may not be optimal for steel materials. Consider fiber laser.',
@@ -336,21 +337,25 @@ export class FocusHeightCalculator extends BaseCalculator {
 
   async calculate(inputs: FocusHeightInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialOpticalProperties[inputs.materialType];
-      const wavelength = laserWavelengths[inputs.laserType];
-      const beamQuality = beamQualityFactors[inputs.laserType];
+      const material = getMaterialOpticalProperties(inputs.materialType);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
+      const optics = this.beamOptics(inputs);
+      const profile = gaussianBeamModel.profile(optics);
       
       // Calculate optimal focus position
-      const optimalFocus = this.calculateOptimalFocus(inputs, material);
+      const optimalFocus = this.calculateOptimalFocus(inputs, material, profile);
       
       // Calculate beam characteristics
-      const beamCharacteristics = this.calculateBeamCharacteristics(inputs, wavelength, beamQuality);
+      const beamCharacteristics = this.calculateBeamCharacteristics(optics, profile);
+      const caustic = gaussianBeamModel.throughSheet(optics, inputs.thickness, optimalFocus.position);
       
       // Generate focus position table
       const focusPositionTable = this.generateFocusPositionTable(inputs, material);
       
       // Predict quality outcomes
-      const qualityPrediction = this.predictQualityOutcomes(inputs, optimalFocus, beamCharacteristics);
+      const qualityPrediction = this.predictQualityOutcomes(inputs, material, optimalFocus, beamCharacteristics);
       
       // Generate adjustment guidance
       const adjustmentGuidance = this.generateAdjustmentGuidance(inputs, optimalFocus);
@@ -364,6 +369,7 @@ export class FocusHeightCalculator extends BaseCalculator {
       const results: FocusHeightResults = {
         optimalFocus,
         beamCharacteristics,
+        caustic,
         focusPositionTable,
         qualityPrediction,
         adjustmentGuidance,
@@ -381,7 +387,19 @@ export class FocusHeightCalculator extends BaseCalculator {
     }
   }
 
-  private calculateOptimalFocus(inputs: FocusHeightInputs, material: typeof materialOpticalProperties.steel) {
+  /**
+   * Optics for the shared beam model; a measured M² (or the machine's) overrides the laser type default
+   */
+  private beamOptics(inputs: FocusHeightInputs): BeamOptics {
+    return {
+      mSquared: inputs.beamQuality ?? beamQualityFactors[inputs.laserType],
+      wavelength: laserWavelengths[inputs.laserType],
+      rawBeamDiameter: inputs.beamDiameter,
+      focalLength: inputs.focalLength
+    };
+  }
+
+  private calculateOptimalFocus(inputs: FocusHeightInputs, material: MaterialOpticalProperties, profile: BeamProfile) {
     let focusPosition = 0;
     
     // Application-specific base position
@@ -429,11 +447,7 @@ export class FocusHeightCalculator extends BaseCalculator {
     focusPosition += gasAdjustments[inputs.assistGas];
     
     // Calculate tolerance based on depth of focus
-    const wavelength = laserWavelengths[inputs.laserType];
-    const beamQuality = beamQualityFactors[inputs.laserType];
-    const spotSize = this.calculateSpotSize(inputs.focalLength, inputs.beamDiameter, wavelength, beamQuality);
-    const rayleighRange = (Math.PI * Math.pow(spotSize / 2, 2)) / (wavelength / 1000);
-    const tolerance = rayleighRange * 0.5; // ±50% of Rayleigh range
+    const tolerance = profile.focusTolerance;
     
     // Generate reasoning
     const reasoning = this.generateFocusReasoning(inputs, focusPosition);
@@ -451,40 +465,23 @@ export class FocusHeightCalculator extends BaseCalculator {
     };
   }
 
-  private calculateBeamCharacteristics(inputs: FocusHeightInputs, wavelength: number, beamQuality: number) {
-    // Calculate focused spot size
-    const spotSize = this.calculateSpotSize(inputs.focalLength, inputs.beamDiameter, wavelength, beamQuality);
-    
+  private calculateBeamCharacteristics(optics: BeamOptics, profile: BeamProfile) {
     // Calculate power density (assuming 1kW for reference)
     const referencePower = 1000; // W
-    const spotArea = Math.PI * Math.pow(spotSize / 2, 2); // mm²
+    const spotArea = Math.PI * Math.pow(profile.waistDiameter / 2, 2); // mm²
     const powerDensity = referencePower / spotArea;
     
-    // Calculate Rayleigh range
-    const rayleighRange = (Math.PI * Math.pow(spotSize / 2, 2)) / (wavelength / 1000);
-    
-    // Depth of focus (2 × Rayleigh range)
-    const depthOfFocus = 2 * rayleighRange;
-    
-    // Numerical aperture
-    const numericalAperture = inputs.beamDiameter / (2 * inputs.focalLength);
-    
     return {
-      spotSize: Math.round(spotSize * 1000) / 1000,
+      spotSize: Math.round(profile.waistDiameter * 1000) / 1000,
       powerDensity: Math.round(powerDensity),
-      rayleighRange: Math.round(rayleighRange * 100) / 100,
-      depthOfFocus: Math.round(depthOfFocus * 100) / 100,
-      beamQuality: Math.round(beamQuality * 100) / 100,
-      numericalAperture: Math.round(numericalAperture * 1000) / 1000
+      rayleighRange: Math.round(profile.rayleighLength * 100) / 100,
+      depthOfFocus: Math.round(profile.depthOfFocus * 100) / 100,
+      beamQuality: Math.round(optics.mSquared * 100) / 100,
+      numericalAperture: Math.round(profile.numericalAperture * 1000) / 1000
     };
   }
 
-  private calculateSpotSize(focalLength: number, beamDiameter: number, wavelength: number, beamQuality: number): number {
-    // Diffraction-limited spot size formula: d = 4λf/(πD) × M²
-    return (4 * wavelength * focalLength * beamQuality) / (Math.PI * beamDiameter * 1000);
-  }
-
-  private generateFocusPositionTable(inputs: FocusHeightInputs, material: typeof materialOpticalProperties.steel) {
+  private generateFocusPositionTable(inputs: FocusHeightInputs, material: MaterialOpticalProperties) {
     const positions = [
       {
         application: 'Surface Focus',
@@ -523,7 +520,7 @@ export class FocusHeightCalculator extends BaseCalculator {
     }));
   }
 
-  private predictQualityOutcomes(inputs: FocusHeightInputs, optimalFocus: any, beamCharacteristics: any) {
+  private predictQualityOutcomes(inputs: FocusHeightInputs, material: MaterialOpticalProperties, optimalFocus: any, beamCharacteristics: any) {
     // Quality prediction based on focus position and beam characteristics
     const baseQuality = 8;
     
@@ -539,7 +536,6 @@ export class FocusHeightCalculator extends BaseCalculator {
     const applicationFactor = applicationFactors[inputs.cuttingApplication];
     
     // Material-specific quality factors
-    const material = materialOpticalProperties[inputs.materialType];
     const materialFactor = material.absorptivity;
     
     // Calculate quality metrics
@@ -667,7 +663,7 @@ export class FocusHeightCalculator extends BaseCalculator {
       reasons.push('Surface focus for precise engraving depth control');
     }
     
-    if (inputs.materialType === 'copper' || inputs.materialType === 'aluminum') {
+    if (materialRegistry.isFamily(inputs.materialType, 'copper', 'aluminum')) {
       reasons.push('Adjusted for high thermal conductivity material');
     }
     
@@ -678,7 +674,7 @@ export class FocusHeightCalculator extends BaseCalculator {
     return reasons;
   }
 
-  private calculateFocusConfidence(inputs: FocusHeightInputs, material: typeof materialOpticalProperties.steel): number {
+  private calculateFocusConfidence(inputs: FocusHeightInputs, material: MaterialOpticalProperties): number {
     let confidence = 0.8; // Base confidence
     
     // Increase confidence for common applications
@@ -699,7 +695,7 @@ export class FocusHeightCalculator extends BaseCalculator {
     return Math.min(1.0, confidence);
   }
 
-  private generateWarnings(inputs: FocusHeightInputs, optimalFocus: any, material: typeof materialOpticalProperties.steel): string[] {
+  private generateWarnings(inputs: FocusHeightInputs, optimalFocus: any, material: MaterialOpticalProperties): string[] {
     const warnings: string[] = [];
     
     if (inputs.thickness > 25) {
@@ -17,7 +17,7 @@ describe('FocusHeightCalculator', () => {
       expect(calculator.config.title).toBe('Focus Height Calculator');
       expect(calculator.config.category).toBe('Process Optimization');
       expect(calculator.config.badge).toBe('Standard');
-      expect(calculator.config.inputs).toHaveLength(9);
+      expect(calculator.config.inputs).toHaveLength(10);
     });
 
     test('should have all required input fields', () => {
@@ -27,6 +27,7 @@ describe('FocusHeightCalculator', () => {
       expect(inputIds).toContain('laserType');
       expect(inputIds).toContain('focalLength');
       expect(inputIds).toContain('beamDiameter');
+      expect(inputIds).toContain('beamQuality');
       expect(inputIds).toContain('cuttingApplication');
       expect(inputIds).toContain('qualityRequirement');
       expect(inputIds).toContain('assistGas');
@@ -379,7 +380,7 @@ describe('FocusHeightCalculator', () => {
       expect(result.metadata).toBeDefined();
       expect(result.metadata.calculationTime).toBeGreaterThanOrEqual(0);
       expect(result.metadata.timestamp).toBeDefined();
-      expect(result.metadata.version).toBe('1.0.0');
+      expect(result.metadata.version).toBe('1.1.0');
       expect(result.metadata.inputHash).toBeDefined();
     });
   });
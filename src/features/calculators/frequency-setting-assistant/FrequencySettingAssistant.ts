@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const frequencySettingSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   laserType: z.enum(['fiber', 'co2', 'nd_yag', 'diode']),
   laserPower: z.number().min(50).max(20000),
@@ -102,52 +103,31 @@ const baseFrequencies = {
   brass: { fiber: 18000, co2: 2000, nd_yag: 12000, diode: 8000 }
 };
 
-// Material thermal properties for frequency optimization
-const materialThermalProperties = {
-  steel: {
-    thermalConductivity: 50,
-    meltingPoint: 1538,
-    vaporization: 2862,
-    absorptivity: 0.85,
-    optimalPulseDuration: 100
-  },
-  stainless_steel: {
-    thermalConductivity: 16,
-    meltingPoint: 1400,
-    vaporization: 2900,
-    absorptivity: 0.75,
-    optimalPulseDuration: 120
-  },
-  aluminum: {
-    thermalConductivity: 237,
-    meltingPoint: 660,
-    vaporization: 2519,
-    absorptivity: 0.65,
-    optimalPulseDuration: 80
-  },
-  copper: {
-    thermalConductivity: 401,
-    meltingPoint: 1085,
-    vaporization: 2562,
-    absorptivity: 0.60,
-    optimalPulseDuration: 60
-  },
-  titanium: {
-    thermalConductivity: 22,
-    meltingPoint: 1668,
-    vaporization: 3287,
-    absorptivity: 0.80,
-    optimalPulseDuration: 150
-  },
-  brass: {
-    thermalConductivity: 120,
-    meltingPoint: 900,
-    vaporization: 2562,
-    absorptivity: 0.70,
-    optimalPulseDuration: 90
-  }
+// Optimal pulse duration per material family
+const optimalPulseDurations = {
+  steel: 100,
+  stainless_steel: 120,
+  aluminum: 80,
+  copper: 60,
+  titanium: 150,
+  brass: 90
 };
 
+// Pulse duration of the material's family with the grade's conductivity and fiber
+// absorptivity from the material registry; wavelength effects are carried by baseFrequencies
+function getMaterialThermalProperties(materialType: string) {
+  const optimalPulseDuration = materialRegistry.byFamily(materialType, optimalPulseDurations);
+  if (optimalPulseDuration === undefined) return undefined;
+
+  return {
+    thermalConductivity: materialRegistry.get(materialType).thermal.conductivity,
+    absorptivity: materialRegistry.absorptivity(materialType),
+    optimalPulseDuration
+  };
+}
+
+type MaterialThermalProperties = NonNullable<ReturnType<typeof getMaterialThermalProperties>>;
+
 export class FrequencySettingAssistant extends BaseCalculator {
   readonly config: BaseCalculatorConfig = {
     id: 'frequency-setting-assistant',
@@ -163,14 +143,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be processed',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -301,7 +274,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     }
 
     // Check material vs laser type compatibility
-    if (inputs.laserType === 'co2' && (inputs.materialType === 'steel' || inputs.materialType === 'stainless_steel')) {
+    if (inputs.laserType === 'co2' && materialRegistry.isFamily(inputs.materialType, 'steel', 'stainless_steel')) {
       warnings.push({
         field: 'laserType',
         message: 'CO₂ laser may not be optimal for steel materials',
@@ -320,7 +293,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
 
     // Check current frequency range
     if (inputs.currentFrequency !== undefined) {
-      const maxReasonableFreq = baseFrequencies[inputs.materialType]?.[inputs.laserType] * 2 || 40000;
+      const maxReasonableFreq = (materialRegistry.byFamily(inputs.materialType, baseFrequencies)?.[inputs.laserType] ?? 20000) * 2;
       if (inputs.currentFrequency > maxReasonableFreq) {
         warnings.push({
           field: 'currentFrequency',
@@ -335,8 +308,11 @@ export class FrequencySettingAssistant extends BaseCalculator {
 
   async calculate(inputs: FrequencySettingInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialThermalProperties[inputs.materialType];
-      const baseFreq = baseFrequencies[inputs.materialType]?.[inputs.laserType] || 5000;
+      const material = getMaterialThermalProperties(inputs.materialType);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
+      const baseFreq = materialRegistry.byFamily(inputs.materialType, baseFrequencies)?.[inputs.laserType] || 5000;
       
       // Calculate optimal frequency
       const optimalFrequency = this.calculateOptimalFrequency(inputs, material, baseFreq);
@@ -375,7 +351,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     }
   }
 
-  private calculateOptimalFrequency(inputs: FrequencySettingInputs, material: typeof materialThermalProperties.steel, baseFreq: number) {
+  private calculateOptimalFrequency(inputs: FrequencySettingInputs, material: MaterialThermalProperties, baseFreq: number) {
     let optimalFreq = baseFreq;
     
     // Handle continuous wave mode
@@ -434,7 +410,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     };
   }
 
-  private calculatePulseCharacteristics(optimalFreq: any, inputs: FrequencySettingInputs, material: typeof materialThermalProperties.steel) {
+  private calculatePulseCharacteristics(optimalFreq: any, inputs: FrequencySettingInputs, material: MaterialThermalProperties) {
     if (optimalFreq.value === 0) {
       // Continuous wave characteristics
       return {
@@ -468,7 +444,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     };
   }
 
-  private calculateOptimalPulseDuration(frequency: number, cuttingSpeed: number, material: typeof materialThermalProperties.steel): number {
+  private calculateOptimalPulseDuration(frequency: number, cuttingSpeed: number, material: MaterialThermalProperties): number {
     // Base pulse duration from material properties
     let pulseDuration = material.optimalPulseDuration;
     
@@ -486,7 +462,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     return Math.max(10, Math.min(500, pulseDuration)); // Clamp between 10-500 μs
   }
 
-  private analyzeMaterialResponse(inputs: FrequencySettingInputs, optimalFreq: any, pulseChar: any, material: typeof materialThermalProperties.steel) {
+  private analyzeMaterialResponse(inputs: FrequencySettingInputs, optimalFreq: any, pulseChar: any, material: MaterialThermalProperties) {
     // Calculate heat affected zone
     const heatAffectedZone = this.calculateHAZ(inputs, optimalFreq, pulseChar, material);
     
@@ -503,7 +479,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     };
   }
 
-  private calculateHAZ(inputs: FrequencySettingInputs, optimalFreq: any, pulseChar: any, material: typeof materialThermalProperties.steel) {
+  private calculateHAZ(inputs: FrequencySettingInputs, optimalFreq: any, pulseChar: any, material: MaterialThermalProperties) {
     let hazWidth = 0.1; // Base HAZ width in mm
     
     if (optimalFreq.value === 0) {
@@ -530,7 +506,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     };
   }
 
-  private predictCutQuality(inputs: FrequencySettingInputs, optimalFreq: any, pulseChar: any, material: typeof materialThermalProperties.steel) {
+  private predictCutQuality(inputs: FrequencySettingInputs, optimalFreq: any, pulseChar: any, material: MaterialThermalProperties) {
     let qualityScore = 80; // Base quality score
     
     // Adjust for frequency optimization
@@ -572,7 +548,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     };
   }
 
-  private calculateProcessingEfficiency(optimalFreq: any, pulseChar: any, material: typeof materialThermalProperties.steel) {
+  private calculateProcessingEfficiency(optimalFreq: any, pulseChar: any, material: MaterialThermalProperties) {
     let efficiency = 70; // Base efficiency percentage
     
     if (optimalFreq.value === 0) {
@@ -722,7 +698,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     };
   }
 
-  private generateFrequencyReasoning(inputs: FrequencySettingInputs, material: typeof materialThermalProperties.steel): string[] {
+  private generateFrequencyReasoning(inputs: FrequencySettingInputs, material: MaterialThermalProperties): string[] {
     const reasons = [];
     
     if (inputs.cuttingMode === 'continuous') {
@@ -746,12 +722,12 @@ export class FrequencySettingAssistant extends BaseCalculator {
     return reasons;
   }
 
-  private calculateFrequencyConfidence(inputs: FrequencySettingInputs, material: typeof materialThermalProperties.steel): number {
+  private calculateFrequencyConfidence(inputs: FrequencySettingInputs, material: MaterialThermalProperties): number {
     let confidence = 0.8; // Base confidence
     
     // Increase confidence for common material-laser combinations
-    if ((inputs.materialType === 'steel' && inputs.laserType === 'fiber') ||
-        (inputs.materialType === 'aluminum' && inputs.laserType === 'fiber')) {
+    if ((materialRegistry.isFamily(inputs.materialType, 'steel') && inputs.laserType === 'fiber') ||
+        (materialRegistry.isFamily(inputs.materialType, 'aluminum') && inputs.laserType === 'fiber')) {
       confidence += 0.1;
     }
     
@@ -789,7 +765,7 @@ export class FrequencySettingAssistant extends BaseCalculator {
     return features;
   }
 
-  private generateWarnings(inputs: FrequencySettingInputs, optimalFreq: any, material: typeof materialThermalProperties.steel): string[] {
+  private generateWarnings(inputs: FrequencySettingInputs, optimalFreq: any, material: MaterialThermalProperties): string[] {
     const warnings: string[] = [];
     
     if (inputs.thickness > 25) {
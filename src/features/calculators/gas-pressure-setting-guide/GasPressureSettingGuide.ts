@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const gasPressureSettingSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   assistGas: z.enum(['oxygen', 'nitrogen', 'air', 'argon']),
   nozzleDiameter: z.number().min(0.5).max(5.0),
@@ -73,7 +74,7 @@ export interface GasPressureSettingResults {
   warnings: string[];
 }
 
-// Material gas pressure properties
+// Gas pressure settings per material family and gas
 const materialGasPressureProperties = {
   steel: {
     oxygen: { basePressure: 0.8, thicknessFactor: 0.15, maxPressure: 3.0, qualityFactor: 0.85 },
@@ -139,14 +140,7 @@ export class GasPressureSettingGuide extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -230,6 +224,16 @@ export class GasPressureSettingGuide extends BaseCalculator {
         help: 'Current gas pressure for comparison'
       }
     ],
+    resultUnits: {
+      'optimalPressure.value': 'bar',
+      'pressureRange.minimum': 'bar',
+      'pressureRange.maximum': 'bar',
+      'pressureRange.optimal': 'bar',
+      'pressureRange.tolerance': 'bar',
+      'gasFlowAnalysis.flowRate': 'L/min',
+      'pressureEffects.kerfWidth': 'mm',
+      'pressureEffects.penetrationDepth': 'mm'
+    },
     resultType: 'analysis',
     version: '1.0.0',
     lastUpdated: '2025-01-02'
@@ -244,7 +248,7 @@ export class GasPressureSettingGuide extends BaseCalculator {
     const warnings: ValidationResult['warnings'] = [];
 
     // Check gas compatibility with material
-    const materialGasProps = materialGasPressureProperties[inputs.materialType];
+    const materialGasProps = materialRegistry.byFamily(inputs.materialType, materialGasPressureProperties);
     if (!materialGasProps) {
       errors.push({
         field: 'materialType',
@@ -283,7 +287,7 @@ export class GasPressureSettingGuide extends BaseCalculator {
 
     // Check current pressure if provided
     if (inputs.currentPressure !== undefined) {
-      const gasProps = materialGasProps[inputs.assistGas];
+      const gasProps = materialGasProps?.[inputs.assistGas];
       if (gasProps) {
         const estimatedOptimal = gasProps.basePressure + (inputs.thickness * gasProps.thicknessFactor);
         if (Math.abs(inputs.currentPressure - estimatedOptimal) > estimatedOptimal * 0.5) {
@@ -301,8 +305,8 @@ export class GasPressureSettingGuide extends BaseCalculator {
 
   async calculate(inputs: GasPressureSettingInputs): Promise<BaseCalculationResult> {
     try {
-      const materialGasProps = materialGasPressureProperties[inputs.materialType];
-      const gasProps = materialGasProps[inputs.assistGas];
+      const materialGasProps = materialRegistry.byFamily(inputs.materialType, materialGasPressureProperties);
+      const gasProps = materialGasProps?.[inputs.assistGas];
       const flowProps = gasFlowProperties[inputs.assistGas];
       
       if (!gasProps) {
@@ -481,7 +485,7 @@ export class GasPressureSettingGuide extends BaseCalculator {
     }
     
     // Cost optimizations
-    if (inputs.assistGas === 'nitrogen' && inputs.materialType === 'steel') {
+    if (inputs.assistGas === 'nitrogen' && materialRegistry.isFamily(inputs.materialType, 'steel')) {
       costOptimizations.push('Consider oxygen for cost reduction on carbon steel');
     }
     
@@ -507,7 +511,7 @@ export class GasPressureSettingGuide extends BaseCalculator {
       solution: 'Fine-tune pressure within recommended range'
     });
     
-    if (inputs.assistGas === 'nitrogen' && inputs.materialType.includes('steel')) {
+    if (inputs.assistGas === 'nitrogen' && materialRegistry.isFamily(inputs.materialType, 'steel', 'stainless_steel')) {
       troubleshooting.push({
         issue: 'Oxidation on cut edges',
         cause: 'Nitrogen pressure too low',
@@ -572,7 +576,7 @@ export class GasPressureSettingGuide extends BaseCalculator {
       reasons.push('Higher pressure prevents oxidation and improves edge quality');
     }
     
-    if (inputs.materialType === 'stainless_steel') {
+    if (materialRegistry.isFamily(inputs.materialType, 'stainless_steel')) {
       reasons.push('Pressure adjusted for stainless steel thermal properties');
     }
     
@@ -587,9 +591,9 @@ export class GasPressureSettingGuide extends BaseCalculator {
     let confidence = 0.8; // Base confidence
     
     // Increase confidence for common material-gas combinations
-    if ((inputs.materialType === 'steel' && inputs.assistGas === 'oxygen') ||
-        (inputs.materialType === 'stainless_steel' && inputs.assistGas === 'nitrogen') ||
-        (inputs.materialType === 'aluminum' && inputs.assistGas === 'nitrogen')) {
+    if ((materialRegistry.isFamily(inputs.materialType, 'steel') && inputs.assistGas === 'oxygen') ||
+        (materialRegistry.isFamily(inputs.materialType, 'stainless_steel') && inputs.assistGas === 'nitrogen') ||
+        (materialRegistry.isFamily(inputs.materialType, 'aluminum') && inputs.assistGas === 'nitrogen')) {
       confidence += 0.15;
     }
     
@@ -608,11 +612,11 @@ export class GasPressureSettingGuide extends BaseCalculator {
       warnings.push('Operating near maximum pressure limit - monitor system performance');
     }
     
-    if (inputs.assistGas === 'oxygen' && inputs.materialType === 'aluminum') {
+    if (inputs.assistGas === 'oxygen' && materialRegistry.isFamily(inputs.materialType, 'aluminum')) {
       warnings.push('Oxygen with aluminum may cause excessive oxidation');
     }
     
-    if (inputs.assistGas === 'oxygen' && inputs.materialType === 'titanium') {
+    if (inputs.assistGas === 'oxygen' && materialRegistry.isFamily(inputs.materialType, 'titanium')) {
       warnings.push('Oxygen with titanium will cause severe oxidation - use argon instead');
     }
     
@@ -9,19 +9,30 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
+import { thermalFieldSolver, ThermalFieldResult } from '@/services/thermalFieldSolver';
 
 // Input validation schema
 const hazCalculatorSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.5).max(50),
   laserPower: z.number().min(500).max(20000),
   cuttingSpeed: z.number().min(100).max(15000),
   beamDiameter: z.number().min(0.05).max(2.0).optional().default(0.2),
-  pulseFrequency: z.number().min(0).max(50000).optional().default(0)
+  pulseFrequency: z.number().min(0).max(50000).optional().default(0),
+  // The numerical model simulates a cut path, which only API and programmatic callers can
+  // give, so it is not offered in the form
+  thermalModel: z.enum(['empirical', 'numerical']).optional().default('empirical'),
+  cutPath: z.array(z.object({
+    id: z.string(),
+    points: z.array(z.object({ x: z.number(), y: z.number() })).min(2)
+  })).optional()
 });
 
-// Input types
-export type HeatAffectedZoneInputs = z.infer<typeof hazCalculatorSchema>;
+// Input types; thermalModel stays optional for callers, the schema fills in 'empirical'
+type HazSchemaOutput = z.infer<typeof hazCalculatorSchema>;
+export type HeatAffectedZoneInputs = Omit<HazSchemaOutput, 'thermalModel'> &
+  Partial<Pick<HazSchemaOutput, 'thermalModel'>>;
 
 // Result types
 export interface HeatAffectedZoneResults {
@@ -47,77 +58,29 @@ export interface HeatAffectedZoneResults {
     thermalStress: number;    // MPa
     energyDensity: number;    // J/mm²
   };
+  thermalField?: ThermalFieldResult; // numerical model only
 }
 
-// Material thermal properties database
-const materialThermalProperties = {
-  steel: {
-    thermalConductivity: 50,    // W/m·K
-    specificHeat: 490,          // J/kg·K
-    density: 7850,              // kg/m³
-    meltingPoint: 1538,         // °C
-    thermalDiffusivity: 13e-6,  // m²/s
-    thermalExpansion: 12e-6,    // /K
-    absorptivity: 0.85,         // for fiber laser
-    yieldStrength: 250,         // MPa
-    elasticModulus: 200000      // MPa
-  },
-  stainless_steel: {
-    thermalConductivity: 16,
-    specificHeat: 500,
-    density: 8000,
-    meltingPoint: 1400,
-    thermalDiffusivity: 4e-6,
-    thermalExpansion: 17e-6,
-    absorptivity: 0.80,
-    yieldStrength: 205,
-    elasticModulus: 200000
-  },
-  aluminum: {
-    thermalConductivity: 237,
-    specificHeat: 896,
-    density: 2700,
-    meltingPoint: 660,
-    thermalDiffusivity: 97e-6,
-    thermalExpansion: 23e-6,
-    absorptivity: 0.75,
-    yieldStrength: 276,
-    elasticModulus: 70000
-  },
-  copper: {
-    thermalConductivity: 401,
-    specificHeat: 385,
-    density: 8960,
-    meltingPoint: 1085,
-    thermalDiffusivity: 117e-6,
-    thermalExpansion: 17e-6,
-    absorptivity: 0.70,
-    yieldStrength: 70,
-    elasticModulus: 110000
-  },
-  titanium: {
-    thermalConductivity: 22,
-    specificHeat: 520,
-    density: 4500,
-    meltingPoint: 1668,
-    thermalDiffusivity: 9e-6,
-    thermalExpansion: 8.6e-6,
-    absorptivity: 0.78,
-    yieldStrength: 275,
-    elasticModulus: 114000
-  },
-  brass: {
-    thermalConductivity: 120,
-    specificHeat: 380,
-    density: 8500,
-    meltingPoint: 930,
-    thermalDiffusivity: 37e-6,
-    thermalExpansion: 19e-6,
-    absorptivity: 0.72,
-    yieldStrength: 310,
-    elasticModulus: 100000
-  }
-};
+// Thermal and mechanical properties of a grade from the material registry. The model is
+// calibrated for fiber lasers, so it takes the fiber absorptivity.
+function getMaterialThermalProperties(materialType: string) {
+  const grade = materialRegistry.find(materialType);
+  if (!grade?.mechanical || !materialRegistry.isFamily(materialType, ...METAL_FAMILIES)) return undefined;
+
+  return {
+    thermalConductivity: grade.thermal.conductivity,
+    specificHeat: grade.thermal.specificHeat,
+    density: grade.thermal.density,
+    meltingPoint: grade.thermal.meltingPoint,
+    thermalDiffusivity: materialRegistry.thermalDiffusivity(materialType),
+    thermalExpansion: grade.thermal.expansion,
+    absorptivity: materialRegistry.absorptivity(materialType),
+    yieldStrength: grade.mechanical.yieldStrength,
+    elasticModulus: grade.mechanical.elasticModulus
+  };
+}
+
+type MaterialThermalProperties = NonNullable<ReturnType<typeof getMaterialThermalProperties>>;
 
 export class HeatAffectedZoneCalculator extends BaseCalculator {
   readonly config: BaseCalculatorConfig = {
@@ -134,14 +97,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -199,9 +155,16 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
         help: 'Pulse frequency (0 for continuous wave)'
       }
     ],
+    resultUnits: {
+      hazWidth: 'mm',
+      hazDepth: 'mm',
+      hazVolume: 'mm³',
+      coolingRate: '°C/s',
+      'thermalField.maxHazWidth': 'mm'
+    },
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -212,6 +175,14 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
     const errors: ValidationResult['errors'] = [];
     const warnings: ValidationResult['warnings'] = [];
 
+    if (inputs.thermalModel === 'numerical' && !inputs.cutPath?.length) {
+      errors.push({
+        field: 'cutPath',
+        message: 'The numerical thermal model needs the cut path to simulate',
+        code: 'CUT_PATH_REQUIRED'
+      });
+    }
+
     // Check power vs speed ratio for heat input
     const heatInput = (inputs.laserPower * 60) / inputs.cuttingSpeed;
     if (heatInput > 1000) {
@@ -223,7 +194,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
     }
 
     // Check material-specific considerations
-    if (inputs.materialType === 'aluminum' && inputs.laserPower < 2000) {
+    if (materialRegistry.isFamily(inputs.materialType, 'aluminum') && inputs.laserPower < 2000) {
       warnings.push({
         field: 'laserPower',
         message: 'Low power for aluminum may result in poor cut quality due to high thermal conductivity.',
@@ -231,7 +202,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       });
     }
 
-    if (inputs.materialType === 'copper' && inputs.laserPower < 3000) {
+    if (materialRegistry.isFamily(inputs.materialType, 'copper') && inputs.laserPower < 3000) {
       warnings.push({
         field: 'laserPower',
         message: 'Copper requires high power due to high thermal conductivity and low absorptivity.',
@@ -254,13 +225,31 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
 
   async calculate(inputs: HeatAffectedZoneInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialThermalProperties[inputs.materialType];
+      const material = getMaterialThermalProperties(inputs.materialType);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       
       // Calculate thermal analysis
       const thermalAnalysis = this.calculateThermalAnalysis(inputs, material);
       
-      // Calculate HAZ dimensions
+      // Calculate HAZ dimensions; the numerical model takes the widest HAZ along the cut path
       const hazDimensions = this.calculateHAZDimensions(inputs, material, thermalAnalysis);
+      const thermalField = inputs.thermalModel === 'numerical'
+        ? thermalFieldSolver.solve({
+          materialType: inputs.materialType,
+          thickness: inputs.thickness,
+          laserPower: inputs.laserPower,
+          cuttingSpeed: inputs.cuttingSpeed,
+          cuts: inputs.cutPath ?? []
+        })
+        : undefined;
+      if (thermalField) {
+        // The thin-plate field is uniform through the thickness, so its HAZ runs through the whole sheet
+        hazDimensions.hazWidth = thermalField.maxHazWidth;
+        hazDimensions.hazDepth = thermalField.maxHazWidth > 0 ? inputs.thickness : 0;
+        hazDimensions.hazVolume = hazDimensions.hazWidth * hazDimensions.hazDepth * inputs.beamDiameter;
+      }
       
       // Generate temperature profile
       const temperatureProfile = this.generateTemperatureProfile(hazDimensions.hazWidth, thermalAnalysis.peakTemperature);
@@ -276,6 +265,14 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       
       // Generate warnings
       const warnings = this.generateWarnings(inputs, hazDimensions, thermalAnalysis);
+      warnings.push(...(thermalField?.warnings ?? []));
+      thermalField?.hotSpots.forEach(spot => {
+        warnings.push(
+          `Hot spot on ${spot.cutId} at (${Math.round(spot.position.x)}, ${Math.round(spot.position.y)}) mm: ` +
+          `${spot.preheat}°C preheat` +
+          (spot.previousCutId ? `, ${spot.timeGap}s after ${spot.previousCutId} - cut further away or let it cool` : '')
+        );
+      });
 
       const results: HeatAffectedZoneResults = {
         hazWidth: Math.round(hazDimensions.hazWidth * 1000) / 1000,
@@ -291,7 +288,8 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
           heatInput: Math.round(thermalAnalysis.heatInput),
           thermalStress: Math.round(thermalAnalysis.thermalStress),
           energyDensity: Math.round(thermalAnalysis.energyDensity)
-        }
+        },
+        thermalField
       };
 
       return this.createSuccessResult(results, inputs);
@@ -304,7 +302,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
     }
   }
 
-  private calculateThermalAnalysis(inputs: HeatAffectedZoneInputs, material: typeof materialThermalProperties.steel) {
+  private calculateThermalAnalysis(inputs: HeatAffectedZoneInputs, material: MaterialThermalProperties) {
     // Calculate heat input per unit length
     const heatInput = (inputs.laserPower * 60) / inputs.cuttingSpeed; // J/mm
     
@@ -329,7 +327,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
     };
   }
 
-  private calculateHAZDimensions(inputs: HeatAffectedZoneInputs, material: typeof materialThermalProperties.steel, thermalAnalysis: any) {
+  private calculateHAZDimensions(inputs: HeatAffectedZoneInputs, material: MaterialThermalProperties, thermalAnalysis: any) {
     // Calculate interaction time
     const interactionTime = inputs.beamDiameter / (inputs.cuttingSpeed / 60); // seconds
     
@@ -358,7 +356,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       brass: 1.1
     };
     
-    hazWidth *= materialFactors[inputs.materialType];
+    hazWidth *= materialRegistry.byFamily(inputs.materialType, materialFactors) ?? 1;
     
     // Calculate HAZ depth (typically 70% of width, limited by thickness)
     const hazDepth = Math.min(hazWidth * 0.7, inputs.thickness);
@@ -387,7 +385,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
     return profile;
   }
 
-  private calculateCoolingRate(inputs: HeatAffectedZoneInputs, material: typeof materialThermalProperties.steel, thermalAnalysis: any): number {
+  private calculateCoolingRate(inputs: HeatAffectedZoneInputs, material: MaterialThermalProperties, thermalAnalysis: any): number {
     // Simplified cooling rate calculation
     const thermalDiffusivity = material.thermalDiffusivity;
     const characteristicLength = inputs.thickness / 1000; // Convert to meters
@@ -396,7 +394,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
     return Math.min(coolingRate, 10000); // Cap at reasonable value
   }
 
-  private analyzeMicrostructureChanges(inputs: HeatAffectedZoneInputs, material: typeof materialThermalProperties.steel, thermalAnalysis: any) {
+  private analyzeMicrostructureChanges(inputs: HeatAffectedZoneInputs, material: MaterialThermalProperties, thermalAnalysis: any) {
     const peakTemp = thermalAnalysis.peakTemperature;
     const meltingPoint = material.meltingPoint;
     
@@ -410,7 +408,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       hardnessChange = 'Softening in HAZ';
       severity = 'high';
       
-      if (inputs.materialType === 'steel') {
+      if (materialRegistry.isFamily(inputs.materialType, 'steel')) {
         phaseTransformation = 'Austenite formation and transformation';
       }
     } else if (peakTemp > meltingPoint * 0.6) {
@@ -418,7 +416,7 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       hardnessChange = 'Slight softening';
       severity = 'medium';
       
-      if (inputs.materialType === 'steel') {
+      if (materialRegistry.isFamily(inputs.materialType, 'steel')) {
         phaseTransformation = 'Partial austenite formation';
       }
     } else if (peakTemp > meltingPoint * 0.4) {
@@ -441,11 +439,11 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       recommendations.push('Use pulsed mode to reduce heat input and HAZ size');
     }
     
-    if (thermalAnalysis.peakTemperature > materialThermalProperties[inputs.materialType].meltingPoint * 0.8) {
+    if (thermalAnalysis.peakTemperature > materialRegistry.get(inputs.materialType).thermal.meltingPoint * 0.8) {
       recommendations.push('High peak temperature detected - consider using assist gas cooling');
     }
     
-    if (inputs.materialType === 'aluminum' || inputs.materialType === 'copper') {
+    if (materialRegistry.isFamily(inputs.materialType, 'aluminum', 'copper')) {
       recommendations.push('Use nitrogen assist gas to prevent oxidation in HAZ');
     }
     
@@ -463,11 +461,11 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       warnings.push('Large HAZ detected - may affect material properties significantly');
     }
     
-    if (thermalAnalysis.thermalStress > materialThermalProperties[inputs.materialType].yieldStrength) {
+    if (thermalAnalysis.thermalStress > (materialRegistry.get(inputs.materialType).mechanical?.yieldStrength ?? Infinity)) {
       warnings.push('Thermal stress exceeds yield strength - risk of distortion');
     }
     
-    if (thermalAnalysis.peakTemperature > materialThermalProperties[inputs.materialType].meltingPoint * 0.9) {
+    if (thermalAnalysis.peakTemperature > materialRegistry.get(inputs.materialType).thermal.meltingPoint * 0.9) {
       warnings.push('Peak temperature near melting point - risk of excessive melting');
     }
     
@@ -481,7 +479,8 @@ export class HeatAffectedZoneCalculator extends BaseCalculator {
       laserPower: 3000,
       cuttingSpeed: 2000,
       beamDiameter: 0.2,
-      pulseFrequency: 0
+      pulseFrequency: 0,
+      thermalModel: 'empirical'
     };
   }
 }
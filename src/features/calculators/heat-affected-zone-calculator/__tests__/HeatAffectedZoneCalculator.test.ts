@@ -329,7 +329,7 @@ describe('HeatAffectedZoneCalculator', () => {
       expect(result.metadata).toBeDefined();
       expect(result.metadata.calculationTime).toBeGreaterThanOrEqual(0);
       expect(result.metadata.timestamp).toBeDefined();
-      expect(result.metadata.version).toBe('1.0.0');
+      expect(result.metadata.version).toBe('1.1.0');
       expect(result.metadata.inputHash).toBeDefined();
     });
   });
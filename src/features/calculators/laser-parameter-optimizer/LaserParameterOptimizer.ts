@@ -9,14 +9,17 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
+import { cuttingChartLibrary } from '@/services/cuttingChartLibrary';
 
 // Input validation schema
 const laserParameterSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'brass', 'titanium']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(100),
   laserType: z.enum(['fiber', 'co2', 'nd_yag', 'disk']),
   maxPower: z.number().min(100).max(50000),
-  qualityRequirement: z.enum(['draft', 'standard', 'precision', 'ultra_precision'])
+  qualityRequirement: z.enum(['draft', 'standard', 'precision', 'ultra_precision']),
+  machineId: z.string().optional()
 });
 
 // Input types
@@ -36,88 +39,30 @@ export interface LaserParameterResults {
   warnings: string[];
 }
 
-// Material properties database
-const materialProperties = {
-  steel: {
-    density: 7.85,           // g/cm³
-    meltingPoint: 1538,      // °C
-    thermalConductivity: 50, // W/m·K
-    absorptivity: {
-      fiber: 0.85,
-      co2: 0.15,
-      nd_yag: 0.75,
-      disk: 0.85
-    },
-    cuttingSpeedFactor: 1.0,
-    recommendedGas: 'oxygen'
-  },
-  stainless_steel: {
-    density: 8.0,
-    meltingPoint: 1400,
-    thermalConductivity: 16,
-    absorptivity: {
-      fiber: 0.80,
-      co2: 0.12,
-      nd_yag: 0.70,
-      disk: 0.80
-    },
-    cuttingSpeedFactor: 0.8,
-    recommendedGas: 'nitrogen'
-  },
-  aluminum: {
-    density: 2.7,
-    meltingPoint: 660,
-    thermalConductivity: 237,
-    absorptivity: {
-      fiber: 0.75,
-      co2: 0.08,
-      nd_yag: 0.65,
-      disk: 0.75
-    },
-    cuttingSpeedFactor: 1.2,
-    recommendedGas: 'nitrogen'
-  },
-  copper: {
-    density: 8.96,
-    meltingPoint: 1085,
-    thermalConductivity: 401,
-    absorptivity: {
-      fiber: 0.70,
-      co2: 0.05,
-      nd_yag: 0.60,
-      disk: 0.70
-    },
-    cuttingSpeedFactor: 0.6,
-    recommendedGas: 'nitrogen'
-  },
-  brass: {
-    density: 8.5,
-    meltingPoint: 930,
-    thermalConductivity: 120,
-    absorptivity: {
-      fiber: 0.72,
-      co2: 0.06,
-      nd_yag: 0.62,
-      disk: 0.72
-    },
-    cuttingSpeedFactor: 0.7,
-    recommendedGas: 'nitrogen'
-  },
-  titanium: {
-    density: 4.5,
-    meltingPoint: 1668,
-    thermalConductivity: 22,
-    absorptivity: {
-      fiber: 0.78,
-      co2: 0.10,
-      nd_yag: 0.68,
-      disk: 0.78
-    },
-    cuttingSpeedFactor: 0.5,
-    recommendedGas: 'argon'
-  }
+// Cutting speed relative to mild steel per material family
+const cuttingSpeedFactors = {
+  steel: 1.0,
+  stainless_steel: 0.8,
+  aluminum: 1.2,
+  copper: 0.6,
+  brass: 0.7,
+  titanium: 0.5
 };
 
+// Absorptivity at the selected laser and recommended gas of the grade from the material registry
+function getMaterialProperties(materialType: string, laserType: LaserParameterInputs['laserType']) {
+  const cuttingSpeedFactor = materialRegistry.byFamily(materialType, cuttingSpeedFactors);
+  if (cuttingSpeedFactor === undefined) return undefined;
+
+  return {
+    absorptivity: materialRegistry.absorptivity(materialType, laserType),
+    cuttingSpeedFactor,
+    recommendedGas: materialRegistry.get(materialType).cutting.assistGas
+  };
+}
+
+type MaterialProperties = NonNullable<ReturnType<typeof getMaterialProperties>>;
+
 // Quality factors
 const qualityFactors = {
   draft: { speedMultiplier: 1.5, powerMultiplier: 1.2, qualityScore: 0.6 },
@@ -141,14 +86,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'brass', label: 'Brass' },
-          { value: 'titanium', label: 'Titanium' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -199,9 +137,15 @@ export class LaserParameterOptimizer extends BaseCalculator {
         ]
       }
     ],
+    resultUnits: {
+      cuttingSpeed: 'mm/min',
+      gasPressure: 'bar',
+      focusPosition: 'mm',
+      nozzleDiameter: 'mm'
+    },
     resultType: 'parameters',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -213,7 +157,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
     const warnings: ValidationResult['warnings'] = [];
 
     // Check material-laser compatibility
-    const material = materialProperties[inputs.materialType];
+    const material = getMaterialProperties(inputs.materialType, inputs.laserType);
     if (!material) {
       errors.push({
         field: 'materialType',
@@ -223,7 +167,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
       return { errors, warnings };
     }
 
-    const absorptivity = material.absorptivity[inputs.laserType];
+    const absorptivity = material.absorptivity;
     if (absorptivity < 0.1) {
       warnings.push({
         field: 'laserType',
@@ -256,7 +200,10 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   async calculate(inputs: LaserParameterInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialProperties[inputs.materialType];
+      const material = getMaterialProperties(inputs.materialType, inputs.laserType);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       const qualityFactor = qualityFactors[inputs.qualityRequirement];
       
       // Calculate optimal power (60-90% of max power for efficiency)
@@ -266,15 +213,20 @@ export class LaserParameterOptimizer extends BaseCalculator {
         inputs.maxPower * 0.9
       );
 
+      // An imported manufacturer chart for the machine takes precedence over the model below
+      const chart = inputs.machineId
+        ? cuttingChartLibrary.lookup(inputs.machineId, inputs.materialType, inputs.thickness, optimalPower)
+        : undefined;
+
       // Calculate cutting speed using advanced algorithm
-      const baseCuttingSpeed = this.calculateBaseCuttingSpeed(inputs, material, optimalPower);
+      const baseCuttingSpeed = chart?.speed ?? this.calculateBaseCuttingSpeed(inputs, material, optimalPower);
       const cuttingSpeed = baseCuttingSpeed * qualityFactor.speedMultiplier;
 
       // Calculate gas pressure
-      const gasPressure = this.calculateGasPressure(inputs, material);
+      const gasPressure = chart?.pressure ?? this.calculateGasPressure(inputs, material);
 
       // Calculate focus position
-      const focusPosition = this.calculateFocusPosition(inputs, material);
+      const focusPosition = chart?.focus ?? this.calculateFocusPosition(inputs, material);
 
       // Calculate quality prediction
       const qualityPrediction = this.calculateQualityPrediction(
@@ -292,9 +244,10 @@ export class LaserParameterOptimizer extends BaseCalculator {
       );
 
       // Generate warnings
-      const warnings = this.generateWarnings(
-        inputs, material, optimalPower, cuttingSpeed
-      );
+      const warnings = [
+        ...this.generateWarnings(inputs, material, optimalPower, cuttingSpeed),
+        ...(chart?.warnings ?? [])
+      ];
 
       const results: LaserParameterResults = {
         optimalPower: Math.round(optimalPower),
@@ -303,8 +256,8 @@ export class LaserParameterOptimizer extends BaseCalculator {
         focusPosition: Math.round(focusPosition * 10) / 10,
         qualityPrediction: Math.round(qualityPrediction * 100) / 100,
         efficiency: Math.round(efficiency * 100) / 100,
-        gasType: material.recommendedGas,
-        nozzleDiameter: this.calculateNozzleDiameter(inputs.thickness),
+        gasType: chart?.gas ?? material.recommendedGas,
+        nozzleDiameter: chart?.nozzle ?? this.calculateNozzleDiameter(inputs.thickness),
         recommendations,
         warnings
       };
@@ -321,9 +274,9 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private calculateOptimalPowerRatio(
     inputs: LaserParameterInputs, 
-    material: typeof materialProperties.steel
+    material: MaterialProperties
   ): number {
-    const absorptivity = material.absorptivity[inputs.laserType];
+    const absorptivity = material.absorptivity;
     const thicknessFactor = Math.pow(inputs.thickness, 0.8);
     const basePowerRatio = 0.6 + (thicknessFactor / 100) * absorptivity;
     
@@ -332,10 +285,10 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private calculateBaseCuttingSpeed(
     inputs: LaserParameterInputs,
-    material: typeof materialProperties.steel,
+    material: MaterialProperties,
     power: number
   ): number {
-    const absorptivity = material.absorptivity[inputs.laserType];
+    const absorptivity = material.absorptivity;
     const effectivePower = power * absorptivity;
     const thicknessFactor = Math.pow(inputs.thickness, -1.2);
     const materialFactor = material.cuttingSpeedFactor;
@@ -345,7 +298,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private calculateGasPressure(
     inputs: LaserParameterInputs,
-    material: typeof materialProperties.steel
+    material: MaterialProperties
   ): number {
     const basePressure = material.recommendedGas === 'oxygen' ? 0.8 : 12;
     const thicknessFactor = Math.sqrt(inputs.thickness);
@@ -355,7 +308,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private calculateFocusPosition(
     inputs: LaserParameterInputs,
-    material: typeof materialProperties.steel
+    material: MaterialProperties
   ): number {
     // Focus position relative to material surface (negative = below surface)
     return -inputs.thickness * 0.3;
@@ -363,14 +316,14 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private calculateQualityPrediction(
     inputs: LaserParameterInputs,
-    material: typeof materialProperties.steel,
+    material: MaterialProperties,
     power: number,
     speed: number
   ): number {
     const qualityFactor = qualityFactors[inputs.qualityRequirement];
     const powerEfficiency = power / inputs.maxPower;
     const speedOptimality = 1 - Math.abs(speed - 3000) / 3000;
-    const materialCompatibility = material.absorptivity[inputs.laserType];
+    const materialCompatibility = material.absorptivity;
     
     return (qualityFactor.qualityScore + powerEfficiency + speedOptimality + materialCompatibility) / 4;
   }
@@ -379,7 +332,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
     power: number,
     maxPower: number,
     speed: number,
-    material: typeof materialProperties.steel
+    material: MaterialProperties
   ): number {
     const powerEfficiency = (power / maxPower) * 100;
     const speedEfficiency = Math.min(speed / 5000, 1) * 100;
@@ -397,7 +350,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private generateRecommendations(
     inputs: LaserParameterInputs,
-    material: typeof materialProperties.steel,
+    material: MaterialProperties,
     power: number,
     speed: number,
     quality: number
@@ -416,7 +369,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
       recommendations.push('Consider using high-pressure nitrogen for thick sections');
     }
 
-    if (inputs.laserType === 'co2' && inputs.materialType === 'aluminum') {
+    if (inputs.laserType === 'co2' && materialRegistry.isFamily(inputs.materialType, 'aluminum')) {
       recommendations.push('Fiber laser recommended for aluminum cutting');
     }
 
@@ -425,7 +378,7 @@ export class LaserParameterOptimizer extends BaseCalculator {
 
   private generateWarnings(
     inputs: LaserParameterInputs,
-    material: typeof materialProperties.steel,
+    material: MaterialProperties,
     power: number,
     speed: number
   ): string[] {
@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const multiplePassSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(5).max(100),
   laserType: z.enum(['fiber', 'co2', 'nd_yag', 'diode']),
   maxLaserPower: z.number().min(500).max(20000),
@@ -90,7 +91,7 @@ export interface MultiplePassResults {
   warnings: string[];
 }
 
-// Material single-pass limits and properties
+// Single-pass thickness limits (mm) per material family and laser
 const materialSinglePassLimits = {
   steel: { fiber: 20, co2: 15, nd_yag: 18, diode: 8 },
   stainless_steel: { fiber: 15, co2: 12, nd_yag: 14, diode: 6 },
@@ -100,45 +101,39 @@ const materialSinglePassLimits = {
   brass: { fiber: 10, co2: 8, nd_yag: 9, diode: 5 }
 };
 
-// Material cutting properties for multi-pass
+// Multi-pass factors per material family
 const materialMultiPassProperties = {
   steel: {
-    thermalConductivity: 50,
     workHardening: 0.1,
     optimalPassRatio: 0.6,
     qualityFactor: 0.85,
     costFactor: 1.0
   },
   stainless_steel: {
-    thermalConductivity: 16,
     workHardening: 0.3,
     optimalPassRatio: 0.5,
     qualityFactor: 0.90,
     costFactor: 1.2
   },
   aluminum: {
-    thermalConductivity: 237,
     workHardening: 0.05,
     optimalPassRatio: 0.7,
     qualityFactor: 0.80,
     costFactor: 0.8
   },
   copper: {
-    thermalConductivity: 401,
     workHardening: 0.02,
     optimalPassRatio: 0.4,
     qualityFactor: 0.75,
     costFactor: 1.5
   },
   titanium: {
-    thermalConductivity: 22,
     workHardening: 0.4,
     optimalPassRatio: 0.5,
     qualityFactor: 0.95,
     costFactor: 2.0
   },
   brass: {
-    thermalConductivity: 120,
     workHardening: 0.15,
     optimalPassRatio: 0.6,
     qualityFactor: 0.80,
@@ -161,14 +156,7 @@ export class MultiplePassCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -291,7 +279,7 @@ export class MultiplePassCalculator extends BaseCalculator {
     const warnings: ValidationResult['warnings'] = [];
 
     // Check if multi-pass is actually needed
-    const materialLimit = materialSinglePassLimits[inputs.materialType]?.[inputs.laserType] || 10;
+    const materialLimit = materialRegistry.byFamily(inputs.materialType, materialSinglePassLimits)?.[inputs.laserType] || 10;
     if (inputs.thickness <= materialLimit) {
       warnings.push({
         field: 'thickness',
@@ -345,7 +333,10 @@ export class MultiplePassCalculator extends BaseCalculator {
 
   async calculate(inputs: MultiplePassInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialMultiPassProperties[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialMultiPassProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       
       // Calculate optimal pass strategy
       const passStrategy = this.calculatePassStrategy(inputs, material);
@@ -526,7 +517,7 @@ export class MultiplePassCalculator extends BaseCalculator {
       brass: { fiber: 2000, co2: 1000, nd_yag: 1500, diode: 800 }
     };
     
-    let baseSpeed = baseSpeeds[inputs.materialType]?.[inputs.laserType] || 1500;
+    let baseSpeed = materialRegistry.byFamily(inputs.materialType, baseSpeeds)?.[inputs.laserType] || 1500;
     
     // Adjust for pass depth
     baseSpeed *= Math.sqrt(5 / passDepth);
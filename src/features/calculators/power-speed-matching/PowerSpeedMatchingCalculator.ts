@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const powerSpeedMatchingSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   laserType: z.enum(['fiber', 'co2', 'diode']),
   maxPower: z.number().min(50).max(20000),
@@ -66,54 +67,42 @@ export interface PowerSpeedMatchingResults {
   warnings: string[];
 }
 
-// Material cutting properties
+// Cutting factors per material family
 const materialCuttingProperties = {
   steel: {
     basePowerFactor: 0.8,
     baseSpeedFactor: 1.0,
     optimalPowerDensity: 2.5,
-    thermalConductivity: 50,
-    absorptionCoefficient: 0.85,
     qualityFactor: 0.85
   },
   stainless_steel: {
     basePowerFactor: 1.0,
     baseSpeedFactor: 0.8,
     optimalPowerDensity: 3.0,
-    thermalConductivity: 16,
-    absorptionCoefficient: 0.75,
     qualityFactor: 0.90
   },
   aluminum: {
     basePowerFactor: 1.2,
     baseSpeedFactor: 1.5,
     optimalPowerDensity: 4.0,
-    thermalConductivity: 237,
-    absorptionCoefficient: 0.65,
     qualityFactor: 0.80
   },
   copper: {
     basePowerFactor: 1.5,
     baseSpeedFactor: 1.2,
     optimalPowerDensity: 5.0,
-    thermalConductivity: 401,
-    absorptionCoefficient: 0.60,
     qualityFactor: 0.75
   },
   titanium: {
     basePowerFactor: 1.1,
     baseSpeedFactor: 0.7,
     optimalPowerDensity: 3.5,
-    thermalConductivity: 22,
-    absorptionCoefficient: 0.80,
     qualityFactor: 0.85
   },
   brass: {
     basePowerFactor: 1.3,
     baseSpeedFactor: 1.1,
     optimalPowerDensity: 4.5,
-    thermalConductivity: 120,
-    absorptionCoefficient: 0.70,
     qualityFactor: 0.80
   }
 };
@@ -163,14 +152,7 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -268,6 +250,11 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
         help: 'Current cutting speed for comparison'
       }
     ],
+    resultUnits: {
+      'optimalSettings.speed': 'mm/min',
+      'performancePrediction.expectedKerf': 'mm',
+      'performancePrediction.heatAffectedZone': 'mm'
+    },
     resultType: 'analysis',
     version: '1.0.0',
     lastUpdated: '2025-01-02'
@@ -282,7 +269,7 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
     const warnings: ValidationResult['warnings'] = [];
 
     // Check laser type compatibility with material
-    const material = materialCuttingProperties[inputs.materialType];
+    const material = materialRegistry.byFamily(inputs.materialType, materialCuttingProperties);
     if (!material) {
       errors.push({
         field: 'materialType',
@@ -293,7 +280,7 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
     }
 
     const laser = laserTypeProperties[inputs.laserType];
-    const absorptionMultiplier = laser.absorptionMultiplier[inputs.materialType];
+    const absorptionMultiplier = materialRegistry.byFamily(inputs.materialType, laser.absorptionMultiplier) ?? 1;
 
     if (absorptionMultiplier < 0.7) {
       warnings.push({
@@ -340,7 +327,10 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
 
   async calculate(inputs: PowerSpeedMatchingInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialCuttingProperties[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialCuttingProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       const laser = laserTypeProperties[inputs.laserType];
       const quality = qualityFactors[inputs.qualityRequirement];
       
@@ -354,7 +344,7 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
       const alternativeSettings = this.generateAlternativeSettings(optimalSettings, inputs, material, laser);
       
       // Analyze optimization potential
-      const optimizationAnalysis = this.analyzeOptimization(inputs, optimalSettings, performancePrediction);
+      const optimizationAnalysis = this.analyzeOptimization(inputs, optimalSettings, performancePrediction, material);
       
       // Generate recommendations
       const processRecommendations = this.generateProcessRecommendations(inputs, optimalSettings, material);
@@ -384,7 +374,7 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
   private calculateOptimalSettings(inputs: PowerSpeedMatchingInputs, material: typeof materialCuttingProperties.steel, laser: typeof laserTypeProperties.fiber, quality: typeof qualityFactors.standard) {
     // Calculate base power requirement
     const thicknessFactor = Math.pow(inputs.thickness, 1.2);
-    const absorptionFactor = laser.absorptionMultiplier[inputs.materialType];
+    const absorptionFactor = materialRegistry.byFamily(inputs.materialType, laser.absorptionMultiplier) ?? 1;
     const basePower = material.basePowerFactor * thicknessFactor * 100 * absorptionFactor;
     
     // Apply quality and priority adjustments
@@ -500,7 +490,7 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
     }));
   }
 
-  private analyzeOptimization(inputs: PowerSpeedMatchingInputs, optimal: any, performance: any) {
+  private analyzeOptimization(inputs: PowerSpeedMatchingInputs, optimal: any, performance: any, material: typeof materialCuttingProperties.steel) {
     let powerUtilization = optimal.powerPercentage;
     let speedOptimization = 85; // Default good optimization
     let energyEfficiency = 80;
@@ -516,7 +506,6 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
       
       // Estimate current quality
       const currentPowerDensity = inputs.currentPower / (inputs.thickness * inputs.thickness);
-      const material = materialCuttingProperties[inputs.materialType];
       const currentQuality = Math.max(1, Math.min(10, 8 - Math.abs(currentPowerDensity / material.optimalPowerDensity - 1) * 3));
       qualityImprovement = ((performance.edgeQuality - currentQuality) / currentQuality) * 100;
     }
@@ -589,11 +578,11 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
       warnings.push('High speed on thick material may result in incomplete cuts');
     }
     
-    if (inputs.materialType === 'copper' && inputs.laserType === 'fiber') {
+    if (materialRegistry.isFamily(inputs.materialType, 'copper') && inputs.laserType === 'fiber') {
       warnings.push('Copper has low absorption for fiber lasers - expect reduced efficiency');
     }
     
-    if (inputs.assistGas === 'oxygen' && inputs.materialType === 'aluminum') {
+    if (inputs.assistGas === 'oxygen' && materialRegistry.isFamily(inputs.materialType, 'aluminum')) {
       warnings.push('Oxygen with aluminum may cause excessive oxidation');
     }
     
@@ -610,8 +599,10 @@ export class PowerSpeedMatchingCalculator extends BaseCalculator {
       brass: { optimal: ['nitrogen'], acceptable: ['air', 'argon'], poor: ['oxygen'] }
     };
     
-    const material = compatibility[materialType];
-    if (material.optimal.includes(assistGas)) {
+    const material = materialRegistry.byFamily(materialType, compatibility);
+    if (!material) {
+      return { optimal: false, message: 'No gas data for this material' };
+    } else if (material.optimal.includes(assistGas)) {
       return { optimal: true, message: 'Optimal gas choice for this material' };
     } else if (material.acceptable.includes(assistGas)) {
       return { optimal: false, message: 'Acceptable gas choice, but not optimal for best results' };
@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const predictiveQualitySchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   laserPower: z.number().min(100).max(20000),
   cuttingSpeed: z.number().min(100).max(15000),
@@ -121,7 +122,7 @@ export interface PredictiveQualityResults {
   warnings: string[];
 }
 
-// Material quality characteristics for ML models
+// Quality model characteristics per material family
 const materialQualityCharacteristics = {
   steel: {
     baseQuality: 0.85,
@@ -200,14 +201,7 @@ export class PredictiveQualityModel extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material for quality prediction',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -401,7 +395,10 @@ export class PredictiveQualityModel extends BaseCalculator {
   async calculate(inputs: PredictiveQualityInputs): Promise<BaseCalculationResult> {
     try {
       const startTime = Date.now();
-      const material = materialQualityCharacteristics[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialQualityCharacteristics);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       
       // Initialize and train the prediction model
       const modelSummary = this.initializePredictionModel(inputs, material);
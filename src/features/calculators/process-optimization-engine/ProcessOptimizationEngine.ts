@@ -9,10 +9,21 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
+import {
+  multiObjectiveOptimizer,
+  OptimizationAlgorithm,
+  OptimizationConstraint,
+  OptimizationRun,
+  Candidate
+} from '@/services/multiObjectiveOptimizer';
+
+const OBJECTIVES = ['cost', 'time', 'quality', 'energy'] as const;
+type ObjectiveName = typeof OBJECTIVES[number];
 
 // Input validation schema
 const processOptimizationSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   laserPower: z.number().min(100).max(20000),
   optimizationGoal: z.enum(['cost', 'time', 'quality', 'energy', 'balanced']),
@@ -26,6 +37,8 @@ const processOptimizationSchema = z.object({
   populationSize: z.number().min(10).max(200),
   generations: z.number().min(10).max(500),
   convergenceTolerance: z.number().min(0.001).max(0.1),
+  objectives: z.array(z.enum(OBJECTIVES)).min(1).optional(), // Pareto front axes, default all four
+  seed: z.number().int().min(0).optional(),
   currentParameters: z.object({
     power: z.number().min(100).max(20000).optional(),
     speed: z.number().min(100).max(15000).optional(),
@@ -47,6 +60,10 @@ export interface ProcessOptimizationResults {
     executionTime: number;        // seconds
     finalFitness: number;         // 0-1 scale
     improvementPercent: number;   // % improvement over initial
+    objectives: string[];         // objectives spanning the Pareto front
+    seed: number;
+    evaluations: number;
+    feasible: boolean;            // best solution meets every constraint
   };
   optimalParameters: {
     power: number;                // W
@@ -111,7 +128,15 @@ export interface ProcessOptimizationResults {
   warnings: string[];
 }
 
-// Material properties for optimization
+// Search algorithm behind each algorithm type
+const ALGORITHMS: Record<ProcessOptimizationInputs['algorithmType'], OptimizationAlgorithm> = {
+  genetic: 'genetic',
+  particle_swarm: 'particle_swarm',
+  simulated_annealing: 'simulated_annealing',
+  multi_objective: 'nsga2'
+};
+
+// Optimization bounds and weights per material family
 const materialOptimizationProperties = {
   steel: {
     powerRange: [500, 6000],
@@ -184,14 +209,7 @@ export class ProcessOptimizationEngine extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material for optimization',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -271,11 +289,21 @@ export class ProcessOptimizationEngine extends BaseCalculator {
         max: 0.1,
         step: 0.001,
         help: 'Convergence threshold for early stopping'
+      },
+      {
+        id: 'seed',
+        label: 'Random Seed',
+        type: 'number',
+        required: false,
+        min: 0,
+        max: 2147483647,
+        step: 1,
+        help: 'The same seed always gives the same optimization result'
       }
     ],
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -314,8 +342,8 @@ export class ProcessOptimizationEngine extends BaseCalculator {
     }
 
     // Check material vs power compatibility
-    const material = materialOptimizationProperties[inputs.materialType];
-    if (inputs.laserPower < material.powerRange[0]) {
+    const material = materialRegistry.byFamily(inputs.materialType, materialOptimizationProperties);
+    if (material && inputs.laserPower < material.powerRange[0]) {
       warnings.push({
         field: 'laserPower',
         message: 'Available laser power may be insufficient for this material',
@@ -328,43 +356,62 @@ export class ProcessOptimizationEngine extends BaseCalculator {
 
   async calculate(inputs: ProcessOptimizationInputs): Promise<BaseCalculationResult> {
     try {
-      const startTime = Date.now();
-      const material = materialOptimizationProperties[inputs.materialType];
-      
-      // Initialize optimization algorithm
-      const optimizer = this.createOptimizer(inputs, material);
+      const startTime = performance.now();
+      const material = materialRegistry.byFamily(inputs.materialType, materialOptimizationProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       
-      // Run optimization
-      const optimizationResult = await this.runOptimization(optimizer, inputs, material);
+      // Run the selected search algorithm
+      const optimizationResult = this.runOptimization(inputs, material);
+      const bestSolution = this.toSolution(optimizationResult.best, inputs);
       
-      // Generate Pareto front for multi-objective problems
-      const paretoFront = this.generateParetoFront(optimizationResult.population, inputs);
+      // Pareto front of the selected objectives
+      const paretoFront = optimizationResult.front.map(solution => ({
+        parameters: this.toParameters(solution.variables),
+        objectives: this.toObjectives(solution.metrics),
+        dominanceRank: solution.rank,
+        crowdingDistance: solution.crowdingDistance
+      }));
       
       // Analyze convergence
-      const convergenceHistory = optimizationResult.convergenceHistory;
+      const convergenceHistory = optimizationResult.history.map(record => ({
+        generation: record.iteration,
+        bestFitness: 1 - record.bestScore,
+        averageFitness: 1 - record.averageScore,
+        diversity: record.diversity,
+        elapsedTime: record.elapsedTime
+      }));
       
       // Generate alternative solutions
-      const alternativeSolutions = this.generateAlternativeSolutions(optimizationResult.population, inputs);
+      const alternativeSolutions = this.generateAlternativeSolutions(
+        optimizationResult.front.map(solution => this.toSolution(solution, inputs)),
+        inputs
+      );
       
       // Extract optimization insights
       const optimizationInsights = this.extractOptimizationInsights(optimizationResult, inputs, material);
       
       // Generate warnings
-      const warnings = this.generateWarnings(inputs, optimizationResult);
+      const warnings = this.generateWarnings(inputs, optimizationResult, bestSolution);
       
-      const executionTime = (Date.now() - startTime) / 1000;
+      const executionTime = (performance.now() - startTime) / 1000;
       
       const results: ProcessOptimizationResults = {
         optimizationSummary: {
           algorithm: inputs.algorithmType,
           goal: inputs.optimizationGoal,
-          generations: optimizationResult.generationsRun,
+          generations: optimizationResult.iterations,
           convergenceAchieved: optimizationResult.converged,
           executionTime,
-          finalFitness: optimizationResult.bestSolution.fitness,
-          improvementPercent: this.calculateImprovement(inputs, optimizationResult.bestSolution)
+          finalFitness: bestSolution.fitness,
+          improvementPercent: this.calculateImprovement(inputs, bestSolution),
+          objectives: this.selectedObjectives(inputs),
+          seed: inputs.seed ?? 1,
+          evaluations: optimizationResult.evaluations,
+          feasible: optimizationResult.feasible
         },
-        optimalParameters: this.formatOptimalParameters(optimizationResult.bestSolution, inputs),
+        optimalParameters: this.formatOptimalParameters(bestSolution, inputs),
         paretoFront,
         convergenceHistory,
         alternativeSolutions,
@@ -382,23 +429,48 @@ export class ProcessOptimizationEngine extends BaseCalculator {
     }
   }
 
-  private createOptimizer(inputs: ProcessOptimizationInputs, material: typeof materialOptimizationProperties.steel) {
-    const parameterBounds = {
-      power: material.powerRange,
-      speed: material.speedRange,
-      gasPressure: material.gasPressureRange,
-      focusHeight: material.focusRange
-    };
+  private runOptimization(inputs: ProcessOptimizationInputs, material: typeof materialOptimizationProperties.steel): OptimizationRun {
+    // Power above the source's rating is not reachable
+    const maxPower = Math.min(material.powerRange[1], inputs.laserPower);
+    const variables = [
+      { name: 'power', min: Math.min(material.powerRange[0], maxPower), max: maxPower },
+      { name: 'speed', min: material.speedRange[0], max: material.speedRange[1] },
+      { name: 'gasPressure', min: material.gasPressureRange[0], max: material.gasPressureRange[1] },
+      { name: 'focusHeight', min: material.focusRange[0], max: material.focusRange[1] }
+    ];
+    const objectives = this.selectedObjectives(inputs).map(name => ({
+      name,
+      direction: name === 'quality' ? 'maximize' as const : 'minimize' as const
+    }));
+    const weights = this.getObjectiveWeights(inputs.optimizationGoal);
 
-    return {
-      algorithmType: inputs.algorithmType,
-      populationSize: inputs.populationSize,
-      maxGenerations: inputs.generations,
-      convergenceTolerance: inputs.convergenceTolerance,
-      parameterBounds,
-      objectiveWeights: this.getObjectiveWeights(inputs.optimizationGoal),
-      constraints: inputs.constraints
-    };
+    return multiObjectiveOptimizer.optimize(
+      variables,
+      objectives,
+      parameters => this.evaluateObjectives(parameters, inputs, material),
+      {
+        algorithm: ALGORITHMS[inputs.algorithmType],
+        populationSize: inputs.populationSize,
+        iterations: inputs.generations,
+        seed: inputs.seed,
+        tolerance: inputs.convergenceTolerance,
+        constraints: this.toConstraints(inputs.constraints),
+        score: metrics => 1 - this.calculateFitness(metrics, weights)
+      }
+    );
+  }
+
+  private selectedObjectives(inputs: ProcessOptimizationInputs): ObjectiveName[] {
+    return inputs.objectives?.length ? inputs.objectives : [...OBJECTIVES];
+  }
+
+  private toConstraints(constraints: ProcessOptimizationInputs['constraints']): OptimizationConstraint[] {
+    const limits: OptimizationConstraint[] = [];
+    if (constraints.maxTime !== undefined) limits.push({ metric: 'time', max: constraints.maxTime });
+    if (constraints.maxCost !== undefined) limits.push({ metric: 'cost', max: constraints.maxCost });
+    if (constraints.minQuality !== undefined) limits.push({ metric: 'quality', min: constraints.minQuality });
+    if (constraints.maxEnergy !== undefined) limits.push({ metric: 'energy', max: constraints.maxEnergy });
+    return limits;
   }
 
   private getObjectiveWeights(goal: string) {
@@ -413,96 +485,29 @@ export class ProcessOptimizationEngine extends BaseCalculator {
     return weights[goal as keyof typeof weights] || weights.balanced;
   }
 
-  private async runOptimization(optimizer: any, inputs: ProcessOptimizationInputs, material: typeof materialOptimizationProperties.steel) {
-    // Initialize population
-    let population = this.initializePopulation(optimizer);
-    
-    // Evaluate initial population
-    population = population.map(individual => ({
-      ...individual,
-      objectives: this.evaluateObjectives(individual.parameters, inputs, material),
-      fitness: 0
-    }));
-    
-    // Calculate fitness scores
-    population = this.calculateFitness(population, optimizer.objectiveWeights);
-    
-    const convergenceHistory = [];
-    let bestSolution = population[0];
-    let generationsWithoutImprovement = 0;
-    
-    // Evolution loop
-    for (let generation = 0; generation < optimizer.maxGenerations; generation++) {
-      // Selection, crossover, mutation based on algorithm type
-      population = await this.evolvePopulation(population, optimizer, inputs, material);
-      
-      // Update best solution
-      const currentBest = population.reduce((best, current) => 
-        current.fitness > best.fitness ? current : best
-      );
-      
-      if (currentBest.fitness > bestSolution.fitness) {
-        bestSolution = currentBest;
-        generationsWithoutImprovement = 0;
-      } else {
-        generationsWithoutImprovement++;
-      }
-      
-      // Record convergence data
-      const avgFitness = population.reduce((sum, ind) => sum + ind.fitness, 0) / population.length;
-      const diversity = this.calculatePopulationDiversity(population);
-      
-      convergenceHistory.push({
-        generation,
-        bestFitness: bestSolution.fitness,
-        averageFitness: avgFitness,
-        diversity,
-        elapsedTime: (Date.now() - Date.now()) / 1000 // Simplified
-      });
-      
-      // Check convergence
-      if (generationsWithoutImprovement > 20 || 
-          (generation > 10 && Math.abs(convergenceHistory[generation].bestFitness - 
-           convergenceHistory[generation - 10].bestFitness) < optimizer.convergenceTolerance)) {
-        break;
-      }
-    }
-    
+  private toSolution(candidate: Candidate, inputs: ProcessOptimizationInputs) {
+    const objectives = this.toObjectives(candidate.metrics);
     return {
-      bestSolution,
-      population,
-      convergenceHistory,
-      generationsRun: convergenceHistory.length,
-      converged: generationsWithoutImprovement > 20
+      parameters: this.toParameters(candidate.variables),
+      objectives,
+      fitness: this.calculateFitness(objectives, this.getObjectiveWeights(inputs.optimizationGoal))
     };
   }
 
-  private initializePopulation(optimizer: any) {
-    const population = [];
-    
-    for (let i = 0; i < optimizer.populationSize; i++) {
-      const individual = {
-        parameters: {
-          power: this.randomInRange(optimizer.parameterBounds.power),
-          speed: this.randomInRange(optimizer.parameterBounds.speed),
-          gasPressure: this.randomInRange(optimizer.parameterBounds.gasPressure),
-          focusHeight: this.randomInRange(optimizer.parameterBounds.focusHeight)
-        },
-        objectives: { cost: 0, time: 0, quality: 0, energy: 0 },
-        fitness: 0
-      };
-      
-      population.push(individual);
-    }
-    
-    return population;
+  private toParameters(variables: Record<string, number>) {
+    return {
+      power: variables.power,
+      speed: variables.speed,
+      gasPressure: variables.gasPressure,
+      focusHeight: variables.focusHeight
+    };
   }
 
-  private randomInRange(range: number[]): number {
-    return range[0] + Math.random() * (range[1] - range[0]);
+  private toObjectives(metrics: Record<string, number>) {
+    return { cost: metrics.cost, time: metrics.time, quality: metrics.quality, energy: metrics.energy };
   }
 
-  private evaluateObjectives(parameters: any, inputs: ProcessOptimizationInputs, material: typeof materialOptimizationProperties.steel) {
+  private evaluateObjectives(parameters: Record<string, number>, inputs: ProcessOptimizationInputs, material: typeof materialOptimizationProperties.steel) {
     // Calculate cost objective
     const cost = this.calculateCost(parameters, inputs, material);
     
@@ -563,141 +568,25 @@ export class ProcessOptimizationEngine extends BaseCalculator {
     return powerConsumption * timePerMeter * material.energyWeight;
   }
 
-  private calculateFitness(population: any[], objectiveWeights: any) {
-    return population.map(individual => {
-      // Normalize objectives (assuming minimization for cost, time, energy and maximization for quality)
-      const normalizedCost = 1 / (1 + individual.objectives.cost);
-      const normalizedTime = 1 / (1 + individual.objectives.time);
-      const normalizedQuality = individual.objectives.quality / 100;
-      const normalizedEnergy = 1 / (1 + individual.objectives.energy);
-      
-      // Calculate weighted fitness
-      const fitness = (
-        objectiveWeights.cost * normalizedCost +
-        objectiveWeights.time * normalizedTime +
-        objectiveWeights.quality * normalizedQuality +
-        objectiveWeights.energy * normalizedEnergy
-      ) / (objectiveWeights.cost + objectiveWeights.time + objectiveWeights.quality + objectiveWeights.energy);
-      
-      return { ...individual, fitness };
-    }).sort((a, b) => b.fitness - a.fitness);
+  private calculateFitness(objectives: Record<string, number>, objectiveWeights: Record<string, number>): number {
+    // Normalize objectives (minimization for cost, time, energy and maximization for quality)
+    const normalizedCost = 1 / (1 + objectives.cost);
+    const normalizedTime = 1 / (1 + objectives.time);
+    const normalizedQuality = objectives.quality / 100;
+    const normalizedEnergy = 1 / (1 + objectives.energy);
+    
+    // Calculate weighted fitness
+    return (
+      objectiveWeights.cost * normalizedCost +
+      objectiveWeights.time * normalizedTime +
+      objectiveWeights.quality * normalizedQuality +
+      objectiveWeights.energy * normalizedEnergy
+    ) / (objectiveWeights.cost + objectiveWeights.time + objectiveWeights.quality + objectiveWeights.energy);
   }
 
-  private async evolvePopulation(population: any[], optimizer: any, inputs: ProcessOptimizationInputs, material: typeof materialOptimizationProperties.steel) {
-    let newPopulation = [];
-    
-    // Elitism - keep best 10%
-    const eliteCount = Math.floor(population.length * 0.1);
-    newPopulation.push(...population.slice(0, eliteCount));
-    
-    // Generate offspring
-    while (newPopulation.length < population.length) {
-      // Selection
-      const parent1 = this.tournamentSelection(population, 3);
-      const parent2 = this.tournamentSelection(population, 3);
-      
-      // Crossover
-      const offspring = this.crossover(parent1, parent2, optimizer.parameterBounds);
-      
-      // Mutation
-      const mutatedOffspring = this.mutate(offspring, optimizer.parameterBounds, 0.1);
-      
-      // Evaluate offspring
-      mutatedOffspring.objectives = this.evaluateObjectives(mutatedOffspring.parameters, inputs, material);
-      
-      newPopulation.push(mutatedOffspring);
-    }
-    
-    // Calculate fitness for new population
-    return this.calculateFitness(newPopulation, optimizer.objectiveWeights);
-  }
-
-  private tournamentSelection(population: any[], tournamentSize: number) {
-    const tournament = [];
-    for (let i = 0; i < tournamentSize; i++) {
-      const randomIndex = Math.floor(Math.random() * population.length);
-      tournament.push(population[randomIndex]);
-    }
-    return tournament.reduce((best, current) => current.fitness > best.fitness ? current : best);
-  }
-
-  private crossover(parent1: any, parent2: any, bounds: any) {
-    const offspring = {
-      parameters: {},
-      objectives: { cost: 0, time: 0, quality: 0, energy: 0 },
-      fitness: 0
-    };
-    
-    // Uniform crossover
-    for (const param in parent1.parameters) {
-      offspring.parameters[param] = Math.random() < 0.5 ? 
-        parent1.parameters[param] : parent2.parameters[param];
-    }
-    
-    return offspring;
-  }
-
-  private mutate(individual: any, bounds: any, mutationRate: number) {
-    const mutated = JSON.parse(JSON.stringify(individual));
-    
-    for (const param in mutated.parameters) {
-      if (Math.random() < mutationRate) {
-        const range = bounds[param];
-        const mutation = (Math.random() - 0.5) * (range[1] - range[0]) * 0.1;
-        mutated.parameters[param] = Math.max(range[0], 
-          Math.min(range[1], mutated.parameters[param] + mutation));
-      }
-    }
-    
-    return mutated;
-  }
-
-  private calculatePopulationDiversity(population: any[]): number {
-    // Simplified diversity calculation
-    let totalDistance = 0;
-    let comparisons = 0;
-    
-    for (let i = 0; i < population.length; i++) {
-      for (let j = i + 1; j < population.length; j++) {
-        const distance = this.calculateEuclideanDistance(
-          population[i].parameters, 
-          population[j].parameters
-        );
-        totalDistance += distance;
-        comparisons++;
-      }
-    }
-    
-    return comparisons > 0 ? totalDistance / comparisons : 0;
-  }
-
-  private calculateEuclideanDistance(params1: any, params2: any): number {
-    let sum = 0;
-    for (const param in params1) {
-      sum += Math.pow(params1[param] - params2[param], 2);
-    }
-    return Math.sqrt(sum);
-  }
-
-  private generateParetoFront(population: any[], inputs: ProcessOptimizationInputs) {
-    // Simplified Pareto front generation
-    const paretoFront = [];
-    
-    for (const individual of population.slice(0, 10)) { // Top 10 solutions
-      paretoFront.push({
-        parameters: individual.parameters,
-        objectives: individual.objectives,
-        dominanceRank: 1, // Simplified
-        crowdingDistance: Math.random() // Simplified
-      });
-    }
-    
-    return paretoFront.sort((a, b) => b.crowdingDistance - a.crowdingDistance);
-  }
-
-  private generateAlternativeSolutions(population: any[], inputs: ProcessOptimizationInputs) {
+  private generateAlternativeSolutions(front: any[], inputs: ProcessOptimizationInputs) {
     const alternatives = [];
-    const topSolutions = population.slice(0, 5);
+    const topSolutions = [...front].sort((a, b) => b.fitness - a.fitness).slice(0, 5);
     
     topSolutions.forEach((solution, index) => {
       alternatives.push({
@@ -789,14 +678,18 @@ export class ProcessOptimizationEngine extends BaseCalculator {
     };
   }
 
-  private generateWarnings(inputs: ProcessOptimizationInputs, optimizationResult: any): string[] {
+  private generateWarnings(inputs: ProcessOptimizationInputs, optimizationResult: OptimizationRun, bestSolution: any): string[] {
     const warnings: string[] = [];
     
     if (!optimizationResult.converged) {
       warnings.push('Optimization did not fully converge - consider increasing generations');
     }
     
-    if (optimizationResult.bestSolution.fitness < 0.7) {
+    if (!optimizationResult.feasible) {
+      warnings.push('No parameter set met all constraints - results show the least-violating settings');
+    }
+    
+    if (bestSolution.fitness < 0.7) {
       warnings.push('Optimization fitness is relatively low - constraints may be too restrictive');
     }
     
@@ -804,7 +697,7 @@ export class ProcessOptimizationEngine extends BaseCalculator {
       warnings.push('Small population size may limit solution diversity');
     }
     
-    const bestObjectives = optimizationResult.bestSolution.objectives;
+    const bestObjectives = bestSolution.objectives;
     if (bestObjectives.cost > 10) {
       warnings.push('Optimized solution has high cost - consider relaxing quality constraints');
     }
@@ -829,7 +722,8 @@ export class ProcessOptimizationEngine extends BaseCalculator {
       algorithmType: 'genetic',
       populationSize: 50,
       generations: 100,
-      convergenceTolerance: 0.01
+      convergenceTolerance: 0.01,
+      seed: 1
     };
   }
 }
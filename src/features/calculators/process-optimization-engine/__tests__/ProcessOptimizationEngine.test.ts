@@ -17,7 +17,7 @@ describe('ProcessOptimizationEngine', () => {
       expect(calculator.config.title).toBe('Process Optimization Engine');
       expect(calculator.config.category).toBe('Advanced Analysis');
       expect(calculator.config.badge).toBe('Premium');
-      expect(calculator.config.inputs).toHaveLength(8);
+      expect(calculator.config.inputs).toHaveLength(9);
     });
 
     test('should have all required input fields', () => {
@@ -30,6 +30,7 @@ describe('ProcessOptimizationEngine', () => {
       expect(inputIds).toContain('populationSize');
       expect(inputIds).toContain('generations');
       expect(inputIds).toContain('convergenceTolerance');
+      expect(inputIds).toContain('seed');
     });
   });
 
@@ -407,7 +408,7 @@ describe('ProcessOptimizationEngine', () => {
       expect(result.metadata).toBeDefined();
       expect(result.metadata.calculationTime).toBeGreaterThanOrEqual(0);
       expect(result.metadata.timestamp).toBeDefined();
-      expect(result.metadata.version).toBe('1.0.0');
+      expect(result.metadata.version).toBe('1.1.0');
       expect(result.metadata.inputHash).toBeDefined();
     });
   });
@@ -1,7 +1,8 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { BaseCalculatorContainer } from '@/components/calculator/BaseCalculatorComponents';
+import { ParetoFrontChart, type ParetoPoint } from '@/components/calculator/ParetoFrontChart';
 import { ProcessOptimizationEngine } from './ProcessOptimizationEngine';
 
 // Create calculator instance
@@ -20,8 +21,13 @@ export default function ProcessOptimizationEnginePage({
   initialInputs,
   onCalculationComplete
 }: ProcessOptimizationEnginePageProps) {
+  const [pareto, setPareto] = useState<{ front: ParetoPoint[]; objectives: string[] } | null>(null);
   
   const handleCalculationComplete = (result: any) => {
+    setPareto(result.success && result.data
+      ? { front: result.data.paretoFront, objectives: result.data.optimizationSummary.objectives }
+      : null);
+    
     // Log calculation for analytics
     if (typeof window !== 'undefined' && result.success) {
       console.log('Process Optimization completed:', {
@@ -97,6 +103,10 @@ export default function ProcessOptimizationEnginePage({
         onInputChange={handleInputChange}
       />
       
+      {pareto && pareto.front.length > 0 && (
+        <ParetoFrontChart front={pareto.front} objectives={pareto.objectives} className="mt-8 max-w-4xl mx-auto" />
+      )}
+      
       {/* Additional SEO Content */}
       <div className="seo-content mt-12 max-w-4xl mx-auto px-6">
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8">
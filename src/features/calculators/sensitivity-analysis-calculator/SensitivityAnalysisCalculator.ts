@@ -9,22 +9,55 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
+import {
+  monteCarloEngine,
+  correlationSchema,
+  distributionSchema,
+  MonteCarloResult,
+  UncertainInput
+} from '@/services/monteCarloEngine';
+import {
+  globalSensitivityAnalyzer,
+  GlobalSensitivityResult,
+  SensitivityParameter
+} from '@/services/globalSensitivityAnalyzer';
+
+const sensitivityParameterSchema = z.enum(['thickness', 'laserPower', 'cuttingSpeed', 'gasPressure', 'focusHeight']);
 
 // Input validation schema
 const sensitivityAnalysisSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.1).max(50),
   laserPower: z.number().min(100).max(20000),
   cuttingSpeed: z.number().min(100).max(15000),
   gasPressure: z.number().min(0.1).max(30),
   focusHeight: z.number().min(-10).max(10),
-  analysisType: z.enum(['single_parameter', 'multi_parameter', 'monte_carlo', 'tornado']),
+  analysisType: z.enum(['single_parameter', 'multi_parameter', 'monte_carlo', 'tornado', 'sobol', 'morris']),
   outputMetric: z.enum(['cost', 'time', 'quality', 'efficiency', 'all']),
   variationRange: z.number().min(5).max(50),
   analysisPoints: z.number().min(5).max(50),
-  targetParameters: z.array(z.enum(['thickness', 'laserPower', 'cuttingSpeed', 'gasPressure', 'focusHeight'])).optional()
+  targetParameters: z.array(sensitivityParameterSchema).optional(),
+  // Monte Carlo settings; parameters without a distribution vary triangularly over the variation range
+  uncertainties: z.array(z.object({
+    parameter: sensitivityParameterSchema,
+    distribution: distributionSchema
+  })).optional(),
+  correlations: z.array(correlationSchema).optional(),
+  sampleCount: z.number().int().min(100).max(100000).optional(), // Monte Carlo samples, or the Sobol base sample
+  seed: z.number().int().optional(),
+  target: z.object({
+    value: z.number(),
+    direction: z.enum(['above', 'below'])
+  }).optional()
 });
 
+const DEFAULT_SAMPLE_COUNT = 5000;
+const DEFAULT_SOBOL_SAMPLES = 512;
+
+// Sobol confidence half-width above which the indices are reported as uncertain
+const SOBOL_CONFIDENCE_LIMIT = 0.1;
+
 // Input types
 export type SensitivityAnalysisInputs = z.infer<typeof sensitivityAnalysisSchema>;
 
@@ -96,6 +129,8 @@ export interface SensitivityAnalysisResults {
       controlPriority: 'high' | 'medium' | 'low';
     }>;
   };
+  monteCarlo?: MonteCarloResult;    // monte_carlo analysis only, distribution of the output metric
+  globalSensitivity?: GlobalSensitivityResult; // sobol and morris analyses only
   warnings: string[];
 }
 
@@ -108,7 +143,7 @@ const parameterDefinitions = {
   focusHeight: { min: -10, max: 10, unit: 'mm', typical: -2 }
 };
 
-// Material properties for sensitivity calculations
+// Sensitivity coefficients per material family
 const materialSensitivityProperties = {
   steel: {
     powerSensitivity: 0.8,
@@ -169,14 +204,7 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material for sensitivity analysis',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -243,7 +271,9 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
           { value: 'single_parameter', label: 'Single Parameter Analysis' },
           { value: 'multi_parameter', label: 'Multi-Parameter Analysis' },
           { value: 'monte_carlo', label: 'Monte Carlo Simulation' },
-          { value: 'tornado', label: 'Tornado Chart Analysis' }
+          { value: 'tornado', label: 'Tornado Chart Analysis' },
+          { value: 'sobol', label: 'Global Sensitivity (Sobol Indices)' },
+          { value: 'morris', label: 'Morris Screening' }
         ]
       },
       {
@@ -283,8 +313,8 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
       }
     ],
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -338,7 +368,10 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
   async calculate(inputs: SensitivityAnalysisInputs): Promise<BaseCalculationResult> {
     try {
       const startTime = Date.now();
-      const material = materialSensitivityProperties[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialSensitivityProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       
       // Determine parameters to analyze
       const parametersToAnalyze = inputs.targetParameters || 
@@ -348,7 +381,7 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
       const parameterSensitivity = await this.analyzeParameterSensitivity(inputs, parametersToAnalyze, material);
       
       // Generate tornado chart data
-      const tornadoChart = this.generateTornadoChart(inputs, parameterSensitivity);
+      const tornadoChart = this.generateTornadoChart(inputs, parameterSensitivity, material);
       
       // Generate spider chart data
       const spiderChart = this.generateSpiderChart(inputs, parametersToAnalyze);
@@ -359,11 +392,21 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
       // Perform risk analysis
       const riskAnalysis = this.performRiskAnalysis(parameterSensitivity, inputs);
       
+      // Vary all parameters at once to capture interactions the one-at-a-time sweeps miss
+      const globalSensitivity = inputs.analysisType === 'sobol' || inputs.analysisType === 'morris'
+        ? await this.runGlobalSensitivity(inputs, parametersToAnalyze, material)
+        : undefined;
+      
       // Generate optimization insights
-      const optimizationInsights = this.generateOptimizationInsights(parameterSensitivity, inputs);
+      const optimizationInsights = this.generateOptimizationInsights(parameterSensitivity, inputs, globalSensitivity?.ranking);
+      
+      // Propagate the input distributions through the output metric
+      const monteCarlo = inputs.analysisType === 'monte_carlo'
+        ? this.runMonteCarlo(inputs, parametersToAnalyze, material)
+        : undefined;
       
       // Generate warnings
-      const warnings = this.generateWarnings(inputs, parameterSensitivity);
+      const warnings = this.generateWarnings(inputs, parameterSensitivity, monteCarlo, globalSensitivity);
       
       const analysisTime = (Date.now() - startTime) / 1000;
       
@@ -372,9 +415,10 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
           analysisType: inputs.analysisType,
           outputMetric: inputs.outputMetric,
           parametersAnalyzed: parametersToAnalyze.length,
-          totalScenarios: parametersToAnalyze.length * inputs.analysisPoints,
+          totalScenarios: parametersToAnalyze.length * inputs.analysisPoints +
+            (monteCarlo?.samples ?? 0) + (globalSensitivity?.evaluations ?? 0),
           analysisTime,
-          confidence: this.calculateAnalysisConfidence(inputs, parameterSensitivity)
+          confidence: this.calculateAnalysisConfidence(inputs, parameterSensitivity, monteCarlo)
         },
         parameterSensitivity,
         tornadoChart,
@@ -382,6 +426,8 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
         interactionEffects,
         riskAnalysis,
         optimizationInsights,
+        monteCarlo,
+        globalSensitivity,
         warnings
       };
 
@@ -492,6 +538,72 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
     }
   }
 
+  private runMonteCarlo(
+    inputs: SensitivityAnalysisInputs,
+    parameters: string[],
+    material: typeof materialSensitivityProperties.steel
+  ): MonteCarloResult {
+    const uncertain: UncertainInput[] = parameters.map(parameter => {
+      const given = inputs.uncertainties?.find(uncertainty => uncertainty.parameter === parameter);
+      if (given) {
+        return { name: parameter, distribution: given.distribution };
+      }
+      const { min, max } = this.variationBounds(inputs, parameter);
+      return {
+        name: parameter,
+        distribution: {
+          type: 'triangular',
+          min,
+          mode: inputs[parameter as keyof SensitivityAnalysisInputs] as number,
+          max
+        }
+      };
+    });
+
+    return monteCarloEngine.simulate(
+      uncertain,
+      values => this.calculateBaseOutput({ ...inputs, ...values }, material),
+      {
+        samples: inputs.sampleCount ?? DEFAULT_SAMPLE_COUNT,
+        seed: inputs.seed,
+        correlations: inputs.correlations,
+        target: inputs.target
+      }
+    );
+  }
+
+  private async runGlobalSensitivity(
+    inputs: SensitivityAnalysisInputs,
+    parameters: string[],
+    material: typeof materialSensitivityProperties.steel
+  ): Promise<GlobalSensitivityResult> {
+    // Parameters at zero (e.g. focus on the surface) have no relative variation range
+    const ranges: SensitivityParameter[] = parameters
+      .map(parameter => ({ name: parameter, ...this.variationBounds(inputs, parameter) }))
+      .filter(range => range.max > range.min);
+
+    return globalSensitivityAnalyzer.analyze(
+      ranges,
+      values => this.calculateBaseOutput({ ...inputs, ...values }, material),
+      {
+        method: inputs.analysisType === 'morris' ? 'morris' : 'sobol',
+        samples: inputs.sampleCount ?? DEFAULT_SOBOL_SAMPLES,
+        seed: inputs.seed
+      }
+    );
+  }
+
+  // Base value ± the variation range, within the parameter's realistic range
+  private variationBounds(inputs: SensitivityAnalysisInputs, parameter: string): { min: number; max: number } {
+    const paramDef = parameterDefinitions[parameter as keyof typeof parameterDefinitions];
+    const baseValue = inputs[parameter as keyof SensitivityAnalysisInputs] as number;
+    const spread = Math.abs(baseValue) * inputs.variationRange / 100;
+    return {
+      min: Math.max(paramDef.min, baseValue - spread),
+      max: Math.min(paramDef.max, baseValue + spread)
+    };
+  }
+
   private calculateCost(inputs: SensitivityAnalysisInputs, material: typeof materialSensitivityProperties.steel): number {
     // Simplified cost calculation
     const materialCost = inputs.thickness * 0.5; // $/mm thickness
@@ -590,8 +702,8 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
     return 'low';
   }
 
-  private generateTornadoChart(inputs: SensitivityAnalysisInputs, parameterSensitivity: any[]) {
-    const baselineOutput = this.calculateBaseOutput(inputs, materialSensitivityProperties[inputs.materialType]);
+  private generateTornadoChart(inputs: SensitivityAnalysisInputs, parameterSensitivity: any[], material: typeof materialSensitivityProperties.steel) {
+    const baselineOutput = this.calculateBaseOutput(inputs, material);
     
     const parameters = parameterSensitivity.map(param => {
       const variationData = param.variationData;
@@ -750,8 +862,12 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
     return strategies[parameter] || `Monitor and control ${parameter} variations closely`;
   }
 
-  private generateOptimizationInsights(parameterSensitivity: any[], inputs: SensitivityAnalysisInputs) {
-    const sortedParams = [...parameterSensitivity].sort((a, b) => Math.abs(b.sensitivity) - Math.abs(a.sensitivity));
+  private generateOptimizationInsights(parameterSensitivity: any[], inputs: SensitivityAnalysisInputs, ranking?: string[]) {
+    // A global ranking replaces the one-at-a-time order; parameters it left out go last
+    const rankOf = (parameter: string) => (ranking?.includes(parameter) ? ranking.indexOf(parameter) : Infinity);
+    const sortedParams = [...parameterSensitivity].sort((a, b) => ranking
+      ? rankOf(a.parameter) - rankOf(b.parameter)
+      : Math.abs(b.sensitivity) - Math.abs(a.sensitivity));
     
     const mostInfluential = sortedParams[0]?.parameter || 'none';
     const leastInfluential = sortedParams[sortedParams.length - 1]?.parameter || 'none';
@@ -780,7 +896,11 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
     };
   }
 
-  private calculateAnalysisConfidence(inputs: SensitivityAnalysisInputs, parameterSensitivity: any[]): number {
+  private calculateAnalysisConfidence(
+    inputs: SensitivityAnalysisInputs,
+    parameterSensitivity: any[],
+    monteCarlo?: MonteCarloResult
+  ): number {
     let confidence = 0.8; // Base confidence
     
     // Increase confidence with more analysis points
@@ -789,13 +909,18 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
     // Increase confidence with reasonable variation range
     if (inputs.variationRange >= 10 && inputs.variationRange <= 30) confidence += 0.05;
     
-    // Adjust for analysis complexity
-    if (inputs.analysisType === 'monte_carlo') confidence += 0.05;
+    // A simulation that settled adds confidence, one still drifting takes it away
+    if (monteCarlo) confidence += monteCarlo.convergence.converged ? 0.05 : -0.1;
     
     return Math.min(1.0, confidence);
   }
 
-  private generateWarnings(inputs: SensitivityAnalysisInputs, parameterSensitivity: any[]): string[] {
+  private generateWarnings(
+    inputs: SensitivityAnalysisInputs,
+    parameterSensitivity: any[],
+    monteCarlo?: MonteCarloResult,
+    globalSensitivity?: GlobalSensitivityResult
+  ): string[] {
     const warnings: string[] = [];
     
     // Check for extremely high sensitivity
@@ -820,6 +945,15 @@ export class SensitivityAnalysisCalculator extends BaseCalculator {
       warnings.push('Low number of analysis points may reduce accuracy');
     }
     
+    if (monteCarlo && !monteCarlo.convergence.converged) {
+      warnings.push('Monte Carlo results have not converged - increase the sample count');
+    }
+    
+    const uncertainIndices = globalSensitivity?.sobol?.filter(index => index.totalOrderConfidence > SOBOL_CONFIDENCE_LIMIT);
+    if (uncertainIndices?.length) {
+      warnings.push(`Sobol indices for ${uncertainIndices.map(index => index.parameter).join(', ')} are uncertain - increase the sample count`);
+    }
+    
     return warnings;
   }
 
@@ -1,7 +1,9 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { BaseCalculatorContainer } from '@/components/calculator/BaseCalculatorComponents';
+import { GlobalSensitivityChart } from '@/components/calculator/GlobalSensitivityChart';
+import type { GlobalSensitivityResult } from '@/services/globalSensitivityAnalyzer';
 import { SensitivityAnalysisCalculator } from './SensitivityAnalysisCalculator';
 
 // Create calculator instance
@@ -20,8 +22,11 @@ export default function SensitivityAnalysisCalculatorPage({
   initialInputs,
   onCalculationComplete
 }: SensitivityAnalysisCalculatorPageProps) {
+  const [globalSensitivity, setGlobalSensitivity] = useState<GlobalSensitivityResult | null>(null);
   
   const handleCalculationComplete = (result: any) => {
+    setGlobalSensitivity(result.success ? result.data?.globalSensitivity ?? null : null);
+    
     // Log calculation for analytics
     if (typeof window !== 'undefined' && result.success) {
       console.log('Sensitivity Analysis completed:', {
@@ -97,6 +102,10 @@ export default function SensitivityAnalysisCalculatorPage({
         onInputChange={handleInputChange}
       />
       
+      {globalSensitivity && (
+        <GlobalSensitivityChart result={globalSensitivity} className="mt-8 max-w-4xl mx-auto" />
+      )}
+      
       {/* Additional SEO Content */}
       <div className="seo-content mt-12 max-w-4xl mx-auto px-6">
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8">
@@ -161,6 +170,8 @@ export default function SensitivityAnalysisCalculatorPage({
                     <li>• Multi-parameter analysis</li>
                     <li>• Monte Carlo simulation</li>
                     <li>• Tornado chart analysis</li>
+                    <li>• Global sensitivity (Sobol indices)</li>
+                    <li>• Morris screening</li>
                   </ul>
                 </div>
               </div>
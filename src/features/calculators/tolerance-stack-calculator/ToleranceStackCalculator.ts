@@ -9,10 +9,18 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
+import { machineProfileRegistry } from '@/services/machineProfileRegistry';
+import { toleranceChainAnalyzer, chainLinkSchema, ChainAnalysis } from '@/services/toleranceChainAnalyzer';
+
+// A chain link and the process that makes it
+const chainLinkInputSchema = chainLinkSchema.extend({
+  source: z.enum(['laser_cut', 'bent', 'machined'])
+});
 
 // Input validation schema
 const toleranceStackSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   partComplexity: z.enum(['simple', 'moderate', 'complex', 'highly_complex']),
   numberOfFeatures: z.number().min(1).max(50),
   overallDimension: z.number().min(1).max(1000),
@@ -20,11 +28,21 @@ const toleranceStackSchema = z.object({
   toleranceClass: z.enum(['rough', 'standard', 'precision', 'ultra_precision']),
   assemblyRequirement: z.enum(['none', 'loose_fit', 'standard_fit', 'precision_fit', 'interference_fit']),
   measurementMethod: z.enum(['manual', 'cmm', 'optical', 'laser_scanning']),
-  environmentalConditions: z.enum(['controlled', 'workshop', 'field', 'harsh']).optional().default('workshop')
+  environmentalConditions: z.enum(['controlled', 'workshop', 'field', 'harsh']).optional().default('workshop'),
+  chain: z.array(chainLinkInputSchema).optional(), // the dimension chain to the closing dimension
+  specificationLimits: z.object({ // closing dimension limits, default nominal ± tolerance class
+    lower: z.number(),
+    upper: z.number()
+  }).optional(),
+  kerfVariation: z.number().min(0).max(1).optional(), // mm, ± kerf width variation
+  machineId: z.string().optional(), // positioning accuracy of laser-cut links
+  sampleCount: z.number().int().min(100).max(100000).optional(),
+  seed: z.number().int().min(0).optional()
 });
 
 // Input types
 export type ToleranceStackInputs = z.infer<typeof toleranceStackSchema>;
+export type ChainLinkInput = z.infer<typeof chainLinkInputSchema>;
 
 // Result types
 export interface ToleranceStackResults {
@@ -72,52 +90,58 @@ export interface ToleranceStackResults {
     riskFactors: string[];
     mitigationStrategies: string[];
   };
+  chainAnalysis?: ChainAnalysis & {
+    links: Array<ChainLinkInput & { processLimited: boolean }>; // as analysed, laser-cut bands widened to the process
+    laserAccuracy: number;          // mm
+    kerfVariation: number;          // mm
+  };
   recommendations: string[];
   warnings: string[];
 }
 
-// Material tolerance characteristics
+// Laser process spread when no machine profile is selected
+const DEFAULT_LASER_ACCURACY = 0.05;  // mm, ± positioning
+const DEFAULT_KERF_VARIATION = 0.02;  // mm, ± kerf width
+
+// Out-of-spec share of a centred ±3σ process, %
+const THREE_SIGMA_OUT_OF_SPEC = 0.27;
+
+// Tolerance characteristics per material family
 const materialToleranceProperties = {
   steel: {
     thermalStability: 0.8,
     machiningAccuracy: 0.9,
     dimensionalStability: 0.85,
-    thermalExpansion: 12e-6,
     achievableAccuracy: 0.02
   },
   stainless_steel: {
     thermalStability: 0.7,
     machiningAccuracy: 0.8,
     dimensionalStability: 0.8,
-    thermalExpansion: 17e-6,
     achievableAccuracy: 0.025
   },
   aluminum: {
     thermalStability: 0.6,
     machiningAccuracy: 0.85,
     dimensionalStability: 0.7,
-    thermalExpansion: 23e-6,
     achievableAccuracy: 0.03
   },
   copper: {
     thermalStability: 0.65,
     machiningAccuracy: 0.75,
     dimensionalStability: 0.75,
-    thermalExpansion: 17e-6,
     achievableAccuracy: 0.035
   },
   titanium: {
     thermalStability: 0.9,
     machiningAccuracy: 0.7,
     dimensionalStability: 0.9,
-    thermalExpansion: 8.6e-6,
     achievableAccuracy: 0.04
   },
   brass: {
     thermalStability: 0.75,
     machiningAccuracy: 0.8,
     dimensionalStability: 0.8,
-    thermalExpansion: 19e-6,
     achievableAccuracy: 0.03
   }
 };
@@ -174,14 +198,7 @@ export class ToleranceStackCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'partComplexity',
@@ -281,11 +298,22 @@ export class ToleranceStackCalculator extends BaseCalculator {
           { value: 'field', label: 'Field Conditions' },
           { value: 'harsh', label: 'Harsh Environment' }
         ]
+      },
+      {
+        id: 'kerfVariation',
+        label: 'Kerf Variation',
+        type: 'number',
+        required: false,
+        min: 0,
+        max: 1,
+        step: 0.005,
+        unit: 'mm',
+        help: 'Variation of the kerf width; widens the tolerance laser-cut links can hold'
       }
     ],
     resultType: 'analysis',
-    version: '1.0.0',
-    lastUpdated: '2025-01-02'
+    version: '1.1.0',
+    lastUpdated: '2026-10-18'
   };
 
   getInputSchema(): z.ZodSchema {
@@ -341,23 +369,45 @@ export class ToleranceStackCalculator extends BaseCalculator {
       });
     }
 
+    if (inputs.specificationLimits && inputs.specificationLimits.upper <= inputs.specificationLimits.lower) {
+      errors.push({
+        field: 'specificationLimits',
+        message: 'The upper specification limit must be above the lower one',
+        code: 'INVALID_SPECIFICATION_LIMITS'
+      });
+    }
+
+    if (inputs.chain && new Set(inputs.chain.map(link => link.id)).size !== inputs.chain.length) {
+      errors.push({
+        field: 'chain',
+        message: 'Chain link ids must be unique',
+        code: 'DUPLICATE_CHAIN_LINK'
+      });
+    }
+
     return { errors, warnings };
   }
 
   async calculate(inputs: ToleranceStackInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialToleranceProperties[inputs.materialType];
+      const material = materialRegistry.byFamily(inputs.materialType, materialToleranceProperties);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       const toleranceSpec = toleranceClassSpecs[inputs.toleranceClass];
       const assemblySpec = assemblyFitSpecs[inputs.assemblyRequirement];
       
+      // Stack up the entered dimension chain
+      const chainAnalysis = inputs.chain?.length ? this.analyzeChain(inputs, toleranceSpec) : undefined;
+      
       // Analyze tolerance stackup
-      const toleranceAnalysis = this.analyzeToleranceStackup(inputs, material, toleranceSpec);
+      const toleranceAnalysis = this.analyzeToleranceStackup(inputs, material, toleranceSpec, chainAnalysis);
       
       // Analyze dimensional chain
-      const dimensionalChain = this.analyzeDimensionalChain(inputs, material);
+      const dimensionalChain = this.analyzeDimensionalChain(inputs, material, chainAnalysis);
       
       // Predict accuracy
-      const accuracyPrediction = this.predictAccuracy(inputs, material, toleranceSpec);
+      const accuracyPrediction = this.predictAccuracy(inputs, material, toleranceSpec, chainAnalysis);
       
       // Calculate tolerance allocation
       const toleranceAllocation = this.calculateToleranceAllocation(inputs, toleranceSpec, assemblySpec);
@@ -369,8 +419,8 @@ export class ToleranceStackCalculator extends BaseCalculator {
       const riskAssessment = this.assessRisks(inputs, material, toleranceAnalysis, accuracyPrediction);
       
       // Generate recommendations and warnings
-      const recommendations = this.generateRecommendations(inputs, riskAssessment, accuracyPrediction);
-      const warnings = this.generateWarnings(inputs, riskAssessment, accuracyPrediction);
+      const recommendations = this.generateRecommendations(inputs, riskAssessment, accuracyPrediction, chainAnalysis);
+      const warnings = this.generateWarnings(inputs, riskAssessment, accuracyPrediction, chainAnalysis);
 
       const results: ToleranceStackResults = {
         toleranceAnalysis,
@@ -379,6 +429,7 @@ export class ToleranceStackCalculator extends BaseCalculator {
         toleranceAllocation,
         qualityControl,
         riskAssessment,
+        chainAnalysis,
         recommendations,
         warnings
       };
@@ -393,15 +444,63 @@ export class ToleranceStackCalculator extends BaseCalculator {
     }
   }
 
-  private analyzeToleranceStackup(inputs: ToleranceStackInputs, material: typeof materialToleranceProperties.steel, toleranceSpec: typeof toleranceClassSpecs.standard) {
+  /**
+   * Worst-case, RSS and Monte Carlo stack of the chain. A laser-cut link cannot be held
+   * tighter than the machine's positioning accuracy combined with the kerf variation, so
+   * its band is widened to that spread where the drawing asks for less.
+   */
+  private analyzeChain(inputs: ToleranceStackInputs, toleranceSpec: typeof toleranceClassSpecs.standard) {
+    const chain = inputs.chain ?? [];
+    const laserAccuracy = (inputs.machineId && machineProfileRegistry.find(inputs.machineId)?.accuracy) ||
+      DEFAULT_LASER_ACCURACY;
+    const kerfVariation = inputs.kerfVariation ?? DEFAULT_KERF_VARIATION;
+    const processHalfRange = Math.sqrt(laserAccuracy ** 2 + kerfVariation ** 2);
+
+    const links = chain.map(link => {
+      const halfRange = (link.plusTolerance + link.minusTolerance) / 2;
+      if (link.source !== 'laser_cut' || halfRange >= processHalfRange) {
+        return { ...link, processLimited: false };
+      }
+      const centre = (link.plusTolerance - link.minusTolerance) / 2;
+      return {
+        ...link,
+        plusTolerance: centre + processHalfRange,
+        minusTolerance: processHalfRange - centre,
+        processLimited: true
+      };
+    });
+
+    const nominal = chain.reduce((sum, link) => sum + (link.direction === 'increasing' ? link.nominal : -link.nominal), 0);
+    const specification = inputs.specificationLimits ?? {
+      lower: nominal - toleranceSpec.baseAccuracy,
+      upper: nominal + toleranceSpec.baseAccuracy
+    };
+
+    const analysis = toleranceChainAnalyzer.analyze(links, specification, {
+      samples: inputs.sampleCount,
+      seed: inputs.seed
+    });
+    return { ...analysis, links, laserAccuracy, kerfVariation };
+  }
+
+  private analyzeToleranceStackup(
+    inputs: ToleranceStackInputs,
+    material: typeof materialToleranceProperties.steel,
+    toleranceSpec: typeof toleranceClassSpecs.standard,
+    chainAnalysis?: ToleranceStackResults['chainAnalysis']
+  ) {
     // Calculate individual feature tolerance
     const featureTolerance = toleranceSpec.baseAccuracy * toleranceSpec.multiplier;
     
     // Worst case stackup (arithmetic sum)
-    const worstCaseStackup = inputs.numberOfFeatures * featureTolerance;
+    const worstCaseStackup = chainAnalysis
+      ? chainAnalysis.worstCase.max - chainAnalysis.mean
+      : inputs.numberOfFeatures * featureTolerance;
     
     // Statistical stackup (RSS - Root Sum of Squares)
-    const statisticalStackup = Math.sqrt(inputs.numberOfFeatures) * featureTolerance;
+    const statisticalStackup = chainAnalysis
+      ? 3 * chainAnalysis.rss.standardDeviation
+      : Math.sqrt(inputs.numberOfFeatures) * featureTolerance;
     
     // Total stackup (considering material and environmental factors)
     const materialFactor = 1 + (1 - material.dimensionalStability) * 0.5;
@@ -409,10 +508,11 @@ export class ToleranceStackCalculator extends BaseCalculator {
     const totalStackup = statisticalStackup * materialFactor * environmentalFactor;
     
     // Determine stackup method
-    const stackupMethod = inputs.numberOfFeatures > 10 ? 'Statistical (RSS)' : 'Worst Case';
+    const featureCount = chainAnalysis ? chainAnalysis.links.length : inputs.numberOfFeatures;
+    const stackupMethod = featureCount > 10 ? 'Statistical (RSS)' : 'Worst Case';
     
     // Confidence level
-    const confidenceLevel = inputs.numberOfFeatures > 10 ? 99.7 : 100; // 3-sigma for statistical
+    const confidenceLevel = featureCount > 10 ? 99.7 : 100; // 3-sigma for statistical
     
     return {
       totalStackup: Math.round(totalStackup * 1000) / 1000,
@@ -433,7 +533,11 @@ export class ToleranceStackCalculator extends BaseCalculator {
     return factors[conditions] || 1.1;
   }
 
-  private analyzeDimensionalChain(inputs: ToleranceStackInputs, material: typeof materialToleranceProperties.steel) {
+  private analyzeDimensionalChain(
+    inputs: ToleranceStackInputs,
+    material: typeof materialToleranceProperties.steel,
+    chainAnalysis?: ToleranceStackResults['chainAnalysis']
+  ) {
     // Chain length (simplified as overall dimension)
     const chainLength = inputs.overallDimension;
     
@@ -457,6 +561,18 @@ export class ToleranceStackCalculator extends BaseCalculator {
     const complexityPenalty = { simple: 0, moderate: 0.1, complex: 0.2, highly_complex: 0.3 };
     const chainEfficiency = Math.max(0.5, 1 - complexityPenalty[inputs.partComplexity] - (1 - material.dimensionalStability) * 0.3);
     
+    if (chainAnalysis) {
+      // Links ordered by their share of the closing-dimension variation
+      const ranked = [...chainAnalysis.contributions].sort((a, b) => b.varianceShare - a.varianceShare);
+      return {
+        chainLength: Math.round(chainAnalysis.links.reduce((sum, link) => sum + Math.abs(link.nominal), 0) * 100) / 100,
+        contributingDimensions: chainAnalysis.links.length,
+        criticalPath: ranked.map(contribution => contribution.id),
+        weakestLink: chainAnalysis.largestContributor,
+        chainEfficiency: Math.round(chainEfficiency * 1000) / 1000
+      };
+    }
+    
     return {
       chainLength: Math.round(chainLength * 100) / 100,
       contributingDimensions,
@@ -466,7 +582,12 @@ export class ToleranceStackCalculator extends BaseCalculator {
     };
   }
 
-  private predictAccuracy(inputs: ToleranceStackInputs, material: typeof materialToleranceProperties.steel, toleranceSpec: typeof toleranceClassSpecs.standard) {
+  private predictAccuracy(
+    inputs: ToleranceStackInputs,
+    material: typeof materialToleranceProperties.steel,
+    toleranceSpec: typeof toleranceClassSpecs.standard,
+    chainAnalysis?: ToleranceStackResults['chainAnalysis']
+  ) {
     // Base expected accuracy
     const baseAccuracy = toleranceSpec.baseAccuracy;
     
@@ -493,15 +614,17 @@ export class ToleranceStackCalculator extends BaseCalculator {
     // Process capability
     const processCapability = toleranceSpec.processCapability * material.machiningAccuracy;
     
-    // Yield prediction
-    const yieldPrediction = Math.max(70, 100 - (expectedAccuracy / toleranceSpec.baseAccuracy - 1) * 30);
+    // Yield prediction, simulated when there is a chain
+    const yieldPrediction = chainAnalysis
+      ? 100 - chainAnalysis.monteCarlo.outOfSpecPercent
+      : Math.max(70, 100 - (expectedAccuracy / toleranceSpec.baseAccuracy - 1) * 30);
     
     return {
       expectedAccuracy: Math.round(expectedAccuracy * 1000) / 1000,
       achievableAccuracy: Math.round(achievableAccuracy * 1000) / 1000,
       accuracyGrade,
       processCapability: Math.round(processCapability * 100) / 100,
-      yieldPrediction: Math.round(yieldPrediction)
+      yieldPrediction: chainAnalysis ? Math.round(yieldPrediction * 10) / 10 : Math.round(yieldPrediction)
     };
   }
 
@@ -645,9 +768,25 @@ export class ToleranceStackCalculator extends BaseCalculator {
     };
   }
 
-  private generateRecommendations(inputs: ToleranceStackInputs, riskAssessment: any, accuracyPrediction: any): string[] {
+  private generateRecommendations(
+    inputs: ToleranceStackInputs,
+    riskAssessment: any,
+    accuracyPrediction: any,
+    chainAnalysis?: ToleranceStackResults['chainAnalysis']
+  ): string[] {
     const recommendations: string[] = [];
     
+    if (chainAnalysis && chainAnalysis.monteCarlo.outOfSpecPercent > 0) {
+      const largest = chainAnalysis.contributions.find(contribution => contribution.id === chainAnalysis.largestContributor);
+      recommendations.push(
+        `Tighten ${chainAnalysis.largestContributor} first - it carries ${Math.round((largest?.varianceShare ?? 0) * 100)}% of the closing-dimension variation`
+      );
+    }
+    
+    if (chainAnalysis && !chainAnalysis.worstCase.withinSpec && chainAnalysis.monteCarlo.outOfSpecPercent < THREE_SIGMA_OUT_OF_SPEC) {
+      recommendations.push('Worst case exceeds the limits but the statistical stack holds them - acceptable for volume production, inspect if every part must fit');
+    }
+    
     if (riskAssessment.riskLevel === 'critical') {
       recommendations.push('Critical tolerance risk - review design and manufacturing approach');
     }
@@ -675,9 +814,29 @@ export class ToleranceStackCalculator extends BaseCalculator {
     return recommendations;
   }
 
-  private generateWarnings(inputs: ToleranceStackInputs, riskAssessment: any, accuracyPrediction: any): string[] {
+  private generateWarnings(
+    inputs: ToleranceStackInputs,
+    riskAssessment: any,
+    accuracyPrediction: any,
+    chainAnalysis?: ToleranceStackResults['chainAnalysis']
+  ): string[] {
     const warnings: string[] = [];
     
+    chainAnalysis?.links.filter(link => link.processLimited).forEach(link => {
+      const drawn = inputs.chain?.find(entry => entry.id === link.id);
+      const drawnHalf = drawn ? (drawn.plusTolerance + drawn.minusTolerance) / 2 : 0;
+      const heldHalf = (link.plusTolerance + link.minusTolerance) / 2;
+      warnings.push(
+        `${link.id}: the laser holds ±${heldHalf.toFixed(3)} mm (machine accuracy and kerf variation), wider than the drawn ±${drawnHalf.toFixed(3)} mm`
+      );
+    });
+    
+    if (chainAnalysis && chainAnalysis.monteCarlo.outOfSpecPercent >= THREE_SIGMA_OUT_OF_SPEC) {
+      warnings.push(
+        `${chainAnalysis.monteCarlo.outOfSpecPercent.toFixed(2)}% of parts predicted outside ${chainAnalysis.specification.lower}-${chainAnalysis.specification.upper} mm - ${chainAnalysis.largestContributor} contributes most`
+      );
+    }
+    
     if (riskAssessment.riskLevel === 'critical') {
       warnings.push('Critical tolerance stackup risk - parts may not meet assembly requirements');
     }
@@ -17,7 +17,7 @@ describe('ToleranceStackCalculator', () => {
       expect(calculator.config.title).toBe('Tolerance Stack Calculator');
       expect(calculator.config.category).toBe('Quality Control');
       expect(calculator.config.badge).toBe('Standard');
-      expect(calculator.config.inputs).toHaveLength(9);
+      expect(calculator.config.inputs).toHaveLength(10);
     });
 
     test('should have all required input fields', () => {
@@ -31,6 +31,7 @@ describe('ToleranceStackCalculator', () => {
       expect(inputIds).toContain('assemblyRequirement');
       expect(inputIds).toContain('measurementMethod');
       expect(inputIds).toContain('environmentalConditions');
+      expect(inputIds).toContain('kerfVariation');
     });
   });
 
@@ -376,7 +377,7 @@ describe('ToleranceStackCalculator', () => {
       expect(result.metadata).toBeDefined();
       expect(result.metadata.calculationTime).toBeGreaterThanOrEqual(0);
       expect(result.metadata.timestamp).toBeDefined();
-      expect(result.metadata.version).toBe('1.0.0');
+      expect(result.metadata.version).toBe('1.1.0');
       expect(result.metadata.inputHash).toBeDefined();
     });
   });
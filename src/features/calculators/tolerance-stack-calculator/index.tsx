@@ -1,7 +1,10 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { BaseCalculatorContainer } from '@/components/calculator/BaseCalculatorComponents';
+import { DimensionChainEditor, type DimensionChainLink } from '@/components/calculator/DimensionChainEditor';
+import { ToleranceChainSummary } from '@/components/calculator/ToleranceChainSummary';
+import type { ChainAnalysis } from '@/services/toleranceChainAnalyzer';
 import { ToleranceStackCalculator } from './ToleranceStackCalculator';
 import CalculatorSEOHead from '@/components/seo/CalculatorSEOHead';
 
@@ -21,8 +24,20 @@ export default function ToleranceStackCalculatorPage({
   initialInputs,
   onCalculationComplete
 }: ToleranceStackCalculatorPageProps) {
+  const [formInputs, setFormInputs] = useState<Record<string, unknown> | undefined>(initialInputs);
+  const [chainVersion, setChainVersion] = useState(0);
+  const [chainAnalysis, setChainAnalysis] = useState<ChainAnalysis | null>(null);
+  
+  // A new chain restarts the form with the values entered so far
+  const handleApplyChain = (chain: DimensionChainLink[]) => {
+    setFormInputs(inputs => ({ ...(inputs ?? calculator.getExampleInputs()), chain }));
+    setChainAnalysis(null);
+    setChainVersion(version => version + 1);
+  };
   
   const handleCalculationComplete = (result: any) => {
+    setChainAnalysis(result.success ? result.data?.chainAnalysis ?? null : null);
+    
     // Log calculation for analytics
     if (typeof window !== 'undefined' && result.success) {
       console.log('Tolerance Stack Analysis completed:', {
@@ -37,6 +52,8 @@ export default function ToleranceStackCalculatorPage({
   };
 
   const handleInputChange = (inputs: Record<string, any>) => {
+    setFormInputs(inputs);
+    
     // Optional: Track input changes for analytics
     if (typeof window !== 'undefined') {
       console.log('Tolerance Stack Calculator inputs changed:', inputs);
@@ -64,6 +81,7 @@ export default function ToleranceStackCalculatorPage({
           'Comprehensive tolerance stackup analysis',
           'Worst-case and statistical methods',
           'Dimensional chain calculation',
+          'Monte Carlo stack-up with out-of-spec prediction',
           'Process capability assessment',
           'Quality control planning',
           'Risk assessment and mitigation',
@@ -81,14 +99,25 @@ export default function ToleranceStackCalculatorPage({
       />
       <div className="tolerance-stack-calculator-page">
 
+      <DimensionChainEditor
+        initialChain={formInputs?.chain as DimensionChainLink[] | undefined}
+        onApply={handleApplyChain}
+        className="mb-8 max-w-4xl mx-auto"
+      />
+
       {/* Main Calculator Interface */}
       <BaseCalculatorContainer
+        key={chainVersion}
         calculator={calculator}
-        initialInputs={initialInputs}
+        initialInputs={formInputs}
         onCalculationComplete={handleCalculationComplete}
         onInputChange={handleInputChange}
       />
       
+      {chainAnalysis && (
+        <ToleranceChainSummary analysis={chainAnalysis} className="mt-8 max-w-4xl mx-auto" />
+      )}
+      
       {/* Additional SEO Content */}
       <div className="seo-content mt-12 max-w-4xl mx-auto px-6">
         <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8">
@@ -9,10 +9,11 @@ import {
   BaseCalculationResult,
   ValidationResult 
 } from '@/lib/calculator/BaseCalculator';
+import { materialRegistry, METAL_FAMILIES } from '@/services/materialRegistry';
 
 // Input validation schema
 const warpingRiskSchema = z.object({
-  materialType: z.enum(['steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass']),
+  materialType: materialRegistry.schema({ families: METAL_FAMILIES }),
   thickness: z.number().min(0.5).max(50),
   length: z.number().min(10).max(3000),
   width: z.number().min(10).max(3000),
@@ -71,70 +72,35 @@ export interface WarpingRiskResults {
   warnings: string[];
 }
 
-// Material thermal properties database
-const materialThermalProperties = {
-  steel: {
-    thermalExpansion: 12e-6,        // /K
-    thermalConductivity: 50,        // W/m·K
-    specificHeat: 490,              // J/kg·K
-    density: 7850,                  // kg/m³
-    yieldStrength: 250,             // MPa
-    elasticModulus: 200000,         // MPa
-    warpingTendency: 0.7,
-    thermalFactor: 1.0
-  },
-  stainless_steel: {
-    thermalExpansion: 17e-6,
-    thermalConductivity: 16,
-    specificHeat: 500,
-    density: 8000,
-    yieldStrength: 205,
-    elasticModulus: 200000,
-    warpingTendency: 0.8,
-    thermalFactor: 1.2
-  },
-  aluminum: {
-    thermalExpansion: 23e-6,
-    thermalConductivity: 237,
-    specificHeat: 896,
-    density: 2700,
-    yieldStrength: 276,
-    elasticModulus: 70000,
-    warpingTendency: 0.9,
-    thermalFactor: 0.6
-  },
-  copper: {
-    thermalExpansion: 17e-6,
-    thermalConductivity: 401,
-    specificHeat: 385,
-    density: 8960,
-    yieldStrength: 70,
-    elasticModulus: 110000,
-    warpingTendency: 0.6,
-    thermalFactor: 0.4
-  },
-  titanium: {
-    thermalExpansion: 8.6e-6,
-    thermalConductivity: 22,
-    specificHeat: 520,
-    density: 4500,
-    yieldStrength: 275,
-    elasticModulus: 114000,
-    warpingTendency: 0.5,
-    thermalFactor: 1.1
-  },
-  brass: {
-    thermalExpansion: 19e-6,
-    thermalConductivity: 120,
-    specificHeat: 380,
-    density: 8500,
-    yieldStrength: 310,
-    elasticModulus: 100000,
-    warpingTendency: 0.7,
-    thermalFactor: 0.8
-  }
+// Warping behaviour per material family
+const materialWarpingFactors = {
+  steel: { warpingTendency: 0.7, thermalFactor: 1.0 },
+  stainless_steel: { warpingTendency: 0.8, thermalFactor: 1.2 },
+  aluminum: { warpingTendency: 0.9, thermalFactor: 0.6 },
+  copper: { warpingTendency: 0.6, thermalFactor: 0.4 },
+  titanium: { warpingTendency: 0.5, thermalFactor: 1.1 },
+  brass: { warpingTendency: 0.7, thermalFactor: 0.8 }
 };
 
+// Thermal and mechanical properties of the grade from the material registry
+function getMaterialThermalProperties(materialType: string) {
+  const grade = materialRegistry.find(materialType);
+  const factors = materialRegistry.byFamily(materialType, materialWarpingFactors);
+  if (!grade?.mechanical || !factors) return undefined;
+
+  return {
+    thermalExpansion: grade.thermal.expansion,
+    thermalConductivity: grade.thermal.conductivity,
+    specificHeat: grade.thermal.specificHeat,
+    density: grade.thermal.density,
+    yieldStrength: grade.mechanical.yieldStrength,
+    elasticModulus: grade.mechanical.elasticModulus,
+    ...factors
+  };
+}
+
+type MaterialThermalProperties = NonNullable<ReturnType<typeof getMaterialThermalProperties>>;
+
 export class WarpingRiskCalculator extends BaseCalculator {
   readonly config: BaseCalculatorConfig = {
     id: 'warping-risk-calculator',
@@ -150,14 +116,7 @@ export class WarpingRiskCalculator extends BaseCalculator {
         type: 'select',
         required: true,
         help: 'Select the material to be cut',
-        options: [
-          { value: 'steel', label: 'Carbon Steel' },
-          { value: 'stainless_steel', label: 'Stainless Steel' },
-          { value: 'aluminum', label: 'Aluminum' },
-          { value: 'copper', label: 'Copper' },
-          { value: 'titanium', label: 'Titanium' },
-          { value: 'brass', label: 'Brass' }
-        ]
+        options: materialRegistry.options({ families: METAL_FAMILIES })
       },
       {
         id: 'thickness',
@@ -321,7 +280,10 @@ export class WarpingRiskCalculator extends BaseCalculator {
 
   async calculate(inputs: WarpingRiskInputs): Promise<BaseCalculationResult> {
     try {
-      const material = materialThermalProperties[inputs.materialType];
+      const material = getMaterialThermalProperties(inputs.materialType);
+      if (!material) {
+        throw new Error(`Unsupported material: ${inputs.materialType}`);
+      }
       
       // Calculate thermal analysis
       const thermalAnalysis = this.calculateThermalAnalysis(inputs, material);
@@ -370,7 +332,7 @@ export class WarpingRiskCalculator extends BaseCalculator {
     }
   }
 
-  private calculateThermalAnalysis(inputs: WarpingRiskInputs, material: typeof materialThermalProperties.steel) {
+  private calculateThermalAnalysis(inputs: WarpingRiskInputs, material: MaterialThermalProperties) {
     // Calculate heat input
     const heatInput = (inputs.laserPower * 60) / inputs.cuttingSpeed; // J/mm
     
@@ -405,7 +367,7 @@ export class WarpingRiskCalculator extends BaseCalculator {
     };
   }
 
-  private calculateMechanicalAnalysis(inputs: WarpingRiskInputs, material: typeof materialThermalProperties.steel, thermal: any) {
+  private calculateMechanicalAnalysis(inputs: WarpingRiskInputs, material: MaterialThermalProperties, thermal: any) {
     // Calculate residual stress
     const residualStress = thermal.thermalStress * 0.7; // Simplified
     
@@ -455,7 +417,7 @@ export class WarpingRiskCalculator extends BaseCalculator {
     };
   }
 
-  private calculateOverallRiskScore(inputs: WarpingRiskInputs, material: typeof materialThermalProperties.steel, thermal: any, mechanical: any, geometric: any): number {
+  private calculateOverallRiskScore(inputs: WarpingRiskInputs, material: MaterialThermalProperties, thermal: any, mechanical: any, geometric: any): number {
     // Thermal risk component (0-3)
     const thermalRisk = Math.min(3, (thermal.thermalStress / material.yieldStrength) * 3);
     
@@ -483,7 +445,7 @@ export class WarpingRiskCalculator extends BaseCalculator {
     return 'critical';
   }
 
-  private generatePreventionStrategies(inputs: WarpingRiskInputs, riskScore: number, material: typeof materialThermalProperties.steel) {
+  private generatePreventionStrategies(inputs: WarpingRiskInputs, riskScore: number, material: MaterialThermalProperties) {
     // Parameter adjustments
     const powerReduction = riskScore > 6 ? 0.8 : 0.9;
     const speedIncrease = riskScore > 6 ? 1.2 : 1.1;
@@ -616,7 +578,7 @@ export class WarpingRiskCalculator extends BaseCalculator {
       warnings.push('Very thin material - extremely prone to warping');
     }
     
-    if (inputs.materialType === 'aluminum' && riskScore > 4) {
+    if (materialRegistry.isFamily(inputs.materialType, 'aluminum') && riskScore > 4) {
       warnings.push('Aluminum has high thermal expansion - warping likely');
     }
     
@@ -3,6 +3,9 @@
 
 import { z } from 'zod';
 import Decimal from 'decimal.js';
+import { machineProfileRegistry } from '@/services/machineProfileRegistry';
+import { convertValues, type UnitSystem } from '@/utils/units';
+import { contentHash } from '@/utils/contentHash';
 
 // Configure Decimal.js for high precision calculations
 Decimal.config({
@@ -20,7 +23,7 @@ export interface BaseInputField {
   required: boolean;
   placeholder?: string;
   help?: string;
-  unit?: string;
+  unit?: string; // canonical unit (mm, mm/min, bar...); its dimension decides the unit shown to the user
   min?: number;
   max?: number;
   step?: number;
@@ -37,6 +40,7 @@ export interface BaseCalculatorConfig {
   badge: 'Standard' | 'AI Enhanced' | 'Premium' | 'New';
   iconName: string;
   inputs: BaseInputField[];
+  resultUnits?: Record<string, string>; // canonical units of numeric result fields, by dotted path
   resultType: 'price' | 'time' | 'parameters' | 'selection' | 'analysis';
   version: string;
   lastUpdated: string;
@@ -92,6 +96,10 @@ export interface IBaseCalculator {
   
   // Core methods
   validateInputs(inputs: Record<string, any>): ValidationResult;
+  resolveInputs(inputs: Record<string, any>): Record<string, any>;
+  toCanonicalInputs(inputs: Record<string, any>, system: UnitSystem): Record<string, any>;
+  toDisplayInputs(inputs: Record<string, any>, system: UnitSystem): Record<string, any>;
+  toDisplayResult(result: BaseCalculationResult, system: UnitSystem): BaseCalculationResult;
   calculate(inputs: Record<string, any>): Promise<BaseCalculationResult>;
   formatResult(result: any, format: 'display' | 'export' | 'api'): any;
   
@@ -129,9 +137,10 @@ export abstract class BaseCalculator implements IBaseCalculator {
     this._configValidated = true;
   }
   
-  // Input validation using Zod schemas
+  // Input validation using Zod schemas, after the selected machine has been applied
   validateInputs(inputs: Record<string, any>): ValidationResult {
     this.ensureConfigValid();
+    inputs = this.resolveInputs(inputs);
 
     const result: ValidationResult = {
       isValid: true,
@@ -153,10 +162,17 @@ export abstract class BaseCalculator implements IBaseCalculator {
       }
     }
     
-    // Additional custom validation
-    const customValidation = this.customValidation(inputs);
-    result.errors.push(...customValidation.errors);
-    result.warnings.push(...customValidation.warnings);
+    // Additional custom validation and machine capability. Both assume the schema's types, so
+    // once the schema has rejected the inputs a rule that trips over a missing field is skipped.
+    for (const validate of [this.customValidation, this.machineValidation]) {
+      try {
+        const extra = validate.call(this, inputs);
+        result.errors.push(...extra.errors);
+        result.warnings.push(...extra.warnings);
+      } catch (error) {
+        if (result.isValid) throw error;
+      }
+    }
     
     if (result.errors.length > 0) {
       result.isValid = false;
@@ -165,6 +181,62 @@ export abstract class BaseCalculator implements IBaseCalculator {
     return result;
   }
   
+  /**
+   * Inputs with the machine profile named by inputs.machineId applied: the machine's own
+   * properties replace entered values and its defaults fill empty fields. Callers pass
+   * the resolved inputs to calculate().
+   */
+  resolveInputs(inputs: Record<string, any>): Record<string, any> {
+    if (!inputs.machineId || !machineProfileRegistry.has(inputs.machineId)) return inputs;
+    return machineProfileRegistry.fillInputs(
+      inputs.machineId,
+      inputs,
+      this.config.inputs.map(input => input.id)
+    );
+  }
+
+  /**
+   * Inputs entered in a unit system, converted to the canonical units the fields declare.
+   * Calculators, history and exports only ever see canonical values.
+   */
+  toCanonicalInputs(inputs: Record<string, any>, system: UnitSystem): Record<string, any> {
+    return convertValues(inputs, this.inputUnits(), system, 'fromUnitSystem');
+  }
+
+  /**
+   * Canonical inputs in a unit system, for display
+   */
+  toDisplayInputs(inputs: Record<string, any>, system: UnitSystem): Record<string, any> {
+    return convertValues(inputs, this.inputUnits(), system, 'toUnitSystem');
+  }
+
+  /**
+   * A result with the fields listed in config.resultUnits in a unit system, for display
+   */
+  toDisplayResult(result: BaseCalculationResult, system: UnitSystem): BaseCalculationResult {
+    if (!result.data || !this.config.resultUnits) return result;
+    return { ...result, data: convertValues(result.data, this.config.resultUnits, system, 'toUnitSystem') };
+  }
+
+  private inputUnits(): Record<string, string> {
+    return Object.fromEntries(
+      this.config.inputs
+        .filter(input => input.type === 'number' && input.unit)
+        .map(input => [input.id, input.unit as string])
+    );
+  }
+
+  private machineValidation(inputs: Record<string, any>): Pick<ValidationResult, 'errors' | 'warnings'> {
+    if (!inputs.machineId) return { errors: [], warnings: [] };
+    if (!machineProfileRegistry.has(inputs.machineId)) {
+      return {
+        errors: [{ field: 'machineId', message: `Unknown machine: ${inputs.machineId}`, code: 'UNKNOWN_MACHINE' }],
+        warnings: []
+      };
+    }
+    return machineProfileRegistry.checkInputs(inputs.machineId, inputs);
+  }
+
   // Abstract methods that must be implemented by each calculator
   abstract calculate(inputs: Record<string, any>): Promise<BaseCalculationResult>;
   abstract getInputSchema(): z.ZodSchema;
@@ -289,15 +361,8 @@ export abstract class BaseCalculator implements IBaseCalculator {
   }
   
   protected generateInputHash(inputs: Record<string, any>): string {
-    // Generate hash for caching and comparison
-    const sortedInputs = Object.keys(inputs)
-      .sort()
-      .reduce((acc, key) => {
-        acc[key] = inputs[key];
-        return acc;
-      }, {} as Record<string, any>);
-    
-    return btoa(JSON.stringify(sortedInputs));
+    // SHA-256 of the canonical inputs, for caching, comparison and provenance
+    return contentHash(inputs);
   }
   
   protected createSuccessResult(data: Record<string, any>, inputs: Record<string, any>): BaseCalculationResult {
@@ -208,6 +208,10 @@ export interface CommonTranslations {
       chart: string;
       export: string;
       help: string;
+      machine: string;
+      no_machine: string;
+      gauge: string;
+      set_by_machine: string;
     };
     results: {
       summary: string;
@@ -0,0 +1,200 @@
+/**
+ * Calculation Provenance
+ * Records what produced a calculation (calculator version, input hash and the material,
+ * machine and cutting-chart data versions) and re-runs saved calculations with the current
+ * calculators, listing each result field that changed and the version changes behind it
+ */
+
+import type { BaseCalculationResult, IBaseCalculator } from '../lib/calculator/BaseCalculator';
+import type { CalculationProvenance, DataVersions } from '../types/memory';
+import { materialRegistry } from './materialRegistry';
+import { machineProfileRegistry } from './machineProfileRegistry';
+import { cuttingChartLibrary } from './cuttingChartLibrary';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { CalculationProvenance, DataVersions } from '../types/memory';
+
+export interface SavedCalculation {
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  provenance?: CalculationProvenance; // absent on calculations saved before it was recorded
+}
+
+export interface ResultFieldChange {
+  path: string; // dotted path into the result data
+  before: unknown; // undefined when the field is new
+  after: unknown; // undefined when the field is gone
+  delta?: number; // after - before, when both are numbers
+  relativeChange?: number; // delta / |before|
+}
+
+export interface ProvenanceChange {
+  source: 'calculator' | 'inputs' | keyof DataVersions;
+  before: string;
+  after: string;
+  description: string;
+}
+
+export interface RerunComparison {
+  result: BaseCalculationResult;
+  provenance: CalculationProvenance;
+  changes: ResultFieldChange[];
+  causes: ProvenanceChange[];
+  unchanged: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Relative difference below which two numbers are the same result (floating-point noise)
+const NUMBER_TOLERANCE = 1e-9;
+
+const DATA_DESCRIPTIONS: Record<keyof DataVersions, string> = {
+  materials: 'Material data changed',
+  machines: 'Machine profiles changed',
+  cuttingCharts: 'Imported cutting charts changed'
+};
+
+// ============================================================================
+// Calculation Provenance
+// ============================================================================
+
+export class CalculationProvenanceService {
+  /**
+   * Versions of the shared data calculators read right now
+   */
+  currentDataVersions(): DataVersions {
+    return {
+      materials: materialRegistry.dataVersion(),
+      machines: machineProfileRegistry.dataVersion(),
+      cuttingCharts: cuttingChartLibrary.dataVersion()
+    };
+  }
+
+  /**
+   * Provenance of a result the calculator has just produced
+   */
+  capture(calculator: IBaseCalculator, result: BaseCalculationResult): CalculationProvenance {
+    return {
+      calculatorId: calculator.config.id,
+      calculatorVersion: result.metadata.version,
+      inputHash: result.metadata.inputHash,
+      dataVersions: this.currentDataVersions(),
+      calculatedAt: result.metadata.timestamp
+    };
+  }
+
+  /**
+   * Runs a saved calculation again with the current calculator and data, and compares the
+   * results. Fails when the saved inputs are no longer valid for the calculator.
+   */
+  async rerun(calculator: IBaseCalculator, saved: SavedCalculation): Promise<RerunComparison> {
+    const inputs = calculator.resolveInputs(saved.inputs);
+    const validation = calculator.validateInputs(inputs);
+    if (!validation.isValid) {
+      const reasons = validation.errors.map(error => `${error.field}: ${error.message}`).join('; ');
+      throw new Error(`The saved inputs are not valid for ${calculator.config.id} ${calculator.config.version}: ${reasons}`);
+    }
+
+    const result = await calculator.calculate(inputs);
+    if (!result.success) {
+      throw new Error(result.error ?? 'Calculation failed');
+    }
+
+    const provenance = this.capture(calculator, result);
+    const changes = this.diff(saved.outputs, result.data ?? {});
+    return {
+      result,
+      provenance,
+      changes,
+      causes: this.compare(saved.provenance, provenance),
+      unchanged: changes.length === 0
+    };
+  }
+
+  /**
+   * Field-by-field differences between two result data objects, by dotted path
+   */
+  diff(before: Record<string, unknown>, after: Record<string, unknown>): ResultFieldChange[] {
+    const previous = flatten(before);
+    const current = flatten(after);
+    const paths = Array.from(new Set([...previous.keys(), ...current.keys()])).sort();
+
+    return paths.flatMap(path => {
+      const [old, value] = [previous.get(path), current.get(path)];
+      if (typeof old === 'number' && typeof value === 'number') {
+        const delta = value - old;
+        const scale = Math.max(Math.abs(old), Math.abs(value));
+        if (delta === 0 || Math.abs(delta) <= NUMBER_TOLERANCE * scale) return [];
+        return [{ path, before: old, after: value, delta, relativeChange: old !== 0 ? delta / Math.abs(old) : undefined }];
+      }
+      return Object.is(old, value) ? [] : [{ path, before: old, after: value }];
+    });
+  }
+
+  /**
+   * The version changes between two provenance records, which explain differing results
+   */
+  compare(before: CalculationProvenance | undefined, after: CalculationProvenance): ProvenanceChange[] {
+    if (!before) {
+      return [{
+        source: 'calculator',
+        before: 'unknown',
+        after: after.calculatorVersion,
+        description: 'Saved without provenance, so the versions it used are unknown'
+      }];
+    }
+
+    const causes: ProvenanceChange[] = [];
+    if (before.calculatorVersion !== after.calculatorVersion) {
+      causes.push({
+        source: 'calculator',
+        before: before.calculatorVersion,
+        after: after.calculatorVersion,
+        description: `Calculator updated from ${before.calculatorVersion} to ${after.calculatorVersion}`
+      });
+    }
+    if (before.inputHash !== after.inputHash) {
+      causes.push({
+        source: 'inputs',
+        before: before.inputHash,
+        after: after.inputHash,
+        description: 'The saved inputs resolve differently now, for example from an updated machine profile'
+      });
+    }
+    for (const source of Object.keys(DATA_DESCRIPTIONS) as Array<keyof DataVersions>) {
+      if (before.dataVersions[source] !== after.dataVersions[source]) {
+        causes.push({
+          source,
+          before: before.dataVersions[source],
+          after: after.dataVersions[source],
+          description: DATA_DESCRIPTIONS[source]
+        });
+      }
+    }
+    return causes;
+  }
+}
+
+/**
+ * Leaf values by dotted path; array items are indexed (parts.0.cost)
+ */
+function flatten(value: unknown, prefix = '', leaves = new Map<string, unknown>()): Map<string, unknown> {
+  if (value instanceof Date) {
+    leaves.set(prefix, value.toISOString()); // as it reads back from storage
+  } else if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0 && prefix) leaves.set(prefix, Array.isArray(value) ? '[]' : '{}');
+    entries.forEach(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key, leaves));
+  } else if (prefix) {
+    leaves.set(prefix, value);
+  }
+  return leaves;
+}
+
+// Export singleton instance
+export const calculationProvenance = new CalculationProvenanceService();
@@ -0,0 +1,284 @@
+/**
+ * Calculator Pipeline
+ * Job workflows in which named outputs of one calculator feed inputs of the next. Steps run in
+ * dependency order, and a re-run only recalculates the steps whose inputs actually changed.
+ */
+
+import type { BaseCalculationResult, IBaseCalculator } from '../lib/calculator/BaseCalculator';
+import { ModuleDependencyResolver } from '../core/DependencyResolver';
+import { generateId } from '../utils/idGenerator';
+import { canonicalJson } from '../utils/contentHash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PipelineBinding {
+  step: string; // upstream step id
+  output: string; // dotted path into its result data, e.g. 'optimalSettings.speed'
+}
+
+export interface PipelineStep {
+  id: string;
+  calculatorId: string;
+  inputs: Record<string, unknown>; // fixed inputs
+  bindings?: Record<string, PipelineBinding>; // inputs taken from upstream outputs
+  priority?: number; // runs earlier among steps that are ready at the same time
+}
+
+export interface PipelineDefinition {
+  name: string;
+  steps: PipelineStep[];
+}
+
+export interface PipelineTemplate extends PipelineDefinition {
+  id: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineStepRun {
+  stepId: string;
+  calculatorId: string;
+  inputs: Record<string, unknown>; // fixed and bound inputs the step ran with
+  result?: BaseCalculationResult;
+  error?: string; // validation or binding failure; the calculator did not run
+  reused: boolean; // carried over from the previous run because its inputs were unchanged
+}
+
+export interface PipelineRun {
+  order: string[];
+  steps: Record<string, PipelineStepRun>; // steps after a failure are missing
+  executed: string[]; // steps calculated in this run
+  success: boolean;
+  failedStep?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY = 'laser-calc-pipelines';
+
+// ============================================================================
+// Calculator Pipeline
+// ============================================================================
+
+export class CalculatorPipeline {
+  private calculators = new Map<string, IBaseCalculator>();
+  private templates = new Map<string, PipelineTemplate>();
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  registerCalculator(calculator: IBaseCalculator): void {
+    this.calculators.set(calculator.config.id, calculator);
+  }
+
+  /**
+   * Step ids in run order; throws on unknown calculators, dangling bindings and cycles
+   */
+  order(definition: PipelineDefinition): string[] {
+    this.validate(definition);
+    const resolver = this.resolver(definition);
+
+    const cyclic = definition.steps.find(step => resolver.checkCircularDependencies(step.id));
+    if (cyclic) {
+      throw new Error(`Pipeline step ${cyclic.id} depends on its own output`);
+    }
+    return resolver.getLoadOrder(definition.steps.map(step => step.id));
+  }
+
+  /**
+   * Steps that use the output of stepId, directly or further down, in run order
+   */
+  downstreamOf(definition: PipelineDefinition, stepId: string): string[] {
+    const resolver = this.resolver(definition);
+    const affected = new Set<string>();
+    const visit = (id: string) => {
+      for (const dependent of resolver.getDependents(id)) {
+        if (!affected.has(dependent)) {
+          affected.add(dependent);
+          visit(dependent);
+        }
+      }
+    };
+    visit(stepId);
+    return this.order(definition).filter(id => affected.has(id));
+  }
+
+  /**
+   * Runs the pipeline. Given the previous run, steps whose fixed and bound inputs are unchanged
+   * keep their result, so changing one input only recalculates the steps it reaches.
+   */
+  async run(definition: PipelineDefinition, previous?: PipelineRun): Promise<PipelineRun> {
+    const order = this.order(definition);
+    const steps = new Map(definition.steps.map(step => [step.id, step]));
+    const run: PipelineRun = { order, steps: {}, executed: [], success: true };
+
+    for (const id of order) {
+      const step = steps.get(id)!;
+      const stepRun = await this.runStep(step, run, previous?.steps[id]);
+      run.steps[id] = stepRun;
+      if (!stepRun.reused) run.executed.push(id);
+
+      if (stepRun.error || !stepRun.result?.success) {
+        run.success = false;
+        run.failedStep = id;
+        break;
+      }
+    }
+    return run;
+  }
+
+  // ==========================================================================
+  // Templates
+  // ==========================================================================
+
+  saveTemplate(definition: PipelineDefinition, options: { id?: string; description?: string } = {}): PipelineTemplate {
+    this.order(definition);
+    const existing = options.id ? this.templates.get(options.id) : undefined;
+    const now = new Date().toISOString();
+    const template: PipelineTemplate = {
+      id: existing?.id ?? generateId('pipeline'),
+      name: definition.name.trim(),
+      description: options.description ?? existing?.description,
+      steps: definition.steps,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    if (!template.name) {
+      throw new Error('A pipeline template needs a name');
+    }
+
+    this.templates.set(template.id, template);
+    this.saveToStorage();
+    return template;
+  }
+
+  getTemplate(id: string): PipelineTemplate {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new Error(`Unknown pipeline template: ${id}`);
+    }
+    return template;
+  }
+
+  listTemplates(): PipelineTemplate[] {
+    return Array.from(this.templates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  deleteTemplate(id: string): void {
+    this.getTemplate(id);
+    this.templates.delete(id);
+    this.saveToStorage();
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  private async runStep(step: PipelineStep, run: PipelineRun, previous?: PipelineStepRun): Promise<PipelineStepRun> {
+    const calculator = this.calculators.get(step.calculatorId)!;
+    const stepRun: PipelineStepRun = { stepId: step.id, calculatorId: step.calculatorId, inputs: { ...step.inputs }, reused: false };
+
+    for (const [input, binding] of Object.entries(step.bindings ?? {})) {
+      const value = this.output(run.steps[binding.step]?.result, binding.output);
+      if (value === undefined) {
+        return { ...stepRun, error: `${binding.step} has no output at ${binding.output}` };
+      }
+      stepRun.inputs[input] = value;
+    }
+
+    if (previous?.result?.success && previous.calculatorId === step.calculatorId &&
+        canonicalJson(previous.inputs) === canonicalJson(stepRun.inputs)) {
+      return { ...previous, reused: true };
+    }
+
+    const inputs = calculator.resolveInputs(stepRun.inputs);
+    const validation = calculator.validateInputs(inputs);
+    if (!validation.isValid) {
+      return {
+        ...stepRun,
+        error: validation.errors.map(error => `${error.field}: ${error.message}`).join('; ')
+      };
+    }
+    return { ...stepRun, result: await calculator.calculate(inputs) };
+  }
+
+  private output(result: BaseCalculationResult | undefined, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+      result?.data
+    );
+  }
+
+  /**
+   * Steps registered as modules whose dependencies are the steps they bind to
+   */
+  private resolver(definition: PipelineDefinition): ModuleDependencyResolver {
+    const resolver = new ModuleDependencyResolver();
+    for (const step of definition.steps) {
+      resolver.registerModule({
+        id: step.id,
+        name: step.id,
+        version: '1.0.0',
+        description: step.calculatorId,
+        category: 'advanced',
+        tags: ['pipeline'],
+        dependencies: Array.from(new Set(Object.values(step.bindings ?? {}).map(binding => binding.step))),
+        priority: step.priority
+      });
+    }
+    return resolver;
+  }
+
+  private validate(definition: PipelineDefinition): void {
+    if (definition.steps.length === 0) {
+      throw new Error('A pipeline needs at least one step');
+    }
+    const ids = new Set(definition.steps.map(step => step.id));
+    if (ids.size !== definition.steps.length) {
+      throw new Error('Pipeline step ids must be unique');
+    }
+
+    for (const step of definition.steps) {
+      if (!this.calculators.has(step.calculatorId)) {
+        throw new Error(`Unknown calculator for step ${step.id}: ${step.calculatorId}`);
+      }
+      for (const [input, binding] of Object.entries(step.bindings ?? {})) {
+        if (!ids.has(binding.step)) {
+          throw new Error(`Step ${step.id} binds ${input} to unknown step ${binding.step}`);
+        }
+        if (input in step.inputs) {
+          throw new Error(`Step ${step.id} sets ${input} both directly and from ${binding.step}`);
+        }
+      }
+    }
+  }
+
+  private loadFromStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      (JSON.parse(stored) as PipelineTemplate[]).forEach(template => this.templates.set(template.id, template));
+    } catch (error) {
+      console.warn('Failed to load pipeline templates from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.templates.values())));
+    } catch (error) {
+      console.error('Failed to save pipeline templates to storage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const calculatorPipeline = new CalculatorPipeline();
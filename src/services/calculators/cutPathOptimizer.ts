@@ -0,0 +1,585 @@
+/**
+ * Cut Path Optimizer
+ * Sequences cut features on their real coordinates with the cut sequence optimizer and
+ * derives time, thermal, quality and efficiency figures from the resulting path
+ */
+
+import { CutContour, CutSequenceOptions, CutSequenceResult, cutSequenceOptimizer } from '../cutSequenceOptimizer';
+import { Point2D } from '../geometryCalculator';
+import { distance } from '../../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface CutFeature {
+  id: string;
+  type: 'external' | 'internal' | 'hole' | 'slot' | 'notch';
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  startPoint: Point2D; // mm, pierce point
+  endPoint: Point2D; // mm, equals the start point for closed contours
+  length: number; // mm
+  complexity: 'simple' | 'moderate' | 'complex';
+  thermalSensitive: boolean;
+  requiresPrecision: boolean;
+  partId: string;
+}
+
+export interface CutPathInputs {
+  sheetDimensions: {
+    length: number; // mm
+    width: number; // mm
+  };
+  cutFeatures: CutFeature[];
+  cuttingParameters: {
+    cuttingSpeed: number; // mm/min
+    rapidSpeed: number; // mm/min
+    pierceTime: number; // s
+    leadInLength: number; // mm
+    leadOutLength: number; // mm
+    kerfWidth: number; // mm
+  };
+  optimizationGoals: {
+    minimizeCuttingTime: number; // weight 0-100
+    minimizeThermalDistortion: number;
+    maximizeQuality: number;
+    minimizeWear: number;
+  };
+  constraints: {
+    maxContinuousCuttingTime: number; // min
+    coolingBreakDuration: number; // s
+    startPosition: Point2D;
+    endPosition: Point2D;
+    allowBridging: boolean;
+    bridgeLength: number; // mm
+  };
+  materialProperties: {
+    materialType: string;
+    thickness: number; // mm
+    thermalConductivity: number; // W/m·K
+    heatCapacity: number; // J/kg·K
+    thermalExpansion: number; // 1/K
+  };
+  qualityRequirements: {
+    dimensionalTolerance: number; // mm
+    surfaceFinish: 'rough' | 'standard' | 'smooth' | 'mirror';
+    edgeQuality: 'production' | 'standard' | 'precision';
+  };
+}
+
+export interface CutPathStep {
+  sequenceNumber: number;
+  featureId: string;
+  featureType: string;
+  partId: string;
+  position: Point2D; // pierce point
+  startTime: number; // min
+  travelDistance: number; // mm of rapid travel to this feature
+  cuttingTime: number; // min
+  travelTime: number; // min
+  pierceTime: number; // min
+  totalTime: number; // min
+  thermalLoad: number; // 1-10
+  qualityRisk: RiskLevel;
+}
+
+export interface CutPathResults {
+  optimizedPath: CutPathStep[];
+  pathSummary: {
+    totalCuttingTime: number;
+    totalTravelTime: number;
+    totalPierceTime: number;
+    totalProcessTime: number;
+    totalTravelDistance: number;
+    numberOfPierces: number;
+    coolingBreaks: number;
+  };
+  sequenceComparison: {
+    before: { rapidDistance: number; rapidTime: number; totalTime: number }; // features as listed
+    after: { rapidDistance: number; rapidTime: number; totalTime: number };
+    distanceSaved: number; // mm
+    timeSaved: number; // min
+    improvementPercent: number; // of rapid distance
+    precedenceRules: number;
+  };
+  thermalAnalysis: {
+    peakThermalLoad: number;
+    thermalDistortionRisk: RiskLevel;
+    hotSpots: Array<{ x: number; y: number; risk: number }>;
+    coolingStrategy: string[];
+    thermalManagement: string[];
+  };
+  qualityPrediction: {
+    overallQualityScore: number;
+    dimensionalAccuracy: number;
+    surfaceFinishQuality: number;
+    edgeConsistency: number;
+    riskAreas: Array<{ featureId: string; risk: string; mitigation: string }>;
+  };
+  efficiencyMetrics: {
+    cuttingEfficiency: number;
+    pathEfficiency: number;
+    materialUtilization: number;
+    energyEfficiency: number;
+    productivityIndex: number;
+  };
+  alternativeStrategies: Array<{
+    strategyName: string;
+    totalTime: number;
+    qualityScore: number;
+    thermalRisk: RiskLevel;
+    description: string;
+    tradeoffs: string[];
+  }>;
+  optimizationRecommendations: {
+    pathImprovements: string[];
+    parameterAdjustments: string[];
+    sequenceOptimizations: string[];
+    qualityEnhancements: string[];
+  };
+  riskMitigation: {
+    thermalRisks: Array<{ risk: string; mitigation: string; priority: RiskLevel }>;
+    qualityRisks: Array<{ risk: string; mitigation: string; priority: RiskLevel }>;
+    productionRisks: Array<{ risk: string; mitigation: string; priority: RiskLevel }>;
+  };
+}
+
+const FEATURE_THERMAL_WEIGHTS: Record<CutFeature['type'], number> = {
+  external: 1.0,
+  internal: 1.1,
+  hole: 0.8,
+  slot: 1.2,
+  notch: 0.9
+};
+
+const HEAT_MEMORY = 3; // previous cuts still warm when the next one starts
+const SEQUENCE_TIME_BUDGET_MS = 500; // per sequencing run
+
+// ============================================================================
+// Cut Path Optimizer
+// ============================================================================
+
+export class CutPathOptimizer {
+  calculate(inputs: CutPathInputs): CutPathResults {
+    this.validateInputs(inputs);
+
+    const contours = this.buildContours(inputs);
+    const options = this.getSequenceOptions(inputs);
+    const sequence = cutSequenceOptimizer.optimize(contours, options);
+    const optimizedPath = this.buildPath(inputs, sequence.steps.map(step => step.index), options);
+    const listedPath = this.buildPath(inputs, inputs.cutFeatures.map((_, index) => index), options);
+
+    const pathSummary = this.calculatePathSummary(inputs, optimizedPath, sequence.rapidDistance);
+    const listedTime = this.totalTime(listedPath);
+
+    return {
+      optimizedPath,
+      pathSummary,
+      sequenceComparison: {
+        before: {
+          rapidDistance: round(sequence.baseline.rapidDistance, 1),
+          rapidTime: round(sequence.baseline.rapidTime, 2),
+          totalTime: round(listedTime, 2)
+        },
+        after: {
+          rapidDistance: round(sequence.rapidDistance, 1),
+          rapidTime: round(sequence.rapidTime, 2),
+          totalTime: pathSummary.totalProcessTime
+        },
+        distanceSaved: round(sequence.improvement.distance, 1),
+        timeSaved: round(listedTime - this.totalTime(optimizedPath), 2),
+        improvementPercent: round(sequence.improvement.percent, 1),
+        precedenceRules: sequence.precedenceRules
+      },
+      thermalAnalysis: this.calculateThermalAnalysis(inputs, optimizedPath),
+      qualityPrediction: this.calculateQualityPrediction(inputs, optimizedPath),
+      efficiencyMetrics: this.calculateEfficiencyMetrics(inputs, pathSummary),
+      alternativeStrategies: this.generateAlternativeStrategies(inputs, contours, options, optimizedPath, listedPath),
+      optimizationRecommendations: this.getRecommendations(sequence),
+      riskMitigation: {
+        thermalRisks: [
+          { risk: 'Excessive heat buildup in dense cutting areas', mitigation: 'Implement cooling breaks and sequence optimization', priority: 'high' },
+          { risk: 'Thermal distortion in thin materials', mitigation: 'Use lower power settings and faster speeds', priority: 'medium' },
+          { risk: 'Heat affected zone expansion', mitigation: 'Monitor thermal load and adjust parameters', priority: 'medium' }
+        ],
+        qualityRisks: [
+          { risk: 'Dimensional accuracy degradation', mitigation: 'Implement thermal compensation algorithms', priority: 'high' },
+          { risk: 'Surface finish inconsistency', mitigation: 'Maintain consistent cutting parameters', priority: 'medium' },
+          { risk: 'Edge quality variation', mitigation: 'Optimize gas flow and cutting speed', priority: 'medium' }
+        ],
+        productionRisks: [
+          { risk: 'Extended processing time', mitigation: 'Balance quality requirements with speed', priority: 'low' },
+          { risk: 'Machine wear from excessive travel', mitigation: 'Optimize path efficiency and maintenance schedule', priority: 'low' },
+          { risk: 'Material waste from poor nesting', mitigation: 'Implement advanced nesting algorithms', priority: 'medium' }
+        ]
+      }
+    };
+  }
+
+  private validateInputs(inputs: CutPathInputs): void {
+    if (inputs.sheetDimensions.length <= 0 || inputs.sheetDimensions.width <= 0) {
+      throw new Error('Sheet dimensions must be greater than 0');
+    }
+    if (inputs.cutFeatures.length === 0) {
+      throw new Error('At least one cut feature must be defined');
+    }
+    if (inputs.cuttingParameters.cuttingSpeed <= 0) {
+      throw new Error('Cutting speed must be greater than 0');
+    }
+    if (inputs.cuttingParameters.rapidSpeed <= 0) {
+      throw new Error('Rapid speed must be greater than 0');
+    }
+  }
+
+  // ============================================================================
+  // Sequencing
+  // ============================================================================
+
+  /**
+   * External features release the part; everything else is cut while the part is held.
+   * Part size is estimated from the external perimeter as a square.
+   */
+  private buildContours(inputs: CutPathInputs): CutContour[] {
+    const partPerimeters = new Map<string, number>();
+    inputs.cutFeatures
+      .filter(feature => feature.type === 'external')
+      .forEach(feature => partPerimeters.set(feature.partId, (partPerimeters.get(feature.partId) ?? 0) + feature.length));
+
+    return inputs.cutFeatures.map(feature => {
+      const kind = feature.type === 'external' ? 'outer' : 'inner';
+      const perimeter = partPerimeters.get(feature.partId) ?? 0;
+      return {
+        id: feature.id,
+        partId: feature.partId,
+        kind,
+        start: feature.startPoint,
+        end: feature.endPoint,
+        length: feature.length,
+        centroid: {
+          x: (feature.startPoint.x + feature.endPoint.x) / 2,
+          y: (feature.startPoint.y + feature.endPoint.y) / 2
+        },
+        area: kind === 'outer' ? (perimeter / 4) ** 2 : 0
+      };
+    });
+  }
+
+  /**
+   * Heat spreads over roughly ten thicknesses; the thermal goal weight scales the penalty
+   */
+  private getSequenceOptions(inputs: CutPathInputs): Partial<CutSequenceOptions> {
+    const heatRadius = Math.max(20, 10 * inputs.materialProperties.thickness);
+    return {
+      startPosition: inputs.constraints.startPosition,
+      endPosition: inputs.constraints.endPosition,
+      rapidSpeed: inputs.cuttingParameters.rapidSpeed,
+      heatRadius,
+      heatPenalty: 2 * heatRadius * (inputs.optimizationGoals.minimizeThermalDistortion / 100),
+      timeBudgetMs: SEQUENCE_TIME_BUDGET_MS
+    };
+  }
+
+  private buildPath(
+    inputs: CutPathInputs,
+    order: number[],
+    options: Partial<CutSequenceOptions>
+  ): CutPathStep[] {
+    const { cuttingParameters } = inputs;
+    const heatRadius = options.heatRadius ?? 30;
+    let position = inputs.constraints.startPosition;
+    let currentTime = 0;
+
+    return order.map((index, sequenceIndex) => {
+      const feature = inputs.cutFeatures[index];
+      const travelDistance = distance(position, feature.startPoint);
+      const travelTime = travelDistance / cuttingParameters.rapidSpeed;
+      const cuttingTime = this.featureCutLength(feature, inputs) / cuttingParameters.cuttingSpeed;
+      const pierceTime = cuttingParameters.pierceTime / 60;
+      const totalTime = travelTime + cuttingTime + pierceTime;
+
+      const recent = order.slice(Math.max(0, sequenceIndex - HEAT_MEMORY), sequenceIndex).map(i => inputs.cutFeatures[i]);
+      const thermalLoad = this.calculateThermalLoad(feature, recent, inputs, heatRadius);
+
+      const step: CutPathStep = {
+        sequenceNumber: sequenceIndex + 1,
+        featureId: feature.id,
+        featureType: feature.type,
+        partId: feature.partId,
+        position: feature.startPoint,
+        startTime: round(currentTime, 2),
+        travelDistance: round(travelDistance, 1),
+        cuttingTime: round(cuttingTime, 2),
+        travelTime: round(travelTime, 2),
+        pierceTime: round(pierceTime, 2),
+        totalTime: round(totalTime, 2),
+        thermalLoad: round(thermalLoad, 1),
+        qualityRisk: this.assessQualityRisk(feature, thermalLoad)
+      };
+
+      currentTime += totalTime;
+      position = feature.endPoint;
+      return step;
+    });
+  }
+
+  /**
+   * Kerf-compensated contour plus the lead-in and lead-out cut with the beam on. A closed
+   * contour offset by half the kerf gains (outlines) or loses (holes and slots) π x kerf,
+   * exactly so for convex contours.
+   */
+  private featureCutLength(feature: CutFeature, inputs: CutPathInputs): number {
+    const { kerfWidth, leadInLength, leadOutLength } = inputs.cuttingParameters;
+    const closed = distance(feature.startPoint, feature.endPoint) < 1e-6;
+    const outward = feature.type === 'external' || feature.type === 'notch';
+    const compensation = closed ? (outward ? 1 : -1) * Math.PI * kerfWidth : 0;
+    return Math.max(0, feature.length + compensation) + leadInLength + leadOutLength;
+  }
+
+  /**
+   * Own heat input plus residual heat of the last few cuts, weighted by proximity and age
+   */
+  private calculateThermalLoad(
+    feature: CutFeature,
+    recent: CutFeature[],
+    inputs: CutPathInputs,
+    heatRadius: number
+  ): number {
+    const centre = midpoint(feature);
+    let thermalLoad = FEATURE_THERMAL_WEIGHTS[feature.type] * (feature.length / 100) * (inputs.materialProperties.thickness / 3);
+
+    recent.forEach((previous, k) => {
+      const age = recent.length - k;
+      const proximity = Math.max(0, 1 - distance(centre, midpoint(previous)) / heatRadius);
+      thermalLoad += (2 * proximity) / age;
+    });
+
+    thermalLoad *= 1 - inputs.materialProperties.thermalConductivity / 500;
+    return Math.min(10, Math.max(1, thermalLoad));
+  }
+
+  private assessQualityRisk(feature: CutFeature, thermalLoad: number): RiskLevel {
+    if (feature.requiresPrecision && thermalLoad > 7) return 'high';
+    if (feature.thermalSensitive && thermalLoad > 6) return 'high';
+    if (thermalLoad > 8) return 'high';
+    if (thermalLoad > 5) return 'medium';
+    return 'low';
+  }
+
+  private totalTime(path: CutPathStep[]): number {
+    return path.reduce((sum, step) => sum + step.totalTime, 0);
+  }
+
+  // ============================================================================
+  // Reporting
+  // ============================================================================
+
+  private calculatePathSummary(
+    inputs: CutPathInputs,
+    path: CutPathStep[],
+    rapidDistance: number
+  ): CutPathResults['pathSummary'] {
+    const totalCuttingTime = path.reduce((sum, step) => sum + step.cuttingTime, 0);
+    const totalTravelTime = rapidDistance / inputs.cuttingParameters.rapidSpeed;
+    const totalPierceTime = path.reduce((sum, step) => sum + step.pierceTime, 0);
+    const totalProcessTime = totalCuttingTime + totalTravelTime + totalPierceTime;
+
+    return {
+      totalCuttingTime: round(totalCuttingTime, 2),
+      totalTravelTime: round(totalTravelTime, 2),
+      totalPierceTime: round(totalPierceTime, 2),
+      totalProcessTime: round(totalProcessTime, 2),
+      totalTravelDistance: Math.round(rapidDistance),
+      numberOfPierces: path.length,
+      coolingBreaks: Math.floor(totalProcessTime / inputs.constraints.maxContinuousCuttingTime)
+    };
+  }
+
+  private calculateThermalAnalysis(
+    inputs: CutPathInputs,
+    path: CutPathStep[]
+  ): CutPathResults['thermalAnalysis'] {
+    const peakThermalLoad = Math.max(...path.map(step => step.thermalLoad));
+    const sensitive = new Set(inputs.cutFeatures.filter(feature => feature.thermalSensitive).map(feature => feature.id));
+
+    return {
+      peakThermalLoad: round(peakThermalLoad, 1),
+      thermalDistortionRisk: this.thermalRisk(peakThermalLoad),
+      hotSpots: path
+        .filter(step => step.thermalLoad > 6 || (sensitive.has(step.featureId) && step.thermalLoad > 5))
+        .map(step => ({ x: step.position.x, y: step.position.y, risk: step.thermalLoad })),
+      coolingStrategy: [
+        'Implement cooling breaks between high-thermal operations',
+        'Use optimized gas flow for heat dissipation',
+        'Consider water cooling for thick materials',
+        'Monitor material temperature during cutting'
+      ],
+      thermalManagement: [
+        'Monitor material temperature during cutting',
+        'Adjust cutting speed based on thermal load',
+        'Use thermal barriers for sensitive areas',
+        'Implement predictive thermal modeling'
+      ]
+    };
+  }
+
+  private thermalRisk(peakThermalLoad: number): RiskLevel {
+    if (peakThermalLoad > 7) return 'high';
+    if (peakThermalLoad > 5) return 'medium';
+    return 'low';
+  }
+
+  private calculateQualityPrediction(
+    inputs: CutPathInputs,
+    path: CutPathStep[]
+  ): CutPathResults['qualityPrediction'] {
+    const avgThermalLoad = path.reduce((sum, step) => sum + step.thermalLoad, 0) / path.length;
+    const highRiskSteps = path.filter(step => step.qualityRisk === 'high').length;
+
+    const thermalExpansion = inputs.materialProperties.thermalExpansion * avgThermalLoad * 100;
+    const dimensionalAccuracy = inputs.qualityRequirements.dimensionalTolerance + thermalExpansion;
+    const surfaceFinishQuality = Math.max(1, 5 - avgThermalLoad * 0.3);
+    const edgeConsistency = Math.max(1, 5 - highRiskSteps * 0.2);
+
+    return {
+      overallQualityScore: round(this.qualityScore(path), 1),
+      dimensionalAccuracy: round(dimensionalAccuracy, 3),
+      surfaceFinishQuality: round(surfaceFinishQuality, 1),
+      edgeConsistency: round(edgeConsistency, 1),
+      riskAreas: path
+        .filter(step => step.qualityRisk !== 'low')
+        .map(step => ({
+          featureId: step.featureId,
+          risk: step.qualityRisk,
+          mitigation: step.qualityRisk === 'high' ? 'Reduce speed and add cooling' : 'Monitor closely'
+        }))
+    };
+  }
+
+  private qualityScore(path: CutPathStep[]): number {
+    const avgThermalLoad = path.reduce((sum, step) => sum + step.thermalLoad, 0) / path.length;
+    const highRiskSteps = path.filter(step => step.qualityRisk === 'high').length;
+    return Math.max(1, Math.min(10, 8 - avgThermalLoad * 0.3 - highRiskSteps * 0.5));
+  }
+
+  private calculateEfficiencyMetrics(
+    inputs: CutPathInputs,
+    pathSummary: CutPathResults['pathSummary']
+  ): CutPathResults['efficiencyMetrics'] {
+    const cuttingEfficiency = (pathSummary.totalCuttingTime / pathSummary.totalProcessTime) * 100;
+    const totalCutLength = inputs.cutFeatures.reduce((sum, feature) => sum + this.featureCutLength(feature, inputs), 0);
+    // Share of head motion spent cutting
+    const pathEfficiency = (totalCutLength / (totalCutLength + pathSummary.totalTravelDistance)) * 100;
+
+    const sheetArea = inputs.sheetDimensions.length * inputs.sheetDimensions.width;
+    const cutArea = totalCutLength * inputs.cuttingParameters.kerfWidth;
+    const materialUtilization = Math.min(100, (cutArea / sheetArea) * 100 * 10); // Scaled for visibility
+
+    const totalParts = new Set(inputs.cutFeatures.map(feature => feature.partId)).size;
+    const productivityIndex = (totalParts / pathSummary.totalProcessTime) * 60; // Parts per hour
+
+    return {
+      cuttingEfficiency: round(cuttingEfficiency, 1),
+      pathEfficiency: round(pathEfficiency, 1),
+      materialUtilization: round(materialUtilization, 1),
+      energyEfficiency: round(cuttingEfficiency, 1),
+      productivityIndex: round(productivityIndex, 1)
+    };
+  }
+
+  /**
+   * Real alternative sequences: no heat penalty, a tripled one, and the listed order
+   */
+  private generateAlternativeStrategies(
+    inputs: CutPathInputs,
+    contours: CutContour[],
+    options: Partial<CutSequenceOptions>,
+    optimizedPath: CutPathStep[],
+    listedPath: CutPathStep[]
+  ): CutPathResults['alternativeStrategies'] {
+    const sequenced = (heatPenalty: number) => {
+      const result = cutSequenceOptimizer.optimize(contours, { ...options, heatPenalty });
+      return this.buildPath(inputs, result.steps.map(step => step.index), options);
+    };
+    const basePenalty = options.heatPenalty ?? 0;
+    const strategy = (path: CutPathStep[]) => ({
+      totalTime: round(this.totalTime(path), 2),
+      qualityScore: round(this.qualityScore(path), 1),
+      thermalRisk: this.thermalRisk(Math.max(...path.map(step => step.thermalLoad)))
+    });
+
+    return [
+      {
+        strategyName: 'Speed Optimized',
+        ...strategy(sequenced(0)),
+        description: 'Shortest rapid travel without heat spreading',
+        tradeoffs: ['Neighbouring cuts may follow each other', 'Higher local heat build-up']
+      },
+      {
+        strategyName: 'Thermal Managed',
+        ...strategy(sequenced(Math.max(3 * basePenalty, 2 * (options.heatRadius ?? 30)))),
+        description: 'Spread consecutive cuts across the sheet',
+        tradeoffs: ['Longer rapid travel', 'Lower distortion risk']
+      },
+      {
+        strategyName: 'Balanced',
+        ...strategy(optimizedPath),
+        description: 'Selected sequence: travel and heat weighted by the optimization goals',
+        tradeoffs: ['Compromise on all metrics', 'Good overall performance']
+      },
+      {
+        strategyName: 'As Listed',
+        ...strategy(listedPath),
+        description: 'Features cut in the order they were entered',
+        tradeoffs: ['No travel optimization', 'Precedence rules not enforced']
+      }
+    ];
+  }
+
+  private getRecommendations(sequence: CutSequenceResult): CutPathResults['optimizationRecommendations'] {
+    const pathImprovements = [
+      'Group nearby features to minimize travel time',
+      'Consider common line cutting for adjacent parts'
+    ];
+    if (sequence.improvement.distance > 0) {
+      pathImprovements.unshift(
+        `Optimized sequence saves ${Math.round(sequence.improvement.distance)} mm of rapid travel (${sequence.improvement.percent.toFixed(1)}%) against the listed order`
+      );
+    }
+
+    return {
+      pathImprovements,
+      parameterAdjustments: [
+        'Adjust cutting speed based on thermal load',
+        'Optimize pierce parameters for different feature types',
+        'Fine-tune lead-in/lead-out lengths for quality',
+        'Balance rapid speed with positioning accuracy'
+      ],
+      sequenceOptimizations: [
+        'Inner contours are cut before the outline that releases the part',
+        'Small parts are released before cuts that weaken the skeleton',
+        'Plan cooling breaks strategically',
+        'Consider part release sequence for stress relief'
+      ],
+      qualityEnhancements: [
+        'Implement adaptive speed control for corners',
+        'Use optimized pierce strategies for different materials',
+        'Monitor and adjust for thermal drift',
+        'Apply quality-based path modifications'
+      ]
+    };
+  }
+}
+
+function midpoint(feature: CutFeature): Point2D {
+  return { x: (feature.startPoint.x + feature.endPoint.x) / 2, y: (feature.startPoint.y + feature.endPoint.y) / 2 };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton instance
+export const cutPathOptimizer = new CutPathOptimizer();
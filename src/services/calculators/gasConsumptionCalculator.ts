@@ -0,0 +1,373 @@
+/**
+ * Gas Consumption Calculator
+ * Assist gas volume and cost from the time the gas flows: cutting (including leads),
+ * piercing, setup and idle time
+ */
+
+import { materialRegistry } from '../materialRegistry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AssistGas = 'oxygen' | 'nitrogen' | 'air' | 'argon';
+
+export interface GasConsumptionInputs {
+  materialType: string;
+  materialThickness: number; // mm
+  cuttingLength: number; // mm per part, contour plus leads
+  cuttingSpeed: number; // mm/min
+  piercingPoints: number; // per part, including micro-joint restarts
+  setupTime: number; // min per job
+  idleTime: number; // min per job with gas flowing
+  gasType: AssistGas;
+  gasFlow: number; // L/min
+  gasPressure: number; // bar
+  efficiency: number; // 0.5-1, share of delivered gas that reaches the cut
+  gasPrice: number; // $/m³
+  quantity: number; // parts
+}
+
+export interface GasConsumptionResults {
+  totalConsumption: number; // m³
+  consumptionBreakdown: {
+    cuttingConsumption: number;
+    piercingConsumption: number;
+    setupConsumption: number;
+    idleConsumption: number;
+  };
+  totalCost: number;
+  costBreakdown: {
+    cuttingCost: number;
+    piercingCost: number;
+    setupCost: number;
+    idleCost: number;
+  };
+  efficiency: {
+    utilizationRate: number; // %
+    wasteReduction: number; // %
+    optimizationPotential: number; // %
+  };
+  unitCosts: {
+    costPerMeter: number;
+    costPerPiece: number;
+    costPerHour: number;
+  };
+  gasProperties: {
+    gasType: string;
+    purity: number;
+    density: number;
+    thermalConductivity: number;
+    suitability: string;
+  };
+  alternativeGasOptions: Array<{
+    gasType: string;
+    estimatedCost: number;
+    qualityImpact: string;
+    consumptionChange: number;
+    recommendation: string;
+  }>;
+  optimizationRecommendations: {
+    flowOptimization: string[];
+    pressureOptimization: string[];
+    timingOptimization: string[];
+    costSavingTips: string[];
+  };
+  sensitivityAnalysis: {
+    flowRateImpact: Array<{ flowRate: number; consumption: number; cost: number; change: string }>;
+    pressureImpact: Array<{ pressure: number; consumption: number; cost: number; change: string }>;
+  };
+  benchmarkComparison: {
+    industryAverage: { consumptionPerMeter: number; costPerMeter: number; efficiency: number };
+    yourPerformance: { consumptionPerMeter: number; costPerMeter: number; efficiency: number };
+    performanceRating: string;
+  };
+}
+
+interface GasData {
+  label: string;
+  purity: number; // %
+  density: number; // kg/m³
+  thermalConductivity: number; // W/m·K
+  flowFactor: number; // flow needed relative to oxygen for the same cut
+  typicalPrice: number; // $/m³
+  qualityImpact: string;
+  recommendation: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GAS_DATA: Record<AssistGas, GasData> = {
+  oxygen: {
+    label: 'Oxygen',
+    purity: 99.5,
+    density: 1.429,
+    thermalConductivity: 0.0263,
+    flowFactor: 1,
+    typicalPrice: 0.15,
+    qualityImpact: 'Fast cutting on carbon steel, oxidized edge',
+    recommendation: 'Use for carbon steel where edge oxide is acceptable'
+  },
+  nitrogen: {
+    label: 'Nitrogen',
+    purity: 99.9,
+    density: 1.251,
+    thermalConductivity: 0.0259,
+    flowFactor: 1.15,
+    typicalPrice: 0.225,
+    qualityImpact: 'Superior edge quality, no oxidation',
+    recommendation: 'Consider for stainless steel or when edge quality is critical'
+  },
+  air: {
+    label: 'Compressed Air',
+    purity: 78.0,
+    density: 1.225,
+    thermalConductivity: 0.0257,
+    flowFactor: 0.95,
+    typicalPrice: 0.05,
+    qualityImpact: 'Moderate edge quality, some oxidation possible',
+    recommendation: 'Cost-effective option for non-critical applications'
+  },
+  argon: {
+    label: 'Argon',
+    purity: 99.99,
+    density: 1.784,
+    thermalConductivity: 0.0177,
+    flowFactor: 1.08,
+    typicalPrice: 0.375,
+    qualityImpact: 'Premium edge quality, ideal for exotic materials',
+    recommendation: 'Use only for titanium or other specialty materials'
+  }
+};
+
+// Gas flows while each pierce burns through: a fixed purge plus a time per mm of thickness
+const PIERCE_BASE_SECONDS = 0.5;
+const PIERCE_SECONDS_PER_MM = 0.2;
+
+const INDUSTRY_AVERAGE = { consumptionPerMeter: 0.0006, costPerMeter: 0.009, efficiency: 78 };
+
+// ============================================================================
+// Gas Consumption Calculator
+// ============================================================================
+
+export class GasConsumptionCalculator {
+  calculate(inputs: GasConsumptionInputs): GasConsumptionResults {
+    this.validate(inputs);
+
+    const gas = GAS_DATA[inputs.gasType];
+    const times = this.gasOnTimes(inputs);
+    const litresPerMinute = inputs.gasFlow / inputs.efficiency;
+    const toCubicMetres = (minutes: number) => (minutes * litresPerMinute) / 1000;
+
+    const consumptionBreakdown = {
+      cuttingConsumption: toCubicMetres(times.cutting),
+      piercingConsumption: toCubicMetres(times.piercing),
+      setupConsumption: toCubicMetres(times.setup),
+      idleConsumption: toCubicMetres(times.idle)
+    };
+    const totalConsumption = Object.values(consumptionBreakdown).reduce((sum, value) => sum + value, 0);
+    const totalCost = totalConsumption * inputs.gasPrice;
+    const totalMinutes = times.cutting + times.piercing + times.setup + times.idle;
+    const totalMetres = (inputs.cuttingLength * inputs.quantity) / 1000;
+
+    const productive = consumptionBreakdown.cuttingConsumption + consumptionBreakdown.piercingConsumption;
+    const utilizationRate = totalConsumption > 0 ? (productive / totalConsumption) * inputs.efficiency * 100 : 0;
+    const consumptionPerMeter = totalMetres > 0 ? totalConsumption / totalMetres : 0;
+    const costPerMeter = totalMetres > 0 ? totalCost / totalMetres : 0;
+
+    return {
+      totalConsumption: round(totalConsumption, 3),
+      consumptionBreakdown: {
+        cuttingConsumption: round(consumptionBreakdown.cuttingConsumption, 3),
+        piercingConsumption: round(consumptionBreakdown.piercingConsumption, 3),
+        setupConsumption: round(consumptionBreakdown.setupConsumption, 3),
+        idleConsumption: round(consumptionBreakdown.idleConsumption, 3)
+      },
+      totalCost: round(totalCost, 2),
+      costBreakdown: {
+        cuttingCost: round(consumptionBreakdown.cuttingConsumption * inputs.gasPrice, 2),
+        piercingCost: round(consumptionBreakdown.piercingConsumption * inputs.gasPrice, 2),
+        setupCost: round(consumptionBreakdown.setupConsumption * inputs.gasPrice, 2),
+        idleCost: round(consumptionBreakdown.idleConsumption * inputs.gasPrice, 2)
+      },
+      efficiency: {
+        utilizationRate: round(utilizationRate, 1),
+        wasteReduction: round((1 - inputs.efficiency) * 100, 1),
+        // Setup and idle gas can be shut off
+        optimizationPotential: round(totalConsumption > 0 ? ((totalConsumption - productive) / totalConsumption) * 100 : 0, 1)
+      },
+      unitCosts: {
+        costPerMeter: round(costPerMeter, 4),
+        costPerPiece: round(totalCost / inputs.quantity, 3),
+        costPerHour: round(totalMinutes > 0 ? (totalCost / totalMinutes) * 60 : 0, 2)
+      },
+      gasProperties: {
+        gasType: inputs.gasType,
+        purity: gas.purity,
+        density: gas.density,
+        thermalConductivity: gas.thermalConductivity,
+        suitability: this.getSuitability(inputs)
+      },
+      alternativeGasOptions: this.compareGases(inputs, totalConsumption),
+      optimizationRecommendations: this.getRecommendations(inputs, times),
+      sensitivityAnalysis: this.analyzeSensitivity(inputs, totalConsumption),
+      benchmarkComparison: {
+        industryAverage: INDUSTRY_AVERAGE,
+        yourPerformance: {
+          consumptionPerMeter: round(consumptionPerMeter, 5),
+          costPerMeter: round(costPerMeter, 4),
+          efficiency: round(utilizationRate, 1)
+        },
+        performanceRating: this.getRating(consumptionPerMeter)
+      }
+    };
+  }
+
+  private validate(inputs: GasConsumptionInputs): void {
+    if (inputs.materialThickness <= 0) {
+      throw new Error('Material thickness must be greater than 0');
+    }
+    if (inputs.cuttingLength <= 0) {
+      throw new Error('Cutting length must be greater than 0');
+    }
+    if (inputs.cuttingSpeed <= 0) {
+      throw new Error('Cutting speed must be greater than 0');
+    }
+    if (inputs.gasFlow <= 0) {
+      throw new Error('Gas flow rate must be greater than 0');
+    }
+    if (inputs.gasPressure <= 0) {
+      throw new Error('Gas pressure must be greater than 0');
+    }
+    if (inputs.gasPrice <= 0) {
+      throw new Error('Gas price must be greater than 0');
+    }
+    if (inputs.efficiency < 0.5 || inputs.efficiency > 1.0) {
+      throw new Error('Gas efficiency must be between 50% and 100%');
+    }
+    if (inputs.quantity < 1) {
+      throw new Error('Quantity must be at least 1');
+    }
+  }
+
+  /**
+   * Minutes of gas flow per phase for the whole job
+   */
+  private gasOnTimes(inputs: GasConsumptionInputs) {
+    const pierceSeconds = PIERCE_BASE_SECONDS + PIERCE_SECONDS_PER_MM * inputs.materialThickness;
+    return {
+      cutting: (inputs.cuttingLength / inputs.cuttingSpeed) * inputs.quantity,
+      piercing: (inputs.piercingPoints * pierceSeconds * inputs.quantity) / 60,
+      setup: inputs.setupTime,
+      idle: inputs.idleTime
+    };
+  }
+
+  private getSuitability(inputs: GasConsumptionInputs): string {
+    const { materialType } = inputs;
+    if (inputs.gasType === 'oxygen' && materialRegistry.isFamily(materialType, 'steel')) return 'Excellent';
+    if (inputs.gasType === 'nitrogen' && materialRegistry.isFamily(materialType, 'stainless_steel', 'aluminum')) return 'Excellent';
+    if (inputs.gasType === 'argon' && materialRegistry.isFamily(materialType, 'titanium')) return 'Excellent';
+    if (inputs.gasType === 'air') return 'Good';
+    return 'Fair';
+  }
+
+  /**
+   * Same job on the other gases: flow scales with the gas, price with its typical price ratio
+   */
+  private compareGases(inputs: GasConsumptionInputs, consumption: number): GasConsumptionResults['alternativeGasOptions'] {
+    const current = GAS_DATA[inputs.gasType];
+    return (Object.keys(GAS_DATA) as AssistGas[])
+      .filter(type => type !== inputs.gasType)
+      .map(type => {
+        const gas = GAS_DATA[type];
+        const ratio = gas.flowFactor / current.flowFactor;
+        const price = inputs.gasPrice * (gas.typicalPrice / current.typicalPrice);
+        return {
+          gasType: gas.label,
+          estimatedCost: round(consumption * ratio * price, 2),
+          qualityImpact: gas.qualityImpact,
+          consumptionChange: Math.round((ratio - 1) * 100),
+          recommendation: gas.recommendation
+        };
+      });
+  }
+
+  private getRecommendations(
+    inputs: GasConsumptionInputs,
+    times: ReturnType<GasConsumptionCalculator['gasOnTimes']>
+  ): GasConsumptionResults['optimizationRecommendations'] {
+    const totalMinutes = times.cutting + times.piercing + times.setup + times.idle;
+    const timingOptimization: string[] = [];
+    if (totalMinutes > 0 && (times.setup + times.idle) / totalMinutes > 0.2) {
+      timingOptimization.push('Setup and idle time use over 20% of the gas - shut the gas off between jobs');
+    }
+    if (totalMinutes > 0 && times.piercing / totalMinutes > 0.15) {
+      timingOptimization.push('Piercing uses a large share of the gas - reduce pierces with common-line cutting or fewer micro-joints');
+    }
+    timingOptimization.push('Optimize piercing sequence to minimize gas waste');
+
+    return {
+      flowOptimization: [
+        `Check the ${inputs.gasFlow} L/min flow against the nozzle chart for ${inputs.materialThickness} mm material`,
+        'Implement flow control system for automatic adjustment during different cutting phases',
+        'Consider variable flow rates based on material thickness'
+      ],
+      pressureOptimization: [
+        'Use pressure sensors to maintain consistent pressure throughout cutting',
+        'Adjust pressure based on nozzle diameter and cutting speed'
+      ],
+      timingOptimization,
+      costSavingTips: [
+        'Negotiate bulk gas pricing with suppliers',
+        'Consider on-site gas generation for high-volume operations',
+        'Regular maintenance of gas delivery systems to prevent leaks'
+      ]
+    };
+  }
+
+  /**
+   * Consumption is linear in flow; at a fixed nozzle it follows absolute pressure
+   */
+  private analyzeSensitivity(inputs: GasConsumptionInputs, consumption: number): GasConsumptionResults['sensitivityAnalysis'] {
+    const percent = (factor: number) => (factor === 1 ? 'Base' : `${factor > 1 ? '+' : ''}${Math.round((factor - 1) * 100)}%`);
+
+    const flowRateImpact = [0.8, 1, 1.2, 1.4].map(factor => ({
+      flowRate: round(inputs.gasFlow * factor, 1),
+      consumption: round(consumption * factor, 3),
+      cost: round(consumption * factor * inputs.gasPrice, 2),
+      change: percent(factor)
+    }));
+
+    const pressureImpact = [0.8, 1, 1.2, 1.4].map(factor => {
+      const pressure = inputs.gasPressure * factor;
+      const ratio = (pressure + 1) / (inputs.gasPressure + 1);
+      return {
+        pressure: round(pressure, 2),
+        consumption: round(consumption * ratio, 3),
+        cost: round(consumption * ratio * inputs.gasPrice, 2),
+        change: factor === 1 ? 'Base' : percent(ratio)
+      };
+    });
+
+    return { flowRateImpact, pressureImpact };
+  }
+
+  private getRating(consumptionPerMeter: number): string {
+    const ratio = consumptionPerMeter / INDUSTRY_AVERAGE.consumptionPerMeter;
+    if (ratio <= 0.9) return 'Excellent';
+    if (ratio <= 1) return 'Good';
+    if (ratio <= 1.2) return 'Average';
+    return 'Poor';
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton instance
+export const gasConsumptionCalculator = new GasConsumptionCalculator();
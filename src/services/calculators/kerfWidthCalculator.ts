@@ -0,0 +1,121 @@
+/**
+ * Kerf Width Calculator
+ * Predicts the kerf from beam diameter and the energy per unit of cut wall, and the
+ * compensation (half the kerf) that toolpaths are offset by
+ */
+
+import { gaussianBeamModel, BeamOptics } from '../gaussianBeamModel';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface KerfWidthInputs {
+  materialType: string;
+  thickness: number; // mm
+  materialConstant: number; // mm per √(J/mm²), melt width factor of the material
+  laserPower: number; // W
+  cuttingSpeed: number; // mm/min
+  beamDiameter: number; // mm, focused spot
+  optics?: BeamOptics; // replaces beamDiameter with the caustic's mean diameter through the sheet
+  pulseFrequency?: number; // Hz, 0 for continuous wave
+  gasType: string;
+  gasPressure: number; // bar
+  focusPosition: number; // mm relative to the surface
+}
+
+export interface KerfSensitivityRow {
+  variation: string;
+  kerfWidth: number; // mm
+  change: string;
+}
+
+export interface KerfWidthPrediction {
+  predictedKerfWidth: number; // mm
+  spotDiameter: number; // mm, beam diameter the kerf was predicted from
+  kerfWidthRange: { min: number; max: number }; // mm, expected process scatter
+  compensationValue: number; // mm, toolpath offset per side
+  sensitivityAnalysis: {
+    power: KerfSensitivityRow[];
+    speed: KerfSensitivityRow[];
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const KERF_SCATTER = 0.15; // ± share of the predicted kerf seen in production
+const SPOT_SHARE = 0.8; // share of the spot diameter that melts through on its own
+const VARIATIONS = [-0.1, -0.05, 0.05, 0.1];
+
+// ============================================================================
+// Kerf Width Calculator
+// ============================================================================
+
+export class KerfWidthCalculator {
+  predict(inputs: KerfWidthInputs): KerfWidthPrediction {
+    this.validateInputs(inputs);
+
+    // Focus below the surface (negative) puts the top face that far in front of the waist
+    const spotDiameter = inputs.optics
+      ? gaussianBeamModel.meanDiameter(inputs.optics, inputs.focusPosition, inputs.focusPosition + inputs.thickness)
+      : inputs.beamDiameter;
+    const spotInputs = { ...inputs, beamDiameter: spotDiameter };
+
+    const kerfWidth = this.kerfWidth(spotInputs);
+    const row = (variation: number, kerf: number): KerfSensitivityRow => ({
+      variation: `${variation > 0 ? '+' : ''}${Math.round(variation * 100)}%`,
+      kerfWidth: round(kerf, 3),
+      change: `${kerf >= kerfWidth ? '+' : ''}${(((kerf - kerfWidth) / kerfWidth) * 100).toFixed(1)}%`
+    });
+
+    return {
+      predictedKerfWidth: round(kerfWidth, 3),
+      spotDiameter: round(spotDiameter, 3),
+      kerfWidthRange: {
+        min: round(kerfWidth * (1 - KERF_SCATTER), 3),
+        max: round(kerfWidth * (1 + KERF_SCATTER), 3)
+      },
+      compensationValue: round(kerfWidth / 2, 3),
+      sensitivityAnalysis: {
+        power: VARIATIONS.map(v => row(v, this.kerfWidth({ ...spotInputs, laserPower: inputs.laserPower * (1 + v) }))),
+        speed: VARIATIONS.map(v => row(v, this.kerfWidth({ ...spotInputs, cuttingSpeed: inputs.cuttingSpeed * (1 + v) })))
+      }
+    };
+  }
+
+  /**
+   * Kerf (mm): never narrower than the spot, widened by the energy per unit of wall area
+   */
+  kerfWidth(inputs: Pick<KerfWidthInputs, 'materialConstant' | 'laserPower' | 'cuttingSpeed' | 'thickness' | 'beamDiameter'>): number {
+    const energy = inputs.laserPower / (inputs.cuttingSpeed * inputs.thickness);
+    return Math.max(inputs.beamDiameter, inputs.materialConstant * Math.sqrt(energy) + inputs.beamDiameter * SPOT_SHARE);
+  }
+
+  private validateInputs(inputs: KerfWidthInputs): void {
+    if (inputs.thickness <= 0) {
+      throw new Error('Material thickness must be greater than 0');
+    }
+    if (inputs.laserPower <= 0) {
+      throw new Error('Laser power must be greater than 0');
+    }
+    if (inputs.cuttingSpeed <= 0) {
+      throw new Error('Cutting speed must be greater than 0');
+    }
+    if (!inputs.optics && inputs.beamDiameter <= 0) {
+      throw new Error('Beam diameter must be greater than 0');
+    }
+    if (inputs.gasPressure <= 0) {
+      throw new Error('Gas pressure must be greater than 0');
+    }
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton instance
+export const kerfWidthCalculator = new KerfWidthCalculator();
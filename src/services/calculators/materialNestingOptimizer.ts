@@ -0,0 +1,940 @@
+/**
+ * Material Nesting Optimizer
+ * Nests the parts of a job on the available sheet specifications with the true-shape
+ * nesting engine or the rectangular stock nester, and derives cost, waste, schedule and
+ * quality figures from the layout
+ */
+
+import { CuttingPath, GeometryShape, Point2D, geometryCalculator } from '../geometryCalculator';
+import { kerfCompensator } from '../kerfCompensator';
+import { NestingResult, nestingEngine } from '../nestingEngine';
+import { GuillotineCut, RectangularNestingResult, SheetRemnant, rectangularNester } from '../rectangularNester';
+import type { Remnant } from '../remnantInventory';
+import {
+  clipPolygonToBounds,
+  polygonArea,
+  polygonBounds,
+  rotatePolygon,
+  shapeToPolygons
+} from '../../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NestingPart {
+  id: string;
+  name: string;
+  length: number; // mm, along the sheet length when not rotated
+  width: number; // mm
+  thickness: number; // mm
+  quantity: number;
+  materialType: string;
+  priority: number;
+  grainDirection?: 'any' | 'length' | 'width'; // overrides nestingConstraints.grainDirection
+  shape?: GeometryShape; // true outline (e.g. imported drawing); defaults to a length x width rectangle
+  jobId?: string; // order the part belongs to
+}
+
+export interface NestingSheetSpec {
+  id: string;
+  name: string;
+  length: number; // mm
+  width: number; // mm
+  thickness: number; // mm
+  materialType: string;
+  cost: number; // per sheet
+  availability: number; // sheets on hand
+}
+
+export type NestingMode = 'true_shape' | 'guillotine' | 'skyline';
+
+export interface MaterialNestingInputs {
+  parts: NestingPart[];
+  sheetSpecs: NestingSheetSpec[];
+  nestingMode?: NestingMode; // default true_shape; rectangular modes pick the cheapest stock sizes
+  remnants?: Remnant[]; // offcuts from stock, filled before full sheets in true shape mode
+  nestingConstraints: {
+    minSpacing: number; // mm
+    edgeMargin: number; // mm
+    grainDirection: 'any' | 'length' | 'width';
+    allowMixedThickness: boolean;
+    allowMixedMaterial: boolean;
+  };
+  optimizationGoal: 'material_usage' | 'cost_minimization' | 'sheet_count' | 'balanced';
+  cuttingParameters: {
+    kerfWidth: number; // mm
+    kerfCompensation?: boolean; // true shape mode: nest and time the outlines offset by half the kerf
+    leadInLength: number; // mm
+    leadOutLength: number; // mm
+    pierceTime: number; // s
+    cuttingSpeed: number; // mm/min
+    machineRate?: number; // $/h
+  };
+  productionConstraints: {
+    maxSheetCount: number;
+    deliveryDeadline: number; // h
+    setupTime: number; // min per sheet
+  };
+}
+
+export interface NestingPlanSheet {
+  sheetNumber: number;
+  sheetSpec: NestingSheetSpec;
+  remnantId?: string; // stock remnant the sheet is cut from
+  sheetArea: number; // mm², the outline area for a remnant
+  sheetOutline?: Point2D[]; // remnant outline inside the length x width box
+  partsPlaced: Array<{
+    partId: string;
+    partName: string;
+    x: number;
+    y: number;
+    rotation: number;
+    quantity: number;
+  }>;
+  placements: Array<{
+    partId: string;
+    partName: string;
+    jobId?: string;
+    x: number; // mm, placed bounding box on the sheet
+    y: number;
+    width: number;
+    height: number;
+    rotation: number;
+    outline: Point2D[]; // nominal part outline as placed on the sheet
+    holes: Point2D[][];
+  }>;
+  utilization: number; // %
+  wasteArea: number; // mm²
+  usedLength: number; // mm along the sheet length
+  remnants: SheetRemnant[]; // reusable offcuts
+  cuts: GuillotineCut[]; // guillotine cut order (rectangular modes)
+  cuttingTime: number; // min
+  materialCost: number;
+}
+
+export interface MaterialNestingResults {
+  nestingPlan: NestingPlanSheet[];
+  unplacedParts: Array<{ partId: string; partName: string; quantity: number; reason: string }>;
+  optimizationSummary: {
+    totalSheets: number;
+    totalMaterialCost: number;
+    totalCuttingTime: number;
+    overallUtilization: number;
+    totalWasteArea: number;
+    wasteValue: number;
+  };
+  materialEfficiency: {
+    utilizationByMaterial: Array<{ material: string; utilization: number; sheets: number }>;
+    wasteAnalysis: Array<{ sheetNumber: number; wasteArea: number; wasteValue: number; reuseability: string }>;
+    improvementOpportunities: string[];
+  };
+  costAnalysis: {
+    materialCosts: number;
+    cuttingCosts: number;
+    setupCosts: number;
+    totalCosts: number;
+    costPerPart: number;
+    savingsVsWorstCase: number;
+  };
+  productionSchedule: Array<{
+    sheetNumber: number;
+    setupTime: number;
+    cuttingTime: number;
+    totalTime: number;
+    startTime: number;
+    completionTime: number;
+  }>;
+  qualityConsiderations: {
+    grainDirectionCompliance: number;
+    spacingAdequacy: number;
+    thermalDistortionRisk: 'low' | 'medium' | 'high';
+    recommendations: string[];
+  };
+  alternativeLayouts: Array<{
+    layoutName: string;
+    sheets: number;
+    utilization: number;
+    cost: number;
+    time: number;
+    description: string;
+  }>;
+}
+
+interface PartCopy {
+  part: NestingPart;
+  shape: GeometryShape; // kerf-compensated when compensation is on
+  nominalShape: GeometryShape; // as drawn, for the layout
+  rotationLocked: boolean;
+  nominalArea?: number; // mm², net of holes, when the shape is compensated
+}
+
+type RectangularMode = Exclude<NestingMode, 'true_shape'>;
+
+interface NestingOutcome {
+  nestingPlan: NestingPlanSheet[];
+  unplacedParts: MaterialNestingResults['unplacedParts'];
+  improvementOpportunities: string[];
+  worstCaseCost: number;
+  chosenCost: number;
+  alternativeLayouts: MaterialNestingResults['alternativeLayouts'];
+  kerfWarnings: string[];
+}
+
+interface GroupLayout {
+  sheetSpec: NestingSheetSpec;
+  copies: PartCopy[];
+  nesting: NestingResult;
+  materialCost: number;
+  cuttingTime: number; // min
+  remnant?: Remnant; // only the first sheet of a remnant layout is used
+}
+
+const DEFAULT_MACHINE_RATE = 75; // $/h
+const NESTING_TIME_BUDGET_MS = 1500; // per job, shared by all groups and sheet specs
+const MIN_REMNANT_SIZE = 100; // mm, shorter side of an offcut worth keeping
+
+const RECTANGULAR_MODE_NAMES: Record<RectangularMode, string> = {
+  guillotine: 'Guillotine packing',
+  skyline: 'Skyline packing'
+};
+
+// ============================================================================
+// Material Nesting Optimizer
+// ============================================================================
+
+export class MaterialNestingOptimizer {
+  private cuttingPaths = new WeakMap<GeometryShape, CuttingPath>();
+
+  calculate(inputs: MaterialNestingInputs): MaterialNestingResults {
+    const { nestingConstraints, cuttingParameters, productionConstraints } = inputs;
+    const machineRate = cuttingParameters.machineRate ?? DEFAULT_MACHINE_RATE;
+    const setupTimePerSheet = productionConstraints.setupTime;
+    const mode = inputs.nestingMode ?? 'true_shape';
+
+    const { nestingPlan, unplacedParts, improvementOpportunities, worstCaseCost, chosenCost, alternativeLayouts, kerfWarnings } =
+      mode === 'true_shape'
+        ? this.nestTrueShape(inputs, machineRate, setupTimePerSheet)
+        : this.nestRectangular(inputs, mode, machineRate, setupTimePerSheet);
+
+    const totalSheets = nestingPlan.length;
+    const totalMaterialCost = nestingPlan.reduce((sum, sheet) => sum + sheet.materialCost, 0);
+    const totalCuttingTime = nestingPlan.reduce((sum, sheet) => sum + sheet.cuttingTime, 0);
+    const totalSheetArea = nestingPlan.reduce((sum, sheet) => sum + sheet.sheetArea, 0);
+    const totalWasteArea = nestingPlan.reduce((sum, sheet) => sum + sheet.wasteArea, 0);
+    const overallUtilization = totalSheetArea > 0 ? ((totalSheetArea - totalWasteArea) / totalSheetArea) * 100 : 0;
+    const wasteValue = nestingPlan.reduce(
+      (sum, sheet) => sum + sheet.materialCost * (sheet.wasteArea / sheet.sheetArea),
+      0
+    );
+
+    const cuttingCosts = (totalCuttingTime / 60) * machineRate;
+    const setupCosts = ((totalSheets * setupTimePerSheet) / 60) * machineRate;
+    const totalCosts = totalMaterialCost + cuttingCosts + setupCosts;
+    const partsPlaced = nestingPlan.reduce((sum, sheet) => sum + sheet.placements.length, 0);
+
+    if (totalSheets > productionConstraints.maxSheetCount) {
+      improvementOpportunities.push(
+        `Layout needs ${totalSheets} sheets, above the limit of ${productionConstraints.maxSheetCount}`
+      );
+    }
+    const totalHours = (totalCuttingTime + totalSheets * setupTimePerSheet) / 60;
+    if (totalHours > productionConstraints.deliveryDeadline) {
+      improvementOpportunities.push(
+        `Estimated ${totalHours.toFixed(1)} h of machine time exceeds the ${productionConstraints.deliveryDeadline} h deadline`
+      );
+    }
+    nestingPlan.forEach(sheet => {
+      if (sheet.utilization < 60) {
+        improvementOpportunities.push(
+          `Sheet #${sheet.sheetNumber} is only ${sheet.utilization.toFixed(1)}% used; add filler parts or use a smaller sheet`
+        );
+      }
+    });
+    if (nestingConstraints.grainDirection !== 'any' || inputs.parts.some(part => (part.grainDirection ?? 'any') !== 'any')) {
+      improvementOpportunities.push('Allowing part rotation (no grain constraint) may reduce the sheet count');
+    }
+
+    let startTime = 0;
+    const productionSchedule = nestingPlan.map(sheet => {
+      const totalTime = setupTimePerSheet + sheet.cuttingTime;
+      const entry = {
+        sheetNumber: sheet.sheetNumber,
+        setupTime: setupTimePerSheet,
+        cuttingTime: sheet.cuttingTime,
+        totalTime,
+        startTime,
+        completionTime: startTime + totalTime
+      };
+      startTime += totalTime;
+      return entry;
+    });
+
+    return {
+      nestingPlan,
+      unplacedParts,
+      optimizationSummary: {
+        totalSheets,
+        totalMaterialCost,
+        totalCuttingTime,
+        overallUtilization,
+        totalWasteArea,
+        wasteValue
+      },
+      materialEfficiency: {
+        utilizationByMaterial: this.utilizationByMaterial(nestingPlan),
+        wasteAnalysis: nestingPlan.map(sheet => ({
+          sheetNumber: sheet.sheetNumber,
+          wasteArea: sheet.wasteArea,
+          wasteValue: sheet.materialCost * (sheet.wasteArea / sheet.sheetArea),
+          reuseability: this.getReuseability(sheet)
+        })),
+        improvementOpportunities
+      },
+      costAnalysis: {
+        materialCosts: totalMaterialCost,
+        cuttingCosts,
+        setupCosts,
+        totalCosts,
+        costPerPart: partsPlaced > 0 ? totalCosts / partsPlaced : 0,
+        savingsVsWorstCase: Math.max(0, worstCaseCost - chosenCost)
+      },
+      productionSchedule,
+      qualityConsiderations: this.getQualityConsiderations(inputs, kerfWarnings),
+      alternativeLayouts
+    };
+  }
+
+  // ============================================================================
+  // True-Shape Nesting
+  // ============================================================================
+
+  /**
+   * Fill stock remnants, then nest what is left of each material group on every
+   * compatible sheet specification and keep the best
+   */
+  private nestTrueShape(inputs: MaterialNestingInputs, machineRate: number, setupTime: number): NestingOutcome {
+    const kerfWarnings: string[] = [];
+    const groups = this.groupParts(inputs, kerfWarnings);
+    const budget = NESTING_TIME_BUDGET_MS / Math.max(1, groups.length);
+
+    const planned: GroupLayout[] = [];
+    const chosen: GroupLayout[] = [];
+    const alternatives: GroupLayout[][] = [];
+    const unplacedParts: MaterialNestingResults['unplacedParts'] = [];
+    const improvementOpportunities: string[] = [];
+    const usedRemnants = new Set<string>();
+
+    groups.forEach(group => {
+      const { layouts: remnantLayouts, remaining: copies } = this.fillRemnants(group, inputs, usedRemnants);
+      planned.push(...remnantLayouts);
+      if (copies.length === 0) return;
+
+      const specs = inputs.sheetSpecs.filter(spec => copies.every(copy => this.isCompatible(copy.part, spec, inputs)));
+      if (specs.length === 0) {
+        this.addUnplaced(unplacedParts, copies, 'No compatible sheet specification');
+        return;
+      }
+
+      const layouts = specs.map(spec => this.nestGroup(copies, spec, inputs, budget / specs.length));
+      const best = layouts.reduce((a, b) => (this.compareLayouts(b, a, inputs.optimizationGoal, machineRate) < 0 ? b : a));
+      planned.push(best);
+      chosen.push(best);
+      alternatives.push(layouts);
+
+      this.addUnplaced(
+        unplacedParts,
+        best.nesting.unplaced.map(item => best.copies[item.shapeIndex]),
+        'Part does not fit on the sheet in any allowed rotation'
+      );
+      if (best.nesting.sheetsRequired > best.sheetSpec.availability) {
+        improvementOpportunities.push(
+          `${best.sheetSpec.name}: ${best.nesting.sheetsRequired} sheets needed but only ${best.sheetSpec.availability} on hand`
+        );
+      }
+    });
+
+    // Sheets in group order, remnants ahead of full sheets
+    const nestingPlan: NestingPlanSheet[] = [];
+    planned.forEach(layout => {
+      const sheets = layout.remnant ? layout.nesting.sheets.slice(0, 1) : layout.nesting.sheets;
+      sheets.forEach(sheet => {
+        nestingPlan.push(this.buildPlanSheet(nestingPlan.length + 1, layout, sheet.sheetIndex, inputs));
+      });
+    });
+
+    return {
+      nestingPlan,
+      unplacedParts,
+      improvementOpportunities,
+      // Most expensive sheet specification per group is the worst case
+      worstCaseCost: alternatives.reduce(
+        (sum, layouts) => sum + Math.max(...layouts.map(layout => this.layoutCost(layout, machineRate, setupTime))),
+        0
+      ),
+      chosenCost: chosen.reduce((sum, layout) => sum + this.layoutCost(layout, machineRate, setupTime), 0),
+      alternativeLayouts: this.getAlternativeLayouts(alternatives, chosen, machineRate, setupTime),
+      kerfWarnings
+    };
+  }
+
+  // ============================================================================
+  // Nesting
+  // ============================================================================
+
+  /**
+   * One copy per part quantity, grouped by material and thickness unless mixing is allowed.
+   * With kerf compensation the copies carry the outline the beam follows.
+   */
+  private groupParts(inputs: MaterialNestingInputs, kerfWarnings: string[]): PartCopy[][] {
+    const { allowMixedMaterial, allowMixedThickness } = inputs.nestingConstraints;
+    const groups = new Map<string, PartCopy[]>();
+
+    [...inputs.parts]
+      .sort((a, b) => a.priority - b.priority)
+      .forEach(part => {
+        const key = `${allowMixedMaterial ? '*' : part.materialType}|${allowMixedThickness ? '*' : part.thickness}`;
+        const grainDirection = this.partGrain(part, inputs);
+        // Grain across the sheet: lay the part length along the sheet width
+        const shape: GeometryShape = part.shape ?? {
+          type: 'rectangle',
+          dimensions: grainDirection === 'width'
+            ? { width: part.width, height: part.length }
+            : { width: part.length, height: part.width },
+          name: part.name
+        };
+        const copy: PartCopy = { part, shape, nominalShape: shape, rotationLocked: grainDirection !== 'any' };
+        if (this.compensatesKerf(inputs)) {
+          const compensation = kerfCompensator.compensateShape(shape, inputs.cuttingParameters.kerfWidth);
+          const [outline, ...holes] = compensation.features;
+          copy.shape = compensation.compensated;
+          copy.nominalArea = outline.nominal.area - holes.reduce((sum, hole) => sum + hole.nominal.area, 0);
+          compensation.features.forEach(feature => {
+            if (feature.message) kerfWarnings.push(`${part.name} ${feature.id}: ${feature.message}`);
+          });
+        }
+        const copies = groups.get(key) ?? [];
+        for (let i = 0; i < part.quantity; i++) {
+          copies.push({ ...copy });
+        }
+        groups.set(key, copies);
+      });
+
+    return Array.from(groups.values()).filter(copies => copies.length > 0);
+  }
+
+  private compensatesKerf(inputs: MaterialNestingInputs): boolean {
+    return inputs.cuttingParameters.kerfCompensation === true && inputs.cuttingParameters.kerfWidth > 0;
+  }
+
+  private partGrain(part: NestingPart, inputs: MaterialNestingInputs): 'any' | 'length' | 'width' {
+    return part.grainDirection ?? inputs.nestingConstraints.grainDirection;
+  }
+
+  private isCompatible(part: NestingPart, sheet: NestingSheetSpec, inputs: MaterialNestingInputs): boolean {
+    const { allowMixedMaterial, allowMixedThickness } = inputs.nestingConstraints;
+    const materialOk = allowMixedMaterial || part.materialType === sheet.materialType;
+    const thicknessOk = allowMixedThickness ? part.thickness <= sheet.thickness : part.thickness === sheet.thickness;
+    return materialOk && thicknessOk;
+  }
+
+  /**
+   * Nest on stock remnants of the group's material, smallest first, one remnant at a
+   * time. Returns the layouts that use a remnant and the copies still to be nested.
+   */
+  private fillRemnants(
+    copies: PartCopy[],
+    inputs: MaterialNestingInputs,
+    usedRemnants: Set<string>
+  ): { layouts: GroupLayout[]; remaining: PartCopy[] } {
+    const layouts: GroupLayout[] = [];
+    let remaining = copies;
+    const candidates = (inputs.remnants ?? [])
+      .filter(remnant => !usedRemnants.has(remnant.id))
+      .sort((a, b) => a.area - b.area);
+
+    for (const remnant of candidates) {
+      const sheetSpec: NestingSheetSpec = {
+        id: remnant.id,
+        name: `Remnant ${remnant.length} × ${remnant.width} mm (${remnant.location})`,
+        length: remnant.length,
+        width: remnant.width,
+        thickness: remnant.thickness,
+        materialType: remnant.materialType,
+        cost: 0, // paid for with the sheet it was cut from
+        availability: 1
+      };
+      const fitting = remaining.filter(copy => this.isCompatible(copy.part, sheetSpec, inputs));
+      if (fitting.length === 0) continue;
+
+      // First-fit order only: the remnant is filled once and the rest moves on
+      const layout = this.nestGroup(fitting, sheetSpec, inputs, 0, remnant);
+      const placed = layout.nesting.sheets[0]?.placements ?? [];
+      if (placed.length === 0) continue;
+
+      const placedCopies = new Set(placed.map(placement => fitting[placement.shapeIndex]));
+      layouts.push({
+        ...layout,
+        cuttingTime: placed.reduce(
+          (sum, placement) => sum + this.partCuttingTime(fitting[placement.shapeIndex].shape, inputs.cuttingParameters),
+          0
+        )
+      });
+      usedRemnants.add(remnant.id);
+      remaining = remaining.filter(copy => !placedCopies.has(copy));
+      if (remaining.length === 0) break;
+    }
+
+    return { layouts, remaining };
+  }
+
+  private nestGroup(
+    copies: PartCopy[],
+    sheetSpec: NestingSheetSpec,
+    inputs: MaterialNestingInputs,
+    timeBudgetMs: number,
+    remnant?: Remnant
+  ): GroupLayout {
+    const { nestingConstraints, cuttingParameters } = inputs;
+    const nesting = nestingEngine.nest(
+      copies.map(copy => copy.shape),
+      sheetSpec.length,
+      sheetSpec.width,
+      {
+        partSpacing: nestingConstraints.minSpacing,
+        edgeSpacing: nestingConstraints.edgeMargin,
+        // Compensated outlines already carry half the kerf
+        kerfWidth: this.compensatesKerf(inputs) ? 0 : cuttingParameters.kerfWidth,
+        rotationStep: 90,
+        rotationLocks: copies.map(copy => copy.rotationLocked),
+        timeBudgetMs,
+        sheetOutline: remnant?.outline
+      }
+    );
+
+    const cuttingTime = nesting.placements.reduce(
+      (sum, placement) => sum + this.partCuttingTime(copies[placement.shapeIndex].shape, cuttingParameters),
+      0
+    );
+
+    return { sheetSpec, copies, nesting, materialCost: nesting.sheetsRequired * sheetSpec.cost, cuttingTime, remnant };
+  }
+
+  private compareLayouts(
+    a: GroupLayout,
+    b: GroupLayout,
+    goal: MaterialNestingInputs['optimizationGoal'],
+    machineRate: number
+  ): number {
+    const unplaced = a.nesting.unplaced.length - b.nesting.unplaced.length;
+    if (unplaced !== 0) return unplaced;
+
+    switch (goal) {
+      case 'material_usage':
+        return b.nesting.utilization - a.nesting.utilization;
+      case 'sheet_count':
+        return a.nesting.sheetsRequired - b.nesting.sheetsRequired || a.materialCost - b.materialCost;
+      case 'cost_minimization':
+        return a.materialCost - b.materialCost;
+      default:
+        return this.layoutCost(a, machineRate, 0) - this.layoutCost(b, machineRate, 0);
+    }
+  }
+
+  private layoutCost(layout: GroupLayout, machineRate: number, setupTime: number): number {
+    return layout.materialCost + ((layout.cuttingTime + layout.nesting.sheetsRequired * setupTime) / 60) * machineRate;
+  }
+
+  /**
+   * Contour length plus lead-in/out at the cutting speed, and one pierce per contour
+   */
+  private partCuttingTime(shape: GeometryShape, parameters: MaterialNestingInputs['cuttingParameters']): number {
+    let path = this.cuttingPaths.get(shape);
+    if (!path) {
+      path = geometryCalculator.calculateShape(shape).cuttingPath;
+      this.cuttingPaths.set(shape, path);
+    }
+    const length = path.totalLength + path.pierceCount * (parameters.leadInLength + parameters.leadOutLength);
+    return length / Math.max(1, parameters.cuttingSpeed) + (path.pierceCount * parameters.pierceTime) / 60;
+  }
+
+  // ============================================================================
+  // Rectangular Stock Nesting
+  // ============================================================================
+
+  /**
+   * Pack part rectangles over the sheet inventory (availability = sheets on hand); the
+   * other packing mode is reported as the alternative
+   */
+  private nestRectangular(
+    inputs: MaterialNestingInputs,
+    mode: RectangularMode,
+    machineRate: number,
+    setupTime: number
+  ): NestingOutcome {
+    const otherMode: RectangularMode = mode === 'guillotine' ? 'skyline' : 'guillotine';
+    const chosen = this.packStock(inputs, mode);
+    const other = this.packStock(inputs, otherMode);
+    const nestingPlan = this.buildRectangularPlan(chosen, inputs);
+    const otherPlan = this.buildRectangularPlan(other, inputs);
+
+    const chosenCost = this.planCost(nestingPlan, machineRate, setupTime);
+    const otherCost = this.planCost(otherPlan, machineRate, setupTime);
+    const unplacedCount = (result: RectangularNestingResult) =>
+      result.unplaced.reduce((sum, item) => sum + item.quantity, 0);
+    const comparable = unplacedCount(other) <= unplacedCount(chosen);
+
+    const improvementOpportunities: string[] = [];
+    const shortage = chosen.unplaced.filter(item => item.reason === 'Not enough sheets in stock');
+    if (shortage.length > 0) {
+      improvementOpportunities.push(
+        `${shortage.reduce((sum, item) => sum + item.quantity, 0)} parts left over: not enough sheets in stock`
+      );
+    }
+    if (comparable && otherCost < chosenCost) {
+      improvementOpportunities.push(`${RECTANGULAR_MODE_NAMES[otherMode]} would cost ${(chosenCost - otherCost).toFixed(2)} less`);
+    }
+
+    return {
+      nestingPlan,
+      unplacedParts: chosen.unplaced,
+      improvementOpportunities,
+      worstCaseCost: comparable ? Math.max(chosenCost, otherCost) : chosenCost,
+      chosenCost,
+      alternativeLayouts: [{
+        layoutName: RECTANGULAR_MODE_NAMES[otherMode],
+        sheets: otherPlan.length,
+        utilization: other.utilization,
+        cost: otherCost,
+        time: otherPlan.reduce((sum, sheet) => sum + sheet.cuttingTime + setupTime, 0),
+        description: otherMode === 'skyline'
+          ? 'Parts packed towards one end, leaving a single full-width remnant per sheet'
+          : 'Edge-to-edge guillotine cuts, keeping every large offcut as a rectangular remnant'
+      }],
+      kerfWarnings: []
+    };
+  }
+
+  private packStock(inputs: MaterialNestingInputs, mode: RectangularMode): RectangularNestingResult {
+    const { nestingConstraints, cuttingParameters } = inputs;
+    return rectangularNester.nest(
+      inputs.parts.map(part => ({
+        id: part.id,
+        name: part.name,
+        length: part.length,
+        width: part.width,
+        quantity: part.quantity,
+        materialType: part.materialType,
+        thickness: part.thickness,
+        grainDirection: this.partGrain(part, inputs)
+      })),
+      inputs.sheetSpecs.map(spec => ({
+        id: spec.id,
+        name: spec.name,
+        length: spec.length,
+        width: spec.width,
+        cost: spec.cost,
+        quantity: spec.availability,
+        materialType: spec.materialType,
+        thickness: spec.thickness
+      })),
+      {
+        mode,
+        partSpacing: nestingConstraints.minSpacing,
+        edgeSpacing: nestingConstraints.edgeMargin,
+        kerfWidth: cuttingParameters.kerfWidth,
+        allowMixedMaterial: nestingConstraints.allowMixedMaterial,
+        allowMixedThickness: nestingConstraints.allowMixedThickness,
+        minRemnantSize: MIN_REMNANT_SIZE
+      }
+    );
+  }
+
+  private buildRectangularPlan(result: RectangularNestingResult, inputs: MaterialNestingInputs): NestingPlanSheet[] {
+    const partsById = new Map(inputs.parts.map(part => [part.id, part]));
+    const specsById = new Map(inputs.sheetSpecs.map(spec => [spec.id, spec]));
+    const shapes = new Map<string, GeometryShape>();
+
+    // Cutting time follows the true outline when the part has one
+    const cuttingShape = (partId: string): GeometryShape => {
+      let shape = shapes.get(partId);
+      if (!shape) {
+        const part = partsById.get(partId);
+        shape = part?.shape ?? {
+          type: 'rectangle',
+          dimensions: { width: part?.length ?? 0, height: part?.width ?? 0 },
+          name: part?.name
+        };
+        shapes.set(partId, shape);
+      }
+      return shape;
+    };
+
+    return result.sheets.flatMap(sheet => {
+      const sheetSpec = specsById.get(sheet.stockId);
+      if (!sheetSpec) return [];
+
+      const placements = sheet.placements.map(placement => {
+        const rotation = placement.rotated ? 90 : 0;
+        const box = { x: placement.x, y: placement.y, width: placement.length, height: placement.width };
+        return {
+          partId: placement.partId,
+          partName: placement.partName,
+          jobId: partsById.get(placement.partId)?.jobId,
+          ...box,
+          rotation,
+          ...this.fitShape(partsById.get(placement.partId)?.shape, rotation, box)
+        };
+      });
+
+      return [{
+        sheetNumber: sheet.sheetNumber,
+        sheetSpec,
+        partsPlaced: this.groupPlacements(placements),
+        placements,
+        sheetArea: sheet.length * sheet.width,
+        utilization: sheet.utilization,
+        wasteArea: sheet.length * sheet.width - sheet.partArea,
+        usedLength: Math.max(0, ...placements.map(p => p.x + p.width)),
+        remnants: sheet.remnants,
+        cuts: sheet.cuts,
+        cuttingTime: sheet.placements.reduce(
+          (sum, placement) => sum + this.partCuttingTime(cuttingShape(placement.partId), inputs.cuttingParameters),
+          0
+        ),
+        materialCost: sheet.cost
+      }];
+    });
+  }
+
+  private planCost(plan: NestingPlanSheet[], machineRate: number, setupTime: number): number {
+    return plan.reduce(
+      (sum, sheet) => sum + sheet.materialCost + ((sheet.cuttingTime + setupTime) / 60) * machineRate,
+      0
+    );
+  }
+
+  // ============================================================================
+  // Reporting
+  // ============================================================================
+
+  private buildPlanSheet(
+    sheetNumber: number,
+    layout: GroupLayout,
+    sheetIndex: number,
+    inputs: MaterialNestingInputs
+  ): NestingPlanSheet {
+    const { cuttingParameters, nestingConstraints } = inputs;
+    const sheet = layout.nesting.sheets[sheetIndex];
+    const sheetArea = layout.remnant ? layout.remnant.area : layout.sheetSpec.length * layout.sheetSpec.width;
+
+    // Report the nominal part: a compensated outline reaches half the kerf further on every side
+    const placements = sheet.placements.map(placement => {
+      const { part, shape, nominalShape } = layout.copies[placement.shapeIndex];
+      const inset = shape.kerfOffset ?? 0;
+      return {
+        partId: part.id,
+        partName: part.name,
+        jobId: part.jobId,
+        x: placement.bounds.minX + inset,
+        y: placement.bounds.minY + inset,
+        width: placement.bounds.maxX - placement.bounds.minX - 2 * inset,
+        height: placement.bounds.maxY - placement.bounds.minY - 2 * inset,
+        rotation: placement.rotation,
+        ...this.placeShape(nominalShape, placement.rotation, placement.position)
+      };
+    });
+    const partArea = this.compensatesKerf(inputs)
+      ? sheet.placements.reduce((sum, placement) => sum + (layout.copies[placement.shapeIndex].nominalArea ?? 0), 0)
+      : sheet.partArea;
+    const usedLength = this.compensatesKerf(inputs) ? Math.max(0, ...placements.map(p => p.x + p.width)) : sheet.usedLength;
+
+    // Offcut across the full width beyond the last part, cut in the middle of the gap
+    const remnantStart = usedLength + (nestingConstraints.minSpacing + cuttingParameters.kerfWidth) / 2;
+
+    return {
+      sheetNumber,
+      sheetSpec: layout.sheetSpec,
+      remnantId: layout.remnant?.id,
+      sheetArea,
+      sheetOutline: layout.remnant?.outline,
+      partsPlaced: this.groupPlacements(placements),
+      placements,
+      utilization: Math.round((partArea / sheetArea) * 10000) / 100,
+      wasteArea: sheetArea - partArea,
+      usedLength,
+      remnants: this.getOffcuts(layout, remnantStart),
+      cuts: [],
+      cuttingTime: sheet.placements.reduce(
+        (sum, placement) => sum + this.partCuttingTime(layout.copies[placement.shapeIndex].shape, cuttingParameters),
+        0
+      ),
+      materialCost: layout.sheetSpec.cost
+    };
+  }
+
+  /**
+   * Offcut beyond x = start worth keeping; on a remnant, the part of its outline that is left
+   */
+  private getOffcuts(layout: GroupLayout, start: number): SheetRemnant[] {
+    const { length, width } = layout.sheetSpec;
+    if (!layout.remnant) {
+      const remnantLength = length - start;
+      return Math.min(remnantLength, width) >= MIN_REMNANT_SIZE
+        ? [{ x: start, y: 0, length: remnantLength, width, area: remnantLength * width }]
+        : [];
+    }
+
+    const outline = clipPolygonToBounds(layout.remnant.outline, { minX: start, minY: 0, maxX: length, maxY: width });
+    if (outline.length < 3) return [];
+    const bounds = polygonBounds(outline);
+    const offcut: SheetRemnant = {
+      x: bounds.minX,
+      y: bounds.minY,
+      length: bounds.maxX - bounds.minX,
+      width: bounds.maxY - bounds.minY,
+      area: polygonArea(outline)
+    };
+    if (Math.min(offcut.length, offcut.width) < MIN_REMNANT_SIZE) return [];
+    return [Math.abs(offcut.area - offcut.length * offcut.width) < 1e-6 ? offcut : { ...offcut, outline }];
+  }
+
+  /**
+   * Outline and holes of a shape rotated about its origin and moved to the placement
+   */
+  private placeShape(shape: GeometryShape, rotation: number, position: Point2D): { outline: Point2D[]; holes: Point2D[][] } {
+    const { outline, holes } = shapeToPolygons(shape);
+    const place = (points: Point2D[]) =>
+      rotatePolygon(points, rotation).map(p => ({ x: p.x + position.x, y: p.y + position.y }));
+    return { outline: place(outline), holes: holes.map(place) };
+  }
+
+  /**
+   * Rectangular modes place bounding boxes; draw the true outline in its box when the part has one
+   */
+  private fitShape(
+    shape: GeometryShape | undefined,
+    rotation: number,
+    box: { x: number; y: number; width: number; height: number }
+  ): { outline: Point2D[]; holes: Point2D[][] } {
+    const { x, y, width, height } = box;
+    const rectangle = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+    if (!shape) return { outline: rectangle, holes: [] };
+
+    const { outline } = shapeToPolygons(shape);
+    if (outline.length < 3) return { outline: rectangle, holes: [] };
+    const bounds = polygonBounds(rotatePolygon(outline, rotation));
+    return this.placeShape(shape, rotation, { x: x - bounds.minX, y: y - bounds.minY });
+  }
+
+  /**
+   * Group identical parts in the same rotation; position of the first copy
+   */
+  private groupPlacements(placements: NestingPlanSheet['placements']): NestingPlanSheet['partsPlaced'] {
+    const partsPlaced: NestingPlanSheet['partsPlaced'] = [];
+    placements.forEach(({ partId, partName, x, y, rotation }) => {
+      const existing = partsPlaced.find(p => p.partId === partId && p.rotation === rotation);
+      if (existing) {
+        existing.quantity++;
+      } else {
+        partsPlaced.push({ partId, partName, x, y, rotation, quantity: 1 });
+      }
+    });
+    return partsPlaced;
+  }
+
+  private addUnplaced(list: MaterialNestingResults['unplacedParts'], copies: PartCopy[], reason: string) {
+    copies.forEach(({ part }) => {
+      const existing = list.find(item => item.partId === part.id && item.reason === reason);
+      if (existing) {
+        existing.quantity++;
+      } else {
+        list.push({ partId: part.id, partName: part.name, quantity: 1, reason });
+      }
+    });
+  }
+
+  private utilizationByMaterial(plan: NestingPlanSheet[]): MaterialNestingResults['materialEfficiency']['utilizationByMaterial'] {
+    const byMaterial = new Map<string, { used: number; total: number; sheets: number }>();
+    plan.forEach(sheet => {
+      const area = sheet.sheetArea;
+      const entry = byMaterial.get(sheet.sheetSpec.materialType) ?? { used: 0, total: 0, sheets: 0 };
+      entry.used += area - sheet.wasteArea;
+      entry.total += area;
+      entry.sheets++;
+      byMaterial.set(sheet.sheetSpec.materialType, entry);
+    });
+
+    return Array.from(byMaterial.entries()).map(([material, entry]) => ({
+      material,
+      utilization: (entry.used / entry.total) * 100,
+      sheets: entry.sheets
+    }));
+  }
+
+  /**
+   * Remnant quality from the largest reusable offcut
+   */
+  private getReuseability(sheet: NestingPlanSheet): string {
+    const largest = sheet.remnants.reduce<SheetRemnant | null>((best, r) => (!best || r.area > best.area ? r : best), null);
+    if (!largest) return 'Low';
+    if (Math.min(largest.length, largest.width) >= 300 && largest.area >= 0.15 * sheet.sheetArea) return 'High';
+    return 'Medium';
+  }
+
+  private getQualityConsiderations(
+    inputs: MaterialNestingInputs,
+    kerfWarnings: string[]
+  ): MaterialNestingResults['qualityConsiderations'] {
+    const { minSpacing } = inputs.nestingConstraints;
+    const maxThickness = Math.max(...inputs.parts.map(part => part.thickness), 0);
+    const spacingRatio = maxThickness > 0 ? minSpacing / maxThickness : 1;
+    const spacingAdequacy = spacingRatio >= 1 ? 5 : spacingRatio >= 0.75 ? 4 : spacingRatio >= 0.5 ? 3 : spacingRatio >= 0.25 ? 2 : 1;
+    const thermalDistortionRisk = spacingRatio >= 1 ? 'low' : spacingRatio >= 0.5 ? 'medium' : 'high';
+
+    const recommendations: string[] = [];
+    if (spacingRatio < 1) {
+      recommendations.push(`Increase part spacing to at least the material thickness (${maxThickness} mm) to limit heat build-up`);
+    }
+    if (thermalDistortionRisk !== 'low') {
+      recommendations.push('Cut parts in a spread-out sequence so neighbouring contours can cool');
+    }
+    kerfWarnings.forEach(warning => recommendations.push(`Kerf compensation: ${warning}`));
+
+    return {
+      grainDirectionCompliance: 100,
+      spacingAdequacy,
+      thermalDistortionRisk,
+      recommendations
+    };
+  }
+
+  private getAlternativeLayouts(
+    alternatives: GroupLayout[][],
+    chosen: GroupLayout[],
+    machineRate: number,
+    setupTime: number
+  ): MaterialNestingResults['alternativeLayouts'] {
+    const layouts: MaterialNestingResults['alternativeLayouts'] = [];
+
+    alternatives.forEach((groupLayouts, groupIndex) => {
+      groupLayouts
+        .filter(layout => layout !== chosen[groupIndex])
+        .forEach(layout => {
+          layouts.push({
+            layoutName: layout.sheetSpec.name,
+            sheets: layout.nesting.sheetsRequired,
+            utilization: layout.nesting.utilization,
+            cost: this.layoutCost(layout, machineRate, setupTime),
+            time: layout.cuttingTime + layout.nesting.sheetsRequired * setupTime,
+            description: `${layout.sheetSpec.length} × ${layout.sheetSpec.width} mm sheets instead of ${chosen[groupIndex].sheetSpec.name}`
+          });
+        });
+    });
+
+    return layouts;
+  }
+}
+
+// Export singleton instance
+export const materialNestingOptimizer = new MaterialNestingOptimizer();
@@ -0,0 +1,431 @@
+/**
+ * Contour Processor
+ * Cut preparation on top of the geometry calculator: pierce point choice, lead-in/lead-out
+ * placement on the scrap side of every contour, and micro-joints that hold parts in the sheet
+ */
+
+import type { GeometryShape, Point2D } from './geometryCalculator';
+import {
+  DEFAULT_CHORD_TOLERANCE,
+  distance,
+  pointInPolygon,
+  polygonPerimeter,
+  segmentsIntersect,
+  shapeToPolygons,
+  signedPolygonArea
+} from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LeadType = 'line' | 'arc' | 'none';
+export type PiercePlacement = 'corner' | 'straight';
+export type ContourKind = 'outer' | 'inner';
+
+export interface ContourProcessingOptions {
+  leadInType: LeadType;
+  leadInLength: number; // mm, line length or arc radius
+  leadOutType: LeadType;
+  leadOutLength: number; // mm, line length or arc radius
+  piercePlacement: PiercePlacement; // preferred; contours without corners pierce on a straight
+  microJointSpacing: number; // mm along outer contours, 0 = no micro-joints
+  microJointWidth: number; // mm left uncut per joint
+  chordTolerance: number; // mm
+}
+
+export interface LeadPath {
+  type: LeadType;
+  points: Point2D[]; // in cutting direction; a single point when there is no lead
+  length: number; // mm
+  center?: Point2D; // arc leads: clockwise quarter arc about this centre
+}
+
+export interface MicroJoint {
+  position: Point2D; // joint centre on the contour
+  distance: number; // mm along the contour from the start point
+  width: number; // mm
+}
+
+export interface ProcessedContour {
+  kind: ContourKind;
+  points: Point2D[]; // closed, begins at the start point, material on the left
+  start: Point2D; // where the lead-in meets the contour
+  pierce: Point2D; // where the beam pierces
+  piercePlacement: PiercePlacement;
+  leadIn: LeadPath;
+  leadOut: LeadPath;
+  microJoints: MicroJoint[];
+  contourLength: number; // mm
+  cutLength: number; // mm, contour plus leads minus joints
+  pierceCount: number;
+  warnings: string[];
+}
+
+export interface ContourProcessingResult {
+  contours: ProcessedContour[];
+  contourLength: number; // mm
+  leadLength: number; // mm
+  microJointLength: number; // mm left uncut
+  extraCutLength: number; // mm, leads minus joints
+  cutLength: number; // mm
+  pierceCount: number;
+  microJointCount: number;
+  warnings: string[];
+}
+
+interface PierceSite {
+  index: number; // vertex the contour is rotated to start from
+  placement: PiercePlacement;
+  incoming: Point2D; // unit tangent arriving at the start point
+  outgoing: Point2D; // unit tangent leaving the start point
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: ContourProcessingOptions = {
+  leadInType: 'line',
+  leadInLength: 3,
+  leadOutType: 'line',
+  leadOutLength: 1,
+  piercePlacement: 'corner',
+  microJointSpacing: 0,
+  microJointWidth: 0.5,
+  chordTolerance: DEFAULT_CHORD_TOLERANCE
+};
+
+// Tangent changes above this angle count as a corner (matches the geometry calculator)
+const CORNER_ANGLE_THRESHOLD = (15 * Math.PI) / 180;
+
+// Leads that collide with the part are halved this many times before falling back
+const LEAD_SHRINK_STEPS = 3;
+
+// Sample points per lead when checking it against the part
+const LEAD_SAMPLES = 8;
+
+// ============================================================================
+// Contour Processor
+// ============================================================================
+
+export class ContourProcessor {
+  /**
+   * Process the outline and holes of a shape. Holes of primitive shapes carry no
+   * position, so their leads are placed in the hole's own coordinates.
+   */
+  processShape(shape: GeometryShape, options: Partial<ContourProcessingOptions> = {}): ContourProcessingResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const { outline } = shapeToPolygons(shape, opts.chordTolerance);
+    const holes = (shape.holes || [])
+      .map(hole => shapeToPolygons(hole, opts.chordTolerance).outline)
+      .filter(hole => hole.length >= 3);
+
+    const contours = [
+      ...holes.map(hole => this.processPolygon(hole, 'inner', opts)),
+      ...(outline.length >= 3 ? [this.processPolygon(outline, 'outer', opts)] : [])
+    ];
+    return this.summarize(contours, shape.name);
+  }
+
+  /**
+   * Process several shapes and total their extra cut length and pierces
+   */
+  processShapes(shapes: GeometryShape[], options: Partial<ContourProcessingOptions> = {}): ContourProcessingResult {
+    const results = shapes.map(shape => this.processShape(shape, options));
+    return {
+      contours: results.flatMap(result => result.contours),
+      contourLength: results.reduce((sum, result) => sum + result.contourLength, 0),
+      leadLength: results.reduce((sum, result) => sum + result.leadLength, 0),
+      microJointLength: results.reduce((sum, result) => sum + result.microJointLength, 0),
+      extraCutLength: results.reduce((sum, result) => sum + result.extraCutLength, 0),
+      cutLength: results.reduce((sum, result) => sum + result.cutLength, 0),
+      pierceCount: results.reduce((sum, result) => sum + result.pierceCount, 0),
+      microJointCount: results.reduce((sum, result) => sum + result.microJointCount, 0),
+      warnings: results.flatMap(result => result.warnings)
+    };
+  }
+
+  /**
+   * Place pierce point, leads and micro-joints on one closed polygon. Outer contours
+   * keep the material inside, inner contours (holes) keep it outside.
+   */
+  processPolygon(
+    polygon: Point2D[],
+    kind: ContourKind,
+    options: Partial<ContourProcessingOptions> = {}
+  ): ProcessedContour {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    if (polygon.length < 3) {
+      throw new Error('A contour needs at least three points');
+    }
+
+    // Outlines counter-clockwise, holes clockwise: the scrap is always on the right
+    const ccw = signedPolygonArea(polygon) > 0;
+    const oriented = ccw === (kind === 'outer') ? polygon : [...polygon].reverse();
+    const site = this.choosePierceSite(oriented, opts.piercePlacement, opts.leadInType === 'arc');
+    const points = this.startAt(oriented, site);
+    const start = points[0];
+    const warnings: string[] = [];
+
+    const leadIn = this.placeLead('in', points, site, kind, opts.leadInType, opts.leadInLength, warnings);
+    const leadOut = this.placeLead('out', points, site, kind, opts.leadOutType, opts.leadOutLength, warnings);
+    const contourLength = polygonPerimeter(points);
+    const microJoints = kind === 'outer' ? this.placeMicroJoints(points, contourLength, opts) : [];
+    const jointLength = microJoints.reduce((sum, joint) => sum + joint.width, 0);
+
+    return {
+      kind,
+      points,
+      start,
+      pierce: leadIn.points[0],
+      piercePlacement: site.placement,
+      leadIn,
+      leadOut,
+      microJoints,
+      contourLength,
+      cutLength: contourLength + leadIn.length + leadOut.length - jointLength,
+      // Cutting restarts on solid material after every joint
+      pierceCount: 1 + microJoints.length,
+      warnings
+    };
+  }
+
+  // ==========================================================================
+  // Pierce Points
+  // ==========================================================================
+
+  /**
+   * The corner with the widest scrap-side wedge, or the middle of the longest edge.
+   * An arc lead-in starts behind the corner, so it needs a corner turning away from the scrap.
+   */
+  private choosePierceSite(points: Point2D[], placement: PiercePlacement, arcLead: boolean): PierceSite {
+    const n = points.length;
+    const edge = (i: number) => unit(points[i], points[(i + 1) % n]);
+
+    if (placement === 'corner') {
+      let best: PierceSite | null = null;
+      let bestWedge = -Infinity;
+      for (let i = 0; i < n; i++) {
+        const incoming = edge((i - 1 + n) % n);
+        const outgoing = edge(i);
+        const turn = Math.atan2(cross(incoming, outgoing), dot(incoming, outgoing));
+        // Left turns open the scrap side wider than right turns
+        const wedge = Math.PI + turn;
+        const usable = arcLead ? turn > CORNER_ANGLE_THRESHOLD : Math.abs(turn) > CORNER_ANGLE_THRESHOLD;
+        if (usable && wedge > bestWedge + 1e-9) {
+          best = { index: i, placement: 'corner', incoming, outgoing };
+          bestWedge = wedge;
+        }
+      }
+      if (best) return best;
+    }
+
+    let longest = 0;
+    for (let i = 1; i < n; i++) {
+      if (distance(points[i], points[(i + 1) % n]) > distance(points[longest], points[(longest + 1) % n]) + 1e-9) {
+        longest = i;
+      }
+    }
+    const direction = edge(longest);
+    return { index: longest, placement: 'straight', incoming: direction, outgoing: direction };
+  }
+
+  /**
+   * Rotate the contour to begin at the pierce site, splitting the edge for a straight start
+   */
+  private startAt(points: Point2D[], site: PierceSite): Point2D[] {
+    const n = points.length;
+    const rotated = [...points.slice(site.index), ...points.slice(0, site.index)];
+    if (site.placement === 'corner') return rotated;
+
+    const a = rotated[0];
+    const b = rotated[1 % n];
+    const middle = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    return [middle, ...rotated.slice(1), a];
+  }
+
+  // ==========================================================================
+  // Leads
+  // ==========================================================================
+
+  /**
+   * Build a lead on the scrap side and shrink it, then fall back to a line and to no
+   * lead, until it stays clear of the part
+   */
+  private placeLead(
+    end: 'in' | 'out',
+    points: Point2D[],
+    site: PierceSite,
+    kind: ContourKind,
+    type: LeadType,
+    size: number,
+    warnings: string[]
+  ): LeadPath {
+    const start = points[0];
+    if (type === 'none' || size <= 0) return { type: 'none', points: [start], length: 0 };
+
+    const candidates: LeadType[] = type === 'arc' ? ['arc', 'line'] : ['line'];
+    for (const candidate of candidates) {
+      let length = size;
+      for (let step = 0; step <= LEAD_SHRINK_STEPS; step++) {
+        const lead = this.buildLead(end, start, site, candidate, length);
+        if (this.isClear(lead, points, kind)) {
+          if (candidate !== type || length !== size) {
+            warnings.push(`Lead-${end} reduced to a ${length.toFixed(2)} mm ${candidate} to stay clear of the part`);
+          }
+          return lead;
+        }
+        length /= 2;
+      }
+    }
+
+    warnings.push(`No room for a lead-${end}; the contour is pierced on the cut line`);
+    return { type: 'none', points: [start], length: 0 };
+  }
+
+  private buildLead(end: 'in' | 'out', start: Point2D, site: PierceSite, type: LeadType, size: number): LeadPath {
+    // Tangent and scrap-side normal where the lead meets the contour
+    const tangent = end === 'in' ? site.outgoing : site.incoming;
+    const normal = rightNormal(tangent);
+
+    if (type === 'arc') {
+      // Quarter arc tangent to the contour, centred on the scrap side
+      const center = offset(start, normal, size);
+      const from = end === 'in' ? Math.atan2(-tangent.y, -tangent.x) : Math.atan2(-normal.y, -normal.x);
+      const arcPoints: Point2D[] = [];
+      for (let i = 0; i <= LEAD_SAMPLES; i++) {
+        const angle = from - (Math.PI / 2) * (i / LEAD_SAMPLES);
+        arcPoints.push({ x: center.x + size * Math.cos(angle), y: center.y + size * Math.sin(angle) });
+      }
+      // Snap the contact point so lead and contour join exactly
+      arcPoints[end === 'in' ? LEAD_SAMPLES : 0] = start;
+      return { type, points: arcPoints, length: (Math.PI / 2) * size, center };
+    }
+
+    let direction: Point2D;
+    if (end === 'in') {
+      // Along the bisector of a corner, square to a straight edge
+      direction = site.placement === 'corner'
+        ? normalize({ x: rightNormal(site.incoming).x + normal.x, y: rightNormal(site.incoming).y + normal.y })
+        : normal;
+    } else {
+      // Backward at 45 degrees so the lead-out neither retraces the lead-in nor recuts the edge
+      direction = normalize({ x: normal.x - tangent.x, y: normal.y - tangent.y });
+    }
+    const far = offset(start, direction, size);
+    return { type, points: end === 'in' ? [far, start] : [start, far], length: size };
+  }
+
+  /**
+   * The lead must not enter the material: outside an outline, inside a hole, and
+   * crossing no edge other than the two that meet at the start point
+   */
+  private isClear(lead: LeadPath, points: Point2D[], kind: ContourKind): boolean {
+    const start = points[0];
+    const samples: Point2D[] = [];
+    for (let i = 1; i < lead.points.length; i++) {
+      const a = lead.points[i - 1];
+      const b = lead.points[i];
+      for (let k = 0; k <= 4; k++) {
+        samples.push({ x: a.x + ((b.x - a.x) * k) / 4, y: a.y + ((b.y - a.y) * k) / 4 });
+      }
+    }
+    const offContour = samples.filter(p => distance(p, start) > 1e-6);
+    if (offContour.some(p => pointInPolygon(p, points) !== (kind === 'inner'))) return false;
+
+    const n = points.length;
+    for (let i = 1; i < lead.points.length; i++) {
+      for (let j = 1; j < n - 1; j++) {
+        if (segmentsIntersect(lead.points[i - 1], lead.points[i], points[j], points[j + 1])) return false;
+      }
+    }
+    return true;
+  }
+
+  // ==========================================================================
+  // Micro-joints
+  // ==========================================================================
+
+  /**
+   * Evenly spaced joints, the first half a pitch from the start point so none sits on a lead
+   */
+  private placeMicroJoints(points: Point2D[], contourLength: number, opts: ContourProcessingOptions): MicroJoint[] {
+    if (opts.microJointSpacing <= 0 || opts.microJointWidth <= 0 || contourLength < opts.microJointSpacing) {
+      return [];
+    }
+
+    const count = Math.floor(contourLength / opts.microJointSpacing);
+    const pitch = contourLength / count;
+    const joints: MicroJoint[] = [];
+    let walked = 0;
+    let target = pitch / 2;
+
+    for (let i = 0; i < points.length && joints.length < count; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      const length = distance(a, b);
+      while (joints.length < count && target <= walked + length) {
+        const t = length > 0 ? (target - walked) / length : 0;
+        joints.push({
+          position: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t },
+          distance: target,
+          width: opts.microJointWidth
+        });
+        target += pitch;
+      }
+      walked += length;
+    }
+    return joints;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private summarize(contours: ProcessedContour[], name?: string): ContourProcessingResult {
+    const leadLength = contours.reduce((sum, c) => sum + c.leadIn.length + c.leadOut.length, 0);
+    const microJointLength = contours.reduce((sum, c) => sum + c.microJoints.reduce((s, joint) => s + joint.width, 0), 0);
+    const prefix = name ? `${name}: ` : '';
+
+    return {
+      contours,
+      contourLength: contours.reduce((sum, c) => sum + c.contourLength, 0),
+      leadLength,
+      microJointLength,
+      extraCutLength: leadLength - microJointLength,
+      cutLength: contours.reduce((sum, c) => sum + c.cutLength, 0),
+      pierceCount: contours.reduce((sum, c) => sum + c.pierceCount, 0),
+      microJointCount: contours.reduce((sum, c) => sum + c.microJoints.length, 0),
+      warnings: contours.flatMap(c => c.warnings.map(warning => `${prefix}${warning}`))
+    };
+  }
+}
+
+function unit(a: Point2D, b: Point2D): Point2D {
+  return normalize({ x: b.x - a.x, y: b.y - a.y });
+}
+
+function normalize(v: Point2D): Point2D {
+  const length = Math.hypot(v.x, v.y);
+  return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+}
+
+function rightNormal(v: Point2D): Point2D {
+  return { x: v.y, y: -v.x };
+}
+
+function offset(p: Point2D, direction: Point2D, amount: number): Point2D {
+  return { x: p.x + direction.x * amount, y: p.y + direction.y * amount };
+}
+
+function cross(a: Point2D, b: Point2D): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function dot(a: Point2D, b: Point2D): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+// Export singleton instance
+export const contourProcessor = new ContourProcessor();
@@ -0,0 +1,400 @@
+/**
+ * Cut Sequence Optimizer
+ * Orders cut contours to shorten rapid travel (nearest neighbour, then 2-opt and Or-opt)
+ * under hard precedence rules and a heat-spreading penalty between neighbouring cuts
+ */
+
+import { Point2D } from './geometryCalculator';
+import { NestingPlacement } from './nestingEngine';
+import {
+  Bounds2D,
+  DEFAULT_CHORD_TOLERANCE,
+  distance,
+  polygonArea,
+  polygonBounds,
+  polygonPerimeter,
+  rotatePolygon,
+  shapeToPolygons
+} from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CutContour {
+  id: string;
+  partId: string;
+  kind: 'inner' | 'outer'; // inner = holes and internal features, outer = part release cut
+  start: Point2D; // pierce point
+  end: Point2D; // where the cut finishes; equals start for closed contours
+  length: number; // mm of cut
+  centroid: Point2D; // heat centre
+  area: number; // mm², part size for outer contours
+  bounds?: Bounds2D; // enables part-in-part precedence
+}
+
+export interface CutSequenceOptions {
+  startPosition: Point2D; // head position before the first cut
+  endPosition: Point2D | null; // park position after the last cut, null = stay
+  rapidSpeed: number; // mm/min
+  smallPartArea: number; // mm², outer cuts of smaller parts go before the rest
+  heatRadius: number; // mm, consecutive cuts closer than this are penalised
+  heatPenalty: number; // mm of equivalent travel for two cuts on the same spot
+  maxPasses: number; // improvement passes
+  timeBudgetMs: number;
+}
+
+export interface CutSequenceStep {
+  contour: CutContour;
+  index: number; // into the input contours
+  rapidFrom: Point2D;
+  rapidDistance: number; // mm
+}
+
+export interface CutSequenceResult {
+  steps: CutSequenceStep[];
+  rapidDistance: number; // mm
+  rapidTime: number; // min
+  heatPenalty: number; // mm equivalent
+  baseline: {
+    rapidDistance: number; // mm, contours in input order
+    rapidTime: number; // min
+  };
+  improvement: {
+    distance: number; // mm saved
+    time: number; // min saved
+    percent: number;
+  };
+  precedenceRules: number; // ordering pairs enforced
+  passes: number;
+  elapsedMs: number;
+}
+
+interface Precedence {
+  before: Array<[number, number]>; // explicit pairs
+  smallOuters: number[]; // all of these before any of largeOuters
+  largeOuters: number[];
+}
+
+const DEFAULT_OPTIONS: CutSequenceOptions = {
+  startPosition: { x: 0, y: 0 },
+  endPosition: null,
+  rapidSpeed: 15000,
+  smallPartArea: 10000,
+  heatRadius: 30,
+  heatPenalty: 30,
+  maxPasses: 50,
+  timeBudgetMs: 1000
+};
+
+const OR_OPT_MAX_SEGMENT = 3;
+const EPSILON = 1e-9;
+
+// ============================================================================
+// Cut Sequence Optimizer
+// ============================================================================
+
+export class CutSequenceOptimizer {
+  /**
+   * Best sequence found; contours in input order are the baseline
+   */
+  optimize(contours: CutContour[], options?: Partial<CutSequenceOptions>): CutSequenceResult {
+    const startTime = Date.now();
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    if (opts.rapidSpeed <= 0) {
+      throw new Error('Rapid speed must be greater than 0');
+    }
+
+    const precedence = this.buildPrecedence(contours, opts);
+    const cost = (a: number, b: number) => this.transitionCost(contours, a, b, opts);
+    const deadline = startTime + opts.timeBudgetMs;
+
+    let tour = this.nearestNeighbour(contours, precedence, cost);
+    let passes = 0;
+    let improved = true;
+    while (improved && passes < opts.maxPasses && Date.now() < deadline) {
+      improved = false;
+      passes++;
+      const afterTwoOpt = this.twoOpt(tour, precedence, cost, deadline);
+      if (afterTwoOpt) {
+        tour = afterTwoOpt;
+        improved = true;
+      }
+      const afterOrOpt = this.orOpt(tour, precedence, cost, deadline);
+      if (afterOrOpt) {
+        tour = afterOrOpt;
+        improved = true;
+      }
+    }
+
+    const baseline = this.rapidDistance(contours, contours.map((_, i) => i), opts);
+    const steps = this.buildSteps(contours, tour, opts);
+    const rapidDistance = this.rapidDistance(contours, tour, opts);
+    const heatPenalty = tour.slice(1).reduce((sum, index, k) => sum + this.heat(contours[tour[k]], contours[index], opts), 0);
+
+    return {
+      steps,
+      rapidDistance,
+      rapidTime: rapidDistance / opts.rapidSpeed,
+      heatPenalty,
+      baseline: {
+        rapidDistance: baseline,
+        rapidTime: baseline / opts.rapidSpeed
+      },
+      improvement: {
+        distance: baseline - rapidDistance,
+        time: (baseline - rapidDistance) / opts.rapidSpeed,
+        percent: baseline > 0 ? ((baseline - rapidDistance) / baseline) * 100 : 0
+      },
+      precedenceRules: precedence.before.length + precedence.smallOuters.length * precedence.largeOuters.length,
+      passes,
+      elapsedMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Contours of nested parts on one sheet: holes are inner contours, outlines outer ones.
+   * Closed contours are pierced at their first vertex.
+   */
+  buildContours(placements: NestingPlacement[], chordTolerance = DEFAULT_CHORD_TOLERANCE): CutContour[] {
+    const contours: CutContour[] = [];
+
+    placements.forEach((placement, placementIndex) => {
+      const partId = placement.shape.name ? `${placement.shape.name} #${placementIndex + 1}` : `Part ${placementIndex + 1}`;
+      const { outline, holes } = shapeToPolygons(placement.shape, chordTolerance);
+      const place = (points: Point2D[]) =>
+        rotatePolygon(points, placement.rotation).map(p => ({ x: p.x + placement.position.x, y: p.y + placement.position.y }));
+
+      const toContour = (points: Point2D[], kind: CutContour['kind'], id: string): CutContour => {
+        const bounds = polygonBounds(points);
+        return {
+          id,
+          partId,
+          kind,
+          start: points[0],
+          end: points[0],
+          length: polygonPerimeter(points),
+          centroid: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+          area: polygonArea(points),
+          bounds
+        };
+      };
+
+      holes.forEach((hole, holeIndex) => contours.push(toContour(place(hole), 'inner', `${partId} hole ${holeIndex + 1}`)));
+      if (outline.length >= 3) contours.push(toContour(place(outline), 'outer', `${partId} outline`));
+    });
+
+    return contours;
+  }
+
+  // ============================================================================
+  // Precedence
+  // ============================================================================
+
+  /**
+   * Inner contours before the outline of their part, parts inside a hole before the hole,
+   * and small parts before the cuts that weaken the skeleton around them
+   */
+  private buildPrecedence(contours: CutContour[], opts: CutSequenceOptions): Precedence {
+    const before: Array<[number, number]> = [];
+    const outers = contours.map((contour, index) => ({ contour, index })).filter(({ contour }) => contour.kind === 'outer');
+
+    contours.forEach((contour, index) => {
+      if (contour.kind !== 'inner') return;
+      outers
+        .filter(outer => outer.contour.partId === contour.partId)
+        .forEach(outer => before.push([index, outer.index]));
+    });
+
+    outers.forEach(outer => {
+      const inner = outer.contour.bounds;
+      if (!inner) return;
+      contours.forEach((hole, index) => {
+        if (hole.kind !== 'inner' || hole.partId === outer.contour.partId || !hole.bounds) return;
+        if (inner.minX >= hole.bounds.minX && inner.maxX <= hole.bounds.maxX &&
+          inner.minY >= hole.bounds.minY && inner.maxY <= hole.bounds.maxY) {
+          before.push([outer.index, index]);
+        }
+      });
+    });
+
+    return {
+      before,
+      smallOuters: outers.filter(({ contour }) => contour.area < opts.smallPartArea).map(({ index }) => index),
+      largeOuters: outers.filter(({ contour }) => contour.area >= opts.smallPartArea).map(({ index }) => index)
+    };
+  }
+
+  private isFeasible(tour: number[], precedence: Precedence): boolean {
+    const position = new Array<number>(tour.length);
+    tour.forEach((contour, k) => {
+      position[contour] = k;
+    });
+    if (precedence.before.some(([a, b]) => position[a] > position[b])) return false;
+    if (precedence.smallOuters.length === 0 || precedence.largeOuters.length === 0) return true;
+    const lastSmall = Math.max(...precedence.smallOuters.map(i => position[i]));
+    const firstLarge = Math.min(...precedence.largeOuters.map(i => position[i]));
+    return lastSmall < firstLarge;
+  }
+
+  // ============================================================================
+  // Tour Construction and Improvement
+  // ============================================================================
+
+  /**
+   * Index -1 is the start position before the tour and the end position after it
+   */
+  private transitionCost(contours: CutContour[], a: number, b: number, opts: CutSequenceOptions): number {
+    if (a < 0 && b < 0) return 0;
+    if (a < 0) return distance(opts.startPosition, contours[b].start);
+    if (b < 0) return opts.endPosition ? distance(contours[a].end, opts.endPosition) : 0;
+    return distance(contours[a].end, contours[b].start) + this.heat(contours[a], contours[b], opts);
+  }
+
+  private heat(a: CutContour, b: CutContour, opts: CutSequenceOptions): number {
+    if (opts.heatRadius <= 0 || opts.heatPenalty <= 0) return 0;
+    return opts.heatPenalty * Math.max(0, 1 - distance(a.centroid, b.centroid) / opts.heatRadius);
+  }
+
+  private nearestNeighbour(
+    contours: CutContour[],
+    precedence: Precedence,
+    cost: (a: number, b: number) => number
+  ): number[] {
+    const predecessors = contours.map(() => new Set<number>());
+    precedence.before.forEach(([a, b]) => predecessors[b].add(a));
+    const large = new Set(precedence.largeOuters);
+    let smallLeft = precedence.smallOuters.length;
+
+    const done = new Set<number>();
+    const tour: number[] = [];
+    let current = -1;
+
+    while (tour.length < contours.length) {
+      let next = -1;
+      let nextCost = Infinity;
+      contours.forEach((_, index) => {
+        if (done.has(index)) return;
+        if (large.has(index) && smallLeft > 0) return;
+        if ([...predecessors[index]].some(p => !done.has(p))) return;
+        const c = cost(current, index);
+        if (c < nextCost) {
+          next = index;
+          nextCost = c;
+        }
+      });
+
+      // Contradictory rules: take the first remaining contour rather than stall
+      if (next < 0) next = contours.findIndex((_, index) => !done.has(index));
+
+      done.add(next);
+      tour.push(next);
+      if (precedence.smallOuters.includes(next)) smallLeft--;
+      current = next;
+    }
+
+    return tour;
+  }
+
+  /**
+   * First improving segment reversal per pass; null when none is found
+   */
+  private twoOpt(
+    tour: number[],
+    precedence: Precedence,
+    cost: (a: number, b: number) => number,
+    deadline: number
+  ): number[] | null {
+    const n = tour.length;
+    const at = (k: number) => (k < 0 || k >= n ? -1 : tour[k]);
+    // forward[k] / backward[k]: travel over the first k links, in tour and reversed direction
+    const forward = [0];
+    const backward = [0];
+    for (let k = 0; k < n - 1; k++) {
+      forward.push(forward[k] + cost(tour[k], tour[k + 1]));
+      backward.push(backward[k] + cost(tour[k + 1], tour[k]));
+    }
+
+    for (let i = 0; i < n - 1; i++) {
+      if (Date.now() > deadline) return null;
+      for (let j = i + 1; j < n; j++) {
+        const before = cost(at(i - 1), tour[i]) + (forward[j] - forward[i]) + cost(tour[j], at(j + 1));
+        const after = cost(at(i - 1), tour[j]) + (backward[j] - backward[i]) + cost(tour[i], at(j + 1));
+        if (after < before - EPSILON) {
+          const candidate = [...tour.slice(0, i), ...tour.slice(i, j + 1).reverse(), ...tour.slice(j + 1)];
+          if (this.isFeasible(candidate, precedence)) return candidate;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * First improving move of a run of up to three contours to another place, possibly
+   * reversed; null when none
+   */
+  private orOpt(
+    tour: number[],
+    precedence: Precedence,
+    cost: (a: number, b: number) => number,
+    deadline: number
+  ): number[] | null {
+    const n = tour.length;
+    const at = (k: number) => (k < 0 || k >= n ? -1 : tour[k]);
+
+    for (let length = 1; length <= Math.min(OR_OPT_MAX_SEGMENT, n - 1); length++) {
+      for (let i = 0; i + length <= n; i++) {
+        if (Date.now() > deadline) return null;
+        const segment = tour.slice(i, i + length);
+        const reversed = [...segment].reverse();
+        const internal = (run: number[]) => run.slice(1).reduce((sum, c, k) => sum + cost(run[k], c), 0);
+        const removed = cost(at(i - 1), segment[0]) + cost(segment[length - 1], at(i + length)) +
+          internal(segment) - cost(at(i - 1), at(i + length));
+
+        // Insert between positions p and p + 1 of the original tour, as is or reversed
+        for (let p = -1; p < n; p++) {
+          if (p >= i - 1 && p < i + length) continue;
+          for (const run of length > 1 ? [segment, reversed] : [segment]) {
+            const added = cost(at(p), run[0]) + cost(run[length - 1], at(p + 1)) + internal(run) - cost(at(p), at(p + 1));
+            if (added < removed - EPSILON) {
+              const rest = [...tour.slice(0, i), ...tour.slice(i + length)];
+              const insertAt = p < i ? p + 1 : p + 1 - length;
+              const candidate = [...rest.slice(0, insertAt), ...run, ...rest.slice(insertAt)];
+              if (this.isFeasible(candidate, precedence)) return candidate;
+            }
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  // ============================================================================
+  // Reporting
+  // ============================================================================
+
+  private rapidDistance(contours: CutContour[], tour: number[], opts: CutSequenceOptions): number {
+    if (tour.length === 0) return 0;
+    let total = distance(opts.startPosition, contours[tour[0]].start);
+    for (let k = 1; k < tour.length; k++) {
+      total += distance(contours[tour[k - 1]].end, contours[tour[k]].start);
+    }
+    if (opts.endPosition) total += distance(contours[tour[tour.length - 1]].end, opts.endPosition);
+    return total;
+  }
+
+  private buildSteps(contours: CutContour[], tour: number[], opts: CutSequenceOptions): CutSequenceStep[] {
+    return tour.map((index, k) => {
+      const rapidFrom = k === 0 ? opts.startPosition : contours[tour[k - 1]].end;
+      return {
+        contour: contours[index],
+        index,
+        rapidFrom,
+        rapidDistance: distance(rapidFrom, contours[index].start)
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const cutSequenceOptimizer = new CutSequenceOptimizer();
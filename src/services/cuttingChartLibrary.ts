@@ -0,0 +1,490 @@
+/**
+ * Cutting Chart Library
+ * Manufacturer cutting charts imported from CSV or XLSX and attached to a machine
+ * profile. Lookups interpolate across thickness and power, flag values taken from
+ * beyond the chart's range, and take precedence over the built-in cutting data.
+ * Kept in local storage.
+ */
+
+import { read, utils } from 'xlsx';
+import { Material } from '../types/calculator';
+import { generateId } from '../utils/idGenerator';
+import { bracket, lerp } from '../utils/interpolation';
+import { materialRegistry } from './materialRegistry';
+import { machineProfileRegistry } from './machineProfileRegistry';
+import { contentHash } from '../utils/contentHash';
+import { convert, dimensionOf, parseUnit } from '../utils/units';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChartGas = Material['cuttingParameters']['gasType'];
+
+export interface CuttingChartRow {
+  material: string; // registry id
+  thickness: number; // mm
+  power: number; // W
+  gas: ChartGas;
+  speed: number; // mm/min
+  pressure: number; // bar
+  focus: number; // mm, negative below the surface
+  nozzle: number; // mm
+  frequency?: number; // Hz, empty for continuous wave
+}
+
+export interface ImportedCuttingChart {
+  id: string;
+  machineId: string;
+  name: string;
+  importedAt: string; // ISO date
+  rows: CuttingChartRow[];
+}
+
+export interface ChartImportOptions {
+  machineId: string;
+  name?: string; // default: the machine name and import date
+  sheet?: string; // XLSX sheet, default the first
+}
+
+export interface ChartImportResult {
+  chart: ImportedCuttingChart;
+  skipped: Array<{ row: number; reason: string }>; // 1-based row in the file
+}
+
+export interface ChartLookup {
+  gas: ChartGas;
+  speed: number; // mm/min
+  pressure: number; // bar
+  focus: number; // mm
+  nozzle: number; // mm, from the nearest chart thickness
+  frequency?: number; // Hz
+  extrapolated: boolean;
+  warnings: string[];
+}
+
+type ChartField = keyof CuttingChartRow;
+type ChartCell = string | number | boolean | null | undefined;
+
+interface PowerPoint {
+  row: Omit<CuttingChartRow, 'material' | 'thickness' | 'power' | 'gas'>;
+  warning?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Column headings recognised for each field, after lower-casing, dropping units in
+ * brackets and joining words with underscores: "Cutting Speed (m/min)" is cutting_speed.
+ * The unit is read separately and converted to the field's unit.
+ */
+const HEADER_ALIASES: Record<ChartField, string[]> = {
+  material: ['material', 'material_type', 'grade'],
+  thickness: ['thickness', 'thk', 'sheet_thickness'],
+  power: ['power', 'laser_power', 'cutting_power'],
+  gas: ['gas', 'assist_gas', 'gas_type'],
+  speed: ['speed', 'cutting_speed', 'feed', 'feed_rate'],
+  pressure: ['pressure', 'gas_pressure'],
+  focus: ['focus', 'focus_position', 'focal_position'],
+  nozzle: ['nozzle', 'nozzle_diameter'],
+  frequency: ['frequency', 'pulse_frequency', 'freq']
+};
+
+// Units chart values are stored in; a column without a unit is taken to be in these
+const FIELD_UNITS: Partial<Record<ChartField, string>> = {
+  thickness: 'mm',
+  power: 'W',
+  speed: 'mm/min',
+  pressure: 'bar',
+  focus: 'mm',
+  nozzle: 'mm',
+  frequency: 'Hz'
+};
+
+const REQUIRED_FIELDS: ChartField[] = ['material', 'thickness', 'power', 'gas', 'speed', 'pressure', 'focus', 'nozzle'];
+
+const GAS_ALIASES: Record<string, ChartGas> = {
+  oxygen: 'oxygen', o2: 'oxygen',
+  nitrogen: 'nitrogen', n2: 'nitrogen',
+  air: 'air',
+  argon: 'argon', ar: 'argon'
+};
+
+const STORAGE_KEY = 'laser-calc-cutting-charts';
+
+function normalizeHeader(header: string): string {
+  return header
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/**
+ * The unit named in a heading's brackets ("Power (kW)" is kW), undefined without one. Throws
+ * when the unit is unknown or measures something else than the field.
+ */
+function headerUnit(header: string, field: ChartField): string | undefined {
+  const label = header.match(/\((.*?)\)|\[(.*?)\]/)?.slice(1).find(part => part !== undefined);
+  const expected = FIELD_UNITS[field];
+  if (label === undefined || expected === undefined) return undefined;
+
+  const unit = parseUnit(label);
+  if (unit === undefined || dimensionOf(unit) !== dimensionOf(expected)) {
+    throw new Error(`Cutting chart column "${header.trim()}" has an unrecognised ${field} unit: ${label}`);
+  }
+  return unit;
+}
+
+/**
+ * Split delimited text into cells. The delimiter is whichever of comma, semicolon or
+ * tab the header uses most; quoted cells may contain delimiters, quotes and line breaks.
+ */
+function parseDelimited(text: string): { table: string[][]; delimiter: string } {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      table.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    table.push(row);
+  }
+
+  return { table, delimiter };
+}
+
+// ============================================================================
+// Cutting Chart Library
+// ============================================================================
+
+export class CuttingChartLibrary {
+  private charts: ImportedCuttingChart[] = [];
+  private version: string | null = null;
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  get(id: string): ImportedCuttingChart {
+    const chart = this.charts.find(candidate => candidate.id === id);
+    if (!chart) {
+      throw new Error(`Unknown cutting chart: ${id}`);
+    }
+    return chart;
+  }
+
+  list(machineId?: string): ImportedCuttingChart[] {
+    return this.charts.filter(chart => !machineId || chart.machineId === machineId);
+  }
+
+  /**
+   * Content hash of every imported chart; changes with each import or removal
+   */
+  dataVersion(): string {
+    return (this.version ??= contentHash(this.charts));
+  }
+
+  remove(id: string): boolean {
+    const before = this.charts.length;
+    this.charts = this.charts.filter(chart => chart.id !== id);
+    const removed = this.charts.length < before;
+    if (removed) {
+      this.version = null;
+      this.saveToStorage();
+    }
+    return removed;
+  }
+
+  /**
+   * Import a chart from CSV text. Semicolon-separated files may use decimal commas.
+   */
+  importCsv(text: string, options: ChartImportOptions): ChartImportResult {
+    const { table, delimiter } = parseDelimited(text);
+    return this.importTable(table, options, delimiter !== ',');
+  }
+
+  /**
+   * Import a chart from an XLSX workbook
+   */
+  importXlsx(data: ArrayBuffer | Uint8Array, options: ChartImportOptions): ChartImportResult {
+    const workbook = read(data, { type: 'array' });
+    const sheetName = options.sheet ?? workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      throw new Error(`Workbook has no sheet named ${sheetName}`);
+    }
+    const table = utils.sheet_to_json<ChartCell[]>(sheet, { header: 1, blankrows: false, defval: '' });
+    return this.importTable(table, options, false);
+  }
+
+  /**
+   * Cutting parameters for a material on a machine, interpolated linearly across the
+   * thickness and power of its imported charts. Thickness or power outside a chart
+   * take the nearest chart values, with a warning. Without a gas, the material's
+   * usual assist gas is used when the chart has it. Undefined when no imported chart
+   * covers the material and gas.
+   */
+  lookup(machineId: string, materialType: string, thickness: number, power: number, gas?: ChartGas): ChartLookup | undefined {
+    const material = materialRegistry.resolve(materialType);
+    if (material === undefined) return undefined;
+
+    const rows = this.rowsFor(machineId, material);
+    if (rows.length === 0) return undefined;
+
+    const usualGas = materialRegistry.get(material).cutting.assistGas;
+    const chosenGas = gas ?? (rows.some(row => row.gas === usualGas) ? usualGas : rows[0].gas);
+    const gasRows = rows.filter(row => row.gas === chosenGas);
+    if (gasRows.length === 0) return undefined;
+
+    const warnings: string[] = [];
+    const thicknesses = Array.from(new Set(gasRows.map(row => row.thickness))).sort((a, b) => a - b);
+    const [t0, t1] = bracket(thicknesses, thickness);
+    const minThickness = thicknesses[0];
+    const maxThickness = thicknesses[thicknesses.length - 1];
+    if (thickness < minThickness || thickness > maxThickness) {
+      warnings.push(
+        `${thickness} mm is outside the ${materialType} chart (${minThickness}–${maxThickness} mm); ` +
+        `the ${thickness < minThickness ? minThickness : maxThickness} mm values are used`
+      );
+    }
+
+    const lower = this.atPower(gasRows.filter(row => row.thickness === t0), power);
+    const upper = t1 === t0 ? lower : this.atPower(gasRows.filter(row => row.thickness === t1), power);
+    [lower.warning, upper.warning].forEach(warning => {
+      if (warning && !warnings.includes(warning)) warnings.push(warning);
+    });
+
+    const clamped = Math.min(Math.max(thickness, t0), t1);
+    const between = (field: 'speed' | 'pressure' | 'focus'): number =>
+      lerp(t0, t1, lower.row[field], upper.row[field], clamped);
+
+    return {
+      gas: chosenGas,
+      speed: between('speed'),
+      pressure: between('pressure'),
+      focus: between('focus'),
+      nozzle: clamped - t0 <= t1 - clamped ? lower.row.nozzle : upper.row.nozzle,
+      frequency: lower.row.frequency !== undefined && upper.row.frequency !== undefined
+        ? lerp(t0, t1, lower.row.frequency, upper.row.frequency, clamped)
+        : undefined,
+      extrapolated: warnings.length > 0,
+      warnings
+    };
+  }
+
+  /**
+   * Rows of the machine's charts for a material; where charts overlap, the latest import wins
+   */
+  private rowsFor(machineId: string, material: string): CuttingChartRow[] {
+    const seen = new Set<string>();
+    const rows: CuttingChartRow[] = [];
+
+    [...this.list(machineId)].reverse().forEach(chart => {
+      chart.rows
+        .filter(row => row.material === material)
+        .forEach(row => {
+          const key = `${row.gas}|${row.thickness}|${row.power}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          rows.push(row);
+        });
+    });
+
+    return rows;
+  }
+
+  private atPower(rows: CuttingChartRow[], power: number): PowerPoint {
+    const sorted = [...rows].sort((a, b) => a.power - b.power);
+    const powers = sorted.map(row => row.power);
+    const [p0, p1] = bracket(powers, power);
+    const r0 = sorted[powers.indexOf(p0)];
+    const r1 = sorted[powers.indexOf(p1)];
+    const clamped = Math.min(Math.max(power, p0), p1);
+    const at = (a: number, b: number): number => lerp(p0, p1, a, b, clamped);
+
+    const minPower = powers[0];
+    const maxPower = powers[powers.length - 1];
+    const warning = power < minPower || power > maxPower
+      ? `${Math.round(power)} W is outside the chart at ${r0.thickness} mm (${minPower}–${maxPower} W); ` +
+        `the ${power < minPower ? minPower : maxPower} W values are used`
+      : undefined;
+
+    return {
+      row: {
+        speed: at(r0.speed, r1.speed),
+        pressure: at(r0.pressure, r1.pressure),
+        focus: at(r0.focus, r1.focus),
+        nozzle: clamped - p0 <= p1 - clamped ? r0.nozzle : r1.nozzle,
+        frequency: r0.frequency !== undefined && r1.frequency !== undefined ? at(r0.frequency, r1.frequency) : undefined
+      },
+      warning
+    };
+  }
+
+  private importTable(table: ChartCell[][], options: ChartImportOptions, decimalComma: boolean): ChartImportResult {
+    const machine = machineProfileRegistry.get(options.machineId);
+    if (table.length === 0) {
+      throw new Error('Cutting chart is empty');
+    }
+
+    const labels = table[0].map(cell => String(cell ?? ''));
+    const headers = labels.map(normalizeHeader);
+    const columns = {} as Partial<Record<ChartField, number>>;
+    const units = {} as Partial<Record<ChartField, string>>;
+    (Object.keys(HEADER_ALIASES) as ChartField[]).forEach(field => {
+      const index = headers.findIndex(header => HEADER_ALIASES[field].includes(header));
+      if (index < 0) return;
+      columns[field] = index;
+      units[field] = headerUnit(labels[index], field);
+    });
+    const missing = REQUIRED_FIELDS.filter(field => columns[field] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Cutting chart is missing the column(s): ${missing.join(', ')}`);
+    }
+
+    const rows: CuttingChartRow[] = [];
+    const skipped: ChartImportResult['skipped'] = [];
+
+    table.slice(1).forEach((cells, index) => {
+      if (cells.every(cell => String(cell ?? '').trim() === '')) return;
+      const cell = (field: ChartField): string => {
+        const column = columns[field];
+        return column === undefined ? '' : String(cells[column] ?? '').trim();
+      };
+      const number = (field: ChartField): number => {
+        const value = cell(field);
+        const parsed = value === '' ? NaN : Number(decimalComma ? value.replace(',', '.') : value);
+        const unit = units[field];
+        return unit && Number.isFinite(parsed) ? convert(parsed, unit, FIELD_UNITS[field]!) : parsed;
+      };
+
+      const reason = this.parseRow(cell, number, rows, machine.maxPower);
+      if (reason) skipped.push({ row: index + 2, reason });
+    });
+
+    if (rows.length === 0) {
+      throw new Error('Cutting chart has no usable rows');
+    }
+
+    const importedAt = new Date().toISOString();
+    const chart: ImportedCuttingChart = {
+      id: generateId('chart'),
+      machineId: machine.id,
+      name: options.name ?? `${machine.name} ${importedAt.slice(0, 10)}`,
+      importedAt,
+      rows
+    };
+    this.charts.push(chart);
+    this.version = null;
+    this.saveToStorage();
+
+    return { chart, skipped };
+  }
+
+  /**
+   * Validate one chart row and add it to rows; returns why it was skipped, if it was
+   */
+  private parseRow(
+    cell: (field: ChartField) => string,
+    number: (field: ChartField) => number,
+    rows: CuttingChartRow[],
+    maxPower: number
+  ): string | undefined {
+    const material = materialRegistry.resolve(cell('material'));
+    if (material === undefined) {
+      return `Unknown material: ${cell('material')}`;
+    }
+    const gas = GAS_ALIASES[cell('gas').toLowerCase()];
+    if (!gas) {
+      return `Unknown assist gas: ${cell('gas')}`;
+    }
+
+    const row: CuttingChartRow = {
+      material,
+      thickness: number('thickness'),
+      power: number('power'),
+      gas,
+      speed: number('speed'),
+      pressure: number('pressure'),
+      focus: number('focus'),
+      nozzle: number('nozzle')
+    };
+    const invalid = (['thickness', 'power', 'speed', 'nozzle'] as const).find(field => !(row[field] > 0));
+    if (invalid) {
+      return `${invalid} must be a positive number`;
+    }
+    if (!(row.pressure >= 0) || !Number.isFinite(row.focus)) {
+      return 'pressure and focus must be numbers';
+    }
+    if (row.power > maxPower) {
+      return `${row.power} W is more than the machine's ${maxPower} W`;
+    }
+    if (cell('frequency') !== '') {
+      const frequency = number('frequency');
+      if (!(frequency > 0)) {
+        return 'frequency must be a positive number or empty';
+      }
+      row.frequency = frequency;
+    }
+
+    rows.push(row);
+    return undefined;
+  }
+
+  private loadFromStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) this.charts = JSON.parse(stored);
+    } catch (error) {
+      console.warn('Failed to load cutting charts from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.charts));
+    } catch (error) {
+      console.error('Failed to save cutting charts to storage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const cuttingChartLibrary = new CuttingChartLibrary();
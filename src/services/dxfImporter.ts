@@ -0,0 +1,748 @@
+/**
+ * DXF Importer
+ * Converts DXF drawings into GeometryShape parts (outer contour + holes) in millimetres
+ */
+
+import { ContourSegment, GeometryShape, Point2D } from './geometryCalculator';
+import {
+  DEFAULT_CHORD_TOLERANCE,
+  Matrix2D,
+  IDENTITY_MATRIX,
+  arcDivisions,
+  arcPoint,
+  NestedContour,
+  distance,
+  groupContoursByContainment,
+  multiplyMatrix,
+  reverseContour,
+  rotationMatrix,
+  scaleMatrix,
+  segmentEnd,
+  segmentStart,
+  transformContour,
+  translationMatrix
+} from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DxfUnits = 'unitless' | 'inches' | 'feet' | 'millimeters' | 'centimeters' | 'meters';
+
+export interface DxfImportOptions {
+  layers?: string[]; // only import these layers
+  excludeLayers?: string[];
+  chainTolerance: number; // mm, max gap when joining open entities
+  chordTolerance: number; // mm, flattening tolerance for ellipses and splines
+  includeHiddenLayers: boolean; // import frozen/off layers
+  defaultUnits: DxfUnits; // used when the drawing is unitless
+}
+
+export interface DxfImportResult {
+  shapes: GeometryShape[];
+  openPaths: ContourSegment[][];
+  units: DxfUnits;
+  unitScale: number; // drawing units -> mm
+  layers: string[];
+  entityCount: number;
+  skippedEntities: Record<string, number>;
+  warnings: string[];
+}
+
+interface DxfGroup {
+  code: number;
+  value: string;
+}
+
+interface DxfEntity {
+  type: string;
+  layer: string;
+  groups: DxfGroup[];
+  vertices?: DxfEntity[]; // POLYLINE vertices
+}
+
+interface DxfBlock {
+  name: string;
+  basePoint: Point2D;
+  entities: DxfEntity[];
+}
+
+interface DxfLayer {
+  name: string;
+  visible: boolean;
+}
+
+interface DxfDocument {
+  insUnits: number;
+  measurement: number;
+  layers: Map<string, DxfLayer>;
+  blocks: Map<string, DxfBlock>;
+  entities: DxfEntity[];
+}
+
+interface RawContour {
+  segments: ContourSegment[];
+  layer: string;
+}
+
+const DEFAULT_OPTIONS: DxfImportOptions = {
+  chainTolerance: 0.01,
+  chordTolerance: DEFAULT_CHORD_TOLERANCE,
+  includeHiddenLayers: false,
+  defaultUnits: 'millimeters'
+};
+
+// $INSUNITS codes supported for conversion
+const INSUNITS: Record<number, DxfUnits> = {
+  0: 'unitless',
+  1: 'inches',
+  2: 'feet',
+  4: 'millimeters',
+  5: 'centimeters',
+  6: 'meters'
+};
+
+const UNIT_SCALE: Record<DxfUnits, number> = {
+  unitless: 1,
+  inches: 25.4,
+  feet: 304.8,
+  millimeters: 1,
+  centimeters: 10,
+  meters: 1000
+};
+
+const SUPPORTED_ENTITIES = ['LINE', 'ARC', 'CIRCLE', 'LWPOLYLINE', 'POLYLINE', 'ELLIPSE', 'SPLINE', 'INSERT'];
+
+// Nested INSERTs deeper than this are treated as a recursive block reference
+const MAX_INSERT_DEPTH = 16;
+
+// ============================================================================
+// DXF Importer
+// ============================================================================
+
+export class DxfImporter {
+  /**
+   * Parse DXF text and build part shapes with holes detected by containment
+   */
+  import(content: string, options?: Partial<DxfImportOptions>): DxfImportResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const document = this.parseDocument(content);
+    const warnings: string[] = [];
+    const skippedEntities: Record<string, number> = {};
+
+    let units = INSUNITS[document.insUnits];
+    if (!units) {
+      warnings.push(`Unsupported $INSUNITS value ${document.insUnits}, assuming ${opts.defaultUnits}`);
+      units = opts.defaultUnits;
+    }
+    if (units === 'unitless') {
+      // $MEASUREMENT 0 = imperial drawing
+      units = document.measurement === 0 ? 'inches' : opts.defaultUnits;
+    }
+    const unitScale = UNIT_SCALE[units];
+
+    const closed: RawContour[] = [];
+    const open: RawContour[] = [];
+    const usedLayers = new Set<string>();
+    let entityCount = 0;
+
+    const visit = (entities: DxfEntity[], matrix: Matrix2D, parentLayer: string | null, depth: number) => {
+      entities.forEach(entity => {
+        // Entities on layer 0 inside a block take the layer of the INSERT
+        const layer = entity.layer === '0' && parentLayer ? parentLayer : entity.layer;
+
+        if (!this.isLayerIncluded(layer, document, opts)) return;
+
+        if (!SUPPORTED_ENTITIES.includes(entity.type)) {
+          skippedEntities[entity.type] = (skippedEntities[entity.type] || 0) + 1;
+          return;
+        }
+
+        if (entity.type === 'INSERT') {
+          const blockName = this.getString(entity, 2);
+          const block = document.blocks.get(blockName);
+          if (!block) {
+            warnings.push(`INSERT references unknown block "${blockName}"`);
+            return;
+          }
+          if (depth >= MAX_INSERT_DEPTH) {
+            warnings.push(`Block "${blockName}" is nested too deeply (recursive reference?)`);
+            return;
+          }
+          if (this.getNumber(entity, 70, 1) > 1 || this.getNumber(entity, 71, 1) > 1) {
+            warnings.push(`Array INSERT of block "${blockName}" imported as a single instance`);
+          }
+          const insertMatrix = multiplyMatrix(matrix, this.getInsertMatrix(entity, block));
+          visit(block.entities, insertMatrix, layer, depth + 1);
+          return;
+        }
+
+        entityCount++;
+        usedLayers.add(layer);
+        const entityMatrix = multiplyMatrix(matrix, this.getExtrusionMatrix(entity));
+        const converted = this.convertEntity(entity, opts, warnings);
+        if (!converted) return;
+
+        const segments = transformContour(converted.segments, entityMatrix, opts.chordTolerance);
+        (converted.closed ? closed : open).push({ segments, layer });
+      });
+    };
+
+    visit(document.entities, scaleMatrix(unitScale), null, 0);
+
+    // Join loose entities into contours
+    const chained = this.chainContours(open, opts.chainTolerance);
+    closed.push(...chained.closed);
+
+    const { shapes, warnings: nestingWarnings } = this.buildShapes(closed, opts.chordTolerance);
+    warnings.push(...nestingWarnings);
+
+    if (chained.open.length > 0) {
+      warnings.push(`${chained.open.length} open path(s) could not be closed; they are counted as separate cuts`);
+    }
+    Object.entries(skippedEntities).forEach(([type, count]) => {
+      warnings.push(`Skipped ${count} unsupported ${type} entit${count === 1 ? 'y' : 'ies'}`);
+    });
+
+    return {
+      shapes,
+      openPaths: chained.open.map(path => path.segments),
+      units,
+      unitScale,
+      layers: Array.from(usedLayers).sort(),
+      entityCount,
+      skippedEntities,
+      warnings
+    };
+  }
+
+  /**
+   * Read a DXF File object (browser) and import it
+   */
+  async importFile(file: File, options?: Partial<DxfImportOptions>): Promise<DxfImportResult> {
+    const content = await file.text();
+    return this.import(content, options);
+  }
+
+  // ============================================================================
+  // Parsing
+  // ============================================================================
+
+  private parseDocument(content: string): DxfDocument {
+    const groups = this.readGroups(content);
+    const document: DxfDocument = {
+      insUnits: 0,
+      measurement: 1,
+      layers: new Map(),
+      blocks: new Map(),
+      entities: []
+    };
+
+    let i = 0;
+    while (i < groups.length) {
+      const group = groups[i];
+      if (group.code === 0 && group.value === 'SECTION' && groups[i + 1]?.code === 2) {
+        const sectionName = groups[i + 1].value;
+        const end = this.findIndex(groups, i + 2, g => g.code === 0 && g.value === 'ENDSEC');
+        const sectionGroups = groups.slice(i + 2, end);
+
+        switch (sectionName) {
+          case 'HEADER':
+            this.parseHeader(sectionGroups, document);
+            break;
+          case 'TABLES':
+            this.parseLayers(sectionGroups, document);
+            break;
+          case 'BLOCKS':
+            this.parseBlocks(sectionGroups, document);
+            break;
+          case 'ENTITIES':
+            document.entities = this.parseEntities(sectionGroups);
+            break;
+        }
+        i = end + 1;
+        continue;
+      }
+      i++;
+    }
+
+    if (document.entities.length === 0 && document.blocks.size === 0) {
+      throw new Error('Invalid DXF: no ENTITIES section found');
+    }
+
+    return document;
+  }
+
+  private readGroups(content: string): DxfGroup[] {
+    const lines = content.split(/\r?\n/);
+    const groups: DxfGroup[] = [];
+
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const code = parseInt(lines[i].trim(), 10);
+      if (Number.isNaN(code)) {
+        throw new Error(`Invalid DXF: expected group code at line ${i + 1}`);
+      }
+      groups.push({ code, value: lines[i + 1].trim() });
+    }
+
+    return groups;
+  }
+
+  private parseHeader(groups: DxfGroup[], document: DxfDocument): void {
+    for (let i = 0; i < groups.length - 1; i++) {
+      if (groups[i].code !== 9) continue;
+      if (groups[i].value === '$INSUNITS') {
+        document.insUnits = parseInt(groups[i + 1].value, 10) || 0;
+      } else if (groups[i].value === '$MEASUREMENT') {
+        document.measurement = parseInt(groups[i + 1].value, 10);
+      }
+    }
+  }
+
+  private parseLayers(groups: DxfGroup[], document: DxfDocument): void {
+    this.splitRecords(groups).forEach(record => {
+      if (record.type !== 'LAYER') return;
+      const name = this.getString(record, 2);
+      const flags = this.getNumber(record, 70, 0);
+      const color = this.getNumber(record, 62, 7);
+      // Bit 1 = frozen, negative colour = layer off
+      document.layers.set(name, { name, visible: (flags & 1) === 0 && color >= 0 });
+    });
+  }
+
+  private parseBlocks(groups: DxfGroup[], document: DxfDocument): void {
+    let current: { header: DxfEntity; groups: DxfGroup[] } | null = null;
+
+    this.splitRecords(groups, false).forEach(record => {
+      if (record.type === 'BLOCK') {
+        current = { header: record, groups: [] };
+      } else if (record.type === 'ENDBLK') {
+        if (current) {
+          const header: DxfEntity = current.header;
+          const name = this.getString(header, 2);
+          document.blocks.set(name, {
+            name,
+            basePoint: { x: this.getNumber(header, 10, 0), y: this.getNumber(header, 20, 0) },
+            entities: this.parseEntities(current.groups)
+          });
+        }
+        current = null;
+      } else if (current) {
+        const target: { groups: DxfGroup[] } = current;
+        target.groups.push({ code: 0, value: record.type }, ...record.groups);
+      }
+    });
+  }
+
+  private parseEntities(groups: DxfGroup[]): DxfEntity[] {
+    const entities: DxfEntity[] = [];
+    let polyline: DxfEntity | null = null;
+
+    this.splitRecords(groups).forEach(record => {
+      if (record.type === 'POLYLINE') {
+        polyline = { ...record, vertices: [] };
+        entities.push(polyline);
+      } else if (record.type === 'VERTEX' && polyline) {
+        polyline.vertices!.push(record);
+      } else if (record.type === 'SEQEND') {
+        polyline = null;
+      } else {
+        entities.push(record);
+      }
+    });
+
+    return entities;
+  }
+
+  /**
+   * Split a flat group list into records starting at each code-0 group
+   */
+  private splitRecords(groups: DxfGroup[], requireLayer = true): DxfEntity[] {
+    const records: DxfEntity[] = [];
+    let current: DxfEntity | null = null;
+
+    groups.forEach(group => {
+      if (group.code === 0) {
+        current = { type: group.value, layer: '0', groups: [] };
+        records.push(current);
+      } else if (current) {
+        current.groups.push(group);
+        if (group.code === 8 && requireLayer) current.layer = group.value;
+      }
+    });
+
+    return records;
+  }
+
+  private findIndex(groups: DxfGroup[], from: number, predicate: (g: DxfGroup) => boolean): number {
+    for (let i = from; i < groups.length; i++) {
+      if (predicate(groups[i])) return i;
+    }
+    return groups.length;
+  }
+
+  private getString(entity: DxfEntity, code: number, fallback = ''): string {
+    return entity.groups.find(g => g.code === code)?.value ?? fallback;
+  }
+
+  private getNumber(entity: DxfEntity, code: number, fallback: number): number {
+    const group = entity.groups.find(g => g.code === code);
+    if (!group) return fallback;
+    const value = parseFloat(group.value);
+    return Number.isFinite(value) ? value : fallback;
+  }
+
+  private getNumbers(entity: DxfEntity, code: number): number[] {
+    return entity.groups.filter(g => g.code === code).map(g => parseFloat(g.value));
+  }
+
+  private isLayerIncluded(layer: string, document: DxfDocument, opts: DxfImportOptions): boolean {
+    if (opts.layers && opts.layers.length > 0 && !opts.layers.includes(layer)) return false;
+    if (opts.excludeLayers?.includes(layer)) return false;
+    if (!opts.includeHiddenLayers && document.layers.get(layer)?.visible === false) return false;
+    return true;
+  }
+
+  // ============================================================================
+  // Entity Conversion
+  // ============================================================================
+
+  private getInsertMatrix(entity: DxfEntity, block: DxfBlock): Matrix2D {
+    const insertion = translationMatrix(this.getNumber(entity, 10, 0), this.getNumber(entity, 20, 0));
+    const rotation = rotationMatrix((this.getNumber(entity, 50, 0) * Math.PI) / 180);
+    const scale = scaleMatrix(this.getNumber(entity, 41, 1), this.getNumber(entity, 42, 1));
+    const base = translationMatrix(-block.basePoint.x, -block.basePoint.y);
+
+    return multiplyMatrix(
+      multiplyMatrix(this.getExtrusionMatrix(entity), insertion),
+      multiplyMatrix(rotation, multiplyMatrix(scale, base))
+    );
+  }
+
+  /**
+   * Entities drawn with extrusion (0,0,-1) live in a mirrored object coordinate system
+   */
+  private getExtrusionMatrix(entity: DxfEntity): Matrix2D {
+    return this.getNumber(entity, 230, 1) < 0 ? scaleMatrix(-1, 1) : IDENTITY_MATRIX;
+  }
+
+  private convertEntity(
+    entity: DxfEntity,
+    opts: DxfImportOptions,
+    warnings: string[]
+  ): { segments: ContourSegment[]; closed: boolean } | null {
+    switch (entity.type) {
+      case 'LINE': {
+        const start = { x: this.getNumber(entity, 10, 0), y: this.getNumber(entity, 20, 0) };
+        const end = { x: this.getNumber(entity, 11, 0), y: this.getNumber(entity, 21, 0) };
+        if (distance(start, end) === 0) return null;
+        return { segments: [{ type: 'line', start, end }], closed: false };
+      }
+
+      case 'ARC': {
+        const center = { x: this.getNumber(entity, 10, 0), y: this.getNumber(entity, 20, 0) };
+        const radius = this.getNumber(entity, 40, 0);
+        const startAngle = (this.getNumber(entity, 50, 0) * Math.PI) / 180;
+        let sweep = (this.getNumber(entity, 51, 360) * Math.PI) / 180 - startAngle;
+        while (sweep <= 0) sweep += 2 * Math.PI;
+        while (sweep > 2 * Math.PI) sweep -= 2 * Math.PI;
+        if (radius <= 0) return null;
+        return {
+          segments: [{
+            type: 'arc',
+            center,
+            radius,
+            sweep,
+            start: arcPoint(center, radius, startAngle),
+            end: arcPoint(center, radius, startAngle + sweep)
+          }],
+          closed: false
+        };
+      }
+
+      case 'CIRCLE': {
+        const center = { x: this.getNumber(entity, 10, 0), y: this.getNumber(entity, 20, 0) };
+        const radius = this.getNumber(entity, 40, 0);
+        if (radius <= 0) return null;
+        const start = arcPoint(center, radius, 0);
+        return { segments: [{ type: 'arc', center, radius, sweep: 2 * Math.PI, start, end: start }], closed: true };
+      }
+
+      case 'LWPOLYLINE':
+        return this.convertPolyline(this.readLwPolylineVertices(entity), (this.getNumber(entity, 70, 0) & 1) === 1);
+
+      case 'POLYLINE': {
+        const vertices = (entity.vertices || []).map(v => ({
+          x: this.getNumber(v, 10, 0),
+          y: this.getNumber(v, 20, 0),
+          bulge: this.getNumber(v, 42, 0)
+        }));
+        return this.convertPolyline(vertices, (this.getNumber(entity, 70, 0) & 1) === 1);
+      }
+
+      case 'ELLIPSE':
+        return this.convertEllipse(entity, opts);
+
+      case 'SPLINE':
+        return this.convertSpline(entity, opts, warnings);
+
+      default:
+        return null;
+    }
+  }
+
+  private readLwPolylineVertices(entity: DxfEntity): Array<Point2D & { bulge: number }> {
+    const vertices: Array<Point2D & { bulge: number }> = [];
+    entity.groups.forEach(group => {
+      const value = parseFloat(group.value);
+      if (group.code === 10) {
+        vertices.push({ x: value, y: 0, bulge: 0 });
+      } else if (group.code === 20 && vertices.length > 0) {
+        vertices[vertices.length - 1].y = value;
+      } else if (group.code === 42 && vertices.length > 0) {
+        vertices[vertices.length - 1].bulge = value;
+      }
+    });
+    return vertices;
+  }
+
+  private convertPolyline(
+    vertices: Array<Point2D & { bulge: number }>,
+    closed: boolean
+  ): { segments: ContourSegment[]; closed: boolean } | null {
+    if (vertices.length < 2) return null;
+
+    // A closed flag with a duplicated last vertex is common; drop the duplicate
+    if (closed && vertices.length > 2 && distance(vertices[0], vertices[vertices.length - 1]) === 0) {
+      vertices = vertices.slice(0, -1);
+    }
+
+    const segments: ContourSegment[] = [];
+    const count = closed ? vertices.length : vertices.length - 1;
+
+    for (let i = 0; i < count; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const start = { x: a.x, y: a.y };
+      const end = { x: b.x, y: b.y };
+      const chord = distance(start, end);
+      if (chord === 0) continue;
+
+      if (Math.abs(a.bulge) < 1e-9) {
+        segments.push({ type: 'line', start, end });
+        continue;
+      }
+
+      // Bulge = tan(sweep / 4); centre lies on the left of the chord for positive bulge
+      const sweep = 4 * Math.atan(a.bulge);
+      const offset = (chord * (1 - a.bulge * a.bulge)) / (4 * a.bulge);
+      const normal = { x: -(end.y - start.y) / chord, y: (end.x - start.x) / chord };
+      const center = {
+        x: (start.x + end.x) / 2 + normal.x * offset,
+        y: (start.y + end.y) / 2 + normal.y * offset
+      };
+      const radius = (chord * (1 + a.bulge * a.bulge)) / (4 * Math.abs(a.bulge));
+      segments.push({ type: 'arc', start, end, center, radius, sweep });
+    }
+
+    return segments.length > 0 ? { segments, closed } : null;
+  }
+
+  private convertEllipse(entity: DxfEntity, opts: DxfImportOptions): { segments: ContourSegment[]; closed: boolean } | null {
+    const center = { x: this.getNumber(entity, 10, 0), y: this.getNumber(entity, 20, 0) };
+    const major = { x: this.getNumber(entity, 11, 0), y: this.getNumber(entity, 21, 0) };
+    const ratio = this.getNumber(entity, 40, 1);
+    const startParam = this.getNumber(entity, 41, 0);
+    let endParam = this.getNumber(entity, 42, 2 * Math.PI);
+    while (endParam <= startParam) endParam += 2 * Math.PI;
+
+    const majorRadius = Math.hypot(major.x, major.y);
+    if (majorRadius === 0) return null;
+    const minor = { x: -major.y * ratio, y: major.x * ratio };
+    const sweep = endParam - startParam;
+    const closed = Math.abs(sweep - 2 * Math.PI) < 1e-6;
+
+    // Divide using the major radius, which bounds the chord error everywhere on the ellipse
+    const divisions = Math.max(8, arcDivisions(majorRadius, sweep, opts.chordTolerance));
+    const points: Point2D[] = [];
+    for (let i = 0; i <= divisions; i++) {
+      const t = startParam + (sweep * i) / divisions;
+      points.push({
+        x: center.x + major.x * Math.cos(t) + minor.x * Math.sin(t),
+        y: center.y + major.y * Math.cos(t) + minor.y * Math.sin(t)
+      });
+    }
+    if (closed) points[points.length - 1] = points[0];
+
+    return { segments: [{ type: 'curve', points }], closed };
+  }
+
+  private convertSpline(
+    entity: DxfEntity,
+    opts: DxfImportOptions,
+    warnings: string[]
+  ): { segments: ContourSegment[]; closed: boolean } | null {
+    const degree = this.getNumber(entity, 71, 3);
+    const flags = this.getNumber(entity, 70, 0);
+    const knots = this.getNumbers(entity, 40);
+    const weights = this.getNumbers(entity, 41);
+    const xs = this.getNumbers(entity, 10);
+    const ys = this.getNumbers(entity, 20);
+    const controlPoints = xs.map((x, i) => ({ x, y: ys[i] ?? 0 }));
+
+    let points: Point2D[];
+
+    if (controlPoints.length > degree && knots.length === controlPoints.length + degree + 1) {
+      points = this.evaluateBSpline(controlPoints, knots, weights, degree, opts.chordTolerance);
+    } else {
+      const fitXs = this.getNumbers(entity, 11);
+      const fitYs = this.getNumbers(entity, 21);
+      points = fitXs.map((x, i) => ({ x, y: fitYs[i] ?? 0 }));
+      if (points.length < 2) return null;
+      warnings.push('SPLINE without control points imported through its fit points');
+    }
+
+    const closed = (flags & 1) === 1 || distance(points[0], points[points.length - 1]) < opts.chainTolerance;
+    if (closed) points[points.length - 1] = points[0];
+
+    return { segments: [{ type: 'curve', points }], closed };
+  }
+
+  /**
+   * Sample a (rational) B-spline with de Boor's algorithm
+   */
+  private evaluateBSpline(
+    controlPoints: Point2D[],
+    knots: number[],
+    weights: number[],
+    degree: number,
+    tolerance: number
+  ): Point2D[] {
+    const w = controlPoints.map((_, i) => weights[i] ?? 1);
+    const tStart = knots[degree];
+    const tEnd = knots[knots.length - degree - 1];
+
+    let polygonLength = 0;
+    for (let i = 1; i < controlPoints.length; i++) {
+      polygonLength += distance(controlPoints[i - 1], controlPoints[i]);
+    }
+    const samples = Math.min(4000, Math.max(controlPoints.length * 8, Math.ceil(Math.sqrt(polygonLength / tolerance)) * 4));
+
+    const evaluate = (t: number): Point2D => {
+      let span = degree;
+      while (span < knots.length - degree - 2 && t >= knots[span + 1]) span++;
+
+      const d = [];
+      for (let j = 0; j <= degree; j++) {
+        const p = controlPoints[span - degree + j];
+        const weight = w[span - degree + j];
+        d.push({ x: p.x * weight, y: p.y * weight, w: weight });
+      }
+      for (let r = 1; r <= degree; r++) {
+        for (let j = degree; j >= r; j--) {
+          const i = span - degree + j;
+          const denominator = knots[i + degree - r + 1] - knots[i];
+          const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator;
+          d[j] = {
+            x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+            y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+            w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+          };
+        }
+      }
+      return { x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w };
+    };
+
+    const points: Point2D[] = [];
+    for (let i = 0; i <= samples; i++) {
+      points.push(evaluate(tStart + ((tEnd - tStart) * i) / samples));
+    }
+    return points;
+  }
+
+  // ============================================================================
+  // Contour Assembly
+  // ============================================================================
+
+  /**
+   * Join open entities end-to-end into closed contours
+   */
+  private chainContours(pieces: RawContour[], tolerance: number): { closed: RawContour[]; open: RawContour[] } {
+    const remaining = pieces.map(p => ({ ...p, segments: [...p.segments] }));
+    const closed: RawContour[] = [];
+    const open: RawContour[] = [];
+
+    while (remaining.length > 0) {
+      const chain = remaining.shift()!;
+      let extended = true;
+
+      while (extended) {
+        extended = false;
+        const head = segmentStart(chain.segments[0]);
+        const tail = segmentEnd(chain.segments[chain.segments.length - 1]);
+        if (chain.segments.length > 1 && distance(head, tail) <= tolerance) break;
+
+        for (let i = 0; i < remaining.length; i++) {
+          const candidate = remaining[i];
+          const cStart = segmentStart(candidate.segments[0]);
+          const cEnd = segmentEnd(candidate.segments[candidate.segments.length - 1]);
+
+          if (distance(tail, cStart) <= tolerance) {
+            chain.segments.push(...candidate.segments);
+          } else if (distance(tail, cEnd) <= tolerance) {
+            chain.segments.push(...reverseContour(candidate.segments));
+          } else if (distance(head, cEnd) <= tolerance) {
+            chain.segments.unshift(...candidate.segments);
+          } else if (distance(head, cStart) <= tolerance) {
+            chain.segments.unshift(...reverseContour(candidate.segments));
+          } else {
+            continue;
+          }
+
+          remaining.splice(i, 1);
+          extended = true;
+          break;
+        }
+      }
+
+      const head = segmentStart(chain.segments[0]);
+      const tail = segmentEnd(chain.segments[chain.segments.length - 1]);
+      if (distance(head, tail) <= tolerance) {
+        closed.push(chain);
+      } else {
+        open.push(chain);
+      }
+    }
+
+    return { closed, open };
+  }
+
+  /**
+   * Turn closed contours into parts: outlines counter-clockwise, holes clockwise
+   */
+  private buildShapes(contours: RawContour[], tolerance: number): { shapes: GeometryShape[]; warnings: string[] } {
+    const { groups, degenerate } = groupContoursByContainment(contours.map(c => c.segments), tolerance);
+    const warnings = degenerate.map(index => `Ignored a degenerate closed contour on layer "${contours[index].layer}"`);
+
+    const toShape = (nested: NestedContour): GeometryShape => ({
+      type: 'custom',
+      dimensions: {
+        width: nested.bounds.maxX - nested.bounds.minX,
+        height: nested.bounds.maxY - nested.bounds.minY
+      },
+      contour: nested.segments,
+      layer: contours[nested.index].layer
+    });
+
+    const shapes = groups.map((group, index) => ({
+      ...toShape(group.outline),
+      name: `Part ${index + 1}`,
+      holes: group.holes.map(toShape)
+    }));
+
+    return { shapes, warnings };
+  }
+}
+
+// Export singleton instance
+export const dxfImporter = new DxfImporter();
@@ -0,0 +1,192 @@
+/**
+ * Gaussian Beam Model
+ * Propagation of an M² beam through the collimator and focusing lens: focused waist, Rayleigh
+ * length and depth of focus, and the beam diameter and peak intensity at any distance from focus
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BeamOptics {
+  mSquared: number;
+  wavelength: number; // μm
+  rawBeamDiameter: number; // mm; the fibre or resonator output when a collimator is given, else the beam on the lens
+  collimatorFocalLength?: number; // mm
+  focalLength: number; // mm, focusing lens
+}
+
+export interface BeamProfile {
+  lensBeamDiameter: number; // mm, collimated beam on the focusing lens
+  waistDiameter: number; // mm, 1/e² diameter at focus
+  rayleighLength: number; // mm, distance over which the diameter grows by √2
+  depthOfFocus: number; // mm, twice the Rayleigh length
+  focusTolerance: number; // ±mm of focus error that keeps the spot within 12% of the waist
+  divergence: number; // mrad, far-field full angle after the lens
+  beamParameterProduct: number; // mm·mrad
+  numericalAperture: number;
+}
+
+export interface CausticPoint {
+  depth: number; // mm below the sheet surface, negative above it
+  diameter: number; // mm
+  peakIntensity?: number; // W/mm²
+}
+
+export interface SheetCaustic {
+  thickness: number; // mm
+  focusPosition: number; // mm from the surface, negative = into the sheet
+  topDiameter: number; // mm
+  bottomDiameter: number; // mm
+  meanDiameter: number; // mm, averaged through the thickness
+  waistInSheet: boolean;
+  withinDepthOfFocus: boolean; // the whole thickness sits inside the depth of focus
+  points: CausticPoint[];
+}
+
+export interface CausticOptions {
+  points: number;
+  margin?: number; // mm plotted beyond the sheet and the waist, the Rayleigh length when omitted
+  power?: number; // W, adds the peak intensity to each point
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Half the Rayleigh length: the diameter grows by √1.25
+const FOCUS_TOLERANCE_SHARE = 0.5;
+
+const DEFAULT_CAUSTIC_OPTIONS: CausticOptions = {
+  points: 81
+};
+
+// ============================================================================
+// Gaussian Beam Model
+// ============================================================================
+
+export class GaussianBeamModel {
+  /**
+   * Focused beam from the optics. With a collimator the raw beam is imaged onto the work, so the
+   * waist is the raw diameter scaled by focal length over collimator focal length.
+   */
+  profile(optics: BeamOptics): BeamProfile {
+    this.validate(optics);
+    const wavelength = optics.wavelength / 1000; // mm
+    const lensBeamDiameter = optics.collimatorFocalLength
+      ? (4 * optics.mSquared * wavelength * optics.collimatorFocalLength) / (Math.PI * optics.rawBeamDiameter)
+      : optics.rawBeamDiameter;
+
+    const waistDiameter = (4 * optics.mSquared * wavelength * optics.focalLength) / (Math.PI * lensBeamDiameter);
+    const rayleighLength = (Math.PI * waistDiameter ** 2) / (4 * optics.mSquared * wavelength);
+    const divergence = waistDiameter / rayleighLength;
+
+    return {
+      lensBeamDiameter,
+      waistDiameter,
+      rayleighLength,
+      depthOfFocus: 2 * rayleighLength,
+      focusTolerance: rayleighLength * FOCUS_TOLERANCE_SHARE,
+      divergence: divergence * 1000,
+      beamParameterProduct: (waistDiameter / 2) * (divergence / 2) * 1000,
+      numericalAperture: lensBeamDiameter / (2 * optics.focalLength)
+    };
+  }
+
+  /**
+   * 1/e² diameter (mm) at z mm from the waist
+   */
+  diameterAt(optics: BeamOptics, z: number): number {
+    const { waistDiameter, rayleighLength } = this.profile(optics);
+    return waistDiameter * Math.sqrt(1 + (z / rayleighLength) ** 2);
+  }
+
+  /**
+   * Peak (on-axis) intensity in W/mm² at z mm from the waist, 2P / πw²
+   */
+  peakIntensityAt(optics: BeamOptics, power: number, z: number): number {
+    const radius = this.diameterAt(optics, z) / 2;
+    return (2 * power) / (Math.PI * radius ** 2);
+  }
+
+  /**
+   * Mean diameter (mm) between two distances from the waist, from the closed-form integral of
+   * the hyperbolic envelope
+   */
+  meanDiameter(optics: BeamOptics, from: number, to: number): number {
+    const { waistDiameter, rayleighLength } = this.profile(optics);
+    if (from === to) return waistDiameter * Math.sqrt(1 + (from / rayleighLength) ** 2);
+
+    const integral = (u: number) => u * Math.sqrt(1 + u * u) + Math.asinh(u);
+    const area = (waistDiameter * rayleighLength / 2) * (integral(to / rayleighLength) - integral(from / rayleighLength));
+    return area / (to - from);
+  }
+
+  /**
+   * The caustic placed against a sheet with the focus at focusPosition (negative = into the
+   * material), sampled from above the surface to below the bottom face and across the waist
+   */
+  throughSheet(
+    optics: BeamOptics,
+    thickness: number,
+    focusPosition: number,
+    options?: Partial<CausticOptions>
+  ): SheetCaustic {
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    const opts: CausticOptions = { ...DEFAULT_CAUSTIC_OPTIONS, ...Object.fromEntries(given) };
+    if (thickness <= 0) {
+      throw new Error('Sheet thickness must be greater than 0');
+    }
+    if (opts.points < 2) {
+      throw new Error('A caustic needs at least two points');
+    }
+
+    const { rayleighLength } = this.profile(optics);
+    const waistDepth = -focusPosition;
+    const margin = opts.margin ?? rayleighLength;
+    const start = Math.min(0, waistDepth) - margin;
+    const end = Math.max(thickness, waistDepth) + margin;
+    const distance = (depth: number) => depth - waistDepth;
+
+    const points = Array.from({ length: opts.points }, (_, i) => {
+      const depth = start + ((end - start) * i) / (opts.points - 1);
+      const point: CausticPoint = { depth, diameter: this.diameterAt(optics, distance(depth)) };
+      if (opts.power !== undefined) {
+        point.peakIntensity = this.peakIntensityAt(optics, opts.power, distance(depth));
+      }
+      return point;
+    });
+
+    return {
+      thickness,
+      focusPosition,
+      topDiameter: this.diameterAt(optics, distance(0)),
+      bottomDiameter: this.diameterAt(optics, distance(thickness)),
+      meanDiameter: this.meanDiameter(optics, distance(0), distance(thickness)),
+      waistInSheet: waistDepth >= 0 && waistDepth <= thickness,
+      withinDepthOfFocus: Math.max(Math.abs(distance(0)), Math.abs(distance(thickness))) <= rayleighLength,
+      points
+    };
+  }
+
+  private validate(optics: BeamOptics): void {
+    if (!(optics.mSquared >= 1)) {
+      throw new Error('M² must be at least 1');
+    }
+    if (!(optics.wavelength > 0)) {
+      throw new Error('Wavelength must be greater than 0');
+    }
+    if (!(optics.rawBeamDiameter > 0)) {
+      throw new Error('Raw beam diameter must be greater than 0');
+    }
+    if (!(optics.focalLength > 0)) {
+      throw new Error('Focal length must be greater than 0');
+    }
+    if (optics.collimatorFocalLength !== undefined && !(optics.collimatorFocalLength > 0)) {
+      throw new Error('Collimator focal length must be greater than 0');
+    }
+  }
+}
+
+// Export singleton instance
+export const gaussianBeamModel = new GaussianBeamModel();
@@ -1,10 +1,33 @@
 // 几何形状计算器 - Phase 3: 功能增强与扩展
 // 支持复杂几何形状的激光切割计算
 
+import {
+  contourSignedArea,
+  segmentLength,
+  segmentTangent
+} from '../utils/geometryUtils';
+import { NestingOptions, NestingResult, NestingSheet, nestingEngine } from './nestingEngine';
+import { ContourProcessingOptions, contourProcessor } from './contourProcessor';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// 轮廓段 - 圆弧sweep单位为弧度，正值为逆时针
+export type ContourSegment =
+  | { type: 'line'; start: Point2D; end: Point2D }
+  | { type: 'arc'; start: Point2D; end: Point2D; center: Point2D; radius: number; sweep: number }
+  | { type: 'curve'; points: Point2D[] }; // 已离散的样条/椭圆
+
 export interface GeometryShape {
   type: 'rectangle' | 'circle' | 'ellipse' | 'polygon' | 'custom';
   dimensions: Record<string, number>;
   holes?: GeometryShape[];
+  contour?: ContourSegment[]; // 'custom' 类型的真实闭合轮廓 (mm)
+  layer?: string;
+  name?: string;
+  kerfOffset?: number; // 已施加的割缝补偿 (mm)，轮廓外扩、孔内缩
 }
 
 export interface CuttingPath {
@@ -25,6 +48,20 @@ export interface GeometryCalculationResult {
   complexity: 'simple' | 'medium' | 'complex' | 'very_complex';
 }
 
+// 供切割时间/气体等计算器预填的几何数据
+export interface GeometryCalculatorPrefill {
+  cuttingLength: number; // mm
+  pierceCount: number;
+  cornerCount: number;
+  curveLength: number; // mm
+  partCount: number;
+  leadLength: number; // mm, 已计入cuttingLength
+  microJointCount: number; // 已计入pierceCount
+}
+
+// 切线方向变化超过该角度视为转角
+const CORNER_ANGLE_THRESHOLD = (15 * Math.PI) / 180;
+
 export class GeometryCalculator {
   
   /**
@@ -197,14 +234,16 @@ export class GeometryCalculator {
     
     const netArea = area - holeArea;
     const totalPerimeter = perimeter + holePerimeter;
+    // 只统计真实转角（离散曲线的细小折角不计）
+    const cornerCount = this.countPolygonCorners(vertices);
     
     const cuttingPath: CuttingPath = {
       totalLength: totalPerimeter,
       pierceCount: 1 + holePierces,
-      cornerCount: vertices.length,
+      cornerCount,
       curveLength: 0,
       straightLength: totalPerimeter,
-      complexity: 1 + vertices.length * 0.1 + holes.length * 0.5
+      complexity: 1 + cornerCount * 0.1 + holes.length * 0.5
     };
     
     return {
@@ -217,6 +256,66 @@ export class GeometryCalculator {
     };
   }
   
+  /**
+   * 计算真实轮廓（直线/圆弧/曲线段）
+   */
+  calculateContour(contour: ContourSegment[], holes: GeometryShape[] = []): GeometryCalculationResult {
+    if (contour.length === 0) {
+      throw new Error('Contour must have at least one segment');
+    }
+
+    const area = Math.abs(contourSignedArea(contour));
+
+    let perimeter = 0;
+    let curveLength = 0;
+    contour.forEach(segment => {
+      const length = segmentLength(segment);
+      perimeter += length;
+      if (segment.type !== 'line') curveLength += length;
+    });
+
+    const cornerCount = this.countCorners(contour);
+
+    // 孔按各自真实轮廓计算
+    let holeArea = 0;
+    let holePerimeter = 0;
+    let holeCurveLength = 0;
+    let holeCorners = 0;
+
+    holes.forEach(hole => {
+      const holeResult = this.calculateShape(hole);
+      holeArea += holeResult.area;
+      holePerimeter += holeResult.perimeter;
+      holeCurveLength += holeResult.cuttingPath.curveLength;
+      holeCorners += holeResult.cuttingPath.cornerCount;
+    });
+
+    const netArea = area - holeArea;
+    const totalPerimeter = perimeter + holePerimeter;
+    const totalCurveLength = curveLength + holeCurveLength;
+
+    const cuttingPath: CuttingPath = {
+      totalLength: totalPerimeter,
+      pierceCount: 1 + holes.length,
+      cornerCount: cornerCount + holeCorners,
+      curveLength: totalCurveLength,
+      straightLength: totalPerimeter - totalCurveLength,
+      complexity: Math.min(
+        5,
+        1 + (cornerCount + holeCorners) * 0.05 + (totalCurveLength / totalPerimeter) + holes.length * 0.5
+      )
+    };
+
+    return {
+      area: netArea,
+      perimeter: totalPerimeter,
+      cuttingPath,
+      materialUtilization: 100,
+      estimatedTime: this.estimateCuttingTime(cuttingPath),
+      complexity: this.getComplexityLevel(cuttingPath.complexity)
+    };
+  }
+
   /**
    * 通用形状计算
    */
@@ -236,10 +335,20 @@ export class GeometryCalculator {
           shape.dimensions.minorAxis,
           shape.holes
         );
-      case 'polygon':
+      case 'polygon': {
+        // 导入的多边形保留原始轮廓（精确圆弧）
+        if (shape.contour) {
+          return this.calculateContour(shape.contour, shape.holes);
+        }
         // 需要从dimensions中提取顶点信息
         const vertices = this.extractVertices(shape.dimensions);
         return this.calculatePolygon(vertices, shape.holes);
+      }
+      case 'custom':
+        if (!shape.contour) {
+          throw new Error('Custom shape requires a contour');
+        }
+        return this.calculateContour(shape.contour, shape.holes);
       default:
         throw new Error(`Unsupported shape type: ${shape.type}`);
     }
@@ -271,42 +380,78 @@ export class GeometryCalculator {
     return { individual, total };
   }
   
+  /**
+   * 汇总导入图形的切割数据，用于预填计算器输入
+   * 开放路径（未闭合的线条）各需要一次穿孔
+   * 传入轮廓处理参数时，引入/引出线长度计入切割长度，微连接后的重新起切计入穿孔数
+   */
+  getCalculatorPrefill(
+    shapes: GeometryShape[],
+    openPaths: ContourSegment[][] = [],
+    contourOptions?: Partial<ContourProcessingOptions>
+  ): GeometryCalculatorPrefill {
+    const results = shapes.map(shape => this.calculateShape(shape));
+    const processing = contourOptions ? contourProcessor.processShapes(shapes, contourOptions) : null;
+    const extraCutLength = processing ? processing.extraCutLength : 0;
+    const microJointCount = processing ? processing.microJointCount : 0;
+    const openLength = openPaths.reduce(
+      (sum, path) => sum + path.reduce((pathSum, segment) => pathSum + segmentLength(segment), 0),
+      0
+    );
+    const openCurveLength = openPaths.reduce(
+      (sum, path) => sum + path.filter(s => s.type !== 'line').reduce((pathSum, s) => pathSum + segmentLength(s), 0),
+      0
+    );
+
+    return {
+      cuttingLength: Math.round((results.reduce((sum, r) => sum + r.cuttingPath.totalLength, 0) + openLength + extraCutLength) * 10) / 10,
+      pierceCount: results.reduce((sum, r) => sum + r.cuttingPath.pierceCount, 0) + openPaths.length + microJointCount,
+      cornerCount: results.reduce((sum, r) => sum + r.cuttingPath.cornerCount, 0),
+      curveLength: Math.round((results.reduce((sum, r) => sum + r.cuttingPath.curveLength, 0) + openCurveLength) * 10) / 10,
+      partCount: shapes.length,
+      leadLength: Math.round((processing ? processing.leadLength : 0) * 10) / 10,
+      microJointCount
+    };
+  }
+
   /**
    * 嵌套优化计算
    */
-  calculateNesting(shapes: GeometryShape[], sheetWidth: number, sheetHeight: number): {
+  calculateNesting(
+    shapes: GeometryShape[],
+    sheetWidth: number,
+    sheetHeight: number,
+    options?: Partial<NestingOptions>
+  ): {
     layout: Array<{
       shape: GeometryShape;
       position: {x: number, y: number};
       rotation: number;
+      sheetIndex: number;
     }>;
     utilization: number;
     wasteArea: number;
     sheetsRequired: number;
+    sheets: NestingSheet[];
+    unplaced: NestingResult['unplaced'];
   } {
-    // 简化的嵌套算法 - 实际应用中需要更复杂的算法
-    const sheetArea = sheetWidth * sheetHeight;
-    const totalShapeArea = shapes.reduce((sum, shape) => {
-      const result = this.calculateShape(shape);
-      return sum + result.area;
-    }, 0);
-    
-    const sheetsRequired = Math.ceil(totalShapeArea / (sheetArea * 0.8)); // 假设80%利用率
-    const utilization = (totalShapeArea / (sheetsRequired * sheetArea)) * 100;
-    const wasteArea = (sheetsRequired * sheetArea) - totalShapeArea;
-    
-    // 简化的布局 - 实际需要复杂的嵌套算法
-    const layout = shapes.map((shape, index) => ({
-      shape,
-      position: { x: (index % 3) * 100, y: Math.floor(index / 3) * 100 },
-      rotation: 0
+    // 基于无拟合多边形(NFP)的真实形状排样
+    const result = nestingEngine.nest(shapes, sheetWidth, sheetHeight, options);
+    
+    const layout = result.placements.map(placement => ({
+      shape: placement.shape,
+      position: placement.position,
+      rotation: placement.rotation,
+      sheetIndex: placement.sheetIndex
     }));
     
     return {
       layout,
-      utilization: Math.round(utilization * 100) / 100,
-      wasteArea: Math.round(wasteArea),
-      sheetsRequired
+      utilization: result.utilization,
+      wasteArea: result.wasteArea,
+      sheetsRequired: result.sheetsRequired,
+      sheets: result.sheets,
+      unplaced: result.unplaced
     };
   }
   
@@ -321,6 +466,32 @@ export class GeometryCalculator {
     return Math.round((straightTime + curveTime + pierceTime + cornerTime) * 100) / 100;
   }
   
+  private countCorners(contour: ContourSegment[]): number {
+    let corners = 0;
+    for (let i = 0; i < contour.length; i++) {
+      const next = contour[(i + 1) % contour.length];
+      let turn = Math.abs(segmentTangent(next, 'start') - segmentTangent(contour[i], 'end'));
+      if (turn > Math.PI) turn = 2 * Math.PI - turn;
+      if (turn > CORNER_ANGLE_THRESHOLD) corners++;
+    }
+    return corners;
+  }
+
+  private countPolygonCorners(vertices: Array<{x: number, y: number}>): number {
+    let corners = 0;
+    for (let i = 0; i < vertices.length; i++) {
+      const prev = vertices[(i + vertices.length - 1) % vertices.length];
+      const next = vertices[(i + 1) % vertices.length];
+      let turn = Math.abs(
+        Math.atan2(next.y - vertices[i].y, next.x - vertices[i].x) -
+        Math.atan2(vertices[i].y - prev.y, vertices[i].x - prev.x)
+      );
+      if (turn > Math.PI) turn = 2 * Math.PI - turn;
+      if (turn > CORNER_ANGLE_THRESHOLD) corners++;
+    }
+    return corners;
+  }
+
   private getComplexityLevel(complexity: number): 'simple' | 'medium' | 'complex' | 'very_complex' {
     if (complexity <= 1.5) return 'simple';
     if (complexity <= 2.5) return 'medium';
@@ -0,0 +1,379 @@
+/**
+ * Global Sensitivity Analyzer
+ * Variance-based Sobol indices (Saltelli sampling) and Morris elementary-effects screening
+ * of a model or any BaseCalculator output over ranges of its numeric inputs
+ */
+
+import type { IBaseCalculator } from '../lib/calculator/BaseCalculator';
+import { seededRandom } from '../utils/random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SensitivityParameter {
+  name: string;
+  min: number;
+  max: number;
+}
+
+export type GlobalSensitivityMethod = 'sobol' | 'morris';
+
+export interface GlobalSensitivityOptions {
+  method: GlobalSensitivityMethod;
+  samples: number; // Sobol base sample size N; the model runs N × (parameters + 2) times
+  trajectories: number; // Morris trajectories r; the model runs r × (parameters + 1) times
+  levels: number; // Morris grid levels, even
+  bootstrap: number; // resamples for the Sobol confidence intervals, 0 = none
+  seed: number;
+}
+
+export interface CalculatorSensitivityOptions extends GlobalSensitivityOptions {
+  parameters?: SensitivityParameter[]; // default: every numeric input varied by ±variation around its base value
+  variation: number; // share of the base value, within the input's min and max
+}
+
+export interface SobolIndex {
+  parameter: string;
+  firstOrder: number; // share of the output variance from this parameter alone
+  totalOrder: number; // share including all its interactions
+  firstOrderConfidence: number; // 95% half-width from the bootstrap
+  totalOrderConfidence: number;
+}
+
+export interface MorrisEffect {
+  parameter: string;
+  mu: number; // mean elementary effect, output change over the parameter's full range
+  muStar: number; // mean absolute elementary effect, the importance measure
+  sigma: number; // spread of the effects: non-linearity or interactions
+}
+
+export interface GlobalSensitivityResult {
+  method: GlobalSensitivityMethod;
+  output?: string; // result path for calculator analyses
+  parameters: SensitivityParameter[];
+  evaluations: number;
+  mean: number;
+  variance: number;
+  sobol?: SobolIndex[];
+  interactionShare?: number; // variance left to interactions, 1 - Σ first-order
+  morris?: MorrisEffect[];
+  ranking: string[]; // most influential first
+}
+
+type SensitivityModel = (values: Record<string, number>) => number | Promise<number>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: GlobalSensitivityOptions = {
+  method: 'sobol',
+  samples: 512,
+  trajectories: 20,
+  levels: 4,
+  bootstrap: 100,
+  seed: 1
+};
+
+const DEFAULT_VARIATION = 0.2;
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+
+// ============================================================================
+// Global Sensitivity Analyzer
+// ============================================================================
+
+export class GlobalSensitivityAnalyzer {
+  /**
+   * Sobol indices or Morris effects of a model over the parameter ranges
+   */
+  async analyze(
+    parameters: SensitivityParameter[],
+    model: SensitivityModel,
+    options?: Partial<GlobalSensitivityOptions>
+  ): Promise<GlobalSensitivityResult> {
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    const opts: GlobalSensitivityOptions = { ...DEFAULT_OPTIONS, ...Object.fromEntries(given) };
+    this.validate(parameters, opts);
+    return opts.method === 'sobol'
+      ? this.sobol(parameters, model, opts)
+      : this.morris(parameters, model, opts);
+  }
+
+  /**
+   * Sensitivity of one numeric result field (dotted path into the result data) to the
+   * calculator's numeric inputs
+   */
+  async analyzeCalculator(
+    calculator: IBaseCalculator,
+    baseInputs: Record<string, unknown>,
+    output: string,
+    options?: Partial<CalculatorSensitivityOptions>
+  ): Promise<GlobalSensitivityResult> {
+    const inputs = calculator.resolveInputs(baseInputs);
+    const parameters = options?.parameters ??
+      this.calculatorParameters(calculator, inputs, options?.variation ?? DEFAULT_VARIATION);
+
+    const result = await this.analyze(parameters, async values => {
+      const calculation = await calculator.calculate({ ...inputs, ...values });
+      if (!calculation.success) {
+        throw new Error(`${calculator.config.id} failed: ${calculation.error ?? 'Unknown error'}`);
+      }
+      const value = output.split('.').reduce<unknown>(
+        (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+        calculation.data
+      );
+      if (typeof value !== 'number') {
+        throw new Error(`${calculator.config.id} has no numeric result at ${output}`);
+      }
+      return value;
+    }, options);
+
+    return { ...result, output };
+  }
+
+  toCsv(result: GlobalSensitivityResult): string {
+    const rows = result.sobol
+      ? [
+        ['parameter', 'min', 'max', 'first_order', 'first_order_ci95', 'total_order', 'total_order_ci95'],
+        ...result.sobol.map(index => {
+          const range = result.parameters.find(parameter => parameter.name === index.parameter);
+          return [index.parameter, range?.min, range?.max, index.firstOrder, index.firstOrderConfidence,
+            index.totalOrder, index.totalOrderConfidence];
+        })
+      ]
+      : [
+        ['parameter', 'min', 'max', 'mu', 'mu_star', 'sigma'],
+        ...(result.morris ?? []).map(effect => {
+          const range = result.parameters.find(parameter => parameter.name === effect.parameter);
+          return [effect.parameter, range?.min, range?.max, effect.mu, effect.muStar, effect.sigma];
+        })
+      ];
+    return rows.map(row => row.map(cell => this.csvCell(cell)).join(',')).join('\n') + '\n';
+  }
+
+  toJson(result: GlobalSensitivityResult): string {
+    return JSON.stringify(result, null, 2);
+  }
+
+  // ============================================================================
+  // Sobol
+  // ============================================================================
+
+  /**
+   * Saltelli (2010) first-order and Jansen total-order estimators from the sample
+   * matrices A, B and A with column i taken from B
+   */
+  private async sobol(
+    parameters: SensitivityParameter[],
+    model: SensitivityModel,
+    opts: GlobalSensitivityOptions
+  ): Promise<GlobalSensitivityResult> {
+    const random = seededRandom(opts.seed);
+    const n = opts.samples;
+    const k = parameters.length;
+    const a = Array.from({ length: n }, () => parameters.map(() => random()));
+    const b = Array.from({ length: n }, () => parameters.map(() => random()));
+
+    const fA = await this.evaluateAll(parameters, model, a);
+    const fB = await this.evaluateAll(parameters, model, b);
+    const fAB: number[][] = [];
+    for (let i = 0; i < k; i++) {
+      fAB.push(await this.evaluateAll(parameters, model, a.map((row, j) => row.map((u, p) => (p === i ? b[j][i] : u)))));
+    }
+
+    const all = Array.from({ length: n }, (_, j) => j);
+    const estimate = (rows: number[]) => this.sobolIndices(rows, fA, fB, fAB);
+    const point = estimate(all);
+
+    // Bootstrap over the sample rows for confidence intervals
+    const resamples = Array.from({ length: opts.bootstrap }, () =>
+      estimate(all.map(() => Math.floor(random() * n))));
+    const halfWidth = (pick: (indices: ReturnType<typeof estimate>) => number) =>
+      resamples.length > 1 ? Z_95 * this.standardDeviation(resamples.map(pick)) : 0;
+
+    const sobol: SobolIndex[] = parameters.map((parameter, i) => ({
+      parameter: parameter.name,
+      firstOrder: point.firstOrder[i],
+      totalOrder: point.totalOrder[i],
+      firstOrderConfidence: halfWidth(indices => indices.firstOrder[i]),
+      totalOrderConfidence: halfWidth(indices => indices.totalOrder[i])
+    }));
+    const outputs = [...fA, ...fB];
+
+    return {
+      method: 'sobol',
+      parameters,
+      evaluations: n * (k + 2),
+      mean: this.mean(outputs),
+      variance: point.variance,
+      sobol,
+      interactionShare: point.variance > 0 ? Math.max(0, 1 - sobol.reduce((sum, index) => sum + index.firstOrder, 0)) : 0,
+      ranking: [...sobol].sort((x, y) => y.totalOrder - x.totalOrder).map(index => index.parameter)
+    };
+  }
+
+  private sobolIndices(rows: number[], fA: number[], fB: number[], fAB: number[][]) {
+    const variance = this.variance(rows.flatMap(j => [fA[j], fB[j]]));
+    if (variance === 0) {
+      return { variance, firstOrder: fAB.map(() => 0), totalOrder: fAB.map(() => 0) };
+    }
+    const firstOrder = fAB.map(column =>
+      this.mean(rows.map(j => fB[j] * (column[j] - fA[j]))) / variance);
+    const totalOrder = fAB.map(column =>
+      this.mean(rows.map(j => (fA[j] - column[j]) ** 2)) / 2 / variance);
+    return { variance, firstOrder, totalOrder };
+  }
+
+  // ============================================================================
+  // Morris
+  // ============================================================================
+
+  /**
+   * One-at-a-time trajectories on a grid of the unit hypercube, each parameter
+   * stepped once per trajectory in random order
+   */
+  private async morris(
+    parameters: SensitivityParameter[],
+    model: SensitivityModel,
+    opts: GlobalSensitivityOptions
+  ): Promise<GlobalSensitivityResult> {
+    const random = seededRandom(opts.seed);
+    const k = parameters.length;
+    const delta = opts.levels / (2 * (opts.levels - 1));
+    const effects: number[][] = parameters.map(() => []);
+    const outputs: number[] = [];
+
+    for (let t = 0; t < opts.trajectories; t++) {
+      const point = parameters.map(() => Math.floor(random() * opts.levels) / (opts.levels - 1));
+      let previous = await this.evaluate(parameters, model, point);
+      outputs.push(previous);
+
+      const order = parameters.map((_, i) => i);
+      for (let i = k - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+
+      for (const i of order) {
+        const step = point[i] + delta <= 1 + 1e-12 ? delta : -delta;
+        point[i] += step;
+        const next = await this.evaluate(parameters, model, point);
+        outputs.push(next);
+        effects[i].push((next - previous) / step);
+        previous = next;
+      }
+    }
+
+    const morris: MorrisEffect[] = parameters.map((parameter, i) => ({
+      parameter: parameter.name,
+      mu: this.mean(effects[i]),
+      muStar: this.mean(effects[i].map(Math.abs)),
+      sigma: this.standardDeviation(effects[i])
+    }));
+
+    return {
+      method: 'morris',
+      parameters,
+      evaluations: opts.trajectories * (k + 1),
+      mean: this.mean(outputs),
+      variance: this.variance(outputs),
+      morris,
+      ranking: [...morris].sort((x, y) => y.muStar - x.muStar).map(effect => effect.parameter)
+    };
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private validate(parameters: SensitivityParameter[], opts: GlobalSensitivityOptions): void {
+    if (parameters.length === 0) {
+      throw new Error('Sensitivity analysis needs at least one parameter');
+    }
+    const names = new Set(parameters.map(parameter => parameter.name));
+    if (names.size !== parameters.length) {
+      throw new Error('Sensitivity parameter names must be unique');
+    }
+    parameters.forEach(parameter => {
+      if (!(parameter.max > parameter.min)) {
+        throw new Error(`${parameter.name}: max must be above min`);
+      }
+    });
+    if (opts.method === 'sobol' && (!Number.isInteger(opts.samples) || opts.samples < 2)) {
+      throw new Error('Sobol analysis needs a whole number of at least 2 samples');
+    }
+    if (opts.method === 'morris' && (!Number.isInteger(opts.trajectories) || opts.trajectories < 2)) {
+      throw new Error('Morris screening needs a whole number of at least 2 trajectories');
+    }
+    if (opts.method === 'morris' && (opts.levels < 2 || opts.levels % 2 !== 0)) {
+      throw new Error('Morris levels must be an even number');
+    }
+  }
+
+  private calculatorParameters(
+    calculator: IBaseCalculator,
+    inputs: Record<string, unknown>,
+    variation: number
+  ): SensitivityParameter[] {
+    return calculator.config.inputs
+      .filter(input => input.type === 'number' && typeof inputs[input.id] === 'number')
+      .map(input => {
+        const base = inputs[input.id] as number;
+        const spread = Math.abs(base) * variation;
+        return {
+          name: input.id,
+          min: Math.max(input.min ?? -Infinity, base - spread),
+          max: Math.min(input.max ?? Infinity, base + spread)
+        };
+      })
+      .filter(parameter => parameter.max > parameter.min);
+  }
+
+  private async evaluateAll(parameters: SensitivityParameter[], model: SensitivityModel, rows: number[][]): Promise<number[]> {
+    const outputs: number[] = [];
+    for (const row of rows) {
+      outputs.push(await this.evaluate(parameters, model, row));
+    }
+    return outputs;
+  }
+
+  // Model output at a point of the unit hypercube
+  private async evaluate(parameters: SensitivityParameter[], model: SensitivityModel, unit: number[]): Promise<number> {
+    const values: Record<string, number> = {};
+    parameters.forEach((parameter, i) => {
+      values[parameter.name] = parameter.min + unit[i] * (parameter.max - parameter.min);
+    });
+    const output = await model(values);
+    if (!Number.isFinite(output)) {
+      throw new Error(`Model returned ${output} for ${JSON.stringify(values)}`);
+    }
+    return output;
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private variance(values: number[]): number {
+    const mean = this.mean(values);
+    return values.length > 1
+      ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+      : 0;
+  }
+
+  private standardDeviation(values: number[]): number {
+    return Math.sqrt(this.variance(values));
+  }
+
+  private csvCell(value: unknown): string {
+    if (value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+// Export singleton instance
+export const globalSensitivityAnalyzer = new GlobalSensitivityAnalyzer();
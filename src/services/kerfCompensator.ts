@@ -0,0 +1,482 @@
+/**
+ * Kerf Compensator
+ * Offsets part geometry by half the kerf so the beam centre runs in the scrap: outlines
+ * grow and holes shrink. Lines and arcs are offset exactly, the raw offset is trimmed
+ * where it crosses itself, and features that close up or vanish are reported next to
+ * their nominal sizes.
+ */
+
+import type { ContourKind } from './contourProcessor';
+import type { ContourSegment, GeometryShape, Point2D } from './geometryCalculator';
+import type { NestingPlacement } from './nestingEngine';
+import {
+  DEFAULT_CHORD_TOLERANCE,
+  arcPoint,
+  contourLength,
+  contourSignedArea,
+  distance,
+  distanceToSegment,
+  flattenContour,
+  polygonBounds,
+  reverseContour,
+  segmentEnd,
+  segmentIntersections,
+  segmentLength,
+  segmentStart,
+  segmentTangent,
+  shapeToContours,
+  subSegment
+} from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CompensationStatus = 'ok' | 'merged' | 'split' | 'vanished';
+
+export interface FeatureSize {
+  width: number; // mm, bounding box
+  height: number; // mm
+  length: number; // mm of cut
+  area: number; // mm²
+}
+
+export interface CompensatedFeature {
+  id: string; // 'outline' or 'hole-1', 'hole-2', ...
+  kind: ContourKind;
+  nominal: FeatureSize;
+  compensated: FeatureSize | null; // null when the feature vanished
+  status: CompensationStatus;
+  message?: string;
+}
+
+export interface ShapeCompensation {
+  shapeIndex: number;
+  name: string;
+  offset: number; // mm, outward for the outline and inward for holes
+  compensated: GeometryShape;
+  features: CompensatedFeature[];
+}
+
+export interface KerfCompensationResult {
+  kerfWidth: number; // mm
+  offset: number; // mm, half the kerf
+  shapes: GeometryShape[]; // compensated, in input order
+  report: ShapeCompensation[];
+  warnings: string[];
+}
+
+export interface ContourOffset {
+  loops: ContourSegment[][]; // closed, same orientation as the input unless cut off behind a gap
+  closedEdges: number; // input edges longer than twice the offset with nothing left of them
+}
+
+type LineOrArc = Exclude<ContourSegment, { type: 'curve' }>;
+
+// Piece of the raw offset, with the input segment it came from (-1 for corner joins)
+interface RawPiece {
+  segment: LineOrArc;
+  source: number;
+  raw: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LENGTH_EPSILON = 1e-9; // mm, shorter pieces are dropped
+const JOIN_TOLERANCE = 1e-6; // mm, piece ends closer than this are connected
+const AREA_EPSILON = 1e-9; // mm², smaller loops are dropped
+
+// ============================================================================
+// Kerf Compensator
+// ============================================================================
+
+export class KerfCompensator {
+  /**
+   * Compensate every shape by half the kerf width
+   */
+  compensate(shapes: GeometryShape[], kerfWidth: number, chordTolerance = DEFAULT_CHORD_TOLERANCE): KerfCompensationResult {
+    if (!(kerfWidth >= 0)) {
+      throw new Error('Kerf width must be zero or positive');
+    }
+
+    const report = shapes.map((shape, index) => this.compensateShape(shape, kerfWidth, index, chordTolerance));
+    const warnings = report.flatMap(entry =>
+      entry.features
+        .filter(feature => feature.message)
+        .map(feature => `${entry.name} ${feature.id}: ${feature.message}`)
+    );
+
+    return {
+      kerfWidth,
+      offset: kerfWidth / 2,
+      shapes: report.map(entry => entry.compensated),
+      report,
+      warnings
+    };
+  }
+
+  compensateShape(
+    shape: GeometryShape,
+    kerfWidth: number,
+    shapeIndex = 0,
+    chordTolerance = DEFAULT_CHORD_TOLERANCE
+  ): ShapeCompensation {
+    if (shape.kerfOffset !== undefined) {
+      throw new Error(`Shape ${shapeIndex + 1} is already kerf-compensated`);
+    }
+
+    const offset = kerfWidth / 2;
+    const name = shape.name ?? `Part ${shapeIndex + 1}`;
+    const { outline, holes } = shapeToContours(shape, chordTolerance);
+    if (outline.length === 0) {
+      throw new Error(`Shape ${shapeIndex + 1} has no outline to compensate`);
+    }
+
+    const features: CompensatedFeature[] = [];
+    const compensatedHoles: ContourSegment[][] = [];
+
+    // Outline counter-clockwise and holes clockwise: the scrap is always on the right
+    const outer = this.offsetContour(orient(outline, true), offset, chordTolerance);
+    const outlines = outer.loops.filter(loop => contourSignedArea(loop) > 0);
+    const pockets = outer.loops.filter(loop => contourSignedArea(loop) < 0);
+    const compensatedOutline = outlines.reduce<ContourSegment[]>(
+      (best, loop) => (Math.abs(contourSignedArea(loop)) > Math.abs(contourSignedArea(best)) ? loop : best),
+      outlines[0] ?? []
+    );
+    compensatedHoles.push(...pockets);
+
+    const outlineMessages: string[] = [];
+    if (outer.closedEdges > 0) {
+      outlineMessages.push(`${outer.closedEdges} edge(s) close up where gaps are narrower than the ${kerfWidth} mm kerf`);
+    }
+    if (pockets.length > 0) {
+      outlineMessages.push(`${pockets.length} pocket(s) behind a narrower gap are cut as separate holes`);
+    }
+    features.push({
+      id: 'outline',
+      kind: 'outer',
+      nominal: featureSize([outline], chordTolerance),
+      compensated: compensatedOutline.length > 0 ? featureSize([compensatedOutline], chordTolerance) : null,
+      status: compensatedOutline.length === 0 ? 'vanished' : outlineMessages.length > 0 ? 'merged' : 'ok',
+      message: outlineMessages.length > 0 ? outlineMessages.join('; ') : undefined
+    });
+
+    holes.forEach((hole, k) => {
+      const { loops, closedEdges } = this.offsetContour(orient(hole, false), offset, chordTolerance);
+      const kept = loops.filter(loop => contourSignedArea(loop) < 0);
+      compensatedHoles.push(...kept);
+
+      let status: CompensationStatus = 'ok';
+      let message: string | undefined;
+      if (kept.length === 0) {
+        status = 'vanished';
+        message = `narrower than the ${kerfWidth} mm kerf; it cannot be cut`;
+      } else if (kept.length > 1) {
+        status = 'split';
+        message = `splits into ${kept.length} cut-outs where it is narrower than the kerf`;
+      } else if (closedEdges > 0) {
+        status = 'merged';
+        message = `${closedEdges} edge(s) merge where the hole is narrower than the kerf`;
+      }
+
+      features.push({
+        id: `hole-${k + 1}`,
+        kind: 'inner',
+        nominal: featureSize([hole], chordTolerance),
+        compensated: kept.length > 0 ? featureSize(kept, chordTolerance) : null,
+        status,
+        message
+      });
+    });
+
+    const bounds = polygonBounds(flattenContour(compensatedOutline, chordTolerance));
+    const asShape = (contour: ContourSegment[]): GeometryShape => {
+      const b = polygonBounds(flattenContour(contour, chordTolerance));
+      return { type: 'custom', dimensions: { width: b.maxX - b.minX, height: b.maxY - b.minY }, contour };
+    };
+
+    return {
+      shapeIndex,
+      name,
+      offset,
+      compensated: {
+        type: 'custom',
+        dimensions: { width: bounds.maxX - bounds.minX, height: bounds.maxY - bounds.minY },
+        contour: compensatedOutline,
+        // Holes without a position on the part stay nominal
+        holes: [
+          ...compensatedHoles.map(asShape),
+          ...(shape.holes ?? []).filter(hole => !hole.contour && hole.type !== 'polygon')
+        ],
+        layer: shape.layer,
+        name: shape.name,
+        kerfOffset: offset
+      },
+      features
+    };
+  }
+
+  /**
+   * Layout with compensated part geometry; parts compensated before nesting are kept
+   */
+  compensatePlacements(
+    placements: NestingPlacement[],
+    kerfWidth: number,
+    chordTolerance = DEFAULT_CHORD_TOLERANCE
+  ): { placements: NestingPlacement[]; warnings: string[] } {
+    const compensated = new Map<GeometryShape, GeometryShape>();
+    const warnings: string[] = [];
+
+    const result = placements.map(placement => {
+      if (placement.shape.kerfOffset !== undefined || kerfWidth <= 0) return placement;
+      let shape = compensated.get(placement.shape);
+      if (!shape) {
+        const entry = this.compensateShape(placement.shape, kerfWidth, placement.shapeIndex, chordTolerance);
+        entry.features.forEach(feature => {
+          if (feature.message) warnings.push(`${entry.name} ${feature.id}: ${feature.message}`);
+        });
+        shape = entry.compensated;
+        compensated.set(placement.shape, shape);
+      }
+      return { ...placement, shape };
+    });
+
+    return { placements: result, warnings };
+  }
+
+  /**
+   * Offset a closed contour to the right of its direction of travel (outward for a
+   * counter-clockwise outline, inward for a clockwise hole). Convex corners get round
+   * joins; the raw offset is split where it crosses itself and only pieces lying the full
+   * offset away from the contour are kept.
+   */
+  offsetContour(contour: ContourSegment[], offset: number, chordTolerance = DEFAULT_CHORD_TOLERANCE): ContourOffset {
+    const segments = toLinesAndArcs(contour);
+    if (segments.length === 0) return { loops: [], closedEdges: 0 };
+    if (offset === 0) return { loops: [segments], closedEdges: 0 };
+
+    const raw = rawOffset(segments, offset);
+    const pieces = splitAtCrossings(raw);
+
+    // A piece of the true offset lies the full offset away from every input segment
+    const tolerance = Math.max(1e-7, offset * 1e-6, chordTolerance * 1e-4);
+    const kept = pieces.filter(piece => {
+      const length = segmentLength(piece.segment);
+      const mid = segmentStart(subSegment(piece.segment, length / 2, length / 2));
+      return segments.every(segment => distanceToSegment(mid, segment) >= offset - tolerance);
+    });
+
+    const loops = chainLoops(kept)
+      .map(loop => mergePieces(loop))
+      .filter(loop => Math.abs(contourSignedArea(loop.map(piece => piece.segment))) > AREA_EPSILON);
+
+    const survived = new Set(loops.flat().map(piece => piece.source));
+    const closedEdges = segments.filter(
+      (segment, index) => segmentLength(segment) > 2 * offset && !survived.has(index)
+    ).length;
+
+    return { loops: loops.map(loop => loop.map(piece => piece.segment)), closedEdges };
+  }
+}
+
+// ============================================================================
+// Offsetting
+// ============================================================================
+
+function orient(contour: ContourSegment[], counterClockwise: boolean): ContourSegment[] {
+  return contourSignedArea(contour) > 0 === counterClockwise ? contour : reverseContour(contour);
+}
+
+function toLinesAndArcs(contour: ContourSegment[]): LineOrArc[] {
+  const result: LineOrArc[] = [];
+  contour.forEach(segment => {
+    if (segment.type === 'curve') {
+      for (let i = 1; i < segment.points.length; i++) {
+        result.push({ type: 'line', start: segment.points[i - 1], end: segment.points[i] });
+      }
+    } else {
+      result.push(segment);
+    }
+  });
+  return result.filter(segment => segmentLength(segment) > LENGTH_EPSILON);
+}
+
+function rightOf(p: Point2D, tangent: number, offset: number): Point2D {
+  return { x: p.x + Math.sin(tangent) * offset, y: p.y - Math.cos(tangent) * offset };
+}
+
+/**
+ * Every segment moved by the offset, joined by arcs where the offset opens up (left turns)
+ * and by lines through the corner point where it folds over (trimmed afterwards)
+ */
+function rawOffset(segments: LineOrArc[], offset: number): RawPiece[] {
+  const raw: LineOrArc[] = [];
+  const sources: number[] = [];
+  const push = (segment: LineOrArc, source: number) => {
+    if (segmentLength(segment) > LENGTH_EPSILON) {
+      raw.push(segment);
+      sources.push(source);
+    }
+  };
+
+  segments.forEach((segment, i) => {
+    if (segment.type === 'line') {
+      const tangent = segmentTangent(segment, 'start');
+      push({ type: 'line', start: rightOf(segment.start, tangent, offset), end: rightOf(segment.end, tangent, offset) }, i);
+    } else {
+      // Right of a counter-clockwise arc is away from its centre
+      const radius = segment.radius + Math.sign(segment.sweep) * offset;
+      const angle = (p: Point2D) => Math.atan2(p.y - segment.center.y, p.x - segment.center.x) + (radius < 0 ? Math.PI : 0);
+      push({
+        type: 'arc',
+        start: arcPoint(segment.center, Math.abs(radius), angle(segment.start)),
+        end: arcPoint(segment.center, Math.abs(radius), angle(segment.end)),
+        center: segment.center,
+        radius: Math.abs(radius),
+        sweep: segment.sweep
+      }, i);
+    }
+
+    const next = segments[(i + 1) % segments.length];
+    const corner = segmentEnd(segment);
+    const outgoing = segmentTangent(segment, 'end');
+    const incoming = segmentTangent(next, 'start');
+    const from = rightOf(corner, outgoing, offset);
+    const to = rightOf(corner, incoming, offset);
+    if (distance(from, to) <= JOIN_TOLERANCE) return;
+
+    let turn = incoming - outgoing;
+    turn = Math.atan2(Math.sin(turn), Math.cos(turn));
+    if (turn > 0 || Math.abs(turn) > Math.PI - 1e-9) {
+      push({ type: 'arc', start: from, end: to, center: corner, radius: offset, sweep: turn > 0 ? turn : Math.PI }, -1);
+    } else {
+      push({ type: 'line', start: from, end: corner }, -1);
+      push({ type: 'line', start: corner, end: to }, -1);
+    }
+  });
+
+  return raw.map((segment, index) => ({ segment, source: sources[index], raw: index }));
+}
+
+/**
+ * Split raw pieces wherever they cross another piece
+ */
+function splitAtCrossings(raw: RawPiece[]): RawPiece[] {
+  const cuts = raw.map(() => [] as number[]);
+  const boxes = raw.map(piece => segmentBox(piece.segment));
+
+  for (let i = 0; i < raw.length; i++) {
+    for (let j = i + 1; j < raw.length; j++) {
+      const a = boxes[i];
+      const b = boxes[j];
+      if (a.maxX < b.minX - JOIN_TOLERANCE || b.maxX < a.minX - JOIN_TOLERANCE ||
+          a.maxY < b.minY - JOIN_TOLERANCE || b.maxY < a.minY - JOIN_TOLERANCE) {
+        continue;
+      }
+      segmentIntersections(raw[i].segment, raw[j].segment).forEach(({ along }) => {
+        cuts[i].push(along[0]);
+        cuts[j].push(along[1]);
+      });
+    }
+  }
+
+  return raw.flatMap((piece, i) => {
+    const length = segmentLength(piece.segment);
+    const positions = [0, ...cuts[i].filter(s => s > LENGTH_EPSILON && s < length - LENGTH_EPSILON), length]
+      .sort((a, b) => a - b);
+    const result: RawPiece[] = [];
+    for (let k = 1; k < positions.length; k++) {
+      if (positions[k] - positions[k - 1] > LENGTH_EPSILON) {
+        result.push({ ...piece, segment: subSegment(piece.segment, positions[k - 1], positions[k]) as LineOrArc });
+      }
+    }
+    return result;
+  });
+}
+
+function segmentBox(segment: LineOrArc) {
+  if (segment.type === 'arc') {
+    return {
+      minX: segment.center.x - segment.radius,
+      minY: segment.center.y - segment.radius,
+      maxX: segment.center.x + segment.radius,
+      maxY: segment.center.y + segment.radius
+    };
+  }
+  return polygonBounds([segment.start, segment.end]);
+}
+
+/**
+ * Connect kept pieces end to start into closed loops; open chains are dropped
+ */
+function chainLoops(pieces: RawPiece[]): RawPiece[][] {
+  const used = pieces.map(() => false);
+  const loops: RawPiece[][] = [];
+
+  pieces.forEach((first, index) => {
+    if (used[index]) return;
+    used[index] = true;
+    const loop = [first];
+    const start = segmentStart(first.segment);
+    let end = segmentEnd(first.segment);
+
+    while (distance(end, start) > JOIN_TOLERANCE) {
+      // Nearest piece starting here; the continuation on the raw offset wins a tie
+      let next = -1;
+      let nearest = Infinity;
+      const last = loop[loop.length - 1];
+      pieces.forEach((candidate, k) => {
+        if (used[k]) return;
+        const gap = distance(segmentStart(candidate.segment), end);
+        if (gap > JOIN_TOLERANCE) return;
+        const score = candidate.raw === last.raw || candidate.raw === last.raw + 1 ? gap - JOIN_TOLERANCE : gap;
+        if (score < nearest) {
+          nearest = score;
+          next = k;
+        }
+      });
+      if (next < 0) break;
+      used[next] = true;
+      loop.push(pieces[next]);
+      end = segmentEnd(pieces[next].segment);
+    }
+
+    if (distance(end, start) <= JOIN_TOLERANCE) loops.push(loop);
+  });
+
+  return loops;
+}
+
+/**
+ * Re-join consecutive pieces of the same raw segment
+ */
+function mergePieces(loop: RawPiece[]): RawPiece[] {
+  const merged: RawPiece[] = [];
+  loop.forEach(piece => {
+    const last = merged[merged.length - 1];
+    if (last && last.raw === piece.raw && last.segment.type === piece.segment.type) {
+      const segment = last.segment.type === 'arc' && piece.segment.type === 'arc'
+        ? { ...last.segment, end: piece.segment.end, sweep: last.segment.sweep + piece.segment.sweep }
+        : { ...last.segment, end: segmentEnd(piece.segment) };
+      merged[merged.length - 1] = { ...last, segment: segment as LineOrArc };
+    } else {
+      merged.push(piece);
+    }
+  });
+  return merged;
+}
+
+function featureSize(loops: ContourSegment[][], chordTolerance: number): FeatureSize {
+  const bounds = polygonBounds(loops.flatMap(loop => flattenContour(loop, chordTolerance)));
+  return {
+    width: bounds.maxX - bounds.minX,
+    height: bounds.maxY - bounds.minY,
+    length: loops.reduce((sum, loop) => sum + contourLength(loop), 0),
+    area: loops.reduce((sum, loop) => sum + Math.abs(contourSignedArea(loop)), 0)
+  };
+}
+
+// Export singleton instance
+export const kerfCompensator = new KerfCompensator();
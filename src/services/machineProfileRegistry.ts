@@ -0,0 +1,315 @@
+/**
+ * Machine Profile Registry
+ * The laser cutters a user or team owns: source, power, optics, nozzle set, bed, axes,
+ * gas supply, cutting capability and hourly rates. Calculators take a machineId and
+ * fill and check their inputs against the profile. Added profiles are kept in local storage.
+ */
+
+import { LaserMachine, LaserSource } from '../types/calculator';
+import type { ValidationResult } from '../lib/calculator/BaseCalculator';
+import { MACHINE_PROFILES } from '../data/machineProfiles';
+import { materialRegistry } from './materialRegistry';
+import { contentHash } from '../utils/contentHash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MachineFilter {
+  teamId?: string; // profiles shared with this team, plus built-in and personal ones
+  source?: LaserSource;
+}
+
+export type MachineCheck = Pick<ValidationResult, 'errors' | 'warnings'>;
+
+type CalculatorInputs = Record<string, unknown>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Calculator inputs that describe the machine itself; a selected machine always sets them
+ */
+const MACHINE_INPUTS: Record<string, (machine: LaserMachine) => string | number> = {
+  laserType: machine => machine.source,
+  maxPower: machine => machine.maxPower,
+  maxLaserPower: machine => machine.maxPower,
+  beamQuality: machine => machine.beamQuality,
+  focalLength: machine => machine.focalLength
+};
+
+/**
+ * Inputs a selected machine only fills when they are left empty
+ */
+const DEFAULT_INPUTS: Record<string, (machine: LaserMachine) => string | number> = {
+  laserPower: machine => machine.maxPower,
+  power: machine => machine.maxPower,
+  nozzleDiameter: machine => machine.nozzles[0],
+  assistGas: machine => machine.gasSupply.gases[0]
+};
+
+const STORAGE_KEY = 'laser-calc-machines';
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function numberInput(inputs: CalculatorInputs, field: string): number | undefined {
+  const value = inputs[field];
+  return typeof value === 'number' ? value : undefined;
+}
+
+// ============================================================================
+// Machine Profile Registry
+// ============================================================================
+
+export class MachineProfileRegistry {
+  private machines = new Map<string, LaserMachine>();
+  private builtIn = new Set<string>();
+  private version: string | null = null;
+
+  constructor(definitions: LaserMachine[] = MACHINE_PROFILES) {
+    definitions.forEach(machine => {
+      this.machines.set(machine.id, machine);
+      this.builtIn.add(machine.id);
+    });
+    this.loadFromStorage();
+  }
+
+  has(id: string): boolean {
+    return this.machines.has(id);
+  }
+
+  find(id: string): LaserMachine | undefined {
+    return this.machines.get(id);
+  }
+
+  get(id: string): LaserMachine {
+    const machine = this.machines.get(id);
+    if (!machine) {
+      throw new Error(`Unknown machine: ${id}`);
+    }
+    return machine;
+  }
+
+  list(filter: MachineFilter = {}): LaserMachine[] {
+    return Array.from(this.machines.values()).filter(machine =>
+      (!machine.teamId || machine.teamId === filter.teamId) &&
+      (!filter.source || machine.source === filter.source)
+    );
+  }
+
+  /**
+   * Content hash of every profile, built-in and registered; changes whenever a profile does
+   */
+  dataVersion(): string {
+    return (this.version ??= contentHash(Object.fromEntries(this.machines)));
+  }
+
+  /**
+   * Add or replace a user or team profile. Built-in profiles cannot be replaced.
+   */
+  register(machine: LaserMachine): LaserMachine {
+    if (this.builtIn.has(machine.id)) {
+      throw new Error(`The built-in machine ${machine.id} cannot be replaced`);
+    }
+    this.validate(machine);
+    this.machines.set(machine.id, machine);
+    this.version = null;
+    this.saveToStorage();
+    return machine;
+  }
+
+  /**
+   * Register a profile derived from an existing one, overriding only some properties
+   */
+  extend(
+    baseId: string,
+    changes: Partial<Omit<LaserMachine, 'axes' | 'gasSupply' | 'operatingCost'>> & {
+      id: string;
+      name: string;
+      axes?: Partial<LaserMachine['axes']>;
+      gasSupply?: Partial<LaserMachine['gasSupply']>;
+      operatingCost?: Partial<LaserMachine['operatingCost']>;
+    }
+  ): LaserMachine {
+    const base = this.get(baseId);
+    return this.register({
+      ...base,
+      ...changes,
+      axes: { ...base.axes, ...changes.axes },
+      gasSupply: { ...base.gasSupply, ...changes.gasSupply },
+      operatingCost: { ...base.operatingCost, ...changes.operatingCost }
+    });
+  }
+
+  remove(id: string): boolean {
+    if (this.builtIn.has(id)) return false;
+    const removed = this.machines.delete(id);
+    if (removed) {
+      this.version = null;
+      this.saveToStorage();
+    }
+    return removed;
+  }
+
+  /**
+   * Inputs with the machine applied. Only fields the calculator has are touched: the
+   * machine's own properties replace what was entered, defaults fill empty fields.
+   */
+  fillInputs(id: string, inputs: CalculatorInputs, fieldIds: string[]): CalculatorInputs {
+    const machine = this.get(id);
+    const filled = { ...inputs };
+
+    fieldIds.forEach(field => {
+      if (MACHINE_INPUTS[field]) {
+        filled[field] = MACHINE_INPUTS[field](machine);
+      } else if (DEFAULT_INPUTS[field] && isEmpty(filled[field])) {
+        filled[field] = DEFAULT_INPUTS[field](machine);
+      }
+    });
+
+    return filled;
+  }
+
+  /**
+   * The given fields a selected machine always sets, whatever was entered
+   */
+  suppliedFields(fieldIds: string[]): string[] {
+    return fieldIds.filter(field => MACHINE_INPUTS[field]);
+  }
+
+  /**
+   * Inputs the machine cannot run. Speeds are in mm/min, pressures in bar and lengths in mm.
+   */
+  checkInputs(id: string, inputs: CalculatorInputs): MachineCheck {
+    const machine = this.get(id);
+    const errors: MachineCheck['errors'] = [];
+    const warnings: MachineCheck['warnings'] = [];
+
+    ['laserPower', 'power'].forEach(field => {
+      if ((numberInput(inputs, field) ?? 0) > machine.maxPower) {
+        errors.push({
+          field,
+          message: `${machine.name} delivers at most ${machine.maxPower} W`,
+          code: 'MACHINE_POWER_EXCEEDED'
+        });
+      }
+    });
+
+    if (typeof inputs.thickness === 'number' && typeof inputs.materialType === 'string') {
+      const limit = materialRegistry.byFamily(inputs.materialType, machine.maxThickness);
+      if (limit === undefined && materialRegistry.has(inputs.materialType)) {
+        warnings.push({
+          field: 'materialType',
+          message: `${machine.name} has no rated thickness for ${inputs.materialType}`,
+          code: 'MACHINE_MATERIAL_UNRATED'
+        });
+      } else if (limit !== undefined && inputs.thickness > limit) {
+        errors.push({
+          field: 'thickness',
+          message: `${machine.name} cuts ${inputs.materialType} up to ${limit} mm`,
+          code: 'MACHINE_THICKNESS_EXCEEDED'
+        });
+      }
+    }
+
+    const gas = inputs.assistGas;
+    if (typeof gas === 'string' && gas !== '' && !(machine.gasSupply.gases as string[]).includes(gas)) {
+      errors.push({
+        field: 'assistGas',
+        message: `${machine.name} has no ${gas} supply`,
+        code: 'MACHINE_GAS_UNAVAILABLE'
+      });
+    }
+
+    if ((numberInput(inputs, 'gasPressure') ?? 0) > machine.gasSupply.maxPressure) {
+      errors.push({
+        field: 'gasPressure',
+        message: `${machine.name} supplies gas at up to ${machine.gasSupply.maxPressure} bar`,
+        code: 'MACHINE_PRESSURE_EXCEEDED'
+      });
+    }
+
+    if ((numberInput(inputs, 'cuttingSpeed') ?? 0) > machine.axes.maxCuttingSpeed) {
+      errors.push({
+        field: 'cuttingSpeed',
+        message: `${machine.name} cuts at up to ${machine.axes.maxCuttingSpeed} mm/min`,
+        code: 'MACHINE_SPEED_EXCEEDED'
+      });
+    }
+
+    const nozzle = numberInput(inputs, 'nozzleDiameter');
+    if (nozzle !== undefined && !machine.nozzles.includes(nozzle)) {
+      warnings.push({
+        field: 'nozzleDiameter',
+        message: `${nozzle} mm is not in the nozzle set of ${machine.name}`,
+        code: 'MACHINE_NOZZLE_MISSING'
+      });
+    }
+
+    if (typeof inputs.length === 'number' && typeof inputs.width === 'number') {
+      const { x, y } = machine.workingArea;
+      const fits = (inputs.length <= x && inputs.width <= y) || (inputs.length <= y && inputs.width <= x);
+      if (!fits) {
+        errors.push({
+          field: 'length',
+          message: `The part does not fit the ${x} × ${y} mm bed of ${machine.name}`,
+          code: 'MACHINE_BED_EXCEEDED'
+        });
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  private validate(machine: LaserMachine): void {
+    if (!machine.id || !machine.name) {
+      throw new Error('A machine needs an id and a name');
+    }
+    const positive = [
+      machine.maxPower, machine.beamQuality, machine.focalLength,
+      machine.workingArea.x, machine.workingArea.y,
+      machine.axes.rapidSpeed, machine.axes.maxCuttingSpeed, machine.axes.acceleration
+    ];
+    if (positive.some(value => !(value > 0))) {
+      throw new Error('Machine power, optics, bed and axis values must be positive numbers');
+    }
+    if (machine.beamQuality < 1) {
+      throw new Error('Beam quality (M²) cannot be below 1');
+    }
+    if (machine.nozzles.length === 0 || machine.nozzles.some(diameter => !(diameter > 0))) {
+      throw new Error('A machine needs at least one nozzle with a positive diameter');
+    }
+    if (machine.gasSupply.gases.length === 0) {
+      throw new Error('A machine needs at least one assist gas');
+    }
+  }
+
+  private loadFromStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      (JSON.parse(stored) as LaserMachine[]).forEach(machine => {
+        if (!this.builtIn.has(machine.id)) this.machines.set(machine.id, machine);
+      });
+    } catch (error) {
+      console.warn('Failed to load machine profiles from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const custom = Array.from(this.machines.values()).filter(machine => !this.builtIn.has(machine.id));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+    } catch (error) {
+      console.error('Failed to save machine profiles to storage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const machineProfileRegistry = new MachineProfileRegistry();
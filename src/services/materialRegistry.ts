@@ -0,0 +1,313 @@
+/**
+ * Material Registry
+ * Single source of material data for every calculator: grades and alloys with thermal,
+ * optical and mechanical properties and thickness-dependent cutting charts. Older ids
+ * resolve through aliases, and grades registered at runtime are kept in local storage.
+ */
+
+import { z } from 'zod';
+import { CuttingChart, LaserSource, MaterialFamily, MaterialGrade } from '../types/calculator';
+import { MATERIAL_DATABASE } from '../data/materialDatabase';
+import { bracket, lerp } from '../utils/interpolation';
+import { contentHash } from '../utils/contentHash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MaterialFilter {
+  families?: readonly MaterialFamily[];
+  category?: MaterialGrade['category'];
+  withChart?: boolean; // only grades that have (or inherit) a cutting chart
+}
+
+export interface CuttingData {
+  speed: number; // mm/min
+  pierceTime: number; // s
+  extrapolated: boolean; // thickness or power outside the chart, clamped to its edge
+}
+
+export interface MaterialOption {
+  value: string;
+  label: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Families the laser process calculators carry model coefficients for
+ */
+export const METAL_FAMILIES: readonly MaterialFamily[] = [
+  'steel', 'stainless_steel', 'aluminum', 'copper', 'titanium', 'brass'
+];
+
+const STORAGE_KEY = 'laser-calc-materials';
+
+function normalizeId(id: string): string {
+  return id.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+// ============================================================================
+// Material Registry
+// ============================================================================
+
+export class MaterialRegistry {
+  private grades = new Map<string, MaterialGrade>();
+  private aliases = new Map<string, string>();
+  private builtIn = new Set<string>();
+  private version: string | null = null;
+
+  constructor(definitions: MaterialGrade[] = MATERIAL_DATABASE) {
+    definitions.forEach(grade => {
+      this.add(grade);
+      this.builtIn.add(grade.id);
+    });
+    this.loadFromStorage();
+  }
+
+  /**
+   * Canonical id for an id or alias, or undefined when the material is unknown.
+   * Case, spaces and hyphens are ignored, so "Aluminum-6061" finds aluminum_6061.
+   */
+  resolve(id: string): string | undefined {
+    const key = normalizeId(id);
+    return this.grades.has(key) ? key : this.aliases.get(key);
+  }
+
+  has(id: string): boolean {
+    return this.resolve(id) !== undefined;
+  }
+
+  find(id: string): MaterialGrade | undefined {
+    const canonical = this.resolve(id);
+    return canonical === undefined ? undefined : this.grades.get(canonical);
+  }
+
+  get(id: string): MaterialGrade {
+    const grade = this.find(id);
+    if (!grade) {
+      throw new Error(`Unknown material: ${id}`);
+    }
+    return grade;
+  }
+
+  familyOf(id: string): MaterialFamily | undefined {
+    return this.find(id)?.family;
+  }
+
+  isFamily(id: string, ...families: MaterialFamily[]): boolean {
+    const family = this.familyOf(id);
+    return family !== undefined && families.includes(family);
+  }
+
+  list(filter: MaterialFilter = {}): MaterialGrade[] {
+    return Array.from(this.grades.values()).filter(grade =>
+      (!filter.families || filter.families.includes(grade.family)) &&
+      (!filter.category || grade.category === filter.category) &&
+      (!filter.withChart || this.cuttingChart(grade.id) !== undefined)
+    );
+  }
+
+  /**
+   * Select options for a material input
+   */
+  options(filter: MaterialFilter = {}): MaterialOption[] {
+    return this.list(filter).map(grade => ({ value: grade.id, label: grade.name }));
+  }
+
+  /**
+   * Zod schema for a material id. Checked against the registry when parsing, so grades
+   * registered later are accepted without touching the calculators' schemas.
+   */
+  schema(filter: MaterialFilter = {}): z.ZodEffects<z.ZodString, string, string> {
+    return z.string().refine(
+      id => {
+        const grade = this.find(id);
+        return grade !== undefined && this.list(filter).includes(grade);
+      },
+      id => ({ message: `Unsupported material: ${id}` })
+    );
+  }
+
+  /**
+   * Row of a family-keyed coefficient table for a material, or undefined when the
+   * material is unknown or the table has no row for its family
+   */
+  byFamily<T>(id: string, table: Partial<Record<MaterialFamily, T>>): T | undefined {
+    const family = this.familyOf(id);
+    return family === undefined ? undefined : table[family];
+  }
+
+  // Thermal diffusivity k / (ρ·cp), m²/s
+  thermalDiffusivity(id: string): number {
+    const { conductivity, specificHeat, density } = this.get(id).thermal;
+    return conductivity / (density * specificHeat);
+  }
+
+  /**
+   * Absorptivity at a laser wavelength. Grades only listing the fiber value take the
+   * other wavelengths from their family's generic grade, then from the fiber value.
+   */
+  absorptivity(id: string, source: LaserSource = 'fiber'): number {
+    const grade = this.get(id);
+    return grade.optical.absorptivity[source] ??
+      this.grades.get(grade.family)?.optical.absorptivity[source] ??
+      grade.optical.absorptivity.fiber;
+  }
+
+  /**
+   * Cutting chart of a grade, inherited from its family's generic grade when it has none
+   */
+  cuttingChart(id: string): CuttingChart | undefined {
+    const grade = this.get(id);
+    return grade.cutting.chart ?? this.grades.get(grade.family)?.cutting.chart;
+  }
+
+  /**
+   * Speed and pierce time interpolated linearly over the chart's thickness and power
+   * grid. Points outside the grid take the nearest edge and are flagged as extrapolated.
+   */
+  cuttingData(id: string, thickness: number, power: number): CuttingData {
+    const chart = this.cuttingChart(id);
+    if (!chart) {
+      throw new Error(`No cutting chart for material: ${id}`);
+    }
+
+    const thicknesses = Object.keys(chart.speeds).map(Number).sort((a, b) => a - b);
+    const [t0, t1] = bracket(thicknesses, thickness);
+    const speedAt = (t: number): number => {
+      const row = chart.speeds[t];
+      const powers = Object.keys(row).map(Number).sort((a, b) => a - b);
+      const [p0, p1] = bracket(powers, power);
+      return lerp(p0, p1, row[p0], row[p1], Math.min(Math.max(power, p0), p1));
+    };
+    const clampedThickness = Math.min(Math.max(thickness, t0), t1);
+
+    const pierceThicknesses = Object.keys(chart.pierceTimes).map(Number).sort((a, b) => a - b);
+    const [q0, q1] = bracket(pierceThicknesses, thickness);
+    const pierceTime = lerp(q0, q1, chart.pierceTimes[q0], chart.pierceTimes[q1], Math.min(Math.max(thickness, q0), q1));
+
+    const powers = Object.keys(chart.speeds[thicknesses[0]]).map(Number);
+    const extrapolated =
+      thickness < thicknesses[0] || thickness > thicknesses[thicknesses.length - 1] ||
+      power < Math.min(...powers) || power > Math.max(...powers);
+
+    return {
+      speed: lerp(t0, t1, speedAt(t0), speedAt(t1), clampedThickness),
+      pierceTime,
+      extrapolated
+    };
+  }
+
+  /**
+   * Content hash of every grade, built-in and registered. Changes whenever material data does,
+   * so saved calculations can tell which material data they used.
+   */
+  dataVersion(): string {
+    return (this.version ??= contentHash(Object.fromEntries(this.grades)));
+  }
+
+  /**
+   * Add a grade. Its id and aliases must not clash with an existing material.
+   */
+  register(grade: MaterialGrade): MaterialGrade {
+    this.validate(grade);
+    this.add(grade);
+    this.saveToStorage();
+    return grade;
+  }
+
+  /**
+   * Register a grade derived from an existing one, overriding only some properties
+   */
+  extend(
+    baseId: string,
+    changes: Partial<Omit<MaterialGrade, 'thermal' | 'optical' | 'cutting'>> & {
+      id: string;
+      name: string;
+      thermal?: Partial<MaterialGrade['thermal']>;
+      optical?: Partial<MaterialGrade['optical']>;
+      cutting?: Partial<MaterialGrade['cutting']>;
+    }
+  ): MaterialGrade {
+    const base = this.get(baseId);
+    return this.register({
+      ...base,
+      aliases: [],
+      ...changes,
+      thermal: { ...base.thermal, ...changes.thermal },
+      optical: { absorptivity: { ...base.optical.absorptivity, ...changes.optical?.absorptivity } },
+      cutting: { ...base.cutting, ...changes.cutting }
+    });
+  }
+
+  /**
+   * Remove a registered grade. Built-in grades cannot be removed.
+   */
+  remove(id: string): boolean {
+    const canonical = this.resolve(id);
+    if (canonical === undefined || this.builtIn.has(canonical)) return false;
+
+    this.grades.delete(canonical);
+    this.version = null;
+    this.aliases.forEach((target, alias) => {
+      if (target === canonical) this.aliases.delete(alias);
+    });
+    this.saveToStorage();
+    return true;
+  }
+
+  private add(grade: MaterialGrade): void {
+    const id = normalizeId(grade.id);
+    this.grades.set(id, { ...grade, id });
+    this.version = null;
+    (grade.aliases ?? []).forEach(alias => this.aliases.set(normalizeId(alias), id));
+  }
+
+  private validate(grade: MaterialGrade): void {
+    if (!grade.id || !grade.name) {
+      throw new Error('A material needs an id and a name');
+    }
+    [grade.id, ...(grade.aliases ?? [])].forEach(key => {
+      if (this.has(key)) {
+        throw new Error(`Material id already in use: ${key}`);
+      }
+    });
+    const { conductivity, specificHeat, density, meltingPoint } = grade.thermal;
+    if ([conductivity, specificHeat, density, meltingPoint].some(value => !(value > 0))) {
+      throw new Error('Thermal properties must be positive numbers');
+    }
+    const { fiber } = grade.optical.absorptivity;
+    if (!(fiber > 0 && fiber <= 1)) {
+      throw new Error('Absorptivity must be between 0 and 1');
+    }
+  }
+
+  private loadFromStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      (JSON.parse(stored) as MaterialGrade[]).forEach(grade => {
+        if (!this.has(grade.id)) this.add(grade);
+      });
+    } catch (error) {
+      console.warn('Failed to load materials from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const custom = this.list().filter(grade => !this.builtIn.has(grade.id));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+    } catch (error) {
+      console.error('Failed to save materials to storage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const materialRegistry = new MaterialRegistry();
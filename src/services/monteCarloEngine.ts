@@ -0,0 +1,409 @@
+/**
+ * Monte Carlo Engine
+ * Seeded sampling of uncertain inputs (normal, lognormal, uniform, triangular, PERT) with
+ * rank correlation between them, run through a model to give the output's distribution
+ */
+
+import { z } from 'zod';
+import { gammaRandom, seededRandom, standardNormal } from '../utils/random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const distributionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('normal'), mean: z.number(), standardDeviation: z.number().min(0) }),
+  // mean and standard deviation of the value itself, not of its logarithm
+  z.object({ type: z.literal('lognormal'), mean: z.number().positive(), standardDeviation: z.number().min(0) }),
+  z.object({ type: z.literal('uniform'), min: z.number(), max: z.number() }),
+  z.object({ type: z.literal('triangular'), min: z.number(), mode: z.number(), max: z.number() }),
+  z.object({ type: z.literal('pert'), min: z.number(), mode: z.number(), max: z.number() })
+]);
+
+export const correlationSchema = z.object({
+  inputs: z.tuple([z.string(), z.string()]),
+  coefficient: z.number().min(-1).max(1) // rank (Spearman) correlation
+});
+
+export type Distribution = z.infer<typeof distributionSchema>;
+export type InputCorrelation = z.infer<typeof correlationSchema>;
+
+export interface UncertainInput {
+  name: string;
+  distribution: Distribution;
+}
+
+export interface SimulationTarget {
+  value: number;
+  direction: 'above' | 'below' | 'between'; // e.g. NPV above 0, or a dimension within its limits
+  upper?: number; // upper limit for 'between'; value is the lower one
+}
+
+export interface MonteCarloOptions {
+  samples: number;
+  seed: number; // same seed and inputs = same samples
+  correlations: InputCorrelation[];
+  bins: number; // histogram bins
+  percentiles: number[]; // 0-100, reported as P10, P50, ...
+  target?: SimulationTarget;
+  checkpoints: number; // points in the convergence history
+  convergenceTolerance: number; // allowed drift over the second half, as a share of the standard deviation
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+  frequency: number; // share of samples
+}
+
+export interface ConvergencePoint {
+  samples: number;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface ConvergenceDiagnostics {
+  standardError: number; // of the mean
+  relativeStandardError: number; // standard error / |mean|, Infinity for a zero mean
+  drift: number; // largest change of the tracked statistics over the second half, in standard deviations
+  converged: boolean;
+  history: ConvergencePoint[];
+}
+
+export interface MonteCarloResult {
+  samples: number;
+  mean: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  percentiles: Record<string, number>; // by 'P10', 'P50', ...
+  histogram: HistogramBin[];
+  probabilityOfTarget?: number; // share of samples meeting the target
+  convergence: ConvergenceDiagnostics;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: MonteCarloOptions = {
+  samples: 5000,
+  seed: 1,
+  correlations: [],
+  bins: 20,
+  percentiles: [10, 50, 90],
+  checkpoints: 10,
+  convergenceTolerance: 0.1
+};
+
+const MAX_SAMPLES = 1000000;
+
+// Shape weight of the mode in a PERT distribution
+const PERT_LAMBDA = 4;
+
+// ============================================================================
+// Monte Carlo Engine
+// ============================================================================
+
+export class MonteCarloEngine {
+  /**
+   * Run the model once per sample and summarise its output
+   */
+  simulate(
+    inputs: UncertainInput[],
+    model: (values: Record<string, number>) => number,
+    options?: Partial<MonteCarloOptions>
+  ): MonteCarloResult {
+    const opts = this.options(options);
+    const columns = this.sample(inputs, opts);
+
+    const outputs = new Float64Array(opts.samples);
+    for (let i = 0; i < opts.samples; i++) {
+      const values: Record<string, number> = {};
+      inputs.forEach(input => { values[input.name] = columns[input.name][i]; });
+      const output = model(values);
+      if (!Number.isFinite(output)) {
+        throw new Error(`Model returned ${output} for sample ${i + 1}`);
+      }
+      outputs[i] = output;
+    }
+
+    return this.summarise(outputs, opts);
+  }
+
+  /**
+   * Draw samples for each input, reordered to the requested rank correlations
+   * (Iman-Conover) so that every input keeps its own distribution
+   */
+  sample(inputs: UncertainInput[], options?: Partial<MonteCarloOptions>): Record<string, Float64Array> {
+    const opts = this.options(options);
+    if (!Number.isInteger(opts.samples) || opts.samples < 2 || opts.samples > MAX_SAMPLES) {
+      throw new Error(`Sample count must be a whole number from 2 to ${MAX_SAMPLES}`);
+    }
+    const names = inputs.map(input => input.name);
+    if (new Set(names).size !== names.length) {
+      throw new Error('Uncertain input names must be unique');
+    }
+
+    const random = seededRandom(opts.seed);
+    const columns: Record<string, Float64Array> = {};
+    inputs.forEach(input => {
+      this.validate(input);
+      const column = new Float64Array(opts.samples);
+      for (let i = 0; i < opts.samples; i++) {
+        column[i] = this.draw(input.distribution, random);
+      }
+      columns[input.name] = column;
+    });
+
+    if (opts.correlations.length > 0) {
+      this.correlate(columns, names, opts.correlations, opts.samples, random);
+    }
+    return columns;
+  }
+
+  // Options left undefined (e.g. optional calculator inputs) keep their defaults
+  private options(options?: Partial<MonteCarloOptions>): MonteCarloOptions {
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    return { ...DEFAULT_OPTIONS, ...Object.fromEntries(given) };
+  }
+
+  // ============================================================================
+  // Sampling
+  // ============================================================================
+
+  private validate(input: UncertainInput): void {
+    const dist = input.distribution;
+    if (dist.type === 'normal' || dist.type === 'lognormal') {
+      if (dist.standardDeviation < 0) {
+        throw new Error(`${input.name}: standard deviation cannot be negative`);
+      }
+      if (dist.type === 'lognormal' && dist.mean <= 0) {
+        throw new Error(`${input.name}: a lognormal mean must be positive`);
+      }
+      return;
+    }
+    if (dist.min > dist.max) {
+      throw new Error(`${input.name}: min is above max`);
+    }
+    if (dist.type !== 'uniform' && (dist.mode < dist.min || dist.mode > dist.max)) {
+      throw new Error(`${input.name}: mode must lie between min and max`);
+    }
+  }
+
+  private draw(dist: Distribution, random: () => number): number {
+    switch (dist.type) {
+      case 'normal':
+        return dist.mean + dist.standardDeviation * standardNormal(random);
+      case 'lognormal': {
+        const variance = Math.log(1 + (dist.standardDeviation / dist.mean) ** 2);
+        const mu = Math.log(dist.mean) - variance / 2;
+        return Math.exp(mu + Math.sqrt(variance) * standardNormal(random));
+      }
+      case 'uniform':
+        return dist.min + (dist.max - dist.min) * random();
+      case 'triangular': {
+        const range = dist.max - dist.min;
+        if (range === 0) return dist.min;
+        const u = random();
+        const split = (dist.mode - dist.min) / range;
+        return u < split
+          ? dist.min + Math.sqrt(u * range * (dist.mode - dist.min))
+          : dist.max - Math.sqrt((1 - u) * range * (dist.max - dist.mode));
+      }
+      case 'pert': {
+        const range = dist.max - dist.min;
+        if (range === 0) return dist.min;
+        const alpha = 1 + (PERT_LAMBDA * (dist.mode - dist.min)) / range;
+        const beta = 1 + (PERT_LAMBDA * (dist.max - dist.mode)) / range;
+        const x = gammaRandom(alpha, random);
+        const y = gammaRandom(beta, random);
+        return dist.min + range * (x / (x + y));
+      }
+    }
+  }
+
+  private correlate(
+    columns: Record<string, Float64Array>,
+    names: string[],
+    correlations: InputCorrelation[],
+    samples: number,
+    random: () => number
+  ): void {
+    const size = names.length;
+    const matrix: number[][] = names.map((_, i) => names.map((__, j) => (i === j ? 1 : 0)));
+    correlations.forEach(({ inputs: [a, b], coefficient }) => {
+      const i = names.indexOf(a);
+      const j = names.indexOf(b);
+      if (i < 0 || j < 0) {
+        throw new Error(`Correlation refers to an unknown input: ${i < 0 ? a : b}`);
+      }
+      if (i === j) {
+        throw new Error(`An input cannot be correlated with itself: ${a}`);
+      }
+      // Pearson correlation of the normal scores that gives this rank correlation
+      matrix[i][j] = matrix[j][i] = 2 * Math.sin((Math.PI * coefficient) / 6);
+    });
+    const lower = this.cholesky(matrix);
+
+    // Correlated normal scores, one column per input
+    const scores = names.map(() => new Float64Array(samples));
+    const independent = new Float64Array(size);
+    for (let s = 0; s < samples; s++) {
+      for (let k = 0; k < size; k++) independent[k] = standardNormal(random);
+      for (let i = 0; i < size; i++) {
+        let sum = 0;
+        for (let k = 0; k <= i; k++) sum += lower[i][k] * independent[k];
+        scores[i][s] = sum;
+      }
+    }
+
+    // Give each sample the input value whose rank matches its score's rank
+    names.forEach((name, i) => {
+      const sorted = Float64Array.from(columns[name]).sort();
+      const order = Array.from({ length: samples }, (_, s) => s).sort((a, b) => scores[i][a] - scores[i][b]);
+      const column = columns[name];
+      order.forEach((s, rank) => { column[s] = sorted[rank]; });
+    });
+  }
+
+  private cholesky(matrix: number[][]): number[][] {
+    const size = matrix.length;
+    const lower = matrix.map(() => new Array<number>(size).fill(0));
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j <= i; j++) {
+        let sum = matrix[i][j];
+        for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+        if (i === j) {
+          if (sum <= 1e-10) {
+            throw new Error('The correlations are inconsistent (the correlation matrix is not positive definite)');
+          }
+          lower[i][i] = Math.sqrt(sum);
+        } else {
+          lower[i][j] = sum / lower[j][j];
+        }
+      }
+    }
+    return lower;
+  }
+
+  // ============================================================================
+  // Statistics
+  // ============================================================================
+
+  private summarise(outputs: Float64Array, opts: MonteCarloOptions): MonteCarloResult {
+    const sorted = Float64Array.from(outputs).sort();
+    const { mean, standardDeviation } = this.moments(outputs);
+    const percentiles: Record<string, number> = {};
+    opts.percentiles.forEach(p => { percentiles[`P${p}`] = this.percentile(sorted, p); });
+
+    let probabilityOfTarget: number | undefined;
+    if (opts.target) {
+      const { value, direction, upper = Infinity } = opts.target;
+      const met = outputs.filter(output => (
+        direction === 'above' ? output > value
+          : direction === 'below' ? output < value
+            : output >= value && output <= upper
+      ));
+      probabilityOfTarget = met.length / outputs.length;
+    }
+
+    return {
+      samples: outputs.length,
+      mean,
+      standardDeviation,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      percentiles,
+      histogram: this.histogram(sorted, opts.bins),
+      probabilityOfTarget,
+      convergence: this.convergence(outputs, mean, standardDeviation, opts)
+    };
+  }
+
+  private moments(values: ArrayLike<number>): { mean: number; standardDeviation: number } {
+    const n = values.length;
+    let mean = 0;
+    for (let i = 0; i < n; i++) mean += values[i];
+    mean /= n;
+    let squares = 0;
+    for (let i = 0; i < n; i++) squares += (values[i] - mean) ** 2;
+    return { mean, standardDeviation: n > 1 ? Math.sqrt(squares / (n - 1)) : 0 };
+  }
+
+  // Linear interpolation between order statistics
+  private percentile(sorted: Float64Array, p: number): number {
+    const position = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+    const below = Math.floor(position);
+    const above = Math.min(below + 1, sorted.length - 1);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+  }
+
+  private histogram(sorted: Float64Array, bins: number): HistogramBin[] {
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const count = max > min ? Math.max(1, Math.round(bins)) : 1;
+    const width = (max - min) / count;
+    const histogram: HistogramBin[] = Array.from({ length: count }, (_, i) => ({
+      from: min + i * width,
+      to: i === count - 1 ? max : min + (i + 1) * width,
+      count: 0,
+      frequency: 0
+    }));
+    sorted.forEach(value => {
+      const index = width > 0 ? Math.min(count - 1, Math.floor((value - min) / width)) : 0;
+      histogram[index].count++;
+    });
+    histogram.forEach(bin => { bin.frequency = bin.count / sorted.length; });
+    return histogram;
+  }
+
+  /**
+   * Mean and percentiles after growing shares of the samples. The run counts as converged
+   * when none of them moved by more than the tolerance over the second half of the run.
+   */
+  private convergence(
+    outputs: Float64Array,
+    mean: number,
+    standardDeviation: number,
+    opts: MonteCarloOptions
+  ): ConvergenceDiagnostics {
+    const checkpoints = Math.max(2, Math.min(opts.checkpoints, outputs.length));
+    const history: ConvergencePoint[] = [];
+    for (let c = 1; c <= checkpoints; c++) {
+      const n = Math.max(1, Math.round((outputs.length * c) / checkpoints));
+      const prefix = outputs.subarray(0, n);
+      const sorted = Float64Array.from(prefix).sort();
+      history.push({
+        samples: n,
+        mean: this.moments(prefix).mean,
+        p10: this.percentile(sorted, 10),
+        p50: this.percentile(sorted, 50),
+        p90: this.percentile(sorted, 90)
+      });
+    }
+
+    const secondHalf = history.filter(point => point.samples >= outputs.length / 2);
+    const keys = ['mean', 'p10', 'p50', 'p90'] as const;
+    const spread = Math.max(...keys.map(key => {
+      const values = secondHalf.map(point => point[key]);
+      return Math.max(...values) - Math.min(...values);
+    }));
+    const drift = standardDeviation > 0 ? spread / standardDeviation : 0;
+    const standardError = standardDeviation / Math.sqrt(outputs.length);
+
+    return {
+      standardError,
+      relativeStandardError: mean !== 0 ? standardError / Math.abs(mean) : standardError > 0 ? Infinity : 0,
+      drift,
+      converged: drift <= opts.convergenceTolerance,
+      history
+    };
+  }
+}
+
+// Export singleton instance
+export const monteCarloEngine = new MonteCarloEngine();
@@ -0,0 +1,640 @@
+/**
+ * Multi-Objective Optimizer
+ * Seeded NSGA-II, weighted-sum genetic algorithm, particle swarm and simulated annealing
+ * over bounded continuous variables, with constraint handling and a Pareto archive of
+ * every solution the search evaluated
+ */
+
+import { seededRandom, standardNormal } from '../utils/random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DesignVariable {
+  name: string;
+  min: number;
+  max: number;
+}
+
+export type ObjectiveDirection = 'minimize' | 'maximize';
+
+export interface ObjectiveDefinition {
+  name: string; // metric returned by the model
+  direction: ObjectiveDirection;
+  weight?: number; // share in the default score, default 1
+}
+
+export interface OptimizationConstraint {
+  metric: string;
+  min?: number;
+  max?: number;
+}
+
+export type OptimizationAlgorithm = 'nsga2' | 'genetic' | 'particle_swarm' | 'simulated_annealing';
+
+export interface OptimizerOptions {
+  algorithm: OptimizationAlgorithm;
+  populationSize: number; // individuals, particles, or annealing moves per temperature
+  iterations: number; // generations, swarm updates or temperature steps
+  seed: number;
+  constraints: OptimizationConstraint[];
+  tolerance: number; // best-score change that counts as progress
+  patience: number; // iterations without progress before stopping
+  archiveSize: number; // Pareto front size, thinned by crowding distance
+  score?: (metrics: Record<string, number>) => number; // lower is better; default weighted normalized objectives
+}
+
+export interface Candidate {
+  variables: Record<string, number>;
+  metrics: Record<string, number>;
+  violation: number; // summed relative constraint excess, 0 when feasible
+  score: number;
+}
+
+export interface ParetoSolution extends Candidate {
+  rank: number;
+  crowdingDistance: number; // Infinity at the ends of the front
+}
+
+export interface IterationRecord {
+  iteration: number;
+  evaluations: number;
+  bestScore: number; // best solution found so far
+  bestViolation: number;
+  averageScore: number; // over this iteration's population
+  diversity: number; // mean distance from the population centroid in the unit design space
+  frontSize: number;
+  elapsedTime: number; // seconds
+}
+
+export interface OptimizationRun {
+  algorithm: OptimizationAlgorithm;
+  front: ParetoSolution[]; // ordered by the first objective
+  best: Candidate; // lowest score among the least-violating solutions
+  feasible: boolean;
+  evaluations: number;
+  iterations: number;
+  converged: boolean;
+  history: IterationRecord[];
+}
+
+type RankedCosts = Pick<Individual, 'costs' | 'violation'>;
+
+type ObjectiveModel = (variables: Record<string, number>) => Record<string, number>;
+
+interface Individual extends Candidate {
+  genes: number[]; // variables scaled to [0, 1]
+  costs: number[]; // objectives turned into minimization
+  rank: number;
+  crowdingDistance: number;
+}
+
+interface SearchContext {
+  variables: DesignVariable[];
+  objectives: ObjectiveDefinition[];
+  opts: OptimizerOptions;
+  random: () => number;
+  model: ObjectiveModel;
+  scorer?: (individual: Individual) => number;
+  archive: Individual[];
+  best?: Individual;
+  evaluations: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: OptimizerOptions = {
+  algorithm: 'nsga2',
+  populationSize: 50,
+  iterations: 100,
+  seed: 1,
+  constraints: [],
+  tolerance: 0.001,
+  patience: 10,
+  archiveSize: 100
+};
+
+// Distribution indices of simulated binary crossover and polynomial mutation (Deb & Agrawal)
+const CROSSOVER_ETA = 15;
+const MUTATION_ETA = 20;
+const CROSSOVER_PROBABILITY = 0.9;
+
+// Constriction coefficients (Clerc & Kennedy) and velocity limit in unit space
+const SWARM_INERTIA = 0.729;
+const SWARM_ACCELERATION = 1.49445;
+const SWARM_MAX_VELOCITY = 0.2;
+
+// Annealing ends at this share of the start temperature; violations cost this many score spreads
+const ANNEALING_FINAL_TEMPERATURE = 1e-3;
+const ANNEALING_PENALTY = 10;
+
+// ============================================================================
+// Multi-Objective Optimizer
+// ============================================================================
+
+export class MultiObjectiveOptimizer {
+  /**
+   * Search the variable box for the Pareto front of the objectives. The same seed and
+   * options always return the same front.
+   */
+  optimize(
+    variables: DesignVariable[],
+    objectives: ObjectiveDefinition[],
+    model: ObjectiveModel,
+    options?: Partial<OptimizerOptions>
+  ): OptimizationRun {
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    const opts: OptimizerOptions = { ...DEFAULT_OPTIONS, ...Object.fromEntries(given) };
+    this.validate(variables, objectives, opts);
+
+    const context: SearchContext = {
+      variables,
+      objectives,
+      opts,
+      random: seededRandom(opts.seed),
+      model,
+      archive: [],
+      evaluations: 0
+    };
+    const history: IterationRecord[] = [];
+    const startTime = Date.now();
+    let converged = false;
+
+    const record = (iteration: number, population: Individual[]) => {
+      const best = context.best as Individual;
+      history.push({
+        iteration,
+        evaluations: context.evaluations,
+        bestScore: best.score,
+        bestViolation: best.violation,
+        averageScore: population.reduce((sum, individual) => sum + individual.score, 0) / population.length,
+        diversity: this.diversity(population),
+        frontSize: context.archive.length,
+        elapsedTime: (Date.now() - startTime) / 1000
+      });
+      const earlier = history[iteration - opts.patience];
+      converged = earlier !== undefined &&
+        earlier.bestViolation === best.violation &&
+        Math.abs(earlier.bestScore - best.score) < opts.tolerance;
+      return converged;
+    };
+
+    const initial = this.initialPopulation(context);
+    const search = {
+      nsga2: () => this.nsga2(context, initial, record),
+      genetic: () => this.genetic(context, initial, record),
+      particle_swarm: () => this.particleSwarm(context, initial, record),
+      simulated_annealing: () => this.simulatedAnnealing(context, initial, record)
+    }[opts.algorithm];
+    search();
+
+    const distances = this.crowdingDistances(context.archive);
+    const front = context.archive
+      .map((individual, i) => ({ individual, crowdingDistance: distances[i] }))
+      .sort((a, b) => a.individual.costs[0] - b.individual.costs[0])
+      .map(({ individual, crowdingDistance }) => ({ ...this.toCandidate(individual), rank: 1, crowdingDistance }));
+
+    return {
+      algorithm: opts.algorithm,
+      front,
+      best: this.toCandidate(context.best as Individual),
+      feasible: (context.best as Individual).violation === 0,
+      evaluations: context.evaluations,
+      iterations: history.length,
+      converged,
+      history
+    };
+  }
+
+  /**
+   * Constrained domination (Deb): feasible beats infeasible, smaller violation beats larger,
+   * and between feasible solutions no objective may be worse and one must be better
+   */
+  dominates(a: RankedCosts, b: RankedCosts): boolean {
+    if (a.violation !== b.violation) return a.violation < b.violation;
+    let strictly = false;
+    for (let i = 0; i < a.costs.length; i++) {
+      if (a.costs[i] > b.costs[i]) return false;
+      if (a.costs[i] < b.costs[i]) strictly = true;
+    }
+    return strictly;
+  }
+
+  /**
+   * Fast non-dominated sort: the successive fronts, best first, as indices into the population
+   */
+  nonDominatedSort(population: RankedCosts[]): number[][] {
+    const dominatedBy: number[][] = population.map(() => []);
+    const dominationCount = new Array<number>(population.length).fill(0);
+    const fronts: number[][] = [[]];
+
+    for (let p = 0; p < population.length; p++) {
+      for (let q = p + 1; q < population.length; q++) {
+        if (this.dominates(population[p], population[q])) {
+          dominatedBy[p].push(q);
+          dominationCount[q]++;
+        } else if (this.dominates(population[q], population[p])) {
+          dominatedBy[q].push(p);
+          dominationCount[p]++;
+        }
+      }
+    }
+    population.forEach((_, p) => {
+      if (dominationCount[p] === 0) fronts[0].push(p);
+    });
+
+    for (let i = 0; fronts[i].length > 0; i++) {
+      const next: number[] = [];
+      for (const p of fronts[i]) {
+        for (const q of dominatedBy[p]) {
+          if (--dominationCount[q] === 0) next.push(q);
+        }
+      }
+      fronts.push(next);
+    }
+    fronts.pop();
+    return fronts;
+  }
+
+  // ============================================================================
+  // Algorithms
+  // ============================================================================
+
+  /**
+   * NSGA-II: crowded binary tournaments, SBX and polynomial mutation, then the parents and
+   * offspring are merged and the next generation filled front by front, the last front
+   * cut by crowding distance
+   */
+  private nsga2(
+    context: SearchContext,
+    initial: Individual[],
+    record: (iteration: number, population: Individual[]) => boolean
+  ): void {
+    const size = context.opts.populationSize;
+    let population = this.rankPopulation(initial);
+
+    for (let iteration = 0; iteration < context.opts.iterations; iteration++) {
+      const offspring = this.breed(context, population, (a, b) =>
+        a.rank !== b.rank ? a.rank < b.rank : a.crowdingDistance > b.crowdingDistance);
+
+      const merged = this.rankPopulation([...population, ...offspring]);
+      population = merged
+        .sort((a, b) => a.rank - b.rank || b.crowdingDistance - a.crowdingDistance)
+        .slice(0, size);
+
+      if (record(iteration, population)) break;
+    }
+  }
+
+  /**
+   * Generational genetic algorithm on the score, keeping the best tenth as elites
+   */
+  private genetic(
+    context: SearchContext,
+    initial: Individual[],
+    record: (iteration: number, population: Individual[]) => boolean
+  ): void {
+    const size = context.opts.populationSize;
+    const eliteCount = Math.max(1, Math.floor(size * 0.1));
+    const better = (a: Individual, b: Individual) => this.isBetter(a, b);
+    let population = initial;
+
+    for (let iteration = 0; iteration < context.opts.iterations; iteration++) {
+      const elites = [...population].sort((a, b) => (this.isBetter(a, b) ? -1 : this.isBetter(b, a) ? 1 : 0))
+        .slice(0, eliteCount);
+      population = [...elites, ...this.breed(context, population, better).slice(0, size - eliteCount)];
+
+      if (record(iteration, population)) break;
+    }
+  }
+
+  /**
+   * Particle swarm with constriction coefficients: each particle is pulled towards its own
+   * best position and the swarm's best on the score
+   */
+  private particleSwarm(
+    context: SearchContext,
+    initial: Individual[],
+    record: (iteration: number, population: Individual[]) => boolean
+  ): void {
+    const { random } = context;
+    let particles = initial;
+    const personalBest = [...initial];
+    const velocities = initial.map(particle => particle.genes.map(() => (random() - 0.5) * SWARM_MAX_VELOCITY));
+
+    for (let iteration = 0; iteration < context.opts.iterations; iteration++) {
+      const leader = context.best as Individual;
+      particles = particles.map((particle, i) => {
+        const genes = particle.genes.map((gene, d) => {
+          const velocity = SWARM_INERTIA * velocities[i][d] +
+            SWARM_ACCELERATION * random() * (personalBest[i].genes[d] - gene) +
+            SWARM_ACCELERATION * random() * (leader.genes[d] - gene);
+          velocities[i][d] = Math.max(-SWARM_MAX_VELOCITY, Math.min(SWARM_MAX_VELOCITY, velocity));
+          const position = gene + velocities[i][d];
+          if (position < 0 || position > 1) velocities[i][d] = 0;
+          return Math.max(0, Math.min(1, position));
+        });
+        const moved = this.evaluate(context, genes);
+        if (this.isBetter(moved, personalBest[i])) personalBest[i] = moved;
+        return moved;
+      });
+
+      if (record(iteration, particles)) break;
+    }
+  }
+
+  /**
+   * Simulated annealing from the best starting point: a Markov chain of Gaussian moves at
+   * each temperature, shrinking with it, under geometric cooling and a penalty on violations
+   */
+  private simulatedAnnealing(
+    context: SearchContext,
+    initial: Individual[],
+    record: (iteration: number, population: Individual[]) => boolean
+  ): void {
+    const { random, opts } = context;
+    const scores = initial.map(individual => individual.score);
+    const spread = Math.max(...scores) - Math.min(...scores) || 1;
+    const energy = (individual: Individual) => individual.score + ANNEALING_PENALTY * spread * individual.violation;
+    const startTemperature = this.standardDeviation(initial.map(energy)) || spread;
+
+    let current = context.best as Individual;
+    for (let iteration = 0; iteration < opts.iterations; iteration++) {
+      const progress = opts.iterations > 1 ? iteration / (opts.iterations - 1) : 1;
+      const cooling = Math.pow(ANNEALING_FINAL_TEMPERATURE, progress);
+      const temperature = startTemperature * cooling;
+      const step = Math.max(0.01, 0.2 * Math.sqrt(cooling));
+
+      const visited: Individual[] = [];
+      for (let move = 0; move < opts.populationSize; move++) {
+        const genes = current.genes.map(gene => this.reflect(gene + step * standardNormal(random)));
+        const candidate = this.evaluate(context, genes);
+        const delta = energy(candidate) - energy(current);
+        if (delta <= 0 || random() < Math.exp(-delta / temperature)) current = candidate;
+        visited.push(candidate);
+      }
+
+      if (record(iteration, visited)) break;
+    }
+  }
+
+  // ============================================================================
+  // Variation Operators
+  // ============================================================================
+
+  /**
+   * A full generation of offspring from tournament-selected parents
+   */
+  private breed(
+    context: SearchContext,
+    population: Individual[],
+    wins: (a: Individual, b: Individual) => boolean
+  ): Individual[] {
+    const { random } = context;
+    const pick = () => {
+      const a = population[Math.floor(random() * population.length)];
+      const b = population[Math.floor(random() * population.length)];
+      return wins(b, a) ? b : a;
+    };
+
+    const offspring: Individual[] = [];
+    while (offspring.length < context.opts.populationSize) {
+      const [first, second] = this.crossover(pick().genes, pick().genes, random);
+      offspring.push(this.evaluate(context, this.mutate(first, random)));
+      if (offspring.length < context.opts.populationSize) {
+        offspring.push(this.evaluate(context, this.mutate(second, random)));
+      }
+    }
+    return offspring;
+  }
+
+  /**
+   * Simulated binary crossover in unit space
+   */
+  private crossover(a: number[], b: number[], random: () => number): [number[], number[]] {
+    if (random() > CROSSOVER_PROBABILITY) return [[...a], [...b]];
+    const first: number[] = [];
+    const second: number[] = [];
+    a.forEach((gene, i) => {
+      const u = random();
+      const beta = u <= 0.5
+        ? Math.pow(2 * u, 1 / (CROSSOVER_ETA + 1))
+        : Math.pow(1 / (2 * (1 - u)), 1 / (CROSSOVER_ETA + 1));
+      const swap = random() < 0.5;
+      const x = 0.5 * ((1 + beta) * gene + (1 - beta) * b[i]);
+      const y = 0.5 * ((1 - beta) * gene + (1 + beta) * b[i]);
+      first.push(Math.max(0, Math.min(1, swap ? y : x)));
+      second.push(Math.max(0, Math.min(1, swap ? x : y)));
+    });
+    return [first, second];
+  }
+
+  /**
+   * Polynomial mutation, each gene with probability 1 / variables
+   */
+  private mutate(genes: number[], random: () => number): number[] {
+    const probability = 1 / genes.length;
+    return genes.map(gene => {
+      if (random() >= probability) return gene;
+      const u = random();
+      const delta = u < 0.5
+        ? Math.pow(2 * u, 1 / (MUTATION_ETA + 1)) - 1
+        : 1 - Math.pow(2 * (1 - u), 1 / (MUTATION_ETA + 1));
+      return Math.max(0, Math.min(1, gene + delta));
+    });
+  }
+
+  private reflect(gene: number): number {
+    const folded = Math.abs(gene) % 2;
+    return folded > 1 ? 2 - folded : folded;
+  }
+
+  // ============================================================================
+  // Evaluation
+  // ============================================================================
+
+  /**
+   * Uniform random start; its objective ranges normalize the default score
+   */
+  private initialPopulation(context: SearchContext): Individual[] {
+    const { variables, objectives, opts, random } = context;
+    const population = Array.from({ length: opts.populationSize }, () =>
+      this.evaluate(context, variables.map(() => random()), false));
+
+    if (opts.score) {
+      const score = opts.score;
+      context.scorer = individual => score(individual.metrics);
+    } else {
+      const low = objectives.map((_, i) => Math.min(...population.map(individual => individual.costs[i])));
+      const span = objectives.map((_, i) =>
+        Math.max(...population.map(individual => individual.costs[i])) - low[i] || 1);
+      const weights = objectives.map(objective => objective.weight ?? 1);
+      const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+      context.scorer = individual => individual.costs.reduce(
+        (sum, cost, i) => sum + weights[i] * (cost - low[i]) / span[i], 0) / total;
+    }
+
+    population.forEach(individual => {
+      individual.score = (context.scorer as (individual: Individual) => number)(individual);
+      this.admit(context, individual);
+    });
+    return population;
+  }
+
+  private evaluate(context: SearchContext, genes: number[], admit = true): Individual {
+    const { variables, objectives, opts } = context;
+    const values = Object.fromEntries(variables.map((variable, i) =>
+      [variable.name, variable.min + genes[i] * (variable.max - variable.min)]));
+    const metrics = context.model(values);
+    context.evaluations++;
+
+    const costs = objectives.map(objective => {
+      const value = metrics[objective.name];
+      if (!Number.isFinite(value)) {
+        throw new Error(`Model returned no finite ${objective.name} for evaluation ${context.evaluations}`);
+      }
+      return objective.direction === 'maximize' ? -value : value;
+    });
+
+    const violation = opts.constraints.reduce((sum, constraint) => {
+      const value = metrics[constraint.metric];
+      if (!Number.isFinite(value)) {
+        throw new Error(`Model returned no finite ${constraint.metric} for evaluation ${context.evaluations}`);
+      }
+      const over = constraint.max !== undefined && value > constraint.max
+        ? (value - constraint.max) / Math.max(Math.abs(constraint.max), 1e-9) : 0;
+      const under = constraint.min !== undefined && value < constraint.min
+        ? (constraint.min - value) / Math.max(Math.abs(constraint.min), 1e-9) : 0;
+      return sum + over + under;
+    }, 0);
+
+    const individual: Individual = {
+      variables: values, metrics, violation, score: 0, genes, costs, rank: 0, crowdingDistance: 0
+    };
+    if (admit) {
+      individual.score = (context.scorer as (individual: Individual) => number)(individual);
+      this.admit(context, individual);
+    }
+    return individual;
+  }
+
+  /**
+   * Track the best solution and keep the archive non-dominated and within its size
+   */
+  private admit(context: SearchContext, individual: Individual): void {
+    if (!context.best || this.isBetter(individual, context.best)) {
+      context.best = individual;
+    }
+
+    const { archive } = context;
+    const duplicate = (member: Individual) => member.violation === individual.violation &&
+      member.costs.every((cost, i) => cost === individual.costs[i]);
+    if (archive.some(member => this.dominates(member, individual) || duplicate(member))) return;
+
+    context.archive = archive.filter(member => !this.dominates(individual, member));
+    context.archive.push(individual);
+    if (context.archive.length > context.opts.archiveSize) {
+      const distances = this.crowdingDistances(context.archive);
+      const removed = distances.indexOf(Math.min(...distances));
+      context.archive.splice(removed, 1);
+    }
+  }
+
+  private isBetter(a: Individual, b: Individual): boolean {
+    return a.violation !== b.violation ? a.violation < b.violation : a.score < b.score;
+  }
+
+  private toCandidate(individual: Individual): Candidate {
+    return {
+      variables: individual.variables,
+      metrics: individual.metrics,
+      violation: individual.violation,
+      score: individual.score
+    };
+  }
+
+  // ============================================================================
+  // Ranking
+  // ============================================================================
+
+  private rankPopulation(population: Individual[]): Individual[] {
+    this.nonDominatedSort(population).forEach((front, rank) => {
+      const members = front.map(index => population[index]);
+      const distances = this.crowdingDistances(members);
+      members.forEach((member, i) => {
+        member.rank = rank + 1;
+        member.crowdingDistance = distances[i];
+      });
+    });
+    return population;
+  }
+
+  /**
+   * Crowding distance: the normalized side lengths of the cuboid formed by each
+   * solution's neighbours on every objective
+   */
+  private crowdingDistances(front: Individual[]): number[] {
+    const distances = new Array<number>(front.length).fill(0);
+    if (front.length === 0) return distances;
+
+    for (let i = 0; i < front[0].costs.length; i++) {
+      const order = front.map((_, j) => j).sort((a, b) => front[a].costs[i] - front[b].costs[i]);
+      const first = order[0];
+      const last = order[order.length - 1];
+      const range = front[last].costs[i] - front[first].costs[i];
+      distances[first] = Infinity;
+      distances[last] = Infinity;
+      if (range === 0) continue;
+      for (let j = 1; j < order.length - 1; j++) {
+        distances[order[j]] += (front[order[j + 1]].costs[i] - front[order[j - 1]].costs[i]) / range;
+      }
+    }
+    return distances;
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private diversity(population: Individual[]): number {
+    const dimensions = population[0].genes.length;
+    const centroid = Array.from({ length: dimensions }, (_, d) =>
+      population.reduce((sum, individual) => sum + individual.genes[d], 0) / population.length);
+    return population.reduce((sum, individual) =>
+      sum + Math.sqrt(individual.genes.reduce((total, gene, d) => total + (gene - centroid[d]) ** 2, 0)), 0) /
+      population.length;
+  }
+
+  private standardDeviation(values: number[]): number {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+  }
+
+  private validate(variables: DesignVariable[], objectives: ObjectiveDefinition[], opts: OptimizerOptions): void {
+    if (variables.length === 0) {
+      throw new Error('At least one design variable is required');
+    }
+    if (objectives.length === 0) {
+      throw new Error('At least one objective is required');
+    }
+    variables.forEach(variable => {
+      if (!(variable.max >= variable.min)) {
+        throw new Error(`${variable.name}: max must not be below min`);
+      }
+    });
+    opts.constraints.forEach(constraint => {
+      if (constraint.min === undefined && constraint.max === undefined) {
+        throw new Error(`Constraint on ${constraint.metric} needs a min or a max`);
+      }
+    });
+    if (opts.populationSize < 2 || opts.iterations < 1) {
+      throw new Error('Population size must be at least 2 and iterations at least 1');
+    }
+  }
+}
+
+// Export singleton instance
+export const multiObjectiveOptimizer = new MultiObjectiveOptimizer();
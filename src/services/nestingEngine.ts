@@ -0,0 +1,719 @@
+/**
+ * Nesting Engine
+ * True-shape nesting of polygon parts (with holes) on sheets using no-fit polygons.
+ * Sheets are rectangles, optionally cut down to a polygonal outline.
+ */
+
+import type { GeometryShape, Point2D } from './geometryCalculator';
+import {
+  Bounds2D,
+  DEFAULT_CHORD_TOLERANCE,
+  convexHull,
+  polygonArea,
+  polygonBounds,
+  rotatePolygon,
+  shapeToPolygons
+} from '../utils/geometryUtils';
+import { seededRandom } from '../utils/random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NestingOptions {
+  partSpacing: number; // mm between neighbouring parts
+  edgeSpacing: number; // mm between parts and the sheet edge
+  kerfWidth: number; // mm, added to the part spacing (half of it to the edge spacing)
+  rotationStep: number; // degrees between allowed rotations; 0 = no rotation
+  rotationLocks: boolean[]; // per shape index, true keeps the drawn orientation (grain direction)
+  allowPartInPart: boolean; // place parts inside the holes of larger parts
+  timeBudgetMs: number; // time for trying other part orders after the first layout
+  maxIterations: number; // max part orders evaluated
+  chordTolerance: number; // mm, flattening of arcs and curves
+  seed: number; // seed for the order search, same seed = same layout
+  sheetOutline?: Point2D[]; // usable area inside the sheet box, e.g. an irregular remnant
+}
+
+export interface NestingPlacement {
+  shapeIndex: number; // index into the input shapes
+  shape: GeometryShape;
+  sheetIndex: number;
+  position: Point2D; // translation applied after the rotation
+  rotation: number; // degrees, counter-clockwise about the part's own origin
+  bounds: Bounds2D; // placed outline on the sheet
+}
+
+export interface NestingSheet {
+  sheetIndex: number;
+  placements: NestingPlacement[];
+  partArea: number; // mm², net of holes
+  utilization: number; // %
+  usedLength: number; // mm, right-most part extent along x
+}
+
+export interface NestingResult {
+  placements: NestingPlacement[];
+  sheets: NestingSheet[];
+  sheetsRequired: number;
+  utilization: number; // % over all sheets
+  wasteArea: number; // mm²
+  unplaced: Array<{ shapeIndex: number; shape: GeometryShape; reason: string }>;
+  iterations: number; // part orders evaluated
+  elapsedMs: number;
+}
+
+// One part in one rotation, in its own coordinates
+interface PartOrientation {
+  rotation: number;
+  outline: Point2D[];
+  bounds: Bounds2D;
+  solidPieces: Point2D[][]; // convex pieces of the outline
+  materialPieces: Point2D[][]; // convex pieces of the outline minus holes
+}
+
+interface PartEntry {
+  shapeIndex: number;
+  shape: GeometryShape;
+  key: string; // identical geometry shares orientations and no-fit polygons
+  area: number; // net of holes
+  orientations: PartOrientation[];
+}
+
+interface ConvexPiece {
+  points: Point2D[];
+  bounds: Bounds2D;
+}
+
+interface SheetState {
+  placements: Array<{ part: PartEntry; orientation: PartOrientation; position: Point2D }>;
+}
+
+interface Layout {
+  sheets: SheetState[];
+  unplaced: PartEntry[];
+}
+
+const DEFAULT_OPTIONS: NestingOptions = {
+  partSpacing: 2,
+  edgeSpacing: 5,
+  kerfWidth: 0.2,
+  rotationStep: 90,
+  rotationLocks: [],
+  allowPartInPart: true,
+  timeBudgetMs: 2000,
+  maxIterations: 50,
+  chordTolerance: DEFAULT_CHORD_TOLERANCE,
+  seed: 1
+};
+
+// Geometric tolerance for touching contours (mm)
+const EPSILON = 1e-6;
+
+// ============================================================================
+// Nesting Engine
+// ============================================================================
+
+export class NestingEngine {
+  /**
+   * Nest shapes on identical sheets (width along x, height along y)
+   */
+  nest(
+    shapes: GeometryShape[],
+    sheetWidth: number,
+    sheetHeight: number,
+    options?: Partial<NestingOptions>
+  ): NestingResult {
+    const startTime = Date.now();
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    if (sheetWidth <= 0 || sheetHeight <= 0) {
+      throw new Error('Sheet dimensions must be positive');
+    }
+
+    const context = new NestingContext(sheetWidth, sheetHeight, opts);
+    const parts = context.prepareParts(shapes);
+
+    // Largest parts first, then other orders while the time budget lasts
+    const byArea = [...parts].sort((a, b) => b.area - a.area || a.shapeIndex - b.shapeIndex);
+    let best = context.layout(byArea, Infinity) as Layout;
+    let iterations = 1;
+
+    const deadline = startTime + opts.timeBudgetMs;
+    const random = seededRandom(opts.seed);
+    const orders: PartEntry[][] = [
+      [...parts].sort((a, b) => maxSide(b) - maxSide(a) || b.area - a.area)
+    ];
+
+    while (iterations < opts.maxIterations && Date.now() < deadline && best.sheets.length > 0) {
+      const order = orders.shift() ?? perturbOrder(byArea, random);
+      const candidate = context.layout(order, deadline);
+      iterations++;
+      if (candidate && compareLayouts(candidate, best, context) < 0) {
+        best = candidate;
+      }
+    }
+
+    return context.toResult(best, iterations, Date.now() - startTime);
+  }
+}
+
+// ============================================================================
+// Placement
+// ============================================================================
+
+class NestingContext {
+  private readonly sheetWidth: number;
+  private readonly sheetHeight: number;
+  private readonly opts: NestingOptions;
+  private readonly gap: number;
+  private readonly edge: number;
+  private readonly sheetArea: number;
+  // Sheet box outside the sheet outline, as convex pieces; empty for a full rectangle
+  private readonly offSheetPieces: Point2D[][];
+  private readonly nfpCache = new Map<string, ConvexPiece[]>();
+  private readonly reflectedCache = new Map<string, Point2D[][]>();
+  private readonly offSheetCache = new Map<string, ConvexPiece[]>();
+
+  constructor(sheetWidth: number, sheetHeight: number, opts: NestingOptions) {
+    this.sheetWidth = sheetWidth;
+    this.sheetHeight = sheetHeight;
+    this.opts = opts;
+    this.gap = Math.max(0, opts.partSpacing + opts.kerfWidth);
+    this.edge = Math.max(0, opts.edgeSpacing + opts.kerfWidth / 2);
+
+    const outline = opts.sheetOutline && opts.sheetOutline.length >= 3 ? opts.sheetOutline : null;
+    this.sheetArea = outline ? polygonArea(outline) : sheetWidth * sheetHeight;
+    // A frame beyond the box keeps the outline's edges off the frame's own edges
+    const margin = 1;
+    this.offSheetPieces = outline
+      ? convexDecomposition([
+        [
+          { x: -margin, y: -margin },
+          { x: sheetWidth + margin, y: -margin },
+          { x: sheetWidth + margin, y: sheetHeight + margin },
+          { x: -margin, y: sheetHeight + margin }
+        ],
+        outline
+      ])
+      : [];
+  }
+
+  prepareParts(shapes: GeometryShape[]): PartEntry[] {
+    const rotations = allowedRotations(this.opts.rotationStep);
+    const fixed = [0];
+    const byKey = new Map<string, { area: number; orientations: PartOrientation[] }>();
+    const identityKeys = new Map<GeometryShape, string>();
+
+    return shapes.map((shape, shapeIndex) => {
+      // Primitive shapes with equal dimensions share their geometry
+      const baseKey = shape.contour || shape.type === 'polygon'
+        ? identityKeys.get(shape) ?? `shape-${shapeIndex}`
+        : `${shape.type}:${JSON.stringify(shape.dimensions)}`;
+      identityKeys.set(shape, baseKey);
+      const locked = this.opts.rotationLocks[shapeIndex] === true;
+      const key = locked ? `${baseKey}|fixed` : baseKey;
+
+      let geometry = byKey.get(key);
+      if (!geometry) {
+        const { outline, holes } = shapeToPolygons(shape, this.opts.chordTolerance);
+        if (outline.length < 3) {
+          throw new Error(`Shape ${shapeIndex + 1} has no outline to nest`);
+        }
+        const area = polygonArea(outline) - holes.reduce((sum, hole) => sum + polygonArea(hole), 0);
+        geometry = { area, orientations: this.buildOrientations(outline, holes, locked ? fixed : rotations) };
+        byKey.set(key, geometry);
+      }
+
+      return { shapeIndex, shape, key, area: geometry.area, orientations: geometry.orientations };
+    });
+  }
+
+  /**
+   * Place parts in order (first fit over open sheets). Returns null when the deadline passes.
+   */
+  layout(order: PartEntry[], deadline: number): Layout | null {
+    const sheets: SheetState[] = [];
+    const unplaced: PartEntry[] = [];
+
+    for (const part of order) {
+      if (Date.now() > deadline) return null;
+
+      let placed = false;
+      for (const sheet of sheets) {
+        const placement = this.findPlacement(part, sheet);
+        if (placement) {
+          sheet.placements.push({ part, ...placement });
+          placed = true;
+          break;
+        }
+      }
+
+      if (!placed) {
+        const sheet: SheetState = { placements: [] };
+        const placement = this.findPlacement(part, sheet);
+        if (placement) {
+          sheet.placements.push({ part, ...placement });
+          sheets.push(sheet);
+        } else {
+          unplaced.push(part);
+        }
+      }
+    }
+
+    return { sheets, unplaced };
+  }
+
+  /**
+   * Bottom-left placement over the no-fit polygons of the parts already on the sheet:
+   * the lowest-scoring candidate position outside every no-fit polygon wins.
+   */
+  private findPlacement(
+    part: PartEntry,
+    sheet: SheetState
+  ): { orientation: PartOrientation; position: Point2D } | null {
+    let best: { orientation: PartOrientation; position: Point2D; score: [number, number] } | null = null;
+
+    for (const orientation of part.orientations) {
+      // Inner-fit rectangle: reference positions that keep the part inside the sheet margins
+      const fit: Bounds2D = {
+        minX: this.edge - orientation.bounds.minX,
+        minY: this.edge - orientation.bounds.minY,
+        maxX: this.sheetWidth - this.edge - orientation.bounds.maxX,
+        maxY: this.sheetHeight - this.edge - orientation.bounds.maxY
+      };
+      if (fit.maxX < fit.minX - EPSILON || fit.maxY < fit.minY - EPSILON) continue;
+
+      const pieces: ConvexPiece[] = [...this.getOffSheetPieces(part, orientation)];
+      sheet.placements.forEach(placed => {
+        this.getNoFitPolygon(placed.part, placed.orientation, part, orientation).forEach(piece => {
+          pieces.push(translatePiece(piece, placed.position));
+        });
+      });
+
+      const score = (p: Point2D): [number, number] => [p.x + orientation.bounds.maxX, p.y + orientation.bounds.maxY];
+      const candidates = candidatePositions(pieces, fit)
+        .map(position => ({ position, score: score(position) }))
+        .sort((a, b) => compareScores(a.score, b.score));
+
+      for (const candidate of candidates) {
+        if (best && compareScores(candidate.score, best.score) >= 0) break;
+        if (pieces.every(piece => !strictlyInside(candidate.position, piece))) {
+          best = { orientation, position: candidate.position, score: candidate.score };
+          break;
+        }
+      }
+    }
+
+    return best ? { orientation: best.orientation, position: best.position } : null;
+  }
+
+  /**
+   * No-fit polygon of a moving part around a fixed one (fixed part at the origin), as
+   * convex pieces: every fixed material piece ⊕ (−moving piece) ⊕ spacing disc
+   */
+  private getNoFitPolygon(
+    fixed: PartEntry,
+    fixedOrientation: PartOrientation,
+    moving: PartEntry,
+    movingOrientation: PartOrientation
+  ): ConvexPiece[] {
+    const key = `${fixed.key}@${fixedOrientation.rotation}|${moving.key}@${movingOrientation.rotation}`;
+    const cached = this.nfpCache.get(key);
+    if (cached) return cached;
+
+    const fixedPieces = this.opts.allowPartInPart ? fixedOrientation.materialPieces : fixedOrientation.solidPieces;
+    const reflected = this.getReflectedPieces(moving, movingOrientation);
+    const pieces: ConvexPiece[] = [];
+
+    fixedPieces.forEach(a => {
+      reflected.forEach(b => {
+        const sum: Point2D[] = [];
+        a.forEach(p => b.forEach(q => sum.push({ x: p.x + q.x, y: p.y + q.y })));
+        const hull = convexHull(sum);
+        if (hull.length >= 3) pieces.push({ points: hull, bounds: polygonBounds(hull) });
+      });
+    });
+
+    this.nfpCache.set(key, pieces);
+    return pieces;
+  }
+
+  /**
+   * Reference positions that would put the part on the sheet box outside the sheet
+   * outline (or within the edge spacing of it)
+   */
+  private getOffSheetPieces(part: PartEntry, orientation: PartOrientation): ConvexPiece[] {
+    if (this.offSheetPieces.length === 0) return [];
+    const key = `${part.key}@${orientation.rotation}`;
+    const cached = this.offSheetCache.get(key);
+    if (cached) return cached;
+
+    const disc = spacingDisc(this.edge);
+    const pieces: ConvexPiece[] = [];
+    this.offSheetPieces.forEach(a => {
+      orientation.solidPieces.forEach(b => {
+        const sum: Point2D[] = [];
+        a.forEach(p => b.forEach(q => disc.forEach(d => sum.push({ x: p.x - q.x + d.x, y: p.y - q.y + d.y }))));
+        const hull = convexHull(sum);
+        if (hull.length >= 3) pieces.push({ points: hull, bounds: polygonBounds(hull) });
+      });
+    });
+
+    this.offSheetCache.set(key, pieces);
+    return pieces;
+  }
+
+  private getReflectedPieces(part: PartEntry, orientation: PartOrientation): Point2D[][] {
+    const key = `${part.key}@${orientation.rotation}`;
+    const cached = this.reflectedCache.get(key);
+    if (cached) return cached;
+
+    const disc = spacingDisc(this.gap);
+    const reflected = orientation.solidPieces.map(piece => {
+      const sum: Point2D[] = [];
+      piece.forEach(p => disc.forEach(d => sum.push({ x: d.x - p.x, y: d.y - p.y })));
+      return convexHull(sum);
+    });
+
+    this.reflectedCache.set(key, reflected);
+    return reflected;
+  }
+
+  private buildOrientations(outline: Point2D[], holes: Point2D[][], rotations: number[]): PartOrientation[] {
+    const orientations: PartOrientation[] = [];
+    const signatures = new Set<string>();
+
+    rotations.forEach(rotation => {
+      const rotatedOutline = rotatePolygon(outline, rotation);
+      const bounds = polygonBounds(rotatedOutline);
+
+      // Skip rotations that reproduce an earlier orientation (e.g. 180° for a rectangle)
+      const signature = rotatedOutline
+        .map(p => `${(p.x - bounds.minX).toFixed(3)},${(p.y - bounds.minY).toFixed(3)}`)
+        .sort()
+        .join(';');
+      if (holes.length === 0 && signatures.has(signature)) return;
+      signatures.add(signature);
+
+      const rotatedHoles = holes.map(hole => rotatePolygon(hole, rotation));
+      const solidPieces = convexDecomposition([rotatedOutline]);
+      orientations.push({
+        rotation,
+        outline: rotatedOutline,
+        bounds,
+        solidPieces,
+        materialPieces: holes.length > 0 ? convexDecomposition([rotatedOutline, ...rotatedHoles]) : solidPieces
+      });
+    });
+
+    return orientations;
+  }
+
+  /**
+   * Used x-extent of the last sheet, for ranking layouts with equal sheet counts
+   */
+  lastSheetLength(layout: Layout): number {
+    const last = layout.sheets[layout.sheets.length - 1];
+    if (!last) return 0;
+    return Math.max(...last.placements.map(p => p.position.x + p.orientation.bounds.maxX));
+  }
+
+  toResult(layout: Layout, iterations: number, elapsedMs: number): NestingResult {
+    const sheetArea = this.sheetArea;
+    const placements: NestingPlacement[] = [];
+
+    const sheets: NestingSheet[] = layout.sheets.map((sheet, sheetIndex) => {
+      const sheetPlacements = sheet.placements.map(({ part, orientation, position }) => ({
+        shapeIndex: part.shapeIndex,
+        shape: part.shape,
+        sheetIndex,
+        position: { x: round(position.x), y: round(position.y) },
+        rotation: orientation.rotation,
+        bounds: {
+          minX: round(position.x + orientation.bounds.minX),
+          minY: round(position.y + orientation.bounds.minY),
+          maxX: round(position.x + orientation.bounds.maxX),
+          maxY: round(position.y + orientation.bounds.maxY)
+        }
+      }));
+      placements.push(...sheetPlacements);
+
+      const partArea = sheet.placements.reduce((sum, p) => sum + p.part.area, 0);
+      return {
+        sheetIndex,
+        placements: sheetPlacements,
+        partArea,
+        utilization: Math.round((partArea / sheetArea) * 10000) / 100,
+        usedLength: Math.max(...sheetPlacements.map(p => p.bounds.maxX))
+      };
+    });
+
+    const totalPartArea = sheets.reduce((sum, sheet) => sum + sheet.partArea, 0);
+    const totalSheetArea = sheets.length * sheetArea;
+
+    return {
+      placements,
+      sheets,
+      sheetsRequired: sheets.length,
+      utilization: totalSheetArea > 0 ? Math.round((totalPartArea / totalSheetArea) * 10000) / 100 : 0,
+      wasteArea: Math.round(totalSheetArea - totalPartArea),
+      unplaced: layout.unplaced.map(part => ({
+        shapeIndex: part.shapeIndex,
+        shape: part.shape,
+        reason: 'Part does not fit on the sheet in any allowed rotation'
+      })),
+      iterations,
+      elapsedMs
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split polygons (outline plus holes, even-odd) into convex pieces: vertical slabs at
+ * every vertex give trapezoids, which are merged left to right while they stay convex.
+ */
+function convexDecomposition(rings: Point2D[][]): Point2D[][] {
+  const edges: Array<[Point2D, Point2D]> = [];
+  const xs: number[] = [];
+  rings.forEach(ring => {
+    ring.forEach((p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      xs.push(p.x);
+      if (Math.abs(q.x - p.x) > EPSILON) edges.push(p.x < q.x ? [p, q] : [q, p]);
+    });
+  });
+
+  // Slab lines at every vertex; nearly equal x values share one line
+  const slabs = xs
+    .sort((a, b) => a - b)
+    .filter((x, i, sorted) => i === 0 || x - sorted[i - 1] > EPSILON);
+  const yAt = ([p, q]: [Point2D, Point2D], x: number) => p.y + ((q.y - p.y) * (x - p.x)) / (q.x - p.x);
+
+  // Open pieces as x-monotone lower/upper chains ending on the current slab line
+  let open: Array<{ lower: Point2D[]; upper: Point2D[] }> = [];
+  const pieces: Point2D[][] = [];
+  const close = (piece: { lower: Point2D[]; upper: Point2D[] }) => {
+    const polygon = dedupe([...piece.lower, ...[...piece.upper].reverse()]);
+    if (polygon.length >= 3 && polygonArea(polygon) > EPSILON) pieces.push(polygon);
+  };
+
+  for (let s = 0; s + 1 < slabs.length; s++) {
+    const xl = slabs[s];
+    const xr = slabs[s + 1];
+    const xm = (xl + xr) / 2;
+
+    const crossings = edges
+      .filter(([p, q]) => p.x < xm && q.x > xm)
+      .map(edge => ({ left: yAt(edge, xl), right: yAt(edge, xr), mid: yAt(edge, xm) }))
+      .sort((a, b) => a.mid - b.mid);
+
+    const next: Array<{ lower: Point2D[]; upper: Point2D[] }> = [];
+    const continued = new Set<number>();
+
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const bottom = crossings[k];
+      const top = crossings[k + 1];
+      const lowerRight = { x: xr, y: bottom.right };
+      const upperRight = { x: xr, y: top.right };
+
+      const index = open.findIndex((piece, i) => {
+        if (continued.has(i)) return false;
+        const lowerEnd = piece.lower[piece.lower.length - 1];
+        const upperEnd = piece.upper[piece.upper.length - 1];
+        return (
+          Math.abs(lowerEnd.x - xl) <= EPSILON &&
+          Math.abs(lowerEnd.y - bottom.left) <= EPSILON &&
+          Math.abs(upperEnd.y - top.left) <= EPSILON
+        );
+      });
+
+      if (index >= 0) {
+        const piece = open[index];
+        const turnLower = cross(piece.lower[piece.lower.length - 2], piece.lower[piece.lower.length - 1], lowerRight);
+        const turnUpper = cross(piece.upper[piece.upper.length - 2], piece.upper[piece.upper.length - 1], upperRight);
+        // Lower chain must keep turning left and the upper chain right
+        if (turnLower >= -EPSILON && turnUpper <= EPSILON) {
+          continued.add(index);
+          next.push({ lower: [...piece.lower, lowerRight], upper: [...piece.upper, upperRight] });
+          continue;
+        }
+      }
+
+      next.push({
+        lower: [{ x: xl, y: bottom.left }, lowerRight],
+        upper: [{ x: xl, y: top.left }, upperRight]
+      });
+    }
+
+    open.forEach((piece, i) => {
+      if (!continued.has(i)) close(piece);
+    });
+    open = next;
+  }
+
+  open.forEach(close);
+  return pieces;
+}
+
+/**
+ * Positions worth testing: inner-fit corners, no-fit polygon vertices and edge intersections
+ */
+function candidatePositions(pieces: ConvexPiece[], fit: Bounds2D): Point2D[] {
+  const candidates: Point2D[] = [
+    { x: fit.minX, y: fit.minY },
+    { x: fit.maxX, y: fit.minY },
+    { x: fit.minX, y: fit.maxY },
+    { x: fit.maxX, y: fit.maxY }
+  ];
+  const fitEdges: Array<[Point2D, Point2D]> = [
+    [{ x: fit.minX, y: fit.minY }, { x: fit.maxX, y: fit.minY }],
+    [{ x: fit.maxX, y: fit.minY }, { x: fit.maxX, y: fit.maxY }],
+    [{ x: fit.maxX, y: fit.maxY }, { x: fit.minX, y: fit.maxY }],
+    [{ x: fit.minX, y: fit.maxY }, { x: fit.minX, y: fit.minY }]
+  ];
+
+  pieces.forEach((piece, i) => {
+    candidates.push(...piece.points);
+    const edgesA = pieceEdges(piece);
+    edgesA.forEach(edge => fitEdges.forEach(fitEdge => pushIntersection(edge, fitEdge, candidates)));
+
+    for (let j = i + 1; j < pieces.length; j++) {
+      const other = pieces[j];
+      if (!boundsOverlap(piece.bounds, other.bounds)) continue;
+      const edgesB = pieceEdges(other);
+      edgesA.forEach(edge => edgesB.forEach(otherEdge => pushIntersection(edge, otherEdge, candidates)));
+    }
+  });
+
+  return candidates.filter(
+    p => p.x >= fit.minX - EPSILON && p.x <= fit.maxX + EPSILON && p.y >= fit.minY - EPSILON && p.y <= fit.maxY + EPSILON
+  ).map(p => ({
+    x: Math.min(Math.max(p.x, fit.minX), Math.max(fit.minX, fit.maxX)),
+    y: Math.min(Math.max(p.y, fit.minY), Math.max(fit.minY, fit.maxY))
+  }));
+}
+
+function pieceEdges(piece: ConvexPiece): Array<[Point2D, Point2D]> {
+  return piece.points.map((p, i) => [p, piece.points[(i + 1) % piece.points.length]] as [Point2D, Point2D]);
+}
+
+function pushIntersection([a, b]: [Point2D, Point2D], [c, d]: [Point2D, Point2D], out: Point2D[]) {
+  const rX = b.x - a.x;
+  const rY = b.y - a.y;
+  const sX = d.x - c.x;
+  const sY = d.y - c.y;
+  const denominator = rX * sY - rY * sX;
+  if (Math.abs(denominator) < 1e-12) return;
+  const t = ((c.x - a.x) * sY - (c.y - a.y) * sX) / denominator;
+  const u = ((c.x - a.x) * rY - (c.y - a.y) * rX) / denominator;
+  if (t >= -1e-9 && t <= 1 + 1e-9 && u >= -1e-9 && u <= 1 + 1e-9) {
+    out.push({ x: a.x + t * rX, y: a.y + t * rY });
+  }
+}
+
+/**
+ * Inside a counter-clockwise convex polygon by more than the tolerance (touching is allowed)
+ */
+function strictlyInside(p: Point2D, piece: ConvexPiece): boolean {
+  const { bounds, points } = piece;
+  if (p.x <= bounds.minX + EPSILON || p.x >= bounds.maxX - EPSILON || p.y <= bounds.minY + EPSILON || p.y >= bounds.maxY - EPSILON) {
+    return false;
+  }
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (cross(a, b, p) <= EPSILON * length) return false;
+  }
+  return true;
+}
+
+function translatePiece(piece: ConvexPiece, offset: Point2D): ConvexPiece {
+  return {
+    points: piece.points.map(p => ({ x: p.x + offset.x, y: p.y + offset.y })),
+    bounds: {
+      minX: piece.bounds.minX + offset.x,
+      minY: piece.bounds.minY + offset.y,
+      maxX: piece.bounds.maxX + offset.x,
+      maxY: piece.bounds.maxY + offset.y
+    }
+  };
+}
+
+/**
+ * Octagon circumscribing a circle of the spacing radius, so the spacing is never undercut
+ */
+function spacingDisc(radius: number): Point2D[] {
+  if (radius <= 0) return [{ x: 0, y: 0 }];
+  const r = radius / Math.cos(Math.PI / 8);
+  return Array.from({ length: 8 }, (_, i) => ({
+    x: r * Math.cos(Math.PI / 8 + (i * Math.PI) / 4),
+    y: r * Math.sin(Math.PI / 8 + (i * Math.PI) / 4)
+  }));
+}
+
+function allowedRotations(step: number): number[] {
+  if (!(step > 0) || step >= 360) return [0];
+  const rotations: number[] = [];
+  for (let angle = 0; angle < 360 - EPSILON; angle += step) {
+    rotations.push(Math.round(angle * 1000) / 1000);
+  }
+  return rotations;
+}
+
+function compareScores(a: [number, number], b: [number, number]): number {
+  if (Math.abs(a[0] - b[0]) > EPSILON) return a[0] - b[0];
+  return a[1] - b[1];
+}
+
+/**
+ * Fewer unplaced parts, then fewer sheets, then a shorter last sheet
+ */
+function compareLayouts(a: Layout, b: Layout, context: NestingContext): number {
+  if (a.unplaced.length !== b.unplaced.length) return a.unplaced.length - b.unplaced.length;
+  if (a.sheets.length !== b.sheets.length) return a.sheets.length - b.sheets.length;
+  return context.lastSheetLength(a) - context.lastSheetLength(b) - EPSILON;
+}
+
+/**
+ * Swap a few neighbouring parts of the base order
+ */
+function perturbOrder(base: PartEntry[], random: () => number): PartEntry[] {
+  const order = [...base];
+  const swaps = 1 + Math.floor(random() * Math.max(1, order.length / 4));
+  for (let i = 0; i < swaps && order.length > 1; i++) {
+    const index = Math.floor(random() * (order.length - 1));
+    [order[index], order[index + 1]] = [order[index + 1], order[index]];
+  }
+  return order;
+}
+
+function maxSide(part: PartEntry): number {
+  const { bounds } = part.orientations[0];
+  return Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+}
+
+function boundsOverlap(a: Bounds2D, b: Bounds2D): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+function cross(o: Point2D, a: Point2D, b: Point2D): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function dedupe(points: Point2D[]): Point2D[] {
+  return points.filter((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return Math.abs(p.x - next.x) > EPSILON || Math.abs(p.y - next.y) > EPSILON;
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Export singleton instance
+export const nestingEngine = new NestingEngine();
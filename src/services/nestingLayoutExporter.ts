@@ -0,0 +1,474 @@
+/**
+ * Nesting Layout Exporter
+ * Turns nesting plan sheets into drawable layouts (placed outlines, labels, colours,
+ * cut order, remnant outlines) and writes them as SVG, multi-page PDF and DXF
+ */
+
+import { jsPDF } from 'jspdf';
+import { Point2D } from './geometryCalculator';
+import { CutContour, cutSequenceOptimizer } from './cutSequenceOptimizer';
+import type { NestingPlanSheet } from './calculators/materialNestingOptimizer';
+import { polygonArea, polygonBounds, polygonPerimeter } from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LayoutColorMode = 'part' | 'job';
+
+export interface LayoutOptions {
+  colorBy: LayoutColorMode;
+  startPosition: Point2D; // head position the cut order starts from
+  palette: string[]; // hex colours, reused when there are more keys
+}
+
+export interface LayoutDrawOptions {
+  labels: boolean; // part names
+  sequence: boolean; // cut order numbers and the path between parts
+  margin: number; // mm around the sheet
+}
+
+export interface LayoutPdfOptions extends LayoutDrawOptions {
+  title: string;
+  orientation: 'landscape' | 'portrait';
+  format: 'a4' | 'a3';
+}
+
+export interface LayoutPart {
+  index: number; // into the sheet placements
+  partId: string;
+  partName: string;
+  jobId?: string;
+  outline: Point2D[]; // mm, sheet coordinates with y up
+  holes: Point2D[][];
+  center: Point2D; // label anchor
+  size: number; // mm, smaller side of the bounding box
+  colorKey: string;
+  color: string;
+  sequence: number; // 1-based cut order
+}
+
+export interface SheetLayout {
+  sheetNumber: number;
+  name: string;
+  length: number; // mm
+  width: number; // mm
+  utilization: number; // %
+  outline: Point2D[]; // sheet or stock remnant outline
+  isRemnant: boolean;
+  parts: LayoutPart[];
+  remnants: Point2D[][]; // offcut outlines
+  sequencePath: Point2D[]; // part centres in cut order
+  legend: Array<{ key: string; color: string; count: number }>;
+}
+
+const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  colorBy: 'part',
+  startPosition: { x: 0, y: 0 },
+  palette: ['#3b82f6', '#f97316', '#22c55e', '#a855f7', '#ef4444', '#14b8a6', '#eab308', '#ec4899', '#6366f1', '#84cc16']
+};
+
+const DEFAULT_DRAW_OPTIONS: LayoutDrawOptions = {
+  labels: true,
+  sequence: true,
+  margin: 20
+};
+
+const DEFAULT_PDF_OPTIONS: LayoutPdfOptions = {
+  ...DEFAULT_DRAW_OPTIONS,
+  title: 'Nesting Layout',
+  orientation: 'landscape',
+  format: 'a4'
+};
+
+const UNASSIGNED_JOB = 'No job';
+const DXF_SHEET_GAP = 100; // mm between sheets stacked in one drawing
+const SEQUENCE_TIME_BUDGET_MS = 200;
+const MIN_TEXT_SIZE = 4; // mm
+const MAX_TEXT_SIZE = 40; // mm
+
+// ============================================================================
+// Nesting Layout Exporter
+// ============================================================================
+
+export class NestingLayoutExporter {
+  /**
+   * Drawable layouts for the plan; a part or job keeps its colour on every sheet
+   */
+  buildLayouts(sheets: NestingPlanSheet[], options?: Partial<LayoutOptions>): SheetLayout[] {
+    const opts = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+    if (opts.palette.length === 0) {
+      throw new Error('The layout palette needs at least one colour');
+    }
+    const colors = new Map<string, string>();
+    const colorFor = (key: string) => {
+      let color = colors.get(key);
+      if (!color) {
+        color = opts.palette[colors.size % opts.palette.length];
+        colors.set(key, color);
+      }
+      return color;
+    };
+
+    return sheets.map(sheet => {
+      const { length, width, name } = sheet.sheetSpec;
+      const parts: LayoutPart[] = sheet.placements.map((placement, index) => {
+        const bounds = polygonBounds(placement.outline);
+        const colorKey = opts.colorBy === 'job' ? placement.jobId || UNASSIGNED_JOB : placement.partName;
+        return {
+          index,
+          partId: placement.partId,
+          partName: placement.partName,
+          jobId: placement.jobId,
+          outline: placement.outline,
+          holes: placement.holes,
+          center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+          size: Math.min(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY),
+          colorKey,
+          color: colorFor(colorKey),
+          sequence: index + 1
+        };
+      });
+      const order = this.cutOrder(parts, opts.startPosition);
+      order.forEach((partIndex, k) => {
+        parts[partIndex].sequence = k + 1;
+      });
+
+      const legend: SheetLayout['legend'] = [];
+      parts.forEach(part => {
+        const entry = legend.find(item => item.key === part.colorKey);
+        if (entry) {
+          entry.count++;
+        } else {
+          legend.push({ key: part.colorKey, color: part.color, count: 1 });
+        }
+      });
+
+      return {
+        sheetNumber: sheet.sheetNumber,
+        name,
+        length,
+        width,
+        utilization: sheet.utilization,
+        outline: sheet.sheetOutline ?? [{ x: 0, y: 0 }, { x: length, y: 0 }, { x: length, y: width }, { x: 0, y: width }],
+        isRemnant: Boolean(sheet.remnantId),
+        parts,
+        remnants: sheet.remnants.map(remnant => remnant.outline ?? [
+          { x: remnant.x, y: remnant.y },
+          { x: remnant.x + remnant.length, y: remnant.y },
+          { x: remnant.x + remnant.length, y: remnant.y + remnant.width },
+          { x: remnant.x, y: remnant.y + remnant.width }
+        ]),
+        sequencePath: order.map(partIndex => parts[partIndex].center),
+        legend
+      };
+    });
+  }
+
+  // ============================================================================
+  // SVG
+  // ============================================================================
+
+  /**
+   * SVG path data for a sheet-coordinate polygon set; y is flipped so the sheet
+   * origin sits bottom left as on the machine
+   */
+  toSvgPath(polygons: Point2D[][], sheetWidth: number): string {
+    return polygons
+      .filter(points => points.length >= 2)
+      .map(points =>
+        points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x, 3)} ${round(sheetWidth - p.y, 3)}`).join(' ') + ' Z'
+      )
+      .join(' ');
+  }
+
+  /**
+   * Label height that fits inside the part
+   */
+  textSize(part: LayoutPart): number {
+    return Math.min(MAX_TEXT_SIZE, Math.max(MIN_TEXT_SIZE, part.size / 5));
+  }
+
+  /**
+   * Standalone SVG of one sheet in millimetres
+   */
+  toSvg(layout: SheetLayout, options?: Partial<LayoutDrawOptions>): string {
+    const opts = { ...DEFAULT_DRAW_OPTIONS, ...options };
+    const { length, width, margin } = { ...layout, margin: opts.margin };
+    const y = (value: number) => round(width - value, 3);
+    const elements: string[] = [];
+
+    elements.push(
+      `<path class="sheet" d="${this.toSvgPath([layout.outline], width)}" fill="#f8fafc" stroke="#334155" stroke-width="1"/>`
+    );
+    layout.remnants.forEach(remnant => {
+      elements.push(
+        `<path class="remnant" d="${this.toSvgPath([remnant], width)}" fill="none" stroke="#16a34a" stroke-width="1" stroke-dasharray="8 4"/>`
+      );
+    });
+    layout.parts.forEach(part => {
+      elements.push(
+        `<path class="part" data-part="${escapeXml(part.partId)}" data-sequence="${part.sequence}" d="${this.toSvgPath([part.outline, ...part.holes], width)}" fill="${part.color}" fill-opacity="0.6" fill-rule="evenodd" stroke="#1e293b" stroke-width="0.5"/>`
+      );
+    });
+    if (opts.sequence && layout.sequencePath.length > 1) {
+      const points = layout.sequencePath.map(p => `${round(p.x, 3)},${y(p.y)}`).join(' ');
+      elements.push(`<polyline class="sequence" points="${points}" fill="none" stroke="#dc2626" stroke-width="0.8" stroke-dasharray="3 3"/>`);
+    }
+    layout.parts.forEach(part => {
+      const size = round(this.textSize(part), 2);
+      if (opts.labels) {
+        elements.push(
+          `<text class="label" x="${round(part.center.x, 3)}" y="${y(part.center.y)}" font-size="${size}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" fill="#0f172a">${escapeXml(part.partName)}</text>`
+        );
+      }
+      if (opts.sequence) {
+        const offset = opts.labels ? size * 1.2 : 0;
+        elements.push(
+          `<text class="sequence-number" x="${round(part.center.x, 3)}" y="${y(part.center.y) + round(offset, 3)}" font-size="${size}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-weight="bold" fill="#dc2626">${part.sequence}</text>`
+        );
+      }
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${length + 2 * margin}mm" height="${width + 2 * margin}mm" viewBox="${-margin} ${-margin} ${length + 2 * margin} ${width + 2 * margin}">`,
+      `<title>Sheet ${layout.sheetNumber} - ${escapeXml(layout.name)}</title>`,
+      ...elements,
+      '</svg>'
+    ].join('\n');
+  }
+
+  // ============================================================================
+  // PDF
+  // ============================================================================
+
+  /**
+   * One page per sheet, scaled to fit the page
+   */
+  toPdf(layouts: SheetLayout[], options?: Partial<LayoutPdfOptions>): jsPDF {
+    const opts = { ...DEFAULT_PDF_OPTIONS, ...options };
+    if (layouts.length === 0) {
+      throw new Error('The layout has no sheets to export');
+    }
+    const doc = new jsPDF({ orientation: opts.orientation, unit: 'mm', format: opts.format });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const header = 18; // mm for the title lines
+
+    layouts.forEach((layout, pageIndex) => {
+      if (pageIndex > 0) doc.addPage();
+
+      doc.setFontSize(12);
+      doc.setTextColor('#0f172a');
+      doc.text(`${opts.title} - Sheet ${layout.sheetNumber} of ${layouts.length}`, 10, 10);
+      doc.setFontSize(9);
+      doc.text(
+        `${layout.name}: ${layout.length} x ${layout.width} mm, ${layout.parts.length} parts, ${layout.utilization.toFixed(1)}% utilized`,
+        10,
+        15
+      );
+
+      const scale = Math.min((pageWidth - 20) / layout.length, (pageHeight - header - 10) / layout.width);
+      const origin = { x: (pageWidth - layout.length * scale) / 2, y: header };
+      const toPage = (p: Point2D): [number, number] => [origin.x + p.x * scale, origin.y + (layout.width - p.y) * scale];
+      const polygon = (points: Point2D[], style: 'S' | 'F' | 'FD') => {
+        if (points.length < 2) return;
+        const [x0, y0] = toPage(points[0]);
+        const deltas = points.slice(1).map((p, i) => {
+          const [x1, y1] = toPage(points[i]);
+          const [x2, y2] = toPage(p);
+          return [x2 - x1, y2 - y1];
+        });
+        doc.lines(deltas, x0, y0, [1, 1], style, true);
+      };
+
+      doc.setLineWidth(0.3);
+      doc.setDrawColor('#334155');
+      doc.setFillColor('#f8fafc');
+      polygon(layout.outline, 'FD');
+
+      doc.setLineWidth(0.2);
+      layout.parts.forEach(part => {
+        doc.setDrawColor('#1e293b');
+        doc.setFillColor(part.color);
+        polygon(part.outline, 'FD');
+        doc.setFillColor('#f8fafc');
+        part.holes.forEach(hole => polygon(hole, 'FD'));
+      });
+
+      doc.setDrawColor('#16a34a');
+      doc.setLineDashPattern([2, 1], 0);
+      layout.remnants.forEach(remnant => polygon(remnant, 'S'));
+      if (opts.sequence && layout.sequencePath.length > 1) {
+        doc.setDrawColor('#dc2626');
+        for (let i = 1; i < layout.sequencePath.length; i++) {
+          const [x1, y1] = toPage(layout.sequencePath[i - 1]);
+          const [x2, y2] = toPage(layout.sequencePath[i]);
+          doc.line(x1, y1, x2, y2);
+        }
+      }
+      doc.setLineDashPattern([], 0);
+
+      layout.parts.forEach(part => {
+        // pt from mm on the page, kept readable on crowded sheets
+        const fontSize = Math.max(4, Math.min(10, this.textSize(part) * scale * 2.83));
+        const [x, y] = toPage(part.center);
+        doc.setFontSize(fontSize);
+        if (opts.labels) {
+          doc.setTextColor('#0f172a');
+          doc.text(part.partName, x, y, { align: 'center', baseline: 'middle' });
+        }
+        if (opts.sequence) {
+          doc.setTextColor('#dc2626');
+          doc.text(String(part.sequence), x, y + (opts.labels ? fontSize * 0.45 : 0), { align: 'center', baseline: 'middle' });
+        }
+      });
+    });
+
+    return doc;
+  }
+
+  // ============================================================================
+  // DXF
+  // ============================================================================
+
+  /**
+   * R12 DXF in millimetres with the sheets stacked along Y; parts, holes, remnants
+   * and labels on their own layers so the geometry can go back into CAD
+   */
+  toDxf(layouts: SheetLayout[], options?: Partial<LayoutDrawOptions>): string {
+    const opts = { ...DEFAULT_DRAW_OPTIONS, ...options };
+    const layers: Array<[string, number]> = [
+      ['SHEET', 8],
+      ['PARTS', 7],
+      ['HOLES', 1],
+      ['REMNANTS', 3],
+      ['LABELS', 5],
+      ['SEQUENCE', 1]
+    ];
+    const out: Array<string | number> = [];
+    const group = (code: number, value: string | number) => out.push(code, value);
+
+    group(0, 'SECTION');
+    group(2, 'HEADER');
+    group(9, '$ACADVER');
+    group(1, 'AC1009');
+    group(9, '$INSUNITS');
+    group(70, 4);
+    group(9, '$MEASUREMENT');
+    group(70, 1);
+    group(0, 'ENDSEC');
+
+    group(0, 'SECTION');
+    group(2, 'TABLES');
+    group(0, 'TABLE');
+    group(2, 'LAYER');
+    group(70, layers.length);
+    layers.forEach(([name, color]) => {
+      group(0, 'LAYER');
+      group(2, name);
+      group(70, 0);
+      group(62, color);
+      group(6, 'CONTINUOUS');
+    });
+    group(0, 'ENDTAB');
+    group(0, 'ENDSEC');
+
+    group(0, 'SECTION');
+    group(2, 'ENTITIES');
+
+    const polyline = (layer: string, points: Point2D[], offsetY: number) => {
+      group(0, 'POLYLINE');
+      group(8, layer);
+      group(66, 1);
+      group(70, 1);
+      points.forEach(p => {
+        group(0, 'VERTEX');
+        group(8, layer);
+        group(10, round(p.x, 4));
+        group(20, round(p.y + offsetY, 4));
+      });
+      group(0, 'SEQEND');
+      group(8, layer);
+    };
+    const text = (layer: string, value: string, at: Point2D, height: number) => {
+      group(0, 'TEXT');
+      group(8, layer);
+      group(10, round(at.x, 4));
+      group(20, round(at.y, 4));
+      group(40, round(height, 3));
+      group(1, value.replace(/[\r\n]+/g, ' '));
+      group(72, 1);
+      group(11, round(at.x, 4));
+      group(21, round(at.y, 4));
+    };
+
+    let offsetY = 0;
+    layouts.forEach(layout => {
+      polyline('SHEET', layout.outline, offsetY);
+      text('LABELS', `Sheet ${layout.sheetNumber} - ${layout.name}`, { x: 0, y: offsetY + layout.width + 10 }, 10);
+      layout.remnants.forEach(remnant => polyline('REMNANTS', remnant, offsetY));
+      layout.parts.forEach(part => {
+        polyline('PARTS', part.outline, offsetY);
+        part.holes.forEach(hole => polyline('HOLES', hole, offsetY));
+        const size = this.textSize(part);
+        const at = { x: part.center.x, y: part.center.y + offsetY };
+        if (opts.labels) text('LABELS', part.partName, at, size);
+        if (opts.sequence) text('SEQUENCE', String(part.sequence), { x: at.x, y: at.y - size * 1.2 }, size);
+      });
+      offsetY += layout.width + DXF_SHEET_GAP;
+    });
+
+    group(0, 'ENDSEC');
+    group(0, 'EOF');
+    return out.join('\n') + '\n';
+  }
+
+  // ============================================================================
+  // Cut order
+  // ============================================================================
+
+  /**
+   * Part indices in cutting order: outer contours sequenced from the head position,
+   * small parts before the large ones around them
+   */
+  private cutOrder(parts: LayoutPart[], startPosition: Point2D): number[] {
+    const contours: CutContour[] = parts
+      .filter(part => part.outline.length >= 3)
+      .map(part => ({
+        id: String(part.index),
+        partId: part.partId,
+        kind: 'outer',
+        start: part.outline[0],
+        end: part.outline[0],
+        length: polygonPerimeter(part.outline),
+        centroid: part.center,
+        area: polygonArea(part.outline),
+        bounds: polygonBounds(part.outline)
+      }));
+    if (contours.length === 0) return [];
+
+    const { steps } = cutSequenceOptimizer.optimize(contours, {
+      startPosition,
+      timeBudgetMs: SEQUENCE_TIME_BUDGET_MS
+    });
+    return steps.map(step => Number(step.contour.id));
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Export singleton instance
+export const nestingLayoutExporter = new NestingLayoutExporter();
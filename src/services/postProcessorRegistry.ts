@@ -0,0 +1,216 @@
+/**
+ * Post-Processor Registry
+ * Machine dialects for generated cutting programs: a generic ISO profile plus
+ * user-defined templates, validated on registration and kept in local storage
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PostProcessorTemplates {
+  header: string[];
+  footer: string[];
+  comment: string; // {text}
+  parameters: string[]; // per-contour parameter change
+  rapid: string; // {x} {y}
+  linear: string; // {x} {y} {feed}
+  arcCw: string; // {x} {y} {i} {j} {feed}
+  arcCcw: string;
+  pierce: string[]; // {laserOn} {dwell} {x} {y}
+  laserOff: string[]; // {laserOff}
+}
+
+export interface PostProcessorProfile {
+  id: string;
+  name: string;
+  fileExtension: string;
+  decimals: number;
+  lineNumbers: { enabled: boolean; start: number; step: number };
+  arcs: 'ijk' | 'linear'; // G2/G3 with incremental centres, or chords only
+  dwellUnit: 's' | 'ms';
+  dwellWord: string; // address letter carrying the dwell time, e.g. P
+  laserOn: string; // code that fires the beam, e.g. M03
+  laserOff: string;
+  templates: PostProcessorTemplates;
+}
+
+export type TemplateValues = Record<string, string | number>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Placeholders each template may use on top of the program-wide ones.
+ * {feed} expands to " F<rate>" when the feed rate changes and to nothing otherwise;
+ * {feedRate} is the bare number.
+ */
+const PROGRAM_PLACEHOLDERS = [
+  'programName', 'programNumber', 'sheetWidth', 'sheetHeight', 'thickness', 'material', 'contourCount',
+  'laserOn', 'laserOff'
+];
+
+const TEMPLATE_PLACEHOLDERS: Record<keyof PostProcessorTemplates, string[]> = {
+  header: [],
+  footer: ['x', 'y'],
+  comment: ['text'],
+  parameters: ['setId', 'power', 'feedRate', 'gasType', 'gasPressure', 'focus'],
+  rapid: ['x', 'y'],
+  linear: ['x', 'y', 'feed', 'feedRate'],
+  arcCw: ['x', 'y', 'i', 'j', 'feed', 'feedRate'],
+  arcCcw: ['x', 'y', 'i', 'j', 'feed', 'feedRate'],
+  pierce: ['dwell', 'x', 'y', 'setId'],
+  laserOff: []
+};
+
+export const ISO_PROFILE: PostProcessorProfile = {
+  id: 'iso',
+  name: 'Generic ISO (G-code)',
+  fileExtension: 'nc',
+  decimals: 3,
+  lineNumbers: { enabled: true, start: 10, step: 10 },
+  arcs: 'ijk',
+  dwellUnit: 'ms',
+  dwellWord: 'P',
+  laserOn: 'M03',
+  laserOff: 'M05',
+  templates: {
+    header: ['%', 'O{programNumber}', '({programName})', '(SHEET {sheetWidth} X {sheetHeight} {material} {thickness}MM)', 'G21', 'G90', 'G17'],
+    footer: ['{laserOff}', 'G0 X{x} Y{y}', 'M30', '%'],
+    comment: '({text})',
+    parameters: ['(SET {setId} GAS {gasType} {gasPressure}BAR FOCUS {focus}MM)', 'S{power}'],
+    rapid: 'G0 X{x} Y{y}',
+    linear: 'G1 X{x} Y{y}{feed}',
+    arcCw: 'G2 X{x} Y{y} I{i} J{j}{feed}',
+    arcCcw: 'G3 X{x} Y{y} I{i} J{j}{feed}',
+    pierce: ['{laserOn}', 'G4 P{dwell}'],
+    laserOff: ['{laserOff}']
+  }
+};
+
+const STORAGE_KEY = 'laser-calc-post-processors';
+
+// ============================================================================
+// Post-Processor Registry
+// ============================================================================
+
+export class PostProcessorRegistry {
+  private profiles = new Map<string, PostProcessorProfile>();
+
+  constructor() {
+    this.profiles.set(ISO_PROFILE.id, ISO_PROFILE);
+    this.loadFromStorage();
+  }
+
+  get(id: string): PostProcessorProfile {
+    const profile = this.profiles.get(id);
+    if (!profile) {
+      throw new Error(`Unknown post-processor profile: ${id}`);
+    }
+    return profile;
+  }
+
+  list(): PostProcessorProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Add or replace a user-defined profile. The built-in ISO profile cannot be replaced.
+   */
+  register(profile: PostProcessorProfile): PostProcessorProfile {
+    if (profile.id === ISO_PROFILE.id) {
+      throw new Error('The built-in ISO profile cannot be replaced');
+    }
+    this.validate(profile);
+    this.profiles.set(profile.id, profile);
+    this.saveToStorage();
+    return profile;
+  }
+
+  /**
+   * Register a profile derived from an existing one, overriding only some templates
+   */
+  extend(
+    baseId: string,
+    changes: Partial<Omit<PostProcessorProfile, 'templates'>> & { id: string; name: string; templates?: Partial<PostProcessorTemplates> }
+  ): PostProcessorProfile {
+    const base = this.get(baseId);
+    return this.register({
+      ...base,
+      ...changes,
+      lineNumbers: { ...base.lineNumbers, ...changes.lineNumbers },
+      templates: { ...base.templates, ...changes.templates }
+    });
+  }
+
+  remove(id: string): boolean {
+    if (id === ISO_PROFILE.id) return false;
+    const removed = this.profiles.delete(id);
+    if (removed) this.saveToStorage();
+    return removed;
+  }
+
+  /**
+   * Reject profiles whose templates use placeholders the generator cannot fill
+   */
+  validate(profile: PostProcessorProfile): void {
+    if (!profile.id || !profile.name) {
+      throw new Error('A post-processor profile needs an id and a name');
+    }
+    if (!Number.isInteger(profile.decimals) || profile.decimals < 0 || profile.decimals > 6) {
+      throw new Error('Decimals must be a whole number between 0 and 6');
+    }
+
+    (Object.keys(TEMPLATE_PLACEHOLDERS) as Array<keyof PostProcessorTemplates>).forEach(name => {
+      const template = profile.templates[name];
+      if (template === undefined) {
+        throw new Error(`Template "${name}" is missing`);
+      }
+      const allowed = new Set([...PROGRAM_PLACEHOLDERS, ...TEMPLATE_PLACEHOLDERS[name]]);
+      (Array.isArray(template) ? template : [template]).forEach(line => {
+        for (const match of line.matchAll(/\{(\w+)\}/g)) {
+          if (!allowed.has(match[1])) {
+            throw new Error(`Unknown placeholder {${match[1]}} in template "${name}"`);
+          }
+        }
+      });
+    });
+  }
+
+  private loadFromStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      (JSON.parse(stored) as PostProcessorProfile[]).forEach(profile => {
+        this.validate(profile);
+        this.profiles.set(profile.id, profile);
+      });
+    } catch (error) {
+      console.warn('Failed to load post-processor profiles from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const custom = this.list().filter(profile => profile.id !== ISO_PROFILE.id);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+    } catch (error) {
+      console.error('Failed to save post-processor profiles to storage:', error);
+    }
+  }
+}
+
+/**
+ * Fill {placeholders}; unknown names are left as written
+ */
+export function fillTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+}
+
+// Export singleton instance
+export const postProcessorRegistry = new PostProcessorRegistry();
@@ -0,0 +1,248 @@
+/**
+ * Program Dry Run
+ * Reads a generated cutting program line by line, the way the controller would,
+ * and estimates its runtime from moves, feed rates and dwells
+ */
+
+import type { Point2D } from './geometryCalculator';
+import { PostProcessorProfile, postProcessorRegistry } from './postProcessorRegistry';
+import { Bounds2D } from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DryRunOptions {
+  profileId: string; // dialect the program was written for
+  rapidSpeed: number; // mm/min
+  rapidAcceleration: number; // mm/s², 0 = rapids at full speed throughout
+}
+
+export interface DryRunResult {
+  totalTime: number; // min
+  rapidTime: number; // min
+  cutTime: number; // min
+  dwellTime: number; // min
+  rapidDistance: number; // mm
+  cutDistance: number; // mm
+  pierceCount: number;
+  moveCount: number;
+  lineCount: number;
+  bounds: Bounds2D | null; // of all positions visited
+  warnings: string[];
+}
+
+type Motion = 0 | 1 | 2 | 3;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: DryRunOptions = {
+  profileId: 'iso',
+  rapidSpeed: 15000,
+  rapidAcceleration: 0
+};
+
+const INCH = 25.4;
+
+// ============================================================================
+// Program Dry Run
+// ============================================================================
+
+export class ProgramDryRun {
+  run(program: string | string[], options: Partial<DryRunOptions> = {}): DryRunResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const profile = postProcessorRegistry.get(opts.profileId);
+    if (opts.rapidSpeed <= 0) {
+      throw new Error('Rapid speed must be greater than 0');
+    }
+
+    const lines = Array.isArray(program) ? program : program.split(/\r?\n/);
+    const laserOn = normalizeCode(profile.laserOn);
+    const warnings = new Set<string>();
+    const result: DryRunResult = {
+      totalTime: 0,
+      rapidTime: 0,
+      cutTime: 0,
+      dwellTime: 0,
+      rapidDistance: 0,
+      cutDistance: 0,
+      pierceCount: 0,
+      moveCount: 0,
+      lineCount: 0,
+      bounds: null,
+      warnings: []
+    };
+
+    let position: Point2D = { x: 0, y: 0 };
+    let motion: Motion = 0;
+    let absolute = true;
+    let scale = 1; // to mm
+    let feed = 0; // mm/min
+
+    lines.forEach((raw, lineIndex) => {
+      const line = raw.replace(/\([^)]*\)/g, '').replace(/;.*$/, '').trim().toUpperCase();
+      if (!line || line === '%') return;
+      result.lineCount++;
+
+      const words = Array.from(line.matchAll(/([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g)).map(match => ({
+        letter: match[1],
+        value: Number(match[2])
+      }));
+      const value = (letter: string) => words.find(word => word.letter === letter)?.value;
+      let dwell = false;
+
+      words.forEach(word => {
+        if (word.letter === 'G') {
+          switch (word.value) {
+            case 0: case 1: case 2: case 3:
+              motion = word.value as Motion;
+              break;
+            case 4:
+              dwell = true;
+              break;
+            case 20:
+              scale = INCH;
+              break;
+            case 21:
+              scale = 1;
+              break;
+            case 90:
+              absolute = true;
+              break;
+            case 91:
+              absolute = false;
+              break;
+            case 17: case 40: case 49: case 80:
+              break;
+            default:
+              warnings.add(`Line ${lineIndex + 1}: G${word.value} is not simulated`);
+          }
+        } else if (word.letter === 'M' && normalizeCode(`M${word.value}`) === laserOn) {
+          result.pierceCount++;
+        } else if (word.letter === 'F') {
+          feed = word.value * scale;
+        }
+      });
+
+      if (dwell) {
+        result.dwellTime += this.dwellMinutes(value(profile.dwellWord.toUpperCase()) ?? 0, profile);
+        return;
+      }
+
+      const x = value('X');
+      const y = value('Y');
+      if (x === undefined && y === undefined) return;
+
+      const target = {
+        x: x === undefined ? position.x : absolute ? x * scale : position.x + x * scale,
+        y: y === undefined ? position.y : absolute ? y * scale : position.y + y * scale
+      };
+      const length = motion >= 2
+        ? this.arcLength(position, target, motion === 2, value('I'), value('J'), value('R'), scale, lineIndex, warnings)
+        : Math.hypot(target.x - position.x, target.y - position.y);
+
+      if (motion === 0) {
+        result.rapidDistance += length;
+        result.rapidTime += this.rapidMinutes(length, opts);
+      } else if (feed > 0) {
+        result.cutDistance += length;
+        result.cutTime += length / feed;
+      } else {
+        warnings.add(`Line ${lineIndex + 1}: cutting move without a feed rate`);
+        result.cutDistance += length;
+      }
+
+      result.moveCount++;
+      result.bounds = extend(extend(result.bounds, position), target);
+      position = target;
+    });
+
+    result.totalTime = result.rapidTime + result.cutTime + result.dwellTime;
+    result.warnings = Array.from(warnings);
+    return result;
+  }
+
+  private dwellMinutes(dwell: number, profile: PostProcessorProfile): number {
+    return (profile.dwellUnit === 'ms' ? dwell / 1000 : dwell) / 60;
+  }
+
+  /**
+   * Trapezoidal speed profile: rapids start and stop at rest
+   */
+  private rapidMinutes(length: number, opts: DryRunOptions): number {
+    if (opts.rapidAcceleration <= 0) return length / opts.rapidSpeed;
+    const speed = opts.rapidSpeed / 60; // mm/s
+    const rampLength = (speed * speed) / opts.rapidAcceleration;
+    const seconds = length >= rampLength
+      ? length / speed + speed / opts.rapidAcceleration
+      : 2 * Math.sqrt(length / opts.rapidAcceleration);
+    return seconds / 60;
+  }
+
+  private arcLength(
+    from: Point2D,
+    to: Point2D,
+    clockwise: boolean,
+    i: number | undefined,
+    j: number | undefined,
+    r: number | undefined,
+    scale: number,
+    lineIndex: number,
+    warnings: Set<string>
+  ): number {
+    let center: Point2D;
+    if (i !== undefined || j !== undefined) {
+      center = { x: from.x + (i ?? 0) * scale, y: from.y + (j ?? 0) * scale };
+    } else if (r !== undefined) {
+      // Radius form: negative R selects the arc above a half turn
+      const radius = Math.abs(r * scale);
+      const chord = Math.hypot(to.x - from.x, to.y - from.y);
+      if (chord === 0 || chord > 2 * radius + 1e-6) {
+        warnings.add(`Line ${lineIndex + 1}: arc radius does not fit its end points`);
+        return chord;
+      }
+      const h = Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2));
+      const side = (clockwise ? 1 : -1) * (r < 0 ? -1 : 1);
+      center = {
+        x: (from.x + to.x) / 2 + (side * h * (to.y - from.y)) / chord,
+        y: (from.y + to.y) / 2 - (side * h * (to.x - from.x)) / chord
+      };
+    } else {
+      warnings.add(`Line ${lineIndex + 1}: arc without centre or radius`);
+      return Math.hypot(to.x - from.x, to.y - from.y);
+    }
+
+    const radius = Math.hypot(from.x - center.x, from.y - center.y);
+    const endRadius = Math.hypot(to.x - center.x, to.y - center.y);
+    if (Math.abs(radius - endRadius) > 0.01) {
+      warnings.add(`Line ${lineIndex + 1}: arc end point is ${Math.abs(radius - endRadius).toFixed(3)} mm off its radius`);
+    }
+
+    const startAngle = Math.atan2(from.y - center.y, from.x - center.x);
+    const endAngle = Math.atan2(to.y - center.y, to.x - center.x);
+    let sweep = clockwise ? startAngle - endAngle : endAngle - startAngle;
+    sweep = ((sweep % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    if (sweep < 1e-9) sweep = 2 * Math.PI; // same start and end: full circle
+    return sweep * radius;
+  }
+}
+
+function normalizeCode(code: string): string {
+  const match = code.trim().toUpperCase().match(/^([A-Z])\s*0*(\d+)/);
+  return match ? `${match[1]}${match[2]}` : code.trim().toUpperCase();
+}
+
+function extend(bounds: Bounds2D | null, p: Point2D): Bounds2D {
+  if (!bounds) return { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+  return {
+    minX: Math.min(bounds.minX, p.x),
+    minY: Math.min(bounds.minY, p.y),
+    maxX: Math.max(bounds.maxX, p.x),
+    maxY: Math.max(bounds.maxY, p.y)
+  };
+}
+
+// Export singleton instance
+export const programDryRun = new ProgramDryRun();
@@ -0,0 +1,536 @@
+/**
+ * Program Generator
+ * Turns a nested sheet layout into a machine program: contours with leads and
+ * micro-joints from the contour processor, ordered by the cut sequence optimizer,
+ * with per-contour laser parameters and rendered through a post-processor profile
+ */
+
+import type { LaserParameterResults } from '../features/calculators/laser-parameter-optimizer/LaserParameterOptimizer';
+import { ContourKind, ContourProcessingOptions, LeadPath, contourProcessor } from './contourProcessor';
+import { CutContour, CutSequenceOptions, CutSequenceResult, cutSequenceOptimizer } from './cutSequenceOptimizer';
+import type { ContourSegment, Point2D } from './geometryCalculator';
+import { kerfCompensator } from './kerfCompensator';
+import type { NestingPlacement } from './nestingEngine';
+import { PostProcessorProfile, TemplateValues, fillTemplate, postProcessorRegistry } from './postProcessorRegistry';
+import {
+  Bounds2D,
+  DEFAULT_CHORD_TOLERANCE,
+  contourDistanceOf,
+  contourLength,
+  contourSignedArea,
+  distance,
+  flattenContour,
+  flattenSegment,
+  multiplyMatrix,
+  polygonBounds,
+  reverseContour,
+  rotationMatrix,
+  segmentEnd,
+  segmentLength,
+  segmentStart,
+  shapeToContours,
+  sliceContour,
+  transformContour,
+  translationMatrix
+} from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CutParameterSet {
+  id: string;
+  power: number; // W
+  feedRate: number; // mm/min
+  gasType: string;
+  gasPressure: number; // bar
+  focusPosition: number; // mm
+  pierceTime: number; // s
+}
+
+export interface ContourParameterRules {
+  outer: CutParameterSet;
+  inner?: CutParameterSet; // holes; defaults to the outer set
+  smallFeature?: { maxSize: number; parameters: CutParameterSet }; // contours within maxSize x maxSize mm
+}
+
+export interface ProgramToolpath {
+  id: string; // placement index plus outer or hole number, e.g. "2:hole-1"
+  partId: string;
+  kind: ContourKind;
+  parameters: CutParameterSet;
+  pierce: Point2D;
+  end: Point2D; // after the lead-out
+  leadIn: LeadPath;
+  leadOut: LeadPath;
+  runs: ContourSegment[][]; // contour pieces between micro-joints, in cutting order
+  cutLength: number; // mm, leads plus runs
+  area: number; // mm²
+  bounds: Bounds2D;
+  warnings: string[];
+}
+
+export type ProgramMove =
+  | { type: 'comment'; text: string }
+  | { type: 'parameters'; set: CutParameterSet }
+  | { type: 'rapid'; to: Point2D }
+  | { type: 'pierce'; at: Point2D; set: CutParameterSet }
+  | { type: 'line'; to: Point2D }
+  | { type: 'arc'; to: Point2D; center: Point2D; clockwise: boolean }
+  | { type: 'laserOff' };
+
+export interface ProgramInput {
+  name: string;
+  programNumber?: number;
+  sheet: { width: number; height: number; thickness?: number; material?: string };
+  placements: NestingPlacement[];
+  parameters: ContourParameterRules;
+  sequence?: CutSequenceResult; // from toCutContours(); optimized here when left out
+}
+
+export interface ProgramOptions {
+  profileId: string;
+  contour: Partial<ContourProcessingOptions>;
+  sequence: Partial<CutSequenceOptions>;
+  homePosition: Point2D;
+  kerfWidth: number; // mm; nominal parts are offset by half of it, compensated ones are cut as they are
+  chordTolerance: number; // mm
+}
+
+export interface GeneratedProgram {
+  profileId: string;
+  fileName: string;
+  code: string;
+  lines: string[];
+  moves: ProgramMove[];
+  contourOrder: string[];
+  stats: {
+    contours: number;
+    pierces: number;
+    cutLength: number; // mm
+    rapidLength: number; // mm
+    parameterChanges: number;
+    lineCount: number;
+  };
+  warnings: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: ProgramOptions = {
+  profileId: 'iso',
+  contour: {},
+  sequence: {},
+  homePosition: { x: 0, y: 0 },
+  kerfWidth: 0,
+  chordTolerance: DEFAULT_CHORD_TOLERANCE
+};
+
+const DEFAULT_PROGRAM_NUMBER = 1000;
+const DEFAULT_PIERCE_TIME = 0.5; // s
+
+// ============================================================================
+// Program Generator
+// ============================================================================
+
+export class ProgramGenerator {
+  /**
+   * Cut parameters from a LaserParameterOptimizer result
+   */
+  parameterSetFromOptimizer(
+    results: LaserParameterResults,
+    id: string,
+    overrides: Partial<CutParameterSet> = {}
+  ): CutParameterSet {
+    return {
+      id,
+      power: results.optimalPower,
+      feedRate: results.cuttingSpeed,
+      gasType: results.gasType,
+      gasPressure: results.gasPressure,
+      focusPosition: results.focusPosition,
+      pierceTime: DEFAULT_PIERCE_TIME,
+      ...overrides
+    };
+  }
+
+  /**
+   * Place every outline and hole of the layout on the sheet with its leads and joints
+   */
+  buildToolpaths(
+    placements: NestingPlacement[],
+    parameters: ContourParameterRules,
+    options: Partial<ProgramOptions> = {}
+  ): ProgramToolpath[] {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const toolpaths: ProgramToolpath[] = [];
+
+    placements.forEach((placement, index) => {
+      const m = multiplyMatrix(
+        translationMatrix(placement.position.x, placement.position.y),
+        rotationMatrix((placement.rotation * Math.PI) / 180)
+      );
+      const { outline, holes } = shapeToContours(placement.shape, opts.chordTolerance);
+      const partId = placement.shape.name ? `${placement.shape.name} #${index + 1}` : `Part #${index + 1}`;
+
+      holes.forEach((hole, k) => {
+        toolpaths.push(this.buildToolpath(`${index}:hole-${k + 1}`, partId, 'inner', transformContour(hole, m), parameters, opts));
+      });
+      if (outline.length > 0) {
+        toolpaths.push(this.buildToolpath(`${index}:outer`, partId, 'outer', transformContour(outline, m), parameters, opts));
+      }
+    });
+
+    return toolpaths;
+  }
+
+  /**
+   * Toolpaths as cut sequence contours: the beam enters at the pierce point and
+   * leaves at the end of the lead-out
+   */
+  toCutContours(toolpaths: ProgramToolpath[]): CutContour[] {
+    return toolpaths.map(toolpath => ({
+      id: toolpath.id,
+      partId: toolpath.partId,
+      kind: toolpath.kind,
+      start: toolpath.pierce,
+      end: toolpath.end,
+      length: toolpath.cutLength,
+      centroid: {
+        x: (toolpath.bounds.minX + toolpath.bounds.maxX) / 2,
+        y: (toolpath.bounds.minY + toolpath.bounds.maxY) / 2
+      },
+      area: toolpath.area,
+      bounds: toolpath.bounds
+    }));
+  }
+
+  generate(input: ProgramInput, options: Partial<ProgramOptions> = {}): GeneratedProgram {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const profile = postProcessorRegistry.get(opts.profileId);
+    if (input.placements.length === 0) {
+      throw new Error('The layout has no placed parts');
+    }
+
+    const compensation = kerfCompensator.compensatePlacements(input.placements, opts.kerfWidth, opts.chordTolerance);
+    const toolpaths = this.buildToolpaths(compensation.placements, input.parameters, opts);
+    const ordered = this.orderToolpaths(toolpaths, input.sequence, opts);
+    const moves = this.buildMoves(ordered, opts.homePosition);
+    const warnings = [
+      ...compensation.warnings,
+      ...toolpaths.flatMap(toolpath => toolpath.warnings.map(warning => `${toolpath.id}: ${warning}`))
+    ];
+    const lines = this.render(moves, input, profile, ordered.length, opts.homePosition, opts.chordTolerance);
+
+    let rapidLength = 0;
+    let position = opts.homePosition;
+    moves.forEach(move => {
+      if (move.type === 'rapid') {
+        rapidLength += distance(position, move.to);
+        position = move.to;
+      } else if (move.type === 'line' || move.type === 'arc') {
+        position = move.to;
+      }
+    });
+
+    return {
+      profileId: profile.id,
+      fileName: `${input.name.replace(/[^\w-]+/g, '_')}.${profile.fileExtension}`,
+      code: lines.join('\n') + '\n',
+      lines,
+      moves,
+      contourOrder: ordered.map(toolpath => toolpath.id),
+      stats: {
+        contours: ordered.length,
+        pierces: moves.filter(move => move.type === 'pierce').length,
+        cutLength: ordered.reduce((sum, toolpath) => sum + toolpath.cutLength, 0),
+        rapidLength,
+        parameterChanges: moves.filter(move => move.type === 'parameters').length,
+        lineCount: lines.length
+      },
+      warnings
+    };
+  }
+
+  // ==========================================================================
+  // Toolpaths
+  // ==========================================================================
+
+  private buildToolpath(
+    id: string,
+    partId: string,
+    kind: ContourKind,
+    segments: ContourSegment[],
+    rules: ContourParameterRules,
+    opts: ProgramOptions
+  ): ProgramToolpath {
+    // Outlines counter-clockwise, holes clockwise, as the contour processor cuts them
+    const ccw = contourSignedArea(segments) > 0;
+    const oriented = ccw === (kind === 'outer') ? segments : reverseContour(segments);
+    const polygon = flattenContour(oriented, opts.chordTolerance);
+    const processed = contourProcessor.processPolygon(polygon, kind, { chordTolerance: opts.chordTolerance, ...opts.contour });
+
+    // Joint positions come from the flattened polygon; map them onto the true contour
+    const total = contourLength(oriented);
+    const scale = processed.contourLength > 0 ? total / processed.contourLength : 1;
+    const startAt = contourDistanceOf(oriented, processed.start);
+    const breaks = [0];
+    processed.microJoints.forEach(joint => {
+      breaks.push(joint.distance * scale - joint.width / 2, joint.distance * scale + joint.width / 2);
+    });
+    breaks.push(total);
+
+    const runs: ContourSegment[][] = [];
+    for (let k = 0; k < breaks.length; k += 2) {
+      const run = sliceContour(oriented, startAt + breaks[k], startAt + breaks[k + 1]);
+      if (run.length > 0) runs.push(run);
+    }
+
+    // The processor starts on a chord of curved edges; shift the leads onto the true contour
+    const contact = runs.length > 0 ? segmentStart(runs[0][0]) : processed.start;
+    const leadIn = shiftLead(processed.leadIn, contact.x - processed.start.x, contact.y - processed.start.y);
+    const leadOut = shiftLead(processed.leadOut, contact.x - processed.start.x, contact.y - processed.start.y);
+
+    const bounds = polygonBounds(polygon);
+    const size = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+    const runLength = runs.reduce((sum, run) => sum + contourLength(run), 0);
+
+    return {
+      id,
+      partId,
+      kind,
+      parameters: this.selectParameters(kind, size, rules),
+      pierce: leadIn.points[0],
+      end: leadOut.points[leadOut.points.length - 1],
+      leadIn,
+      leadOut,
+      runs,
+      cutLength: leadIn.length + runLength + leadOut.length,
+      area: Math.abs(contourSignedArea(oriented)),
+      bounds,
+      warnings: processed.warnings
+    };
+  }
+
+  private selectParameters(kind: ContourKind, size: number, rules: ContourParameterRules): CutParameterSet {
+    if (rules.smallFeature && size <= rules.smallFeature.maxSize) return rules.smallFeature.parameters;
+    return kind === 'inner' && rules.inner ? rules.inner : rules.outer;
+  }
+
+  private orderToolpaths(
+    toolpaths: ProgramToolpath[],
+    sequence: CutSequenceResult | undefined,
+    opts: ProgramOptions
+  ): ProgramToolpath[] {
+    const byId = new Map(toolpaths.map(toolpath => [toolpath.id, toolpath]));
+    const result = sequence ?? cutSequenceOptimizer.optimize(this.toCutContours(toolpaths), {
+      startPosition: opts.homePosition,
+      endPosition: opts.homePosition,
+      ...opts.sequence
+    });
+
+    const ordered = result.steps.map(step => byId.get(step.contour.id));
+    if (ordered.length !== toolpaths.length || ordered.some(toolpath => toolpath === undefined)) {
+      throw new Error('The cut sequence does not match the layout contours');
+    }
+    return ordered as ProgramToolpath[];
+  }
+
+  // ==========================================================================
+  // Moves
+  // ==========================================================================
+
+  private buildMoves(toolpaths: ProgramToolpath[], home: Point2D): ProgramMove[] {
+    const moves: ProgramMove[] = [];
+    let current: CutParameterSet | null = null;
+
+    toolpaths.forEach(toolpath => {
+      moves.push({ type: 'comment', text: `${toolpath.partId} ${toolpath.kind.toUpperCase()} ${toolpath.id}` });
+      if (!current || current.id !== toolpath.parameters.id) {
+        current = toolpath.parameters;
+        moves.push({ type: 'parameters', set: current });
+      }
+
+      moves.push({ type: 'rapid', to: toolpath.pierce });
+      moves.push({ type: 'pierce', at: toolpath.pierce, set: toolpath.parameters });
+      this.leadMoves(toolpath.leadIn, moves);
+
+      toolpath.runs.forEach((run, k) => {
+        if (k > 0) {
+          // Hop over the micro-joint and pierce again
+          const restart = segmentStart(run[0]);
+          moves.push({ type: 'laserOff' }, { type: 'rapid', to: restart }, { type: 'pierce', at: restart, set: toolpath.parameters });
+        }
+        run.forEach(segment => this.segmentMoves(segment, moves));
+      });
+
+      this.leadMoves(toolpath.leadOut, moves);
+      moves.push({ type: 'laserOff' });
+    });
+
+    moves.push({ type: 'rapid', to: home });
+    return moves;
+  }
+
+  private leadMoves(lead: LeadPath, moves: ProgramMove[]): void {
+    if (lead.type === 'none') return;
+    const end = lead.points[lead.points.length - 1];
+    if (lead.type === 'arc' && lead.center) {
+      moves.push({ type: 'arc', to: end, center: lead.center, clockwise: true });
+      return;
+    }
+    lead.points.slice(1).forEach(point => moves.push({ type: 'line', to: point }));
+  }
+
+  private segmentMoves(segment: ContourSegment, moves: ProgramMove[]): void {
+    switch (segment.type) {
+      case 'line':
+        moves.push({ type: 'line', to: segment.end });
+        return;
+      case 'curve':
+        segment.points.slice(1).forEach(point => moves.push({ type: 'line', to: point }));
+        return;
+      case 'arc': {
+        // Split arcs above a half turn so start and end never coincide
+        const pieces = Math.abs(segment.sweep) > Math.PI + 1e-9 ? 2 : 1;
+        const length = segmentLength(segment);
+        const startAngle = Math.atan2(segment.start.y - segment.center.y, segment.start.x - segment.center.x);
+        for (let k = 1; k <= pieces; k++) {
+          const angle = startAngle + (segment.sweep * k) / pieces;
+          const to = k === pieces
+            ? segmentEnd(segment)
+            : { x: segment.center.x + segment.radius * Math.cos(angle), y: segment.center.y + segment.radius * Math.sin(angle) };
+          if (length > 0) moves.push({ type: 'arc', to, center: segment.center, clockwise: segment.sweep < 0 });
+        }
+        return;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+
+  private render(
+    moves: ProgramMove[],
+    input: ProgramInput,
+    profile: PostProcessorProfile,
+    contourCount: number,
+    home: Point2D,
+    tolerance: number
+  ): string[] {
+    const { templates } = profile;
+    const number = (value: number) => {
+      const rounded = Number(value.toFixed(profile.decimals));
+      return (Object.is(rounded, -0) ? 0 : rounded).toFixed(profile.decimals);
+    };
+    const program: TemplateValues = {
+      programName: input.name,
+      programNumber: input.programNumber ?? DEFAULT_PROGRAM_NUMBER,
+      sheetWidth: number(input.sheet.width),
+      sheetHeight: number(input.sheet.height),
+      thickness: input.sheet.thickness ?? '',
+      material: input.sheet.material ?? '',
+      contourCount,
+      laserOn: profile.laserOn,
+      laserOff: profile.laserOff
+    };
+
+    const out: string[] = [];
+    const emit = (lines: string | string[], values: TemplateValues = {}) => {
+      (Array.isArray(lines) ? lines : [lines]).forEach(line => {
+        const filled = fillTemplate(line, { ...program, ...values }).trim();
+        if (filled) out.push(filled);
+      });
+    };
+
+    let position = home;
+    let feedRate = 0;
+    let activeFeed: number | null = null;
+    const feedWord = () => {
+      if (activeFeed === feedRate) return '';
+      activeFeed = feedRate;
+      return ` F${Math.round(feedRate)}`;
+    };
+
+    emit(templates.header);
+    moves.forEach(move => {
+      switch (move.type) {
+        case 'comment':
+          emit(templates.comment, { text: move.text.replace(/[()]/g, '') });
+          break;
+        case 'parameters':
+          feedRate = move.set.feedRate;
+          emit(templates.parameters, {
+            setId: move.set.id,
+            power: Math.round(move.set.power),
+            feedRate: Math.round(move.set.feedRate),
+            gasType: move.set.gasType.toUpperCase(),
+            gasPressure: number(move.set.gasPressure),
+            focus: number(move.set.focusPosition)
+          });
+          break;
+        case 'rapid':
+          emit(templates.rapid, { x: number(move.to.x), y: number(move.to.y) });
+          position = move.to;
+          break;
+        case 'pierce': {
+          const dwell = profile.dwellUnit === 'ms' ? String(Math.round(move.set.pierceTime * 1000)) : number(move.set.pierceTime);
+          emit(templates.pierce, { dwell, x: number(move.at.x), y: number(move.at.y), setId: move.set.id });
+          break;
+        }
+        case 'line':
+          emit(templates.linear, { x: number(move.to.x), y: number(move.to.y), feed: feedWord(), feedRate: Math.round(feedRate) });
+          position = move.to;
+          break;
+        case 'arc':
+          if (profile.arcs === 'linear') {
+            const radius = distance(move.center, move.to);
+            const from = Math.atan2(position.y - move.center.y, position.x - move.center.x);
+            let sweep = Math.atan2(move.to.y - move.center.y, move.to.x - move.center.x) - from;
+            if (move.clockwise && sweep > 0) sweep -= 2 * Math.PI;
+            if (!move.clockwise && sweep < 0) sweep += 2 * Math.PI;
+            flattenSegment({ type: 'arc', start: position, end: move.to, center: move.center, radius, sweep }, tolerance)
+              .slice(1)
+              .forEach(point => emit(templates.linear, { x: number(point.x), y: number(point.y), feed: feedWord(), feedRate: Math.round(feedRate) }));
+          } else {
+            emit(move.clockwise ? templates.arcCw : templates.arcCcw, {
+              x: number(move.to.x),
+              y: number(move.to.y),
+              i: number(move.center.x - position.x),
+              j: number(move.center.y - position.y),
+              feed: feedWord(),
+              feedRate: Math.round(feedRate)
+            });
+          }
+          position = move.to;
+          break;
+        case 'laserOff':
+          emit(templates.laserOff);
+          break;
+      }
+    });
+    emit(templates.footer, { x: number(home.x), y: number(home.y) });
+
+    if (!profile.lineNumbers.enabled) return out;
+    let lineNumber = profile.lineNumbers.start;
+    return out.map(line => {
+      // Tape markers and program numbers stay unnumbered
+      if (line === '%' || /^O\d/.test(line)) return line;
+      const numbered = `N${lineNumber} ${line}`;
+      lineNumber += profile.lineNumbers.step;
+      return numbered;
+    });
+  }
+}
+
+function shiftLead(lead: LeadPath, dx: number, dy: number): LeadPath {
+  if (dx === 0 && dy === 0) return lead;
+  const shift = (p: Point2D) => ({ x: p.x + dx, y: p.y + dy });
+  return { ...lead, points: lead.points.map(shift), center: lead.center && shift(lead.center) };
+}
+
+// Export singleton instance
+export const programGenerator = new ProgramGenerator();
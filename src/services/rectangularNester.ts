@@ -0,0 +1,496 @@
+/**
+ * Rectangular Nester
+ * Guillotine and skyline packing of rectangular parts over a sheet inventory with
+ * several stock sizes, choosing the cheapest sheets and reporting cut plans and remnants
+ */
+
+import type { Point2D } from './geometryCalculator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RectangularPackingMode = 'guillotine' | 'skyline';
+
+// 'length' keeps the part length along the sheet length, 'width' turns it across; 'any' may rotate
+export type PartGrainLock = 'any' | 'length' | 'width';
+
+export interface RectangularPart {
+  id: string;
+  name?: string;
+  length: number; // mm
+  width: number; // mm
+  quantity: number;
+  materialType: string;
+  thickness: number; // mm
+  grainDirection?: PartGrainLock; // overrides the default lock
+}
+
+export interface StockSheet {
+  id: string;
+  name?: string;
+  length: number; // mm
+  width: number; // mm
+  cost: number; // per sheet
+  quantity: number; // sheets on hand
+  materialType: string;
+  thickness: number; // mm
+}
+
+export interface RectangularNestingOptions {
+  mode: RectangularPackingMode;
+  partSpacing: number; // mm
+  edgeSpacing: number; // mm
+  kerfWidth: number; // mm, added to the part spacing (half of it to the edge spacing)
+  allowMixedMaterial: boolean; // parts may go on sheets of another material
+  allowMixedThickness: boolean; // parts may go on thicker sheets
+  defaultGrainDirection: PartGrainLock;
+  minRemnantSize: number; // mm, shorter side of a rectangle worth keeping
+}
+
+export interface RectangularPlacement {
+  partId: string;
+  partName: string;
+  x: number; // mm, lower-left corner on the sheet
+  y: number;
+  length: number; // mm along the sheet length (x) as placed
+  width: number; // mm along the sheet width (y) as placed
+  rotated: boolean;
+}
+
+export interface SheetRemnant {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+  area: number;
+  outline?: Point2D[]; // sheet coordinates, when the offcut is not a rectangle
+}
+
+export interface GuillotineCut {
+  orientation: 'vertical' | 'horizontal'; // vertical = constant x
+  position: number; // mm, centre of the gap
+  start: number; // mm along the cut
+  end: number;
+}
+
+export interface SheetCutPlan {
+  sheetNumber: number;
+  stockId: string;
+  stockName: string;
+  length: number;
+  width: number;
+  materialType: string;
+  thickness: number;
+  cost: number;
+  placements: RectangularPlacement[];
+  remnants: SheetRemnant[];
+  cuts: GuillotineCut[]; // guillotine mode: cut order; skyline: the remnant trim cut only
+  partArea: number; // mm²
+  utilization: number; // %
+}
+
+export interface RectangularNestingResult {
+  sheets: SheetCutPlan[];
+  remnants: Array<SheetRemnant & { sheetNumber: number; stockId: string }>;
+  totalCost: number;
+  stockUsage: Array<{ stockId: string; used: number; remaining: number }>;
+  unplaced: Array<{ partId: string; partName: string; quantity: number; reason: string }>;
+  utilization: number; // %
+}
+
+// Free-rectangle choice: smallest leftover short side, long side or area
+type GuillotineRule = 'short_side' | 'long_side' | 'area';
+type SkylinePreference = 'any' | 'upright' | 'turned';
+
+interface PackItem {
+  part: RectangularPart;
+  lock: PartGrainLock;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface SheetPacking {
+  placed: Array<{ item: PackItem; rect: Rect; rotated: boolean }>;
+  free: Rect[];
+  cuts: GuillotineCut[];
+}
+
+const DEFAULT_OPTIONS: RectangularNestingOptions = {
+  mode: 'guillotine',
+  partSpacing: 2,
+  edgeSpacing: 5,
+  kerfWidth: 0.2,
+  allowMixedMaterial: false,
+  allowMixedThickness: false,
+  defaultGrainDirection: 'any',
+  minRemnantSize: 100
+};
+
+const GUILLOTINE_RULES: GuillotineRule[] = ['short_side', 'long_side', 'area'];
+const SKYLINE_PREFERENCES: SkylinePreference[] = ['any', 'upright', 'turned'];
+
+const EPSILON = 1e-6;
+
+// ============================================================================
+// Rectangular Nester
+// ============================================================================
+
+export class RectangularNester {
+  /**
+   * Pack parts sheet by sheet; each new sheet is the stock size with the lowest cost per
+   * placed part area among the sizes still on hand
+   */
+  nest(
+    parts: RectangularPart[],
+    stock: StockSheet[],
+    options?: Partial<RectangularNestingOptions>
+  ): RectangularNestingResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const remaining = new Map(stock.map(sheet => [sheet.id, Math.max(0, Math.floor(sheet.quantity))]));
+    const sheets: SheetCutPlan[] = [];
+    const unplaced: RectangularNestingResult['unplaced'] = [];
+
+    // Largest first; copies of one part stay together
+    let items: PackItem[] = parts
+      .flatMap(part => Array.from({ length: Math.max(0, part.quantity) }, () => ({
+        part,
+        lock: part.grainDirection ?? opts.defaultGrainDirection
+      })))
+      .sort((a, b) => b.part.length * b.part.width - a.part.length * a.part.width ||
+        Math.max(b.part.length, b.part.width) - Math.max(a.part.length, a.part.width));
+
+    while (items.length > 0) {
+      let best: { sheet: StockSheet; packing: SheetPacking; costPerArea: number; area: number } | null = null;
+
+      stock.forEach(sheet => {
+        if ((remaining.get(sheet.id) ?? 0) <= 0) return;
+        const candidates = items.filter(item => this.isCompatible(item.part, sheet, opts));
+        if (candidates.length === 0) return;
+
+        const packing = this.packSheet(candidates, sheet, opts);
+        const area = packing.placed.reduce((sum, p) => sum + p.item.part.length * p.item.part.width, 0);
+        if (area <= 0) return;
+
+        const costPerArea = sheet.cost / area;
+        if (!best || costPerArea < best.costPerArea - EPSILON ||
+          (Math.abs(costPerArea - best.costPerArea) <= EPSILON && area > best.area)) {
+          best = { sheet, packing, costPerArea, area };
+        }
+      });
+
+      if (!best) break;
+      const { sheet, packing } = best as { sheet: StockSheet; packing: SheetPacking };
+
+      remaining.set(sheet.id, (remaining.get(sheet.id) ?? 0) - 1);
+      const used = new Set(packing.placed.map(p => p.item));
+      items = items.filter(item => !used.has(item));
+      sheets.push(this.buildCutPlan(sheets.length + 1, sheet, packing, opts));
+    }
+
+    items.forEach(item => {
+      const fitsSomewhere = stock.some(sheet =>
+        this.isCompatible(item.part, sheet, opts) && this.packSheet([item], sheet, opts).placed.length > 0
+      );
+      const reason = fitsSomewhere ? 'Not enough sheets in stock' : 'Part does not fit any compatible sheet';
+      const existing = unplaced.find(entry => entry.partId === item.part.id && entry.reason === reason);
+      if (existing) {
+        existing.quantity++;
+      } else {
+        unplaced.push({ partId: item.part.id, partName: item.part.name ?? item.part.id, quantity: 1, reason });
+      }
+    });
+
+    const totalSheetArea = sheets.reduce((sum, sheet) => sum + sheet.length * sheet.width, 0);
+    const totalPartArea = sheets.reduce((sum, sheet) => sum + sheet.partArea, 0);
+
+    return {
+      sheets,
+      remnants: sheets.flatMap(sheet =>
+        sheet.remnants.map(remnant => ({ ...remnant, sheetNumber: sheet.sheetNumber, stockId: sheet.stockId }))
+      ),
+      totalCost: sheets.reduce((sum, sheet) => sum + sheet.cost, 0),
+      stockUsage: stock.map(sheet => ({
+        stockId: sheet.id,
+        used: Math.max(0, Math.floor(sheet.quantity)) - (remaining.get(sheet.id) ?? 0),
+        remaining: remaining.get(sheet.id) ?? 0
+      })),
+      unplaced,
+      utilization: totalSheetArea > 0 ? (totalPartArea / totalSheetArea) * 100 : 0
+    };
+  }
+
+  private isCompatible(part: RectangularPart, sheet: StockSheet, opts: RectangularNestingOptions): boolean {
+    const materialOk = opts.allowMixedMaterial || part.materialType === sheet.materialType;
+    const thicknessOk = opts.allowMixedThickness
+      ? part.thickness <= sheet.thickness + EPSILON
+      : Math.abs(part.thickness - sheet.thickness) <= EPSILON;
+    return materialOk && thicknessOk;
+  }
+
+  /**
+   * Allowed placed sizes (along x, along y) including the spacing gap
+   */
+  private orientations(item: PackItem, gap: number): Array<{ w: number; h: number; rotated: boolean }> {
+    const { length, width } = item.part;
+    const upright = { w: length + gap, h: width + gap, rotated: false };
+    const turned = { w: width + gap, h: length + gap, rotated: true };
+    if (item.lock === 'length') return [upright];
+    if (item.lock === 'width') return [turned];
+    return Math.abs(length - width) <= EPSILON ? [upright] : [upright, turned];
+  }
+
+  // ============================================================================
+  // Packing
+  // ============================================================================
+
+  private packSheet(items: PackItem[], sheet: StockSheet, opts: RectangularNestingOptions): SheetPacking {
+    const gap = Math.max(0, opts.partSpacing + opts.kerfWidth);
+    const edge = Math.max(0, opts.edgeSpacing + opts.kerfWidth / 2);
+    // Every part carries one gap on its far sides, so the usable area gets one gap back
+    const area: Rect = { x: edge, y: edge, w: sheet.length - 2 * edge + gap, h: sheet.width - 2 * edge + gap };
+    if (area.w <= 0 || area.h <= 0) return { placed: [], free: [], cuts: [] };
+
+    // Each heuristic loses on some part mixes, so keep the fullest sheet
+    const packings = opts.mode === 'skyline'
+      ? SKYLINE_PREFERENCES.map(preference => this.packSkyline(items, area, gap, preference))
+      : GUILLOTINE_RULES.map(rule => this.packGuillotine(items, area, gap, rule));
+    return packings.reduce((best, packing) => (this.comparePackings(packing, best) < 0 ? packing : best));
+  }
+
+  /**
+   * More part area first, then the larger largest offcut
+   */
+  private comparePackings(a: SheetPacking, b: SheetPacking): number {
+    const placedArea = (packing: SheetPacking) => packing.placed.reduce((sum, p) => sum + p.rect.w * p.rect.h, 0);
+    const largestFree = (packing: SheetPacking) => Math.max(0, ...packing.free.map(rect => rect.w * rect.h));
+    const byArea = placedArea(b) - placedArea(a);
+    return Math.abs(byArea) > EPSILON ? byArea : largestFree(b) - largestFree(a);
+  }
+
+  /**
+   * Guillotine packing into disjoint free rectangles, splitting along the shorter leftover
+   * so the larger offcut stays whole
+   */
+  private packGuillotine(items: PackItem[], area: Rect, gap: number, rule: GuillotineRule): SheetPacking {
+    const free: Rect[] = [area];
+    const placed: SheetPacking['placed'] = [];
+    const cuts: GuillotineCut[] = [];
+
+    items.forEach(item => {
+      let best: { index: number; w: number; h: number; rotated: boolean; score: number } | null = null;
+
+      free.forEach((rect, index) => {
+        this.orientations(item, gap).forEach(({ w, h, rotated }) => {
+          if (w > rect.w + EPSILON || h > rect.h + EPSILON) return;
+          const shortSide = Math.min(rect.w - w, rect.h - h);
+          const longSide = Math.max(rect.w - w, rect.h - h);
+          const score = rule === 'short_side' ? shortSide : rule === 'long_side' ? longSide : rect.w * rect.h - w * h;
+          if (!best || score < best.score - EPSILON) best = { index, w, h, rotated, score };
+        });
+      });
+
+      if (!best) return;
+      const { index, w, h, rotated } = best as { index: number; w: number; h: number; rotated: boolean };
+      const rect = free[index];
+      placed.push({ item, rect: { x: rect.x, y: rect.y, w, h }, rotated });
+      free.splice(index, 1);
+
+      const rightW = rect.w - w;
+      const topH = rect.h - h;
+      const cutX = rect.x + w - gap / 2;
+      const cutY = rect.y + h - gap / 2;
+
+      if (rightW < topH) {
+        // Full-width cut above the part first, then beside it
+        if (topH > EPSILON) {
+          free.push({ x: rect.x, y: rect.y + h, w: rect.w, h: topH });
+          cuts.push({ orientation: 'horizontal', position: cutY, start: rect.x, end: rect.x + rect.w - gap });
+        }
+        if (rightW > EPSILON) {
+          free.push({ x: rect.x + w, y: rect.y, w: rightW, h });
+          cuts.push({ orientation: 'vertical', position: cutX, start: rect.y, end: rect.y + h - gap });
+        }
+      } else {
+        if (rightW > EPSILON) {
+          free.push({ x: rect.x + w, y: rect.y, w: rightW, h: rect.h });
+          cuts.push({ orientation: 'vertical', position: cutX, start: rect.y, end: rect.y + rect.h - gap });
+        }
+        if (topH > EPSILON) {
+          free.push({ x: rect.x, y: rect.y + h, w, h: topH });
+          cuts.push({ orientation: 'horizontal', position: cutY, start: rect.x, end: rect.x + w - gap });
+        }
+      }
+    });
+
+    return { placed, free, cuts };
+  }
+
+  /**
+   * Skyline packing: the skyline runs across the sheet width and parts are dropped at the
+   * lowest x, which leaves one full-width offcut at the end of the sheet. A preferred
+   * orientation is used wherever it fits; the other one only when it does not.
+   */
+  private packSkyline(items: PackItem[], area: Rect, gap: number, preference: SkylinePreference): SheetPacking {
+    // Segments over y with the filled x-level
+    let skyline: Array<{ y: number; h: number; level: number }> = [{ y: area.y, h: area.h, level: area.x }];
+    const placed: SheetPacking['placed'] = [];
+    const maxX = area.x + area.w;
+    const maxY = area.y + area.h;
+
+    items.forEach(item => {
+      const orientations = this.orientations(item, gap);
+      const preferred = orientations.filter(o => preference === 'any' || o.rotated === (preference === 'turned'));
+      const position = this.findSkylinePosition(skyline, preferred, maxX, maxY) ??
+        this.findSkylinePosition(skyline, orientations, maxX, maxY);
+
+      if (!position) return;
+      placed.push({ item, rect: { x: position.x, y: position.y, w: position.w, h: position.h }, rotated: position.rotated });
+      skyline = this.raiseSkyline(skyline, position.y, position.h, position.x + position.w);
+    });
+
+    // One offcut beyond the right-most part
+    const usedX = Math.max(area.x, ...placed.map(p => p.rect.x + p.rect.w));
+    const free = usedX < maxX - EPSILON ? [{ x: usedX, y: area.y, w: maxX - usedX, h: area.h }] : [];
+    const cuts: GuillotineCut[] = free.length > 0 && placed.length > 0
+      ? [{ orientation: 'vertical', position: usedX - gap / 2, start: 0, end: maxY - gap + area.y }] // full sheet width
+      : [];
+
+    return { placed, free, cuts };
+  }
+
+  /**
+   * Position with the lowest right edge, then the lowest y
+   */
+  private findSkylinePosition(
+    skyline: Array<{ y: number; h: number; level: number }>,
+    orientations: Array<{ w: number; h: number; rotated: boolean }>,
+    maxX: number,
+    maxY: number
+  ): { x: number; y: number; w: number; h: number; rotated: boolean } | null {
+    let best: { x: number; y: number; w: number; h: number; rotated: boolean } | null = null;
+
+    orientations.forEach(({ w, h, rotated }) => {
+      skyline.forEach(segment => {
+        const y = segment.y;
+        if (y + h > maxY + EPSILON) return;
+        const level = Math.max(
+          ...skyline.filter(s => s.y < y + h - EPSILON && s.y + s.h > y + EPSILON).map(s => s.level)
+        );
+        if (level + w > maxX + EPSILON) return;
+        if (!best || level + w < best.x + best.w - EPSILON ||
+          (Math.abs(level + w - best.x - best.w) <= EPSILON && y < best.y)) {
+          best = { x: level, y, w, h, rotated };
+        }
+      });
+    });
+
+    return best;
+  }
+
+  private raiseSkyline(
+    skyline: Array<{ y: number; h: number; level: number }>,
+    y: number,
+    h: number,
+    level: number
+  ): Array<{ y: number; h: number; level: number }> {
+    const top = y + h;
+    const next: Array<{ y: number; h: number; level: number }> = [];
+
+    skyline.forEach(segment => {
+      const end = segment.y + segment.h;
+      if (end <= y + EPSILON || segment.y >= top - EPSILON) {
+        next.push(segment);
+        return;
+      }
+      if (segment.y < y - EPSILON) next.push({ y: segment.y, h: y - segment.y, level: segment.level });
+      if (end > top + EPSILON) next.push({ y: top, h: end - top, level: segment.level });
+    });
+    next.push({ y, h, level });
+    next.sort((a, b) => a.y - b.y);
+
+    // Merge neighbours at the same level
+    return next.reduce<Array<{ y: number; h: number; level: number }>>((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last && Math.abs(last.level - segment.level) <= EPSILON && Math.abs(last.y + last.h - segment.y) <= EPSILON) {
+        last.h += segment.h;
+      } else {
+        merged.push({ ...segment });
+      }
+      return merged;
+    }, []);
+  }
+
+  // ============================================================================
+  // Cut Plans
+  // ============================================================================
+
+  private buildCutPlan(
+    sheetNumber: number,
+    sheet: StockSheet,
+    packing: SheetPacking,
+    opts: RectangularNestingOptions
+  ): SheetCutPlan {
+    const gap = Math.max(0, opts.partSpacing + opts.kerfWidth);
+    const edge = Math.max(0, opts.edgeSpacing + opts.kerfWidth / 2);
+    const endX = sheet.length - edge + gap;
+    const endY = sheet.width - edge + gap;
+
+    const placements = packing.placed.map(({ item, rect, rotated }) => ({
+      partId: item.part.id,
+      partName: item.part.name ?? item.part.id,
+      x: round(rect.x),
+      y: round(rect.y),
+      length: rotated ? item.part.width : item.part.length,
+      width: rotated ? item.part.length : item.part.width,
+      rotated
+    }));
+
+    // Free rectangles reach to the sheet edge outside, and to the middle of the gap inside
+    const remnants = packing.free
+      .map(rect => {
+        const x0 = rect.x <= edge + EPSILON ? 0 : rect.x - gap / 2;
+        const y0 = rect.y <= edge + EPSILON ? 0 : rect.y - gap / 2;
+        const x1 = rect.x + rect.w >= endX - EPSILON ? sheet.length : rect.x + rect.w - gap / 2;
+        const y1 = rect.y + rect.h >= endY - EPSILON ? sheet.width : rect.y + rect.h - gap / 2;
+        return { x: round(x0), y: round(y0), length: round(x1 - x0), width: round(y1 - y0), area: round((x1 - x0) * (y1 - y0)) };
+      })
+      .filter(remnant => Math.min(remnant.length, remnant.width) >= opts.minRemnantSize)
+      .sort((a, b) => b.area - a.area);
+
+    const partArea = placements.reduce((sum, p) => sum + p.length * p.width, 0);
+
+    return {
+      sheetNumber,
+      stockId: sheet.id,
+      stockName: sheet.name ?? sheet.id,
+      length: sheet.length,
+      width: sheet.width,
+      materialType: sheet.materialType,
+      thickness: sheet.thickness,
+      cost: sheet.cost,
+      placements,
+      remnants,
+      cuts: packing.cuts.map(cut => ({
+        ...cut,
+        position: round(cut.position),
+        start: round(cut.start),
+        end: round(cut.end)
+      })),
+      partArea,
+      utilization: (partArea / (sheet.length * sheet.width)) * 100
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Export singleton instance
+export const rectangularNester = new RectangularNester();
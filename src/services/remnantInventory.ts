@@ -0,0 +1,370 @@
+/**
+ * Remnant Inventory
+ * Offcuts on the rack: what they are, their outline, where they are stored and which
+ * heat they came from. Nesting jobs draw on them before full sheets and register the
+ * offcuts they leave; the job history behind them gives measured material yield.
+ * Kept in local storage.
+ */
+
+import type { Point2D } from './geometryCalculator';
+import type { MaterialNestingResults } from './calculators/materialNestingOptimizer';
+import { generateId } from '../utils/idGenerator';
+import { polygonArea, polygonBounds, signedPolygonArea } from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RemnantStatus = 'available' | 'consumed';
+
+export interface Remnant {
+  id: string;
+  materialType: string;
+  thickness: number; // mm
+  outline: Point2D[]; // mm, counter-clockwise, bounding box corner at the origin
+  length: number; // mm, bounding box along x
+  width: number; // mm, bounding box along y
+  area: number; // mm²
+  location: string; // rack, bay or bin
+  heatNumber?: string; // mill heat of the parent sheet
+  createdAt: string; // ISO date
+  status: RemnantStatus;
+  sourceJobId?: string; // nesting job that left it
+  consumedAt?: string;
+  consumedByJobId?: string;
+}
+
+export interface RemnantInput {
+  materialType: string;
+  thickness: number; // mm
+  length?: number; // mm, rectangular offcut
+  width?: number; // mm
+  outline?: Point2D[]; // mm, polygonal offcut in any position; takes precedence
+  location: string;
+  heatNumber?: string;
+  createdAt?: string; // ISO date, default now
+}
+
+export interface RemnantFilter {
+  materialType?: string;
+  thickness?: number; // mm
+  status?: RemnantStatus;
+}
+
+// Material drawn and returned by one nesting job, per material and thickness
+export interface NestingJobUsage {
+  jobId: string;
+  date: string; // ISO date
+  materialType: string;
+  thickness: number; // mm
+  sheets: number; // full sheets and remnants cut
+  remnantsUsed: number;
+  sheetArea: number; // mm² drawn from stock
+  partArea: number; // mm²
+  offcutArea: number; // mm² returned to stock as remnants
+}
+
+export interface RemnantRegistration {
+  registered: Remnant[];
+  consumed: Remnant[];
+}
+
+export interface RemnantStatistics {
+  available: number;
+  availableArea: number; // mm²
+  consumed: number;
+  consumedArea: number; // mm²
+  jobs: number;
+  sheetArea: number; // mm² drawn by nesting jobs
+  partArea: number; // mm²
+  offcutArea: number; // mm² returned as remnants
+  yield: number | null; // % of the consumed material (drawn minus returned) that became parts
+  reuseRate: number | null; // % of the remnant area ever registered that has been cut again
+}
+
+interface StoredInventory {
+  remnants: Remnant[];
+  jobs: NestingJobUsage[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY = 'laser-calc-remnant-inventory';
+
+// ============================================================================
+// Remnant Inventory
+// ============================================================================
+
+export class RemnantInventory {
+  private remnants = new Map<string, Remnant>();
+  private jobs: NestingJobUsage[] = [];
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  add(input: RemnantInput): Remnant {
+    const remnant = this.createRemnant(input);
+    this.remnants.set(remnant.id, remnant);
+    this.saveToStorage();
+    return remnant;
+  }
+
+  get(id: string): Remnant {
+    const remnant = this.remnants.get(id);
+    if (!remnant) {
+      throw new Error(`Unknown remnant: ${id}`);
+    }
+    return remnant;
+  }
+
+  /**
+   * Remnants matching the filter, oldest first
+   */
+  list(filter: RemnantFilter = {}): Remnant[] {
+    return Array.from(this.remnants.values())
+      .filter(remnant =>
+        (filter.materialType === undefined || remnant.materialType === filter.materialType) &&
+        (filter.thickness === undefined || remnant.thickness === filter.thickness) &&
+        (filter.status === undefined || remnant.status === filter.status)
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  update(id: string, changes: Partial<Pick<Remnant, 'location' | 'heatNumber'>>): Remnant {
+    const remnant = { ...this.get(id), ...changes };
+    if (!remnant.location.trim()) {
+      throw new Error('A remnant needs a storage location');
+    }
+    this.remnants.set(id, remnant);
+    this.saveToStorage();
+    return remnant;
+  }
+
+  remove(id: string): boolean {
+    const removed = this.remnants.delete(id);
+    if (removed) this.saveToStorage();
+    return removed;
+  }
+
+  /**
+   * Take a remnant off the rack (cut, scrapped or used outside a nesting job)
+   */
+  consume(id: string, jobId?: string): Remnant {
+    const remnant: Remnant = {
+      ...this.get(id),
+      status: 'consumed',
+      consumedAt: new Date().toISOString(),
+      consumedByJobId: jobId
+    };
+    this.remnants.set(id, remnant);
+    this.saveToStorage();
+    return remnant;
+  }
+
+  /**
+   * Remnants a nesting job may use. A job that is run again sees the stock it saw the
+   * first time: what it consumed is offered again and what it left is not.
+   */
+  stockFor(jobId?: string): Remnant[] {
+    return this.list().filter(remnant =>
+      remnant.status === 'available'
+        ? jobId === undefined || remnant.sourceJobId !== jobId
+        : jobId !== undefined && remnant.consumedByJobId === jobId
+    );
+  }
+
+  /**
+   * Book a nesting run: remnants its sheets were cut from are consumed and the offcuts
+   * it leaves are registered. Registering the same job again replaces the earlier booking.
+   */
+  registerJob(
+    jobId: string,
+    results: Pick<MaterialNestingResults, 'nestingPlan'>,
+    details: { location: string; heatNumber?: string }
+  ): RemnantRegistration {
+    this.revertJob(jobId);
+
+    const date = new Date().toISOString();
+    const registered: Remnant[] = [];
+    const consumed: Remnant[] = [];
+    const usage = new Map<string, NestingJobUsage>();
+
+    results.nestingPlan.forEach(sheet => {
+      const { materialType, thickness } = sheet.sheetSpec;
+      const source = sheet.remnantId ? this.remnants.get(sheet.remnantId) : undefined;
+      if (sheet.remnantId && !source) {
+        throw new Error(`Unknown remnant: ${sheet.remnantId}`);
+      }
+      if (source) {
+        const remnant: Remnant = { ...source, status: 'consumed', consumedAt: date, consumedByJobId: jobId };
+        this.remnants.set(remnant.id, remnant);
+        consumed.push(remnant);
+      }
+
+      const offcuts = sheet.remnants.map(offcut => {
+        const remnant = this.createRemnant({
+          materialType,
+          thickness,
+          outline: offcut.outline ?? [
+            { x: offcut.x, y: offcut.y },
+            { x: offcut.x + offcut.length, y: offcut.y },
+            { x: offcut.x + offcut.length, y: offcut.y + offcut.width },
+            { x: offcut.x, y: offcut.y + offcut.width }
+          ],
+          location: details.location,
+          // An offcut of an offcut comes from the same heat
+          heatNumber: source?.heatNumber ?? details.heatNumber,
+          createdAt: date
+        });
+        remnant.sourceJobId = jobId;
+        this.remnants.set(remnant.id, remnant);
+        registered.push(remnant);
+        return remnant;
+      });
+
+      const key = `${materialType}|${thickness}`;
+      const entry = usage.get(key) ?? {
+        jobId, date, materialType, thickness, sheets: 0, remnantsUsed: 0, sheetArea: 0, partArea: 0, offcutArea: 0
+      };
+      entry.sheets++;
+      entry.remnantsUsed += source ? 1 : 0;
+      entry.sheetArea += sheet.sheetArea;
+      entry.partArea += sheet.sheetArea - sheet.wasteArea;
+      entry.offcutArea += offcuts.reduce((sum, remnant) => sum + remnant.area, 0);
+      usage.set(key, entry);
+    });
+
+    this.jobs.push(...usage.values());
+    this.saveToStorage();
+    return { registered, consumed };
+  }
+
+  jobHistory(filter: Pick<RemnantFilter, 'materialType' | 'thickness'> = {}): NestingJobUsage[] {
+    return this.jobs.filter(job =>
+      (filter.materialType === undefined || job.materialType === filter.materialType) &&
+      (filter.thickness === undefined || job.thickness === filter.thickness)
+    );
+  }
+
+  statistics(filter: Pick<RemnantFilter, 'materialType' | 'thickness'> = {}): RemnantStatistics {
+    const remnants = this.list(filter);
+    const available = remnants.filter(remnant => remnant.status === 'available');
+    const consumed = remnants.filter(remnant => remnant.status === 'consumed');
+    const jobs = this.jobHistory(filter);
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    const sheetArea = sum(jobs.map(job => job.sheetArea));
+    const partArea = sum(jobs.map(job => job.partArea));
+    const offcutArea = sum(jobs.map(job => job.offcutArea));
+    const registeredArea = sum(remnants.map(remnant => remnant.area));
+    const consumedArea = sum(consumed.map(remnant => remnant.area));
+
+    return {
+      available: available.length,
+      availableArea: sum(available.map(remnant => remnant.area)),
+      consumed: consumed.length,
+      consumedArea,
+      jobs: new Set(jobs.map(job => job.jobId)).size,
+      sheetArea,
+      partArea,
+      offcutArea,
+      yield: sheetArea - offcutArea > 0 ? round((partArea / (sheetArea - offcutArea)) * 100, 2) : null,
+      reuseRate: registeredArea > 0 ? round((consumedArea / registeredArea) * 100, 2) : null
+    };
+  }
+
+  /**
+   * Undo an earlier booking of the job; its offcuts that another job has cut since stay
+   */
+  private revertJob(jobId: string): void {
+    this.remnants.forEach(remnant => {
+      if (remnant.sourceJobId === jobId && remnant.status === 'available') {
+        this.remnants.delete(remnant.id);
+      } else if (remnant.consumedByJobId === jobId) {
+        this.remnants.set(remnant.id, {
+          ...remnant,
+          status: 'available',
+          consumedAt: undefined,
+          consumedByJobId: undefined
+        });
+      }
+    });
+    this.jobs = this.jobs.filter(job => job.jobId !== jobId);
+  }
+
+  private createRemnant(input: RemnantInput): Remnant {
+    if (!input.materialType) {
+      throw new Error('A remnant needs a material type');
+    }
+    if (!(input.thickness > 0)) {
+      throw new Error('Remnant thickness must be greater than 0');
+    }
+    if (!input.location?.trim()) {
+      throw new Error('A remnant needs a storage location');
+    }
+
+    let outline = input.outline;
+    if (!outline) {
+      const { length = 0, width = 0 } = input;
+      if (!(length > 0) || !(width > 0)) {
+        throw new Error('A remnant needs a length and width or an outline');
+      }
+      outline = [{ x: 0, y: 0 }, { x: length, y: 0 }, { x: length, y: width }, { x: 0, y: width }];
+    }
+    if (outline.length < 3 || polygonArea(outline) <= 0) {
+      throw new Error('A remnant outline needs at least three points enclosing an area');
+    }
+
+    // Counter-clockwise with the bounding box corner at the origin
+    const bounds = polygonBounds(outline);
+    const ordered = signedPolygonArea(outline) < 0 ? [...outline].reverse() : outline;
+
+    return {
+      id: generateId('remnant'),
+      materialType: input.materialType,
+      thickness: input.thickness,
+      outline: ordered.map(p => ({ x: round(p.x - bounds.minX, 3), y: round(p.y - bounds.minY, 3) })),
+      length: round(bounds.maxX - bounds.minX, 3),
+      width: round(bounds.maxY - bounds.minY, 3),
+      area: round(polygonArea(outline), 2),
+      location: input.location.trim(),
+      heatNumber: input.heatNumber?.trim() || undefined,
+      createdAt: input.createdAt ?? new Date().toISOString(),
+      status: 'available'
+    };
+  }
+
+  private loadFromStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      const inventory = JSON.parse(stored) as StoredInventory;
+      inventory.remnants.forEach(remnant => this.remnants.set(remnant.id, remnant));
+      this.jobs = inventory.jobs ?? [];
+    } catch (error) {
+      console.warn('Failed to load remnant inventory from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const inventory: StoredInventory = { remnants: Array.from(this.remnants.values()), jobs: this.jobs };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(inventory));
+    } catch (error) {
+      console.error('Failed to save remnant inventory to storage:', error);
+    }
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton instance
+export const remnantInventory = new RemnantInventory();
@@ -0,0 +1,793 @@
+/**
+ * SVG Importer
+ * Converts SVG artwork (signage, decorative panels) into GeometryShape polygons with holes, in millimetres
+ */
+
+import { ContourSegment, GeometryShape, Point2D } from './geometryCalculator';
+import {
+  DEFAULT_CHORD_TOLERANCE,
+  Matrix2D,
+  IDENTITY_MATRIX,
+  NestedContour,
+  applyMatrix,
+  arcDivisions,
+  distance,
+  flattenContour,
+  groupContoursByContainment,
+  multiplyMatrix,
+  rotationMatrix,
+  scaleMatrix,
+  segmentEnd,
+  transformSegment,
+  translationMatrix
+} from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SvgImportOptions {
+  chordTolerance: number; // mm, max deviation when flattening Béziers and elliptical arcs
+  closeTolerance: number; // mm, an unclosed subpath whose ends are this close counts as closed
+  flipY: boolean; // convert SVG's y-down coordinates to y-up
+  defaultUnitScale: number; // mm per user unit when the document has no absolute size
+  includeHidden: boolean; // import elements with display:none / visibility:hidden
+}
+
+export interface SvgViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SvgImportResult {
+  shapes: GeometryShape[];
+  openPaths: ContourSegment[][];
+  unitScale: number; // mm per user unit (horizontal)
+  viewBox?: SvgViewBox;
+  width: number; // mm
+  height: number; // mm
+  elementCount: number;
+  skippedElements: Record<string, number>;
+  warnings: string[];
+}
+
+interface Subpath {
+  segments: ContourSegment[];
+  closed: boolean;
+}
+
+const DEFAULT_OPTIONS: SvgImportOptions = {
+  chordTolerance: DEFAULT_CHORD_TOLERANCE,
+  closeTolerance: 0.01,
+  flipY: true,
+  defaultUnitScale: 25.4 / 96, // CSS px
+  includeHidden: false
+};
+
+// CSS absolute length units in mm
+const LENGTH_UNITS: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  px: 25.4 / 96,
+  '': 25.4 / 96
+};
+
+const SHAPE_ELEMENTS = ['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon'];
+const CONTAINER_ELEMENTS = ['svg', 'g', 'a', 'switch'];
+// Never rendered directly (referenced content is reached through <use>)
+const NON_RENDERED_ELEMENTS = [
+  'defs', 'clippath', 'mask', 'symbol', 'marker', 'pattern', 'style', 'script',
+  'title', 'desc', 'metadata', 'lineargradient', 'radialgradient', 'filter'
+];
+
+// Nested <use> deeper than this is treated as a recursive reference
+const MAX_USE_DEPTH = 16;
+const MAX_BEZIER_DEPTH = 16;
+
+// ============================================================================
+// SVG Importer
+// ============================================================================
+
+export class SvgImporter {
+  /**
+   * Parse SVG markup and build part shapes with holes detected by containment
+   */
+  import(content: string, options?: Partial<SvgImportOptions>): SvgImportResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const document = new DOMParser().parseFromString(content, 'image/svg+xml');
+    const root = document.documentElement;
+
+    if (!root || root.localName !== 'svg' || document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid SVG: missing <svg> root element');
+    }
+
+    const warnings: string[] = [];
+    const skippedElements: Record<string, number> = {};
+    const viewport = this.getViewport(root, opts, warnings);
+
+    const closed: ContourSegment[][] = [];
+    const open: ContourSegment[][] = [];
+    let elementCount = 0;
+
+    const visit = (element: Element, parentMatrix: Matrix2D, depth: number) => {
+      const name = element.localName.toLowerCase();
+      if (NON_RENDERED_ELEMENTS.includes(name)) return;
+      if (!opts.includeHidden && this.isHidden(element)) return;
+
+      const matrix = multiplyMatrix(parentMatrix, this.parseTransform(element.getAttribute('transform')));
+
+      if (CONTAINER_ELEMENTS.includes(name)) {
+        // Nested <svg> elements are placed at x/y; their own viewBox is not applied
+        const offset = name === 'svg' && element !== root
+          ? translationMatrix(this.getNumber(element, 'x'), this.getNumber(element, 'y'))
+          : IDENTITY_MATRIX;
+        Array.from(element.children).forEach(child => visit(child, multiplyMatrix(matrix, offset), depth));
+        return;
+      }
+
+      if (name === 'use') {
+        const href = element.getAttribute('href') || element.getAttribute('xlink:href') || '';
+        const target = href.startsWith('#') ? document.getElementById(href.slice(1)) : null;
+        if (!target) {
+          warnings.push(`<use> references unknown element "${href}"`);
+          return;
+        }
+        if (depth >= MAX_USE_DEPTH) {
+          warnings.push(`<use> of "${href}" is nested too deeply (recursive reference?)`);
+          return;
+        }
+        const useMatrix = multiplyMatrix(
+          matrix,
+          translationMatrix(this.getNumber(element, 'x'), this.getNumber(element, 'y'))
+        );
+        if (target.localName.toLowerCase() === 'symbol') {
+          Array.from(target.children).forEach(child => visit(child, useMatrix, depth + 1));
+        } else {
+          visit(target, useMatrix, depth + 1);
+        }
+        return;
+      }
+
+      if (!SHAPE_ELEMENTS.includes(name)) {
+        skippedElements[name] = (skippedElements[name] || 0) + 1;
+        return;
+      }
+
+      const pathData = this.getPathData(element, name);
+      if (!pathData) return;
+
+      elementCount++;
+      try {
+        this.parsePath(pathData, multiplyMatrix(viewport.matrix, matrix), opts).forEach(subpath => {
+          (subpath.closed ? closed : open).push(subpath.segments);
+        });
+      } catch (error) {
+        warnings.push(`Skipped <${name}>: ${error instanceof Error ? error.message : 'invalid path data'}`);
+      }
+    };
+
+    visit(root, IDENTITY_MATRIX, 0);
+
+    const shapes = this.buildShapes(closed, opts.chordTolerance, warnings);
+
+    if (open.length > 0) {
+      warnings.push(`${open.length} open path(s) are not closed; they are counted as separate cuts`);
+    }
+    Object.entries(skippedElements).forEach(([name, count]) => {
+      warnings.push(`Skipped ${count} unsupported <${name}> element${count === 1 ? '' : 's'}`);
+    });
+
+    return {
+      shapes,
+      openPaths: open,
+      unitScale: viewport.unitScale,
+      viewBox: viewport.viewBox,
+      width: viewport.width,
+      height: viewport.height,
+      elementCount,
+      skippedElements,
+      warnings
+    };
+  }
+
+  /**
+   * Read an SVG File object (browser) and import it
+   */
+  async importFile(file: File, options?: Partial<SvgImportOptions>): Promise<SvgImportResult> {
+    const content = await file.text();
+    return this.import(content, options);
+  }
+
+  // ============================================================================
+  // Document Units
+  // ============================================================================
+
+  /**
+   * Map user units to millimetres using width/height and viewBox (preserveAspectRatio honoured)
+   */
+  private getViewport(root: Element, opts: SvgImportOptions, warnings: string[]) {
+    const viewBox = this.parseViewBox(root.getAttribute('viewBox'));
+    let width = this.parseLength(root.getAttribute('width'));
+    let height = this.parseLength(root.getAttribute('height'));
+
+    if (viewBox) {
+      // Without an absolute size the viewBox is taken to be in CSS px
+      if (width === null && height === null) {
+        width = viewBox.width * opts.defaultUnitScale;
+        height = viewBox.height * opts.defaultUnitScale;
+      } else if (width === null) {
+        width = (height as number) * (viewBox.width / viewBox.height);
+      } else if (height === null) {
+        height = width * (viewBox.height / viewBox.width);
+      }
+    }
+
+    let viewportMatrix: Matrix2D;
+    let unitScale: number;
+
+    if (viewBox) {
+      const w = width as number;
+      const h = height as number;
+      let sx = w / viewBox.width;
+      let sy = h / viewBox.height;
+      let tx = 0;
+      let ty = 0;
+
+      const [align, meetOrSlice] = (root.getAttribute('preserveAspectRatio') || 'xMidYMid meet').trim().split(/\s+/);
+      if (align !== 'none') {
+        const scale = meetOrSlice === 'slice' ? Math.max(sx, sy) : Math.min(sx, sy);
+        sx = scale;
+        sy = scale;
+        const alignFactor = (axis: string) => (axis === 'Mid' ? 0.5 : axis === 'Max' ? 1 : 0);
+        tx = (w - viewBox.width * scale) * alignFactor(align.slice(1, 4));
+        ty = (h - viewBox.height * scale) * alignFactor(align.slice(5, 8));
+      }
+
+      viewportMatrix = multiplyMatrix(
+        [sx, 0, 0, sy, tx, ty],
+        translationMatrix(-viewBox.x, -viewBox.y)
+      );
+      unitScale = sx;
+    } else {
+      if (width === null || height === null) {
+        warnings.push('SVG has no viewBox or absolute size; assuming CSS pixels');
+      }
+      unitScale = opts.defaultUnitScale;
+      viewportMatrix = scaleMatrix(unitScale);
+      width = width ?? 0;
+      height = height ?? 0;
+    }
+
+    const flip: Matrix2D = opts.flipY ? [1, 0, 0, -1, 0, height as number] : IDENTITY_MATRIX;
+
+    return {
+      matrix: multiplyMatrix(flip, viewportMatrix),
+      unitScale,
+      viewBox: viewBox ?? undefined,
+      width: width as number,
+      height: height as number
+    };
+  }
+
+  private parseViewBox(value: string | null): SvgViewBox | null {
+    if (!value) return null;
+    const numbers = this.parseNumberList(value);
+    if (numbers.length !== 4 || numbers[2] <= 0 || numbers[3] <= 0) return null;
+    return { x: numbers[0], y: numbers[1], width: numbers[2], height: numbers[3] };
+  }
+
+  /**
+   * Absolute length in mm; null for missing or relative (%, em) values
+   */
+  private parseLength(value: string | null): number | null {
+    if (!value) return null;
+    const match = value.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*([a-z]*)$/i);
+    if (!match) return null;
+    const factor = LENGTH_UNITS[match[2].toLowerCase()];
+    return factor === undefined ? null : parseFloat(match[1]) * factor;
+  }
+
+  // ============================================================================
+  // Elements
+  // ============================================================================
+
+  private isHidden(element: Element): boolean {
+    const style = element.getAttribute('style') || '';
+    return (
+      element.getAttribute('display') === 'none' ||
+      element.getAttribute('visibility') === 'hidden' ||
+      /(^|;)\s*display\s*:\s*none/i.test(style) ||
+      /(^|;)\s*visibility\s*:\s*hidden/i.test(style)
+    );
+  }
+
+  /**
+   * Express basic shapes as path data so every element goes through the same parser
+   */
+  private getPathData(element: Element, name: string): string | null {
+    const n = (attribute: string) => this.getNumber(element, attribute);
+
+    switch (name) {
+      case 'path':
+        return element.getAttribute('d');
+      case 'rect': {
+        const x = n('x');
+        const y = n('y');
+        const w = n('width');
+        const h = n('height');
+        if (w <= 0 || h <= 0) return null;
+        // A missing radius takes the value of the other one
+        let rx = element.hasAttribute('rx') ? n('rx') : n('ry');
+        let ry = element.hasAttribute('ry') ? n('ry') : n('rx');
+        rx = Math.min(Math.max(rx, 0), w / 2);
+        ry = Math.min(Math.max(ry, 0), h / 2);
+        if (rx === 0 || ry === 0) {
+          return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+        }
+        const corner = (ex: number, ey: number) => `A${rx} ${ry} 0 0 1 ${ex} ${ey}`;
+        return (
+          `M${x + rx} ${y}H${x + w - rx}${corner(x + w, y + ry)}` +
+          `V${y + h - ry}${corner(x + w - rx, y + h)}` +
+          `H${x + rx}${corner(x, y + h - ry)}` +
+          `V${y + ry}${corner(x + rx, y)}Z`
+        );
+      }
+      case 'circle':
+      case 'ellipse': {
+        const cx = n('cx');
+        const cy = n('cy');
+        const rx = name === 'circle' ? n('r') : n('rx');
+        const ry = name === 'circle' ? n('r') : n('ry');
+        if (rx <= 0 || ry <= 0) return null;
+        return `M${cx + rx} ${cy}A${rx} ${ry} 0 1 1 ${cx - rx} ${cy}A${rx} ${ry} 0 1 1 ${cx + rx} ${cy}Z`;
+      }
+      case 'line':
+        return `M${n('x1')} ${n('y1')}L${n('x2')} ${n('y2')}`;
+      case 'polyline':
+      case 'polygon': {
+        const numbers = this.parseNumberList(element.getAttribute('points') || '');
+        if (numbers.length < 4) return null;
+        const pairs: string[] = [];
+        for (let i = 0; i + 1 < numbers.length; i += 2) {
+          pairs.push(`${numbers[i]} ${numbers[i + 1]}`);
+        }
+        return `M${pairs.join('L')}${name === 'polygon' ? 'Z' : ''}`;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parse a transform attribute into a single matrix (functions apply right to left)
+   */
+  parseTransform(value: string | null): Matrix2D {
+    if (!value) return IDENTITY_MATRIX;
+
+    let matrix = IDENTITY_MATRIX;
+    const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value)) !== null) {
+      const args = this.parseNumberList(match[2]);
+      let step: Matrix2D = IDENTITY_MATRIX;
+
+      switch (match[1]) {
+        case 'matrix':
+          if (args.length === 6) step = args as Matrix2D;
+          break;
+        case 'translate':
+          step = translationMatrix(args[0] || 0, args[1] || 0);
+          break;
+        case 'scale':
+          step = scaleMatrix(args[0] ?? 1, args[1] ?? args[0] ?? 1);
+          break;
+        case 'rotate': {
+          const rotation = rotationMatrix(((args[0] || 0) * Math.PI) / 180);
+          const cx = args[1] || 0;
+          const cy = args[2] || 0;
+          step = multiplyMatrix(translationMatrix(cx, cy), multiplyMatrix(rotation, translationMatrix(-cx, -cy)));
+          break;
+        }
+        case 'skewX':
+          step = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+          break;
+        case 'skewY':
+          step = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+          break;
+      }
+
+      matrix = multiplyMatrix(matrix, step);
+    }
+
+    return matrix;
+  }
+
+  // ============================================================================
+  // Path Data
+  // ============================================================================
+
+  /**
+   * Parse a path d-string into subpaths in millimetres. Béziers are flattened after
+   * transforming their control points; circular arcs stay arcs under similarity transforms.
+   */
+  parsePath(d: string, matrix: Matrix2D, opts: SvgImportOptions): Subpath[] {
+    const scanner = new PathScanner(d);
+    const subpaths: Subpath[] = [];
+    const toMm = (p: Point2D) => applyMatrix(matrix, p);
+    // Largest stretch of the transform, so tolerances in user units stay within chordTolerance in mm
+    const [a, b, c, dd] = matrix;
+    const sumSquares = a * a + b * b + c * c + dd * dd;
+    const determinant = a * dd - b * c;
+    const matrixScale = Math.sqrt((sumSquares + Math.sqrt(Math.max(0, sumSquares ** 2 - 4 * determinant ** 2))) / 2) || 1;
+
+    let segments: ContourSegment[] = [];
+    let current: Point2D = { x: 0, y: 0 };
+    let start: Point2D = { x: 0, y: 0 };
+    let lastControl: Point2D | null = null; // reflected by S/T
+    let lastCommand = '';
+
+    const finishSubpath = (closePath: boolean) => {
+      if (segments.length > 0) {
+        const first = segments[0];
+        const firstPoint = first.type === 'curve' ? first.points[0] : first.start;
+        const gap = distance(segmentEnd(segments[segments.length - 1]), firstPoint);
+        const closed = closePath || gap <= opts.closeTolerance;
+        if (closed && gap > 1e-9) {
+          segments.push({ type: 'line', start: segmentEnd(segments[segments.length - 1]), end: firstPoint });
+        }
+        subpaths.push({ segments, closed });
+      }
+      segments = [];
+    };
+
+    const lineTo = (to: Point2D) => {
+      if (distance(to, current) > 1e-12) {
+        segments.push({ type: 'line', start: toMm(current), end: toMm(to) });
+      }
+      current = to;
+    };
+
+    const cubicTo = (c1: Point2D, c2: Point2D, to: Point2D) => {
+      const points = [toMm(current)];
+      flattenCubic(toMm(current), toMm(c1), toMm(c2), toMm(to), opts.chordTolerance, points, 0);
+      segments.push({ type: 'curve', points });
+      lastControl = c2;
+      current = to;
+    };
+
+    let command = scanner.nextCommand();
+    if (command !== 'M' && command !== 'm') {
+      throw new Error('path data must start with a moveto');
+    }
+
+    while (command) {
+      const relative = command === command.toLowerCase();
+      const upper = command.toUpperCase();
+      const point = (): Point2D => {
+        const x = scanner.number();
+        const y = scanner.number();
+        return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+      };
+
+      // Each command may repeat its parameters; an implicit repeat of M is a lineto
+      let first = true;
+      do {
+        const smoothCurve = ['C', 'S'].includes(lastCommand) || ['Q', 'T'].includes(lastCommand);
+        const reflected: Point2D = lastControl && smoothCurve
+          ? { x: 2 * current.x - (lastControl as Point2D).x, y: 2 * current.y - (lastControl as Point2D).y }
+          : current;
+
+        switch (upper) {
+          case 'M':
+            if (first) {
+              finishSubpath(false);
+              current = point();
+              start = current;
+            } else {
+              lineTo(point());
+            }
+            lastControl = null;
+            break;
+          case 'L':
+            lineTo(point());
+            lastControl = null;
+            break;
+          case 'H': {
+            const x = scanner.number();
+            lineTo({ x: relative ? current.x + x : x, y: current.y });
+            lastControl = null;
+            break;
+          }
+          case 'V': {
+            const y = scanner.number();
+            lineTo({ x: current.x, y: relative ? current.y + y : y });
+            lastControl = null;
+            break;
+          }
+          case 'C': {
+            const c1 = point();
+            const c2 = point();
+            cubicTo(c1, c2, point());
+            break;
+          }
+          case 'S': {
+            const c1 = ['C', 'S'].includes(lastCommand) ? reflected : current;
+            const c2 = point();
+            cubicTo(c1, c2, point());
+            break;
+          }
+          case 'Q':
+          case 'T': {
+            const control = upper === 'Q'
+              ? point()
+              : ['Q', 'T'].includes(lastCommand) ? reflected : current;
+            const to = point();
+            // Degree-elevate the quadratic to a cubic
+            const from = current;
+            cubicTo(
+              { x: from.x + (2 / 3) * (control.x - from.x), y: from.y + (2 / 3) * (control.y - from.y) },
+              { x: to.x + (2 / 3) * (control.x - to.x), y: to.y + (2 / 3) * (control.y - to.y) },
+              to
+            );
+            lastControl = control;
+            break;
+          }
+          case 'A': {
+            const rx = scanner.number();
+            const ry = scanner.number();
+            const rotation = scanner.number();
+            const largeArc = scanner.flag();
+            const sweepFlag = scanner.flag();
+            const to = point();
+            segments.push(
+              ...this.arcSegments(current, to, rx, ry, rotation, largeArc, sweepFlag, matrix, matrixScale, opts)
+            );
+            current = to;
+            lastControl = null;
+            break;
+          }
+          case 'Z':
+            finishSubpath(true);
+            current = start;
+            lastControl = null;
+            break;
+          default:
+            throw new Error(`unknown path command "${command}"`);
+        }
+
+        lastCommand = upper;
+        first = false;
+      } while (upper !== 'Z' && scanner.hasNumber());
+
+      command = scanner.nextCommand();
+    }
+
+    finishSubpath(false);
+    return subpaths;
+  }
+
+  /**
+   * Endpoint-parameterised SVG arc to segments (SVG 1.1 implementation notes F.6.5)
+   */
+  private arcSegments(
+    from: Point2D,
+    to: Point2D,
+    rxIn: number,
+    ryIn: number,
+    rotationDeg: number,
+    largeArc: number,
+    sweepFlag: number,
+    matrix: Matrix2D,
+    matrixScale: number,
+    opts: SvgImportOptions
+  ): ContourSegment[] {
+    if (distance(from, to) < 1e-12) return [];
+
+    let rx = Math.abs(rxIn);
+    let ry = Math.abs(ryIn);
+    if (rx === 0 || ry === 0) {
+      return [{ type: 'line', start: applyMatrix(matrix, from), end: applyMatrix(matrix, to) }];
+    }
+
+    const phi = (rotationDeg * Math.PI) / 180;
+    const cosPhi = Math.cos(phi);
+    const sinPhi = Math.sin(phi);
+    const dx = (from.x - to.x) / 2;
+    const dy = (from.y - to.y) / 2;
+    const x1p = cosPhi * dx + sinPhi * dy;
+    const y1p = -sinPhi * dx + cosPhi * dy;
+
+    // Scale up radii that are too small to span the endpoints
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+    const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+    let factor = Math.sqrt(Math.max(0, numerator / denominator));
+    if (largeArc === sweepFlag) factor = -factor;
+    const cxp = (factor * rx * y1p) / ry;
+    const cyp = (-factor * ry * x1p) / rx;
+
+    const center = {
+      x: cosPhi * cxp - sinPhi * cyp + (from.x + to.x) / 2,
+      y: sinPhi * cxp + cosPhi * cyp + (from.y + to.y) / 2
+    };
+
+    const vectorAngle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+    let sweep = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+    if (!sweepFlag && sweep > 0) sweep -= 2 * Math.PI;
+    if (sweepFlag && sweep < 0) sweep += 2 * Math.PI;
+
+    // Circular arcs keep their exact geometry
+    if (Math.abs(rx - ry) <= 1e-9 * Math.max(rx, ry)) {
+      const arc: ContourSegment = { type: 'arc', start: from, end: to, center, radius: rx, sweep };
+      return [transformSegment(arc, matrix, opts.chordTolerance / matrixScale)];
+    }
+
+    const divisions = arcDivisions(Math.max(rx, ry) * matrixScale, sweep, opts.chordTolerance);
+    const points: Point2D[] = [];
+    for (let i = 0; i <= divisions; i++) {
+      const t = theta1 + (sweep * i) / divisions;
+      const ex = rx * Math.cos(t);
+      const ey = ry * Math.sin(t);
+      const p = i === divisions
+        ? to
+        : { x: cosPhi * ex - sinPhi * ey + center.x, y: sinPhi * ex + cosPhi * ey + center.y };
+      points.push(applyMatrix(matrix, i === 0 ? from : p));
+    }
+    return [{ type: 'curve', points }];
+  }
+
+  // ============================================================================
+  // Shapes
+  // ============================================================================
+
+  /**
+   * Turn closed contours into polygon parts: vertices in dimensions (x1, y1, ...), exact contour kept
+   */
+  private buildShapes(contours: ContourSegment[][], tolerance: number, warnings: string[]): GeometryShape[] {
+    const { groups, degenerate } = groupContoursByContainment(contours, tolerance);
+    if (degenerate.length > 0) {
+      warnings.push(`Ignored ${degenerate.length} degenerate closed path(s)`);
+    }
+
+    const toShape = (nested: NestedContour): GeometryShape => {
+      const dimensions: Record<string, number> = {
+        width: nested.bounds.maxX - nested.bounds.minX,
+        height: nested.bounds.maxY - nested.bounds.minY
+      };
+      flattenContour(nested.segments, tolerance).forEach((point, index) => {
+        dimensions[`x${index + 1}`] = point.x;
+        dimensions[`y${index + 1}`] = point.y;
+      });
+      return { type: 'polygon', dimensions, contour: nested.segments };
+    };
+
+    return groups.map((group, index) => ({
+      ...toShape(group.outline),
+      name: `Part ${index + 1}`,
+      holes: group.holes.map(toShape)
+    }));
+  }
+
+  private getNumber(element: Element, attribute: string): number {
+    const value = parseFloat(element.getAttribute(attribute) || '');
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  private parseNumberList(value: string): number[] {
+    return (value.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) || []).map(Number);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Tokenizer for path data: handles "1.5.5" (two numbers), "-1-2" and compact arc flags ("0110")
+ */
+class PathScanner {
+  private position = 0;
+  private readonly data: string;
+
+  constructor(data: string) {
+    this.data = data;
+  }
+
+  nextCommand(): string | null {
+    this.skipSeparators();
+    if (this.position >= this.data.length) return null;
+    const char = this.data[this.position];
+    if (!/[MmLlHhVvCcSsQqTtAaZz]/.test(char)) {
+      throw new Error(`unexpected "${char}" in path data`);
+    }
+    this.position++;
+    return char;
+  }
+
+  hasNumber(): boolean {
+    this.skipSeparators();
+    return /[\d.+-]/.test(this.data[this.position] || '');
+  }
+
+  number(): number {
+    this.skipSeparators();
+    const pattern = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.data);
+    if (!match) {
+      throw new Error('missing number in path data');
+    }
+    this.position = pattern.lastIndex;
+    return parseFloat(match[0]);
+  }
+
+  flag(): number {
+    this.skipSeparators();
+    const char = this.data[this.position];
+    if (char !== '0' && char !== '1') {
+      throw new Error('invalid arc flag in path data');
+    }
+    this.position++;
+    return char === '1' ? 1 : 0;
+  }
+
+  private skipSeparators() {
+    while (this.position < this.data.length && /[\s,]/.test(this.data[this.position])) {
+      this.position++;
+    }
+  }
+}
+
+/**
+ * Adaptive subdivision: split until both control points lie within tolerance of the chord
+ */
+function flattenCubic(
+  p0: Point2D,
+  p1: Point2D,
+  p2: Point2D,
+  p3: Point2D,
+  tolerance: number,
+  out: Point2D[],
+  depth: number
+) {
+  const chordX = p3.x - p0.x;
+  const chordY = p3.y - p0.y;
+  const chordLength = Math.hypot(chordX, chordY);
+  const deviation = (p: Point2D) =>
+    chordLength < 1e-12
+      ? Math.hypot(p.x - p0.x, p.y - p0.y)
+      : Math.abs((p.x - p0.x) * chordY - (p.y - p0.y) * chordX) / chordLength;
+
+  // Control-polygon distance bounds the curve deviation (3/4 of it for a cubic)
+  if (depth >= MAX_BEZIER_DEPTH || 0.75 * Math.max(deviation(p1), deviation(p2)) <= tolerance) {
+    out.push(p3);
+    return;
+  }
+
+  const mid = (a: Point2D, b: Point2D) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  const p01 = mid(p0, p1);
+  const p12 = mid(p1, p2);
+  const p23 = mid(p2, p3);
+  const p012 = mid(p01, p12);
+  const p123 = mid(p12, p23);
+  const center = mid(p012, p123);
+
+  flattenCubic(p0, p01, p012, center, tolerance, out, depth + 1);
+  flattenCubic(center, p123, p23, p3, tolerance, out, depth + 1);
+}
+
+// Export singleton instance
+export const svgImporter = new SvgImporter();
@@ -0,0 +1,559 @@
+/**
+ * Thermal Field Solver
+ * Transient 2D heat conduction in the sheet while a cut program runs: an alternating-direction
+ * implicit finite-difference scheme driven by a Rosenthal-style moving line source along each
+ * cut path. Gives the peak temperature map, the HAZ width along every contour and hot spots
+ * where a cut runs into heat left by an earlier one. Cuts more than two margins apart are
+ * solved on separate grids, so a far-away part does not coarsen the map of a dense nest.
+ * Pure and deterministic, so it can run in a web worker.
+ */
+
+import { Point2D } from './geometryCalculator';
+import { materialRegistry } from './materialRegistry';
+import { distance, polygonBounds } from '../utils/geometryUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ThermalCut {
+  id: string;
+  points: Point2D[]; // cut path polyline (mm) in cutting direction
+}
+
+export interface ThermalJob {
+  materialType: string;
+  thickness: number; // mm
+  laserPower: number; // W
+  cuttingSpeed: number; // mm/min
+  cuts: ThermalCut[]; // in cutting order
+}
+
+export interface ThermalSolverOptions {
+  ambientTemperature: number; // °C
+  hazTemperature?: number; // °C, default A1 (723 °C) for carbon steel, half the melting point otherwise
+  hotSpotTemperature?: number; // °C of preheat, default a quarter of the way from ambient to the HAZ temperature
+  cellSize?: number; // mm, default from each region's area and maxCells
+  maxCells: number; // per region
+  maxCellSize: number; // mm; coarser maps smear the line source and understate the peak, so they are warned about
+  maxSteps: number; // time steps while cutting; longer programs take longer steps
+  margin: number; // mm of sheet around the cuts
+  rapidSpeed: number; // mm/min
+  pierceTime: number; // s
+  sampleSpacing: number; // mm between HAZ samples along a cut
+  convection: number; // W/m²·K on each face
+}
+
+export interface ThermalGrid {
+  origin: Point2D; // centre of cell [0][0]
+  cellSize: number; // mm
+  columns: number;
+  rows: number;
+}
+
+export interface ThermalRegion {
+  cutIds: string[]; // cuts solved on this grid
+  grid: ThermalGrid;
+  peakTemperatures: number[][]; // °C by [row][column]
+}
+
+export interface HazSample {
+  position: Point2D;
+  distance: number; // mm along the cut
+  time: number; // s into the program
+  preheat: number; // °C left by earlier heat where the beam arrives
+  hazWidth: number; // mm from the cut edge
+}
+
+export interface CutHaz {
+  cutId: string;
+  samples: HazSample[];
+  maxHazWidth: number; // mm
+  meanHazWidth: number; // mm
+}
+
+export interface HotSpot {
+  cutId: string;
+  position: Point2D;
+  time: number; // s into the program
+  preheat: number; // °C
+  previousCutId?: string; // the earlier cut that left most of the heat
+  timeGap?: number; // s since that cut passed
+}
+
+export interface ThermalFieldResult {
+  regions: ThermalRegion[]; // one peak temperature map per cluster of nearby cuts
+  peakTemperature: number; // °C
+  hazTemperature: number; // °C
+  hazAlongContour: CutHaz[];
+  maxHazWidth: number; // mm
+  hotSpots: HotSpot[];
+  duration: number; // s of program time
+  steps: number;
+  warnings: string[];
+}
+
+interface ThermalMaterial {
+  diffusivity: number; // mm²/s
+  heatCapacity: number; // J/mm³·K
+  meltingPoint: number; // °C
+  absorptivity: number;
+}
+
+interface Field {
+  cutIds: string[];
+  grid: ThermalGrid;
+  temperature: Float64Array;
+  peak: Float64Array;
+}
+
+interface Visit {
+  cutId: string;
+  position: Point2D;
+  time: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: ThermalSolverOptions = {
+  ambientTemperature: 20,
+  maxCells: 10000,
+  maxCellSize: 2,
+  maxSteps: 2000,
+  margin: 20,
+  rapidSpeed: 15000,
+  pierceTime: 0.5,
+  sampleSpacing: 2,
+  convection: 20
+};
+
+// Lower critical temperature of carbon steel, where the HAZ starts to transform
+const STEEL_A1 = 723;
+
+// Rykalin's thin-plate peak temperature constant, √(2πe)
+const THIN_PLATE_CONSTANT = Math.sqrt(2 * Math.PI * Math.E);
+
+// Cells ahead of the beam where preheat is read, clear of the current cut's own heat
+const LOOK_AHEAD_CELLS = 3;
+
+const MIN_CELL_SIZE = 0.2;
+
+// Idle time is stepped in chunks of at most this many cutting steps
+const IDLE_STEP_FACTOR = 10;
+
+// ============================================================================
+// Thermal Field Solver
+// ============================================================================
+
+export class ThermalFieldSolver {
+  /**
+   * Run the cut program and track the temperature field. Between cuts the head makes a
+   * rapid move and pierces; the absorbed power heats the sheet along each cut, and the
+   * share above the melting point leaves with the melt.
+   */
+  solve(job: ThermalJob, options?: Partial<ThermalSolverOptions>): ThermalFieldResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    this.validate(job);
+
+    const material = this.material(job.materialType);
+    const hazTemperature = opts.hazTemperature ??
+      (materialRegistry.isFamily(job.materialType, 'steel') ? STEEL_A1 : material.meltingPoint / 2);
+    const hotSpotTemperature = opts.hotSpotTemperature ??
+      opts.ambientTemperature + (hazTemperature - opts.ambientTemperature) / 4;
+
+    const clusters = this.clusters(job, opts.margin);
+    const fields = clusters.map(cuts => this.createField(cuts, opts));
+    const fieldOf = new Map(clusters.flatMap((cuts, k) => cuts.map(cut => [cut, fields[k]] as const)));
+    const cellSize = Math.min(...fields.map(field => field.grid.cellSize));
+    const speed = job.cuttingSpeed / 60; // mm/s
+    const power = job.laserPower * material.absorptivity; // W into the sheet
+    const cutLength = job.cuts.reduce((sum, cut) => sum + this.pathLength(cut.points), 0);
+    const dt = Math.max(cellSize / speed, cutLength / speed / opts.maxSteps);
+    const lossRate = (2 * opts.convection * 1e-6) / (material.heatCapacity * job.thickness); // 1/s
+
+    const step = (duration: number) => {
+      fields.forEach(field => {
+        this.diffuse(field, material.diffusivity, duration);
+        this.cool(field, opts.ambientTemperature, lossRate, duration);
+        this.updatePeak(field);
+      });
+      steps++;
+    };
+    const hazWidth = (preheat: number) => this.rykalinWidth(
+      power / speed, material, job.thickness, preheat, hazTemperature
+    );
+
+    const visits: Visit[] = [];
+    const hazAlongContour: CutHaz[] = [];
+    const hotSpots: HotSpot[] = [];
+    const saturated: Array<{ field: Field; sample: HazSample; normal: Point2D }> = [];
+    let time = 0;
+    let steps = 0;
+    let head = job.cuts[0].points[0];
+
+    job.cuts.forEach(cut => {
+      const field = fieldOf.get(cut)!;
+      const spacing = field.grid.cellSize;
+
+      // Rapid move to the pierce point, cooling on the way
+      let idle = distance(head, cut.points[0]) / (opts.rapidSpeed / 60);
+      time += idle;
+      while (idle > 1e-9) {
+        const chunk = Math.min(idle, dt * IDLE_STEP_FACTOR);
+        step(chunk);
+        idle -= chunk;
+      }
+
+      // Pierce
+      const length = this.pathLength(cut.points);
+      const samples: HazSample[] = [];
+      const sample = (at: number, arrival: number) => {
+        const ahead = this.pointAt(cut.points, at + LOOK_AHEAD_CELLS * spacing);
+        const preheat = Math.max(this.sampleAt(field, field.temperature, ahead), opts.ambientTemperature);
+        const position = this.pointAt(cut.points, at);
+        const entry: HazSample = { position, distance: at, time: arrival, preheat, hazWidth: hazWidth(preheat) };
+        if (preheat >= hazTemperature) {
+          saturated.push({ field, sample: entry, normal: this.normalAt(cut.points, at) });
+        }
+        samples.push(entry);
+        visits.push({ cutId: cut.id, position, time: arrival });
+      };
+
+      sample(0, time);
+      this.deposit(field, cut.points[0], power * opts.pierceTime, material, job.thickness);
+      time += opts.pierceTime;
+      step(opts.pierceTime);
+
+      // Cut, depositing the line source along the path covered in each step
+      let travelled = 0;
+      let nextSample = opts.sampleSpacing;
+      while (travelled < length - 1e-9) {
+        const advance = Math.min(speed * dt, length - travelled);
+        const duration = advance / speed;
+        while (nextSample <= travelled + advance + 1e-9) {
+          sample(nextSample, time + (nextSample - travelled) / speed);
+          nextSample += opts.sampleSpacing;
+        }
+        const pieces = Math.max(1, Math.ceil(advance / spacing));
+        for (let k = 0; k < pieces; k++) {
+          const at = this.pointAt(cut.points, travelled + (advance * (k + 0.5)) / pieces);
+          this.deposit(field, at, (power * duration) / pieces, material, job.thickness);
+        }
+        travelled += advance;
+        time += duration;
+        step(duration);
+      }
+      head = cut.points[cut.points.length - 1];
+
+      const hottest = samples.reduce((best, entry) => (entry.preheat > best.preheat ? entry : best));
+      if (hottest.preheat >= hotSpotTemperature) {
+        hotSpots.push({
+          cutId: cut.id,
+          position: hottest.position,
+          time: round(hottest.time, 2),
+          preheat: Math.round(hottest.preheat),
+          ...this.heatSource(visits, cut.id, hottest, material.diffusivity)
+        });
+      }
+      hazAlongContour.push({ cutId: cut.id, samples, maxHazWidth: 0, meanHazWidth: 0 });
+    });
+
+    // Where the beam arrived on sheet already past the HAZ temperature, the whole hot
+    // region is HAZ; measure it on the peak map
+    saturated.forEach(({ field, sample, normal }) => {
+      sample.hazWidth = this.extentAbove(field, sample.position, normal, hazTemperature);
+    });
+
+    hazAlongContour.forEach(cut => {
+      cut.samples.forEach(entry => {
+        entry.hazWidth = round(entry.hazWidth, 3);
+        entry.preheat = Math.round(entry.preheat);
+        entry.time = round(entry.time, 2);
+      });
+      const widths = cut.samples.map(entry => entry.hazWidth);
+      cut.maxHazWidth = Math.max(...widths);
+      cut.meanHazWidth = round(widths.reduce((sum, width) => sum + width, 0) / widths.length, 3);
+    });
+
+    const regions = fields.map(({ cutIds, grid, peak }) => ({
+      cutIds,
+      grid,
+      peakTemperatures: Array.from({ length: grid.rows }, (_, row) =>
+        Array.from(peak.subarray(row * grid.columns, (row + 1) * grid.columns), value => Math.round(value))
+      )
+    }));
+    const warnings = fields
+      .filter(field => field.grid.cellSize > opts.maxCellSize)
+      .map(({ cutIds, grid }) =>
+        `The map around ${cutIds.join(', ')} has ${round(grid.cellSize, 2)} mm cells, coarser than ${opts.maxCellSize} mm: ` +
+        'peak temperatures and hot spots there are understated'
+      );
+
+    return {
+      regions,
+      peakTemperature: Math.round(Math.max(...fields.map(field => Math.max(...field.peak)))),
+      hazTemperature: Math.round(hazTemperature),
+      hazAlongContour,
+      maxHazWidth: Math.max(...hazAlongContour.map(cut => cut.maxHazWidth)),
+      hotSpots,
+      duration: round(time, 2),
+      steps,
+      warnings
+    };
+  }
+
+  private validate(job: ThermalJob): void {
+    if (!(job.thickness > 0) || !(job.laserPower > 0) || !(job.cuttingSpeed > 0)) {
+      throw new Error('Thickness, laser power and cutting speed must be greater than 0');
+    }
+    if (job.cuts.length === 0 || job.cuts.some(cut => cut.points.length < 2 || this.pathLength(cut.points) === 0)) {
+      throw new Error('Every cut needs a path of at least two distinct points');
+    }
+  }
+
+  private material(materialType: string): ThermalMaterial {
+    const { thermal } = materialRegistry.get(materialType);
+    const heatCapacity = thermal.density * thermal.specificHeat * 1e-9; // J/mm³·K
+    return {
+      diffusivity: (thermal.conductivity * 1e-3) / heatCapacity,
+      heatCapacity,
+      meltingPoint: thermal.meltingPoint,
+      absorptivity: materialRegistry.absorptivity(materialType)
+    };
+  }
+
+  /**
+   * Groups cuts whose margins overlap. Heat that would cross the gap between groups is
+   * neglected, as it is at the sheet edge the margin stands for.
+   */
+  private clusters(job: ThermalJob, margin: number): ThermalCut[][] {
+    const boxes = job.cuts.map(cut => polygonBounds(cut.points));
+    const group = job.cuts.map((_, k) => k);
+    const find = (k: number): number => (group[k] === k ? k : (group[k] = find(group[k])));
+    boxes.forEach((a, i) => boxes.slice(0, i).forEach((b, j) => {
+      const overlaps = a.minX - b.maxX < 2 * margin && b.minX - a.maxX < 2 * margin &&
+        a.minY - b.maxY < 2 * margin && b.minY - a.maxY < 2 * margin;
+      if (overlaps) group[find(i)] = find(j);
+    }));
+
+    const clusters = new Map<number, ThermalCut[]>();
+    job.cuts.forEach((cut, k) => clusters.set(find(k), [...(clusters.get(find(k)) ?? []), cut]));
+    return Array.from(clusters.values());
+  }
+
+  private createField(cuts: ThermalCut[], opts: ThermalSolverOptions): Field {
+    const bounds = polygonBounds(cuts.flatMap(cut => cut.points));
+    const width = bounds.maxX - bounds.minX + 2 * opts.margin;
+    const height = bounds.maxY - bounds.minY + 2 * opts.margin;
+    // Smallest cell for which (width / size + 2) × (height / size + 2) fits in maxCells
+    const fitted = (width + height + Math.sqrt((width + height) ** 2 + 4 * opts.maxCells * width * height)) / opts.maxCells;
+    const cellSize = opts.cellSize ?? Math.max(MIN_CELL_SIZE, fitted);
+    const columns = Math.ceil(width / cellSize) + 1;
+    const rows = Math.ceil(height / cellSize) + 1;
+    if (columns * rows > opts.maxCells * 4) {
+      throw new Error(`A ${cellSize} mm grid over ${Math.round(width)} × ${Math.round(height)} mm is too fine`);
+    }
+
+    const temperature = new Float64Array(columns * rows).fill(opts.ambientTemperature);
+    return {
+      cutIds: cuts.map(cut => cut.id),
+      grid: { origin: { x: bounds.minX - opts.margin, y: bounds.minY - opts.margin }, cellSize, columns, rows },
+      temperature,
+      peak: temperature.slice()
+    };
+  }
+
+  /**
+   * Add energy (J) at a point, split bilinearly over the four surrounding cells. Cells
+   * cannot pass the melting point: that heat goes into the melt the gas blows out.
+   */
+  private deposit(field: Field, at: Point2D, energy: number, material: ThermalMaterial, thickness: number): void {
+    const { columns, rows, cellSize, origin } = field.grid;
+    const gx = Math.min(Math.max((at.x - origin.x) / cellSize, 0), columns - 1);
+    const gy = Math.min(Math.max((at.y - origin.y) / cellSize, 0), rows - 1);
+    const i0 = Math.min(Math.floor(gx), columns - 2);
+    const j0 = Math.min(Math.floor(gy), rows - 2);
+    const fx = gx - i0;
+    const fy = gy - j0;
+    const rise = energy / (material.heatCapacity * thickness * cellSize * cellSize);
+
+    ([[0, 0, (1 - fx) * (1 - fy)], [1, 0, fx * (1 - fy)], [0, 1, (1 - fx) * fy], [1, 1, fx * fy]] as const)
+      .forEach(([di, dj, weight]) => {
+        const index = (j0 + dj) * columns + i0 + di;
+        field.temperature[index] = Math.min(field.temperature[index] + rise * weight, material.meltingPoint);
+      });
+  }
+
+  /**
+   * One Peaceman–Rachford ADI step with insulated sheet edges: implicit along rows, then
+   * along columns. Unconditionally stable, so the step follows the beam, not the grid.
+   */
+  private diffuse(field: Field, diffusivity: number, dt: number): void {
+    const { columns, rows, cellSize } = field.grid;
+    const r = (diffusivity * dt) / (2 * cellSize * cellSize);
+    const half = new Float64Array(columns * rows);
+    const t = field.temperature;
+
+    // Implicit in x, explicit in y
+    const rowRhs = new Float64Array(columns);
+    for (let j = 0; j < rows; j++) {
+      const up = j > 0 ? j - 1 : 1;
+      const down = j < rows - 1 ? j + 1 : rows - 2;
+      for (let i = 0; i < columns; i++) {
+        const c = t[j * columns + i];
+        rowRhs[i] = c + r * (t[up * columns + i] - 2 * c + t[down * columns + i]);
+      }
+      this.solveTridiagonal(rowRhs, r, half, j * columns, 1);
+    }
+
+    // Implicit in y, explicit in x
+    const columnRhs = new Float64Array(rows);
+    for (let i = 0; i < columns; i++) {
+      const left = i > 0 ? i - 1 : 1;
+      const right = i < columns - 1 ? i + 1 : columns - 2;
+      for (let j = 0; j < rows; j++) {
+        const c = half[j * columns + i];
+        columnRhs[j] = c + r * (half[j * columns + left] - 2 * c + half[j * columns + right]);
+      }
+      this.solveTridiagonal(columnRhs, r, t, i, columns);
+    }
+  }
+
+  /**
+   * Thomas algorithm for (1 + 2r)·x[k] − r·(x[k−1] + x[k+1]) = rhs[k] with mirrored ends,
+   * writing x into out at offset + k·stride
+   */
+  private solveTridiagonal(rhs: Float64Array, r: number, out: Float64Array, offset: number, stride: number): void {
+    const n = rhs.length;
+    const upper = new Float64Array(n);
+    const value = new Float64Array(n);
+    const diagonal = 1 + 2 * r;
+
+    upper[0] = (-2 * r) / diagonal;
+    value[0] = rhs[0] / diagonal;
+    for (let k = 1; k < n; k++) {
+      const lower = k === n - 1 ? -2 * r : -r;
+      const denominator = diagonal - lower * upper[k - 1];
+      upper[k] = -r / denominator;
+      value[k] = (rhs[k] - lower * value[k - 1]) / denominator;
+    }
+
+    let next = value[n - 1];
+    out[offset + (n - 1) * stride] = next;
+    for (let k = n - 2; k >= 0; k--) {
+      next = value[k] - upper[k] * next;
+      out[offset + k * stride] = next;
+    }
+  }
+
+  // Convection from both faces, solved exactly for the step
+  private cool(field: Field, ambient: number, lossRate: number, dt: number): void {
+    const decay = Math.exp(-lossRate * dt);
+    const t = field.temperature;
+    for (let k = 0; k < t.length; k++) {
+      t[k] = ambient + (t[k] - ambient) * decay;
+    }
+  }
+
+  private updatePeak(field: Field): void {
+    const { temperature, peak } = field;
+    for (let k = 0; k < peak.length; k++) {
+      if (temperature[k] > peak[k]) peak[k] = temperature[k];
+    }
+  }
+
+  /**
+   * Distance from the cut edge to the HAZ temperature isotherm: Rykalin's thin-plate peak
+   * temperature for a line source, 1/(Tp − T0) = √(2πe)·ρc·h·y / H + 1/(Tm − T0), with
+   * the local preheat as T0
+   */
+  private rykalinWidth(heatInput: number, material: ThermalMaterial, thickness: number, preheat: number, hazTemperature: number): number {
+    if (preheat >= hazTemperature) return 0; // measured on the peak map instead
+    const inverse = 1 / (hazTemperature - preheat) - 1 / (material.meltingPoint - preheat);
+    return Math.max(0, (heatInput / (THIN_PLATE_CONSTANT * material.heatCapacity * thickness)) * inverse);
+  }
+
+  // How far the peak map stays above a temperature along the normal, on the wider side
+  private extentAbove(field: Field, from: Point2D, normal: Point2D, temperature: number): number {
+    const { cellSize, columns, rows } = field.grid;
+    const limit = Math.max(columns, rows) * cellSize;
+    return Math.max(...[1, -1].map(side => {
+      let reach = 0;
+      while (reach < limit) {
+        const next = reach + cellSize / 2;
+        const at = { x: from.x + side * normal.x * next, y: from.y + side * normal.y * next };
+        if (this.sampleAt(field, field.peak, at) < temperature) break;
+        reach = next;
+      }
+      return reach;
+    }));
+  }
+
+  /**
+   * The earlier cut whose passes best explain the preheat at a sample: the largest 2D
+   * heat-kernel weight exp(−r²/4αΔt)/Δt among its visits
+   */
+  private heatSource(visits: Visit[], cutId: string, sample: HazSample, diffusivity: number): Pick<HotSpot, 'previousCutId' | 'timeGap'> {
+    let best: { visit: Visit; weight: number } | undefined;
+    visits.forEach(visit => {
+      const gap = sample.time - visit.time;
+      if (visit.cutId === cutId || gap <= 0) return;
+      const weight = Math.exp(-(distance(visit.position, sample.position) ** 2) / (4 * diffusivity * gap)) / gap;
+      if (!best || weight > best.weight) best = { visit, weight };
+    });
+    return best ? { previousCutId: best.visit.cutId, timeGap: round(sample.time - best.visit.time, 2) } : {};
+  }
+
+  private sampleAt(field: Field, values: Float64Array, at: Point2D): number {
+    const { columns, rows, cellSize, origin } = field.grid;
+    const gx = Math.min(Math.max((at.x - origin.x) / cellSize, 0), columns - 1);
+    const gy = Math.min(Math.max((at.y - origin.y) / cellSize, 0), rows - 1);
+    const i0 = Math.min(Math.floor(gx), columns - 2);
+    const j0 = Math.min(Math.floor(gy), rows - 2);
+    const fx = gx - i0;
+    const fy = gy - j0;
+    const value = (i: number, j: number) => values[j * columns + i];
+    return (
+      value(i0, j0) * (1 - fx) * (1 - fy) + value(i0 + 1, j0) * fx * (1 - fy) +
+      value(i0, j0 + 1) * (1 - fx) * fy + value(i0 + 1, j0 + 1) * fx * fy
+    );
+  }
+
+  private pathLength(points: Point2D[]): number {
+    return points.slice(1).reduce((sum, point, k) => sum + distance(points[k], point), 0);
+  }
+
+  // Point at a distance along the path; past the end it carries on along the last segment
+  private pointAt(points: Point2D[], at: number): Point2D {
+    let remaining = at;
+    for (let k = 1; k < points.length; k++) {
+      const length = distance(points[k - 1], points[k]);
+      if (remaining <= length || k === points.length - 1) {
+        const f = length > 0 ? remaining / length : 0;
+        return {
+          x: points[k - 1].x + (points[k].x - points[k - 1].x) * f,
+          y: points[k - 1].y + (points[k].y - points[k - 1].y) * f
+        };
+      }
+      remaining -= length;
+    }
+    return points[points.length - 1];
+  }
+
+  private normalAt(points: Point2D[], at: number): Point2D {
+    const a = this.pointAt(points, Math.max(at - 0.5, 0));
+    const b = this.pointAt(points, at + 0.5);
+    const length = distance(a, b) || 1;
+    return { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+  }
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton instance
+export const thermalFieldSolver = new ThermalFieldSolver();
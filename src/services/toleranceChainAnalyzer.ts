@@ -0,0 +1,201 @@
+/**
+ * Tolerance Chain Analyzer
+ * Worst-case, RSS and Monte Carlo stack-up of a one-dimensional dimension chain, with the
+ * share of the closing dimension falling outside its limits and each link's contribution
+ */
+
+import { z } from 'zod';
+import { monteCarloEngine, MonteCarloResult, UncertainInput } from './monteCarloEngine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const chainLinkSchema = z.object({
+  id: z.string().min(1),
+  nominal: z.number(),
+  plusTolerance: z.number().min(0),
+  minusTolerance: z.number().min(0),
+  direction: z.enum(['increasing', 'decreasing']), // adds to or subtracts from the closing dimension
+  distribution: z.enum(['normal', 'uniform', 'triangular'])
+});
+
+export type ChainLink = z.infer<typeof chainLinkSchema>;
+
+export interface SpecificationLimits {
+  lower: number;
+  upper: number;
+}
+
+export interface ChainAnalysisOptions {
+  samples: number;
+  seed: number;
+}
+
+export interface LinkContribution {
+  id: string;
+  mean: number; // centre of the tolerance band
+  halfRange: number; // half the tolerance band
+  standardDeviation: number;
+  varianceShare: number; // 0-1, share of the closing dimension's variance
+  worstCaseShare: number; // 0-1, share of the worst-case band
+}
+
+export interface ChainAnalysis {
+  nominal: number; // closing dimension from the link nominals
+  mean: number; // closing dimension from the band centres
+  specification: SpecificationLimits;
+  worstCase: {
+    min: number;
+    max: number;
+    withinSpec: boolean;
+  };
+  rss: {
+    min: number; // mean ± 3σ
+    max: number;
+    standardDeviation: number;
+    outOfSpecPercent: number; // normal approximation
+  };
+  monteCarlo: MonteCarloResult & {
+    outOfSpecPercent: number;
+  };
+  contributions: LinkContribution[]; // in chain order
+  largestContributor: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPTIONS: ChainAnalysisOptions = {
+  samples: 10000,
+  seed: 1
+};
+
+// Standard deviation of a tolerance band of half-width 1: ±3σ for normal links
+const SIGMA_PER_HALF_RANGE: Record<ChainLink['distribution'], number> = {
+  normal: 1 / 3,
+  uniform: 1 / Math.sqrt(3),
+  triangular: 1 / Math.sqrt(6)
+};
+
+// ============================================================================
+// Tolerance Chain Analyzer
+// ============================================================================
+
+export class ToleranceChainAnalyzer {
+  analyze(
+    links: ChainLink[],
+    specification: SpecificationLimits,
+    options?: Partial<ChainAnalysisOptions>
+  ): ChainAnalysis {
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    const opts: ChainAnalysisOptions = { ...DEFAULT_OPTIONS, ...Object.fromEntries(given) };
+    this.validate(links, specification);
+
+    const sign = (link: ChainLink) => (link.direction === 'increasing' ? 1 : -1);
+    const bands = links.map(link => ({
+      link,
+      mean: link.nominal + (link.plusTolerance - link.minusTolerance) / 2,
+      halfRange: (link.plusTolerance + link.minusTolerance) / 2,
+      standardDeviation: (link.plusTolerance + link.minusTolerance) / 2 * SIGMA_PER_HALF_RANGE[link.distribution]
+    }));
+
+    const nominal = links.reduce((sum, link) => sum + sign(link) * link.nominal, 0);
+    const mean = bands.reduce((sum, band) => sum + sign(band.link) * band.mean, 0);
+    const worstHalf = bands.reduce((sum, band) => sum + band.halfRange, 0);
+    const variance = bands.reduce((sum, band) => sum + band.standardDeviation ** 2, 0);
+    const standardDeviation = Math.sqrt(variance);
+
+    const monteCarlo = monteCarloEngine.simulate(
+      bands.map(band => ({ name: band.link.id, distribution: this.distribution(band) })),
+      values => links.reduce((sum, link) => sum + sign(link) * values[link.id], 0),
+      {
+        samples: opts.samples,
+        seed: opts.seed,
+        percentiles: [0.135, 50, 99.865],
+        target: { value: specification.lower, direction: 'between', upper: specification.upper }
+      }
+    );
+
+    const contributions = bands.map(band => ({
+      id: band.link.id,
+      mean: band.mean,
+      halfRange: band.halfRange,
+      standardDeviation: band.standardDeviation,
+      varianceShare: variance > 0 ? band.standardDeviation ** 2 / variance : 0,
+      worstCaseShare: worstHalf > 0 ? band.halfRange / worstHalf : 0
+    }));
+    const largest = contributions.reduce((top, contribution) =>
+      (contribution.varianceShare > top.varianceShare ? contribution : top));
+
+    return {
+      nominal,
+      mean,
+      specification,
+      worstCase: {
+        min: mean - worstHalf,
+        max: mean + worstHalf,
+        withinSpec: mean - worstHalf >= specification.lower && mean + worstHalf <= specification.upper
+      },
+      rss: {
+        min: mean - 3 * standardDeviation,
+        max: mean + 3 * standardDeviation,
+        standardDeviation,
+        outOfSpecPercent: this.normalOutOfSpec(mean, standardDeviation, specification) * 100
+      },
+      monteCarlo: {
+        ...monteCarlo,
+        outOfSpecPercent: (1 - (monteCarlo.probabilityOfTarget ?? 1)) * 100
+      },
+      contributions,
+      largestContributor: largest.id
+    };
+  }
+
+  private distribution(band: { link: ChainLink; mean: number; halfRange: number; standardDeviation: number }): UncertainInput['distribution'] {
+    switch (band.link.distribution) {
+      case 'normal':
+        return { type: 'normal', mean: band.mean, standardDeviation: band.standardDeviation };
+      case 'uniform':
+        return { type: 'uniform', min: band.mean - band.halfRange, max: band.mean + band.halfRange };
+      case 'triangular':
+        return { type: 'triangular', min: band.mean - band.halfRange, mode: band.mean, max: band.mean + band.halfRange };
+    }
+  }
+
+  private normalOutOfSpec(mean: number, standardDeviation: number, specification: SpecificationLimits): number {
+    if (standardDeviation === 0) {
+      return mean < specification.lower || mean > specification.upper ? 1 : 0;
+    }
+    return this.normalCdf((specification.lower - mean) / standardDeviation) +
+      1 - this.normalCdf((specification.upper - mean) / standardDeviation);
+  }
+
+  /**
+   * Standard normal CDF from the Abramowitz-Stegun 7.1.26 error function (error below 1.5e-7)
+   */
+  private normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - polynomial * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
+  private validate(links: ChainLink[], specification: SpecificationLimits): void {
+    if (links.length === 0) {
+      throw new Error('A dimension chain needs at least one link');
+    }
+    const ids = links.map(link => link.id);
+    if (new Set(ids).size !== ids.length) {
+      throw new Error('Chain link ids must be unique');
+    }
+    if (!(specification.upper > specification.lower)) {
+      throw new Error('The upper specification limit must be above the lower one');
+    }
+  }
+}
+
+// Export singleton instance
+export const toleranceChainAnalyzer = new ToleranceChainAnalyzer();
@@ -89,23 +89,94 @@ export interface Material {
   availability: 'common' | 'specialty' | 'rare';
 }
 
+export type MaterialFamily =
+  | 'steel'
+  | 'stainless_steel'
+  | 'aluminum'
+  | 'copper'
+  | 'titanium'
+  | 'brass'
+  | 'nickel_alloy'
+  | 'plastic'
+  | 'wood';
+
+export type LaserSource = 'fiber' | 'co2' | 'nd_yag' | 'disk' | 'diode';
+
+export interface CuttingChart {
+  speeds: Record<number, Record<number, number>>; // thickness mm -> laser power W -> speed mm/min
+  pierceTimes: Record<number, number>; // thickness mm -> seconds per pierce
+}
+
+export interface MaterialGrade {
+  id: string;
+  name: string;
+  family: MaterialFamily;
+  category: Material['category'];
+  grade?: string; // e.g. 304, 6061, Grade 5
+  standard?: string; // e.g. ASTM A240, EN 10025
+  aliases?: string[]; // ids used by older calculators and data files
+  thermal: {
+    conductivity: number; // W/m·K
+    specificHeat: number; // J/kg·K
+    density: number; // kg/m³
+    meltingPoint: number; // °C
+    boilingPoint?: number; // °C
+    expansion: number; // /K
+  };
+  optical: {
+    absorptivity: { fiber: number } & Partial<Record<LaserSource, number>>; // at normal incidence
+  };
+  mechanical?: {
+    yieldStrength: number; // MPa
+    tensileStrength: number; // MPa
+    elasticModulus: number; // MPa
+  };
+  cutting: {
+    assistGas: Material['cuttingParameters']['gasType'];
+    gasPressure: [number, number]; // bar
+    powerRange: [number, number]; // watts
+    speedRange: [number, number]; // mm/min
+    focusOffset: number; // mm
+    chart?: CuttingChart; // falls back to the family chart when absent
+  };
+  costPerKg: number; // USD per kg
+  availability: Material['availability'];
+}
+
 export interface LaserMachine {
   id: string;
   name: string;
   manufacturer: string;
-  type: 'CO2' | 'fiber' | 'diode';
+  source: LaserSource;
   maxPower: number; // watts
+  beamQuality: number; // M²
+  beamDiameter: number; // mm, raw beam at the focusing lens
+  focalLength: number; // mm
+  nozzles: number[]; // nozzle diameters in the nozzle set, mm
   workingArea: {
     x: number; // mm
     y: number; // mm
     z: number; // mm
   };
+  axes: {
+    rapidSpeed: number; // mm/min
+    maxCuttingSpeed: number; // mm/min
+    acceleration: number; // mm/s²
+  };
   accuracy: number; // mm
+  gasSupply: {
+    gases: Material['cuttingParameters']['gasType'][];
+    maxPressure: number; // bar
+  };
+  maxThickness: Partial<Record<MaterialFamily, number>>; // mm, cutting capability per family
   operatingCost: {
     powerConsumption: number; // kW
     maintenanceCostPerHour: number; // USD
     gasConsumptionRate: number; // L/min
+    machineRatePerHour: number; // USD
+    operatorRatePerHour: number; // USD
   };
+  teamId?: string; // shared with a team; personal profiles have none
 }
 
 export interface CalculationContext {
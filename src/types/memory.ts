@@ -166,8 +166,11 @@ export interface CalculationRecord {
   userId: string;
   sessionId: string;
   calculatorType: string;
+  calculatorName?: string; // set by calculationHistoryService
   parameters: Record<string, any>;
   results: Record<string, any>;
+  inputs?: Record<string, unknown>; // as saved by calculationHistoryService, in place of parameters
+  outputs?: Record<string, unknown>; // as saved by calculationHistoryService, in place of results
   context: CalculationContext;
   metadata: CalculationMetadata;
   timestamp: Date;
@@ -196,6 +199,29 @@ export interface CalculationMetadata {
   referrer?: string;
   sessionDuration: number; // milliseconds
   iterationCount: number; // how many times parameters were adjusted
+  executionTime?: number; // milliseconds, set by calculationHistoryService
+  context?: Partial<CalculationContext>; // set by calculationHistoryService
+  provenance?: CalculationProvenance;
+}
+
+/**
+ * Content hashes of the shared data a calculation read
+ */
+export interface DataVersions {
+  materials: string;
+  machines: string;
+  cuttingCharts: string;
+}
+
+/**
+ * What produced a calculation, so it can be reproduced or audited later
+ */
+export interface CalculationProvenance {
+  calculatorId: string;
+  calculatorVersion: string;
+  inputHash: string; // SHA-256 of the resolved inputs
+  dataVersions: DataVersions;
+  calculatedAt: string;
 }
 
 // ============================================================================
@@ -0,0 +1,825 @@
+/**
+ * Geometry Utilities
+ * Shared contour and polygon math used by the importers and the geometry calculator
+ */
+
+import type { ContourSegment, GeometryShape, Point2D } from '../services/geometryCalculator';
+
+// Affine matrix [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f (SVG convention)
+export type Matrix2D = [number, number, number, number, number, number];
+
+export interface Bounds2D {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const IDENTITY_MATRIX: Matrix2D = [1, 0, 0, 1, 0, 0];
+
+// Default chord tolerance for curve flattening (mm)
+export const DEFAULT_CHORD_TOLERANCE = 0.05;
+
+// ============================================================================
+// Points and Matrices
+// ============================================================================
+
+export function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+export function pointsEqual(a: Point2D, b: Point2D, tolerance = 1e-6): boolean {
+  return distance(a, b) <= tolerance;
+}
+
+export function multiplyMatrix(m1: Matrix2D, m2: Matrix2D): Matrix2D {
+  // Returns m1 * m2 (m2 is applied first)
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+  ];
+}
+
+export function translationMatrix(tx: number, ty: number): Matrix2D {
+  return [1, 0, 0, 1, tx, ty];
+}
+
+export function scaleMatrix(sx: number, sy: number = sx): Matrix2D {
+  return [sx, 0, 0, sy, 0, 0];
+}
+
+export function rotationMatrix(radians: number): Matrix2D {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [cos, sin, -sin, cos, 0, 0];
+}
+
+export function applyMatrix(m: Matrix2D, p: Point2D): Point2D {
+  return {
+    x: m[0] * p.x + m[2] * p.y + m[4],
+    y: m[1] * p.x + m[3] * p.y + m[5]
+  };
+}
+
+function isIdentity(m: Matrix2D): boolean {
+  return m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1 && m[4] === 0 && m[5] === 0;
+}
+
+/**
+ * Uniform scale factor of a similarity transform, or null when the matrix shears
+ * or scales non-uniformly (arcs then have to be flattened).
+ */
+function similarityScale(m: Matrix2D): number | null {
+  const sx = Math.hypot(m[0], m[1]);
+  const sy = Math.hypot(m[2], m[3]);
+  const dot = m[0] * m[2] + m[1] * m[3];
+  if (Math.abs(sx - sy) > 1e-9 * Math.max(sx, sy) || Math.abs(dot) > 1e-9 * sx * sy) {
+    return null;
+  }
+  return sx;
+}
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+export function arcPoint(center: Point2D, radius: number, angle: number): Point2D {
+  return {
+    x: center.x + radius * Math.cos(angle),
+    y: center.y + radius * Math.sin(angle)
+  };
+}
+
+export function segmentStart(segment: ContourSegment): Point2D {
+  return segment.type === 'curve' ? segment.points[0] : segment.start;
+}
+
+export function segmentEnd(segment: ContourSegment): Point2D {
+  return segment.type === 'curve' ? segment.points[segment.points.length - 1] : segment.end;
+}
+
+export function segmentLength(segment: ContourSegment): number {
+  switch (segment.type) {
+    case 'line':
+      return distance(segment.start, segment.end);
+    case 'arc':
+      return Math.abs(segment.sweep) * segment.radius;
+    case 'curve': {
+      let length = 0;
+      for (let i = 1; i < segment.points.length; i++) {
+        length += distance(segment.points[i - 1], segment.points[i]);
+      }
+      return length;
+    }
+  }
+}
+
+export function reverseSegment(segment: ContourSegment): ContourSegment {
+  switch (segment.type) {
+    case 'line':
+      return { type: 'line', start: segment.end, end: segment.start };
+    case 'arc':
+      return { ...segment, start: segment.end, end: segment.start, sweep: -segment.sweep };
+    case 'curve':
+      return { type: 'curve', points: [...segment.points].reverse() };
+  }
+}
+
+export function reverseContour(contour: ContourSegment[]): ContourSegment[] {
+  return contour.map(reverseSegment).reverse();
+}
+
+/**
+ * Unit tangent direction (radians) at the start or end of a segment
+ */
+export function segmentTangent(segment: ContourSegment, at: 'start' | 'end'): number {
+  switch (segment.type) {
+    case 'line':
+      return Math.atan2(segment.end.y - segment.start.y, segment.end.x - segment.start.x);
+    case 'arc': {
+      const p = at === 'start' ? segment.start : segment.end;
+      const radial = Math.atan2(p.y - segment.center.y, p.x - segment.center.x);
+      return radial + (segment.sweep >= 0 ? Math.PI / 2 : -Math.PI / 2);
+    }
+    case 'curve': {
+      const pts = segment.points;
+      const [a, b] = at === 'start' ? [pts[0], pts[1]] : [pts[pts.length - 2], pts[pts.length - 1]];
+      return Math.atan2(b.y - a.y, b.x - a.x);
+    }
+  }
+}
+
+/**
+ * Number of chords needed to keep an arc of the given radius and sweep within tolerance
+ */
+export function arcDivisions(radius: number, sweep: number, tolerance = DEFAULT_CHORD_TOLERANCE): number {
+  if (radius <= tolerance) return Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+  const maxStep = 2 * Math.acos(1 - tolerance / radius);
+  return Math.max(1, Math.ceil(Math.abs(sweep) / maxStep));
+}
+
+/**
+ * Points along a segment from start to end (inclusive) within the chord tolerance
+ */
+export function flattenSegment(segment: ContourSegment, tolerance = DEFAULT_CHORD_TOLERANCE): Point2D[] {
+  switch (segment.type) {
+    case 'line':
+      return [segment.start, segment.end];
+    case 'curve':
+      return segment.points;
+    case 'arc': {
+      const divisions = arcDivisions(segment.radius, segment.sweep, tolerance);
+      const startAngle = Math.atan2(segment.start.y - segment.center.y, segment.start.x - segment.center.x);
+      const points: Point2D[] = [segment.start];
+      for (let i = 1; i < divisions; i++) {
+        points.push(arcPoint(segment.center, segment.radius, startAngle + (segment.sweep * i) / divisions));
+      }
+      points.push(segment.end);
+      return points;
+    }
+  }
+}
+
+/**
+ * Flatten a closed contour into polygon vertices (closing vertex not repeated)
+ */
+export function flattenContour(contour: ContourSegment[], tolerance = DEFAULT_CHORD_TOLERANCE): Point2D[] {
+  const points: Point2D[] = [];
+  contour.forEach(segment => {
+    const segmentPoints = flattenSegment(segment, tolerance);
+    segmentPoints.slice(0, -1).forEach(p => points.push(p));
+  });
+  if (contour.length > 0 && points.length > 0 && !pointsEqual(points[0], segmentEnd(contour[contour.length - 1]))) {
+    points.push(segmentEnd(contour[contour.length - 1]));
+  }
+  return points;
+}
+
+/**
+ * Apply an affine transform to a segment. Arcs stay arcs under similarity transforms
+ * (mirroring flips the sweep); any other transform flattens them into curves.
+ */
+export function transformSegment(
+  segment: ContourSegment,
+  m: Matrix2D,
+  tolerance = DEFAULT_CHORD_TOLERANCE
+): ContourSegment {
+  if (isIdentity(m)) return segment;
+
+  switch (segment.type) {
+    case 'line':
+      return { type: 'line', start: applyMatrix(m, segment.start), end: applyMatrix(m, segment.end) };
+    case 'curve':
+      return { type: 'curve', points: segment.points.map(p => applyMatrix(m, p)) };
+    case 'arc': {
+      const scale = similarityScale(m);
+      if (scale === null) {
+        return { type: 'curve', points: flattenSegment(segment, tolerance).map(p => applyMatrix(m, p)) };
+      }
+      const mirrored = m[0] * m[3] - m[1] * m[2] < 0;
+      return {
+        type: 'arc',
+        start: applyMatrix(m, segment.start),
+        end: applyMatrix(m, segment.end),
+        center: applyMatrix(m, segment.center),
+        radius: segment.radius * scale,
+        sweep: mirrored ? -segment.sweep : segment.sweep
+      };
+    }
+  }
+}
+
+export function transformContour(contour: ContourSegment[], m: Matrix2D, tolerance = DEFAULT_CHORD_TOLERANCE): ContourSegment[] {
+  return contour.map(segment => transformSegment(segment, m, tolerance));
+}
+
+/**
+ * Piece of a segment between two arc-length positions measured from its start
+ */
+export function subSegment(segment: ContourSegment, from: number, to: number): ContourSegment {
+  const length = segmentLength(segment);
+  const a = Math.max(0, Math.min(from, length));
+  const b = Math.max(a, Math.min(to, length));
+
+  switch (segment.type) {
+    case 'line': {
+      const at = (s: number) => {
+        const t = length > 0 ? s / length : 0;
+        return {
+          x: segment.start.x + (segment.end.x - segment.start.x) * t,
+          y: segment.start.y + (segment.end.y - segment.start.y) * t
+        };
+      };
+      return { type: 'line', start: at(a), end: at(b) };
+    }
+    case 'arc': {
+      const startAngle = Math.atan2(segment.start.y - segment.center.y, segment.start.x - segment.center.x);
+      const direction = Math.sign(segment.sweep);
+      const angleAt = (s: number) => startAngle + (direction * s) / segment.radius;
+      return {
+        type: 'arc',
+        start: a === 0 ? segment.start : arcPoint(segment.center, segment.radius, angleAt(a)),
+        end: b === length ? segment.end : arcPoint(segment.center, segment.radius, angleAt(b)),
+        center: segment.center,
+        radius: segment.radius,
+        sweep: (direction * (b - a)) / segment.radius
+      };
+    }
+    case 'curve': {
+      const points: Point2D[] = [];
+      let walked = 0;
+      for (let i = 1; i < segment.points.length; i++) {
+        const p = segment.points[i - 1];
+        const q = segment.points[i];
+        const step = distance(p, q);
+        const lerp = (s: number) => {
+          const t = step > 0 ? (s - walked) / step : 0;
+          return { x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t };
+        };
+        if (points.length === 0 && a <= walked + step) points.push(lerp(a));
+        if (points.length > 0 && b <= walked + step) {
+          points.push(lerp(b));
+          break;
+        }
+        if (points.length > 0) points.push(q);
+        walked += step;
+      }
+      return { type: 'curve', points };
+    }
+  }
+}
+
+export function contourLength(contour: ContourSegment[]): number {
+  return contour.reduce((sum, segment) => sum + segmentLength(segment), 0);
+}
+
+/**
+ * Arc-length position along a closed contour of the point closest to p
+ */
+export function contourDistanceOf(contour: ContourSegment[], p: Point2D): number {
+  let best = Infinity;
+  let bestDistance = 0;
+  let walked = 0;
+
+  const consider = (candidate: Point2D, along: number) => {
+    const d = distance(candidate, p);
+    if (d < best - 1e-12) {
+      best = d;
+      bestDistance = along;
+    }
+  };
+
+  contour.forEach(segment => {
+    if (segment.type === 'arc') {
+      const startAngle = Math.atan2(segment.start.y - segment.center.y, segment.start.x - segment.center.x);
+      const angle = Math.atan2(p.y - segment.center.y, p.x - segment.center.x);
+      // Angle travelled from the start in the sweep direction, clamped to the arc
+      let travelled = (angle - startAngle) * Math.sign(segment.sweep);
+      travelled = ((travelled % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      const sweep = Math.abs(segment.sweep);
+      if (travelled > sweep) {
+        travelled = travelled - sweep < 2 * Math.PI - travelled ? sweep : 0;
+      }
+      consider(arcPoint(segment.center, segment.radius, startAngle + Math.sign(segment.sweep) * travelled), walked + travelled * segment.radius);
+    } else {
+      const points = segment.type === 'line' ? [segment.start, segment.end] : segment.points;
+      let along = walked;
+      for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const step = distance(a, b);
+        const t = step > 0
+          ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (step * step)))
+          : 0;
+        consider({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, along + t * step);
+        along += step;
+      }
+    }
+    walked += segmentLength(segment);
+  });
+
+  return bestDistance;
+}
+
+/**
+ * Segments of a closed contour between two arc-length positions. Positions beyond the
+ * contour length wrap around, so a slice can run across the contour's own start.
+ */
+export function sliceContour(contour: ContourSegment[], from: number, to: number): ContourSegment[] {
+  const total = contourLength(contour);
+  if (total <= 0 || to <= from) return [];
+
+  const pieces: ContourSegment[] = [];
+  let offset = Math.floor(from / total) * total;
+  while (offset < to) {
+    let walked = offset;
+    contour.forEach(segment => {
+      const length = segmentLength(segment);
+      const a = Math.max(from, walked);
+      const b = Math.min(to, walked + length);
+      if (b - a > 1e-9) pieces.push(subSegment(segment, a - walked, b - walked));
+      walked += length;
+    });
+    offset += total;
+  }
+  return pieces;
+}
+
+// ============================================================================
+// Polygons
+// ============================================================================
+
+/**
+ * Signed area (shoelace); positive for counter-clockwise vertex order
+ */
+export function signedPolygonArea(points: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return area / 2;
+}
+
+/**
+ * Exact signed area of a closed contour: chord terms plus the circular segment of each arc
+ */
+export function contourSignedArea(contour: ContourSegment[]): number {
+  let area = 0;
+  contour.forEach(segment => {
+    const points = segment.type === 'curve' ? segment.points : [segment.start, segment.end];
+    for (let i = 1; i < points.length; i++) {
+      area += (points[i - 1].x * points[i].y - points[i].x * points[i - 1].y) / 2;
+    }
+    if (segment.type === 'arc') {
+      const theta = Math.abs(segment.sweep);
+      area += Math.sign(segment.sweep) * (segment.radius * segment.radius / 2) * (theta - Math.sin(theta));
+    }
+  });
+  return area;
+}
+
+export function polygonArea(points: Point2D[]): number {
+  return Math.abs(signedPolygonArea(points));
+}
+
+export function polygonPerimeter(points: Point2D[]): number {
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i++) {
+    perimeter += distance(points[i], points[(i + 1) % points.length]);
+  }
+  return perimeter;
+}
+
+export function polygonBounds(points: Point2D[]): Bounds2D {
+  return points.reduce(
+    (bounds, p) => ({
+      minX: Math.min(bounds.minX, p.x),
+      minY: Math.min(bounds.minY, p.y),
+      maxX: Math.max(bounds.maxX, p.x),
+      maxY: Math.max(bounds.maxY, p.y)
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+}
+
+/**
+ * Part of a polygon inside an axis-aligned box (Sutherland-Hodgman); empty when they
+ * do not overlap
+ */
+export function clipPolygonToBounds(points: Point2D[], bounds: Bounds2D): Point2D[] {
+  const edges: Array<{ inside: (p: Point2D) => boolean; cross: (a: Point2D, b: Point2D) => Point2D }> = [
+    { inside: p => p.x >= bounds.minX, cross: (a, b) => atX(a, b, bounds.minX) },
+    { inside: p => p.x <= bounds.maxX, cross: (a, b) => atX(a, b, bounds.maxX) },
+    { inside: p => p.y >= bounds.minY, cross: (a, b) => atY(a, b, bounds.minY) },
+    { inside: p => p.y <= bounds.maxY, cross: (a, b) => atY(a, b, bounds.maxY) }
+  ];
+  const atX = (a: Point2D, b: Point2D, x: number) => ({ x, y: a.y + ((b.y - a.y) * (x - a.x)) / (b.x - a.x) });
+  const atY = (a: Point2D, b: Point2D, y: number) => ({ x: a.x + ((b.x - a.x) * (y - a.y)) / (b.y - a.y), y });
+
+  let result = points;
+  for (const edge of edges) {
+    const input = result;
+    result = [];
+    input.forEach((current, i) => {
+      const previous = input[(i + input.length - 1) % input.length];
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) result.push(edge.cross(previous, current));
+        result.push(current);
+      } else if (edge.inside(previous)) {
+        result.push(edge.cross(previous, current));
+      }
+    });
+    if (result.length === 0) return [];
+  }
+
+  // Drop repeated vertices where the polygon ran along the box
+  return result.filter((p, i) => !pointsEqual(p, result[(i + 1) % result.length]));
+}
+
+/**
+ * Rotate points counter-clockwise about the origin; quarter turns are exact
+ */
+export function rotatePolygon(points: Point2D[], degrees: number): Point2D[] {
+  const normalized = ((degrees % 360) + 360) % 360;
+  if (normalized === 0) return points;
+  const quarter = normalized / 90;
+  const [cos, sin] = Number.isInteger(quarter)
+    ? [[1, 0], [0, 1], [-1, 0], [0, -1]][quarter]
+    : [Math.cos((normalized * Math.PI) / 180), Math.sin((normalized * Math.PI) / 180)];
+  return points.map(p => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos }));
+}
+
+/**
+ * Convex hull (monotone chain), counter-clockwise without collinear points
+ */
+export function convexHull(points: Point2D[]): Point2D[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Point2D[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2D[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Outline and hole polygons of a shape in its own coordinates. Primitive shapes
+ * start at the origin; their holes carry no position and are left out.
+ */
+export function shapeToPolygons(
+  shape: GeometryShape,
+  tolerance = DEFAULT_CHORD_TOLERANCE
+): { outline: Point2D[]; holes: Point2D[][] } {
+  const positionedHoles = () =>
+    (shape.holes || [])
+      .map(hole => (hole.contour || hole.type === 'polygon' ? shapeToPolygons(hole, tolerance).outline : []))
+      .filter(hole => hole.length >= 3);
+
+  if (shape.contour) {
+    return { outline: flattenContour(shape.contour, tolerance), holes: positionedHoles() };
+  }
+
+  const { dimensions } = shape;
+  switch (shape.type) {
+    case 'rectangle':
+      return {
+        outline: [
+          { x: 0, y: 0 },
+          { x: dimensions.width, y: 0 },
+          { x: dimensions.width, y: dimensions.height },
+          { x: 0, y: dimensions.height }
+        ],
+        holes: []
+      };
+    case 'circle':
+    case 'ellipse': {
+      const rx = shape.type === 'circle' ? dimensions.radius : dimensions.majorAxis / 2;
+      const ry = shape.type === 'circle' ? dimensions.radius : dimensions.minorAxis / 2;
+      const divisions = Math.max(8, arcDivisions(Math.max(rx, ry), 2 * Math.PI, tolerance));
+      const outline: Point2D[] = [];
+      for (let i = 0; i < divisions; i++) {
+        const angle = (2 * Math.PI * i) / divisions;
+        outline.push({ x: rx + rx * Math.cos(angle), y: ry + ry * Math.sin(angle) });
+      }
+      return { outline, holes: [] };
+    }
+    default: {
+      const outline: Point2D[] = [];
+      for (let i = 1; dimensions[`x${i}`] !== undefined && dimensions[`y${i}`] !== undefined; i++) {
+        outline.push({ x: dimensions[`x${i}`], y: dimensions[`y${i}`] });
+      }
+      return { outline, holes: positionedHoles() };
+    }
+  }
+}
+
+/**
+ * True when segments a1-a2 and b1-b2 cross or overlap; touching end points count
+ */
+export function segmentsIntersect(a1: Point2D, a2: Point2D, b1: Point2D, b2: Point2D, epsilon = 1e-9): boolean {
+  const orient = (p: Point2D, q: Point2D, r: Point2D) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  const onSegment = (p: Point2D, q: Point2D, r: Point2D) =>
+    Math.min(p.x, q.x) - epsilon <= r.x && r.x <= Math.max(p.x, q.x) + epsilon &&
+    Math.min(p.y, q.y) - epsilon <= r.y && r.y <= Math.max(p.y, q.y) + epsilon;
+
+  const d1 = orient(b1, b2, a1);
+  const d2 = orient(b1, b2, a2);
+  const d3 = orient(a1, a2, b1);
+  const d4 = orient(a1, a2, b2);
+
+  if (((d1 > epsilon && d2 < -epsilon) || (d1 < -epsilon && d2 > epsilon)) &&
+      ((d3 > epsilon && d4 < -epsilon) || (d3 < -epsilon && d4 > epsilon))) {
+    return true;
+  }
+  return (Math.abs(d1) <= epsilon && onSegment(b1, b2, a1)) ||
+    (Math.abs(d2) <= epsilon && onSegment(b1, b2, a2)) ||
+    (Math.abs(d3) <= epsilon && onSegment(a1, a2, b1)) ||
+    (Math.abs(d4) <= epsilon && onSegment(a1, a2, b2));
+}
+
+/**
+ * Angle travelled from an arc's start towards the given angle in the sweep direction, in [0, 2π)
+ */
+function arcTravel(arc: Extract<ContourSegment, { type: 'arc' }>, angle: number): number {
+  const startAngle = Math.atan2(arc.start.y - arc.center.y, arc.start.x - arc.center.x);
+  const travelled = (angle - startAngle) * (arc.sweep >= 0 ? 1 : -1);
+  return ((travelled % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+}
+
+/**
+ * Distance from p to the nearest point of a segment
+ */
+export function distanceToSegment(p: Point2D, segment: ContourSegment): number {
+  const toChord = (a: Point2D, b: Point2D) => {
+    const step = distance(a, b);
+    const t = step > 0
+      ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (step * step)))
+      : 0;
+    return distance(p, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  };
+
+  switch (segment.type) {
+    case 'line':
+      return toChord(segment.start, segment.end);
+    case 'arc': {
+      const travelled = arcTravel(segment, Math.atan2(p.y - segment.center.y, p.x - segment.center.x));
+      if (travelled <= Math.abs(segment.sweep)) {
+        return Math.abs(distance(p, segment.center) - segment.radius);
+      }
+      return Math.min(distance(p, segment.start), distance(p, segment.end));
+    }
+    case 'curve': {
+      let best = Infinity;
+      for (let i = 1; i < segment.points.length; i++) {
+        best = Math.min(best, toChord(segment.points[i - 1], segment.points[i]));
+      }
+      return best;
+    }
+  }
+}
+
+/**
+ * Crossing points of two line or arc segments, with their arc-length positions along each.
+ * Parallel lines and concentric arcs report no crossings.
+ */
+export function segmentIntersections(
+  a: Exclude<ContourSegment, { type: 'curve' }>,
+  b: Exclude<ContourSegment, { type: 'curve' }>,
+  epsilon = 1e-9
+): Array<{ point: Point2D; along: [number, number] }> {
+  const results: Array<{ point: Point2D; along: [number, number] }> = [];
+
+  // Arc-length position of a point on the segment, or null when it lies outside it
+  const positionOn = (segment: Exclude<ContourSegment, { type: 'curve' }>, p: Point2D): number | null => {
+    if (segment.type === 'line') {
+      const length = distance(segment.start, segment.end);
+      if (length === 0) return null;
+      const t = ((p.x - segment.start.x) * (segment.end.x - segment.start.x) +
+        (p.y - segment.start.y) * (segment.end.y - segment.start.y)) / (length * length);
+      return t >= -epsilon && t <= 1 + epsilon ? Math.max(0, Math.min(1, t)) * length : null;
+    }
+    const sweep = Math.abs(segment.sweep);
+    const travelled = arcTravel(segment, Math.atan2(p.y - segment.center.y, p.x - segment.center.x));
+    const slack = epsilon / Math.max(segment.radius, epsilon);
+    if (travelled <= sweep + slack) return Math.min(travelled, sweep) * segment.radius;
+    if (travelled >= 2 * Math.PI - slack) return 0;
+    return null;
+  };
+
+  const add = (p: Point2D) => {
+    const s = positionOn(a, p);
+    const t = positionOn(b, p);
+    if (s !== null && t !== null) results.push({ point: p, along: [s, t] });
+  };
+
+  if (a.type === 'line' && b.type === 'line') {
+    const r = { x: a.end.x - a.start.x, y: a.end.y - a.start.y };
+    const s = { x: b.end.x - b.start.x, y: b.end.y - b.start.y };
+    const denominator = r.x * s.y - r.y * s.x;
+    if (Math.abs(denominator) <= epsilon * Math.hypot(r.x, r.y) * Math.hypot(s.x, s.y)) return results;
+    const t = ((b.start.x - a.start.x) * s.y - (b.start.y - a.start.y) * s.x) / denominator;
+    add({ x: a.start.x + r.x * t, y: a.start.y + r.y * t });
+    return results;
+  }
+
+  if (a.type === 'line' || b.type === 'line') {
+    const line = (a.type === 'line' ? a : b) as Extract<ContourSegment, { type: 'line' }>;
+    const arc = (a.type === 'arc' ? a : b) as Extract<ContourSegment, { type: 'arc' }>;
+    const d = { x: line.end.x - line.start.x, y: line.end.y - line.start.y };
+    const f = { x: line.start.x - arc.center.x, y: line.start.y - arc.center.y };
+    const qa = d.x * d.x + d.y * d.y;
+    const qb = 2 * (f.x * d.x + f.y * d.y);
+    const qc = f.x * f.x + f.y * f.y - arc.radius * arc.radius;
+    const discriminant = qb * qb - 4 * qa * qc;
+    if (qa === 0 || discriminant < -epsilon * qa) return results;
+    const root = Math.sqrt(Math.max(0, discriminant));
+    const roots = root === 0 ? [-qb / (2 * qa)] : [(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)];
+    roots.forEach(t => add({ x: line.start.x + d.x * t, y: line.start.y + d.y * t }));
+    return results;
+  }
+
+  const gap = distance(a.center, b.center);
+  if (gap <= epsilon || gap > a.radius + b.radius + epsilon || gap < Math.abs(a.radius - b.radius) - epsilon) {
+    return results;
+  }
+  const along = (gap * gap + a.radius * a.radius - b.radius * b.radius) / (2 * gap);
+  const h = Math.sqrt(Math.max(0, a.radius * a.radius - along * along));
+  const ux = (b.center.x - a.center.x) / gap;
+  const uy = (b.center.y - a.center.y) / gap;
+  const base = { x: a.center.x + ux * along, y: a.center.y + uy * along };
+  add({ x: base.x - uy * h, y: base.y + ux * h });
+  if (h > epsilon) add({ x: base.x + uy * h, y: base.y - ux * h });
+  return results;
+}
+
+/**
+ * Outline and hole contours of a shape as true segments (arcs kept), in the same
+ * coordinates and with the same hole rules as shapeToPolygons
+ */
+export function shapeToContours(
+  shape: GeometryShape,
+  tolerance = DEFAULT_CHORD_TOLERANCE
+): { outline: ContourSegment[]; holes: ContourSegment[][] } {
+  const closedLines = (points: Point2D[]): ContourSegment[] =>
+    points.map((p, i) => ({ type: 'line', start: p, end: points[(i + 1) % points.length] }));
+  const positionedHoles = () =>
+    (shape.holes || [])
+      .filter(hole => hole.contour || hole.type === 'polygon')
+      .map(hole => shapeToContours(hole, tolerance).outline)
+      .filter(hole => hole.length > 0);
+
+  if (shape.contour) {
+    return { outline: shape.contour, holes: positionedHoles() };
+  }
+
+  if (shape.type === 'circle') {
+    const r = shape.dimensions.radius;
+    const center = { x: r, y: r };
+    return {
+      outline: [
+        { type: 'arc', start: { x: 2 * r, y: r }, end: { x: 0, y: r }, center, radius: r, sweep: Math.PI },
+        { type: 'arc', start: { x: 0, y: r }, end: { x: 2 * r, y: r }, center, radius: r, sweep: Math.PI }
+      ],
+      holes: []
+    };
+  }
+
+  const { outline } = shapeToPolygons(shape, tolerance);
+  return {
+    outline: outline.length >= 3 ? closedLines(outline) : [],
+    holes: shape.type === 'polygon' ? positionedHoles() : []
+  };
+}
+
+/**
+ * Even-odd ray casting point-in-polygon test
+ */
+export function pointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y)) {
+      const xCross = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+      if (point.x < xCross) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * True when every vertex of the inner polygon lies inside the outer polygon
+ */
+export function polygonContainsPolygon(outer: Point2D[], inner: Point2D[]): boolean {
+  return inner.every(p => pointInPolygon(p, outer));
+}
+
+// ============================================================================
+// Contour Nesting
+// ============================================================================
+
+export interface NestedContour {
+  index: number; // position in the input list
+  segments: ContourSegment[]; // outlines counter-clockwise, holes clockwise
+  polygon: Point2D[]; // flattened, same orientation as segments
+  bounds: Bounds2D;
+}
+
+export interface ContourGroup {
+  outline: NestedContour;
+  holes: NestedContour[];
+}
+
+/**
+ * Group closed contours into parts by containment depth: even depth = outline,
+ * odd depth = hole of its parent. Islands inside holes become separate parts.
+ * Degenerate (zero-area) contours are returned by index and left out of the groups.
+ */
+export function groupContoursByContainment(
+  contours: ContourSegment[][],
+  tolerance = DEFAULT_CHORD_TOLERANCE
+): { groups: ContourGroup[]; degenerate: number[] } {
+  const degenerate: number[] = [];
+  const items = contours
+    .map((segments, index) => {
+      const polygon = flattenContour(segments, tolerance);
+      return { index, segments, polygon, area: polygonArea(polygon), depth: 0, parent: -1 };
+    })
+    .filter(item => {
+      if (item.polygon.length < 3 || item.area === 0) {
+        degenerate.push(item.index);
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.area - a.area);
+
+  items.forEach((item, position) => {
+    for (let j = position - 1; j >= 0; j--) {
+      if (items[j].area > item.area && pointInPolygon(item.polygon[0], items[j].polygon)) {
+        item.parent = j;
+        item.depth = items[j].depth + 1;
+        break;
+      }
+    }
+  });
+
+  const groups: ContourGroup[] = [];
+  const groupByItem = new Map<number, ContourGroup>();
+
+  items.forEach((item, position) => {
+    const isHole = item.depth % 2 === 1;
+    const isCounterClockwise = signedPolygonArea(item.polygon) > 0;
+    const needsReverse = isCounterClockwise === isHole;
+    const nested: NestedContour = {
+      index: item.index,
+      segments: needsReverse ? reverseContour(item.segments) : item.segments,
+      polygon: needsReverse ? [...item.polygon].reverse() : item.polygon,
+      bounds: polygonBounds(item.polygon)
+    };
+
+    if (isHole) {
+      groupByItem.get(item.parent)!.holes.push(nested);
+    } else {
+      const group: ContourGroup = { outline: nested, holes: [] };
+      groups.push(group);
+      groupByItem.set(position, group);
+    }
+  });
+
+  return { groups, degenerate };
+}
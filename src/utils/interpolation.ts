@@ -0,0 +1,20 @@
+/**
+ * Interpolation Utilities
+ * Table lookups shared by the material registry and the imported cutting charts
+ */
+
+/**
+ * Neighbouring grid values around a target in an ascending list. Targets off either
+ * end get the end value twice.
+ */
+export function bracket(values: number[], target: number): [number, number] {
+  const last = values[values.length - 1];
+  if (target <= values[0]) return [values[0], values[0]];
+  if (target >= last) return [last, last];
+  const upper = values.findIndex(value => value >= target);
+  return [values[upper - 1], values[upper]];
+}
+
+export function lerp(x0: number, x1: number, y0: number, y1: number, x: number): number {
+  return x1 === x0 ? y0 : y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+}
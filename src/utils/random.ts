@@ -0,0 +1,45 @@
+/**
+ * Random Utilities
+ * Seedable pseudo-random numbers for the nesting search and the stochastic engines,
+ * so the same seed always gives the same result
+ */
+
+/**
+ * Uniform numbers in [0, 1) from a 32-bit seed (Mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A standard normal draw (Box-Muller) from a uniform source
+ */
+export function standardNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1], keeps the log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * A gamma draw with unit scale (Marsaglia-Tsang); shapes below 1 are boosted and scaled back
+ */
+export function gammaRandom(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return gammaRandom(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = standardNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Unit Utilities
+ * Conversion between the canonical units calculators work in (mm, mm/min, bar, L/min, kg,
+ * °C) and the user's unit system, plus sheet gauge lookups for imperial thickness
+ */
+
+import type { MaterialFamily } from '../types/calculator';
+import type { UserPreferences } from '../types/memory';
+import { SHEET_GAUGES } from '../data/sheetGauges';
+
+export type UnitSystem = UserPreferences['defaultUnits'];
+
+export type Dimension =
+  | 'length'
+  | 'area'
+  | 'volume'
+  | 'speed'
+  | 'pressure'
+  | 'flow'
+  | 'mass'
+  | 'temperature'
+  | 'temperatureRate'
+  | 'pricePerMass'
+  | 'power'
+  | 'frequency';
+
+interface UnitDefinition {
+  dimension: Dimension;
+  factor: number; // size of one unit in the dimension's base unit
+  offset?: number; // base value at zero of this unit, for temperatures
+}
+
+/**
+ * Known units. Each dimension's base unit is the metric unit with factor 1.
+ */
+const UNITS: Record<string, UnitDefinition> = {
+  'mm': { dimension: 'length', factor: 1 },
+  'μm': { dimension: 'length', factor: 0.001 },
+  'm': { dimension: 'length', factor: 1000 },
+  'in': { dimension: 'length', factor: 25.4 },
+  'mil': { dimension: 'length', factor: 0.0254 },
+  'ft': { dimension: 'length', factor: 304.8 },
+  'mm²': { dimension: 'area', factor: 1 },
+  'in²': { dimension: 'area', factor: 645.16 },
+  'mm³': { dimension: 'volume', factor: 1 },
+  'in³': { dimension: 'volume', factor: 16387.064 },
+  'mm/min': { dimension: 'speed', factor: 1 },
+  'm/min': { dimension: 'speed', factor: 1000 },
+  'ipm': { dimension: 'speed', factor: 25.4 },
+  'ft/min': { dimension: 'speed', factor: 304.8 },
+  'bar': { dimension: 'pressure', factor: 1 },
+  'psi': { dimension: 'pressure', factor: 0.0689475729 },
+  'L/min': { dimension: 'flow', factor: 1 },
+  'm³/h': { dimension: 'flow', factor: 1000 / 60 },
+  'scfh': { dimension: 'flow', factor: 28.316846592 / 60 },
+  'kg': { dimension: 'mass', factor: 1 },
+  'g': { dimension: 'mass', factor: 0.001 },
+  'lb': { dimension: 'mass', factor: 0.45359237 },
+  '°C': { dimension: 'temperature', factor: 1 },
+  '°F': { dimension: 'temperature', factor: 5 / 9, offset: -160 / 9 },
+  '°C/s': { dimension: 'temperatureRate', factor: 1 },
+  '°F/s': { dimension: 'temperatureRate', factor: 5 / 9 },
+  '$/kg': { dimension: 'pricePerMass', factor: 1 },
+  '$/lb': { dimension: 'pricePerMass', factor: 1 / 0.45359237 },
+  'W': { dimension: 'power', factor: 1 },
+  'kW': { dimension: 'power', factor: 1000 },
+  'Hz': { dimension: 'frequency', factor: 1 },
+  'kHz': { dimension: 'frequency', factor: 1000 }
+};
+
+/**
+ * The imperial unit shown for each canonical unit. Units not listed (W, Hz, %, USD)
+ * read the same in both systems.
+ */
+const IMPERIAL_UNITS: Record<string, string> = {
+  'mm': 'in',
+  'μm': 'mil',
+  'm': 'ft',
+  'mm²': 'in²',
+  'mm³': 'in³',
+  'mm/min': 'ipm',
+  'm/min': 'ft/min',
+  'bar': 'psi',
+  'L/min': 'scfh',
+  'm³/h': 'scfh',
+  'kg': 'lb',
+  '°C': '°F',
+  '°C/s': '°F/s',
+  '$/kg': '$/lb'
+};
+
+// Significant digits kept after a conversion, so that round trips read back cleanly
+const PRECISION = 12;
+
+export function dimensionOf(unit: string): Dimension | undefined {
+  return UNITS[unit]?.dimension;
+}
+
+/**
+ * The known unit a label names, ignoring case and spaces ("KW", "m / min"); undefined if none
+ */
+export function parseUnit(label: string): string | undefined {
+  const wanted = label.replace(/\s+/g, '').toLowerCase();
+  return Object.keys(UNITS).find(unit => unit.toLowerCase() === wanted);
+}
+
+export function convert(value: number, from: string, to: string): number {
+  if (from === to) return value;
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (!source || !target || source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+  const base = value * source.factor + (source.offset ?? 0);
+  return Number(((base - (target.offset ?? 0)) / target.factor).toPrecision(PRECISION));
+}
+
+/**
+ * The unit a field declared in a canonical unit is shown in for a unit system
+ */
+export function unitFor(unit: string, system: UnitSystem): string {
+  return system === 'imperial' ? IMPERIAL_UNITS[unit] ?? unit : unit;
+}
+
+/**
+ * A canonical value in the user's unit system
+ */
+export function toUnitSystem(value: number, unit: string, system: UnitSystem): number {
+  return convert(value, unit, unitFor(unit, system));
+}
+
+/**
+ * A value entered in the user's unit system, in the canonical unit
+ */
+export function fromUnitSystem(value: number, unit: string, system: UnitSystem): number {
+  return convert(value, unitFor(unit, system), unit);
+}
+
+/**
+ * Copy of values with the numeric fields named in units (dotted paths reach into
+ * nested objects) converted to or from the unit system. Other fields are copied as is.
+ */
+export function convertValues<T extends Record<string, unknown>>(
+  values: T,
+  units: Record<string, string>,
+  system: UnitSystem,
+  direction: 'toUnitSystem' | 'fromUnitSystem'
+): T {
+  const converted = structuredClone(values);
+
+  Object.entries(units).forEach(([path, unit]) => {
+    const keys = path.split('.');
+    const last = keys.pop() as string;
+    const parent = keys.reduce<unknown>(
+      (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+      converted
+    ) as Record<string, unknown> | undefined;
+    const value = parent?.[last];
+    if (!parent || typeof value !== 'number') return;
+    parent[last] = direction === 'toUnitSystem'
+      ? toUnitSystem(value, unit, system)
+      : fromUnitSystem(value, unit, system);
+  });
+
+  return converted;
+}
+
+// ============================================================================
+// Sheet gauges
+// ============================================================================
+
+export interface SheetGauge {
+  gauge: number;
+  thickness: number; // mm
+}
+
+/**
+ * Gauges for a material family, thickest first; empty for families without a gauge convention
+ */
+export function gaugesFor(family: MaterialFamily): SheetGauge[] {
+  return Object.entries(SHEET_GAUGES[family] ?? {})
+    .map(([gauge, inches]) => ({ gauge: Number(gauge), thickness: convert(inches, 'in', 'mm') }))
+    .sort((a, b) => a.gauge - b.gauge);
+}
+
+/**
+ * Thickness in mm of a gauge number, if the family's table has it
+ */
+export function gaugeToThickness(gauge: number, family: MaterialFamily): number | undefined {
+  return gaugesFor(family).find(entry => entry.gauge === gauge)?.thickness;
+}
+
+/**
+ * The gauge whose thickness is within a relative tolerance of a thickness in mm, if any
+ */
+export function thicknessToGauge(thickness: number, family: MaterialFamily, tolerance = 0.02): number | undefined {
+  const nearest = gaugesFor(family).reduce<SheetGauge | undefined>((best, entry) =>
+    !best || Math.abs(entry.thickness - thickness) < Math.abs(best.thickness - thickness) ? entry : best,
+    undefined
+  );
+  return nearest && Math.abs(nearest.thickness - thickness) <= thickness * tolerance ? nearest.gauge : undefined;
+}
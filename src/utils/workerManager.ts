@@ -1,354 +1,421 @@
-// Web Worker管理器 - 协调主线程和Worker通信
+/**
+ * Worker Manager
+ * Pool of module workers that run the feature calculators and the nesting optimizer off the
+ * main thread, with progress events, cancellation and timeouts. Heavy runs (sensitivity,
+ * Monte Carlo, optimization and nesting) are offloaded automatically; everything runs on the
+ * main thread instead when workers are unavailable.
+ */
 
-interface WorkerMessage {
-  type: string;
-  id: string;
-  calculatorType: string;
-  inputs: any;
-  options?: any;
+import type { BaseCalculationResult, IBaseCalculator } from '../lib/calculator/BaseCalculator';
+import type { MaterialNestingInputs, MaterialNestingResults } from '../services/calculators/materialNestingOptimizer';
+import type {
+  WorkerProgress,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTask,
+  WorkerTaskResult
+} from '../workers/calculationProtocol';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { WorkerProgress, WorkerTask } from '../workers/calculationProtocol';
+
+export interface WorkerRunOptions {
+  signal?: AbortSignal; // aborting stops the worker running the task; see runOnMainThread
+  timeout?: number; // ms, overrides the pool default; see runOnMainThread
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+export interface WorkerPoolOptions {
+  size: number;
+  timeout: number; // ms
+  createWorker: () => Worker;
 }
 
-interface WorkerResponse {
-  type: string;
+interface PoolTask {
   id: string;
-  result?: any;
-  error?: any;
-  timestamp: number;
+  task: WorkerTask;
+  options: WorkerRunOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  fallback: () => void; // runs the main-thread version and settles with it
+  detach: () => void; // removes the abort listener and timer
+  slot?: WorkerSlot;
 }
 
-interface PendingTask {
-  resolve: (value: any) => void;
-  reject: (error: any) => void;
-  startTime: number;
-  calculatorType: string;
+interface WorkerSlot {
+  worker: Worker;
+  storage: string; // storage snapshot the worker was started with
+  task: PoolTask | null;
+  started: boolean; // has answered at least once, so it loaded
 }
 
-/**
- * Web Worker管理器
- * 负责管理计算Worker的生命周期和任务调度
- */
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Browser storage the calculators read through their registries
+const WORKER_STORAGE_KEYS = ['laser-calc-materials', 'laser-calc-machines', 'laser-calc-cutting-charts'];
+
+// Calculators whose runs are offloaded, by the inputs that make them heavy
+const OFFLOADED_CALCULATORS: Record<string, (inputs: Record<string, unknown>) => boolean> = {
+  'sensitivity-analysis-calculator': inputs => ['monte_carlo', 'sobol', 'morris'].includes(String(inputs.analysisType)),
+  'cost-benefit-analyzer': inputs => inputs.analysisType === 'monte_carlo',
+  'tolerance-stack-calculator': inputs => Array.isArray(inputs.chain) && inputs.chain.length > 0,
+  'process-optimization-engine': () => true
+};
+
+const DEFAULT_OPTIONS: WorkerPoolOptions = {
+  size: Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2) - 1)),
+  timeout: 60000,
+  createWorker: () => new Worker(new URL('../workers/calculation.worker.ts', import.meta.url), { type: 'module' })
+};
+
+// ============================================================================
+// Worker Manager
+// ============================================================================
+
 export class WorkerManager {
-  private worker: Worker | null = null;
-  private pendingTasks = new Map<string, PendingTask>();
-  private isInitialized = false;
+  private options: WorkerPoolOptions;
+  private slots: WorkerSlot[] = [];
+  private queue: PoolTask[] = [];
+  private unavailable = typeof Worker === 'undefined';
   private taskCounter = 0;
   private stats = {
     tasksCompleted: 0,
     tasksErrored: 0,
+    tasksCancelled: 0,
+    mainThreadRuns: 0,
     totalComputeTime: 0,
     averageComputeTime: 0
   };
 
-  constructor() {
-    this.initializeWorker();
+  constructor(options?: Partial<WorkerPoolOptions>) {
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+    this.options = { ...DEFAULT_OPTIONS, ...Object.fromEntries(given) };
+    if (options?.createWorker) this.unavailable = false;
   }
 
   /**
-   * 初始化Worker
+   * Whether runs of this calculator with these inputs go to a worker
    */
-  private initializeWorker(): void {
-    try {
-      this.worker = new Worker('/workers/calculation-worker.js');
-      this.worker.onmessage = this.handleWorkerMessage.bind(this);
-      this.worker.onerror = this.handleWorkerError.bind(this);
-      this.isInitialized = true;
-      console.log('✅ Calculation Worker initialized');
-    } catch (error) {
-      console.error('❌ Failed to initialize Worker:', error);
-      this.isInitialized = false;
-    }
+  shouldOffload(calculatorId: string, inputs: Record<string, unknown>): boolean {
+    return OFFLOADED_CALCULATORS[calculatorId]?.(inputs) ?? false;
   }
 
   /**
-   * 处理Worker消息
+   * Runs the calculator, in a worker when its inputs make it a heavy run. Inputs are expected
+   * resolved (machine applied) and valid, as for calculate().
    */
-  private handleWorkerMessage(event: MessageEvent<WorkerResponse>): void {
-    const { type, id, result, error, timestamp } = event.data;
-    const task = this.pendingTasks.get(id);
-
-    if (!task) {
-      console.warn(`⚠️ Received response for unknown task: ${id}`);
-      return;
-    }
-
-    const computeTime = timestamp - task.startTime;
-    this.updateStats(computeTime, type === 'ERROR');
-
-    if (type === 'RESULT') {
-      task.resolve(result);
-      console.log(`✅ Task ${id} completed in ${computeTime}ms`);
-    } else if (type === 'ERROR') {
-      task.reject(new Error(error.message));
-      console.error(`❌ Task ${id} failed:`, error.message);
+  async calculate(
+    calculator: IBaseCalculator,
+    inputs: Record<string, unknown>,
+    options: WorkerRunOptions = {}
+  ): Promise<BaseCalculationResult> {
+    const mainThread = () => calculator.calculate(inputs);
+    if (!this.shouldOffload(calculator.config.id, inputs)) {
+      return mainThread();
     }
-
-    this.pendingTasks.delete(id);
+    return this.run({ kind: 'calculate', calculatorId: calculator.config.id, inputs }, mainThread, options);
   }
 
   /**
-   * 处理Worker错误
+   * Runs the calculator once per set of inputs in one worker, reporting progress per item
    */
-  private handleWorkerError(error: ErrorEvent): void {
-    console.error('❌ Worker error:', error);
-    
-    // 重新初始化Worker
-    this.terminateWorker();
-    setTimeout(() => this.initializeWorker(), 1000);
+  async calculateBatch(
+    calculator: IBaseCalculator,
+    inputs: Record<string, unknown>[],
+    options: WorkerRunOptions = {}
+  ): Promise<BaseCalculationResult[]> {
+    return this.run({ kind: 'batch', calculatorId: calculator.config.id, inputs }, async () => {
+      const results: BaseCalculationResult[] = [];
+      for (const [index, item] of inputs.entries()) {
+        options.onProgress?.({ completed: index, total: inputs.length, stage: calculator.config.id });
+        results.push(await calculator.calculate(item));
+      }
+      return results;
+    }, options);
   }
 
   /**
-   * 执行计算任务
+   * Nests a job with the material nesting optimizer
    */
-  async calculate(calculatorType: string, inputs: any): Promise<any> {
-    if (!this.isInitialized || !this.worker) {
-      throw new Error('Worker not initialized');
-    }
-
-    const taskId = this.generateTaskId();
-    const startTime = performance.now();
-
-    return new Promise((resolve, reject) => {
-      // 设置超时
-      const timeout = setTimeout(() => {
-        this.pendingTasks.delete(taskId);
-        reject(new Error('Calculation timeout'));
-      }, 30000); // 30秒超时
-
-      this.pendingTasks.set(taskId, {
-        resolve: (result) => {
-          clearTimeout(timeout);
-          resolve(result);
-        },
-        reject: (error) => {
-          clearTimeout(timeout);
-          reject(error);
-        },
-        startTime,
-        calculatorType
-      });
-
-      // 发送任务到Worker
-      this.worker!.postMessage({
-        type: 'CALCULATE',
-        id: taskId,
-        calculatorType,
-        inputs
-      });
-    });
+  async nest(inputs: MaterialNestingInputs, options: WorkerRunOptions = {}): Promise<MaterialNestingResults> {
+    return this.run({ kind: 'nesting', inputs }, async () => {
+      const { materialNestingOptimizer } = await import('../services/calculators/materialNestingOptimizer');
+      return materialNestingOptimizer.calculate(inputs);
+    }, options);
   }
 
   /**
-   * 批量计算
+   * Queues a task for the pool. Without workers, or when the workers cannot start, the
+   * main-thread version runs instead, which cannot be cancelled (see runOnMainThread).
    */
-  async batchCalculate(calculatorType: string, inputsArray: any[]): Promise<any[]> {
-    if (!this.isInitialized || !this.worker) {
-      throw new Error('Worker not initialized');
+  run<T extends WorkerTask>(
+    task: T,
+    mainThread: () => Promise<WorkerTaskResult<T>>,
+    options: WorkerRunOptions = {}
+  ): Promise<WorkerTaskResult<T>> {
+    if (options.signal?.aborted) {
+      return Promise.reject(cancelledError());
+    }
+    if (this.unavailable) {
+      return this.runOnMainThread(mainThread, options);
     }
 
-    const taskId = this.generateTaskId();
-    const startTime = performance.now();
-
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pendingTasks.delete(taskId);
-        reject(new Error('Batch calculation timeout'));
-      }, 60000); // 60秒超时
-
-      this.pendingTasks.set(taskId, {
-        resolve: (result) => {
-          clearTimeout(timeout);
-          resolve(result);
-        },
-        reject: (error) => {
-          clearTimeout(timeout);
-          reject(error);
-        },
-        startTime,
-        calculatorType
-      });
-
-      this.worker!.postMessage({
-        type: 'BATCH_CALCULATE',
-        id: taskId,
-        calculatorType,
-        inputs: inputsArray
-      });
+    return new Promise<WorkerTaskResult<T>>((resolve, reject) => {
+      const poolTask: PoolTask = {
+        id: `task_${++this.taskCounter}_${Date.now()}`,
+        task,
+        options,
+        resolve: result => resolve(result as WorkerTaskResult<T>),
+        reject,
+        fallback: () => this.runOnMainThread(mainThread, options).then(resolve, reject),
+        detach: () => {}
+      };
+
+      const timeout = options.timeout ?? this.options.timeout;
+      const timer = setTimeout(() => this.abandon(poolTask, new Error(`Calculation timed out after ${timeout} ms`)), timeout);
+      const onAbort = () => this.abandon(poolTask, cancelledError(), true);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      poolTask.detach = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.queue.push(poolTask);
+      this.pump();
     });
   }
 
+  getStats() {
+    return {
+      ...this.stats,
+      pendingTasks: this.queue.length + this.slots.filter(slot => slot.task).length,
+      activeWorkers: this.slots.length,
+      poolSize: this.options.size,
+      isInitialized: !this.unavailable
+    };
+  }
+
   /**
-   * 敏感度分析
+   * Stops every worker and rejects the tasks they were running or waiting for
    */
-  async performSensitivityAnalysis(
-    calculatorType: string,
-    baseInputs: any,
-    variableRanges: Record<string, { min: number; max: number }>
-  ): Promise<any> {
-    if (!this.isInitialized || !this.worker) {
-      throw new Error('Worker not initialized');
-    }
-
-    const taskId = this.generateTaskId();
-    const startTime = performance.now();
-
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pendingTasks.delete(taskId);
-        reject(new Error('Sensitivity analysis timeout'));
-      }, 45000); // 45秒超时
-
-      this.pendingTasks.set(taskId, {
-        resolve: (result) => {
-          clearTimeout(timeout);
-          resolve(result);
-        },
-        reject: (error) => {
-          clearTimeout(timeout);
-          reject(error);
-        },
-        startTime,
-        calculatorType
-      });
-
-      this.worker!.postMessage({
-        type: 'SENSITIVITY_ANALYSIS',
-        id: taskId,
-        calculatorType,
-        inputs: baseInputs,
-        options: { variableRanges }
-      });
+  terminate(): void {
+    const tasks = [...this.queue, ...this.slots.flatMap(slot => (slot.task ? [slot.task] : []))];
+    this.queue = [];
+    this.slots.forEach(slot => slot.worker.terminate());
+    this.slots = [];
+    tasks.forEach(task => {
+      task.detach();
+      task.reject(new Error('Worker pool terminated'));
     });
   }
 
-  /**
-   * 检查是否应该使用Worker
-   */
-  shouldUseWorker(calculatorType: string, inputs: any): boolean {
-    // 复杂计算使用Worker
-    const complexCalculators = [
-      'material-nesting-optimizer',
-      'batch-processing',
-      'production-capacity',
-      'job-queue-optimizer'
-    ];
-
-    if (complexCalculators.includes(calculatorType)) {
-      return true;
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  private pump(): void {
+    const storage = storageSnapshot();
+
+    // Workers started with older materials or machines are replaced once idle
+    for (const slot of this.slots.filter(slot => !slot.task && slot.storage !== storage)) {
+      this.retire(slot);
     }
 
-    // 大数据量使用Worker
-    if (inputs.quantity && inputs.quantity > 100) {
-      return true;
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(candidate => !candidate.task);
+      if (!slot) {
+        if (this.slots.length >= this.options.size) return;
+        slot = this.startWorker(storage) ?? undefined;
+        if (!slot) return;
+      }
+
+      const task = this.queue.shift()!;
+      slot.task = task;
+      task.slot = slot;
+      const request: WorkerRequest = { type: 'run', id: task.id, task: task.task };
+      slot.worker.postMessage(request);
     }
+  }
 
-    // 敏感度分析使用Worker
-    if (inputs.performSensitivityAnalysis) {
-      return true;
+  private startWorker(storage: string): WorkerSlot | null {
+    let worker: Worker;
+    try {
+      worker = this.options.createWorker();
+    } catch (error) {
+      console.warn('⚠️ Calculation workers unavailable, running on the main thread:', error);
+      this.fallBackToMainThread();
+      return null;
     }
 
-    return false;
+    const slot: WorkerSlot = { worker, storage, task: null, started: false };
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(slot, event.data);
+    worker.onerror = (event: ErrorEvent) => this.handleCrash(slot, event);
+    const init: WorkerRequest = { type: 'init', storage: JSON.parse(storage) };
+    worker.postMessage(init);
+    this.slots.push(slot);
+    return slot;
   }
 
-  /**
-   * 获取统计信息
-   */
-  getStats() {
-    return {
-      ...this.stats,
-      pendingTasks: this.pendingTasks.size,
-      isInitialized: this.isInitialized
-    };
+  private handleMessage(slot: WorkerSlot, response: WorkerResponse): void {
+    slot.started = true;
+    const task = slot.task;
+    if (!task || task.id !== response.id) return;
+
+    if (response.type === 'progress') {
+      task.options.onProgress?.(response.progress);
+      return;
+    }
+
+    slot.task = null;
+    task.slot = undefined;
+    task.detach();
+    if (response.type === 'result') {
+      this.record(response.duration, false);
+      task.resolve(response.result);
+    } else {
+      this.record(0, true);
+      task.reject(new Error(response.message));
+    }
+    this.pump();
   }
 
   /**
-   * 终止Worker
+   * A worker that fails before it ever answers could not load (no module worker support, a
+   * blocked script): the pool gives up on workers. A crash mid-task fails only that task.
    */
-  terminateWorker(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+  private handleCrash(slot: WorkerSlot, event: ErrorEvent): void {
+    event.preventDefault?.();
+    const task = slot.task;
+    this.retire(slot);
+
+    if (!slot.started) {
+      console.warn('⚠️ Calculation worker failed to start, running on the main thread:', event.message);
+      this.fallBackToMainThread();
+      if (task) {
+        task.detach();
+        task.fallback();
+      }
+      return;
     }
-    
-    // 拒绝所有待处理的任务
-    for (const [id, task] of this.pendingTasks.entries()) {
-      task.reject(new Error('Worker terminated'));
+    if (task) {
+      task.detach();
+      this.record(0, true);
+      task.reject(new Error(event.message || 'Calculation worker crashed'));
     }
-    
-    this.pendingTasks.clear();
-    this.isInitialized = false;
-    console.log('🛑 Worker terminated');
+    this.pump();
   }
 
   /**
-   * 生成任务ID
+   * Timeout or cancellation: a queued task is dropped, a running one takes its worker with it
    */
-  private generateTaskId(): string {
-    return `task_${++this.taskCounter}_${Date.now()}`;
+  private abandon(task: PoolTask, error: Error, cancelled = false): void {
+    task.detach();
+    if (task.slot) {
+      this.retire(task.slot);
+    } else {
+      this.queue = this.queue.filter(queued => queued !== task);
+    }
+    if (cancelled) this.stats.tasksCancelled++;
+    else this.record(0, true);
+    task.reject(error);
+    this.pump();
+  }
+
+  private retire(slot: WorkerSlot): void {
+    slot.worker.terminate();
+    slot.task = null;
+    this.slots = this.slots.filter(candidate => candidate !== slot);
+  }
+
+  private fallBackToMainThread(): void {
+    this.unavailable = true;
+    const waiting = this.queue;
+    this.queue = [];
+    waiting.forEach(task => {
+      task.detach();
+      task.fallback();
+    });
   }
 
   /**
-   * 更新统计信息
+   * Runs the main-thread version of a task. Unlike a worker it cannot be cancelled: an abort
+   * or timeout only rejects the returned promise, and the calculation runs on to the end.
+   * Calculators are synchronous, so they block the page until they finish and the timer and
+   * abort listener only get to run afterwards, by which time the result has usually won.
+   * An already aborted signal stops the task from starting.
    */
-  private updateStats(computeTime: number, isError: boolean): void {
+  private async runOnMainThread<R>(mainThread: () => Promise<R>, options: WorkerRunOptions): Promise<R> {
+    if (options.signal?.aborted) {
+      throw cancelledError();
+    }
+    this.stats.mainThreadRuns++;
+    const timeout = options.timeout ?? this.options.timeout;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort = () => {};
+
+    const stopped = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Calculation timed out after ${timeout} ms`)), timeout);
+      onAbort = () => reject(cancelledError());
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const start = performance.now();
+    try {
+      const result = await Promise.race([mainThread(), stopped]);
+      this.record(performance.now() - start, false);
+      return result;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private record(computeTime: number, isError: boolean): void {
     if (isError) {
       this.stats.tasksErrored++;
-    } else {
-      this.stats.tasksCompleted++;
-      this.stats.totalComputeTime += computeTime;
-      this.stats.averageComputeTime = this.stats.totalComputeTime / this.stats.tasksCompleted;
+      return;
     }
+    this.stats.tasksCompleted++;
+    this.stats.totalComputeTime += computeTime;
+    this.stats.averageComputeTime = this.stats.totalComputeTime / this.stats.tasksCompleted;
   }
 }
 
-// 全局Worker管理器实例
-export const globalWorkerManager = new WorkerManager();
+function cancelledError(): Error {
+  const error = new Error('Calculation cancelled');
+  error.name = 'AbortError';
+  return error;
+}
 
 /**
- * 智能计算函数 - 自动选择主线程或Worker执行
+ * The storage entries workers need, as one comparable string
  */
-export async function smartCalculate(
-  calculatorType: string,
-  inputs: any,
-  fallbackFn: () => Promise<any> | any
-): Promise<any> {
-  // 检查是否应该使用Worker
-  if (globalWorkerManager.shouldUseWorker(calculatorType, inputs)) {
-    try {
-      console.log(`🔄 Using Worker for ${calculatorType}`);
-      return await globalWorkerManager.calculate(calculatorType, inputs);
-    } catch (error) {
-      console.warn(`⚠️ Worker failed for ${calculatorType}, falling back to main thread:`, error);
-      return await fallbackFn();
+function storageSnapshot(): string {
+  const entries: Record<string, string> = {};
+  if (typeof localStorage !== 'undefined') {
+    for (const key of WORKER_STORAGE_KEYS) {
+      const value = localStorage.getItem(key);
+      if (value !== null) entries[key] = value;
     }
-  } else {
-    console.log(`⚡ Using main thread for ${calculatorType}`);
-    return await fallbackFn();
   }
+  return JSON.stringify(entries);
 }
 
+// Export singleton instance
+export const globalWorkerManager = new WorkerManager();
+
 /**
- * 性能监控Hook
+ * Stops the pool; called when the page unloads
  */
-export function useWorkerPerformance() {
-  const [stats, setStats] = React.useState(globalWorkerManager.getStats());
-
-  React.useEffect(() => {
-    const interval = setInterval(() => {
-      setStats(globalWorkerManager.getStats());
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  return stats;
-}
-
-// 清理函数 - 在应用卸载时调用
 export function cleanupWorkers(): void {
-  globalWorkerManager.terminateWorker();
+  globalWorkerManager.terminate();
 }
 
-// 在页面卸载时自动清理
 if (typeof window !== 'undefined') {
   window.addEventListener('beforeunload', cleanupWorkers);
 }
@@ -0,0 +1,35 @@
+// Calculation worker entry: a module worker started by the WorkerManager pool
+
+import type { WorkerRequest, WorkerResponse } from './calculationProtocol';
+import { createCalculationHandler } from './calculationWorkerRuntime';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+/**
+ * Workers have no localStorage; the registries read custom materials, machines and cutting
+ * charts from this in-memory copy of the page's storage
+ */
+function installStorage(snapshot: Record<string, string>): void {
+  const items = new Map(Object.entries(snapshot));
+  const storage = {
+    get length() { return items.size; },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, String(value)); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+  Object.defineProperty(globalThis, 'localStorage', { value: storage as Storage, configurable: true });
+}
+
+const handle = createCalculationHandler((response, transfer) => scope.postMessage(response, transfer));
+
+scope.onmessage = event => {
+  if (event.data.type === 'init') installStorage(event.data.storage);
+  void handle(event.data);
+};
@@ -0,0 +1,60 @@
+/**
+ * Calculation Worker Protocol
+ * Messages between the WorkerManager pool and the calculation workers
+ */
+
+import type { BaseCalculationResult } from '../lib/calculator/BaseCalculator';
+import type { MaterialNestingInputs, MaterialNestingResults } from '../services/calculators/materialNestingOptimizer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WorkerTask =
+  | { kind: 'calculate'; calculatorId: string; inputs: Record<string, unknown> }
+  | { kind: 'batch'; calculatorId: string; inputs: Record<string, unknown>[] }
+  | { kind: 'nesting'; inputs: MaterialNestingInputs };
+
+export interface WorkerTaskResults {
+  calculate: BaseCalculationResult;
+  batch: BaseCalculationResult[];
+  nesting: MaterialNestingResults;
+}
+
+export type WorkerTaskResult<T extends WorkerTask> = WorkerTaskResults[T['kind']];
+
+export interface WorkerProgress {
+  completed: number;
+  total: number;
+  stage: string;
+}
+
+export type WorkerRequest =
+  | { type: 'init'; storage: Record<string, string> } // browser storage the registries load from
+  | { type: 'run'; id: string; task: WorkerTask };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: string; progress: WorkerProgress }
+  | { type: 'result'; id: string; result: unknown; duration: number }
+  | { type: 'error'; id: string; message: string };
+
+/**
+ * Buffers inside a result, so posting it moves typed-array data instead of copying it
+ */
+export function collectTransferables(value: unknown): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  const seen = new Set<object>();
+  const visit = (node: unknown) => {
+    if (!node || typeof node !== 'object' || seen.has(node)) return;
+    seen.add(node);
+    if (node instanceof ArrayBuffer) {
+      buffers.add(node);
+    } else if (ArrayBuffer.isView(node)) {
+      if (node.buffer instanceof ArrayBuffer) buffers.add(node.buffer);
+    } else {
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(value);
+  return Array.from(buffers);
+}
@@ -0,0 +1,92 @@
+/**
+ * Calculation Worker Runtime
+ * Runs worker tasks with the feature calculators from the module registry and the material
+ * nesting optimizer, the same code the main thread uses. Kept apart from the worker entry so
+ * tests can drive it without a worker.
+ */
+
+import type { IBaseCalculator } from '../lib/calculator/BaseCalculator';
+import type { MaterialNestingInputs, MaterialNestingResults } from '../services/calculators/materialNestingOptimizer';
+import {
+  collectTransferables,
+  type WorkerProgress,
+  type WorkerRequest,
+  type WorkerResponse,
+  type WorkerTask
+} from './calculationProtocol';
+
+interface Runtime {
+  calculator(id: string): IBaseCalculator;
+  nest(inputs: MaterialNestingInputs): MaterialNestingResults;
+}
+
+type Post = (response: WorkerResponse, transfer: ArrayBuffer[]) => void;
+
+/**
+ * Message handler for one worker. The calculators load on the init message, after the worker
+ * entry has restored the storage their registries read.
+ */
+export function createCalculationHandler(post: Post): (request: WorkerRequest) => Promise<void> {
+  let runtime: Promise<Runtime> | null = null;
+  const load = () => (runtime ??= loadRuntime());
+
+  return async request => {
+    if (request.type === 'init') {
+      // A failed load is reported to every task that follows
+      await load().catch(error => console.error('❌ Calculation worker failed to load:', error));
+      return;
+    }
+
+    const { id, task } = request;
+    const progress = (value: WorkerProgress) => post({ type: 'progress', id, progress: value }, []);
+    const start = performance.now();
+    try {
+      const result = await runTask(await load(), task, progress);
+      post({ type: 'result', id, result, duration: performance.now() - start }, collectTransferables(result));
+    } catch (error) {
+      post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) }, []);
+    }
+  };
+}
+
+async function runTask(runtime: Runtime, task: WorkerTask, progress: (value: WorkerProgress) => void): Promise<unknown> {
+  switch (task.kind) {
+    case 'calculate': {
+      progress({ completed: 0, total: 1, stage: task.calculatorId });
+      return runtime.calculator(task.calculatorId).calculate(task.inputs);
+    }
+    case 'batch': {
+      const calculator = runtime.calculator(task.calculatorId);
+      const results = [];
+      for (const [index, inputs] of task.inputs.entries()) {
+        progress({ completed: index, total: task.inputs.length, stage: task.calculatorId });
+        results.push(await calculator.calculate(inputs));
+      }
+      return results;
+    }
+    case 'nesting':
+      progress({ completed: 0, total: 1, stage: 'nesting' });
+      return runtime.nest(task.inputs);
+  }
+}
+
+async function loadRuntime(): Promise<Runtime> {
+  const [{ CalculatorModuleRegistry }, { registerFeatureCalculators, getFeatureCalculator }, { materialNestingOptimizer }] =
+    await Promise.all([
+      import('../core/ModuleRegistry'),
+      import('../features/calculators/registry'),
+      import('../services/calculators/materialNestingOptimizer')
+    ]);
+
+  const registry = new CalculatorModuleRegistry();
+  await registerFeatureCalculators(registry);
+
+  return {
+    calculator: id => {
+      const calculator = getFeatureCalculator(registry, id);
+      if (!calculator) throw new Error(`Unknown calculator: ${id}`);
+      return calculator;
+    },
+    nest: inputs => materialNestingOptimizer.calculate(inputs)
+  };
+}
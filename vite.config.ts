@@ -217,6 +217,11 @@ export default defineConfig(({ mode }) => {
       target: mode === 'production' ? ['es2020', 'chrome80', 'firefox78', 'safari14', 'edge88'] : 'es2015'
     },
 
+    // Calculation workers are module workers and load the calculators on demand
+    worker: {
+      format: 'es',
+    },
+
     // Development server configuration
     server: {
       port: 5173,